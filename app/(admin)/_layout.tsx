@@ -21,10 +21,20 @@ export default function AdminLayout() {
       <Stack.Screen name="live-dashboard" />
       <Stack.Screen name="settings" />
       <Stack.Screen name="sync-dashboard" />
+      <Stack.Screen name="sync-triage" />
+      <Stack.Screen name="payroll" />
+      <Stack.Screen name="pay-period-close" />
+      <Stack.Screen name="compensation-plans" />
+      <Stack.Screen name="time-corrections" />
+      <Stack.Screen name="labor-rules" />
       <Stack.Screen name="duplicates" />
       <Stack.Screen name="onboarding-manager" />
       <Stack.Screen name="onboarding-test" />
       <Stack.Screen name="field-mapping" />
+      <Stack.Screen name="survey-builder" />
+      <Stack.Screen name="consent-lookup" />
+      <Stack.Screen name="privacy-requests" />
+      <Stack.Screen name="devices" />
       <Stack.Screen name="alerts" />
       <Stack.Screen name="notifications" />
     </Stack>
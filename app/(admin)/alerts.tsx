@@ -84,9 +84,7 @@ export default function AlertsManagementScreen() {
 
     try {
       // Save alert
-      const alerts = await StorageService.getData<Alert[]>('alerts') || [];
-      alerts.push(alert);
-      await StorageService.saveData('alerts', alerts);
+      await StorageService.addAlert(alert);
 
       // Send push notifications
       const recipients = selectAll ? activeEmployees : activeEmployees.filter(e => 
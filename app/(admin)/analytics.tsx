@@ -7,9 +7,10 @@ import { useApp } from '@/hooks/useApp';
 import { DatePicker } from '@/components/ui/DatePicker';
 import { Button } from '@/components/ui/Button';
 import { SPACING, FONTS, LOWES_THEME } from '@/constants/theme';
-import { Survey, Employee, TimeEntry } from '@/types';
+import { Survey, Employee, TimeEntry, Experiment } from '@/types';
 import * as StorageService from '@/services/storageService';
 import { exportSurveysToCSV, downloadCSV, shareCSV } from '@/utils/exportData';
+import { getAllExperiments, getExperimentResults, VariantResult, RateWithInterval } from '@/services/experimentService';
 import { Platform } from 'react-native';
 
 type FilterType = 'all' | 'lowes' | 'homedepot';
@@ -22,9 +23,14 @@ export default function AnalyticsScreen() {
   const [selectedEmployee, setSelectedEmployee] = useState<string | null>(null);
   const [storeFilter, setStoreFilter] = useState<FilterType>('all');
   const [showDatePicker, setShowDatePicker] = useState<'start' | 'end' | null>(null);
+  const [experiments, setExperiments] = useState<Experiment[]>([]);
+  const [selectedExperiment, setSelectedExperiment] = useState<string | null>(null);
+  const [experimentResults, setExperimentResults] = useState<VariantResult[]>([]);
+  const [isLoadingExperiment, setIsLoadingExperiment] = useState(false);
 
   useEffect(() => {
     loadTimeEntries();
+    loadExperiments();
   }, []);
 
   const loadTimeEntries = async () => {
@@ -32,6 +38,14 @@ export default function AnalyticsScreen() {
     setTimeEntries(entries || []);
   };
 
+  const loadExperiments = async () => {
+    const all = await getAllExperiments();
+    setExperiments(all);
+    if (all.length > 0) {
+      setSelectedExperiment(all[0].id);
+    }
+  };
+
   // Filter surveys based on selected criteria
   const filteredSurveys = useMemo(() => {
     return surveys.filter(survey => {
@@ -59,6 +73,30 @@ export default function AnalyticsScreen() {
     });
   }, [surveys, startDate, endDate, selectedEmployee, storeFilter]);
 
+  // Per-variant outcomes for the selected experiment (respects the filters above)
+  useEffect(() => {
+    const experiment = experiments.find(e => e.id === selectedExperiment);
+    if (!experiment) {
+      setExperimentResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoadingExperiment(true);
+    getExperimentResults(experiment, filteredSurveys, startDate, endDate, {
+      employeeId: selectedEmployee,
+      store: storeFilter === 'all' ? null : storeFilter,
+    }).then(results => {
+      if (!cancelled) {
+        setExperimentResults(results);
+        setIsLoadingExperiment(false);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [experiments, selectedExperiment, filteredSurveys, startDate, endDate, selectedEmployee, storeFilter]);
+
   // Calculate analytics
   const analytics = useMemo(() => {
     const total = filteredSurveys.length;
@@ -414,6 +452,82 @@ export default function AnalyticsScreen() {
           </View>
         </View>
 
+        {/* Experiments */}
+        {experiments.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Experiments</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              <View style={styles.chipRow}>
+                {experiments.map(experiment => (
+                  <Pressable
+                    key={experiment.id}
+                    style={[styles.chip, selectedExperiment === experiment.id && styles.chipActive]}
+                    onPress={() => setSelectedExperiment(experiment.id)}
+                  >
+                    <Text style={[styles.chipText, selectedExperiment === experiment.id && styles.chipTextActive]}>
+                      {experiment.kind === 'script' ? '🎤' : '📋'} {experiment.name}
+                      {experiment.status !== 'running' ? ` (${experiment.status})` : ''}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+            </ScrollView>
+
+            {isLoadingExperiment ? (
+              <Text style={styles.emptyText}>Loading results...</Text>
+            ) : (
+              <View style={styles.employeeList}>
+                {experimentResults.map((result, index) => {
+                  const control = experimentResults[0];
+                  // Non-overlapping 95% intervals vs. the first (control) variant
+                  const differs = (a: RateWithInterval, b: RateWithInterval) => a.low > b.high || a.high < b.low;
+                  const significant = index > 0 && control && (
+                    differs(result.completionRate, control.completionRate) ||
+                    differs(result.appointmentRate, control.appointmentRate) ||
+                    differs(result.installRate, control.installRate)
+                  );
+
+                  return (
+                    <View key={result.variantId} style={styles.variantCard}>
+                      <View style={styles.variantHeader}>
+                        <Text style={styles.employeeName}>
+                          {result.variantName}{index === 0 ? ' (control)' : ''}
+                        </Text>
+                        {significant && (
+                          <View style={styles.significantBadge}>
+                            <Text style={styles.significantText}>Significant</Text>
+                          </View>
+                        )}
+                      </View>
+                      <Text style={styles.variantCounts}>
+                        {result.sessions} sessions · {result.completed} completed · {result.appointments} appts · {result.installs.toFixed(1)} installs
+                      </Text>
+                      <View style={styles.employeeMetrics}>
+                        {[
+                          { label: 'Completion', rate: result.completionRate },
+                          { label: 'Appointment', rate: result.appointmentRate },
+                          { label: 'Install', rate: result.installRate },
+                        ].map(metric => (
+                          <View key={metric.label} style={styles.employeeMetric}>
+                            <Text style={styles.employeeMetricValue}>{(metric.rate.rate * 100).toFixed(1)}%</Text>
+                            <Text style={styles.employeeMetricLabel}>{metric.label}</Text>
+                            <Text style={styles.variantInterval}>
+                              {(metric.rate.low * 100).toFixed(1)}–{(metric.rate.high * 100).toFixed(1)}%
+                            </Text>
+                          </View>
+                        ))}
+                      </View>
+                    </View>
+                  );
+                })}
+                <Text style={styles.variantNote}>
+                  Ranges are 95% confidence intervals. Installs come from Salesforce outcome stats and are split across variants by each employee&apos;s daily survey mix.
+                </Text>
+              </View>
+            )}
+          </View>
+        )}
+
         {/* Employee Performance */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Employee Performance</Text>
@@ -752,4 +866,41 @@ const styles = StyleSheet.create({
     fontSize: FONTS.sizes.md,
     color: LOWES_THEME.textSubtle,
   },
+  variantCard: {
+    backgroundColor: LOWES_THEME.surface,
+    borderRadius: 12,
+    padding: SPACING.md,
+    gap: SPACING.sm,
+    borderWidth: 1,
+    borderColor: LOWES_THEME.border,
+  },
+  variantHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  variantCounts: {
+    fontSize: FONTS.sizes.xs,
+    color: LOWES_THEME.textSubtle,
+  },
+  variantInterval: {
+    fontSize: FONTS.sizes.xs,
+    color: LOWES_THEME.textSubtle,
+  },
+  variantNote: {
+    fontSize: FONTS.sizes.xs,
+    color: LOWES_THEME.textSubtle,
+    fontStyle: 'italic',
+  },
+  significantBadge: {
+    backgroundColor: LOWES_THEME.success,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  significantText: {
+    fontSize: FONTS.sizes.xs,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
 });
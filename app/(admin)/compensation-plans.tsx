@@ -0,0 +1,696 @@
+// Compensation plans - effective-dated pay rules per employee, team or market, with version history
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, Pressable, ActivityIndicator, RefreshControl, Modal } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useAlert } from '@/template';
+import { useApp } from '@/hooks/useApp';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { DatePicker } from '@/components/ui/DatePicker';
+import { SPACING, FONTS, LOWES_THEME } from '@/constants/theme';
+import { getMinimumWage } from '@/constants/minimumWage';
+import { toLocalDateKey } from '@/utils/timeFormat';
+import { CompensationPlan, CompensationPlanScope, QuotaBasis } from '@/types';
+import { STORE_LOCATIONS } from '@/services/storeLocationsService';
+import {
+  DEFAULT_BELOW_QUOTA_HOURLY_RATE,
+  DEFAULT_PLAN_ID,
+  PLAN_SCOPE_LABELS,
+  getCurrentPlans,
+  getPlanVersions,
+  retirePlan,
+  savePlanVersion,
+} from '@/services/compensationPlanService';
+
+const SCOPE_ORDER: CompensationPlanScope[] = ['global', 'market', 'team', 'employee'];
+const MARKETS = Array.from(new Set(STORE_LOCATIONS.map(store => store.state))).sort();
+
+interface TierForm {
+  afterInstalls: string;
+  surveyInstallBonus: string;
+  appointmentInstallBonus: string;
+}
+
+interface PlanForm {
+  planId?: string; // Set when adding a version to an existing plan
+  name: string;
+  scope: CompensationPlanScope;
+  scopeId?: string;
+  effectiveFrom: Date;
+  baseHourlyRate: string;
+  surveyInstallBonus: string;
+  appointmentInstallBonus: string;
+  quota: string;
+  quotaBasis: QuotaBasis;
+  belowQuotaHourlyRate: string;
+  bonusTiers: TierForm[];
+}
+
+const parseDay = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const toForm = (plan: CompensationPlan): PlanForm => ({
+  planId: plan.planId,
+  name: plan.name,
+  scope: plan.scope,
+  scopeId: plan.scopeId,
+  effectiveFrom: new Date(),
+  baseHourlyRate: plan.baseHourlyRate.toString(),
+  surveyInstallBonus: plan.surveyInstallBonus.toString(),
+  appointmentInstallBonus: plan.appointmentInstallBonus.toString(),
+  quota: plan.quota.toString(),
+  quotaBasis: plan.quotaBasis,
+  belowQuotaHourlyRate: plan.belowQuotaHourlyRate.toString(),
+  bonusTiers: plan.bonusTiers.map(tier => ({
+    afterInstalls: tier.afterInstalls.toString(),
+    surveyInstallBonus: tier.surveyInstallBonus.toString(),
+    appointmentInstallBonus: tier.appointmentInstallBonus.toString(),
+  })),
+});
+
+const EMPTY_FORM: PlanForm = {
+  name: '',
+  scope: 'employee',
+  effectiveFrom: new Date(),
+  baseHourlyRate: '15',
+  surveyInstallBonus: '10',
+  appointmentInstallBonus: '25',
+  quota: '5',
+  quotaBasis: 'period',
+  belowQuotaHourlyRate: DEFAULT_BELOW_QUOTA_HOURLY_RATE.toString(),
+  bonusTiers: [],
+};
+
+export default function CompensationPlansScreen() {
+  const router = useRouter();
+  const { showAlert } = useAlert();
+  const { currentUser, employees } = useApp();
+  const [versions, setVersions] = useState<CompensationPlan[]>([]);
+  const [expandedPlanId, setExpandedPlanId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [form, setForm] = useState<PlanForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const today = toLocalDateKey(new Date());
+
+  const loadPlans = useCallback(async () => {
+    try {
+      setVersions(await getPlanVersions());
+    } catch (error) {
+      showAlert('Error', `Failed to load compensation plans: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showAlert]);
+
+  useEffect(() => {
+    loadPlans();
+  }, [loadPlans]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadPlans();
+    setRefreshing(false);
+  };
+
+  const getEmployeeName = (employeeId?: string) => {
+    const employee = employees.find(e => e.id === employeeId);
+    return employee ? `${employee.firstName} ${employee.lastName}` : 'Unknown employee';
+  };
+
+  const getScopeTarget = (plan: Pick<CompensationPlan, 'scope' | 'scopeId'>) => {
+    switch (plan.scope) {
+      case 'employee':
+        return getEmployeeName(plan.scopeId);
+      case 'team':
+        return `${getEmployeeName(plan.scopeId)}'s team`;
+      case 'market':
+        return plan.scopeId || '';
+      default:
+        return 'All employees';
+    }
+  };
+
+  const getScopeOptions = (scope: CompensationPlanScope): { id: string; label: string }[] => {
+    switch (scope) {
+      case 'employee':
+        return employees
+          .filter(e => e.status === 'active')
+          .map(e => ({ id: e.id, label: `${e.firstName} ${e.lastName}` }));
+      case 'team':
+        return employees
+          .filter(e => e.isTeamLead && e.status === 'active')
+          .map(e => ({ id: e.id, label: `${e.firstName} ${e.lastName}` }));
+      case 'market':
+        return MARKETS.map(state => ({ id: state, label: state }));
+      default:
+        return [];
+    }
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    const numbers = [form.baseHourlyRate, form.surveyInstallBonus, form.appointmentInstallBonus, form.quota, form.belowQuotaHourlyRate]
+      .map(value => parseFloat(value));
+    const tiers = form.bonusTiers.map(tier => ({
+      afterInstalls: parseInt(tier.afterInstalls, 10),
+      surveyInstallBonus: parseFloat(tier.surveyInstallBonus),
+      appointmentInstallBonus: parseFloat(tier.appointmentInstallBonus),
+    }));
+
+    if (!form.name.trim()) {
+      showAlert('Missing Name', 'Give the plan a name.');
+      return;
+    }
+    if (numbers.some(n => isNaN(n) || n < 0) ||
+      tiers.some(t => isNaN(t.afterInstalls) || t.afterInstalls < 1 || isNaN(t.surveyInstallBonus) || isNaN(t.appointmentInstallBonus))) {
+      showAlert('Invalid Rates', 'Rates must be zero or more, and each tier needs an install count of at least 1.');
+      return;
+    }
+
+    const [baseHourlyRate, surveyInstallBonus, appointmentInstallBonus, quota, belowQuotaHourlyRate] = numbers;
+    setIsSaving(true);
+    try {
+      const plan = await savePlanVersion({
+        name: form.name.trim(),
+        scope: form.scope,
+        scopeId: form.scopeId,
+        effectiveFrom: toLocalDateKey(form.effectiveFrom),
+        baseHourlyRate,
+        surveyInstallBonus,
+        appointmentInstallBonus,
+        quota,
+        quotaBasis: form.quotaBasis,
+        belowQuotaHourlyRate,
+        bonusTiers: tiers,
+        createdBy: currentUser?.id,
+      }, form.planId);
+      setForm(null);
+      await loadPlans();
+      showAlert('Plan Saved', `${plan.name} v${plan.version} applies to pay periods starting on or after ${plan.effectiveFrom}.`);
+    } catch (error) {
+      showAlert('Error', `Failed to save plan: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRetire = (plan: CompensationPlan) => {
+    showAlert(
+      `Retire ${plan.name}?`,
+      `From pay periods starting today, ${getScopeTarget(plan)} will be paid under the next most specific plan. Earlier pay periods are not affected.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Retire',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await retirePlan(plan, today, currentUser?.id);
+              await loadPlans();
+            } catch (error) {
+              showAlert('Error', `Failed to retire plan: ${error instanceof Error ? error.message : String(error)}`);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const updateTier = (index: number, field: keyof TierForm, value: string) => {
+    if (!form) return;
+    setForm({
+      ...form,
+      bonusTiers: form.bonusTiers.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier)),
+    });
+  };
+
+  const plans = getCurrentPlans(versions).sort(
+    (a, b) => SCOPE_ORDER.indexOf(a.scope) - SCOPE_ORDER.indexOf(b.scope) || a.name.localeCompare(b.name)
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.backButton}>
+          <MaterialIcons name="arrow-back" size={24} color="#FFFFFF" />
+        </Pressable>
+        <Text style={styles.headerTitle}>Compensation Plans</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
+        <Text style={styles.intro}>
+          The most specific plan applies: employee, then team, then market (store state), then everyone.
+          Changes add a new version - pay periods that already started keep the version they started with.
+        </Text>
+
+        <Button
+          title="New Plan"
+          onPress={() => setForm({ ...EMPTY_FORM, effectiveFrom: new Date() })}
+          backgroundColor={LOWES_THEME.primary}
+          icon="add"
+          fullWidth
+        />
+
+        {isLoading ? (
+          <ActivityIndicator color={LOWES_THEME.primary} />
+        ) : (
+          plans.map(plan => {
+            const history = versions.filter(v => v.planId === plan.planId).sort((a, b) => b.version - a.version);
+            const scheduled = plan.effectiveFrom > today;
+            const statusText = plan.status === 'retired' ? 'Retired' : scheduled ? 'Scheduled' : 'Active';
+            const statusColor = plan.status === 'retired'
+              ? LOWES_THEME.textSubtle
+              : scheduled ? LOWES_THEME.warning : LOWES_THEME.success;
+            const expanded = expandedPlanId === plan.planId;
+
+            return (
+              <View key={plan.planId} style={styles.planCard}>
+                <View style={styles.planHeader}>
+                  <View style={styles.planTitle}>
+                    <Text style={styles.planName}>{plan.name}</Text>
+                    <Text style={styles.planMeta}>
+                      {PLAN_SCOPE_LABELS[plan.scope]}: {getScopeTarget(plan)}
+                    </Text>
+                  </View>
+                  <View style={[styles.statusBadge, { backgroundColor: statusColor }]}>
+                    <Text style={styles.statusBadgeText}>{statusText}</Text>
+                  </View>
+                </View>
+
+                <Text style={styles.planDetail}>
+                  ${plan.baseHourlyRate.toFixed(2)}/hr | ${plan.surveyInstallBonus.toFixed(2)} survey install | $
+                  {plan.appointmentInstallBonus.toFixed(2)} appointment install
+                </Text>
+                <Text style={styles.planDetail}>
+                  Quota {plan.quota}/hr {plan.quotaBasis === 'daily' ? 'each day' : 'over the pay period'} - below quota $
+                  {plan.belowQuotaHourlyRate.toFixed(2)}/hr
+                </Text>
+                {plan.bonusTiers.map(tier => (
+                  <Text key={tier.afterInstalls} style={styles.planDetail}>
+                    After {tier.afterInstalls} installs/month: ${tier.surveyInstallBonus.toFixed(2)} survey, $
+                    {tier.appointmentInstallBonus.toFixed(2)} appointment
+                  </Text>
+                ))}
+                <Text style={styles.planMeta}>v{plan.version} from {plan.effectiveFrom}</Text>
+
+                {expanded && (
+                  <View style={styles.history}>
+                    {history.map(version => (
+                      <Text key={version.id} style={styles.planMeta}>
+                        v{version.version} from {version.effectiveFrom}
+                        {version.status === 'retired'
+                          ? ' - retired'
+                          : ` - $${version.baseHourlyRate.toFixed(2)}/hr, $${version.surveyInstallBonus.toFixed(2)} / $${version.appointmentInstallBonus.toFixed(2)}, quota ${version.quota}${version.bonusTiers.length > 0 ? `, ${version.bonusTiers.length} tier(s)` : ''}`}
+                        {version.createdBy ? ` (${getEmployeeName(version.createdBy)})` : ''}
+                      </Text>
+                    ))}
+                  </View>
+                )}
+
+                <View style={styles.actionRow}>
+                  <Pressable style={styles.actionButton} onPress={() => setForm(toForm(plan))}>
+                    <MaterialIcons name="edit" size={16} color={LOWES_THEME.primary} />
+                    <Text style={styles.actionText}>New Version</Text>
+                  </Pressable>
+                  <Pressable style={styles.actionButton} onPress={() => setExpandedPlanId(expanded ? null : plan.planId)}>
+                    <MaterialIcons name="history" size={16} color={LOWES_THEME.primary} />
+                    <Text style={styles.actionText}>History ({history.length})</Text>
+                  </Pressable>
+                  {plan.planId !== DEFAULT_PLAN_ID && plan.status === 'active' && (
+                    <Pressable style={[styles.actionButton, styles.dangerButton]} onPress={() => handleRetire(plan)}>
+                      <MaterialIcons name="block" size={16} color={LOWES_THEME.error} />
+                      <Text style={[styles.actionText, { color: LOWES_THEME.error }]}>Retire</Text>
+                    </Pressable>
+                  )}
+                </View>
+              </View>
+            );
+          })
+        )}
+      </ScrollView>
+
+      <Modal visible={!!form} transparent animationType="slide" onRequestClose={() => setForm(null)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{form?.planId ? 'New Version' : 'New Plan'}</Text>
+              <Pressable onPress={() => setForm(null)}>
+                <MaterialIcons name="close" size={24} color={LOWES_THEME.text} />
+              </Pressable>
+            </View>
+            {form && (
+              <ScrollView contentContainerStyle={styles.modalBody}>
+                <Input label="Name" value={form.name} onChangeText={name => setForm({ ...form, name })} placeholder="e.g. Panhandle team" />
+
+                {form.scope !== 'global' && (
+                  <>
+                    <Text style={styles.fieldLabel}>Applies to</Text>
+                    <View style={styles.chipRow}>
+                      {SCOPE_ORDER.filter(scope => scope !== 'global').map(scope => (
+                        <Pressable
+                          key={scope}
+                          style={[styles.chip, form.scope === scope && styles.chipActive]}
+                          onPress={() => setForm({ ...form, scope, scopeId: undefined })}
+                        >
+                          <Text style={[styles.chipText, form.scope === scope && styles.chipTextActive]}>
+                            {PLAN_SCOPE_LABELS[scope]}
+                          </Text>
+                        </Pressable>
+                      ))}
+                    </View>
+                    <View style={styles.chipRow}>
+                      {getScopeOptions(form.scope).map(option => (
+                        <Pressable
+                          key={option.id}
+                          style={[styles.chip, form.scopeId === option.id && styles.chipActive]}
+                          onPress={() => setForm({ ...form, scopeId: option.id })}
+                        >
+                          <Text style={[styles.chipText, form.scopeId === option.id && styles.chipTextActive]}>
+                            {option.label}
+                          </Text>
+                        </Pressable>
+                      ))}
+                    </View>
+                  </>
+                )}
+
+                <DatePicker
+                  label="Effective from"
+                  value={form.effectiveFrom}
+                  onChange={date => date && setForm({ ...form, effectiveFrom: date })}
+                  minimumDate={form.planId ? parseDay(today) : undefined}
+                  primaryColor={LOWES_THEME.primary}
+                />
+                <Text style={styles.hint}>Applies from the first pay period starting on or after this day.</Text>
+
+                <Input
+                  label="Base hourly rate ($)"
+                  value={form.baseHourlyRate}
+                  onChangeText={baseHourlyRate => setForm({ ...form, baseHourlyRate })}
+                  keyboardType="decimal-pad"
+                />
+                <Input
+                  label="Survey install bonus ($)"
+                  value={form.surveyInstallBonus}
+                  onChangeText={surveyInstallBonus => setForm({ ...form, surveyInstallBonus })}
+                  keyboardType="decimal-pad"
+                />
+                <Input
+                  label="Appointment install bonus ($)"
+                  value={form.appointmentInstallBonus}
+                  onChangeText={appointmentInstallBonus => setForm({ ...form, appointmentInstallBonus })}
+                  keyboardType="decimal-pad"
+                />
+                <Input
+                  label="Quota (qualified surveys per hour)"
+                  value={form.quota}
+                  onChangeText={quota => setForm({ ...form, quota })}
+                  keyboardType="decimal-pad"
+                />
+
+                <Text style={styles.fieldLabel}>Quota checked</Text>
+                <View style={styles.chipRow}>
+                  {(['period', 'daily'] as QuotaBasis[]).map(basis => (
+                    <Pressable
+                      key={basis}
+                      style={[styles.chip, form.quotaBasis === basis && styles.chipActive]}
+                      onPress={() => setForm({ ...form, quotaBasis: basis })}
+                    >
+                      <Text style={[styles.chipText, form.quotaBasis === basis && styles.chipTextActive]}>
+                        {basis === 'period' ? 'Over the pay period' : 'Each day'}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+                <Input
+                  label="Below-quota hourly rate ($)"
+                  value={form.belowQuotaHourlyRate}
+                  onChangeText={belowQuotaHourlyRate => setForm({ ...form, belowQuotaHourlyRate })}
+                  keyboardType="decimal-pad"
+                />
+                <Text style={styles.hint}>
+                  Never paid below the market minimum wage (
+                  {(form.scope === 'market' && form.scopeId ? [form.scopeId] : MARKETS)
+                    .map(state => `${state} $${getMinimumWage(state, toLocalDateKey(form.effectiveFrom)).toFixed(2)}`)
+                    .join(', ')}
+                  ).
+                </Text>
+
+                <Text style={styles.fieldLabel}>Monthly bonus tiers</Text>
+                {form.bonusTiers.map((tier, index) => (
+                  <View key={index} style={styles.tierRow}>
+                    <View style={styles.tierField}>
+                      <Input
+                        label="After installs"
+                        value={tier.afterInstalls}
+                        onChangeText={value => updateTier(index, 'afterInstalls', value)}
+                        keyboardType="number-pad"
+                      />
+                    </View>
+                    <View style={styles.tierField}>
+                      <Input
+                        label="Survey $"
+                        value={tier.surveyInstallBonus}
+                        onChangeText={value => updateTier(index, 'surveyInstallBonus', value)}
+                        keyboardType="decimal-pad"
+                      />
+                    </View>
+                    <View style={styles.tierField}>
+                      <Input
+                        label="Appt $"
+                        value={tier.appointmentInstallBonus}
+                        onChangeText={value => updateTier(index, 'appointmentInstallBonus', value)}
+                        keyboardType="decimal-pad"
+                      />
+                    </View>
+                    <Pressable
+                      style={styles.tierRemove}
+                      onPress={() => setForm({ ...form, bonusTiers: form.bonusTiers.filter((_, i) => i !== index) })}
+                    >
+                      <MaterialIcons name="delete-outline" size={22} color={LOWES_THEME.error} />
+                    </Pressable>
+                  </View>
+                ))}
+                <Button
+                  title="Add Tier"
+                  onPress={() => setForm({
+                    ...form,
+                    bonusTiers: [...form.bonusTiers, {
+                      afterInstalls: '',
+                      surveyInstallBonus: form.surveyInstallBonus,
+                      appointmentInstallBonus: form.appointmentInstallBonus,
+                    }],
+                  })}
+                  variant="outline"
+                  icon="add"
+                />
+
+                <View style={styles.modalActions}>
+                  <Button title="Cancel" onPress={() => setForm(null)} variant="outline" />
+                  <Button
+                    title={isSaving ? 'Saving...' : 'Save'}
+                    onPress={handleSave}
+                    backgroundColor={LOWES_THEME.primary}
+                    disabled={isSaving || (form.scope !== 'global' && !form.scopeId)}
+                  />
+                </View>
+              </ScrollView>
+            )}
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: LOWES_THEME.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.md,
+    backgroundColor: LOWES_THEME.primary,
+  },
+  backButton: {
+    padding: SPACING.sm,
+  },
+  headerTitle: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    flex: 1,
+    textAlign: 'center',
+  },
+  content: {
+    padding: SPACING.lg,
+    gap: SPACING.md,
+  },
+  intro: {
+    fontSize: FONTS.sizes.sm,
+    color: LOWES_THEME.textSubtle,
+  },
+  planCard: {
+    backgroundColor: LOWES_THEME.surface,
+    borderRadius: 12,
+    padding: SPACING.md,
+    gap: 4,
+    borderWidth: 1,
+    borderColor: LOWES_THEME.border,
+  },
+  planHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    marginBottom: SPACING.xs,
+  },
+  planTitle: {
+    flex: 1,
+  },
+  planName: {
+    fontSize: FONTS.sizes.md,
+    fontWeight: '700',
+    color: LOWES_THEME.text,
+  },
+  planDetail: {
+    fontSize: FONTS.sizes.sm,
+    color: LOWES_THEME.text,
+  },
+  planMeta: {
+    fontSize: FONTS.sizes.xs,
+    color: LOWES_THEME.textSubtle,
+  },
+  statusBadge: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  statusBadgeText: {
+    fontSize: FONTS.sizes.xs,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  history: {
+    gap: 2,
+    marginTop: SPACING.xs,
+    paddingTop: SPACING.xs,
+    borderTopWidth: 1,
+    borderTopColor: LOWES_THEME.border,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+    marginTop: SPACING.sm,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: SPACING.xs,
+    paddingHorizontal: SPACING.sm,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: LOWES_THEME.primary,
+  },
+  dangerButton: {
+    borderColor: LOWES_THEME.error,
+  },
+  actionText: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: '600',
+    color: LOWES_THEME.primary,
+  },
+  fieldLabel: {
+    fontSize: FONTS.sizes.md,
+    fontWeight: '500',
+    color: LOWES_THEME.text,
+  },
+  hint: {
+    fontSize: FONTS.sizes.xs,
+    color: LOWES_THEME.textSubtle,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+  },
+  chip: {
+    paddingVertical: SPACING.xs,
+    paddingHorizontal: SPACING.md,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: LOWES_THEME.border,
+  },
+  chipActive: {
+    backgroundColor: LOWES_THEME.primary,
+    borderColor: LOWES_THEME.primary,
+  },
+  chipText: {
+    fontSize: FONTS.sizes.sm,
+    color: LOWES_THEME.text,
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  tierRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: SPACING.sm,
+  },
+  tierField: {
+    flex: 1,
+  },
+  tierRemove: {
+    padding: SPACING.sm,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: LOWES_THEME.surface,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: SPACING.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: LOWES_THEME.border,
+  },
+  modalTitle: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: '700',
+    color: LOWES_THEME.text,
+  },
+  modalBody: {
+    padding: SPACING.lg,
+    gap: SPACING.md,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: SPACING.md,
+    marginTop: SPACING.sm,
+  },
+});
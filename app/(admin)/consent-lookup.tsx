@@ -0,0 +1,205 @@
+// Consent lookup - find every consent record for a phone number and export a proof PDF
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, Pressable, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useAlert } from '@/template';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { SPACING, FONTS, LOWES_THEME } from '@/constants/theme';
+import { formatFullDateTime } from '@/utils/timeFormat';
+import { ConsentProofEntry, getConsentRecordsByPhone, generateConsentProofPdf } from '@/services/consentService';
+
+export default function ConsentLookupScreen() {
+  const router = useRouter();
+  const { showAlert } = useAlert();
+  const [phone, setPhone] = useState('');
+  const [records, setRecords] = useState<ConsentProofEntry[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const isValidPhone = phone.replace(/\D/g, '').length >= 10;
+
+  const handleSearch = async () => {
+    setIsSearching(true);
+    try {
+      setRecords(await getConsentRecordsByPhone(phone));
+    } catch {
+      showAlert('Error', 'Failed to load consent records. Check your connection and try again.');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleGeneratePdf = async () => {
+    setIsGenerating(true);
+    try {
+      const count = await generateConsentProofPdf(phone);
+      if (count === 0) {
+        showAlert('No Records', 'No consent records were found for this phone number.');
+      }
+    } catch (error) {
+      console.error('Consent proof PDF error:', error);
+      showAlert('Error', 'Failed to generate the consent proof PDF.');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.backButton}>
+          <MaterialIcons name="arrow-back" size={24} color="#FFFFFF" />
+        </Pressable>
+        <Text style={styles.headerTitle}>Consent Lookup</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Input
+          label="Customer Phone Number"
+          value={phone}
+          onChangeText={setPhone}
+          placeholder="(555) 555-5555"
+          keyboardType="phone-pad"
+        />
+        <View style={styles.actions}>
+          <Button
+            title={isSearching ? 'Searching...' : 'Find Consent Records'}
+            onPress={handleSearch}
+            backgroundColor={LOWES_THEME.primary}
+            disabled={!isValidPhone || isSearching}
+            fullWidth
+          />
+          <Button
+            title={isGenerating ? 'Generating...' : 'Generate Proof PDF'}
+            onPress={handleGeneratePdf}
+            variant="outline"
+            textColor={LOWES_THEME.primary}
+            disabled={!isValidPhone || isGenerating}
+            fullWidth
+          />
+        </View>
+
+        {isSearching && <ActivityIndicator color={LOWES_THEME.primary} style={{ marginTop: SPACING.lg }} />}
+
+        {records && !isSearching && (
+          records.length === 0 ? (
+            <View style={styles.emptyState}>
+              <MaterialIcons name="policy" size={64} color={LOWES_THEME.textSubtle} />
+              <Text style={styles.emptyText}>No consent records for this phone number</Text>
+            </View>
+          ) : (
+            records.map(record => (
+              <View key={record.surveyId} style={styles.recordCard}>
+                <View style={styles.recordHeader}>
+                  <Text style={styles.recordName}>{record.customerName}</Text>
+                  <View style={[
+                    styles.hashBadge,
+                    { backgroundColor: record.hashVerified ? LOWES_THEME.success : LOWES_THEME.error },
+                  ]}>
+                    <MaterialIcons name={record.hashVerified ? 'verified' : 'error'} size={12} color="#FFFFFF" />
+                    <Text style={styles.hashBadgeText}>{record.hashVerified ? 'Text verified' : 'Hash mismatch'}</Text>
+                  </View>
+                </View>
+                <Text style={styles.recordDetail}>Signed {formatFullDateTime(record.consent.consentedAt)}</Text>
+                <Text style={styles.recordDetail}>
+                  Calls: {record.consent.callConsent ? 'Opted in' : 'No consent'} | Texts: {record.consent.smsConsent ? 'Opted in' : 'No consent'}
+                </Text>
+                <Text style={styles.recordDetail}>Disclosure version {record.consent.version}</Text>
+                <Text style={styles.recordDetail}>
+                  {[record.consent.storeName, record.consent.storeNumber].filter(Boolean).join(' ') || record.consent.store}
+                  {record.consent.gps ? ` | GPS ${record.consent.gps.latitude.toFixed(4)}, ${record.consent.gps.longitude.toFixed(4)}` : ''}
+                </Text>
+                <Text style={styles.recordMeta}>Device {record.consent.deviceId}</Text>
+              </View>
+            ))
+          )
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: LOWES_THEME.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.md,
+    backgroundColor: LOWES_THEME.primary,
+  },
+  backButton: {
+    padding: SPACING.sm,
+  },
+  headerTitle: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    flex: 1,
+    textAlign: 'center',
+  },
+  content: {
+    padding: SPACING.lg,
+    gap: SPACING.md,
+  },
+  actions: {
+    gap: SPACING.sm,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: SPACING.xl,
+    gap: SPACING.md,
+  },
+  emptyText: {
+    fontSize: FONTS.sizes.md,
+    color: LOWES_THEME.textSubtle,
+  },
+  recordCard: {
+    backgroundColor: LOWES_THEME.surface,
+    borderRadius: 12,
+    padding: SPACING.md,
+    gap: 4,
+    borderWidth: 1,
+    borderColor: LOWES_THEME.border,
+  },
+  recordHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: SPACING.xs,
+  },
+  recordName: {
+    fontSize: FONTS.sizes.md,
+    fontWeight: '700',
+    color: LOWES_THEME.text,
+  },
+  hashBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  hashBadgeText: {
+    fontSize: FONTS.sizes.xs,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  recordDetail: {
+    fontSize: FONTS.sizes.sm,
+    color: LOWES_THEME.text,
+  },
+  recordMeta: {
+    fontSize: FONTS.sizes.xs,
+    color: LOWES_THEME.textSubtle,
+  },
+});
@@ -0,0 +1,356 @@
+// Device fleet - enrolled kiosk tablets, their last heartbeat and remote commands
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, Pressable, ActivityIndicator, RefreshControl } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useAlert } from '@/template';
+import { useApp } from '@/hooks/useApp';
+import { SPACING, FONTS, LOWES_THEME } from '@/constants/theme';
+import { formatFullDateTime } from '@/utils/timeFormat';
+import { DeviceCommand, DeviceCommandType, KioskDevice } from '@/types';
+import {
+  DEVICE_COMMAND_LABELS,
+  HEARTBEAT_STALE_MS,
+  getFleetDevices,
+  getLatestDiagnostics,
+  getPendingDeviceCommands,
+  issueDeviceCommand,
+} from '@/services/deviceFleetService';
+
+const formatBytes = (bytes?: number) =>
+  bytes === undefined ? 'Unknown' : `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+
+const isStale = (device: KioskDevice) =>
+  !device.lastHeartbeatAt || Date.now() - new Date(device.lastHeartbeatAt).getTime() > HEARTBEAT_STALE_MS;
+
+export default function DevicesScreen() {
+  const router = useRouter();
+  const { showAlert } = useAlert();
+  const { currentUser, employees } = useApp();
+  const [devices, setDevices] = useState<KioskDevice[]>([]);
+  const [pendingCommands, setPendingCommands] = useState<DeviceCommand[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadFleet = async () => {
+    const [fleet, commands] = await Promise.all([getFleetDevices(), getPendingDeviceCommands()]);
+    setDevices(fleet);
+    setPendingCommands(commands);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadFleet();
+  }, []);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadFleet();
+    setRefreshing(false);
+  };
+
+  const sendCommand = async (device: KioskDevice, type: DeviceCommandType) => {
+    try {
+      await issueDeviceCommand(device.deviceId, type, currentUser!.id);
+      await loadFleet();
+      showAlert('Command Queued', `${DEVICE_COMMAND_LABELS[type]} will run on ${device.name} at its next check-in (within 5 minutes).`);
+    } catch (error) {
+      showAlert('Error', `Failed to queue the command: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const confirmWipe = (device: KioskDevice) => {
+    showAlert(
+      `Wipe ${device.name}?`,
+      `All local data on the tablet is erased and it is unenrolled.` +
+        (device.queuePending + device.queueDead > 0
+          ? `\n\n${device.queuePending + device.queueDead} unsynced item(s) will be lost.`
+          : ''),
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Wipe Device', style: 'destructive', onPress: () => sendCommand(device, 'wipe') },
+      ]
+    );
+  };
+
+  const showDiagnostics = async (device: KioskDevice) => {
+    const diagnostics = await getLatestDiagnostics(device.deviceId);
+    if (!diagnostics) {
+      showAlert('No Diagnostics', 'This device has not uploaded diagnostics yet. Use "Diagnostics" to request them.');
+      return;
+    }
+
+    const { health, deadItems = [], syncLogs = [], bundlePath } = diagnostics.payload;
+    const lastRun = syncLogs[0];
+    showAlert(
+      `Diagnostics - ${device.name}`,
+      `Collected ${formatFullDateTime(diagnostics.collectedAt)}\n\n` +
+        `Critical storage: ${health?.healthy ? 'healthy' : 'DEGRADED'}\n` +
+        `Surveys stored: ${health?.surveysStored ?? 0} | Time entries: ${health?.timeEntriesStored ?? 0}\n` +
+        `Dead-lettered: ${deadItems.length}\n` +
+        deadItems.slice(0, 5).map((item: any) => `• ${item.key}: ${item.lastError || 'unknown error'}`).join('\n') +
+        (lastRun ? `\n\nLast sync run ${formatFullDateTime(lastRun.timestamp)}: ${lastRun.synced} synced, ${lastRun.failed} failed` : '') +
+        (bundlePath ? `\n\nFull bundle: diagnostics/${bundlePath}` : '')
+    );
+  };
+
+  const getEmployeeName = (employeeId?: string) => {
+    const employee = employees.find(e => e.id === employeeId);
+    return employee ? `${employee.firstName} ${employee.lastName}` : undefined;
+  };
+
+  const activeDevices = devices.filter(d => d.status !== 'unenrolled');
+  const staleCount = activeDevices.filter(isStale).length;
+  const unsyncedCount = activeDevices.reduce((sum, d) => sum + d.queuePending + d.queueDead, 0);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.backButton}>
+          <MaterialIcons name="arrow-back" size={24} color="#FFFFFF" />
+        </Pressable>
+        <Text style={styles.headerTitle}>Device Fleet</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
+        <View style={styles.summaryRow}>
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryValue}>{activeDevices.length}</Text>
+            <Text style={styles.summaryLabel}>Enrolled</Text>
+          </View>
+          <View style={styles.summaryCard}>
+            <Text style={[styles.summaryValue, staleCount > 0 && { color: LOWES_THEME.warning }]}>{staleCount}</Text>
+            <Text style={styles.summaryLabel}>Not Reporting</Text>
+          </View>
+          <View style={styles.summaryCard}>
+            <Text style={[styles.summaryValue, unsyncedCount > 0 && { color: LOWES_THEME.warning }]}>{unsyncedCount}</Text>
+            <Text style={styles.summaryLabel}>Unsynced Items</Text>
+          </View>
+        </View>
+
+        {isLoading ? (
+          <ActivityIndicator color={LOWES_THEME.primary} />
+        ) : devices.length === 0 ? (
+          <View style={styles.emptyState}>
+            <MaterialIcons name="tablet-android" size={64} color={LOWES_THEME.textSubtle} />
+            <Text style={styles.emptyText}>No devices enrolled</Text>
+            <Text style={styles.emptySubtext}>Enroll a tablet from Settings → Device on that tablet</Text>
+          </View>
+        ) : (
+          devices.map(device => {
+            const stale = isStale(device);
+            const queued = pendingCommands.filter(c => c.deviceId === device.deviceId);
+            const employeeName = getEmployeeName(device.currentEmployeeId);
+            const statusColor = device.status === 'unenrolled'
+              ? LOWES_THEME.textSubtle
+              : device.status === 'locked'
+                ? LOWES_THEME.error
+                : stale ? LOWES_THEME.warning : LOWES_THEME.success;
+            const statusText = device.status === 'unenrolled'
+              ? 'Unenrolled'
+              : device.status === 'locked' ? 'Locked' : stale ? 'Not Reporting' : 'Online';
+
+            return (
+              <View key={device.deviceId} style={styles.deviceCard}>
+                <View style={styles.deviceHeader}>
+                  <Text style={styles.deviceName}>{device.name}</Text>
+                  <View style={[styles.statusBadge, { backgroundColor: statusColor }]}>
+                    <Text style={styles.statusBadgeText}>{statusText}</Text>
+                  </View>
+                </View>
+
+                <Text style={styles.deviceDetail}>
+                  {device.storeName || 'No store'}{employeeName ? ` | ${employeeName}` : ''}
+                </Text>
+                <Text style={styles.deviceDetail}>
+                  {[device.model, device.platform, device.osVersion].filter(Boolean).join(' ')} | App {device.appVersion || '?'} ({device.buildNumber || '?'})
+                </Text>
+                <Text style={[styles.deviceDetail, (device.queuePending + device.queueDead) > 0 && styles.deviceWarning]}>
+                  Queue: {device.queuePending} pending, {device.queueDead} dead-lettered
+                </Text>
+                <Text style={styles.deviceDetail}>
+                  Storage free: {formatBytes(device.freeStorageBytes)} of {formatBytes(device.totalStorageBytes)}
+                  {device.batteryLevel !== undefined ? ` | Battery ${Math.round(device.batteryLevel * 100)}%` : ''}
+                </Text>
+                <Text style={styles.deviceMeta}>
+                  Last heartbeat {device.lastHeartbeatAt ? formatFullDateTime(device.lastHeartbeatAt) : 'never'} |
+                  Last sync {device.lastSuccessfulSyncAt ? formatFullDateTime(device.lastSuccessfulSyncAt) : 'never'}
+                </Text>
+                {queued.length > 0 && (
+                  <Text style={styles.deviceMeta}>
+                    Waiting for check-in: {queued.map(c => DEVICE_COMMAND_LABELS[c.type]).join(', ')}
+                  </Text>
+                )}
+
+                {device.status !== 'unenrolled' && (
+                  <View style={styles.actionRow}>
+                    <Pressable style={styles.actionButton} onPress={() => sendCommand(device, 'force_sync')}>
+                      <MaterialIcons name="sync" size={16} color={LOWES_THEME.primary} />
+                      <Text style={styles.actionText}>Force Sync</Text>
+                    </Pressable>
+                    <Pressable style={styles.actionButton} onPress={() => sendCommand(device, 'upload_diagnostics')}>
+                      <MaterialIcons name="bug-report" size={16} color={LOWES_THEME.primary} />
+                      <Text style={styles.actionText}>Diagnostics</Text>
+                    </Pressable>
+                    <Pressable style={styles.actionButton} onPress={() => showDiagnostics(device)}>
+                      <MaterialIcons name="assignment" size={16} color={LOWES_THEME.primary} />
+                      <Text style={styles.actionText}>View Report</Text>
+                    </Pressable>
+                    <Pressable
+                      style={styles.actionButton}
+                      onPress={() => sendCommand(device, device.status === 'locked' ? 'unlock' : 'lock')}
+                    >
+                      <MaterialIcons name={device.status === 'locked' ? 'lock-open' : 'lock'} size={16} color={LOWES_THEME.primary} />
+                      <Text style={styles.actionText}>{device.status === 'locked' ? 'Unlock' : 'Lock'}</Text>
+                    </Pressable>
+                    <Pressable style={[styles.actionButton, styles.dangerButton]} onPress={() => confirmWipe(device)}>
+                      <MaterialIcons name="delete-forever" size={16} color={LOWES_THEME.error} />
+                      <Text style={[styles.actionText, { color: LOWES_THEME.error }]}>Wipe</Text>
+                    </Pressable>
+                  </View>
+                )}
+              </View>
+            );
+          })
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: LOWES_THEME.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.md,
+    backgroundColor: LOWES_THEME.primary,
+  },
+  backButton: {
+    padding: SPACING.sm,
+  },
+  headerTitle: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    flex: 1,
+    textAlign: 'center',
+  },
+  content: {
+    padding: SPACING.lg,
+    gap: SPACING.md,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    gap: SPACING.md,
+  },
+  summaryCard: {
+    flex: 1,
+    backgroundColor: LOWES_THEME.surface,
+    borderRadius: 12,
+    padding: SPACING.md,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: LOWES_THEME.border,
+  },
+  summaryValue: {
+    fontSize: FONTS.sizes.xl,
+    fontWeight: '700',
+    color: LOWES_THEME.text,
+  },
+  summaryLabel: {
+    fontSize: FONTS.sizes.xs,
+    color: LOWES_THEME.textSubtle,
+    marginTop: 2,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: SPACING.xl,
+    gap: SPACING.md,
+  },
+  emptyText: {
+    fontSize: FONTS.sizes.md,
+    color: LOWES_THEME.textSubtle,
+  },
+  emptySubtext: {
+    fontSize: FONTS.sizes.sm,
+    color: LOWES_THEME.textSubtle,
+    textAlign: 'center',
+  },
+  deviceCard: {
+    backgroundColor: LOWES_THEME.surface,
+    borderRadius: 12,
+    padding: SPACING.md,
+    gap: 4,
+    borderWidth: 1,
+    borderColor: LOWES_THEME.border,
+  },
+  deviceHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: SPACING.xs,
+  },
+  deviceName: {
+    fontSize: FONTS.sizes.md,
+    fontWeight: '700',
+    color: LOWES_THEME.text,
+    flex: 1,
+  },
+  statusBadge: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  statusBadgeText: {
+    fontSize: FONTS.sizes.xs,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  deviceDetail: {
+    fontSize: FONTS.sizes.sm,
+    color: LOWES_THEME.text,
+  },
+  deviceWarning: {
+    color: LOWES_THEME.warning,
+    fontWeight: '600',
+  },
+  deviceMeta: {
+    fontSize: FONTS.sizes.xs,
+    color: LOWES_THEME.textSubtle,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+    marginTop: SPACING.sm,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: SPACING.xs,
+    paddingHorizontal: SPACING.sm,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: LOWES_THEME.primary,
+  },
+  dangerButton: {
+    borderColor: LOWES_THEME.error,
+  },
+  actionText: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: '600',
+    color: LOWES_THEME.primary,
+  },
+});
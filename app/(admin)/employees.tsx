@@ -115,7 +115,7 @@ export default function EmployeesScreen() {
 
     await StorageService.updateEmployee(assigningEmployee.id, {
       teamLeadId: selectedTeamLead || undefined,
-    });
+    }, assigningEmployee);
 
     await loadData();
     setShowTeamAssignModal(false);
@@ -147,9 +147,9 @@ export default function EmployeesScreen() {
               style: 'destructive',
               onPress: async () => {
                 // Remove team lead and unassign members
-                await StorageService.updateEmployee(employee.id, { isTeamLead: false });
+                await StorageService.updateEmployee(employee.id, { isTeamLead: false }, employee);
                 for (const member of teamMembers) {
-                  await StorageService.updateEmployee(member.id, { teamLeadId: undefined });
+                  await StorageService.updateEmployee(member.id, { teamLeadId: undefined }, member);
                 }
                 await loadData();
                 showAlert('Team Lead Removed', 'All team members have been unassigned');
@@ -161,7 +161,7 @@ export default function EmployeesScreen() {
       }
     }
 
-    await StorageService.updateEmployee(employee.id, { isTeamLead: newStatus });
+    await StorageService.updateEmployee(employee.id, { isTeamLead: newStatus }, employee);
     await loadData();
     showAlert(
       newStatus ? 'Team Lead Assigned' : 'Team Lead Removed',
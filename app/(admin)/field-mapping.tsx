@@ -7,22 +7,22 @@ import { useAlert } from '@/template';
 import { Input } from '@/components/ui/Input';
 import { Button } from '@/components/ui/Button';
 import * as StorageService from '@/services/storageService';
-import { fetchSalesforceLeadFields, testSalesforceFieldAccess, SalesforceField } from '@/services/salesforceFieldsService';
+import {
+  fetchSalesforceLeadFields,
+  testSalesforceFieldAccess,
+  SalesforceField,
+  FieldMapping,
+  DEFAULT_FIELD_MAPPINGS,
+} from '@/services/salesforceFieldsService';
 import { SPACING, FONTS, LOWES_THEME } from '@/constants/theme';
 
-interface FieldMapping {
-  surveyField: string;
-  salesforceField: string;
-  fieldType: 'text' | 'boolean' | 'date' | 'number' | 'picklist';
-  label: string;
-}
-
 // Survey fields available for mapping
 const SURVEY_FIELDS = [
   // Contact Info
   { path: 'contact_info.firstName', label: 'First Name', type: 'text' as const },
   { path: 'contact_info.lastName', label: 'Last Name', type: 'text' as const },
   { path: 'contact_info.phone', label: 'Phone Number', type: 'text' as const },
+  { path: 'contact_info.phoneE164', label: 'Phone Number (E.164)', type: 'text' as const },
   { path: 'contact_info.address', label: 'Street Address', type: 'text' as const },
   { path: 'contact_info.zipCode', label: 'Zip Code', type: 'text' as const },
   { path: 'contact_info.city', label: '🔄 City (Auto-filled from Zip)', type: 'text' as const, autoFilled: true },
@@ -46,26 +46,16 @@ const SURVEY_FIELDS = [
   { path: '_employeeAlias', label: '👤 Employee Name', type: 'text' as const },
   { path: '_surveyId', label: '🔢 Survey ID', type: 'text' as const },
   { path: '_hasSignature', label: '✍️ Has Signature?', type: 'boolean' as const },
-];
-
-const DEFAULT_MAPPINGS: FieldMapping[] = [
-  { surveyField: 'contact_info.firstName', salesforceField: 'FirstName', fieldType: 'text', label: 'First Name' },
-  { surveyField: 'contact_info.lastName', salesforceField: 'LastName', fieldType: 'text', label: 'Last Name' },
-  { surveyField: 'contact_info.phone', salesforceField: 'Phone', fieldType: 'text', label: 'Phone Number' },
-  { surveyField: 'contact_info.address', salesforceField: 'Street', fieldType: 'text', label: 'Street Address' },
-  { surveyField: 'contact_info.city', salesforceField: 'City', fieldType: 'text', label: 'City' },
-  { surveyField: 'contact_info.state', salesforceField: 'State', fieldType: 'text', label: 'State' },
-  { surveyField: 'contact_info.zipCode', salesforceField: 'PostalCode', fieldType: 'text', label: 'Zip Code' },
-  { surveyField: 'buys_bottled_water', salesforceField: 'Buys_Bottled_Water__c', fieldType: 'boolean', label: 'Buys Bottled Water' },
-  { surveyField: 'is_homeowner', salesforceField: 'Is_Homeowner__c', fieldType: 'boolean', label: 'Is Homeowner' },
-  { surveyField: 'water_quality', salesforceField: 'Water_Quality__c', fieldType: 'text', label: 'Water Quality' },
-  { surveyField: '_store', salesforceField: 'Survey_Store__c', fieldType: 'text', label: 'Store Location' },
-  { surveyField: '_timestamp', salesforceField: 'Survey_Date__c', fieldType: 'date', label: 'Survey Date' },
+  { path: '_experimentVariant', label: '🧪 Experiment Variant(s)', type: 'text' as const },
+  { path: '_callOptIn', label: '📞 Call Opt-In (TCPA)', type: 'boolean' as const },
+  { path: '_smsOptIn', label: '💬 SMS Opt-In (TCPA)', type: 'boolean' as const },
+  { path: '_consentVersion', label: '📜 Consent Version', type: 'text' as const },
+  { path: '_consentTimestamp', label: '🕒 Consent Timestamp', type: 'date' as const },
 ];
 
 export default function FieldMappingScreen() {
   const { showAlert } = useAlert();
-  const [mappings, setMappings] = useState<FieldMapping[]>(DEFAULT_MAPPINGS);
+  const [mappings, setMappings] = useState<FieldMapping[]>(DEFAULT_FIELD_MAPPINGS);
   const [salesforceFields, setSalesforceFields] = useState<SalesforceField[]>([]);
   const [isLoadingFields, setIsLoadingFields] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<'unknown' | 'connected' | 'error'>('unknown');
@@ -140,7 +130,7 @@ export default function FieldMappingScreen() {
         text: 'Reset',
         style: 'destructive',
         onPress: () => {
-          setMappings(DEFAULT_MAPPINGS);
+          setMappings(DEFAULT_FIELD_MAPPINGS);
           showAlert('Reset Complete', 'Click Save to apply changes.');
         },
       },
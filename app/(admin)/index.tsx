@@ -158,6 +158,13 @@ export default function AdminDashboard() {
           color: '#00BCD4',
           description: 'View all surveys',
         },
+        {
+          icon: 'edit-note',
+          label: 'Survey Builder',
+          route: '/(admin)/survey-builder',
+          color: '#3F51B5',
+          description: 'Edit & publish questions',
+        },
         {
           icon: 'bar-chart',
           label: 'Survey Outcomes',
@@ -186,6 +193,20 @@ export default function AdminDashboard() {
           color: '#795548',
           description: 'Salesforce mapping',
         },
+        {
+          icon: 'policy',
+          label: 'Consent Lookup',
+          route: '/(admin)/consent-lookup',
+          color: '#607D8B',
+          description: 'TCPA consent proof',
+        },
+        {
+          icon: 'person-remove',
+          label: 'Privacy Requests',
+          route: '/(admin)/privacy-requests',
+          color: '#455A64',
+          description: 'Do-not-contact & data deletion',
+        },
       ],
     },
     {
@@ -198,6 +219,27 @@ export default function AdminDashboard() {
           color: '#00BCD4',
           description: 'Export payroll data',
         },
+        {
+          icon: 'payments',
+          label: 'Payroll',
+          route: '/(admin)/payroll',
+          color: '#43A047',
+          description: 'Earnings & approval',
+        },
+        {
+          icon: 'assignment',
+          label: 'Compensation Plans',
+          route: '/(admin)/compensation-plans',
+          color: '#6D4C41',
+          description: 'Rates by team & market',
+        },
+        {
+          icon: 'edit-calendar',
+          label: 'Time Corrections',
+          route: '/(admin)/time-corrections',
+          color: '#8E24AA',
+          description: 'Review shift fixes',
+        },
         {
           icon: 'sync',
           label: 'Sync Status',
@@ -205,6 +247,13 @@ export default function AdminDashboard() {
           color: '#009688',
           description: 'Salesforce sync',
         },
+        {
+          icon: 'tablet-android',
+          label: 'Device Fleet',
+          route: '/(admin)/devices',
+          color: '#546E7A',
+          description: 'Kiosk tablets & remote commands',
+        },
         {
           icon: 'trending-up',
           label: 'Stats Sync',
@@ -247,6 +296,13 @@ export default function AdminDashboard() {
           color: '#FF5722',
           description: 'Auto push & SMS alerts',
         },
+        {
+          icon: 'gavel',
+          label: 'Labor Rules',
+          route: '/(admin)/labor-rules',
+          color: '#795548',
+          description: 'Overtime, breaks & rest',
+        },
         {
           icon: 'mail',
           label: 'Daily Reports',
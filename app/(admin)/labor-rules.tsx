@@ -0,0 +1,344 @@
+// Admin labor compliance rules - overtime, meal breaks, shift length and rest between shifts
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, ScrollView, Pressable, Switch, TextInput } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { useAlert } from '@/template';
+import { useApp } from '@/hooks/useApp';
+import { Button } from '@/components/ui/Button';
+import { SPACING, FONTS, LOWES_THEME } from '@/constants/theme';
+import { LaborRules } from '@/types';
+import { formatFullDateTime } from '@/utils/timeFormat';
+import * as LaborRulesService from '@/services/laborRulesService';
+
+type RuleKey = 'weeklyOvertimeHours' | 'dailyOvertimeHours' | 'mealBreakAfterHours' | 'maxShiftHours' | 'minRestHours';
+
+const RULES: { key: RuleKey; label: string; description: string; icon: string; suggested: number[] }[] = [
+  {
+    key: 'weeklyOvertimeHours',
+    label: 'Weekly Overtime',
+    description: 'Paid hours in a Monday-Sunday week before overtime. Reported, and confirmed when scheduling',
+    icon: 'date-range',
+    suggested: [40],
+  },
+  {
+    key: 'dailyOvertimeHours',
+    label: 'Daily Overtime',
+    description: 'Paid hours in one day before overtime (e.g. California)',
+    icon: 'today',
+    suggested: [8, 10],
+  },
+  {
+    key: 'mealBreakAfterHours',
+    label: 'Meal Break',
+    description: 'A meal break has to start before this many hours on the clock',
+    icon: 'restaurant',
+    suggested: [5, 6],
+  },
+  {
+    key: 'maxShiftHours',
+    label: 'Maximum Shift Length',
+    description: 'Longest shift that can be scheduled or worked',
+    icon: 'timelapse',
+    suggested: [10, 12],
+  },
+  {
+    key: 'minRestHours',
+    label: 'Minimum Rest',
+    description: 'Hours off between the end of one workday and the start of the next',
+    icon: 'hotel',
+    suggested: [8, 10],
+  },
+];
+
+export default function LaborRulesScreen() {
+  const router = useRouter();
+  const { showAlert } = useAlert();
+  const { currentUser, employees } = useApp();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [rules, setRules] = useState<LaborRules>(LaborRulesService.DEFAULT_LABOR_RULES);
+
+  const loadRules = useCallback(async () => {
+    try {
+      setRules(await LaborRulesService.getLaborRules());
+    } catch (error) {
+      console.error('Error loading labor rules:', error);
+      showAlert('Error', 'Failed to load labor rules');
+    } finally {
+      setLoading(false);
+    }
+  }, [showAlert]);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const toggleRule = (key: RuleKey, enabled: boolean) => {
+    const fallback = LaborRulesService.DEFAULT_LABOR_RULES[key] ?? RULES.find(r => r.key === key)!.suggested[0];
+    setRules({ ...rules, [key]: enabled ? fallback : null });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await LaborRulesService.saveLaborRules(rules, currentUser?.id);
+      showAlert('Rules Saved', 'Kiosks pick up the new rules at the next clock-in');
+      router.back();
+    } catch (error) {
+      showAlert('Invalid Rules', error instanceof Error ? error.message : String(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updatedBy = employees.find(e => e.id === rules.updatedBy);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.backButton}>
+          <MaterialIcons name="arrow-back" size={24} color="#FFFFFF" />
+        </Pressable>
+        <Text style={styles.headerTitle}>Labor Rules</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView style={styles.content}>
+        {/* Info Banner */}
+        <View style={styles.infoBanner}>
+          <MaterialIcons name="gavel" size={24} color={LOWES_THEME.primary} />
+          <View style={styles.infoBannerContent}>
+            <Text style={styles.infoBannerTitle}>How Rules Are Applied</Text>
+            <Text style={styles.infoBannerText}>
+              Employees are warned at clock-in, schedules that break a rule cannot be created, and every
+              violation is listed on Time Clock Export.
+            </Text>
+            {rules.updatedAt && (
+              <Text style={styles.infoBannerMeta}>
+                Last changed {formatFullDateTime(rules.updatedAt)}
+                {updatedBy ? ` by ${updatedBy.firstName} ${updatedBy.lastName}` : ''}
+              </Text>
+            )}
+          </View>
+        </View>
+
+        {RULES.map(rule => {
+          const value = rules[rule.key];
+          const enabled = value !== null;
+          return (
+            <View key={rule.key} style={styles.section}>
+              <View style={styles.settingRow}>
+                <MaterialIcons name={rule.icon as any} size={24} color={LOWES_THEME.primary} />
+                <View style={styles.settingInfo}>
+                  <Text style={styles.settingLabel}>{rule.label}</Text>
+                  <Text style={styles.settingDescription}>{rule.description}</Text>
+                </View>
+                <Switch
+                  value={enabled}
+                  onValueChange={(on) => toggleRule(rule.key, on)}
+                  trackColor={{ false: '#ccc', true: LOWES_THEME.primary }}
+                  thumbColor="#FFFFFF"
+                  disabled={loading}
+                />
+              </View>
+
+              {enabled && (
+                <View style={styles.thresholdCard}>
+                  <View style={styles.thresholdInputContainer}>
+                    <TextInput
+                      style={styles.thresholdInput}
+                      value={String(value)}
+                      onChangeText={(text) => setRules({ ...rules, [rule.key]: parseInt(text) || 0 })}
+                      keyboardType="number-pad"
+                    />
+                    <Text style={styles.thresholdUnit}>hours</Text>
+                  </View>
+
+                  {rule.key === 'mealBreakAfterHours' && (
+                    <View style={styles.thresholdInputContainer}>
+                      <TextInput
+                        style={styles.thresholdInput}
+                        value={String(rules.mealBreakMinutes)}
+                        onChangeText={(text) => setRules({ ...rules, mealBreakMinutes: parseInt(text) || 0 })}
+                        keyboardType="number-pad"
+                      />
+                      <Text style={styles.thresholdUnit}>minute break</Text>
+                    </View>
+                  )}
+
+                  <View style={styles.suggestedButtons}>
+                    {rule.suggested.map(suggested => (
+                      <Pressable
+                        key={suggested}
+                        style={[styles.suggestedButton, value === suggested && styles.suggestedButtonActive]}
+                        onPress={() => setRules({ ...rules, [rule.key]: suggested })}
+                      >
+                        <Text style={[styles.suggestedButtonText, value === suggested && styles.suggestedButtonTextActive]}>
+                          {suggested}h
+                        </Text>
+                      </Pressable>
+                    ))}
+                  </View>
+                </View>
+              )}
+            </View>
+          );
+        })}
+      </ScrollView>
+
+      {/* Save Button */}
+      <View style={styles.footer}>
+        <Button
+          title={saving ? 'Saving...' : 'Save Rules'}
+          onPress={handleSave}
+          backgroundColor={LOWES_THEME.primary}
+          fullWidth
+          disabled={saving || loading}
+        />
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.md,
+    backgroundColor: LOWES_THEME.primary,
+  },
+  backButton: {
+    padding: SPACING.sm,
+  },
+  headerTitle: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    flex: 1,
+    textAlign: 'center',
+  },
+  content: {
+    flex: 1,
+    padding: SPACING.lg,
+  },
+  infoBanner: {
+    flexDirection: 'row',
+    gap: SPACING.md,
+    backgroundColor: '#E3F2FD',
+    padding: SPACING.lg,
+    borderRadius: 12,
+    marginBottom: SPACING.lg,
+  },
+  infoBannerContent: {
+    flex: 1,
+  },
+  infoBannerTitle: {
+    fontSize: FONTS.sizes.md,
+    fontWeight: '700',
+    color: LOWES_THEME.text,
+    marginBottom: 4,
+  },
+  infoBannerText: {
+    fontSize: FONTS.sizes.sm,
+    color: LOWES_THEME.text,
+    lineHeight: 20,
+  },
+  infoBannerMeta: {
+    fontSize: FONTS.sizes.xs,
+    color: LOWES_THEME.textSubtle,
+    marginTop: SPACING.xs,
+  },
+  section: {
+    marginBottom: SPACING.lg,
+    gap: SPACING.sm,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.md,
+    backgroundColor: '#FFFFFF',
+    padding: SPACING.lg,
+    borderRadius: 12,
+  },
+  settingInfo: {
+    flex: 1,
+  },
+  settingLabel: {
+    fontSize: FONTS.sizes.md,
+    fontWeight: '600',
+    color: LOWES_THEME.text,
+    marginBottom: 4,
+  },
+  settingDescription: {
+    fontSize: FONTS.sizes.sm,
+    color: LOWES_THEME.textSubtle,
+    lineHeight: 18,
+  },
+  thresholdCard: {
+    backgroundColor: '#FFFFFF',
+    padding: SPACING.lg,
+    borderRadius: 12,
+    gap: SPACING.md,
+    borderWidth: 2,
+    borderColor: LOWES_THEME.primary,
+  },
+  thresholdInputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    backgroundColor: '#F5F5F5',
+    padding: SPACING.md,
+    borderRadius: 8,
+  },
+  thresholdInput: {
+    fontSize: 32,
+    fontWeight: '700',
+    color: LOWES_THEME.text,
+    minWidth: 80,
+    textAlign: 'center',
+  },
+  thresholdUnit: {
+    fontSize: FONTS.sizes.lg,
+    color: LOWES_THEME.textSubtle,
+    fontWeight: '600',
+  },
+  suggestedButtons: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+    flexWrap: 'wrap',
+  },
+  suggestedButton: {
+    paddingVertical: SPACING.sm,
+    paddingHorizontal: SPACING.lg,
+    borderRadius: 20,
+    borderWidth: 2,
+    borderColor: LOWES_THEME.primary,
+    backgroundColor: '#FFFFFF',
+  },
+  suggestedButtonActive: {
+    backgroundColor: LOWES_THEME.primary,
+  },
+  suggestedButtonText: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: '600',
+    color: LOWES_THEME.primary,
+  },
+  suggestedButtonTextActive: {
+    color: '#FFFFFF',
+  },
+  footer: {
+    padding: SPACING.lg,
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderTopColor: '#E0E0E0',
+  },
+});
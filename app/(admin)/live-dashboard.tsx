@@ -1,9 +1,10 @@
 // Live manager dashboard - Monitor clocked-in employees
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { View, Text, StyleSheet, ScrollView, RefreshControl, Pressable, Dimensions, Image } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useApp } from '@/hooks/useApp';
+import { useRealtime } from '@/hooks/useRealtime';
 import { SPACING, FONTS, LOWES_THEME } from '@/constants/theme';
 import { Employee, TimeEntry } from '@/types';
 import { formatDateTime12Hour } from '@/utils/timeFormat';
@@ -21,68 +22,78 @@ interface EmployeeStatus {
   notInApp?: boolean;
 }
 
+type ClockedInEmployee = Omit<EmployeeStatus, 'isInactive' | 'inactiveMinutes' | 'notInApp'>;
+
+const INACTIVITY_THRESHOLD_MS = 15 * 60 * 1000; // 15 minutes
+
 export default function LiveDashboard() {
-  const { getClockedInEmployees, surveys } = useApp();
-  const [clockedInEmployees, setClockedInEmployees] = useState<EmployeeStatus[]>([]);
+  const { getClockedInEmployees, surveys, loadData } = useApp();
+  const [clockedIn, setClockedIn] = useState<ClockedInEmployee[]>([]);
+  const [now, setNow] = useState(Date.now());
   const [refreshing, setRefreshing] = useState(false);
 
+  const loadClockedInEmployees = async () => {
+    setClockedIn(await getClockedInEmployees());
+    setNow(Date.now());
+  };
+
   useEffect(() => {
     loadClockedInEmployees();
-    
-    // Auto-refresh every 30 seconds
-    const interval = setInterval(loadClockedInEmployees, 30000);
+
+    // Inactivity is time-based - re-evaluate every minute without refetching
+    const interval = setInterval(() => setNow(Date.now()), 60000);
     return () => clearInterval(interval);
   }, []);
 
-  const loadClockedInEmployees = async () => {
-    const employees = await getClockedInEmployees();
+  // Clock-ins/outs and kiosk activity arrive within seconds; new surveys refresh the shared survey list
+  const realtimeStatus = useRealtime(['time_entries', 'surveys', 'user_activity'], update => {
+    if (update.tables.includes('surveys')) {
+      loadData();
+    }
+    loadClockedInEmployees();
+  });
+
+  // Enhanced: Check for actual inactivity based on last survey/activity + "Not in app" detection
+  const clockedInEmployees: EmployeeStatus[] = useMemo(() => clockedIn.map(emp => {
+    // Find employee's surveys today
+    const today = new Date().toISOString().split('T')[0];
+    const employeeSurveysToday = surveys.filter(s => 
+      s.employeeId === emp.employee.id && 
+      s.timestamp.startsWith(today)
+    );
     
-    // Enhanced: Check for actual inactivity based on last survey/activity + "Not in app" detection
-    const now = Date.now();
-    const inactivityThreshold = 15 * 60 * 1000; // 15 minutes
+    // Get last activity time
+    let lastActivityTime: number;
+    let notInApp = false;
     
-    const enhancedEmployees = employees.map(emp => {
-      // Find employee's surveys today
-      const today = new Date().toISOString().split('T')[0];
-      const employeeSurveysToday = surveys.filter(s => 
-        s.employeeId === emp.employee.id && 
-        s.timestamp.startsWith(today)
-      );
-      
-      // Get last activity time
-      let lastActivityTime: number;
-      let activitySource = 'clock_in';
-      let notInApp = false;
-      
-      if (employeeSurveysToday.length > 0) {
-        // Use last survey time as last activity
-        const lastSurvey = employeeSurveysToday.sort((a, b) => 
-          new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-        )[0];
-        lastActivityTime = new Date(lastSurvey.timestamp).getTime();
-        activitySource = 'survey';
-        // Check if last survey was more than 60s ago (heartbeat timeout)
-        notInApp = (now - lastActivityTime) > 60 * 1000;
-      } else {
-        // No surveys today = definitely not in app
-        lastActivityTime = new Date(emp.timeEntry.clockIn).getTime();
-        activitySource = 'clock_in';
-        notInApp = true;
-      }
-      
-      const inactiveMinutes = Math.floor((now - lastActivityTime) / (1000 * 60));
-      const isInactive = (now - lastActivityTime) > inactivityThreshold;
-      
-      return {
-        ...emp,
-        isInactive,
-        notInApp,
-        inactiveMinutes,
-      };
-    });
+    if (employeeSurveysToday.length > 0) {
+      // Use last survey time as last activity
+      const lastSurvey = [...employeeSurveysToday].sort((a, b) => 
+        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+      )[0];
+      lastActivityTime = new Date(lastSurvey.timestamp).getTime();
+      // Check if last survey was more than 60s ago (heartbeat timeout)
+      notInApp = (now - lastActivityTime) > 60 * 1000;
+    } else {
+      // No surveys today = definitely not in app
+      lastActivityTime = new Date(emp.timeEntry.clockIn).getTime();
+      notInApp = true;
+    }
     
-    setClockedInEmployees(enhancedEmployees);
-  };
+    const inactiveMinutes = Math.floor((now - lastActivityTime) / (1000 * 60));
+    const isInactive = (now - lastActivityTime) > INACTIVITY_THRESHOLD_MS;
+    
+    return {
+      ...emp,
+      isInactive,
+      notInApp,
+      inactiveMinutes,
+    };
+  }), [clockedIn, surveys, now]);
+
+  const realtimeLabel = realtimeStatus === 'live'
+    ? 'Live'
+    : realtimeStatus === 'polling' ? 'Reconnecting - refreshing every 30s' : 'Connecting…';
 
   const handleRefresh = async () => {
     setRefreshing(true);
@@ -220,7 +231,7 @@ export default function LiveDashboard() {
           <View>
             <Text style={styles.desktopTitle}>Live Dashboard</Text>
             <Text style={styles.desktopSubtitle}>
-              {clockedInEmployees.length} employee{clockedInEmployees.length !== 1 ? 's' : ''} clocked in • Auto-refreshes every 30s
+              {clockedInEmployees.length} employee{clockedInEmployees.length !== 1 ? 's' : ''} clocked in • {realtimeLabel}
             </Text>
           </View>
           <Pressable onPress={handleRefresh} style={styles.desktopRefreshButton}>
@@ -248,7 +259,7 @@ export default function LiveDashboard() {
         <View>
           <Text style={styles.headerTitle}>Live Dashboard</Text>
           <Text style={styles.headerSubtitle}>
-            {clockedInEmployees.length} employee{clockedInEmployees.length !== 1 ? 's' : ''} clocked in
+            {clockedInEmployees.length} employee{clockedInEmployees.length !== 1 ? 's' : ''} clocked in • {realtimeLabel}
           </Text>
         </View>
         <Pressable onPress={handleRefresh} style={styles.refreshButton}>
@@ -25,7 +25,7 @@ export default function NotificationsHistoryScreen() {
   }, []);
 
   const loadData = async () => {
-    const alertsData = await StorageService.getData<Alert[]>('alerts') || [];
+    const alertsData = await StorageService.getAlerts();
     const notificationsData = await StorageService.getData<PushNotification[]>('push_notifications') || [];
     
     setAlerts(alertsData.sort((a, b) => 
@@ -11,7 +11,7 @@ import { Input } from '@/components/ui/Input';
 import { SPACING, FONTS, LOWES_THEME } from '@/constants/theme';
 
 export default function OnboardingManagerScreen() {
-  const { loadData } = useApp();
+  const { loadData, currentUser } = useApp();
   const { showAlert } = useAlert();
   const [compensationSettings, setCompensationSettings] = useState({
     baseHourlyRate: 15,
@@ -32,10 +32,15 @@ export default function OnboardingManagerScreen() {
   };
 
   const saveCompensation = async () => {
-    await StorageService.saveCompensationSettings(compensationSettings);
+    try {
+      await StorageService.saveCompensationSettings(compensationSettings, currentUser?.id);
+    } catch (error) {
+      showAlert('Error', `Failed to save compensation settings: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
     await loadData();
     setIsEditingCompensation(false);
-    showAlert('Settings Updated', 'Compensation settings have been saved');
+    showAlert('Settings Updated', 'New rates apply to pay periods starting today or later');
   };
 
   const onboardingSteps = [
@@ -0,0 +1,743 @@
+// Pay-period close - review exceptions, approve and lock the period, export it to ADP and reconcile
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, Pressable, ActivityIndicator, RefreshControl, Modal, Platform } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useAlert } from '@/template';
+import { useApp } from '@/hooks/useApp';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { SPACING, FONTS, LOWES_THEME } from '@/constants/theme';
+import { formatFullDateTime, formatPayPeriod, toLocalDateKey } from '@/utils/timeFormat';
+import { downloadCSV, exportReconciliationToCSV, shareCSV } from '@/utils/exportData';
+import {
+  EarningsStatement,
+  PayFrequency,
+  PayPeriod,
+  PayPeriodClose,
+  PaySchedule,
+  PayrollException,
+  PayrollExceptionType,
+} from '@/types';
+import {
+  getPayPeriod,
+  getPayPeriodStatements,
+  getPaySchedules,
+  savePaySchedule,
+  shiftPayPeriod,
+} from '@/services/payrollService';
+import {
+  EXCEPTION_LABELS,
+  exportPayPeriod,
+  getPayrollExceptions,
+  getPeriodClose,
+  lockPayPeriod,
+  reviewException,
+  unlockPayPeriod,
+} from '@/services/payPeriodCloseService';
+
+const EXCEPTION_ICONS: Record<PayrollExceptionType, string> = {
+  missing_clock_out: 'timer-off',
+  forced_clock_out: 'person-off',
+  unverified_location: 'location-off',
+};
+
+const STATUS_LABELS: Record<PayPeriodClose['status'], string> = {
+  open: 'Open',
+  locked: 'Locked',
+  exported: 'In ADP',
+};
+
+const parseDay = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export default function PayPeriodCloseScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ start?: string }>();
+  const { showAlert } = useAlert();
+  const { currentUser, employees } = useApp();
+  const [schedules, setSchedules] = useState<PaySchedule[]>([]);
+  const [period, setPeriod] = useState<PayPeriod | null>(null);
+  const [close, setClose] = useState<PayPeriodClose | null>(null);
+  const [exceptions, setExceptions] = useState<PayrollException[]>([]);
+  const [statements, setStatements] = useState<EarningsStatement[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [reviewTarget, setReviewTarget] = useState<PayrollException | null>(null);
+  const [reviewNote, setReviewNote] = useState('');
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [newFrequency, setNewFrequency] = useState<PayFrequency>('biweekly');
+  const [newAnchor, setNewAnchor] = useState<string | null>(null);
+
+  const today = toLocalDateKey(new Date());
+  const currentPeriod = schedules.length > 0 ? getPayPeriod(new Date(), schedules) : null;
+
+  // Defaults to the most recent period that has ended
+  useEffect(() => {
+    getPaySchedules().then(loaded => {
+      setSchedules(loaded);
+      setPeriod(params.start
+        ? getPayPeriod(parseDay(params.start), loaded)
+        : shiftPayPeriod(getPayPeriod(new Date(), loaded), -1, loaded));
+    });
+  }, [params.start]);
+
+  const loadPeriod = useCallback(async () => {
+    if (!period) return;
+    try {
+      const periodClose = await getPeriodClose(period);
+      const [periodExceptions, periodStatements] = await Promise.all([
+        getPayrollExceptions(period, periodClose),
+        getPayPeriodStatements(period),
+      ]);
+      setClose(periodClose);
+      setExceptions(periodExceptions);
+      setStatements(periodStatements);
+    } catch (error) {
+      showAlert('Error', `Failed to load pay period: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [period, showAlert]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    loadPeriod();
+  }, [loadPeriod]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadPeriod();
+    setRefreshing(false);
+  };
+
+  const getEmployeeName = (employeeId?: string) => {
+    const employee = employees.find(e => e.id === employeeId);
+    return employee ? `${employee.firstName} ${employee.lastName}` : 'Unknown employee';
+  };
+
+  const runAction = async (action: () => Promise<unknown>, errorTitle: string) => {
+    setIsWorking(true);
+    try {
+      await action();
+      await loadPeriod();
+    } catch (error) {
+      showAlert(errorTitle, error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const saveReview = async () => {
+    if (!period || !reviewTarget) return;
+    const target = reviewTarget;
+    setReviewTarget(null);
+    await runAction(() => reviewException(period, target, currentUser!.id, reviewNote), 'Review Failed');
+  };
+
+  const handleLock = () => {
+    if (!period) return;
+    const drafts = statements.filter(s => s.status === 'draft').length;
+    showAlert(
+      'Approve & Lock?',
+      `${drafts} draft statement(s) will be approved. Hours and earnings for ${formatPayPeriod(period)} can no longer change until the period is unlocked.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Lock', onPress: () => runAction(() => lockPayPeriod(period, currentUser!.id), 'Cannot Lock') },
+      ]
+    );
+  };
+
+  const handleUnlock = () => {
+    if (!period) return;
+    showAlert(
+      'Unlock Period?',
+      'Statements the lock approved go back to draft and are recalculated. Statements approved by hand stay approved - reopen those from the Payroll screen if they need changes.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Unlock', onPress: () => runAction(() => unlockPayPeriod(period), 'Cannot Unlock') },
+      ]
+    );
+  };
+
+  const handleExport = async () => {
+    if (!period) return;
+    await runAction(async () => {
+      const reconciliation = await exportPayPeriod(period, currentUser!.id);
+      const problems = reconciliation.lines.filter(line => line.status !== 'accepted').length;
+      showAlert(
+        problems === 0 ? 'Exported to ADP' : 'Export Incomplete',
+        `$${reconciliation.exportedTotal.toFixed(2)} of $${reconciliation.expectedTotal.toFixed(2)} accepted by ADP.` +
+          (problems > 0 ? `\n\n${problems} line(s) were not exported - see the reconciliation below and retry.` : '')
+      );
+    }, 'Export Failed');
+  };
+
+  const handleShareReport = () => {
+    if (!close?.reconciliation || !period) return;
+    const csv = exportReconciliationToCSV(close.reconciliation);
+    const filename = `adp_reconciliation_${period.start}.csv`;
+    if (Platform.OS === 'web') {
+      downloadCSV(csv, filename);
+    } else {
+      shareCSV(csv, filename);
+    }
+  };
+
+  // A new schedule can start with any of the next few periods
+  const scheduleStarts = currentPeriod
+    ? [1, 2, 3].map(count => shiftPayPeriod(currentPeriod, count, schedules).start)
+    : [];
+
+  const openSchedule = () => {
+    setNewFrequency(currentPeriod?.frequency === 'weekly' ? 'biweekly' : 'weekly');
+    setNewAnchor(scheduleStarts[0] || null);
+    setShowSchedule(true);
+  };
+
+  const saveSchedule = async () => {
+    if (!newAnchor) return;
+    setShowSchedule(false);
+    setIsWorking(true);
+    try {
+      await savePaySchedule(newFrequency, newAnchor, currentUser?.id);
+      setSchedules(await getPaySchedules());
+      showAlert('Schedule Saved', `Pay periods are ${newFrequency} from ${newAnchor}.`);
+    } catch (error) {
+      showAlert('Error', `Failed to save schedule: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const status = close?.status || 'open';
+  const unreviewed = exceptions.filter(e => !e.reviewedAt).length;
+  const hasEnded = !!period && period.end < today;
+  const periodTotal = statements.reduce((sum, s) => sum + s.total, 0);
+  const periodHours = statements.reduce((sum, s) => sum + s.hoursWorked, 0);
+  const reconciliation = close?.reconciliation;
+  const statusColor = status === 'exported' ? LOWES_THEME.success : status === 'locked' ? LOWES_THEME.primary : LOWES_THEME.warning;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.backButton}>
+          <MaterialIcons name="arrow-back" size={24} color="#FFFFFF" />
+        </Pressable>
+        <Text style={styles.headerTitle}>Close Pay Period</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
+        {period && (
+          <View style={styles.periodRow}>
+            <Pressable style={styles.periodButton} onPress={() => setPeriod(shiftPayPeriod(period, -1, schedules))}>
+              <MaterialIcons name="chevron-left" size={28} color={LOWES_THEME.primary} />
+            </Pressable>
+            <View style={styles.periodLabel}>
+              <Text style={styles.periodText}>{formatPayPeriod(period)}</Text>
+              <Text style={styles.periodHint}>
+                {period.frequency === 'weekly' ? 'Weekly' : 'Biweekly'}
+                {hasEnded ? '' : ' - still accruing'}
+              </Text>
+            </View>
+            <Pressable
+              style={styles.periodButton}
+              onPress={() => setPeriod(shiftPayPeriod(period, 1, schedules))}
+              disabled={!hasEnded}
+            >
+              <MaterialIcons name="chevron-right" size={28} color={hasEnded ? LOWES_THEME.primary : LOWES_THEME.border} />
+            </Pressable>
+          </View>
+        )}
+
+        {isLoading || !period ? (
+          <ActivityIndicator color={LOWES_THEME.primary} />
+        ) : (
+          <>
+            <View style={styles.summaryRow}>
+              <View style={styles.summaryCard}>
+                <Text style={[styles.summaryValue, { color: statusColor }]}>{STATUS_LABELS[status]}</Text>
+                <Text style={styles.summaryLabel}>Status</Text>
+              </View>
+              <View style={styles.summaryCard}>
+                <Text style={styles.summaryValue}>{periodHours.toFixed(1)}</Text>
+                <Text style={styles.summaryLabel}>Hours</Text>
+              </View>
+              <View style={styles.summaryCard}>
+                <Text style={styles.summaryValue}>${periodTotal.toFixed(2)}</Text>
+                <Text style={styles.summaryLabel}>{statements.length} Employees</Text>
+              </View>
+            </View>
+
+            {/* Step 1 - exceptions */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>1. Review Exceptions</Text>
+              <Text style={styles.sectionSubtitle}>
+                {exceptions.length === 0
+                  ? 'No missing clock-outs, forced clock-outs or unverified locations'
+                  : `${exceptions.length - unreviewed} of ${exceptions.length} reviewed`}
+              </Text>
+              {exceptions.map(exception => (
+                <View key={exception.id} style={styles.exceptionCard}>
+                  <MaterialIcons
+                    name={EXCEPTION_ICONS[exception.type] as any}
+                    size={22}
+                    color={exception.reviewedAt ? LOWES_THEME.success : LOWES_THEME.warning}
+                  />
+                  <View style={styles.exceptionBody}>
+                    <Text style={styles.exceptionTitle}>
+                      {EXCEPTION_LABELS[exception.type]} - {getEmployeeName(exception.employeeId)}
+                    </Text>
+                    <Text style={styles.exceptionDetail}>{formatFullDateTime(exception.clockIn)}</Text>
+                    <Text style={styles.exceptionDetail}>{exception.detail}</Text>
+                    {exception.reviewedAt ? (
+                      <Text style={styles.reviewedText}>
+                        Reviewed by {getEmployeeName(exception.reviewedBy)}
+                        {exception.note ? `: ${exception.note}` : ''}
+                      </Text>
+                    ) : status === 'open' ? (
+                      <Pressable
+                        style={styles.actionButton}
+                        onPress={() => {
+                          setReviewNote('');
+                          setReviewTarget(exception);
+                        }}
+                      >
+                        <MaterialIcons name="check" size={16} color={LOWES_THEME.primary} />
+                        <Text style={styles.actionText}>
+                          {exception.type === 'missing_clock_out' ? 'Leave Unpaid' : 'Accept Hours'}
+                        </Text>
+                      </Pressable>
+                    ) : null}
+                  </View>
+                </View>
+              ))}
+            </View>
+
+            {/* Step 2 - approve and lock */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>2. Approve & Lock</Text>
+              {status === 'open' ? (
+                <>
+                  <Text style={styles.sectionSubtitle}>
+                    {!hasEnded
+                      ? 'The period can be locked once it has ended'
+                      : unreviewed > 0
+                        ? `Review ${unreviewed} exception(s) first`
+                        : `${statements.filter(s => s.status === 'draft').length} draft statement(s) will be approved`}
+                  </Text>
+                  <Button
+                    title={isWorking ? 'Working...' : 'Approve & Lock'}
+                    onPress={handleLock}
+                    backgroundColor={LOWES_THEME.primary}
+                    icon="lock"
+                    disabled={isWorking || !hasEnded || unreviewed > 0}
+                    fullWidth
+                  />
+                </>
+              ) : (
+                <>
+                  <Text style={styles.sectionSubtitle}>
+                    Locked {close?.lockedAt ? formatFullDateTime(close.lockedAt) : ''}
+                    {close?.lockedBy ? ` by ${getEmployeeName(close.lockedBy)}` : ''} - {close?.timeEntryIds.length || 0} shift(s)
+                  </Text>
+                  {status === 'locked' && !reconciliation?.lines.some(line => line.status === 'accepted') && (
+                    <Button title="Unlock" onPress={handleUnlock} variant="outline" icon="lock-open" disabled={isWorking} />
+                  )}
+                </>
+              )}
+            </View>
+
+            {/* Step 3 - export */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>3. Export to ADP</Text>
+              {status === 'open' ? (
+                <Text style={styles.sectionSubtitle}>Available once the period is locked</Text>
+              ) : (
+                <>
+                  <Text style={styles.sectionSubtitle}>
+                    {status === 'exported'
+                      ? `Exported ${close?.exportedAt ? formatFullDateTime(close.exportedAt) : ''}`
+                      : 'Approved hours, install bonuses and adjustments go to ADP as one batch'}
+                  </Text>
+                  {status === 'locked' && (
+                    <Button
+                      title={isWorking ? 'Exporting...' : reconciliation ? 'Retry Export' : 'Export to ADP'}
+                      onPress={handleExport}
+                      backgroundColor={LOWES_THEME.success}
+                      icon="cloud-upload"
+                      disabled={isWorking}
+                      fullWidth
+                    />
+                  )}
+                </>
+              )}
+
+              {reconciliation && (
+                <View style={styles.reconciliation}>
+                  <View style={styles.reconciliationRow}>
+                    <Text style={styles.reconciliationLabel}>Approved</Text>
+                    <Text style={styles.reconciliationValue}>
+                      {reconciliation.expectedHours.toFixed(2)} hrs | ${reconciliation.expectedTotal.toFixed(2)}
+                    </Text>
+                  </View>
+                  <View style={styles.reconciliationRow}>
+                    <Text style={styles.reconciliationLabel}>In ADP</Text>
+                    <Text
+                      style={[
+                        styles.reconciliationValue,
+                        reconciliation.exportedTotal !== reconciliation.expectedTotal && { color: LOWES_THEME.error },
+                      ]}
+                    >
+                      {reconciliation.exportedHours.toFixed(2)} hrs | ${reconciliation.exportedTotal.toFixed(2)}
+                    </Text>
+                  </View>
+                  <Text style={styles.exceptionDetail}>
+                    Batch {reconciliation.batchId} - {formatFullDateTime(reconciliation.submittedAt)} -{' '}
+                    {reconciliation.timeEntriesMarked} shift(s) marked synced
+                  </Text>
+                  {reconciliation.lines.map(line => (
+                    <View key={line.correctionId || line.employeeId} style={styles.reconciliationRow}>
+                      <MaterialIcons
+                        name={line.status === 'accepted' ? 'check-circle' : line.status === 'skipped' ? 'remove-circle' : 'error'}
+                        size={18}
+                        color={line.status === 'accepted' ? LOWES_THEME.success : LOWES_THEME.error}
+                      />
+                      <View style={styles.exceptionBody}>
+                        <Text style={styles.reconciliationLabel}>{line.employeeName}</Text>
+                        {line.error && <Text style={styles.errorText}>{line.error}</Text>}
+                      </View>
+                      <Text style={styles.reconciliationValue}>
+                        {line.hours.toFixed(2)} hrs | ${line.total.toFixed(2)}
+                      </Text>
+                    </View>
+                  ))}
+                  <Button title="Share Report" onPress={handleShareReport} variant="outline" icon="share" />
+                </View>
+              )}
+            </View>
+
+            {/* Pay schedule */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Pay Schedule</Text>
+              <Text style={styles.sectionSubtitle}>
+                {currentPeriod?.frequency === 'weekly' ? 'Weekly' : 'Biweekly'} - current period{' '}
+                {currentPeriod ? formatPayPeriod(currentPeriod) : ''}
+              </Text>
+              {schedules
+                .filter(s => s.anchorDate > today)
+                .map(s => (
+                  <Text key={s.id} style={styles.exceptionDetail}>
+                    Switches to {s.frequency} on {s.anchorDate}
+                  </Text>
+                ))}
+              <Button title="Change Schedule" onPress={openSchedule} variant="outline" icon="event" disabled={isWorking} />
+            </View>
+          </>
+        )}
+      </ScrollView>
+
+      <Modal visible={!!reviewTarget} transparent animationType="slide" onRequestClose={() => setReviewTarget(null)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{reviewTarget ? EXCEPTION_LABELS[reviewTarget.type] : ''}</Text>
+              <Pressable onPress={() => setReviewTarget(null)}>
+                <MaterialIcons name="close" size={24} color={LOWES_THEME.text} />
+              </Pressable>
+            </View>
+            <ScrollView contentContainerStyle={styles.modalBody}>
+              <Text style={styles.sectionSubtitle}>
+                {reviewTarget?.type === 'missing_clock_out'
+                  ? 'The shift is left out of this period\'s pay. Correct the time card to pay it in a later period.'
+                  : 'The shift is paid as recorded. Add an adjustment on the Payroll screen if hours need to change.'}
+              </Text>
+              <Input
+                label="Note (optional)"
+                value={reviewNote}
+                onChangeText={setReviewNote}
+                placeholder="e.g. Confirmed with store manager"
+              />
+              <View style={styles.modalActions}>
+                <Button title="Cancel" onPress={() => setReviewTarget(null)} variant="outline" />
+                <Button title="Mark Reviewed" onPress={saveReview} backgroundColor={LOWES_THEME.primary} />
+              </View>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal visible={showSchedule} transparent animationType="slide" onRequestClose={() => setShowSchedule(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Change Pay Schedule</Text>
+              <Pressable onPress={() => setShowSchedule(false)}>
+                <MaterialIcons name="close" size={24} color={LOWES_THEME.text} />
+              </Pressable>
+            </View>
+            <ScrollView contentContainerStyle={styles.modalBody}>
+              <Text style={styles.fieldLabel}>Frequency</Text>
+              <View style={styles.chipRow}>
+                {(['weekly', 'biweekly'] as PayFrequency[]).map(frequency => (
+                  <Pressable
+                    key={frequency}
+                    style={[styles.chip, newFrequency === frequency && styles.chipActive]}
+                    onPress={() => setNewFrequency(frequency)}
+                  >
+                    <Text style={[styles.chipText, newFrequency === frequency && styles.chipTextActive]}>
+                      {frequency === 'weekly' ? 'Weekly' : 'Biweekly'}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+              <Text style={styles.fieldLabel}>Starting with the period beginning</Text>
+              <View style={styles.chipRow}>
+                {scheduleStarts.map(start => (
+                  <Pressable
+                    key={start}
+                    style={[styles.chip, newAnchor === start && styles.chipActive]}
+                    onPress={() => setNewAnchor(start)}
+                  >
+                    <Text style={[styles.chipText, newAnchor === start && styles.chipTextActive]}>{start}</Text>
+                  </Pressable>
+                ))}
+              </View>
+              <Text style={styles.sectionSubtitle}>Periods that have already started keep their dates.</Text>
+              <View style={styles.modalActions}>
+                <Button title="Cancel" onPress={() => setShowSchedule(false)} variant="outline" />
+                <Button title="Save" onPress={saveSchedule} backgroundColor={LOWES_THEME.primary} disabled={!newAnchor} />
+              </View>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: LOWES_THEME.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.md,
+    backgroundColor: LOWES_THEME.primary,
+  },
+  backButton: {
+    padding: SPACING.sm,
+  },
+  headerTitle: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    flex: 1,
+    textAlign: 'center',
+  },
+  content: {
+    padding: SPACING.lg,
+    gap: SPACING.md,
+  },
+  periodRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  periodButton: {
+    padding: SPACING.xs,
+  },
+  periodLabel: {
+    alignItems: 'center',
+  },
+  periodText: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: '700',
+    color: LOWES_THEME.text,
+  },
+  periodHint: {
+    fontSize: FONTS.sizes.xs,
+    color: LOWES_THEME.textSubtle,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+  },
+  summaryCard: {
+    flex: 1,
+    backgroundColor: LOWES_THEME.surface,
+    borderRadius: 12,
+    padding: SPACING.md,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: LOWES_THEME.border,
+  },
+  summaryValue: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: '700',
+    color: LOWES_THEME.text,
+  },
+  summaryLabel: {
+    fontSize: FONTS.sizes.xs,
+    color: LOWES_THEME.textSubtle,
+    marginTop: 2,
+  },
+  section: {
+    backgroundColor: LOWES_THEME.surface,
+    borderRadius: 12,
+    padding: SPACING.md,
+    gap: SPACING.sm,
+    borderWidth: 1,
+    borderColor: LOWES_THEME.border,
+  },
+  sectionTitle: {
+    fontSize: FONTS.sizes.md,
+    fontWeight: '700',
+    color: LOWES_THEME.text,
+  },
+  sectionSubtitle: {
+    fontSize: FONTS.sizes.sm,
+    color: LOWES_THEME.textSubtle,
+  },
+  exceptionCard: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+    paddingTop: SPACING.sm,
+    borderTopWidth: 1,
+    borderTopColor: LOWES_THEME.border,
+  },
+  exceptionBody: {
+    flex: 1,
+    gap: 2,
+  },
+  exceptionTitle: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: '600',
+    color: LOWES_THEME.text,
+  },
+  exceptionDetail: {
+    fontSize: FONTS.sizes.xs,
+    color: LOWES_THEME.textSubtle,
+  },
+  reviewedText: {
+    fontSize: FONTS.sizes.xs,
+    color: LOWES_THEME.success,
+  },
+  errorText: {
+    fontSize: FONTS.sizes.xs,
+    color: LOWES_THEME.error,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    marginTop: SPACING.xs,
+    paddingVertical: SPACING.xs,
+    paddingHorizontal: SPACING.sm,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: LOWES_THEME.primary,
+  },
+  actionText: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: '600',
+    color: LOWES_THEME.primary,
+  },
+  reconciliation: {
+    gap: SPACING.sm,
+    paddingTop: SPACING.sm,
+    borderTopWidth: 1,
+    borderTopColor: LOWES_THEME.border,
+  },
+  reconciliationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: SPACING.sm,
+  },
+  reconciliationLabel: {
+    fontSize: FONTS.sizes.sm,
+    color: LOWES_THEME.text,
+  },
+  reconciliationValue: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: '600',
+    color: LOWES_THEME.text,
+  },
+  fieldLabel: {
+    fontSize: FONTS.sizes.md,
+    fontWeight: '500',
+    color: LOWES_THEME.text,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+  },
+  chip: {
+    paddingVertical: SPACING.xs,
+    paddingHorizontal: SPACING.md,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: LOWES_THEME.border,
+  },
+  chipActive: {
+    backgroundColor: LOWES_THEME.primary,
+    borderColor: LOWES_THEME.primary,
+  },
+  chipText: {
+    fontSize: FONTS.sizes.sm,
+    color: LOWES_THEME.text,
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: LOWES_THEME.surface,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: SPACING.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: LOWES_THEME.border,
+  },
+  modalTitle: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: '700',
+    color: LOWES_THEME.text,
+  },
+  modalBody: {
+    padding: SPACING.lg,
+    gap: SPACING.md,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: SPACING.md,
+    marginTop: SPACING.sm,
+  },
+});
@@ -0,0 +1,575 @@
+// Payroll - pay-period earnings per employee, adjustments and approval (closing a period: pay-period-close.tsx)
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, Pressable, ActivityIndicator, RefreshControl, Modal } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useAlert } from '@/template';
+import { useApp } from '@/hooks/useApp';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { EarningsBreakdown } from '@/components/ui/EarningsBreakdown';
+import { SPACING, FONTS, LOWES_THEME } from '@/constants/theme';
+import { formatFullDateTime, formatPayPeriod } from '@/utils/timeFormat';
+import { EarningsStatement, PayPeriod, PayPeriodClose, PaySchedule } from '@/types';
+import {
+  addAdjustment,
+  approveStatement,
+  getPayPeriod,
+  getPayPeriodStatements,
+  getPaySchedules,
+  removeAdjustment,
+  reopenStatement,
+  shiftPayPeriod,
+} from '@/services/payrollService';
+import { getPeriodClose } from '@/services/payPeriodCloseService';
+
+export default function PayrollScreen() {
+  const router = useRouter();
+  const { showAlert } = useAlert();
+  const { currentUser, employees } = useApp();
+  const [schedules, setSchedules] = useState<PaySchedule[]>([]);
+  const [period, setPeriod] = useState<PayPeriod>(() => getPayPeriod());
+  const [close, setClose] = useState<PayPeriodClose | null>(null);
+  const [statements, setStatements] = useState<EarningsStatement[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [isApproving, setIsApproving] = useState(false);
+  const [adjustTarget, setAdjustTarget] = useState<EarningsStatement | null>(null);
+  const [adjustAmount, setAdjustAmount] = useState('');
+  const [adjustReason, setAdjustReason] = useState('');
+
+  const isCurrentPeriod = period.start === getPayPeriod(new Date(), schedules).start;
+  const isLocked = !!close && close.status !== 'open';
+
+  useEffect(() => {
+    getPaySchedules().then(loaded => {
+      setSchedules(loaded);
+      setPeriod(getPayPeriod(new Date(), loaded));
+    });
+  }, []);
+
+  const loadStatements = useCallback(async () => {
+    try {
+      const [periodStatements, periodClose] = await Promise.all([getPayPeriodStatements(period), getPeriodClose(period)]);
+      setStatements(periodStatements);
+      setClose(periodClose);
+    } catch (error) {
+      showAlert('Error', `Failed to calculate earnings: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [period, showAlert]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    loadStatements();
+  }, [loadStatements]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadStatements();
+    setRefreshing(false);
+  };
+
+  const replaceStatement = (updated: EarningsStatement) => {
+    setStatements(current => current.map(s => (s.id === updated.id ? updated : s)));
+  };
+
+  const getEmployeeName = (employeeId: string) => {
+    const employee = employees.find(e => e.id === employeeId);
+    return employee ? `${employee.firstName} ${employee.lastName}` : 'Unknown employee';
+  };
+
+  const handleApprove = async (statement: EarningsStatement) => {
+    try {
+      replaceStatement(await approveStatement(statement, currentUser!.id));
+    } catch (error) {
+      showAlert('Cannot Approve', error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleApproveAll = () => {
+    const drafts = statements.filter(s => s.status === 'draft');
+    const blocked = drafts.filter(s => s.openShifts > 0);
+
+    showAlert(
+      'Approve All?',
+      `${drafts.length - blocked.length} statement(s) will be locked for ${formatPayPeriod(period)}.` +
+        (blocked.length > 0 ? `\n\n${blocked.length} with open shifts will be skipped.` : ''),
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Approve',
+          onPress: async () => {
+            setIsApproving(true);
+            try {
+              for (const statement of drafts.filter(s => s.openShifts === 0)) {
+                replaceStatement(await approveStatement(statement, currentUser!.id));
+              }
+            } catch (error) {
+              showAlert('Error', `Approval stopped: ${error instanceof Error ? error.message : String(error)}`);
+            } finally {
+              setIsApproving(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleReopen = (statement: EarningsStatement) => {
+    showAlert(
+      'Reopen Statement?',
+      `${getEmployeeName(statement.employeeId)}'s earnings will be recalculated from current time entries and installs.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reopen',
+          onPress: async () => {
+            try {
+              await reopenStatement(statement);
+              await loadStatements();
+            } catch (error) {
+              showAlert('Error', `Failed to reopen: ${error instanceof Error ? error.message : String(error)}`);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const openAdjustment = (statement: EarningsStatement) => {
+    setAdjustAmount('');
+    setAdjustReason('');
+    setAdjustTarget(statement);
+  };
+
+  const saveAdjustment = async () => {
+    if (!adjustTarget) return;
+    const amount = parseFloat(adjustAmount);
+    if (isNaN(amount) || amount === 0 || !adjustReason.trim()) {
+      showAlert('Missing Details', 'Enter a non-zero amount (negative for a deduction) and a reason.');
+      return;
+    }
+
+    try {
+      replaceStatement(await addAdjustment(adjustTarget, amount, adjustReason, currentUser!.id));
+      setAdjustTarget(null);
+    } catch (error) {
+      showAlert('Error', `Failed to save adjustment: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleRemoveAdjustment = async (statement: EarningsStatement, adjustmentId: string) => {
+    try {
+      replaceStatement(await removeAdjustment(statement, adjustmentId));
+    } catch (error) {
+      showAlert('Error', `Failed to remove adjustment: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const draftCount = statements.filter(s => s.status === 'draft').length;
+  const periodTotal = statements.reduce((sum, s) => sum + s.total, 0);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.backButton}>
+          <MaterialIcons name="arrow-back" size={24} color="#FFFFFF" />
+        </Pressable>
+        <Text style={styles.headerTitle}>Payroll</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
+        <View style={styles.periodRow}>
+          <Pressable style={styles.periodButton} onPress={() => setPeriod(shiftPayPeriod(period, -1, schedules))}>
+            <MaterialIcons name="chevron-left" size={28} color={LOWES_THEME.primary} />
+          </Pressable>
+          <View style={styles.periodLabel}>
+            <Text style={styles.periodText}>{formatPayPeriod(period)}</Text>
+            {isCurrentPeriod && <Text style={styles.periodHint}>Current period - still accruing</Text>}
+          </View>
+          <Pressable
+            style={styles.periodButton}
+            onPress={() => setPeriod(shiftPayPeriod(period, 1, schedules))}
+            disabled={isCurrentPeriod}
+          >
+            <MaterialIcons
+              name="chevron-right"
+              size={28}
+              color={isCurrentPeriod ? LOWES_THEME.border : LOWES_THEME.primary}
+            />
+          </Pressable>
+        </View>
+
+        <View style={styles.summaryRow}>
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryValue}>{statements.length}</Text>
+            <Text style={styles.summaryLabel}>Employees</Text>
+          </View>
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryValue}>${periodTotal.toFixed(2)}</Text>
+            <Text style={styles.summaryLabel}>Total Earnings</Text>
+          </View>
+          <View style={styles.summaryCard}>
+            <Text style={[styles.summaryValue, draftCount > 0 && { color: LOWES_THEME.warning }]}>{draftCount}</Text>
+            <Text style={styles.summaryLabel}>Awaiting Approval</Text>
+          </View>
+        </View>
+
+        {!isCurrentPeriod && (
+          <Button
+            title={close?.status === 'exported' ? 'Exported to ADP' : isLocked ? 'Locked - Export to ADP' : 'Close Period'}
+            onPress={() => router.push({ pathname: '/(admin)/pay-period-close', params: { start: period.start } } as any)}
+            variant="outline"
+            icon={isLocked ? 'lock' : 'fact-check'}
+            fullWidth
+          />
+        )}
+
+        {draftCount > 0 && !isLocked && (
+          <Button
+            title={isApproving ? 'Approving...' : 'Approve All'}
+            onPress={handleApproveAll}
+            backgroundColor={LOWES_THEME.success}
+            disabled={isApproving}
+            icon={isApproving ? undefined : 'done-all'}
+            fullWidth
+          />
+        )}
+
+        {isLoading ? (
+          <ActivityIndicator color={LOWES_THEME.primary} />
+        ) : statements.length === 0 ? (
+          <View style={styles.emptyState}>
+            <MaterialIcons name="payments" size={64} color={LOWES_THEME.textSubtle} />
+            <Text style={styles.emptyText}>No earnings this period</Text>
+            <Text style={styles.emptySubtext}>Statements appear once someone clocks in or an install is recorded</Text>
+          </View>
+        ) : (
+          statements.map(statement => {
+            const expanded = expandedId === statement.id;
+            const approved = statement.status === 'approved';
+
+            return (
+              <View key={statement.id} style={styles.statementCard}>
+                <Pressable style={styles.statementHeader} onPress={() => setExpandedId(expanded ? null : statement.id)}>
+                  <View style={styles.statementTitle}>
+                    <Text style={styles.employeeName}>{getEmployeeName(statement.employeeId)}</Text>
+                    <Text style={styles.statementMeta}>
+                      {statement.hoursWorked.toFixed(2)} hrs | {statement.surveyInstalls + statement.appointmentInstalls} installs
+                    </Text>
+                  </View>
+                  <View style={[styles.statusBadge, { backgroundColor: approved ? LOWES_THEME.success : LOWES_THEME.warning }]}>
+                    <Text style={styles.statusBadgeText}>{approved ? 'Approved' : 'Draft'}</Text>
+                  </View>
+                  <Text style={styles.statementTotal}>${statement.total.toFixed(2)}</Text>
+                  <MaterialIcons name={expanded ? 'expand-less' : 'expand-more'} size={24} color={LOWES_THEME.textSubtle} />
+                </Pressable>
+
+                {statement.openShifts > 0 && (
+                  <Text style={styles.warningText}>
+                    {statement.openShifts} shift(s) without a clock-out are not included
+                  </Text>
+                )}
+
+                {expanded && (
+                  <View style={styles.statementBody}>
+                    <EarningsBreakdown statement={statement} />
+
+                    {!approved && statement.adjustments.map(adjustment => (
+                      <View key={adjustment.id} style={styles.adjustmentRow}>
+                        <Text style={styles.statementMeta} numberOfLines={1}>
+                          {adjustment.reason} ({formatFullDateTime(adjustment.addedAt)})
+                        </Text>
+                        <Pressable onPress={() => handleRemoveAdjustment(statement, adjustment.id)}>
+                          <MaterialIcons name="delete-outline" size={20} color={LOWES_THEME.error} />
+                        </Pressable>
+                      </View>
+                    ))}
+
+                    {approved ? (
+                      <>
+                        <Text style={styles.statementMeta}>
+                          Approved {statement.approvedAt ? formatFullDateTime(statement.approvedAt) : ''}
+                          {statement.approvedBy ? ` by ${getEmployeeName(statement.approvedBy)}` : ''}
+                        </Text>
+                        {!isLocked && (
+                          <View style={styles.actionRow}>
+                            <Pressable style={styles.actionButton} onPress={() => handleReopen(statement)}>
+                              <MaterialIcons name="lock-open" size={16} color={LOWES_THEME.primary} />
+                              <Text style={styles.actionText}>Reopen</Text>
+                            </Pressable>
+                          </View>
+                        )}
+                      </>
+                    ) : isLocked ? null : (
+                      <View style={styles.actionRow}>
+                        <Pressable style={styles.actionButton} onPress={() => openAdjustment(statement)}>
+                          <MaterialIcons name="add" size={16} color={LOWES_THEME.primary} />
+                          <Text style={styles.actionText}>Adjustment</Text>
+                        </Pressable>
+                        <Pressable
+                          style={[styles.actionButton, styles.approveButton]}
+                          onPress={() => handleApprove(statement)}
+                        >
+                          <MaterialIcons name="check" size={16} color={LOWES_THEME.success} />
+                          <Text style={[styles.actionText, { color: LOWES_THEME.success }]}>Approve</Text>
+                        </Pressable>
+                      </View>
+                    )}
+                  </View>
+                )}
+              </View>
+            );
+          })
+        )}
+      </ScrollView>
+
+      <Modal visible={!!adjustTarget} transparent animationType="slide" onRequestClose={() => setAdjustTarget(null)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>
+                Adjust {adjustTarget ? getEmployeeName(adjustTarget.employeeId) : ''}
+              </Text>
+              <Pressable onPress={() => setAdjustTarget(null)}>
+                <MaterialIcons name="close" size={24} color={LOWES_THEME.text} />
+              </Pressable>
+            </View>
+            <ScrollView contentContainerStyle={styles.modalBody}>
+              <Input
+                label="Amount ($, negative for a deduction)"
+                value={adjustAmount}
+                onChangeText={setAdjustAmount}
+                keyboardType="numbers-and-punctuation"
+                placeholder="100.00"
+              />
+              <Input
+                label="Reason"
+                value={adjustReason}
+                onChangeText={setAdjustReason}
+                placeholder="e.g. 30-day performance bonus"
+              />
+              <View style={styles.modalActions}>
+                <Button title="Cancel" onPress={() => setAdjustTarget(null)} variant="outline" />
+                <Button title="Save" onPress={saveAdjustment} backgroundColor={LOWES_THEME.primary} />
+              </View>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: LOWES_THEME.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.md,
+    backgroundColor: LOWES_THEME.primary,
+  },
+  backButton: {
+    padding: SPACING.sm,
+  },
+  headerTitle: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    flex: 1,
+    textAlign: 'center',
+  },
+  content: {
+    padding: SPACING.lg,
+    gap: SPACING.md,
+  },
+  periodRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: LOWES_THEME.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: LOWES_THEME.border,
+  },
+  periodButton: {
+    padding: SPACING.sm,
+  },
+  periodLabel: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  periodText: {
+    fontSize: FONTS.sizes.md,
+    fontWeight: '700',
+    color: LOWES_THEME.text,
+  },
+  periodHint: {
+    fontSize: FONTS.sizes.xs,
+    color: LOWES_THEME.textSubtle,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    gap: SPACING.md,
+  },
+  summaryCard: {
+    flex: 1,
+    backgroundColor: LOWES_THEME.surface,
+    borderRadius: 12,
+    padding: SPACING.md,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: LOWES_THEME.border,
+  },
+  summaryValue: {
+    fontSize: FONTS.sizes.xl,
+    fontWeight: '700',
+    color: LOWES_THEME.text,
+  },
+  summaryLabel: {
+    fontSize: FONTS.sizes.xs,
+    color: LOWES_THEME.textSubtle,
+    marginTop: 2,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: SPACING.xl,
+    gap: SPACING.md,
+  },
+  emptyText: {
+    fontSize: FONTS.sizes.md,
+    color: LOWES_THEME.textSubtle,
+  },
+  emptySubtext: {
+    fontSize: FONTS.sizes.sm,
+    color: LOWES_THEME.textSubtle,
+    textAlign: 'center',
+  },
+  statementCard: {
+    backgroundColor: LOWES_THEME.surface,
+    borderRadius: 12,
+    padding: SPACING.md,
+    gap: SPACING.sm,
+    borderWidth: 1,
+    borderColor: LOWES_THEME.border,
+  },
+  statementHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  statementTitle: {
+    flex: 1,
+  },
+  employeeName: {
+    fontSize: FONTS.sizes.md,
+    fontWeight: '700',
+    color: LOWES_THEME.text,
+  },
+  statementMeta: {
+    flex: 1,
+    fontSize: FONTS.sizes.xs,
+    color: LOWES_THEME.textSubtle,
+  },
+  statementTotal: {
+    fontSize: FONTS.sizes.md,
+    fontWeight: '700',
+    color: LOWES_THEME.text,
+  },
+  statusBadge: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  statusBadgeText: {
+    fontSize: FONTS.sizes.xs,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  warningText: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: '600',
+    color: LOWES_THEME.warning,
+  },
+  statementBody: {
+    gap: SPACING.sm,
+    paddingTop: SPACING.sm,
+    borderTopWidth: 1,
+    borderTopColor: LOWES_THEME.border,
+  },
+  adjustmentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+    marginTop: SPACING.xs,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: SPACING.xs,
+    paddingHorizontal: SPACING.sm,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: LOWES_THEME.primary,
+  },
+  approveButton: {
+    borderColor: LOWES_THEME.success,
+  },
+  actionText: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: '600',
+    color: LOWES_THEME.primary,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: LOWES_THEME.surface,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    maxHeight: '85%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: SPACING.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: LOWES_THEME.border,
+  },
+  modalTitle: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: '700',
+    color: LOWES_THEME.text,
+  },
+  modalBody: {
+    padding: SPACING.lg,
+    gap: SPACING.md,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: SPACING.md,
+    marginTop: SPACING.sm,
+  },
+});
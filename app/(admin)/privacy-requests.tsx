@@ -0,0 +1,308 @@
+// Privacy requests - do-not-contact and customer data deletion, with the audit log of past requests
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, Pressable, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useAlert } from '@/template';
+import { useApp } from '@/hooks/useApp';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { SPACING, FONTS, LOWES_THEME } from '@/constants/theme';
+import { formatFullDateTime } from '@/utils/timeFormat';
+import { PrivacyRequest, PrivacyRequestType } from '@/types';
+import {
+  PRIVACY_REQUEST_LABELS,
+  findMatchingSurveys,
+  getPrivacyRequests,
+  processPrivacyRequest,
+} from '@/services/privacyRequestService';
+
+const REQUEST_TYPE_DESCRIPTIONS: Record<PrivacyRequestType, string> = {
+  do_not_contact: 'Blocks future surveys, opts the number out of texts and flags Salesforce records as do-not-call. Existing data is kept.',
+  erasure: 'Everything above, plus removes name, phone, address, email and signature from every matching survey, cancels open appointments and deletes Salesforce Leads.',
+};
+
+export default function PrivacyRequestsScreen() {
+  const router = useRouter();
+  const { showAlert } = useAlert();
+  const { currentUser, loadData } = useApp();
+  const [type, setType] = useState<PrivacyRequestType>('do_not_contact');
+  const [phone, setPhone] = useState('');
+  const [email, setEmail] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [requests, setRequests] = useState<PrivacyRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const hasIdentifier = phone.replace(/\D/g, '').length >= 10 || email.includes('@');
+
+  const loadRequests = async () => {
+    setIsLoading(true);
+    setRequests(await getPrivacyRequests());
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadRequests();
+  }, []);
+
+  const runRequest = async () => {
+    setIsProcessing(true);
+    try {
+      const request = await processPrivacyRequest({
+        type,
+        phone,
+        email,
+        requestedBy: currentUser!.id,
+        notes: notes.trim() || undefined,
+      });
+
+      setPhone('');
+      setEmail('');
+      setNotes('');
+      await loadRequests();
+      await loadData();
+
+      showAlert(
+        request.status === 'completed' ? 'Request Completed' : 'Request Partially Completed',
+        `${request.matchedSurveyIds.length} survey(s) matched, ${request.redactedSurveyIds.length} redacted, ` +
+          `${request.salesforceActions.filter(a => a.action !== 'failed').length} Salesforce record(s) updated.` +
+          (request.errors.length > 0 ? `\n\nIssues:\n${request.errors.join('\n')}` : '')
+      );
+    } catch (error) {
+      console.error('Privacy request error:', error);
+      showAlert('Error', `Failed to process the request: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    setIsProcessing(true);
+    const matches = await findMatchingSurveys({ phone, email });
+    setIsProcessing(false);
+
+    showAlert(
+      `Confirm ${PRIVACY_REQUEST_LABELS[type]}`,
+      `${matches.length} matching survey(s) found.\n\n${REQUEST_TYPE_DESCRIPTIONS[type]}` +
+        (type === 'erasure' ? '\n\nThis cannot be undone.' : ''),
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Process Request', style: type === 'erasure' ? 'destructive' : 'default', onPress: runRequest },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.backButton}>
+          <MaterialIcons name="arrow-back" size={24} color="#FFFFFF" />
+        </Pressable>
+        <Text style={styles.headerTitle}>Privacy Requests</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.chipRow}>
+          {(Object.keys(PRIVACY_REQUEST_LABELS) as PrivacyRequestType[]).map(option => (
+            <Pressable
+              key={option}
+              style={[styles.chip, type === option && styles.chipActive]}
+              onPress={() => setType(option)}
+            >
+              <Text style={[styles.chipText, type === option && styles.chipTextActive]}>
+                {PRIVACY_REQUEST_LABELS[option]}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+        <Text style={styles.description}>{REQUEST_TYPE_DESCRIPTIONS[type]}</Text>
+
+        <Input
+          label="Customer Phone Number"
+          value={phone}
+          onChangeText={setPhone}
+          placeholder="(555) 555-5555"
+          keyboardType="phone-pad"
+        />
+        <Input
+          label="Customer Email (optional)"
+          value={email}
+          onChangeText={setEmail}
+          placeholder="customer@example.com"
+          keyboardType="email-address"
+          autoCapitalize="none"
+        />
+        <Input
+          label="Notes (optional)"
+          value={notes}
+          onChangeText={setNotes}
+          placeholder="How the request was received"
+        />
+        <Button
+          title={isProcessing ? 'Processing...' : 'Process Request'}
+          onPress={handleSubmit}
+          backgroundColor={type === 'erasure' ? LOWES_THEME.error : LOWES_THEME.primary}
+          disabled={!hasIdentifier || isProcessing}
+          fullWidth
+        />
+
+        <Text style={styles.sectionTitle}>Request Log</Text>
+        {isLoading ? (
+          <ActivityIndicator color={LOWES_THEME.primary} />
+        ) : requests.length === 0 ? (
+          <View style={styles.emptyState}>
+            <MaterialIcons name="person-remove" size={64} color={LOWES_THEME.textSubtle} />
+            <Text style={styles.emptyText}>No privacy requests yet</Text>
+          </View>
+        ) : (
+          requests.map(request => (
+            <View key={request.id} style={styles.requestCard}>
+              <View style={styles.requestHeader}>
+                <Text style={styles.requestTitle}>{PRIVACY_REQUEST_LABELS[request.type]}</Text>
+                <View style={[
+                  styles.statusBadge,
+                  { backgroundColor: request.status === 'completed' ? LOWES_THEME.success : LOWES_THEME.warning },
+                ]}>
+                  <Text style={styles.statusBadgeText}>{request.status === 'completed' ? 'Completed' : 'Partial'}</Text>
+                </View>
+              </View>
+              <Text style={styles.requestDetail}>
+                {[request.phoneLast4 && `Phone ending ${request.phoneLast4}`, request.emailMasked].filter(Boolean).join(' | ')}
+              </Text>
+              <Text style={styles.requestDetail}>
+                {request.matchedSurveyIds.length} survey(s) matched | {request.redactedSurveyIds.length} redacted
+              </Text>
+              {request.salesforceActions.map(action => (
+                <Text key={action.salesforceId} style={styles.requestDetail}>
+                  Salesforce {action.recordType} {action.salesforceId}: {action.action}
+                </Text>
+              ))}
+              {request.errors.map((error, index) => (
+                <Text key={index} style={styles.requestError}>{error}</Text>
+              ))}
+              {request.notes ? <Text style={styles.requestDetail}>Notes: {request.notes}</Text> : null}
+              <Text style={styles.requestMeta}>Processed {formatFullDateTime(request.requestedAt)}</Text>
+            </View>
+          ))
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: LOWES_THEME.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.md,
+    backgroundColor: LOWES_THEME.primary,
+  },
+  backButton: {
+    padding: SPACING.sm,
+  },
+  headerTitle: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    flex: 1,
+    textAlign: 'center',
+  },
+  content: {
+    padding: SPACING.lg,
+    gap: SPACING.md,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingVertical: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    backgroundColor: LOWES_THEME.background,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: LOWES_THEME.border,
+  },
+  chipActive: {
+    backgroundColor: LOWES_THEME.primary,
+    borderColor: LOWES_THEME.primary,
+  },
+  chipText: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: '600',
+    color: LOWES_THEME.text,
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  description: {
+    fontSize: FONTS.sizes.sm,
+    color: LOWES_THEME.textSubtle,
+  },
+  sectionTitle: {
+    fontSize: FONTS.sizes.md,
+    fontWeight: '700',
+    color: LOWES_THEME.text,
+    marginTop: SPACING.lg,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: SPACING.xl,
+    gap: SPACING.md,
+  },
+  emptyText: {
+    fontSize: FONTS.sizes.md,
+    color: LOWES_THEME.textSubtle,
+  },
+  requestCard: {
+    backgroundColor: LOWES_THEME.surface,
+    borderRadius: 12,
+    padding: SPACING.md,
+    gap: 4,
+    borderWidth: 1,
+    borderColor: LOWES_THEME.border,
+  },
+  requestHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: SPACING.xs,
+  },
+  requestTitle: {
+    fontSize: FONTS.sizes.md,
+    fontWeight: '700',
+    color: LOWES_THEME.text,
+  },
+  statusBadge: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  statusBadgeText: {
+    fontSize: FONTS.sizes.xs,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  requestDetail: {
+    fontSize: FONTS.sizes.sm,
+    color: LOWES_THEME.text,
+  },
+  requestError: {
+    fontSize: FONTS.sizes.sm,
+    color: LOWES_THEME.error,
+  },
+  requestMeta: {
+    fontSize: FONTS.sizes.xs,
+    color: LOWES_THEME.textSubtle,
+  },
+});
@@ -1,15 +1,16 @@
 // Modern admin scheduling with visual availability
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { View, Text, StyleSheet, ScrollView, Pressable, Modal } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useApp } from '@/hooks/useApp';
 import { useAlert } from '@/template';
 import * as StorageService from '@/services/storageService';
+import { DEFAULT_LABOR_RULES, VIOLATION_LABELS, checkSchedule, getLaborRules } from '@/services/laborRulesService';
 import { Button } from '@/components/ui/Button';
 import { TimePicker30 } from '@/components/ui/TimePicker30';
 import { SPACING, FONTS, LOWES_THEME } from '@/constants/theme';
-import { Employee, Schedule, TimeOffRequest } from '@/types';
+import { Employee, LaborRules, LaborViolation, Schedule, TimeOffRequest } from '@/types';
 import { formatTime12Hour } from '@/utils/timeFormat';
 
 const DAYS_OF_WEEK = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
@@ -29,6 +30,11 @@ export default function ScheduleScreen() {
   const [selectedStore, setSelectedStore] = useState<'lowes' | 'homedepot'>('lowes');
   const [scheduleStartTime, setScheduleStartTime] = useState<string>('09:00');
   const [scheduleEndTime, setScheduleEndTime] = useState<string>('17:00');
+  const [laborRules, setLaborRules] = useState<LaborRules>(DEFAULT_LABOR_RULES);
+
+  useEffect(() => {
+    getLaborRules().then(setLaborRules);
+  }, []);
 
   const activeEmployees = employees.filter(e => e.status === 'active');
   const pendingRequests = timeOffRequests.filter(r => r.status === 'pending');
@@ -111,10 +117,9 @@ export default function ScheduleScreen() {
     setShowScheduleModal(true);
   };
 
-  const handleCreateSchedule = async () => {
-    if (!selectedEmployee || !selectedDay) return;
-
-    const newSchedule: Schedule = {
+  const buildSchedule = (): Schedule | null => {
+    if (!selectedEmployee || !selectedDay) return null;
+    return {
       id: Date.now().toString(),
       employeeId: selectedEmployee.id,
       date: selectedDay,
@@ -123,6 +128,37 @@ export default function ScheduleScreen() {
       store: selectedStore,
       status: 'scheduled',
     };
+  };
+
+  const describeViolations = (violations: LaborViolation[]) =>
+    violations.map(v => `• ${VIOLATION_LABELS[v.type]}: ${v.detail}`).join('\n\n');
+
+  // Rule breaks block the schedule; overtime only needs confirming
+  const handleCreateSchedule = async () => {
+    const newSchedule = buildSchedule();
+    if (!newSchedule) return;
+
+    const violations = checkSchedule(newSchedule, schedules, laborRules);
+    const blocking = violations.filter(v => v.severity === 'violation');
+    if (blocking.length > 0) {
+      showAlert('Breaks Labor Rules', `${describeViolations(blocking)}\n\nChange the times to schedule this shift.`);
+      return;
+    }
+
+    const overtime = violations.filter(v => v.severity === 'warning');
+    if (overtime.length > 0) {
+      showAlert('Overtime', describeViolations(overtime), [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Schedule Anyway', onPress: () => saveSchedule(newSchedule) },
+      ]);
+      return;
+    }
+
+    await saveSchedule(newSchedule);
+  };
+
+  const saveSchedule = async (newSchedule: Schedule) => {
+    const employee = employees.find(e => e.id === newSchedule.employeeId);
 
     await StorageService.addSchedule(newSchedule);
     await loadData();
@@ -133,7 +169,7 @@ export default function ScheduleScreen() {
     
     showAlert(
       'Scheduled ✓', 
-      `${selectedEmployee.firstName} scheduled for ${new Date(selectedDay).toLocaleDateString()}`
+      `${employee?.firstName} scheduled for ${new Date(newSchedule.date).toLocaleDateString()}`
     );
   };
 
@@ -462,6 +498,27 @@ export default function ScheduleScreen() {
                     return null;
                   })()}
 
+                  {/* Labor rule check of the times as entered */}
+                  {(() => {
+                    const draft = buildSchedule();
+                    const violations = draft ? checkSchedule(draft, schedules, laborRules) : [];
+                    return violations.map(v => (
+                      <View
+                        key={v.id}
+                        style={[styles.warningBanner, styles.ruleBanner, v.severity === 'violation' && styles.violationBanner]}
+                      >
+                        <MaterialIcons
+                          name={v.severity === 'violation' ? 'block' : 'warning'}
+                          size={20}
+                          color={v.severity === 'violation' ? '#F44336' : '#FF9800'}
+                        />
+                        <Text style={[styles.warningText, v.severity === 'violation' && styles.violationText]}>
+                          {VIOLATION_LABELS[v.type]}: {v.detail}
+                        </Text>
+                      </View>
+                    ));
+                  })()}
+
                   <View style={styles.timeSelection}>
                     <Text style={styles.selectionLabel}>Schedule Times</Text>
                     <View style={styles.timeInputs}>
@@ -925,4 +982,14 @@ const styles = StyleSheet.create({
     color: '#E65100',
     lineHeight: 18,
   },
+  ruleBanner: {
+    marginBottom: SPACING.sm,
+  },
+  violationBanner: {
+    backgroundColor: '#FFEBEE',
+    borderLeftColor: '#F44336',
+  },
+  violationText: {
+    color: '#C62828',
+  },
 });
@@ -1,16 +1,25 @@
-// Admin settings - Compensation rates
+// Admin settings - Company-wide compensation rates and device enrollment
 import React, { useState } from 'react';
 import { View, Text, StyleSheet, ScrollView } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useAlert } from '@/template';
 import * as StorageService from '@/services/storageService';
+import * as OutboxService from '@/services/outboxService';
+import * as DeviceFleetService from '@/services/deviceFleetService';
+import { useApp } from '@/hooks/useApp';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { SPACING, FONTS, LOWES_THEME } from '@/constants/theme';
 
 export default function SettingsScreen() {
   const { showAlert } = useAlert();
+  const { currentUser, unenrollDevice } = useApp();
+  const router = useRouter();
+  const [enrollment, setEnrollment] = useState<DeviceFleetService.DeviceEnrollment | null>(null);
+  const [deviceName, setDeviceName] = useState('');
+  const [isEnrolling, setIsEnrolling] = useState(false);
   const [baseRate, setBaseRate] = useState('15.00');
   const [surveyBonus, setSurveyBonus] = useState('10.00');
   const [appointmentBonus, setAppointmentBonus] = useState('25.00');
@@ -18,6 +27,7 @@ export default function SettingsScreen() {
 
   React.useEffect(() => {
     loadSettings();
+    DeviceFleetService.getEnrollment().then(setEnrollment);
   }, []);
 
   const loadSettings = async () => {
@@ -38,8 +48,48 @@ export default function SettingsScreen() {
       quota: parseInt(quota),
     };
 
-    await StorageService.saveCompensationSettings(settings);
-    showAlert('Settings Saved', 'Compensation settings have been updated successfully');
+    try {
+      await StorageService.saveCompensationSettings(settings, currentUser?.id);
+      showAlert('Settings Saved', 'New rates apply to pay periods starting today or later. Earlier pay periods keep the rates they were earned under.');
+    } catch (error) {
+      showAlert('Error', `Failed to save compensation settings: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleEnroll = async () => {
+    setIsEnrolling(true);
+    try {
+      setEnrollment(await DeviceFleetService.enrollDevice(deviceName, currentUser!.id));
+      setDeviceName('');
+      showAlert('Device Enrolled', 'This tablet now reports to the fleet dashboard.');
+    } catch (error) {
+      showAlert('Enrollment Failed', error instanceof Error ? error.message : 'Could not reach the server');
+    } finally {
+      setIsEnrolling(false);
+    }
+  };
+
+  const handleUnenroll = async () => {
+    const { pending, inFlight, dead } = await OutboxService.getOutboxSummary();
+    const unsynced = pending + inFlight + dead;
+
+    showAlert(
+      'Unenroll This Device?',
+      `All surveys, time entries and employee data stored on this tablet will be erased and the device storage key destroyed.${
+        unsynced > 0 ? `\n\n${unsynced} item(s) have not synced yet and will be lost.` : ''
+      }`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Wipe Device',
+          style: 'destructive',
+          onPress: async () => {
+            await unenrollDevice();
+            router.replace('/login');
+          },
+        },
+      ]
+    );
   };
 
   return (
@@ -115,6 +165,64 @@ export default function SettingsScreen() {
             backgroundColor={LOWES_THEME.success}
             fullWidth
           />
+          <Button
+            title="Compensation Plans"
+            onPress={() => router.push('/(admin)/compensation-plans' as any)}
+            variant="outline"
+            icon="assignment"
+            fullWidth
+          />
+          <Text style={styles.helper}>
+            These are the company-wide rates. Plans can override them per employee, team or market, add monthly bonus tiers and change the quota rule.
+          </Text>
+        </View>
+
+        {/* Device */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <MaterialIcons name="phonelink-erase" size={24} color={LOWES_THEME.error} />
+            <Text style={styles.sectionTitle}>Device</Text>
+          </View>
+
+          <View style={styles.settingCard}>
+            <Text style={styles.label}>Fleet Enrollment</Text>
+            {enrollment ? (
+              <Text style={styles.helper}>
+                Enrolled as {enrollment.name}{'\n'}Device ID {enrollment.deviceId}
+              </Text>
+            ) : (
+              <>
+                <Text style={styles.helper}>
+                  Enrolled tablets report their build, sync queue and storage every 5 minutes and accept remote commands. Surveys and punches only upload from enrolled tablets.
+                </Text>
+                <Input
+                  value={deviceName}
+                  onChangeText={setDeviceName}
+                  placeholder="e.g. Lowes 1234 - Kiosk 1"
+                />
+                <Button
+                  title={isEnrolling ? 'Enrolling...' : 'Enroll Device'}
+                  onPress={handleEnroll}
+                  backgroundColor={LOWES_THEME.primary}
+                  disabled={!deviceName.trim() || isEnrolling}
+                  fullWidth
+                />
+              </>
+            )}
+          </View>
+
+          <View style={styles.settingCard}>
+            <Text style={styles.label}>Unenroll & Wipe</Text>
+            <Text style={styles.helper}>
+              Local data on this tablet is encrypted with a key kept in the device keychain. Unenrolling erases the data and the key.
+            </Text>
+            <Button
+              title="Unenroll & Wipe Device"
+              onPress={handleUnenroll}
+              backgroundColor={LOWES_THEME.error}
+              fullWidth
+            />
+          </View>
         </View>
 
         {/* Info Box */}
@@ -0,0 +1,1309 @@
+// Survey Builder - edit, preview and publish versioned survey definitions
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, ScrollView, Pressable, Modal, Switch, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useApp } from '@/hooks/useApp';
+import { useAlert } from '@/template';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { SurveyQuestionInput } from '@/components/ui/SurveyQuestionInput';
+import { SPACING, FONTS, LOWES_THEME, Store, getTheme } from '@/constants/theme';
+import {
+  DEFAULT_SURVEY_DEFINITION,
+  SurveyDefinition,
+  SurveyQuestion,
+  SurveyCondition,
+  TerminationRule,
+  QuestionType,
+  ConditionOperator,
+} from '@/constants/surveyQuestions';
+import { Survey } from '@/types';
+import {
+  refreshSurveyDefinitions,
+  validateSurveyDefinition,
+  getMappedQuestionChanges,
+  publishSurveyDefinition,
+} from '@/services/surveyDefinitionService';
+import {
+  getConditionValues,
+  getFirstQuestionIndex,
+  getNextQuestionIndex,
+  getPreviousQuestionIndex,
+  getTerminationRule,
+  getVisibleQuestions,
+  transformAnswer,
+  validateAnswer,
+} from '@/utils/surveyFlow';
+
+// A question in the draft, remembering which published question it came from so renames can be detected
+interface BuilderQuestion {
+  key: string;
+  originalId?: string;
+  question: SurveyQuestion;
+}
+
+interface DraftDefinition {
+  id: string;
+  name: string;
+  description: string;
+  stores: Store[];
+  states: string;
+  storeNumbers: string;
+  questions: BuilderQuestion[];
+}
+
+type RuleList = 'showIf' | 'skipIf';
+
+const QUESTION_TYPES: { type: QuestionType; label: string }[] = [
+  { type: 'yesno', label: 'Yes / No' },
+  { type: 'choice', label: 'Single Choice' },
+  { type: 'multiselect', label: 'Multi Select' },
+  { type: 'number', label: 'Number' },
+  { type: 'text', label: 'Text' },
+  { type: 'phone', label: 'Phone' },
+  { type: 'zip', label: 'Zip Code' },
+  { type: 'address', label: 'Address' },
+  { type: 'datetime', label: 'Date/Time' },
+  { type: 'contact', label: 'Contact Info' },
+  { type: 'signature', label: 'Signature' },
+];
+
+const OPERATORS: { operator: ConditionOperator; label: string }[] = [
+  { operator: 'equals', label: '=' },
+  { operator: 'not_equals', label: '≠' },
+  { operator: 'in', label: 'in' },
+  { operator: 'not_in', label: 'not in' },
+  { operator: 'gt', label: '>' },
+  { operator: 'lt', label: '<' },
+  { operator: 'answered', label: 'answered' },
+  { operator: 'not_answered', label: 'blank' },
+];
+
+const CATEGORIES: Survey['category'][] = ['renter', 'survey', 'appointment'];
+
+const PREVIEW_CONTACT = {
+  firstName: 'Preview',
+  lastName: 'Customer',
+  phone: '(334) 499-4646',
+  zipCode: '36104',
+  city: 'Montgomery',
+  state: 'AL',
+};
+
+let keyCounter = 0;
+const nextKey = () => `q_${Date.now()}_${keyCounter++}`;
+
+const splitList = (value: string): string[] =>
+  value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+
+const toDraft = (definition: SurveyDefinition): DraftDefinition => ({
+  id: definition.id,
+  name: definition.name,
+  description: definition.description || '',
+  stores: definition.targeting?.stores || [],
+  states: (definition.targeting?.states || []).join(', '),
+  storeNumbers: (definition.targeting?.storeNumbers || []).join(', '),
+  questions: definition.questions.map(question => ({
+    key: nextKey(),
+    originalId: question.id,
+    question: JSON.parse(JSON.stringify(question)),
+  })),
+});
+
+const fromDraft = (draft: DraftDefinition): Omit<SurveyDefinition, 'version' | 'publishedAt'> => {
+  const states = splitList(draft.states).map(state => state.toUpperCase());
+  const storeNumbers = splitList(draft.storeNumbers);
+  const hasTargeting = draft.stores.length > 0 || states.length > 0 || storeNumbers.length > 0;
+
+  return {
+    id: draft.id.trim(),
+    name: draft.name.trim() || draft.id.trim(),
+    description: draft.description.trim() || undefined,
+    targeting: hasTargeting
+      ? {
+          stores: draft.stores.length > 0 ? draft.stores : undefined,
+          states: states.length > 0 ? states : undefined,
+          storeNumbers: storeNumbers.length > 0 ? storeNumbers : undefined,
+        }
+      : undefined,
+    questions: draft.questions.map(q => q.question),
+  };
+};
+
+const describeCondition = (condition: SurveyCondition): string => {
+  const operator = OPERATORS.find(o => o.operator === condition.operator)?.label || condition.operator;
+  if (condition.operator === 'answered' || condition.operator === 'not_answered') {
+    return `${condition.questionId} ${operator}`;
+  }
+  const value = Array.isArray(condition.value) ? condition.value.join('/') : condition.value;
+  return `${condition.questionId} ${operator} ${value ?? ''}`;
+};
+
+export default function SurveyBuilderScreen() {
+  const router = useRouter();
+  const { currentUser } = useApp();
+  const { showAlert } = useAlert();
+
+  const [definitions, setDefinitions] = useState<SurveyDefinition[]>([]);
+  const [baseDefinition, setBaseDefinition] = useState<SurveyDefinition | null>(null);
+  const [draft, setDraft] = useState<DraftDefinition>(toDraft(DEFAULT_SURVEY_DEFINITION));
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPublishing, setIsPublishing] = useState(false);
+
+  // Question editor
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [editorQuestion, setEditorQuestion] = useState<SurveyQuestion | null>(null);
+  const [optionsText, setOptionsText] = useState('');
+
+  // Preview
+  const [showPreview, setShowPreview] = useState(false);
+  const [previewStore, setPreviewStore] = useState<Store>('lowes');
+  const [previewIndex, setPreviewIndex] = useState(0);
+  const [previewAnswers, setPreviewAnswers] = useState<Record<string, any>>({});
+  const [previewResult, setPreviewResult] = useState<string | null>(null);
+
+  const selectDefinition = useCallback((definition: SurveyDefinition | null) => {
+    setBaseDefinition(definition);
+    if (definition) {
+      setDraft(toDraft(definition));
+    } else {
+      // New definition starts with contact + signature so it always passes validation
+      const template = DEFAULT_SURVEY_DEFINITION.questions.filter(q => q.type === 'contact' || q.type === 'signature');
+      setDraft({
+        ...toDraft({ ...DEFAULT_SURVEY_DEFINITION, questions: template }),
+        id: '',
+        name: '',
+        description: '',
+        questions: template.map(question => ({ key: nextKey(), question: JSON.parse(JSON.stringify(question)) })),
+      });
+    }
+  }, []);
+
+  const loadDefinitions = useCallback(async () => {
+    setIsLoading(true);
+    const active = await refreshSurveyDefinitions();
+    // The built-in default is editable until a published version replaces it
+    const all = active.some(d => d.id === DEFAULT_SURVEY_DEFINITION.id)
+      ? active
+      : [DEFAULT_SURVEY_DEFINITION, ...active];
+    setDefinitions(all);
+    selectDefinition(all[0]);
+    setIsLoading(false);
+  }, [selectDefinition]);
+
+  useEffect(() => {
+    loadDefinitions();
+  }, [loadDefinitions]);
+
+  // ============ QUESTION LIST ============
+
+  const updateQuestions = (questions: BuilderQuestion[]) => {
+    setDraft(prev => ({ ...prev, questions }));
+  };
+
+  const moveQuestion = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= draft.questions.length) return;
+    const questions = [...draft.questions];
+    [questions[index], questions[target]] = [questions[target], questions[index]];
+    updateQuestions(questions);
+  };
+
+  const addQuestion = () => {
+    const question: SurveyQuestion = {
+      id: `question_${draft.questions.length + 1}`,
+      question: 'New question',
+      type: 'yesno',
+      required: true,
+    };
+    // Insert before the closing signature so the survey still ends with consent
+    const signatureIndex = draft.questions.findIndex(q => q.question.type === 'signature');
+    const insertAt = signatureIndex === -1 ? draft.questions.length : signatureIndex;
+    const questions = [...draft.questions];
+    questions.splice(insertAt, 0, { key: nextKey(), question });
+    updateQuestions(questions);
+    openEditor(insertAt, question);
+  };
+
+  const removeQuestion = (index: number) => {
+    const removed = draft.questions[index].question;
+    const referencedBy = draft.questions.filter((q, i) => i !== index && [
+      ...(q.question.showIf || []),
+      ...(q.question.skipIf || []),
+      ...(q.question.endSurveyIf || []).flatMap(rule => rule.when),
+    ].some(condition => condition.questionId.split('.')[0] === removed.id));
+
+    const message = referencedBy.length > 0
+      ? `Rules on ${referencedBy.map(q => q.question.id).join(', ')} reference this question and will no longer match.`
+      : 'This question will be removed from the draft.';
+
+    showAlert(`Remove ${removed.id}?`, message, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: () => updateQuestions(draft.questions.filter((_, i) => i !== index)),
+      },
+    ]);
+  };
+
+  // ============ QUESTION EDITOR ============
+
+  const openEditor = (index: number, question?: SurveyQuestion) => {
+    const source = question || draft.questions[index].question;
+    setEditingIndex(index);
+    setEditorQuestion(JSON.parse(JSON.stringify(source)));
+    setOptionsText((source.options || []).join('\n'));
+  };
+
+  const closeEditor = () => {
+    setEditingIndex(null);
+    setEditorQuestion(null);
+  };
+
+  const patchEditor = (patch: Partial<SurveyQuestion>) => {
+    setEditorQuestion(prev => (prev ? { ...prev, ...patch } : prev));
+  };
+
+  const saveEditor = () => {
+    if (editingIndex === null || !editorQuestion) return;
+
+    const id = editorQuestion.id.trim();
+    if (!/^[a-z][a-z0-9_]*$/.test(id)) {
+      showAlert('Invalid ID', 'Question IDs must start with a letter and use only lowercase letters, numbers and underscores.');
+      return;
+    }
+    if (draft.questions.some((q, i) => i !== editingIndex && q.question.id === id)) {
+      showAlert('Duplicate ID', `Another question already uses the id "${id}".`);
+      return;
+    }
+
+    const options = optionsText.split('\n').map(o => o.trim()).filter(o => o.length > 0);
+    const usesOptions = editorQuestion.type === 'choice' || editorQuestion.type === 'multiselect';
+    if (usesOptions && options.length === 0) {
+      showAlert('Options Required', 'Add at least one option (one per line).');
+      return;
+    }
+
+    const question: SurveyQuestion = {
+      ...editorQuestion,
+      id,
+      options: usesOptions ? options : undefined,
+      allowNext: editorQuestion.type === 'choice' ? editorQuestion.allowNext : undefined,
+      showIf: editorQuestion.showIf?.length ? editorQuestion.showIf : undefined,
+      skipIf: editorQuestion.skipIf?.length ? editorQuestion.skipIf : undefined,
+      endSurveyIf: editorQuestion.endSurveyIf?.length ? editorQuestion.endSurveyIf : undefined,
+    };
+
+    // Keep rules on other questions pointing at this question when its id changes
+    const previousId = draft.questions[editingIndex].question.id;
+    const renameCondition = (condition: SurveyCondition): SurveyCondition =>
+      condition.questionId === previousId ? { ...condition, questionId: id } : condition;
+
+    const questions = draft.questions.map((q, i) => {
+      if (i === editingIndex) return { ...q, question };
+      if (previousId === id) return q;
+      return {
+        ...q,
+        question: {
+          ...q.question,
+          showIf: q.question.showIf?.map(renameCondition),
+          skipIf: q.question.skipIf?.map(renameCondition),
+          endSurveyIf: q.question.endSurveyIf?.map(rule => ({ ...rule, when: rule.when.map(renameCondition) })),
+        },
+      };
+    });
+
+    updateQuestions(questions);
+    closeEditor();
+  };
+
+  // Rules may only reference questions answered earlier in the survey
+  const earlierQuestions = editingIndex === null
+    ? []
+    : draft.questions.slice(0, editingIndex).map(q => q.question).filter(q => q.type !== 'signature');
+
+  const newCondition = (): SurveyCondition => ({
+    questionId: earlierQuestions[earlierQuestions.length - 1]?.id || '',
+    operator: 'equals',
+    value: 'Yes',
+  });
+
+  const updateRuleList = (list: RuleList, conditions: SurveyCondition[]) => {
+    patchEditor({ [list]: conditions } as Partial<SurveyQuestion>);
+  };
+
+  const updateTermination = (rules: TerminationRule[]) => {
+    patchEditor({ endSurveyIf: rules });
+  };
+
+  // ============ PREVIEW ============
+
+  const previewQuestions = draft.questions.map(q => q.question);
+
+  const openPreview = () => {
+    setPreviewAnswers({});
+    setPreviewResult(null);
+    setPreviewIndex(Math.max(getFirstQuestionIndex(previewQuestions), 0));
+    setShowPreview(true);
+  };
+
+  const previewNext = (answers: Record<string, any>) => {
+    const nextIndex = getNextQuestionIndex(previewQuestions, previewIndex, answers);
+    if (nextIndex === -1) {
+      setPreviewResult('Survey Complete - the kiosk would offer to set an appointment.');
+    } else {
+      setPreviewIndex(nextIndex);
+    }
+  };
+
+  const handlePreviewAnswer = (answer: any) => {
+    const question = previewQuestions[previewIndex];
+    const validationError = validateAnswer(question, answer);
+    if (validationError) {
+      showAlert('Invalid Input', validationError);
+      return;
+    }
+
+    const newAnswers = { ...previewAnswers, [question.id]: transformAnswer(question, answer) };
+    setPreviewAnswers(newAnswers);
+
+    const terminationRule = getTerminationRule(question, newAnswers);
+    if (terminationRule) {
+      setPreviewResult(`Survey ends early as "${terminationRule.category}". ${terminationRule.message || 'Thank you! This survey has been recorded.'}`);
+      return;
+    }
+
+    previewNext(newAnswers);
+  };
+
+  const renderPreviewQuestion = () => {
+    const question = previewQuestions[previewIndex];
+    const theme = getTheme(previewStore);
+    if (!question) return null;
+
+    // Contact and signature need device input; show what the customer sees and fill sample data
+    if (question.type === 'contact') {
+      return (
+        <View style={styles.previewPlaceholder}>
+          {['First Name', 'Last Name', 'Phone Number', 'Zip Code'].map(label => (
+            <View key={label}>
+              <Text style={[styles.previewLabel, { color: theme.text }]}>{label}</Text>
+              <Input editable={false} placeholder={label} borderColor={theme.primary} />
+            </View>
+          ))}
+          <Button
+            title="Continue (sample contact)"
+            onPress={() => {
+              const newAnswers = { ...previewAnswers, [question.id]: PREVIEW_CONTACT };
+              setPreviewAnswers(newAnswers);
+              previewNext(newAnswers);
+            }}
+            backgroundColor={theme.primary}
+            size="large"
+            fullWidth
+          />
+        </View>
+      );
+    }
+
+    if (question.type === 'signature') {
+      return (
+        <View style={styles.previewPlaceholder}>
+          <View style={[styles.signatureBox, { borderColor: theme.primary }]}>
+            <MaterialIcons name="gesture" size={40} color={theme.textSubtle} />
+            <Text style={[styles.previewLabel, { color: theme.textSubtle }]}>Customer signs here</Text>
+          </View>
+          <Button
+            title="Complete Survey"
+            onPress={() => setPreviewResult('Survey Complete - the kiosk would offer to set an appointment.')}
+            backgroundColor={theme.success}
+            size="large"
+            fullWidth
+          />
+        </View>
+      );
+    }
+
+    return (
+      <SurveyQuestionInput
+        key={question.id}
+        question={question}
+        answer={previewAnswers[question.id]}
+        theme={theme}
+        onAnswer={handlePreviewAnswer}
+        onContinue={() => previewNext(previewAnswers)}
+      />
+    );
+  };
+
+  // ============ PUBLISH ============
+
+  const handlePublish = async () => {
+    const definition = fromDraft(draft);
+    const errors = validateSurveyDefinition({ ...definition, version: 0 });
+    if (definitions.some(d => d.id === definition.id) && !baseDefinition) {
+      errors.push(`A definition with id "${definition.id}" already exists - select it to publish a new version`);
+    }
+    if (errors.length > 0) {
+      showAlert('Cannot Publish', errors.join('\n'));
+      return;
+    }
+
+    const renames: Record<string, string> = {};
+    draft.questions.forEach(q => {
+      if (q.originalId && q.originalId !== q.question.id) renames[q.originalId] = q.question.id;
+    });
+
+    const mappingChanges = baseDefinition
+      ? await getMappedQuestionChanges(baseDefinition, definition.questions, renames)
+      : [];
+
+    const warning = mappingChanges.length > 0
+      ? '\n\n⚠️ Salesforce field mapping will stop receiving data for:\n' + mappingChanges.map(change =>
+          `• ${change.questionId} ${change.renamedTo ? `(renamed to ${change.renamedTo})` : '(removed)'} → ${change.salesforceFields.join(', ')}`
+        ).join('\n') + '\n\nUpdate Field Mapping after publishing.'
+      : '';
+
+    const nextVersion = baseDefinition ? baseDefinition.version + 1 : 1;
+
+    showAlert(
+      'Publish Survey',
+      `Publish "${definition.name}" as version ${nextVersion}? Kiosks will use it on their next refresh.${warning}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Publish',
+          style: mappingChanges.length > 0 ? 'destructive' : 'default',
+          onPress: async () => {
+            setIsPublishing(true);
+            const result = await publishSurveyDefinition(definition, currentUser?.id);
+            setIsPublishing(false);
+
+            if (result.success && result.definition) {
+              showAlert('Published ✓', `${result.definition.name} v${result.definition.version} is now live.`);
+              const refreshed = definitions
+                .filter(d => d.id !== result.definition!.id)
+                .concat(result.definition);
+              setDefinitions(refreshed);
+              selectDefinition(result.definition);
+            } else {
+              showAlert('Publish Failed', result.error || 'Unknown error');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // ============ RENDER HELPERS ============
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void, key?: string) => (
+    <Pressable
+      key={key || label}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </Pressable>
+  );
+
+  const renderConditionEditor = (
+    condition: SurveyCondition,
+    onChange: (condition: SurveyCondition) => void,
+    onRemove: () => void
+  ) => {
+    const source = earlierQuestions.find(q => q.id === condition.questionId.split('.')[0]);
+    const needsValue = condition.operator !== 'answered' && condition.operator !== 'not_answered';
+    const isListOperator = condition.operator === 'in' || condition.operator === 'not_in';
+    const presetValues = source ? getConditionValues(source) : undefined;
+
+    return (
+      <View style={styles.conditionCard}>
+        <View style={styles.conditionHeader}>
+          <Text style={styles.conditionSummary}>{describeCondition(condition)}</Text>
+          <Pressable onPress={onRemove}>
+            <MaterialIcons name="close" size={20} color={LOWES_THEME.error} />
+          </Pressable>
+        </View>
+
+        <Text style={styles.fieldLabel}>When answer to</Text>
+        <View style={styles.chipRow}>
+          {earlierQuestions.map(q => renderChip(q.id, condition.questionId === q.id, () =>
+            onChange({ ...condition, questionId: q.id })
+          ))}
+        </View>
+
+        <View style={styles.chipRow}>
+          {OPERATORS.map(o => renderChip(o.label, condition.operator === o.operator, () =>
+            onChange({
+              ...condition,
+              operator: o.operator,
+              value: o.operator === 'in' || o.operator === 'not_in'
+                ? (Array.isArray(condition.value) ? condition.value : [])
+                : (Array.isArray(condition.value) ? condition.value[0] : condition.value),
+            }), o.operator
+          ))}
+        </View>
+
+        {needsValue && presetValues && !isListOperator && (
+          <View style={styles.chipRow}>
+            {presetValues.map(value => renderChip(value, condition.value === value, () =>
+              onChange({ ...condition, value })
+            ))}
+          </View>
+        )}
+
+        {needsValue && presetValues && isListOperator && (
+          <View style={styles.chipRow}>
+            {presetValues.map(value => {
+              const values = Array.isArray(condition.value) ? condition.value : [];
+              const isSelected = values.includes(value);
+              return renderChip(value, isSelected, () => onChange({
+                ...condition,
+                value: isSelected ? values.filter(v => v !== value) : [...values, value],
+              }));
+            })}
+          </View>
+        )}
+
+        {needsValue && !presetValues && (
+          <Input
+            value={Array.isArray(condition.value) ? condition.value.join(', ') : String(condition.value ?? '')}
+            onChangeText={(text) => onChange({
+              ...condition,
+              value: isListOperator
+                ? splitList(text)
+                : (condition.operator === 'gt' || condition.operator === 'lt') ? Number(text) || 0 : text,
+            })}
+            placeholder={isListOperator ? 'Values, comma separated' : 'Value'}
+            keyboardType={condition.operator === 'gt' || condition.operator === 'lt' ? 'number-pad' : 'default'}
+          />
+        )}
+      </View>
+    );
+  };
+
+  const renderRuleList = (list: RuleList, title: string, description: string) => {
+    const conditions = editorQuestion?.[list] || [];
+    return (
+      <View style={styles.editorSection}>
+        <View style={styles.ruleHeader}>
+          <View style={styles.ruleHeaderText}>
+            <Text style={styles.editorSectionTitle}>{title}</Text>
+            <Text style={styles.helperText}>{description}</Text>
+          </View>
+          <Pressable
+            onPress={() => updateRuleList(list, [...conditions, newCondition()])}
+            disabled={earlierQuestions.length === 0}
+          >
+            <MaterialIcons
+              name="add-circle"
+              size={24}
+              color={earlierQuestions.length === 0 ? LOWES_THEME.border : LOWES_THEME.primary}
+            />
+          </Pressable>
+        </View>
+        {conditions.map((condition, index) => (
+          <React.Fragment key={index}>
+            {renderConditionEditor(
+              condition,
+              (updated) => updateRuleList(list, conditions.map((c, i) => (i === index ? updated : c))),
+              () => updateRuleList(list, conditions.filter((_, i) => i !== index))
+            )}
+          </React.Fragment>
+        ))}
+      </View>
+    );
+  };
+
+  const renderTerminationRules = () => {
+    if (!editorQuestion) return null;
+    const rules = editorQuestion.endSurveyIf || [];
+    // Termination rules can also look at the question being edited
+    const selfCondition: SurveyCondition = {
+      questionId: editorQuestion.id,
+      operator: 'equals',
+      value: editorQuestion.type === 'yesno' ? transformAnswer(editorQuestion, 'No') : getConditionValues(editorQuestion)?.[0],
+    };
+
+    return (
+      <View style={styles.editorSection}>
+        <View style={styles.ruleHeader}>
+          <View style={styles.ruleHeaderText}>
+            <Text style={styles.editorSectionTitle}>End Survey</Text>
+            <Text style={styles.helperText}>Stop and record the survey right after this answer</Text>
+          </View>
+          <Pressable onPress={() => updateTermination([...rules, { when: [selfCondition], category: 'renter' }])}>
+            <MaterialIcons name="add-circle" size={24} color={LOWES_THEME.primary} />
+          </Pressable>
+        </View>
+        {rules.map((rule, ruleIndex) => {
+          const updateRule = (patch: Partial<TerminationRule>) =>
+            updateTermination(rules.map((r, i) => (i === ruleIndex ? { ...r, ...patch } : r)));
+
+          return (
+            <View key={ruleIndex} style={styles.terminationCard}>
+              <View style={styles.conditionHeader}>
+                <Text style={styles.conditionSummary}>Rule {ruleIndex + 1}</Text>
+                <Pressable onPress={() => updateTermination(rules.filter((_, i) => i !== ruleIndex))}>
+                  <MaterialIcons name="delete" size={20} color={LOWES_THEME.error} />
+                </Pressable>
+              </View>
+              {rule.when.map((condition, conditionIndex) => {
+                // Conditions on this question are edited by value only
+                if (condition.questionId === editorQuestion.id) {
+                  const values = getConditionValues(editorQuestion) || [];
+                  return (
+                    <View key={conditionIndex}>
+                      <Text style={styles.fieldLabel}>When this answer is</Text>
+                      <View style={styles.chipRow}>
+                        {values.map(value => renderChip(value, condition.value === value, () =>
+                          updateRule({ when: rule.when.map((c, i) => (i === conditionIndex ? { ...c, value } : c)) })
+                        ))}
+                      </View>
+                    </View>
+                  );
+                }
+                return (
+                  <React.Fragment key={conditionIndex}>
+                    {renderConditionEditor(
+                      condition,
+                      (updated) => updateRule({ when: rule.when.map((c, i) => (i === conditionIndex ? updated : c)) }),
+                      () => updateRule({ when: rule.when.filter((_, i) => i !== conditionIndex) })
+                    )}
+                  </React.Fragment>
+                );
+              })}
+              {earlierQuestions.length > 0 && (
+                <Pressable onPress={() => updateRule({ when: [...rule.when, newCondition()] })}>
+                  <Text style={styles.linkText}>+ And when an earlier answer...</Text>
+                </Pressable>
+              )}
+              <Text style={styles.fieldLabel}>Record as</Text>
+              <View style={styles.chipRow}>
+                {CATEGORIES.map(category => renderChip(category, rule.category === category, () =>
+                  updateRule({ category })
+                ))}
+              </View>
+              <Input
+                value={rule.message || ''}
+                onChangeText={(message) => updateRule({ message: message || undefined })}
+                placeholder="Message shown to the employee (optional)"
+              />
+            </View>
+          );
+        })}
+      </View>
+    );
+  };
+
+  const previewVisibleQuestions = getVisibleQuestions(previewQuestions, previewAnswers);
+  const previewPosition = previewVisibleQuestions.findIndex(q => q.id === previewQuestions[previewIndex]?.id) + 1;
+  const previewTheme = getTheme(previewStore);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.backButton}>
+          <MaterialIcons name="arrow-back" size={24} color="#FFFFFF" />
+        </Pressable>
+        <Text style={styles.headerTitle}>Survey Builder</Text>
+        {isLoading || isPublishing ? <ActivityIndicator color="#FFFFFF" /> : <View style={{ width: 40 }} />}
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {/* Definition picker */}
+        <Text style={styles.sectionTitle}>Definitions</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          {definitions.map(definition => renderChip(
+            `${definition.name} v${definition.version}`,
+            baseDefinition?.id === definition.id,
+            () => selectDefinition(definition),
+            definition.id
+          ))}
+          {renderChip('+ New Definition', baseDefinition === null, () => selectDefinition(null), '__new')}
+        </ScrollView>
+
+        {/* Definition details */}
+        <View style={styles.card}>
+          <Input
+            label="Definition ID"
+            value={draft.id}
+            onChangeText={(id) => setDraft(prev => ({ ...prev, id: id.toLowerCase().replace(/[^a-z0-9_-]/g, '') }))}
+            placeholder="e.g. florida_well_water"
+            editable={baseDefinition === null}
+          />
+          <Input
+            label="Name"
+            value={draft.name}
+            onChangeText={(name) => setDraft(prev => ({ ...prev, name }))}
+            placeholder="Survey name"
+          />
+          <Input
+            label="Description"
+            value={draft.description}
+            onChangeText={(description) => setDraft(prev => ({ ...prev, description }))}
+            placeholder="What changed in this version"
+          />
+
+          <Text style={styles.fieldLabel}>Stores (none = all)</Text>
+          <View style={styles.chipRow}>
+            {(['lowes', 'homedepot'] as Store[]).map(store => renderChip(
+              store === 'lowes' ? 'Lowes' : 'Home Depot',
+              draft.stores.includes(store),
+              () => setDraft(prev => ({
+                ...prev,
+                stores: prev.stores.includes(store) ? prev.stores.filter(s => s !== store) : [...prev.stores, store],
+              })),
+              store
+            ))}
+          </View>
+          <Input
+            label="States (comma separated, none = all)"
+            value={draft.states}
+            onChangeText={(states) => setDraft(prev => ({ ...prev, states }))}
+            placeholder="FL, AL"
+            autoCapitalize="characters"
+          />
+          <Input
+            label="Store Numbers (comma separated, none = all)"
+            value={draft.storeNumbers}
+            onChangeText={(storeNumbers) => setDraft(prev => ({ ...prev, storeNumbers }))}
+            placeholder="0808, 1234"
+          />
+        </View>
+
+        {/* Questions */}
+        <View style={styles.questionsHeader}>
+          <Text style={styles.sectionTitle}>Questions ({draft.questions.length})</Text>
+          <Pressable onPress={addQuestion}>
+            <MaterialIcons name="add-circle" size={28} color={LOWES_THEME.primary} />
+          </Pressable>
+        </View>
+
+        {draft.questions.map((item, index) => {
+          const q = item.question;
+          const renamed = item.originalId && item.originalId !== q.id;
+          return (
+            <View key={item.key} style={styles.questionCard}>
+              <View style={styles.questionRow}>
+                <View style={styles.reorderButtons}>
+                  <Pressable onPress={() => moveQuestion(index, -1)} disabled={index === 0}>
+                    <MaterialIcons name="keyboard-arrow-up" size={24} color={index === 0 ? LOWES_THEME.border : LOWES_THEME.primary} />
+                  </Pressable>
+                  <Pressable onPress={() => moveQuestion(index, 1)} disabled={index === draft.questions.length - 1}>
+                    <MaterialIcons
+                      name="keyboard-arrow-down"
+                      size={24}
+                      color={index === draft.questions.length - 1 ? LOWES_THEME.border : LOWES_THEME.primary}
+                    />
+                  </Pressable>
+                </View>
+
+                <Pressable style={styles.questionInfo} onPress={() => openEditor(index)}>
+                  <View style={styles.questionMeta}>
+                    <Text style={styles.questionId}>{index + 1}. {q.id}</Text>
+                    <View style={styles.typeBadge}>
+                      <Text style={styles.typeBadgeText}>{QUESTION_TYPES.find(t => t.type === q.type)?.label || q.type}</Text>
+                    </View>
+                    {renamed && <Text style={styles.renamedText}>was {item.originalId}</Text>}
+                  </View>
+                  <Text style={styles.questionText} numberOfLines={2}>{q.question}</Text>
+                  {q.showIf?.length ? <Text style={styles.ruleText}>Show if {q.showIf.map(describeCondition).join(' and ')}</Text> : null}
+                  {q.skipIf?.length ? <Text style={styles.ruleText}>Skip if {q.skipIf.map(describeCondition).join(' or ')}</Text> : null}
+                  {q.endSurveyIf?.map((rule, i) => (
+                    <Text key={i} style={[styles.ruleText, styles.endRuleText]}>
+                      End as {rule.category} if {rule.when.map(describeCondition).join(' and ')}
+                    </Text>
+                  ))}
+                </Pressable>
+
+                <Pressable onPress={() => removeQuestion(index)} style={styles.deleteButton}>
+                  <MaterialIcons name="delete" size={22} color={LOWES_THEME.error} />
+                </Pressable>
+              </View>
+            </View>
+          );
+        })}
+
+        {/* Actions */}
+        <View style={styles.actions}>
+          <Button title="Preview" onPress={openPreview} variant="outline" icon="visibility" />
+          <Button
+            title={isPublishing ? 'Publishing...' : 'Publish New Version'}
+            onPress={handlePublish}
+            backgroundColor={LOWES_THEME.primary}
+            disabled={isPublishing || isLoading}
+            icon="publish"
+          />
+        </View>
+      </ScrollView>
+
+      {/* Question Editor Modal */}
+      <Modal
+        visible={editorQuestion !== null}
+        transparent
+        animationType="slide"
+        onRequestClose={closeEditor}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Edit Question</Text>
+              <Pressable onPress={closeEditor}>
+                <MaterialIcons name="close" size={24} color={LOWES_THEME.text} />
+              </Pressable>
+            </View>
+
+            {editorQuestion && (
+              <ScrollView contentContainerStyle={styles.editorContent}>
+                <Input
+                  label="Question ID"
+                  value={editorQuestion.id}
+                  onChangeText={(id) => patchEditor({ id })}
+                  autoCapitalize="none"
+                  placeholder="e.g. water_source"
+                />
+                <Input
+                  label="Question Text"
+                  value={editorQuestion.question}
+                  onChangeText={(question) => patchEditor({ question })}
+                  multiline
+                />
+
+                <Text style={styles.fieldLabel}>Type</Text>
+                <View style={styles.chipRow}>
+                  {QUESTION_TYPES.map(t => renderChip(t.label, editorQuestion.type === t.type, () =>
+                    patchEditor({ type: t.type }), t.type
+                  ))}
+                </View>
+
+                {(editorQuestion.type === 'choice' || editorQuestion.type === 'multiselect') && (
+                  <Input
+                    label="Options (one per line)"
+                    value={optionsText}
+                    onChangeText={setOptionsText}
+                    multiline
+                    style={styles.optionsInput}
+                  />
+                )}
+
+                {!['yesno', 'choice', 'multiselect', 'contact', 'signature'].includes(editorQuestion.type) && (
+                  <Input
+                    label="Placeholder"
+                    value={editorQuestion.placeholder || ''}
+                    onChangeText={(placeholder) => patchEditor({ placeholder: placeholder || undefined })}
+                  />
+                )}
+
+                <View style={styles.switchRow}>
+                  <Text style={styles.switchLabel}>Required</Text>
+                  <Switch
+                    value={editorQuestion.required}
+                    onValueChange={(required) => patchEditor({ required })}
+                    trackColor={{ false: '#ccc', true: LOWES_THEME.primary }}
+                    thumbColor="#FFFFFF"
+                  />
+                </View>
+
+                {editorQuestion.type === 'choice' && (
+                  <View style={styles.switchRow}>
+                    <Text style={styles.switchLabel}>Show Continue button</Text>
+                    <Switch
+                      value={!!editorQuestion.allowNext}
+                      onValueChange={(allowNext) => patchEditor({ allowNext })}
+                      trackColor={{ false: '#ccc', true: LOWES_THEME.primary }}
+                      thumbColor="#FFFFFF"
+                    />
+                  </View>
+                )}
+
+                {editorQuestion.type === 'number' && (
+                  <View style={styles.validationRow}>
+                    <View style={styles.validationInput}>
+                      <Input
+                        label="Min"
+                        value={editorQuestion.validation?.min?.toString() || ''}
+                        onChangeText={(text) => patchEditor({
+                          validation: { ...editorQuestion.validation, min: text ? Number(text) : undefined },
+                        })}
+                        keyboardType="number-pad"
+                      />
+                    </View>
+                    <View style={styles.validationInput}>
+                      <Input
+                        label="Max"
+                        value={editorQuestion.validation?.max?.toString() || ''}
+                        onChangeText={(text) => patchEditor({
+                          validation: { ...editorQuestion.validation, max: text ? Number(text) : undefined },
+                        })}
+                        keyboardType="number-pad"
+                      />
+                    </View>
+                  </View>
+                )}
+
+                {editorQuestion.type !== 'contact' && editorQuestion.type !== 'signature' && (
+                  <>
+                    {renderRuleList('showIf', 'Show Only If', 'All conditions must match')}
+                    {renderRuleList('skipIf', 'Skip If', 'Skipped when any condition matches')}
+                    {(editorQuestion.type === 'yesno' || editorQuestion.type === 'choice') && renderTerminationRules()}
+                  </>
+                )}
+
+                {earlierQuestions.length === 0 && (
+                  <Text style={styles.helperText}>Move this question later in the survey to base rules on earlier answers.</Text>
+                )}
+
+                <View style={styles.actions}>
+                  <Button title="Cancel" onPress={closeEditor} variant="outline" />
+                  <Button title="Apply" onPress={saveEditor} backgroundColor={LOWES_THEME.primary} icon="check" />
+                </View>
+              </ScrollView>
+            )}
+          </View>
+        </View>
+      </Modal>
+
+      {/* Preview Modal - renders questions with the same controls and flow rules as the kiosk */}
+      <Modal
+        visible={showPreview}
+        animationType="slide"
+        onRequestClose={() => setShowPreview(false)}
+      >
+        <SafeAreaView style={[styles.container, { backgroundColor: previewTheme.background }]}>
+          <View style={[styles.header, { backgroundColor: previewTheme.primary }]}>
+            <Pressable onPress={() => setShowPreview(false)} style={styles.backButton}>
+              <MaterialIcons name="close" size={24} color="#FFFFFF" />
+            </Pressable>
+            <Text style={styles.headerTitle}>
+              Preview{previewResult ? '' : ` - Question ${previewPosition} of ${previewVisibleQuestions.length}`}
+            </Text>
+            <Pressable
+              onPress={() => setPreviewStore(previewStore === 'lowes' ? 'homedepot' : 'lowes')}
+              style={styles.backButton}
+            >
+              <MaterialIcons name="store" size={24} color="#FFFFFF" />
+            </Pressable>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.previewContent}>
+            {previewResult ? (
+              <View style={styles.previewPlaceholder}>
+                <Text style={[styles.previewResult, { color: previewTheme.text }]}>{previewResult}</Text>
+                <Text style={[styles.previewLabel, { color: previewTheme.textSubtle }]}>
+                  Answers: {JSON.stringify(previewAnswers, null, 2)}
+                </Text>
+                <Button title="Restart Preview" onPress={openPreview} backgroundColor={previewTheme.primary} fullWidth />
+              </View>
+            ) : (
+              <>
+                <View style={styles.previewQuestionCard}>
+                  <Text style={[styles.previewLabel, { color: previewTheme.textSubtle }]}>
+                    Question {previewPosition}
+                  </Text>
+                  <Text style={[styles.previewQuestionText, { color: previewTheme.text }]}>
+                    {previewQuestions[previewIndex]?.question}
+                  </Text>
+                </View>
+
+                {renderPreviewQuestion()}
+
+                {previewPosition > 1 && (
+                  <Button
+                    title="Previous Question"
+                    onPress={() => {
+                      const previousIndex = getPreviousQuestionIndex(previewQuestions, previewIndex, previewAnswers);
+                      if (previousIndex !== -1) setPreviewIndex(previousIndex);
+                    }}
+                    variant="outline"
+                    fullWidth
+                  />
+                )}
+              </>
+            )}
+          </ScrollView>
+        </SafeAreaView>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: LOWES_THEME.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.md,
+    backgroundColor: LOWES_THEME.primary,
+  },
+  backButton: {
+    padding: SPACING.sm,
+  },
+  headerTitle: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    flex: 1,
+    textAlign: 'center',
+  },
+  content: {
+    padding: SPACING.lg,
+    gap: SPACING.md,
+  },
+  sectionTitle: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: '700',
+    color: LOWES_THEME.text,
+  },
+  card: {
+    backgroundColor: LOWES_THEME.surface,
+    borderRadius: 12,
+    padding: SPACING.lg,
+    gap: SPACING.md,
+    borderWidth: 1,
+    borderColor: LOWES_THEME.border,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+  },
+  chip: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: LOWES_THEME.border,
+    backgroundColor: LOWES_THEME.surface,
+  },
+  chipSelected: {
+    backgroundColor: LOWES_THEME.primary,
+    borderColor: LOWES_THEME.primary,
+  },
+  chipText: {
+    fontSize: FONTS.sizes.sm,
+    color: LOWES_THEME.text,
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  fieldLabel: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: '600',
+    color: LOWES_THEME.textSubtle,
+  },
+  questionsHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  questionCard: {
+    backgroundColor: LOWES_THEME.surface,
+    borderRadius: 12,
+    padding: SPACING.md,
+    borderWidth: 1,
+    borderColor: LOWES_THEME.border,
+  },
+  questionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  reorderButtons: {
+    alignItems: 'center',
+  },
+  questionInfo: {
+    flex: 1,
+    gap: SPACING.xs,
+  },
+  questionMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+  },
+  questionId: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: '700',
+    color: LOWES_THEME.primary,
+  },
+  typeBadge: {
+    backgroundColor: LOWES_THEME.surfaceLight,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  typeBadgeText: {
+    fontSize: FONTS.sizes.xs,
+    color: LOWES_THEME.primary,
+    fontWeight: '600',
+  },
+  renamedText: {
+    fontSize: FONTS.sizes.xs,
+    color: LOWES_THEME.warning,
+    fontStyle: 'italic',
+  },
+  questionText: {
+    fontSize: FONTS.sizes.md,
+    color: LOWES_THEME.text,
+  },
+  ruleText: {
+    fontSize: FONTS.sizes.xs,
+    color: LOWES_THEME.textSubtle,
+  },
+  endRuleText: {
+    color: LOWES_THEME.warning,
+  },
+  deleteButton: {
+    padding: SPACING.sm,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: SPACING.md,
+    marginTop: SPACING.md,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: LOWES_THEME.surface,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: SPACING.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: LOWES_THEME.border,
+  },
+  modalTitle: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: '700',
+    color: LOWES_THEME.text,
+  },
+  editorContent: {
+    padding: SPACING.lg,
+    gap: SPACING.md,
+  },
+  optionsInput: {
+    minHeight: 100,
+    textAlignVertical: 'top',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  switchLabel: {
+    fontSize: FONTS.sizes.md,
+    color: LOWES_THEME.text,
+  },
+  validationRow: {
+    flexDirection: 'row',
+    gap: SPACING.md,
+  },
+  validationInput: {
+    flex: 1,
+  },
+  editorSection: {
+    gap: SPACING.sm,
+    paddingTop: SPACING.md,
+    borderTopWidth: 1,
+    borderTopColor: LOWES_THEME.border,
+  },
+  editorSectionTitle: {
+    fontSize: FONTS.sizes.md,
+    fontWeight: '700',
+    color: LOWES_THEME.text,
+  },
+  ruleHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  ruleHeaderText: {
+    flex: 1,
+  },
+  helperText: {
+    fontSize: FONTS.sizes.xs,
+    color: LOWES_THEME.textSubtle,
+  },
+  conditionCard: {
+    backgroundColor: LOWES_THEME.background,
+    borderRadius: 8,
+    padding: SPACING.md,
+    gap: SPACING.sm,
+  },
+  conditionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  conditionSummary: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: '600',
+    color: LOWES_THEME.text,
+  },
+  terminationCard: {
+    borderWidth: 1,
+    borderColor: LOWES_THEME.warning,
+    borderRadius: 8,
+    padding: SPACING.md,
+    gap: SPACING.sm,
+  },
+  linkText: {
+    fontSize: FONTS.sizes.sm,
+    color: LOWES_THEME.primary,
+    fontWeight: '600',
+  },
+  previewContent: {
+    padding: SPACING.lg,
+    gap: SPACING.lg,
+  },
+  previewQuestionCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: SPACING.xl,
+    gap: SPACING.sm,
+  },
+  previewQuestionText: {
+    fontSize: FONTS.sizes.xl,
+    fontWeight: '700',
+  },
+  previewPlaceholder: {
+    gap: SPACING.md,
+  },
+  previewLabel: {
+    fontSize: FONTS.sizes.sm,
+  },
+  previewResult: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: '600',
+  },
+  signatureBox: {
+    height: 200,
+    borderWidth: 2,
+    borderStyle: 'dashed',
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#FFFFFF',
+  },
+});
@@ -1,6 +1,6 @@
 // Admin surveys view with tabs: Surveys, Appointments, Renters, Duplicates
-import React, { useState } from 'react';
-import { View, Text, StyleSheet, ScrollView, Pressable, Modal, TextInput, ActivityIndicator } from 'react-native';
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, Pressable, Modal, TextInput, ActivityIndicator, Platform } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useApp } from '@/hooks/useApp';
@@ -12,7 +12,20 @@ import { Input } from '@/components/ui/Input';
 import { SPACING, FONTS, LOWES_THEME } from '@/constants/theme';
 import { formatFullDateTime } from '@/utils/timeFormat';
 import { verifySalesforceRecord, isOnline } from '@/services/syncService';
-import { Survey } from '@/types';
+import * as AppointmentCalendarService from '@/services/appointmentCalendarService';
+import * as AppointmentMessagingService from '@/services/appointmentMessagingService';
+import { getAvailabilitySnapshot } from '@/services/appointmentAvailabilityService';
+import { downloadCSV, shareCSV } from '@/utils/exportData';
+import { parsePhone, getPhoneErrorMessage, formatNationalPhone, formatPhoneAsYouType } from '@/utils/phone';
+import { Survey, AppointmentStatus, RecordConflict } from '@/types';
+
+const APPOINTMENT_STATUS_COLORS: Record<AppointmentStatus, string> = {
+  booked: LOWES_THEME.primary,
+  confirmed: LOWES_THEME.success,
+  rescheduled: LOWES_THEME.warning,
+  cancelled: LOWES_THEME.error,
+  completed: LOWES_THEME.textSubtle,
+};
 
 export default function SurveysScreen() {
   const { surveys, loadData } = useApp();
@@ -21,8 +34,12 @@ export default function SurveysScreen() {
   const [searchQuery, setSearchQuery] = useState('');
   const [verifyingId, setVerifyingId] = useState<string | null>(null);
   const [editingSurvey, setEditingSurvey] = useState<Survey | null>(null);
+  const [editingBase, setEditingBase] = useState<Survey | null>(null); // As loaded when editing began
   const [showEditModal, setShowEditModal] = useState(false);
   const [syncingId, setSyncingId] = useState<string | null>(null);
+  const [updatingAppointmentId, setUpdatingAppointmentId] = useState<string | null>(null);
+  const [isPullingCalendar, setIsPullingCalendar] = useState(false);
+  const [messaging, setMessaging] = useState<Record<string, AppointmentMessagingService.AppointmentMessagingSummary>>({});
 
   // Filter surveys by category and search
   const filterSurveysBySearch = (surveyList: Survey[]) => {
@@ -43,6 +60,12 @@ export default function SurveysScreen() {
   const duplicates = surveys.filter(s => s.isDuplicate && !s.duplicateReviewed);
   const surveysOnly = filterSurveysBySearch(surveys.filter(s => s.category === 'survey' && (!s.isDuplicate || s.duplicateReviewed)));
   const appointmentsOnly = filterSurveysBySearch(surveys.filter(s => s.category === 'appointment' && (!s.isDuplicate || s.duplicateReviewed)));
+  useEffect(() => {
+    if (activeTab === 'appointments') {
+      AppointmentMessagingService.getMessagingSummaries(surveys.filter(s => s.category === 'appointment')).then(setMessaging);
+    }
+  }, [activeTab, surveys]);
+
   const rentersOnly = filterSurveysBySearch(surveys.filter(s => s.category === 'renter' && (!s.isDuplicate || s.duplicateReviewed)));
 
   const handleDeleteDuplicate = (surveyId: string) => {
@@ -65,46 +88,157 @@ export default function SurveysScreen() {
     showAlert('Survey Uploaded', 'Survey has been marked for re-upload');
   };
 
-  // Format phone number to (999) 999-9999
-  const formatPhoneNumber = (phone: string): string => {
-    if (!phone) return '';
-    const digits = phone.replace(/\D/g, '');
-    if (digits.length !== 10) return phone;
-    return `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6)}`;
-  };
-
   const handleEditSurvey = (survey: Survey) => {
     const surveyCopy = JSON.parse(JSON.stringify(survey));
     if (surveyCopy.answers.contact_info?.phone) {
-      const formatted = formatPhoneNumber(surveyCopy.answers.contact_info.phone);
+      const formatted = formatNationalPhone(surveyCopy.answers.contact_info.phone) || surveyCopy.answers.contact_info.phone;
       surveyCopy.answers.contact_info.phone = formatted;
       surveyCopy.answers.phone = formatted;
     }
     setEditingSurvey(surveyCopy);
+    setEditingBase(survey);
     setShowEditModal(true);
   };
 
   const handleSaveEdit = async () => {
     if (!editingSurvey) return;
 
+    const contact = editingSurvey.answers.contact_info;
+    if (contact?.phone) {
+      const parsedPhone = parsePhone(contact.phone);
+      if (!parsedPhone.isValid) {
+        showAlert('Invalid Phone', getPhoneErrorMessage(parsedPhone.error!));
+        return;
+      }
+      editingSurvey.answers.contact_info = { ...contact, phoneE164: parsedPhone.e164 };
+    }
+
     const allSurveys = await StorageService.getSurveys() || [];
     const surveyIndex = allSurveys.findIndex(s => s.id === editingSurvey.id);
     
     if (surveyIndex !== -1) {
-      allSurveys[surveyIndex] = {
-        ...editingSurvey,
-        syncError: undefined,
-        syncedToSalesforce: false,
-        syncedToZapier: editingSurvey.category === 'appointment' ? false : allSurveys[surveyIndex].syncedToZapier,
-      };
-      await StorageService.saveSurveys(allSurveys);
+      // Moving the slot is a reschedule - record it in the lifecycle and push it to the calendar
+      const original = allSurveys[surveyIndex];
+      if (
+        original.appointment && editingSurvey.appointment &&
+        (original.appointment.date !== editingSurvey.appointment.date || original.appointment.time !== editingSurvey.appointment.time)
+      ) {
+        try {
+          editingSurvey.appointment = await AppointmentCalendarService.updateAppointmentStatus(original, 'rescheduled', {
+            date: editingSurvey.appointment.date,
+            time: editingSurvey.appointment.time,
+          });
+          await AppointmentMessagingService.scheduleAppointmentMessages(original.id, { rescheduled: true });
+        } catch (error) {
+          showAlert('Cannot Reschedule', error instanceof Error ? error.message : 'Failed to reschedule appointment');
+          return;
+        }
+      }
+
+      let conflicts: RecordConflict[];
+      try {
+        conflicts = await StorageService.updateSurvey(editingSurvey.id, {
+          ...editingSurvey,
+          syncError: undefined,
+          syncedToSalesforce: false,
+          syncedToZapier: editingSurvey.category === 'appointment' ? false : original.syncedToZapier,
+        }, editingBase || original);
+      } catch (error) {
+        showAlert('Error', `Failed to save survey: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+      }
       await loadData();
       setShowEditModal(false);
       setEditingSurvey(null);
-      showAlert('Saved', 'Survey updated successfully. Use "Retry Sync" to sync the corrected data.');
+      setEditingBase(null);
+      showAlert(
+        'Saved',
+        'Survey updated successfully. Use "Retry Sync" to sync the corrected data.' +
+          (conflicts.length > 0
+            ? `\n\n${conflicts.length} field(s) were also changed on another device while you were editing - your values were kept. See Sync Dashboard → Edit Conflicts.`
+            : '')
+      );
     }
   };
 
+  const handleAppointmentStatus = (survey: Survey, status: AppointmentStatus) => {
+    const label = AppointmentCalendarService.APPOINTMENT_STATUS_LABELS[status];
+    showAlert(`Mark ${label}`, `Mark this appointment as ${label.toLowerCase()}? The specialist's calendar will be updated.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: label,
+        style: status === 'cancelled' ? 'destructive' : 'default',
+        onPress: async () => {
+          setUpdatingAppointmentId(survey.id);
+          try {
+            await AppointmentCalendarService.updateAppointmentStatus(survey, status);
+            await loadData();
+          } catch (error) {
+            showAlert('Error', error instanceof Error ? error.message : 'Failed to update appointment');
+          } finally {
+            setUpdatingAppointmentId(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  const handlePullCalendar = async () => {
+    setIsPullingCalendar(true);
+    try {
+      const applied = await AppointmentCalendarService.pullCalendarUpdates(surveys);
+      await loadData();
+      showAlert('Calendar Updated', applied > 0
+        ? `${applied} appointment(s) updated from the calendar`
+        : 'No new changes from the calendar');
+    } finally {
+      setIsPullingCalendar(false);
+    }
+  };
+
+  const handleExportCalendar = async (territoryId: string) => {
+    try {
+      const ics = await AppointmentCalendarService.exportTerritoryCalendar(territoryId);
+      const filename = `appointments-${territoryId}.ics`;
+      if (Platform.OS === 'web') {
+        downloadCSV(ics, filename, 'text/calendar;charset=utf-8;');
+      } else {
+        shareCSV(ics, filename);
+      }
+    } catch (error) {
+      showAlert('Export Failed', error instanceof Error ? error.message : 'Could not export calendar');
+    }
+  };
+
+  const handleRevokeFeed = async (territoryId: string) => {
+    try {
+      const url = await AppointmentCalendarService.revokeCalendarFeed(territoryId);
+      showAlert('Feed Revoked', `The old URL no longer works. Share the new one:\n\n${url}`);
+    } catch (error) {
+      showAlert('Revoke Failed', error instanceof Error ? error.message : 'Could not revoke calendar feed');
+    }
+  };
+
+  const handleShowFeed = async (territoryId: string) => {
+    const url = await AppointmentCalendarService.getCalendarFeedUrl(territoryId);
+    showAlert('Calendar Feed', url
+      ? `Subscribe to this URL in Google/Apple/Outlook Calendar:\n\n${url}`
+      : 'Calendar feed is not available', [
+      { text: 'Close', style: 'cancel' },
+      { text: 'Export .ics', onPress: () => handleExportCalendar(territoryId) },
+      ...(url ? [{ text: 'Revoke URL', style: 'destructive' as const, onPress: () => handleRevokeFeed(territoryId) }] : []),
+    ]);
+  };
+
+  const handleCalendarFeeds = async () => {
+    const { config } = await getAvailabilitySnapshot();
+    const territories = [{ id: 'default', name: 'Default' }, ...config.territories];
+    showAlert('Territory Calendars', 'Choose a territory to export or subscribe to', [
+      ...territories.map(territory => ({ text: territory.name, onPress: () => handleShowFeed(territory.id) })),
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
   const handleRetrySync = async (survey: Survey) => {
     const online = await isOnline();
     if (!online) {
@@ -114,44 +248,12 @@ export default function SurveysScreen() {
 
     setSyncingId(survey.id);
     try {
-      // Build sync queue directly without reading existing queue
-      const syncQueue: any[] = [];
+      // Appointments re-send to both Salesforce (survey) AND Zapier (appointment)
+      console.log(`🔄 [RETRY] ${survey.category === 'appointment' ? 'Salesforce + Zapier' : 'Salesforce only'} for survey:`, survey.id);
+      const queued = await SyncService.enqueueSurveySync(survey, { force: true });
       
-      // For appointments: sync to both Salesforce (survey) AND Zapier (appointment)
-      if (survey.category === 'appointment' && survey.appointment) {
-        console.log('🔄 [RETRY] Appointment sync - Salesforce + Zapier');
-        console.log('🔄 [RETRY] Survey ID:', survey.id);
-        console.log('🔄 [RETRY] Appointment:', survey.appointment);
-        
-        // Always add Salesforce sync for appointment surveys
-        syncQueue.push({
-          type: 'survey',
-          data: { ...survey, syncedToSalesforce: false, syncError: undefined },
-          timestamp: new Date().toISOString(),
-        });
-        
-        // Always add Zapier sync for appointments
-        syncQueue.push({
-          type: 'appointment',
-          data: { 
-            survey: { ...survey, syncedToZapier: false, syncError: undefined }, 
-            appointment: survey.appointment 
-          },
-          timestamp: new Date().toISOString(),
-        });
-      } else {
-        console.log('🔄 [RETRY] Survey sync - Salesforce only');
-        console.log('🔄 [RETRY] Survey ID:', survey.id);
-        // Regular surveys only sync to Salesforce
-        syncQueue.push({
-          type: 'survey',
-          data: { ...survey, syncedToSalesforce: false, syncError: undefined },
-          timestamp: new Date().toISOString(),
-        });
-      }
-      
-      console.log(`📦 [RETRY] Processing ${syncQueue.length} sync items...`);
-      const result = await SyncService.processSyncQueue(syncQueue);
+      console.log(`📦 [RETRY] Processing ${queued} sync items...`);
+      const result = await SyncService.processOutbox();
       console.log(`📊 [RETRY] Sync result: synced=${result.synced}, failed=${result.failed}, duplicates=${result.duplicates}`);
       
       // Wait 1 second for database writes to complete
@@ -239,14 +341,11 @@ export default function SurveysScreen() {
     setVerifyingId(null);
 
     if (result.exists) {
-      const allSurveys = await StorageService.getSurveys() || [];
-      const surveyIndex = allSurveys.findIndex(s => s.id === survey.id);
-      if (surveyIndex !== -1) {
-        allSurveys[surveyIndex].salesforceVerified = true;
-        allSurveys[surveyIndex].salesforceVerifiedAt = new Date().toISOString();
-        await StorageService.saveSurveys(allSurveys);
-        await loadData();
-      }
+      await StorageService.updateSurvey(survey.id, {
+        salesforceVerified: true,
+        salesforceVerifiedAt: new Date().toISOString(),
+      }).catch(console.error);
+      await loadData();
 
       showAlert(
         'Record Verified ✓',
@@ -308,6 +407,41 @@ export default function SurveysScreen() {
           <Text style={styles.surveyDate}>{formatFullDateTime(survey.timestamp)}</Text>
         </View>
 
+        {survey.appointment && (
+          <View style={styles.contactRow}>
+            <MaterialIcons name="event" size={16} color={LOWES_THEME.textSubtle} />
+            <Text style={styles.surveyDate}>{survey.appointment.date} {survey.appointment.time}</Text>
+            <View style={[
+              styles.appointmentStatusBadge,
+              { backgroundColor: APPOINTMENT_STATUS_COLORS[AppointmentCalendarService.getAppointmentStatus(survey.appointment)] },
+            ]}>
+              <Text style={styles.appointmentStatusText}>
+                {AppointmentCalendarService.APPOINTMENT_STATUS_LABELS[AppointmentCalendarService.getAppointmentStatus(survey.appointment)]}
+              </Text>
+            </View>
+          </View>
+        )}
+
+        {survey.appointment && messaging[survey.id] && renderMessagingStatus(messaging[survey.id])}
+
+        {survey.appointment?.overbooked && (
+          <View style={styles.contactRow}>
+            <MaterialIcons name="warning" size={16} color={LOWES_THEME.warning} />
+            <Text style={[styles.surveyDate, { color: LOWES_THEME.warning }]}>
+              Overbooked: {survey.appointment.date} {survey.appointment.time} - reschedule needed
+            </Text>
+          </View>
+        )}
+
+        {survey.kioskDuplicateCheck?.decision === 'continued' && (
+          <View style={styles.contactRow}>
+            <MaterialIcons name="content-copy" size={16} color={LOWES_THEME.warning} />
+            <Text style={[styles.surveyDate, { color: LOWES_THEME.warning }]}>
+              Kiosk duplicate warning ({survey.kioskDuplicateCheck.match?.source === 'salesforce' ? 'Salesforce' : 'earlier survey'}, {survey.kioskDuplicateCheck.match?.matchedOn}) - surveyor continued
+            </Text>
+          </View>
+        )}
+
         <View style={styles.syncStatusSection}>
           <Text style={styles.syncStatusLabel}>Sync Status:</Text>
           <View style={styles.syncBadges}>
@@ -396,6 +530,26 @@ export default function SurveysScreen() {
             <MaterialIcons name="edit" size={18} color={LOWES_THEME.primary} />
             <Text style={styles.actionButtonText}>Edit</Text>
           </Pressable>
+
+          {survey.appointment && (['confirmed', 'completed', 'cancelled'] as AppointmentStatus[])
+            .filter(status => AppointmentCalendarService.canTransition(survey.appointment!, status))
+            .map(status => (
+              <Pressable
+                key={status}
+                onPress={() => handleAppointmentStatus(survey, status)}
+                disabled={updatingAppointmentId === survey.id}
+                style={[styles.actionButton, updatingAppointmentId === survey.id && styles.actionButtonDisabled]}
+              >
+                <MaterialIcons
+                  name={status === 'confirmed' ? 'event-available' : status === 'completed' ? 'task-alt' : 'event-busy'}
+                  size={18}
+                  color={APPOINTMENT_STATUS_COLORS[status]}
+                />
+                <Text style={[styles.actionButtonText, { color: APPOINTMENT_STATUS_COLORS[status] }]}>
+                  {status === 'confirmed' ? 'Confirm' : status === 'completed' ? 'Complete' : 'Cancel'}
+                </Text>
+              </Pressable>
+            ))}
           
           {/* Show retry sync button if any sync failed */}
           {((!isAppointment && survey.syncedToSalesforce === false) || 
@@ -420,6 +574,37 @@ export default function SurveysScreen() {
     );
   };
 
+  // Confirmation/reminder delivery + customer reply for an appointment card
+  const renderMessagingStatus = (summary: AppointmentMessagingService.AppointmentMessagingSummary) => (
+    <View style={styles.messagingRow}>
+      {/* One badge per message kind - the SMS copy when there is one, otherwise the email */}
+      {summary.messages.filter(m => m.channel === 'sms' || !summary.messages.some(o => o.kind === m.kind && o.channel === 'sms')).map(message => (
+        <View key={message.id} style={styles.syncBadge}>
+          <MaterialIcons
+            name={message.status === 'sent' ? 'check-circle' : message.status === 'failed' ? 'error' : message.status === 'skipped' ? 'block' : 'schedule'}
+            size={12}
+            color={message.status === 'sent' ? LOWES_THEME.success : message.status === 'failed' ? LOWES_THEME.error : LOWES_THEME.textSubtle}
+          />
+          <Text style={styles.messagingText}>
+            {AppointmentMessagingService.MESSAGE_KIND_LABELS[message.kind]}: {message.status}
+          </Text>
+        </View>
+      ))}
+      {summary.lastReply && (
+        <View style={styles.syncBadge}>
+          <MaterialIcons name="sms" size={12} color={LOWES_THEME.primary} />
+          <Text style={styles.messagingText}>Replied: {summary.lastReply.body}</Text>
+        </View>
+      )}
+      {summary.smsOptedOut && (
+        <View style={styles.syncBadge}>
+          <MaterialIcons name="do-not-disturb" size={12} color={LOWES_THEME.error} />
+          <Text style={[styles.messagingText, { color: LOWES_THEME.error }]}>SMS opted out</Text>
+        </View>
+      )}
+    </View>
+  );
+
   // Render duplicate card
   const renderDuplicateCard = (survey: Survey) => {
     const customerName = survey.answers.contact_info 
@@ -537,7 +722,23 @@ export default function SurveysScreen() {
               <Text style={styles.emptyText}>{searchQuery ? 'No appointments match your search' : 'No appointments yet'}</Text>
             </View>
           ) : (
-            <View style={styles.surveyList}>{appointmentsOnly.map(renderSurveyCard)}</View>
+            <>
+              <View style={styles.surveyActions}>
+                <Pressable onPress={handlePullCalendar} disabled={isPullingCalendar} style={styles.actionButton}>
+                  {isPullingCalendar ? (
+                    <ActivityIndicator size="small" color={LOWES_THEME.primary} />
+                  ) : (
+                    <MaterialIcons name="sync" size={18} color={LOWES_THEME.primary} />
+                  )}
+                  <Text style={styles.actionButtonText}>Pull Calendar Updates</Text>
+                </Pressable>
+                <Pressable onPress={handleCalendarFeeds} style={styles.actionButton}>
+                  <MaterialIcons name="calendar-month" size={18} color={LOWES_THEME.primary} />
+                  <Text style={styles.actionButtonText}>Calendar Feeds</Text>
+                </Pressable>
+              </View>
+              <View style={styles.surveyList}>{appointmentsOnly.map(renderSurveyCard)}</View>
+            </>
           )
         ) : activeTab === 'renters' ? (
           rentersOnly.length === 0 ? (
@@ -604,7 +805,7 @@ export default function SurveysScreen() {
                       label="Phone"
                       value={editingSurvey.answers.contact_info?.phone || ''}
                       onChangeText={(text) => {
-                        const formatted = formatPhoneNumber(text);
+                        const formatted = formatPhoneAsYouType(text);
                         setEditingSurvey({
                           ...editingSurvey,
                           answers: {
@@ -744,6 +945,10 @@ const styles = StyleSheet.create({
   contactRow: { flexDirection: 'row', alignItems: 'center', gap: SPACING.xs },
   categoryBadge: { paddingHorizontal: SPACING.md, paddingVertical: SPACING.xs, borderRadius: 12 },
   categoryText: { color: '#FFFFFF', fontSize: FONTS.sizes.xs, fontWeight: '600', textTransform: 'uppercase' },
+  appointmentStatusBadge: { paddingHorizontal: SPACING.sm, paddingVertical: 2, borderRadius: 8, marginLeft: SPACING.xs },
+  messagingRow: { flexDirection: 'row', flexWrap: 'wrap', gap: SPACING.xs, marginTop: SPACING.xs },
+  messagingText: { fontSize: FONTS.sizes.xs, color: LOWES_THEME.textSubtle },
+  appointmentStatusText: { color: '#FFFFFF', fontSize: FONTS.sizes.xs, fontWeight: '600', textTransform: 'uppercase' },
   surveyPhone: { fontSize: FONTS.sizes.md, color: LOWES_THEME.text, fontWeight: '500' },
   surveyDate: { fontSize: FONTS.sizes.sm, color: LOWES_THEME.textSubtle },
   syncStatusSection: { marginTop: SPACING.md, gap: SPACING.xs, paddingTop: SPACING.sm, borderTopWidth: 1, borderTopColor: LOWES_THEME.border },
@@ -2,14 +2,19 @@
 import React, { useState } from 'react';
 import { View, Text, StyleSheet, ScrollView, Pressable, ActivityIndicator, RefreshControl, Modal } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useApp } from '@/hooks/useApp';
 import { useAlert } from '@/template';
 import * as StorageService from '@/services/storageService';
 import * as SyncService from '@/services/syncService';
+import * as OutboxService from '@/services/outboxService';
+import * as ConflictService from '@/services/conflictService';
+import * as BackgroundSyncService from '@/services/backgroundSyncService';
 import { Button } from '@/components/ui/Button';
+import { useSendDiagnostics } from '@/hooks/useSendDiagnostics';
 import { SPACING, FONTS, LOWES_THEME } from '@/constants/theme';
-import { Survey } from '@/types';
+import { Survey, OutboxItem, RecordConflict } from '@/types';
 
 interface SyncLogItem {
   type: 'survey' | 'appointment';
@@ -27,22 +32,47 @@ interface SyncLog {
   duplicates: number;
   queueSize: number;
   items?: SyncLogItem[];
+  replay?: boolean; // Manual replay from the failed-sync triage console
 }
 
 interface FailedSyncItem {
+  id: string;
   type: string;
+  typeLabel: string;
   data: any;
   timestamp: string;
   failedAt: string;
   error: string;
 }
 
+// Dead-lettered outbox items in the shape the cards/modal render
+const toFailedSyncItem = (item: OutboxItem): FailedSyncItem => ({
+  id: item.id,
+  type: item.type,
+  typeLabel: OutboxService.OUTBOX_TYPE_LABELS[item.type],
+  data: item.payload?.survey || item.payload?.timeEntry || { id: item.entityId, name: item.label },
+  timestamp: item.createdAt,
+  failedAt: item.deadAt || item.createdAt,
+  error: item.lastError || 'Unknown error',
+});
+
+// Conflict values are raw database values - keep previews to one short line
+const formatConflictValue = (value: any): string => {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+};
+
 export default function SyncDashboardScreen() {
+  const router = useRouter();
   const { isOnline } = useApp();
   const { showAlert } = useAlert();
   const [syncLogs, setSyncLogs] = useState<SyncLog[]>([]);
   const [failedItems, setFailedItems] = useState<FailedSyncItem[]>([]);
+  const [conflicts, setConflicts] = useState<RecordConflict[]>([]);
   const [queueSize, setQueueSize] = useState(0);
+  const [backgroundStatus, setBackgroundStatus] = useState<BackgroundSyncService.BackgroundSyncStatus | null>(null);
+  const [syncRuns, setSyncRuns] = useState<BackgroundSyncService.SyncRun[]>([]);
   const [isSyncing, setIsSyncing] = useState(false);
   const [testingConnections, setTestingConnections] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState({
@@ -56,6 +86,7 @@ export default function SyncDashboardScreen() {
   const [creatingTestSurvey, setCreatingTestSurvey] = useState(false);
   const [selectedFailedItem, setSelectedFailedItem] = useState<FailedSyncItem | null>(null);
   const [showFailedItemModal, setShowFailedItemModal] = useState(false);
+  const { sending: sendingDiagnostics, sendDiagnostics } = useSendDiagnostics();
 
   React.useEffect(() => {
     loadSyncData();
@@ -65,11 +96,27 @@ export default function SyncDashboardScreen() {
     const logs = await StorageService.getSyncLogs();
     setSyncLogs(logs || []);
     
-    const failed = await StorageService.getFailedSyncItems();
-    setFailedItems(failed || []);
-    
-    const queue = await StorageService.getSyncQueue();
-    setQueueSize(queue?.length || 0);
+    const outbox = await OutboxService.getOutboxItems();
+    setFailedItems(outbox.filter(item => item.status === 'dead').map(toFailedSyncItem));
+    setQueueSize(outbox.filter(item => item.status !== 'dead').length);
+
+    setConflicts(await ConflictService.getConflictLog(50));
+
+    setBackgroundStatus(await BackgroundSyncService.getBackgroundSyncStatus());
+    setSyncRuns(await BackgroundSyncService.getSyncRuns());
+  };
+
+  const showConflictDetails = (conflict: RecordConflict) => {
+    showAlert(
+      `${ConflictService.RECORD_TYPE_LABELS[conflict.recordType]} ${conflict.recordId}`,
+      `Field: ${conflict.field}\n` +
+        `Detected: ${new Date(conflict.detectedAt).toLocaleString()}\n` +
+        `Device: ${conflict.deviceId}${conflict.employeeId ? ` (employee ${conflict.employeeId})` : ''}\n` +
+        `Version: ${conflict.baseVersion ?? '?'} → ${conflict.remoteVersion}\n\n` +
+        `Kept (this edit):\n${JSON.stringify(conflict.localValue, null, 2)}\n\n` +
+        `Overwritten (other device):\n${JSON.stringify(conflict.remoteValue, null, 2)}\n\n` +
+        `Before both edits:\n${JSON.stringify(conflict.baseValue, null, 2)}`
+    );
   };
 
   const handleRefresh = async () => {
@@ -147,13 +194,13 @@ export default function SyncDashboardScreen() {
   };
 
   const clearFailedItems = async () => {
-    showAlert('Clear Failed Items', 'This will permanently remove all failed sync records. Continue?', [
+    showAlert('Clear Failed Items', 'This will permanently discard all failed sync items - they will not be sent. Continue?', [
       { text: 'Cancel', style: 'cancel' },
       {
         text: 'Clear',
         style: 'destructive',
         onPress: async () => {
-          await StorageService.clearFailedSyncItems();
+          await OutboxService.discardDeadOutboxItems();
           await loadSyncData();
           showAlert('Cleared', 'Failed sync items cleared');
         },
@@ -161,6 +208,16 @@ export default function SyncDashboardScreen() {
     ]);
   };
 
+  const retryFailedItems = async () => {
+    const count = await OutboxService.retryDeadOutboxItems();
+    await loadSyncData();
+    if (isOnline) {
+      await handleManualSync();
+    } else {
+      showAlert('Queued', `${count} items will retry when back online`);
+    }
+  };
+
   const createTestSurvey = async () => {
     if (!isOnline) {
       showAlert('Offline', 'Need internet connection to test sync. Connect and try again.');
@@ -214,20 +271,12 @@ export default function SyncDashboardScreen() {
       console.log('   Homeowner:', testSurvey.answers.is_homeowner);
 
       // Save survey
-      const existingSurveys = await StorageService.getSurveys() || [];
-      existingSurveys.unshift(testSurvey);
-      await StorageService.saveSurveys(existingSurveys);
+      await StorageService.addSurvey(testSurvey);
       console.log('✓ Survey saved to storage');
 
-      // Add to sync queue
-      const queue = await StorageService.getSyncQueue() || [];
-      queue.push({
-        type: 'survey',
-        data: testSurvey,
-        timestamp: new Date().toISOString(),
-      });
-      await StorageService.saveData('sync_queue', queue);
-      console.log('✓ Survey added to sync queue');
+      // Add to outbox
+      await SyncService.enqueueSurveySync(testSurvey);
+      console.log('✓ Survey added to outbox');
 
       // Trigger immediate sync
       console.log('🔄 Triggering sync...');
@@ -363,6 +412,20 @@ export default function SyncDashboardScreen() {
             />
           </View>
 
+          <View style={styles.diagnosticsRow}>
+            <Button
+              title={sendingDiagnostics ? 'Collecting...' : 'Send Diagnostics'}
+              onPress={() => sendDiagnostics(`Sync dashboard: ${failedItems.length} failed, ${queueSize} queued`)}
+              variant="outline"
+              disabled={sendingDiagnostics}
+              icon={sendingDiagnostics ? undefined : 'bug-report'}
+              fullWidth
+            />
+            <Text style={styles.diagnosticsHint}>
+              Uploads logs, the sync queue and storage health for support. Customer details are removed first.
+            </Text>
+          </View>
+
           {/* Test Survey Button */}
           <View style={styles.testSurveySection}>
             <View style={styles.testSurveyHeader}>
@@ -389,6 +452,52 @@ export default function SyncDashboardScreen() {
           )}
         </View>
 
+        {/* Background Sync */}
+        {backgroundStatus && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Background Sync</Text>
+            <View style={styles.backgroundStatusRow}>
+              <MaterialIcons
+                name={backgroundStatus.available && backgroundStatus.registered ? 'check-circle' : 'warning'}
+                size={20}
+                color={backgroundStatus.available && backgroundStatus.registered ? LOWES_THEME.success : LOWES_THEME.warning}
+              />
+              <Text style={styles.backgroundStatusText}>
+                {!backgroundStatus.available
+                  ? 'Background tasks are restricted on this device - syncing only while the app is open'
+                  : backgroundStatus.registered
+                    ? 'Syncing every ~15 min while the app is closed'
+                    : 'Background task not registered - restart the app'}
+              </Text>
+            </View>
+            <Text style={styles.conflictHint}>
+              Last OS wake: {backgroundStatus.lastBackgroundRunAt
+                ? new Date(backgroundStatus.lastBackgroundRunAt).toLocaleString()
+                : 'None recorded'}
+            </Text>
+
+            {syncRuns.length > 0 && (
+              <View style={styles.logList}>
+                {syncRuns.slice(0, 10).map(run => (
+                  <View key={run.id} style={styles.logCard}>
+                    <View style={styles.logHeader}>
+                      <Text style={styles.logDetailName}>{BackgroundSyncService.SYNC_TRIGGER_LABELS[run.trigger]}</Text>
+                      <Text style={styles.logTime}>{new Date(run.startedAt).toLocaleString()}</Text>
+                    </View>
+                    <Text style={run.error ? styles.conflictLost : styles.conflictHint}>
+                      {run.error
+                        ? run.error
+                        : `${run.synced} synced, ${run.failed} failed, ${run.remaining} left`}
+                      {' • '}
+                      {((new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) / 1000).toFixed(1)}s
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
+          </View>
+        )}
+
         {/* Connection Status */}
         {(connectionStatus.salesforce !== null || connectionStatus.zapier !== null || connectionStatus.adp !== null || connectionStatus.twilio !== null || connectionStatus.sendgrid !== null) && (
           <View style={styles.section}>
@@ -506,7 +615,7 @@ export default function SyncDashboardScreen() {
                 <View key={index} style={styles.logCard}>
                   <View style={styles.logHeader}>
                     <Text style={styles.logTime}>
-                      {new Date(log.timestamp).toLocaleString()}
+                      {new Date(log.timestamp).toLocaleString()}{log.replay ? ' • Replay' : ''}
                     </Text>
                     {log.queueSize > 0 && (
                       <View style={styles.queueBadge}>
@@ -590,14 +699,22 @@ export default function SyncDashboardScreen() {
           <View style={styles.section}>
             <View style={styles.sectionHeader}>
               <Text style={styles.sectionTitle}>Failed Syncs ({failedItems.length})</Text>
-              <Pressable onPress={clearFailedItems}>
-                <Text style={styles.clearButton}>Clear All</Text>
-              </Pressable>
+              <View style={styles.sectionActions}>
+                <Pressable onPress={() => router.push('/(admin)/sync-triage')}>
+                  <Text style={styles.retryButton}>Triage</Text>
+                </Pressable>
+                <Pressable onPress={retryFailedItems}>
+                  <Text style={styles.retryButton}>Retry All</Text>
+                </Pressable>
+                <Pressable onPress={clearFailedItems}>
+                  <Text style={styles.clearButton}>Clear All</Text>
+                </Pressable>
+              </View>
             </View>
             <View style={styles.failedList}>
-              {failedItems.slice(0, 5).map((item, index) => (
+              {failedItems.slice(0, 5).map((item) => (
                 <Pressable
-                  key={index}
+                  key={item.id}
                   style={styles.failedCard}
                   onPress={() => {
                     setSelectedFailedItem(item);
@@ -606,7 +723,7 @@ export default function SyncDashboardScreen() {
                 >
                   <View style={styles.failedHeader}>
                     <MaterialIcons name="error" size={20} color={LOWES_THEME.error} />
-                    <Text style={styles.failedType}>{item.type.toUpperCase()}</Text>
+                    <Text style={styles.failedType}>{item.typeLabel.toUpperCase()}</Text>
                     <Text style={styles.failedTime}>
                       {new Date(item.failedAt).toLocaleString()}
                     </Text>
@@ -620,6 +737,11 @@ export default function SyncDashboardScreen() {
                       </Text>
                     </View>
                   )}
+                  {item.type !== 'survey' && item.data?.name && (
+                    <View style={styles.surveyPreview}>
+                      <Text style={styles.surveyPreviewText}>{item.data.name}</Text>
+                    </View>
+                  )}
                   
                   {/* Error Message */}
                   <View style={styles.errorBox}>
@@ -639,15 +761,43 @@ export default function SyncDashboardScreen() {
           </View>
         )}
 
+        {/* Edit Conflicts */}
+        {conflicts.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Edit Conflicts ({conflicts.length})</Text>
+            <Text style={styles.conflictHint}>
+              The same field was changed on two devices. The last save was kept - tap to see the value it replaced.
+            </Text>
+            <View style={styles.logList}>
+              {conflicts.slice(0, 10).map(conflict => (
+                <Pressable key={conflict.id} style={styles.logCard} onPress={() => showConflictDetails(conflict)}>
+                  <View style={styles.logHeader}>
+                    <Text style={styles.logDetailName} numberOfLines={1}>
+                      {ConflictService.RECORD_TYPE_LABELS[conflict.recordType]} • {conflict.field}
+                    </Text>
+                    <Text style={styles.logTime}>{new Date(conflict.detectedAt).toLocaleString()}</Text>
+                  </View>
+                  <Text style={styles.conflictKept} numberOfLines={1}>
+                    Kept: {formatConflictValue(conflict.localValue)}
+                  </Text>
+                  <Text style={styles.conflictLost} numberOfLines={1}>
+                    Replaced: {formatConflictValue(conflict.remoteValue)}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+          </View>
+        )}
+
         {/* Info Box */}
         <View style={styles.infoBox}>
           <MaterialIcons name="info" size={24} color={LOWES_THEME.primary} />
           <View style={styles.infoContent}>
             <Text style={styles.infoTitle}>Background Sync Active</Text>
             <Text style={styles.infoText}>
-              • Auto-sync runs every 5 minutes when online{'\n'}
+              • Auto-sync runs every 5 minutes while open, when the connection returns, and about every 15 minutes in the background{'\n'}
               • Surveys sync immediately after completion{'\n'}
-              • Failed items retry up to 3 times{'\n'}
+              • Failed items retry with increasing delays, then move to Failed Syncs{'\n'}
               • All data is safe in local storage
             </Text>
           </View>
@@ -690,7 +840,7 @@ export default function SyncDashboardScreen() {
                     <View style={styles.detailsInfoBox}>
                       <View style={styles.detailsRow}>
                         <Text style={styles.detailsLabel}>Type:</Text>
-                        <Text style={styles.detailsValue}>{selectedFailedItem.type.toUpperCase()}</Text>
+                        <Text style={styles.detailsValue}>{selectedFailedItem.typeLabel.toUpperCase()}</Text>
                       </View>
                       <View style={styles.detailsRow}>
                         <Text style={styles.detailsLabel}>Failed At:</Text>
@@ -923,6 +1073,15 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: LOWES_THEME.text,
   },
+  sectionActions: {
+    flexDirection: 'row',
+    gap: SPACING.md,
+  },
+  retryButton: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: '600',
+    color: LOWES_THEME.primary,
+  },
   clearButton: {
     fontSize: FONTS.sizes.sm,
     fontWeight: '600',
@@ -932,6 +1091,14 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: SPACING.md,
   },
+  diagnosticsRow: {
+    marginTop: SPACING.md,
+    gap: SPACING.xs,
+  },
+  diagnosticsHint: {
+    fontSize: FONTS.sizes.xs,
+    color: LOWES_THEME.textSubtle,
+  },
   testSurveySection: {
     marginTop: SPACING.lg,
     padding: SPACING.lg,
@@ -999,6 +1166,29 @@ const styles = StyleSheet.create({
   logList: {
     gap: SPACING.sm,
   },
+  backgroundStatusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    marginBottom: SPACING.xs,
+  },
+  backgroundStatusText: {
+    flex: 1,
+    fontSize: FONTS.sizes.sm,
+    color: LOWES_THEME.text,
+  },
+  conflictHint: {
+    fontSize: FONTS.sizes.sm,
+    color: LOWES_THEME.textSubtle,
+  },
+  conflictKept: {
+    fontSize: FONTS.sizes.sm,
+    color: LOWES_THEME.text,
+  },
+  conflictLost: {
+    fontSize: FONTS.sizes.sm,
+    color: LOWES_THEME.warning,
+  },
   logCard: {
     backgroundColor: LOWES_THEME.surface,
     padding: SPACING.md,
@@ -0,0 +1,527 @@
+// Failed-sync triage - dead-lettered items grouped by cause, field fixes and replay
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, Pressable, ActivityIndicator, RefreshControl, Modal } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useAlert } from '@/template';
+import { useApp } from '@/hooks/useApp';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { SPACING, FONTS, LOWES_THEME } from '@/constants/theme';
+import { formatFullDateTime } from '@/utils/timeFormat';
+import { OutboxItem } from '@/types';
+import * as OutboxService from '@/services/outboxService';
+import * as StorageService from '@/services/storageService';
+import * as SyncService from '@/services/syncService';
+import {
+  EditableSurveyField,
+  FAILURE_CATEGORY_HINTS,
+  FAILURE_CATEGORY_LABELS,
+  FailedSyncGroup,
+  fixSurveyFields,
+  getEditableSurveyFields,
+  getFailedSyncGroups,
+  isSurveyItem,
+} from '@/services/syncTriageService';
+
+interface FixTarget {
+  item: OutboxItem;
+  fields: EditableSurveyField[];
+  values: Record<string, string>;
+}
+
+export default function SyncTriageScreen() {
+  const router = useRouter();
+  const { showAlert } = useAlert();
+  const { isOnline } = useApp();
+  const [groups, setGroups] = useState<FailedSyncGroup[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [replaying, setReplaying] = useState(false);
+  const [fixTarget, setFixTarget] = useState<FixTarget | null>(null);
+  const [savingFix, setSavingFix] = useState(false);
+
+  const loadGroups = async () => {
+    setGroups(await getFailedSyncGroups());
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadGroups();
+  }, []);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadGroups();
+    setRefreshing(false);
+  };
+
+  const replay = async (items: OutboxItem[]) => {
+    if (!isOnline) {
+      showAlert('Offline', 'Connect to the internet to replay failed items.');
+      return;
+    }
+
+    setReplaying(true);
+    try {
+      const result = await SyncService.replayOutboxItems(items.map(i => i.id));
+      await loadGroups();
+      showAlert(
+        result.failed === 0 ? 'Replay Complete ✓' : '⚠️ Replay Finished With Errors',
+        `Synced: ${result.synced}\nFailed: ${result.failed}\nDuplicates: ${result.duplicates}` +
+          (result.failed > 0 ? '\n\nItems that failed again are back in this list with their new error.' : '')
+      );
+    } catch (error) {
+      showAlert('Replay Error', error instanceof Error ? error.message : String(error));
+    } finally {
+      setReplaying(false);
+    }
+  };
+
+  const discard = (items: OutboxItem[]) => {
+    showAlert(
+      'Discard Items',
+      `Permanently discard ${items.length} failed item(s)? They will not be sent.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: async () => {
+            for (const item of items) {
+              await OutboxService.discardDeadOutboxItems(item.id);
+            }
+            await loadGroups();
+          },
+        },
+      ]
+    );
+  };
+
+  const openFix = async (item: OutboxItem, group: FailedSyncGroup) => {
+    try {
+      const survey = await StorageService.getSurveyById(item.entityId);
+      if (!survey) {
+        showAlert('Survey Not Found', 'This survey no longer exists on the device or in the cloud. Discard the item instead.');
+        return;
+      }
+      const fields = await getEditableSurveyFields(survey, group.fields);
+      setFixTarget({
+        item,
+        fields,
+        values: Object.fromEntries(fields.map(f => [f.path, f.value])),
+      });
+    } catch (error) {
+      showAlert('Error', `Could not load the survey: ${error}`);
+    }
+  };
+
+  const saveFix = async (replayAfter: boolean) => {
+    if (!fixTarget) return;
+
+    const changed = Object.fromEntries(
+      fixTarget.fields
+        .filter(f => (fixTarget.values[f.path] ?? '') !== f.value)
+        .map(f => [f.path, fixTarget.values[f.path] ?? ''])
+    );
+
+    setSavingFix(true);
+    try {
+      if (Object.keys(changed).length > 0) {
+        const conflicts = await fixSurveyFields(fixTarget.item.entityId, changed);
+        if (conflicts.length > 0) {
+          showAlert(
+            'Edited Elsewhere',
+            `${conflicts.map(c => c.field).join(', ')} also changed on another device. Your correction was kept - see Edit Conflicts on the Sync Dashboard.`
+          );
+        }
+      }
+      const item = fixTarget.item;
+      setFixTarget(null);
+      if (replayAfter) {
+        await replay([item]);
+      }
+    } catch (error) {
+      showAlert('Save Failed', error instanceof Error ? error.message : String(error));
+    } finally {
+      setSavingFix(false);
+    }
+  };
+
+  const totalItems = groups.reduce((sum, g) => sum + g.items.length, 0);
+  const allItems = groups.flatMap(g => g.items);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.backButton}>
+          <MaterialIcons name="arrow-back" size={24} color="#FFFFFF" />
+        </Pressable>
+        <Text style={styles.headerTitle}>Failed Sync Triage</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
+        <View style={styles.summaryRow}>
+          <View style={styles.summaryCard}>
+            <Text style={[styles.summaryValue, totalItems > 0 && { color: LOWES_THEME.error }]}>{totalItems}</Text>
+            <Text style={styles.summaryLabel}>Failed Items</Text>
+          </View>
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryValue}>{groups.length}</Text>
+            <Text style={styles.summaryLabel}>Distinct Causes</Text>
+          </View>
+        </View>
+
+        {totalItems > 0 && (
+          <Button
+            title={replaying ? 'Replaying...' : `Replay All (${totalItems})`}
+            onPress={() => replay(allItems)}
+            backgroundColor={LOWES_THEME.primary}
+            disabled={!isOnline || replaying}
+            icon={replaying ? undefined : 'replay'}
+            fullWidth
+          />
+        )}
+
+        {isLoading ? (
+          <ActivityIndicator color={LOWES_THEME.primary} />
+        ) : groups.length === 0 ? (
+          <View style={styles.emptyState}>
+            <MaterialIcons name="check-circle" size={64} color={LOWES_THEME.success} />
+            <Text style={styles.emptyText}>No failed syncs</Text>
+            <Text style={styles.emptySubtext}>Items that fail every retry show up here, grouped by cause</Text>
+          </View>
+        ) : (
+          groups.map(group => {
+            const isExpanded = expanded === group.signature;
+            return (
+              <View key={group.signature} style={styles.groupCard}>
+                <Pressable onPress={() => setExpanded(isExpanded ? null : group.signature)}>
+                  <View style={styles.groupHeader}>
+                    <View style={styles.categoryBadge}>
+                      <Text style={styles.categoryBadgeText}>{FAILURE_CATEGORY_LABELS[group.category]}</Text>
+                    </View>
+                    <Text style={styles.groupCount}>{group.items.length} item(s)</Text>
+                    <MaterialIcons
+                      name={isExpanded ? 'expand-less' : 'expand-more'}
+                      size={20}
+                      color={LOWES_THEME.textSubtle}
+                    />
+                  </View>
+                  <Text style={styles.groupDetail} numberOfLines={isExpanded ? undefined : 2}>{group.detail}</Text>
+                  {group.fields.length > 0 && (
+                    <Text style={styles.groupFields}>Fields: {group.fields.join(', ')}</Text>
+                  )}
+                  <Text style={styles.groupHint}>{FAILURE_CATEGORY_HINTS[group.category]}</Text>
+                </Pressable>
+
+                <View style={styles.actionRow}>
+                  <Pressable
+                    style={[styles.actionButton, (replaying || !isOnline) && styles.actionDisabled]}
+                    onPress={() => replay(group.items)}
+                    disabled={replaying || !isOnline}
+                  >
+                    <MaterialIcons name="replay" size={16} color={LOWES_THEME.primary} />
+                    <Text style={styles.actionText}>Replay Group</Text>
+                  </Pressable>
+                  <Pressable style={[styles.actionButton, styles.dangerButton]} onPress={() => discard(group.items)}>
+                    <MaterialIcons name="delete" size={16} color={LOWES_THEME.error} />
+                    <Text style={[styles.actionText, { color: LOWES_THEME.error }]}>Discard Group</Text>
+                  </Pressable>
+                </View>
+
+                {isExpanded && group.items.map(item => (
+                  <View key={item.id} style={styles.itemRow}>
+                    <View style={styles.itemInfo}>
+                      <Text style={styles.itemLabel} numberOfLines={1}>
+                        {OutboxService.OUTBOX_TYPE_LABELS[item.type]} • {item.label || item.entityId}
+                      </Text>
+                      <Text style={styles.itemMeta}>
+                        Failed {formatFullDateTime(item.deadAt || item.createdAt)} after {item.attempts} attempt(s)
+                      </Text>
+                      <Text style={styles.itemError} numberOfLines={3}>{item.lastError || 'Unknown error'}</Text>
+                    </View>
+                    <View style={styles.itemActions}>
+                      {isSurveyItem(item) && (
+                        <Pressable style={styles.iconButton} onPress={() => openFix(item, group)}>
+                          <MaterialIcons name="edit" size={20} color={LOWES_THEME.primary} />
+                        </Pressable>
+                      )}
+                      <Pressable
+                        style={styles.iconButton}
+                        onPress={() => replay([item])}
+                        disabled={replaying || !isOnline}
+                      >
+                        <MaterialIcons name="replay" size={20} color={replaying || !isOnline ? LOWES_THEME.textSubtle : LOWES_THEME.primary} />
+                      </Pressable>
+                      <Pressable style={styles.iconButton} onPress={() => discard([item])}>
+                        <MaterialIcons name="delete" size={20} color={LOWES_THEME.error} />
+                      </Pressable>
+                    </View>
+                  </View>
+                ))}
+              </View>
+            );
+          })
+        )}
+      </ScrollView>
+
+      <Modal visible={!!fixTarget} transparent animationType="slide" onRequestClose={() => setFixTarget(null)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Fix Survey</Text>
+              <Pressable onPress={() => setFixTarget(null)}>
+                <MaterialIcons name="close" size={24} color={LOWES_THEME.text} />
+              </Pressable>
+            </View>
+            {fixTarget && (
+              <ScrollView contentContainerStyle={styles.modalBody}>
+                <Text style={styles.itemError}>{fixTarget.item.lastError}</Text>
+                {fixTarget.fields.map(field => (
+                  <Input
+                    key={field.path}
+                    label={field.label}
+                    value={fixTarget.values[field.path] ?? ''}
+                    onChangeText={text => setFixTarget({
+                      ...fixTarget,
+                      values: { ...fixTarget.values, [field.path]: text },
+                    })}
+                  />
+                ))}
+                <View style={styles.modalActions}>
+                  <Button
+                    title="Save"
+                    onPress={() => saveFix(false)}
+                    variant="outline"
+                    disabled={savingFix}
+                  />
+                  <Button
+                    title={savingFix ? 'Saving...' : 'Save & Replay'}
+                    onPress={() => saveFix(true)}
+                    backgroundColor={LOWES_THEME.primary}
+                    disabled={savingFix || !isOnline}
+                    icon={savingFix ? undefined : 'replay'}
+                  />
+                </View>
+              </ScrollView>
+            )}
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: LOWES_THEME.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.md,
+    backgroundColor: LOWES_THEME.primary,
+  },
+  backButton: {
+    padding: SPACING.sm,
+  },
+  headerTitle: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    flex: 1,
+    textAlign: 'center',
+  },
+  content: {
+    padding: SPACING.lg,
+    gap: SPACING.md,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    gap: SPACING.md,
+  },
+  summaryCard: {
+    flex: 1,
+    backgroundColor: LOWES_THEME.surface,
+    borderRadius: 12,
+    padding: SPACING.md,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: LOWES_THEME.border,
+  },
+  summaryValue: {
+    fontSize: FONTS.sizes.xl,
+    fontWeight: '700',
+    color: LOWES_THEME.text,
+  },
+  summaryLabel: {
+    fontSize: FONTS.sizes.xs,
+    color: LOWES_THEME.textSubtle,
+    marginTop: 2,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: SPACING.xl,
+    gap: SPACING.md,
+  },
+  emptyText: {
+    fontSize: FONTS.sizes.md,
+    color: LOWES_THEME.textSubtle,
+  },
+  emptySubtext: {
+    fontSize: FONTS.sizes.sm,
+    color: LOWES_THEME.textSubtle,
+    textAlign: 'center',
+  },
+  groupCard: {
+    backgroundColor: LOWES_THEME.surface,
+    borderRadius: 12,
+    padding: SPACING.md,
+    gap: 4,
+    borderWidth: 1,
+    borderColor: LOWES_THEME.border,
+    borderLeftWidth: 4,
+    borderLeftColor: LOWES_THEME.error,
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    marginBottom: SPACING.xs,
+  },
+  categoryBadge: {
+    backgroundColor: '#FFEBEE',
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  categoryBadgeText: {
+    fontSize: FONTS.sizes.xs,
+    fontWeight: '700',
+    color: LOWES_THEME.error,
+  },
+  groupCount: {
+    flex: 1,
+    fontSize: FONTS.sizes.sm,
+    fontWeight: '600',
+    color: LOWES_THEME.text,
+  },
+  groupDetail: {
+    fontSize: FONTS.sizes.sm,
+    color: LOWES_THEME.text,
+  },
+  groupFields: {
+    fontSize: FONTS.sizes.xs,
+    fontWeight: '600',
+    color: LOWES_THEME.text,
+  },
+  groupHint: {
+    fontSize: FONTS.sizes.xs,
+    color: LOWES_THEME.textSubtle,
+    marginTop: 2,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+    marginTop: SPACING.sm,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: SPACING.xs,
+    paddingHorizontal: SPACING.sm,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: LOWES_THEME.primary,
+  },
+  actionDisabled: {
+    opacity: 0.5,
+  },
+  dangerButton: {
+    borderColor: LOWES_THEME.error,
+  },
+  actionText: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: '600',
+    color: LOWES_THEME.primary,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    paddingTop: SPACING.sm,
+    marginTop: SPACING.sm,
+    borderTopWidth: 1,
+    borderTopColor: LOWES_THEME.border,
+  },
+  itemInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  itemLabel: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: '600',
+    color: LOWES_THEME.text,
+  },
+  itemMeta: {
+    fontSize: FONTS.sizes.xs,
+    color: LOWES_THEME.textSubtle,
+  },
+  itemError: {
+    fontSize: FONTS.sizes.xs,
+    color: LOWES_THEME.error,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  iconButton: {
+    padding: SPACING.xs,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: LOWES_THEME.surface,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    maxHeight: '85%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: SPACING.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: LOWES_THEME.border,
+  },
+  modalTitle: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: '700',
+    color: LOWES_THEME.text,
+  },
+  modalBody: {
+    padding: SPACING.lg,
+    gap: SPACING.md,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: SPACING.md,
+    marginTop: SPACING.sm,
+  },
+});
@@ -2,22 +2,26 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { View, Text, StyleSheet, ScrollView, Pressable } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useApp } from '@/hooks/useApp';
 import { DatePicker } from '@/components/ui/DatePicker';
 import { Button } from '@/components/ui/Button';
 import { SPACING, FONTS, LOWES_THEME } from '@/constants/theme';
-import { TimeEntry } from '@/types';
+import { LaborRules, TimeEntry } from '@/types';
 import * as StorageService from '@/services/storageService';
 import * as ActivityService from '@/services/activityService';
-import { exportTimeEntriesToCSV, downloadCSV, shareCSV } from '@/utils/exportData';
+import * as LaborRulesService from '@/services/laborRulesService';
+import { exportTimeEntriesToCSV, exportLaborViolationsToCSV, downloadCSV, shareCSV } from '@/utils/exportData';
 import { Platform } from 'react-native';
 import { formatFullDateTime } from '@/utils/timeFormat';
 
 export default function TimeClockExportScreen() {
+  const router = useRouter();
   const { employees } = useApp();
   const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
   const [inactivityLogs, setInactivityLogs] = useState<any[]>([]);
+  const [laborRules, setLaborRules] = useState<LaborRules>(LaborRulesService.DEFAULT_LABOR_RULES);
   const [startDate, setStartDate] = useState<Date | null>(null);
   const [endDate, setEndDate] = useState<Date | null>(null);
   const [selectedEmployee, setSelectedEmployee] = useState<string | null>(null);
@@ -28,12 +32,14 @@ export default function TimeClockExportScreen() {
   }, []);
 
   const loadData = async () => {
-    const [entries, logs] = await Promise.all([
+    const [entries, logs, rules] = await Promise.all([
       StorageService.getTimeEntries(),
       ActivityService.getAllInactivityLogs(),
+      LaborRulesService.getLaborRules(),
     ]);
     setTimeEntries(entries || []);
     setInactivityLogs(logs || []);
+    setLaborRules(rules);
   };
 
   // Filter time entries
@@ -57,6 +63,14 @@ export default function TimeClockExportScreen() {
     });
   }, [timeEntries, startDate, endDate, selectedEmployee]);
 
+  // Evaluated over every shift (rest and weekly overtime span neighbouring shifts), then kept when
+  // any shift involved passes the filters
+  const violations = useMemo(() => {
+    const visibleIds = new Set(filteredEntries.map(entry => entry.id));
+    return LaborRulesService.evaluateTimeEntries(timeEntries, laborRules)
+      .filter(v => v.shiftIds.some(id => visibleIds.has(id)));
+  }, [timeEntries, filteredEntries, laborRules]);
+
   // Calculate stats including inactivity
   const stats = useMemo(() => {
     let totalHours = 0;
@@ -104,6 +118,17 @@ export default function TimeClockExportScreen() {
     }
   };
 
+  const handleExportViolations = () => {
+    const csv = exportLaborViolationsToCSV(violations, employees);
+    const filename = `labor_violations_${new Date().toISOString().split('T')[0]}.csv`;
+
+    if (Platform.OS === 'web') {
+      downloadCSV(csv, filename);
+    } else {
+      shareCSV(csv, filename);
+    }
+  };
+
   const clearFilters = () => {
     setStartDate(null);
     setEndDate(null);
@@ -222,6 +247,65 @@ export default function TimeClockExportScreen() {
             <Text style={styles.statValue}>{stats.totalInactivity}</Text>
             <Text style={styles.statLabel}>Inactivity (hrs)</Text>
           </View>
+
+          <View style={[styles.statCard, { borderLeftColor: '#795548' }]}>
+            <Text style={styles.statValue}>{violations.length}</Text>
+            <Text style={styles.statLabel}>Labor Rule Issues</Text>
+          </View>
+        </View>
+
+        {/* Labor Compliance */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Labor Compliance ({violations.length})</Text>
+            <View style={styles.sectionActions}>
+              <Button
+                title="Rules"
+                onPress={() => router.push('/(admin)/labor-rules' as any)}
+                icon="gavel"
+                variant="outline"
+                size="small"
+              />
+              {violations.length > 0 && (
+                <Button
+                  title="Export"
+                  onPress={handleExportViolations}
+                  icon="download"
+                  variant="outline"
+                  size="small"
+                />
+              )}
+            </View>
+          </View>
+
+          {violations.length === 0 ? (
+            <View style={styles.emptyState}>
+              <MaterialIcons name="verified" size={48} color={LOWES_THEME.success} />
+              <Text style={styles.emptyText}>No overtime or rule violations for selected filters</Text>
+            </View>
+          ) : (
+            <View style={styles.entriesList}>
+              {violations.map(violation => {
+                const employee = employees.find(e => e.id === violation.employeeId);
+                const color = violation.severity === 'violation' ? '#F44336' : '#FF9800';
+                return (
+                  <View key={violation.id} style={[styles.violationCard, { borderLeftColor: color }]}>
+                    <View style={styles.entryHeader}>
+                      <Text style={styles.employeeName}>
+                        {employee ? `${employee.firstName} ${employee.lastName}` : 'Unknown'}
+                      </Text>
+                      <Text style={[styles.violationType, { color }]}>
+                        {LaborRulesService.VIOLATION_LABELS[violation.type]}
+                      </Text>
+                    </View>
+                    <Text style={styles.timeValue}>
+                      {violation.type === 'weekly_overtime' ? `Week of ${violation.date}` : violation.date} - {violation.detail}
+                    </Text>
+                  </View>
+                );
+              })}
+            </View>
+          )}
         </View>
 
         {/* Time Entries List */}
@@ -253,6 +337,11 @@ export default function TimeClockExportScreen() {
                   sum + (log.inactive_duration_minutes || 0), 0
                 );
 
+                // Shift-level rule breaks (overtime is listed under Labor Compliance)
+                const entryViolations = violations.filter(v =>
+                  v.severity === 'violation' && v.shiftIds.includes(entry.id)
+                );
+
                 return (
                   <View key={entry.id} style={styles.entryCard}>
                     <View style={styles.entryHeader}>
@@ -310,6 +399,17 @@ export default function TimeClockExportScreen() {
                       )}
                     </View>
 
+                    {entryViolations.length > 0 && (
+                      <View style={styles.violationBadges}>
+                        {entryViolations.map(v => (
+                          <View key={v.id} style={styles.violationBadge}>
+                            <MaterialIcons name="gavel" size={12} color="#C62828" />
+                            <Text style={styles.violationBadgeText}>{LaborRulesService.VIOLATION_LABELS[v.type]}</Text>
+                          </View>
+                        ))}
+                      </View>
+                    )}
+
                     {/* Inactivity Section */}
                     {totalInactivityMinutes > 0 && (
                       <View style={styles.inactivitySection}>
@@ -408,6 +508,45 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: LOWES_THEME.text,
   },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  sectionActions: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+  },
+  violationCard: {
+    backgroundColor: LOWES_THEME.surface,
+    padding: SPACING.md,
+    borderRadius: 12,
+    borderLeftWidth: 4,
+    gap: SPACING.xs,
+  },
+  violationType: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: '700',
+  },
+  violationBadges: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.xs,
+  },
+  violationBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 2,
+    paddingHorizontal: SPACING.sm,
+    borderRadius: 8,
+    backgroundColor: '#FFEBEE',
+  },
+  violationBadgeText: {
+    fontSize: FONTS.sizes.xs,
+    fontWeight: '600',
+    color: '#C62828',
+  },
   filterRow: {
     flexDirection: 'row',
     gap: SPACING.md,
@@ -0,0 +1,482 @@
+// Time-card corrections - review what employees asked to change on a shift and approve or deny it
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, Pressable, ActivityIndicator, RefreshControl, Modal } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useAlert } from '@/template';
+import { useApp } from '@/hooks/useApp';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { SPACING, FONTS, LOWES_THEME } from '@/constants/theme';
+import { formatFullDateTime } from '@/utils/timeFormat';
+import { TimeCorrectionRequest, TimeEntry } from '@/types';
+import * as StorageService from '@/services/storageService';
+import { approveCorrection, denyCorrection, getCorrectionRequests } from '@/services/timeCorrectionService';
+
+type Filter = 'pending' | 'reviewed';
+
+const hoursBetween = (clockIn: string, clockOut?: string) =>
+  clockOut ? (new Date(clockOut).getTime() - new Date(clockIn).getTime()) / (1000 * 60 * 60) : 0;
+
+export default function TimeCorrectionsScreen() {
+  const router = useRouter();
+  const { showAlert } = useAlert();
+  const { currentUser, employees } = useApp();
+  const [requests, setRequests] = useState<TimeCorrectionRequest[]>([]);
+  const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
+  const [filter, setFilter] = useState<Filter>('pending');
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [reviewTarget, setReviewTarget] = useState<{ request: TimeCorrectionRequest; approve: boolean } | null>(null);
+  const [reviewNote, setReviewNote] = useState('');
+
+  const loadRequests = useCallback(async () => {
+    try {
+      const [loaded, entries] = await Promise.all([getCorrectionRequests(), StorageService.getTimeEntries()]);
+      setRequests(loaded);
+      setTimeEntries(entries);
+    } catch (error) {
+      showAlert('Error', `Failed to load corrections: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showAlert]);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadRequests();
+    setRefreshing(false);
+  };
+
+  const getEmployeeName = (employeeId?: string) => {
+    const employee = employees.find(e => e.id === employeeId);
+    return employee ? `${employee.firstName} ${employee.lastName}` : 'Unknown employee';
+  };
+
+  const openReview = (request: TimeCorrectionRequest, approve: boolean) => {
+    setReviewNote('');
+    setReviewTarget({ request, approve });
+  };
+
+  const saveReview = async () => {
+    if (!reviewTarget) return;
+    const { request, approve } = reviewTarget;
+    setReviewTarget(null);
+    setIsWorking(true);
+    try {
+      const reviewed = approve
+        ? await approveCorrection(request, currentUser!.id, reviewNote)
+        : await denyCorrection(request, currentUser!.id, reviewNote);
+      if (reviewed.adpResync) {
+        showAlert('Correction Approved', 'This shift was already exported - ADP gets the reversal and corrected hours with the next pay-period export.');
+      }
+      await loadRequests();
+    } catch (error) {
+      showAlert(approve ? 'Cannot Approve' : 'Cannot Deny', error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const pending = requests.filter(r => r.status === 'pending');
+  const visible = filter === 'pending' ? pending : requests.filter(r => r.status !== 'pending');
+  const awaitingAdp = requests.filter(r => r.adpResync?.status === 'pending').length;
+
+  const renderRequest = (request: TimeCorrectionRequest) => {
+    const entry = timeEntries.find(e => e.id === request.timeEntryId);
+    const before = hoursBetween(request.original.clockIn, request.original.clockOut);
+    const after = hoursBetween(request.requestedClockIn, request.requestedClockOut);
+    const delta = after - before;
+    const statusColor = request.status === 'approved'
+      ? LOWES_THEME.success
+      : request.status === 'denied'
+        ? LOWES_THEME.error
+        : LOWES_THEME.warning;
+
+    return (
+      <View key={request.id} style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.cardTitle}>{getEmployeeName(request.employeeId)}</Text>
+          <View style={[styles.badge, { backgroundColor: statusColor }]}>
+            <Text style={styles.badgeText}>{request.status.toUpperCase()}</Text>
+          </View>
+        </View>
+        <Text style={styles.detail}>Requested {formatFullDateTime(request.requestedAt)}</Text>
+
+        <View style={styles.timesRow}>
+          <View style={styles.timesColumn}>
+            <Text style={styles.timesLabel}>Recorded</Text>
+            <Text style={styles.timesValue}>{formatFullDateTime(request.original.clockIn)}</Text>
+            <Text style={styles.timesValue}>
+              {request.original.clockOut ? formatFullDateTime(request.original.clockOut) : 'No clock-out'}
+            </Text>
+          </View>
+          <MaterialIcons name="arrow-forward" size={20} color={LOWES_THEME.textSubtle} />
+          <View style={styles.timesColumn}>
+            <Text style={styles.timesLabel}>Requested</Text>
+            <Text style={styles.timesValue}>{formatFullDateTime(request.requestedClockIn)}</Text>
+            <Text style={styles.timesValue}>{formatFullDateTime(request.requestedClockOut)}</Text>
+          </View>
+        </View>
+        <Text style={[styles.delta, { color: delta >= 0 ? LOWES_THEME.success : LOWES_THEME.error }]}>
+          {before.toFixed(2)} → {after.toFixed(2)} hrs ({delta >= 0 ? '+' : ''}{delta.toFixed(2)})
+        </Text>
+        <Text style={styles.reason}>{`"${request.reason}"`}</Text>
+
+        {request.reviewedAt && (
+          <Text style={styles.detail}>
+            {request.status === 'approved' ? 'Approved' : 'Denied'} by {getEmployeeName(request.reviewedBy)}{' '}
+            {formatFullDateTime(request.reviewedAt)}
+            {request.reviewNote ? `: ${request.reviewNote}` : ''}
+          </Text>
+        )}
+        {request.adpResync && (
+          <View style={styles.adpRow}>
+            <MaterialIcons
+              name={request.adpResync.status === 'synced' ? 'cloud-done' : 'cloud-queue'}
+              size={16}
+              color={request.adpResync.status === 'synced' ? LOWES_THEME.success : LOWES_THEME.warning}
+            />
+            <Text style={styles.detail}>
+              {request.adpResync.status === 'synced'
+                ? `Re-synced to ADP ${request.adpResync.syncedAt ? formatFullDateTime(request.adpResync.syncedAt) : ''}`
+                : 'Waiting for the next ADP export'}
+              {` - reverses ${request.adpResync.reversedHours.toFixed(2)} hrs, sends ${request.adpResync.correctedHours.toFixed(2)} hrs`}
+            </Text>
+          </View>
+        )}
+
+        {/* Earlier approved corrections on the same shift */}
+        {entry?.correctionHistory && entry.correctionHistory.filter(c => c.requestId !== request.id).length > 0 && (
+          <View style={styles.history}>
+            <Text style={styles.timesLabel}>Earlier corrections</Text>
+            {entry.correctionHistory
+              .filter(c => c.requestId !== request.id)
+              .map(c => (
+                <Text key={c.requestId} style={styles.detail}>
+                  {formatFullDateTime(c.approvedAt)}: {formatFullDateTime(c.before.clockIn)} -{' '}
+                  {c.before.clockOut ? formatFullDateTime(c.before.clockOut) : 'no clock-out'} →{' '}
+                  {formatFullDateTime(c.after.clockIn)} - {formatFullDateTime(c.after.clockOut)} (
+                  {getEmployeeName(c.approvedBy)})
+                </Text>
+              ))}
+          </View>
+        )}
+
+        {request.status === 'pending' && (
+          <View style={styles.actions}>
+            <Button
+              title="Deny"
+              onPress={() => openReview(request, false)}
+              variant="outline"
+              icon="close"
+              disabled={isWorking}
+            />
+            <Button
+              title="Approve"
+              onPress={() => openReview(request, true)}
+              backgroundColor={LOWES_THEME.success}
+              icon="check"
+              disabled={isWorking}
+            />
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.backButton}>
+          <MaterialIcons name="arrow-back" size={24} color="#FFFFFF" />
+        </Pressable>
+        <Text style={styles.headerTitle}>Time Corrections</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
+        <View style={styles.summaryRow}>
+          <View style={styles.summaryCard}>
+            <Text style={[styles.summaryValue, { color: LOWES_THEME.warning }]}>{pending.length}</Text>
+            <Text style={styles.summaryLabel}>Pending</Text>
+          </View>
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryValue}>{awaitingAdp}</Text>
+            <Text style={styles.summaryLabel}>Awaiting ADP</Text>
+          </View>
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryValue}>{requests.length - pending.length}</Text>
+            <Text style={styles.summaryLabel}>Reviewed</Text>
+          </View>
+        </View>
+
+        <View style={styles.chipRow}>
+          {(['pending', 'reviewed'] as Filter[]).map(option => (
+            <Pressable
+              key={option}
+              style={[styles.chip, filter === option && styles.chipActive]}
+              onPress={() => setFilter(option)}
+            >
+              <Text style={[styles.chipText, filter === option && styles.chipTextActive]}>
+                {option === 'pending' ? 'Pending' : 'Reviewed'}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        {isLoading ? (
+          <ActivityIndicator size="large" color={LOWES_THEME.primary} />
+        ) : visible.length === 0 ? (
+          <View style={styles.emptyState}>
+            <MaterialIcons name="event-available" size={48} color={LOWES_THEME.textSubtle} />
+            <Text style={styles.emptyText}>
+              {filter === 'pending' ? 'No corrections waiting for review' : 'No reviewed corrections yet'}
+            </Text>
+          </View>
+        ) : (
+          visible.map(renderRequest)
+        )}
+      </ScrollView>
+
+      <Modal visible={!!reviewTarget} transparent animationType="slide" onRequestClose={() => setReviewTarget(null)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{reviewTarget?.approve ? 'Approve Correction' : 'Deny Correction'}</Text>
+              <Pressable onPress={() => setReviewTarget(null)}>
+                <MaterialIcons name="close" size={24} color={LOWES_THEME.text} />
+              </Pressable>
+            </View>
+            <ScrollView contentContainerStyle={styles.modalBody}>
+              <Text style={styles.detail}>
+                {reviewTarget?.approve
+                  ? 'The shift is changed to the requested times and the change is kept in its correction history.'
+                  : 'The shift keeps its recorded times. The employee sees your note on the kiosk.'}
+              </Text>
+              <Input
+                label={reviewTarget?.approve ? 'Note (optional)' : 'Reason (optional)'}
+                value={reviewNote}
+                onChangeText={setReviewNote}
+                placeholder="e.g. Confirmed with store manager"
+              />
+              <View style={styles.modalActions}>
+                <Button title="Cancel" onPress={() => setReviewTarget(null)} variant="outline" />
+                <Button
+                  title={reviewTarget?.approve ? 'Approve' : 'Deny'}
+                  onPress={saveReview}
+                  backgroundColor={reviewTarget?.approve ? LOWES_THEME.success : LOWES_THEME.error}
+                />
+              </View>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: LOWES_THEME.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.md,
+    backgroundColor: LOWES_THEME.primary,
+  },
+  backButton: {
+    padding: SPACING.sm,
+  },
+  headerTitle: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    flex: 1,
+    textAlign: 'center',
+  },
+  content: {
+    padding: SPACING.lg,
+    gap: SPACING.md,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+  },
+  summaryCard: {
+    flex: 1,
+    backgroundColor: LOWES_THEME.surface,
+    borderRadius: 12,
+    padding: SPACING.md,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: LOWES_THEME.border,
+  },
+  summaryValue: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: '700',
+    color: LOWES_THEME.text,
+  },
+  summaryLabel: {
+    fontSize: FONTS.sizes.xs,
+    color: LOWES_THEME.textSubtle,
+    marginTop: 2,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+  },
+  chip: {
+    paddingVertical: SPACING.xs,
+    paddingHorizontal: SPACING.md,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: LOWES_THEME.border,
+  },
+  chipActive: {
+    backgroundColor: LOWES_THEME.primary,
+    borderColor: LOWES_THEME.primary,
+  },
+  chipText: {
+    fontSize: FONTS.sizes.sm,
+    color: LOWES_THEME.text,
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  card: {
+    backgroundColor: LOWES_THEME.surface,
+    borderRadius: 12,
+    padding: SPACING.md,
+    gap: SPACING.xs,
+    borderWidth: 1,
+    borderColor: LOWES_THEME.border,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  cardTitle: {
+    fontSize: FONTS.sizes.md,
+    fontWeight: '700',
+    color: LOWES_THEME.text,
+  },
+  badge: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  badgeText: {
+    fontSize: FONTS.sizes.xs,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  detail: {
+    fontSize: FONTS.sizes.xs,
+    color: LOWES_THEME.textSubtle,
+  },
+  timesRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    marginTop: SPACING.xs,
+  },
+  timesColumn: {
+    flex: 1,
+    gap: 2,
+  },
+  timesLabel: {
+    fontSize: FONTS.sizes.xs,
+    fontWeight: '600',
+    color: LOWES_THEME.text,
+  },
+  timesValue: {
+    fontSize: FONTS.sizes.sm,
+    color: LOWES_THEME.text,
+  },
+  delta: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: '600',
+  },
+  reason: {
+    fontSize: FONTS.sizes.sm,
+    fontStyle: 'italic',
+    color: LOWES_THEME.text,
+  },
+  adpRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+  },
+  history: {
+    gap: 2,
+    paddingTop: SPACING.xs,
+    borderTopWidth: 1,
+    borderTopColor: LOWES_THEME.border,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: SPACING.sm,
+    marginTop: SPACING.sm,
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: SPACING.xl,
+    gap: SPACING.sm,
+  },
+  emptyText: {
+    fontSize: FONTS.sizes.md,
+    color: LOWES_THEME.textSubtle,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: LOWES_THEME.surface,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: SPACING.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: LOWES_THEME.border,
+  },
+  modalTitle: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: '700',
+    color: LOWES_THEME.text,
+  },
+  modalBody: {
+    padding: SPACING.lg,
+    gap: SPACING.md,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: SPACING.md,
+    marginTop: SPACING.sm,
+  },
+});
@@ -3,6 +3,7 @@ import { Stack } from 'expo-router';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { AlertProvider } from '@/template';
 import { AppProvider } from '@/contexts/AppContext';
+import { DeviceLockScreen } from '@/components/ui/DeviceLockScreen';
 
 export default function RootLayout() {
   return (
@@ -15,6 +16,7 @@ export default function RootLayout() {
             <Stack.Screen name="kiosk" />
             <Stack.Screen name="(admin)" />
           </Stack>
+          <DeviceLockScreen />
         </AppProvider>
       </SafeAreaProvider>
     </AlertProvider>
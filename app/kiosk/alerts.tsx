@@ -5,6 +5,7 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useApp } from '@/hooks/useApp';
+import { useRealtime } from '@/hooks/useRealtime';
 import { SPACING, FONTS, LOWES_THEME } from '@/constants/theme';
 import { Alert } from '@/types';
 import * as StorageService from '@/services/storageService';
@@ -22,8 +23,13 @@ export default function EmployeeAlertsScreen() {
     loadAlerts();
   }, []);
 
+  // New alerts from managers show up without leaving the screen
+  useRealtime(['alerts'], () => {
+    loadAlerts();
+  });
+
   const loadAlerts = async () => {
-    const allAlerts = await StorageService.getData<Alert[]>('alerts') || [];
+    const allAlerts = await StorageService.getAlerts();
     
     // Filter alerts relevant to current user
     const myAlerts = allAlerts.filter(alert => 
@@ -55,25 +61,13 @@ export default function EmployeeAlertsScreen() {
   };
 
   const handleMarkAsRead = async (alertId: string) => {
-    const allAlerts = await StorageService.getData<Alert[]>('alerts') || [];
-    const alertIndex = allAlerts.findIndex(a => a.id === alertId);
-    
-    if (alertIndex !== -1 && !allAlerts[alertIndex].readBy.includes(currentUser!.id)) {
-      allAlerts[alertIndex].readBy.push(currentUser!.id);
-      await StorageService.saveData('alerts', allAlerts);
-      await loadAlerts();
-    }
+    await StorageService.markAlertAsRead(alertId, currentUser!.id);
+    await loadAlerts();
   };
 
   const handleDismiss = async (alertId: string) => {
-    const allAlerts = await StorageService.getData<Alert[]>('alerts') || [];
-    const alertIndex = allAlerts.findIndex(a => a.id === alertId);
-    
-    if (alertIndex !== -1 && !allAlerts[alertIndex].dismissedBy.includes(currentUser!.id)) {
-      allAlerts[alertIndex].dismissedBy.push(currentUser!.id);
-      await StorageService.saveData('alerts', allAlerts);
-      await loadAlerts();
-    }
+    await StorageService.dismissAlert(alertId, currentUser!.id);
+    await loadAlerts();
   };
 
   const getPriorityColor = (priority: string) => {
@@ -1,5 +1,5 @@
 // Appointment booking screen with week-based calendar + times list
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, Pressable, TextInput } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter, useLocalSearchParams } from 'expo-router';
@@ -11,12 +11,21 @@ import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { SPACING, FONTS, getTheme, isTablet } from '@/constants/theme';
 import { Survey, Appointment } from '@/types';
-import { getAvailableTimes } from '@/constants/surveyQuestions';
+import {
+  AvailabilitySnapshot,
+  getAvailabilitySnapshot,
+  mergeLocalBookings,
+  getDaySlots,
+  getBlackoutReason,
+  getTerritoryForZip,
+  toDateKey,
+} from '@/services/appointmentAvailabilityService';
+import { createBookedAppointment } from '@/services/appointmentCalendarService';
 
 export default function AppointmentScreen() {
   const router = useRouter();
   const params = useLocalSearchParams();
-  const { currentUser, selectedStore, submitSurvey } = useApp();
+  const { currentUser, selectedStore, surveys, submitSurvey } = useApp();
   const { showAlert } = useAlert();
   
   const surveyData: Survey = params.surveyData 
@@ -34,6 +43,24 @@ export default function AppointmentScreen() {
   const [selectedTime, setSelectedTime] = useState('');
   const [notes, setNotes] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [availability, setAvailability] = useState<AvailabilitySnapshot | null>(null);
+
+  const zipCode = surveyData?.answers?.contact_info?.zipCode;
+
+  useEffect(() => {
+    loadAvailability();
+  }, []);
+
+  const loadAvailability = async (forceRefresh = false) => {
+    const snapshot = await getAvailabilitySnapshot(forceRefresh);
+    setAvailability(snapshot);
+    return snapshot;
+  };
+
+  const getSlotsForDate = (date: Date, snapshot: AvailabilitySnapshot | null = availability) => {
+    if (!snapshot) return [];
+    return getDaySlots(snapshot.config, mergeLocalBookings(snapshot, surveys), date, zipCode);
+  };
 
   // Helper to get start of week (Sunday)
   function getStartOfWeek(date: Date): Date {
@@ -71,10 +98,20 @@ export default function AppointmentScreen() {
     setIsSubmitting(true);
 
     try {
+      // Re-check capacity - another kiosk may have taken the last spot while this form was open
+      const latest = await loadAvailability(true);
+      const slot = getSlotsForDate(selectedDate, latest).find(s => s.time === selectedTime);
+      if (!slot || !slot.available) {
+        setSelectedTime('');
+        showAlert('Time No Longer Available', 'That time was just booked. Please choose another time.');
+        return;
+      }
+
       const appointment: Appointment = {
         address,
-        date: selectedDate.toISOString().split('T')[0],
+        date: toDateKey(selectedDate),
         time: selectedTime,
+        territoryId: slot.territoryId,
         notes,
         email,
         spouseName: spouseName.trim() || undefined,
@@ -83,7 +120,7 @@ export default function AppointmentScreen() {
       const completeSurvey: Survey = {
         ...surveyData,
         category: 'appointment',
-        appointment,
+        appointment: createBookedAppointment(appointment),
       };
 
       await submitSurvey(completeSurvey);
@@ -160,7 +197,13 @@ export default function AppointmentScreen() {
   const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
   const weekDays = getWeekDays(currentWeekStart);
-  const availableTimes = selectedDate ? getAvailableTimes(selectedDate) : [];
+  const availableTimes = selectedDate
+    ? getSlotsForDate(selectedDate).filter(slot => slot.available).map(slot => slot.time)
+    : [];
+  const blackoutReason = selectedDate && availability
+    ? getBlackoutReason(availability.config, selectedDate, zipCode)
+    : null;
+  const territory = availability ? getTerritoryForZip(availability.config, zipCode) : null;
 
   // Get week range text
   const getWeekRangeText = () => {
@@ -376,7 +419,7 @@ export default function AppointmentScreen() {
                   <View style={styles.noTimesContainer}>
                     <MaterialIcons name="event-busy" size={40} color={theme.textSubtle} />
                     <Text style={[styles.noTimesText, { color: theme.textSubtle }]}>
-                      No times available
+                      {blackoutReason ? `Closed - ${blackoutReason}` : 'No times available'}
                     </Text>
                   </View>
                 )}
@@ -407,10 +450,23 @@ export default function AppointmentScreen() {
         <View style={styles.infoBox}>
           <MaterialIcons name="info" size={20} color={theme.primary} />
           <Text style={[styles.infoText, { color: theme.textSubtle }]}>
-            Available times: Mon-Fri 10AM, 1PM, 4PM, 7PM | Sat 10AM, 1PM
+            {territory && territory.name !== 'Default'
+              ? `Showing open times for the ${territory.name} territory. Full times are hidden.`
+              : 'Showing open times only. Full times are hidden.'}
           </Text>
         </View>
 
+        {availability?.isCached && (
+          <View style={styles.infoBox}>
+            <MaterialIcons name="cloud-off" size={20} color={theme.warning} />
+            <Text style={[styles.infoText, { color: theme.textSubtle }]}>
+              Offline - availability as of {availability.refreshedAt
+                ? new Date(availability.refreshedAt).toLocaleString()
+                : 'default schedule'}. The office will confirm this time once the device syncs.
+            </Text>
+          </View>
+        )}
+
         <Button
           title={isSubmitting ? "Saving..." : "Confirm Appointment"}
           onPress={handleSubmit}
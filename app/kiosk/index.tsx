@@ -13,6 +13,8 @@ import { StatsModal } from '@/components/ui/StatsModal';
 import { SPACING, FONTS, LOWES_THEME, HOMEDEPOT_THEME, getTheme, isTablet } from '@/constants/theme';
 import { Store } from '@/constants/theme';
 import * as StorageService from '@/services/storageService';
+import * as LaborRulesService from '@/services/laborRulesService';
+import { LaborViolation } from '@/types';
 
 // Format date/time to 12-hour format with AM/PM
 const formatDateTime12Hour = (dateString: string): string => {
@@ -32,7 +34,7 @@ const formatDateTime12Hour = (dateString: string): string => {
 export default function KioskHome() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
-  const { currentUser, activeTimeEntry, isOnline, dailyCounts, logout, clockIn, clockOut, selectStore, setKioskActive, calculateDailyStats } = useApp();
+  const { currentUser, activeTimeEntry, isOnline, dailyCounts, logout, clockIn, clockOut, startBreak, endBreak, selectStore, setKioskActive, calculateDailyStats } = useApp();
   const { showAlert } = useAlert();
   const [selectedStoreOption, setSelectedStoreOption] = useState<Store | null>(null);
   const [isClockingIn, setIsClockingIn] = useState(false);
@@ -148,6 +150,7 @@ export default function KioskHome() {
   };
 
   const isClockedIn = !!activeTimeEntry;
+  const onBreak = !!activeTimeEntry && StorageService.isOnBreak(activeTimeEntry);
   const theme = activeTimeEntry?.store ? getTheme(activeTimeEntry.store) : LOWES_THEME;
 
   const requestPermissions = async () => {
@@ -208,6 +211,33 @@ export default function KioskHome() {
       return;
     }
 
+    // Labor rules never stop a clock-in - the employee confirms they have seen the warnings
+    setIsClockingIn(true);
+    let warnings: LaborViolation[] = [];
+    try {
+      warnings = await LaborRulesService.getClockInWarnings(currentUser!.id);
+    } catch (error) {
+      console.error('Error checking labor rules:', error);
+    }
+    setIsClockingIn(false);
+
+    if (warnings.length > 0) {
+      showAlert(
+        '⚠️ Before You Clock In',
+        warnings.map(w => `• ${LaborRulesService.VIOLATION_LABELS[w.type]}: ${w.detail}`).join('\n\n') +
+          '\n\nCheck with your manager if this was not planned.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Clock In', onPress: () => performClockIn(selectedStoreOption) },
+        ]
+      );
+      return;
+    }
+
+    await performClockIn(selectedStoreOption);
+  };
+
+  const performClockIn = async (store: Store) => {
     setIsClockingIn(true);
 
     try {
@@ -237,8 +267,8 @@ export default function KioskHome() {
       }
 
       // Clock in with GPS and photo
-      await clockIn(selectedStoreOption, gpsCoordinates, photoUri);
-      selectStore(selectedStoreOption);
+      await clockIn(store, gpsCoordinates, photoUri);
+      selectStore(store);
       setIsClockingIn(false);
       
       // Immediately navigate to survey in kiosk mode
@@ -325,11 +355,28 @@ export default function KioskHome() {
 
 
 
+  const handleToggleBreak = async () => {
+    try {
+      if (onBreak) {
+        await endBreak();
+      } else {
+        await startBreak();
+      }
+    } catch (error) {
+      console.error('Break error:', error);
+      showAlert('Error', 'Failed to update break. Please try again.');
+    }
+  };
+
   const handleStartSurvey = async () => {
     if (!activeTimeEntry) {
       showAlert('Clock In Required', 'Please clock in before starting surveys');
       return;
     }
+    // Starting surveys ends any break in progress
+    if (onBreak) {
+      await endBreak();
+    }
     // Mark as active when entering survey mode
     await setKioskActive(true);
     router.replace('/kiosk/survey');
@@ -478,6 +525,13 @@ export default function KioskHome() {
         <View style={[styles.clockCard, { backgroundColor: theme.surface, borderColor: theme.primary }]}>
           {isClockedIn ? (
             <View style={styles.clockedInContainer}>
+              <Button
+                title={onBreak ? 'End Break' : 'Start Break'}
+                onPress={handleToggleBreak}
+                variant="outline"
+                icon={onBreak ? 'play-arrow' : 'pause'}
+                fullWidth
+              />
               <Button
                 title="Clock Out"
                 onPress={handleClockOut}
@@ -59,7 +59,7 @@ export default function ManageTeamScreen() {
         if (shouldBeInTeam !== currentlyInTeam) {
           await StorageService.updateEmployee(employee.id, {
             teamLeadId: shouldBeInTeam ? currentUser.id : undefined,
-          });
+          }, employee);
         }
       }
 
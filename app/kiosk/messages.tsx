@@ -5,6 +5,7 @@ import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context'
 import { useRouter } from 'expo-router';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useApp } from '@/hooks/useApp';
+import { useRealtime } from '@/hooks/useRealtime';
 import { useAlert } from '@/template';
 import * as StorageService from '@/services/storageService';
 import { SPACING, FONTS, LOWES_THEME } from '@/constants/theme';
@@ -13,7 +14,7 @@ import { Message } from '@/types';
 export default function MessagesScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
-  const { currentUser, employees, messages, loadData } = useApp();
+  const { currentUser, employees, messages, loadData, refreshMessages } = useApp();
   const { showAlert } = useAlert();
   const [selectedConversation, setSelectedConversation] = useState<string | null>(null);
   const [messageText, setMessageText] = useState('');
@@ -74,6 +75,11 @@ export default function MessagesScreen() {
     }
   }, [selectedConversation]);
 
+  // New messages, reads and reactions from other devices
+  useRealtime(['messages'], () => {
+    refreshMessages();
+  });
+
   // Generate a valid UUID v4
   const generateUUID = () => {
     return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
@@ -39,7 +39,7 @@ export default function ProfileScreen() {
   const handleSaveContact = async () => {
     if (!currentUser) return;
     
-    await StorageService.updateEmployee(currentUser.id, { phone, email });
+    await StorageService.updateEmployee(currentUser.id, { phone, email }, currentUser);
     await loadData();
     setIsEditingContact(false);
     showAlert('Success', 'Contact information updated');
@@ -48,7 +48,7 @@ export default function ProfileScreen() {
   const handleSaveAvailability = async () => {
     if (!currentUser) return;
     
-    await StorageService.updateEmployee(currentUser.id, { availability });
+    await StorageService.updateEmployee(currentUser.id, { availability }, currentUser);
     await loadData();
     setIsEditingAvailability(false);
     showAlert('Success', 'Availability updated');
@@ -59,6 +59,13 @@ export default function ScheduleScreen() {
           backgroundColor={LOWES_THEME.primary}
           fullWidth
         />
+
+        <Button
+          title="Fix a Time Card"
+          onPress={() => router.push('/kiosk/time-correction' as any)}
+          variant="outline"
+          fullWidth
+        />
       </ScrollView>
     </SafeAreaView>
   );
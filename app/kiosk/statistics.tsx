@@ -1,5 +1,5 @@
 // Employee statistics dashboard - View survey outcome stats
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { View, Text, StyleSheet, ScrollView, Pressable, ActivityIndicator, Dimensions } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
@@ -7,7 +7,11 @@ import { MaterialIcons } from '@expo/vector-icons';
 import { getSupabaseClient } from '@/template';
 import { useAlert } from '@/template';
 import { useApp } from '@/hooks/useApp';
+import { EarningsBreakdown } from '@/components/ui/EarningsBreakdown';
 import { SPACING, FONTS, LOWES_THEME } from '@/constants/theme';
+import { EarningsStatement } from '@/types';
+import * as PayrollService from '@/services/payrollService';
+import { formatPayPeriod } from '@/utils/timeFormat';
 
 interface EmployeeStats {
   date: string;
@@ -100,6 +104,9 @@ export default function StatisticsScreen() {
   const [selectedPeriod, setSelectedPeriod] = useState<'today' | '7d' | '30d' | 'all'>('today');
   const [viewMode, setViewMode] = useState<'personal' | 'team'>('personal');
   const [teamStats, setTeamStats] = useState<TeamMemberStats[]>([]);
+  const [currentEarnings, setCurrentEarnings] = useState<EarningsStatement | null>(null);
+  const [pastEarnings, setPastEarnings] = useState<EarningsStatement[]>([]);
+  const [expandedEarningsId, setExpandedEarningsId] = useState<string | null>(null);
 
   useEffect(() => {
     if (currentUser) {
@@ -110,6 +117,26 @@ export default function StatisticsScreen() {
     }
   }, [currentUser, selectedPeriod, viewMode]);
 
+  const loadEarnings = useCallback(async () => {
+    if (!currentUser) return;
+
+    try {
+      const schedules = await PayrollService.getPaySchedules();
+      const [current, past] = await Promise.all([
+        PayrollService.getEmployeeStatement(currentUser.id, PayrollService.getPayPeriod(new Date(), schedules)),
+        PayrollService.getApprovedStatements(currentUser.id),
+      ]);
+      setCurrentEarnings(current);
+      setPastEarnings(past.filter(s => s.id !== current.id));
+    } catch (error) {
+      console.error('Error loading earnings:', error);
+    }
+  }, [currentUser]);
+
+  useEffect(() => {
+    loadEarnings();
+  }, [loadEarnings]);
+
   const loadStats = async () => {
     if (!currentUser) return;
 
@@ -275,7 +302,7 @@ export default function StatisticsScreen() {
           <MaterialIcons name="arrow-back" size={24} color={LOWES_THEME.primary} />
         </Pressable>
         <Text style={styles.headerTitle}>Survey Statistics</Text>
-        <Pressable onPress={loadStats} style={styles.refreshButton}>
+        <Pressable onPress={() => { loadStats(); loadEarnings(); }} style={styles.refreshButton}>
           <MaterialIcons name="refresh" size={24} color={LOWES_THEME.primary} />
         </Pressable>
       </View>
@@ -347,6 +374,52 @@ export default function StatisticsScreen() {
             </View>
           )}
 
+          {/* Earnings (current pay period + approved statements) */}
+          {viewMode === 'personal' && currentEarnings && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>My Earnings</Text>
+              <View style={styles.earningsCard}>
+                <View style={styles.earningsHeader}>
+                  <Text style={styles.dailyDate}>
+                    {formatPayPeriod({ start: currentEarnings.periodStart, end: currentEarnings.periodEnd })}
+                  </Text>
+                  <Text style={[
+                    styles.earningsStatus,
+                    { color: currentEarnings.status === 'approved' ? LOWES_THEME.success : LOWES_THEME.warning },
+                  ]}>
+                    {currentEarnings.status === 'approved' ? 'Approved' : 'Estimate'}
+                  </Text>
+                </View>
+                <EarningsBreakdown statement={currentEarnings} />
+                {currentEarnings.status !== 'approved' && (
+                  <Text style={styles.dailyTotal}>
+                    Final once your manager approves the pay period. Installs update when stats sync at midnight.
+                  </Text>
+                )}
+              </View>
+
+              {pastEarnings.length > 0 && (
+                <View style={styles.dailyList}>
+                  {pastEarnings.map(statement => (
+                    <Pressable
+                      key={statement.id}
+                      style={styles.dailyCard}
+                      onPress={() => setExpandedEarningsId(expandedEarningsId === statement.id ? null : statement.id)}
+                    >
+                      <View style={styles.earningsHeader}>
+                        <Text style={styles.dailyDate}>
+                          {formatPayPeriod({ start: statement.periodStart, end: statement.periodEnd })}
+                        </Text>
+                        <Text style={styles.dailyDate}>${statement.total.toFixed(2)}</Text>
+                      </View>
+                      {expandedEarningsId === statement.id && <EarningsBreakdown statement={statement} />}
+                    </Pressable>
+                  ))}
+                </View>
+              )}
+            </View>
+          )}
+
           {/* Period Selector */}
           <View style={styles.periodSelector}>
             <Pressable
@@ -818,6 +891,23 @@ const styles = StyleSheet.create({
     fontSize: FONTS.sizes.sm,
     color: LOWES_THEME.textSubtle,
   },
+  earningsCard: {
+    backgroundColor: LOWES_THEME.surface,
+    padding: SPACING.md,
+    borderRadius: 12,
+    gap: SPACING.sm,
+    borderWidth: 1,
+    borderColor: LOWES_THEME.border,
+  },
+  earningsHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  earningsStatus: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: '700',
+  },
   emptyState: {
     alignItems: 'center',
     paddingVertical: SPACING.xl * 3,
@@ -9,21 +9,49 @@ import { useApp } from '@/hooks/useApp';
 import { useAlert } from '@/template';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
+import { SurveyQuestionInput } from '@/components/ui/SurveyQuestionInput';
 import { SPACING, FONTS, getTheme, isTablet } from '@/constants/theme';
-import { SURVEY_QUESTIONS } from '@/constants/surveyQuestions';
-import { Survey } from '@/types';
+import { DEFAULT_SURVEY_DEFINITION, SurveyDefinition } from '@/constants/surveyQuestions';
+import { CURRENT_CONSENT_VERSION } from '@/constants/consent';
+import { Survey, Experiment, ExperimentAssignment, KioskDuplicateCheck } from '@/types';
 import { lookupZipCode, formatAddress } from '@/services/zipLookupService';
+import { formatFullDateTime } from '@/utils/timeFormat';
 import * as ActivityService from '@/services/activityService';
+import { buildConsentRecord } from '@/services/consentService';
+import { isPhoneBlocked } from '@/services/privacyRequestService';
+import { findKioskDuplicate, getSurveyEmail } from '@/services/duplicateIndexService';
+import { parsePhone, getPhoneErrorMessage, formatPhoneAsYouType, getPhoneDigits } from '@/utils/phone';
+import { getActiveSurveyDefinition, getStateFromStoreAddress } from '@/services/surveyDefinitionService';
+import {
+  getRunningExperiments,
+  assignExperiments,
+  applySurveyVariants,
+  recordExposure,
+  createSessionId,
+} from '@/services/experimentService';
+import {
+  getFirstQuestionIndex,
+  getNextQuestionIndex,
+  getPreviousQuestionIndex,
+  getTerminationRule,
+  getVisibleQuestions,
+  transformAnswer,
+  validateAnswer,
+} from '@/utils/surveyFlow';
 
 export default function SurveyScreen() {
   const router = useRouter();
-  const { currentUser, selectedStore, submitSurvey, dailyCounts, isOnline, setKioskActive, updateLastActivity } = useApp();
+  const { currentUser, selectedStore, surveys, submitSurvey, dailyCounts, isOnline, setKioskActive, updateLastActivity } = useApp();
   const { showAlert } = useAlert();
   const signatureRef = useRef<any>();
   
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [answers, setAnswers] = useState<Record<string, any>>({});
   const [signature, setSignature] = useState('');
+  const [callConsent, setCallConsent] = useState(false);
+  const [smsConsent, setSmsConsent] = useState(false);
+  const [duplicateCheck, setDuplicateCheck] = useState<KioskDuplicateCheck | undefined>();
+  const duplicateCheckKeyRef = useRef(''); // Phone/email the current duplicateCheck ran against
   
   // Contact info state
   const [firstName, setFirstName] = useState('');
@@ -39,9 +67,33 @@ export default function SurveyScreen() {
   const [activeTimeEntryId, setActiveTimeEntryId] = useState<string | null>(null);
   const lastQuestionChangeRef = useRef<Date>(new Date());
   const inactivityTimerRef = useRef<NodeJS.Timeout | null>(null);
-  const [numberValue, setNumberValue] = useState('');
+  const [definition, setDefinition] = useState<SurveyDefinition>(DEFAULT_SURVEY_DEFINITION);
+  const [baseDefinition, setBaseDefinition] = useState<SurveyDefinition>(DEFAULT_SURVEY_DEFINITION);
+  const [experiments, setExperiments] = useState<Experiment[]>([]);
+  const [experimentAssignments, setExperimentAssignments] = useState<ExperimentAssignment[]>([]);
 
-  // Get active time entry ID
+  // Each new customer is a new session: assign experiment variants and build its questionnaire
+  const beginSession = React.useCallback(async (base: SurveyDefinition, running: Experiment[]) => {
+    const sessionId = createSessionId();
+    const assignments = currentUser ? assignExperiments(running, sessionId, currentUser.id) : [];
+    const sessionDefinition = await applySurveyVariants(base, running, assignments);
+
+    setExperimentAssignments(assignments);
+    setDefinition(sessionDefinition);
+    setCallConsent(false);
+    setSmsConsent(false);
+    setDuplicateCheck(undefined);
+    duplicateCheckKeyRef.current = '';
+    setCurrentQuestionIndex(Math.max(getFirstQuestionIndex(sessionDefinition.questions), 0));
+
+    if (currentUser) {
+      recordExposure(sessionId, currentUser.id, selectedStore || 'lowes', assignments);
+    }
+  }, [currentUser, selectedStore]);
+
+  const startSession = () => beginSession(baseDefinition, experiments);
+
+  // Get active time entry ID and the survey definition for this store
   React.useEffect(() => {
     const loadActiveEntry = async () => {
       if (!currentUser) return;
@@ -51,9 +103,20 @@ export default function SurveyScreen() {
       if (activeEntry) {
         setActiveTimeEntryId(activeEntry.id);
       }
+
+      const store = selectedStore || activeEntry?.store || 'lowes';
+      const activeDefinition = await getActiveSurveyDefinition({
+        store,
+        storeNumber: activeEntry?.storeNumber,
+        state: getStateFromStoreAddress(activeEntry?.storeAddress),
+      });
+      const runningExperiments = await getRunningExperiments(store);
+      setBaseDefinition(activeDefinition);
+      setExperiments(runningExperiments);
+      await beginSession(activeDefinition, runningExperiments);
     };
     loadActiveEntry();
-  }, [currentUser]);
+  }, [currentUser, selectedStore, beginSession]);
 
   // Heartbeat tracking - Send heartbeats every 30 seconds while on survey page
   React.useEffect(() => {
@@ -148,26 +211,104 @@ export default function SurveyScreen() {
 
   // Format phone number as user types: (334) 499-4646
   const handlePhoneChange = (text: string) => {
-    const digits = text.replace(/\D/g, '');
-    const limitedDigits = digits.slice(0, 10);
-    
-    let formatted = '';
-    if (limitedDigits.length === 0) {
-      formatted = '';
-    } else if (limitedDigits.length <= 3) {
-      formatted = `(${limitedDigits}`;
-    } else if (limitedDigits.length <= 6) {
-      formatted = `(${limitedDigits.slice(0, 3)}) ${limitedDigits.slice(3)}`;
-    } else {
-      formatted = `(${limitedDigits.slice(0, 3)}) ${limitedDigits.slice(3, 6)}-${limitedDigits.slice(6)}`;
-    }
-    
-    setPhone(formatted);
+    setPhone(formatPhoneAsYouType(text));
   };
   
   const theme = selectedStore ? getTheme(selectedStore) : getTheme('lowes');
-  const currentQuestion = SURVEY_QUESTIONS[currentQuestionIndex];
-  const progress = ((currentQuestionIndex + 1) / SURVEY_QUESTIONS.length) * 100;
+  const questions = definition.questions;
+  const currentQuestion = questions[currentQuestionIndex];
+  const visibleQuestions = getVisibleQuestions(questions, answers);
+  const questionPosition = Math.max(visibleQuestions.indexOf(currentQuestion), 0) + 1;
+  const progress = (questionPosition / Math.max(visibleQuestions.length, 1)) * 100;
+
+  // Stamp every submitted survey with the questionnaire and experiment variants it was answered against
+  const definitionStamp = {
+    surveyDefinitionId: definition.id,
+    surveyDefinitionVersion: definition.version,
+    experimentAssignments: experimentAssignments.length > 0 ? experimentAssignments : undefined,
+  };
+
+  // Advance to the next question whose show/skip conditions pass
+  // Check for a customer already on file before they sign. Resolves false if the surveyor discards the session
+  const confirmNotDuplicate = async (currentAnswers: Record<string, any>): Promise<boolean> => {
+    const phoneValue = currentAnswers.contact_info?.phone;
+    const email = getSurveyEmail(currentAnswers);
+    const checkKey = `${getPhoneDigits(phoneValue)}|${email}`;
+    if (duplicateCheck && duplicateCheckKeyRef.current === checkKey) return true;
+
+    const { match, indexRefreshedAt } = await findKioskDuplicate({ phone: phoneValue, email, localSurveys: surveys });
+    duplicateCheckKeyRef.current = checkKey;
+    const checkedAt = new Date().toISOString();
+
+    if (!match) {
+      setDuplicateCheck({ checkedAt, indexRefreshedAt, decision: 'no_match' });
+      return true;
+    }
+
+    const matchedWhat = match.matchedOn === 'phone' ? 'phone number' : 'email address';
+    const matchedWhere = match.source === 'salesforce' ? 'a customer already in Salesforce' : 'an earlier survey';
+    const when = match.seenAt ? ` (${formatFullDateTime(match.seenAt)})` : '';
+
+    return new Promise(resolve => {
+      showAlert(
+        'Possible Duplicate',
+        `This ${matchedWhat} matches ${matchedWhere}${when}. Only continue if this is a new customer or a new visit.`,
+        [
+          {
+            text: 'Discard Survey',
+            style: 'destructive',
+            onPress: async () => {
+              if (currentUser && activeTimeEntryId) {
+                await ActivityService.logActivity({
+                  employeeId: currentUser.id,
+                  timeEntryId: activeTimeEntryId,
+                  eventType: 'survey_duplicate_discarded',
+                  pagePath: '/kiosk/survey',
+                  isPageVisible: isPageVisible,
+                  metadata: { source: match.source, matchedOn: match.matchedOn, surveyId: match.surveyId },
+                });
+              }
+              startSession();
+              setAnswers({});
+              setSignature('');
+              setFirstName('');
+              setLastName('');
+              setPhone('');
+              setZipCode('');
+              setCity('');
+              setState('');
+              setZipLookupError('');
+              resolve(false);
+            },
+          },
+          {
+            text: 'Continue',
+            onPress: () => {
+              setDuplicateCheck({ checkedAt, indexRefreshedAt, match, decision: 'continued' });
+              resolve(true);
+            },
+          },
+        ]
+      );
+    });
+  };
+
+  const goToNextQuestion = async (currentAnswers: Record<string, any>) => {
+    const nextIndex = getNextQuestionIndex(questions, currentQuestionIndex, currentAnswers);
+    if (nextIndex === -1) return;
+
+    if (questions[nextIndex].type === 'signature' && !(await confirmNotDuplicate(currentAnswers))) {
+      return;
+    }
+    setCurrentQuestionIndex(nextIndex);
+  };
+
+  const goToPreviousQuestion = () => {
+    const previousIndex = getPreviousQuestionIndex(questions, currentQuestionIndex, answers);
+    if (previousIndex !== -1) {
+      setCurrentQuestionIndex(previousIndex);
+    }
+  };
 
   // Prevent back navigation - force kiosk mode
   React.useEffect(() => {
@@ -231,25 +372,26 @@ export default function SurveyScreen() {
       });
     }
     
-    // Transform tastes_odors answer: Yes → "Tastes;Odors", No → "No Problems"
-    let transformedAnswer = answer;
-    if (currentQuestion.id === 'tastes_odors') {
-      transformedAnswer = answer === 'Yes' ? 'Tastes;Odors' : 'No Problems';
+    const validationError = validateAnswer(currentQuestion, answer);
+    if (validationError) {
+      showAlert('Invalid Input', validationError);
+      return;
     }
     
+    // Apply the definition's answer mapping (e.g. tastes_odors: Yes → "Tastes;Odors")
+    const transformedAnswer = transformAnswer(currentQuestion, answer);
+    
     const newAnswers = { ...answers, [currentQuestion.id]: transformedAnswer };
     setAnswers(newAnswers);
 
-    // Check if survey should end early
-    if (currentQuestion.id === 'is_homeowner' && answer === 'No') {
-      endSurveyEarly('renter', newAnswers);
+    // Check if survey should end early (same stored value showIf/skipIf see)
+    const terminationRule = getTerminationRule(currentQuestion, newAnswers);
+    if (terminationRule) {
+      endSurveyEarly(terminationRule.category, newAnswers, terminationRule.message);
       return;
     }
 
-    // Move to next question
-    if (currentQuestionIndex < SURVEY_QUESTIONS.length - 1) {
-      setCurrentQuestionIndex(currentQuestionIndex + 1);
-    }
+    goToNextQuestion(newAnswers);
   };
 
   // Auto-lookup city/state when zip code is entered
@@ -279,7 +421,7 @@ export default function SurveyScreen() {
     }
   };
 
-  const handleContactInfoContinue = () => {
+  const handleContactInfoContinue = async () => {
     // Track activity and reset inactivity timer
     updateLastActivity();
     lastQuestionChangeRef.current = new Date();
@@ -294,9 +436,35 @@ export default function SurveyScreen() {
       return;
     }
     
-    const phoneDigits = phone.replace(/\D/g, '');
-    if (phoneDigits.length !== 10) {
-      showAlert('Invalid Phone', 'Please enter a valid 10-digit phone number');
+    const parsedPhone = parsePhone(phone);
+    if (!parsedPhone.isValid) {
+      showAlert('Invalid Phone', getPhoneErrorMessage(parsedPhone.error!));
+      return;
+    }
+
+    // Customer asked not to be contacted - nothing from this session is saved
+    if (await isPhoneBlocked(parsedPhone.digits)) {
+      showAlert(
+        'Unable to Continue',
+        'This customer has asked not to be contacted, so a survey cannot be recorded for this phone number.',
+        [
+          {
+            text: 'Start Next Survey',
+            onPress: () => {
+              startSession();
+              setAnswers({});
+              setSignature('');
+              setFirstName('');
+              setLastName('');
+              setPhone('');
+              setZipCode('');
+              setCity('');
+              setState('');
+              setZipLookupError('');
+            },
+          },
+        ]
+      );
       return;
     }
     
@@ -315,13 +483,15 @@ export default function SurveyScreen() {
                 firstName: firstName.trim(),
                 lastName: lastName.trim(),
                 phone: phone.trim(),
+                phoneE164: parsedPhone.e164,
                 zipCode: zipCode.trim(),
                 city: city.trim(),
                 state: state.trim(),
               };
               
-              setAnswers({ ...answers, contact_info: contactData });
-              setCurrentQuestionIndex(currentQuestionIndex + 1);
+              const newAnswers = { ...answers, contact_info: contactData };
+              setAnswers(newAnswers);
+              goToNextQuestion(newAnswers);
             },
           },
         ]
@@ -334,16 +504,22 @@ export default function SurveyScreen() {
       firstName: firstName.trim(),
       lastName: lastName.trim(),
       phone: phone.trim(),
+      phoneE164: parsedPhone.e164,
       zipCode: zipCode.trim(),
       city: city.trim(),
       state: state.trim(),
     };
     
-    setAnswers({ ...answers, contact_info: contactData });
-    setCurrentQuestionIndex(currentQuestionIndex + 1);
+    const newAnswers = { ...answers, contact_info: contactData };
+    setAnswers(newAnswers);
+    goToNextQuestion(newAnswers);
   };
 
-  const endSurveyEarly = async (category: 'renter', currentAnswers: Record<string, any>) => {
+  const endSurveyEarly = async (
+    category: Survey['category'],
+    currentAnswers: Record<string, any>,
+    message?: string
+  ) => {
     const employeeAlias = currentUser ? 
       (currentUser.firstName.substring(0, 2) + currentUser.lastName.substring(0, 2)).toUpperCase() : 
       '';
@@ -368,16 +544,17 @@ export default function SurveyScreen() {
       syncedToSalesforce: false,
       syncedToZapier: false,
       locationVerified: activeEntry?.locationVerified || false,
+      ...definitionStamp,
     };
 
     await submitSurvey(survey);
     
-    showAlert('Survey Complete', 'Thank you! This survey has been recorded as a renter contact.', [
+    showAlert('Survey Complete', message || 'Thank you! This survey has been recorded.', [
       {
         text: 'Start Next Survey',
         onPress: () => {
           // Reset survey state and start new one
-          setCurrentQuestionIndex(0);
+          startSession();
           setAnswers({});
           setSignature('');
           setFirstName('');
@@ -387,7 +564,6 @@ export default function SurveyScreen() {
           setCity('');
           setState('');
           setZipLookupError('');
-          setNumberValue('');
         },
       },
     ]);
@@ -443,6 +619,17 @@ export default function SurveyScreen() {
     const timeEntries = await getTimeEntries() || [];
     const activeEntry = timeEntries.find((e: any) => e.employeeId === currentUser!.id && !e.clockOut);
 
+    // Record exactly which disclosure was signed and which opt-ins were checked
+    const consent = await buildConsentRecord({
+      consent: CURRENT_CONSENT_VERSION,
+      callConsent,
+      smsConsent,
+      store: selectedStore!,
+      storeName: activeEntry?.storeName,
+      storeNumber: activeEntry?.storeNumber,
+      fallbackGps: activeEntry?.gpsCoordinates,
+    });
+
     const surveyToSubmit: Survey = {
       id: Date.now().toString(),
       employeeId: currentUser!.id,
@@ -454,10 +641,13 @@ export default function SurveyScreen() {
       timestamp: new Date().toISOString(),
       answers,
       signature,
+      consent,
+      kioskDuplicateCheck: duplicateCheck,
       category: 'survey', // Will be updated if appointment is set
       syncedToSalesforce: false, // Will be marked true after successful sync
       syncedToZapier: false,
       locationVerified: activeEntry?.locationVerified || false,
+      ...definitionStamp,
     };
 
     // Ask if customer wants to set appointment
@@ -480,7 +670,7 @@ export default function SurveyScreen() {
             console.log('✅ Survey submitted successfully');
             
             // Reset UI for next survey
-            setCurrentQuestionIndex(0);
+            startSession();
             setAnswers({});
             setSignature('');
             setFirstName('');
@@ -490,7 +680,6 @@ export default function SurveyScreen() {
             setCity('');
             setState('');
             setZipLookupError('');
-            setNumberValue('');
           } catch (err) {
             console.error('❌ Survey submission error:', err);
             showAlert('Error', 'Failed to save survey. Please try again.');
@@ -539,12 +728,13 @@ export default function SurveyScreen() {
                 syncedToSalesforce: false, // Will be marked true after successful sync
                 syncedToZapier: false,
                 locationVerified: activeEntry?.locationVerified || false,
+                ...definitionStamp,
               };
 
               await submitSurvey(partialSurvey);
               
               // Reset for next survey
-              setCurrentQuestionIndex(0);
+              startSession();
               setAnswers({});
               setSignature('');
               setFirstName('');
@@ -554,7 +744,6 @@ export default function SurveyScreen() {
               setCity('');
               setState('');
               setZipLookupError('');
-              setNumberValue('');
             },
           },
         ]
@@ -571,7 +760,7 @@ export default function SurveyScreen() {
             style: 'destructive',
             onPress: () => {
               // Reset for next survey
-              setCurrentQuestionIndex(0);
+              startSession();
               setAnswers({});
               setSignature('');
               setFirstName('');
@@ -581,7 +770,6 @@ export default function SurveyScreen() {
               setCity('');
               setState('');
               setZipLookupError('');
-              setNumberValue('');
             },
           },
         ]
@@ -593,85 +781,6 @@ export default function SurveyScreen() {
     const answer = answers[currentQuestion.id];
 
     switch (currentQuestion.type) {
-      case 'yesno':
-        return (
-          <View style={styles.optionsContainer}>
-            <Button
-              title="Yes"
-              onPress={() => handleAnswer('Yes')}
-              backgroundColor={theme.success}
-              size="large"
-              fullWidth
-            />
-            <Button
-              title="No"
-              onPress={() => handleAnswer('No')}
-              backgroundColor={theme.error}
-              size="large"
-              fullWidth
-            />
-          </View>
-        );
-
-      case 'choice':
-        return (
-          <View style={styles.optionsContainer}>
-            {currentQuestion.options?.map((option) => (
-              <Button
-                key={option}
-                title={option}
-                onPress={() => handleAnswer(option)}
-                variant={answer === option ? 'primary' : 'outline'}
-                backgroundColor={answer === option ? theme.primary : 'transparent'}
-                textColor={answer === option ? '#FFFFFF' : theme.primary}
-                size="large"
-                fullWidth
-              />
-            ))}
-            {currentQuestion.allowNext && (
-              <Button
-                title="Continue"
-                onPress={() => setCurrentQuestionIndex(currentQuestionIndex + 1)}
-                backgroundColor={theme.primary}
-                size="large"
-                fullWidth
-              />
-            )}
-          </View>
-        );
-
-      case 'number':
-        return (
-          <View style={styles.inputContainer}>
-            <Input
-              value={numberValue}
-              onChangeText={(text) => {
-                // Only allow numbers
-                const numericValue = text.replace(/[^0-9]/g, '');
-                setNumberValue(numericValue);
-              }}
-              placeholder={currentQuestion.placeholder || 'Enter number'}
-              keyboardType="number-pad"
-              borderColor={theme.primary}
-            />
-            <Button
-              title="Continue"
-              onPress={() => {
-                if (numberValue && parseInt(numberValue) > 0) {
-                  handleAnswer(parseInt(numberValue));
-                  setNumberValue(''); // Reset after answering
-                } else {
-                  showAlert('Invalid Input', 'Please enter a valid number');
-                }
-              }}
-              backgroundColor={theme.primary}
-              size="large"
-              fullWidth
-              disabled={!numberValue || parseInt(numberValue) <= 0}
-            />
-          </View>
-        );
-
       case 'contact':
         return (
           <View style={styles.inputContainer}>
@@ -755,7 +864,7 @@ export default function SurveyScreen() {
               backgroundColor={theme.primary}
               size="large"
               fullWidth
-              disabled={!firstName.trim() || !lastName.trim() || !phone.trim() || phone.replace(/\D/g, '').length !== 10 || !zipCode.trim() || zipCode.length !== 5 || isLookingUpZip}
+              disabled={!firstName.trim() || !lastName.trim() || !phone.trim() || !getPhoneDigits(phone) || !zipCode.trim() || zipCode.length !== 5 || isLookingUpZip}
             />
           </View>
         );
@@ -763,6 +872,31 @@ export default function SurveyScreen() {
       case 'signature':
         return (
           <View style={styles.signatureContainer}>
+            <ScrollView style={[styles.consentBox, { borderColor: theme.border }]} nestedScrollEnabled>
+              <Text style={[styles.consentText, { color: theme.text }]}>
+                {CURRENT_CONSENT_VERSION.disclosure}
+              </Text>
+            </ScrollView>
+            {[
+              { label: CURRENT_CONSENT_VERSION.callConsentLabel, value: callConsent, onChange: setCallConsent },
+              { label: CURRENT_CONSENT_VERSION.smsConsentLabel, value: smsConsent, onChange: setSmsConsent },
+            ].map(option => (
+              <Pressable
+                key={option.label}
+                style={styles.consentOption}
+                onPress={() => {
+                  updateLastActivity();
+                  option.onChange(!option.value);
+                }}
+              >
+                <MaterialIcons
+                  name={option.value ? 'check-box' : 'check-box-outline-blank'}
+                  size={28}
+                  color={theme.primary}
+                />
+                <Text style={[styles.consentOptionText, { color: theme.text }]}>{option.label}</Text>
+              </Pressable>
+            ))}
             <View style={styles.signatureBox}>
               <SignatureScreen
                 ref={signatureRef}
@@ -820,7 +954,16 @@ export default function SurveyScreen() {
         );
 
       default:
-        return null;
+        return (
+          <SurveyQuestionInput
+            key={currentQuestion.id}
+            question={currentQuestion}
+            answer={answer}
+            theme={theme}
+            onAnswer={handleAnswer}
+            onContinue={() => goToNextQuestion(answers)}
+          />
+        );
     }
   };
 
@@ -860,7 +1003,7 @@ export default function SurveyScreen() {
             <View style={[styles.progressFill, { width: `${progress}%` }]} />
           </View>
           <Text style={styles.progressText}>
-            Question {currentQuestionIndex + 1} of {SURVEY_QUESTIONS.length}
+            Question {questionPosition} of {visibleQuestions.length}
           </Text>
         </View>
       </View>
@@ -869,7 +1012,7 @@ export default function SurveyScreen() {
       <ScrollView contentContainerStyle={styles.content}>
         <View style={styles.questionCard}>
           <Text style={[styles.questionNumber, { color: theme.textSubtle }]}>
-            Question {currentQuestionIndex + 1}
+            Question {questionPosition}
           </Text>
           <Text style={[styles.questionText, { color: theme.text }]}>
             {currentQuestion.question}
@@ -879,17 +1022,17 @@ export default function SurveyScreen() {
         {renderQuestion()}
 
         {/* Back button (except on first question) */}
-        {currentQuestionIndex > 0 && currentQuestion.type !== 'signature' && (
+        {questionPosition > 1 && currentQuestion.type !== 'signature' && (
           <Button
             title="Previous Question"
-            onPress={() => setCurrentQuestionIndex(currentQuestionIndex - 1)}
+            onPress={goToPreviousQuestion}
             variant="outline"
             fullWidth
           />
         )}
 
         {/* Abandon Survey Button - Small at bottom */}
-        {currentQuestionIndex > 0 && (
+        {questionPosition > 1 && (
           <Pressable
             style={styles.abandonButton}
             onPress={handleAbandonSurvey}
@@ -1043,11 +1186,6 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     lineHeight: 28,
   },
-  optionsContainer: {
-    gap: SPACING.md,
-    flexDirection: isTabletDevice ? 'row' : 'column',
-    flexWrap: 'wrap',
-  },
   inputContainer: {
     gap: SPACING.md,
   },
@@ -1089,6 +1227,26 @@ const styles = StyleSheet.create({
   signatureContainer: {
     gap: SPACING.md,
   },
+  consentBox: {
+    maxHeight: 140,
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: SPACING.sm,
+    backgroundColor: '#FFFFFF',
+  },
+  consentText: {
+    fontSize: FONTS.sizes.xs,
+    lineHeight: 18,
+  },
+  consentOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  consentOptionText: {
+    flex: 1,
+    fontSize: FONTS.sizes.sm,
+  },
   signatureBox: {
     height: 300,
     borderRadius: 12,
@@ -0,0 +1,279 @@
+// Time card correction request - pick a recent shift, propose the right times and say why
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, Pressable, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useApp } from '@/hooks/useApp';
+import { useAlert } from '@/template';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { DatePicker } from '@/components/ui/DatePicker';
+import * as StorageService from '@/services/storageService';
+import { getCorrectionRequests, submitCorrectionRequest } from '@/services/timeCorrectionService';
+import { SPACING, FONTS, LOWES_THEME } from '@/constants/theme';
+import { formatFullDateTime } from '@/utils/timeFormat';
+import { TimeCorrectionRequest, TimeEntry } from '@/types';
+
+const RECENT_DAYS = 30;
+
+export default function TimeCorrectionScreen() {
+  const router = useRouter();
+  const { currentUser, activeTimeEntry } = useApp();
+  const { showAlert } = useAlert();
+  const [shifts, setShifts] = useState<TimeEntry[]>([]);
+  const [requests, setRequests] = useState<TimeCorrectionRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [selected, setSelected] = useState<TimeEntry | null>(null);
+  const [clockIn, setClockIn] = useState<Date | null>(null);
+  const [clockOut, setClockOut] = useState<Date | null>(null);
+  const [reason, setReason] = useState('');
+
+  const loadData = useCallback(async () => {
+    if (!currentUser) return;
+    const since = Date.now() - RECENT_DAYS * 24 * 60 * 60 * 1000;
+    const [entries, myRequests] = await Promise.all([
+      StorageService.getTimeEntries(),
+      getCorrectionRequests(currentUser.id),
+    ]);
+    setShifts(entries
+      .filter(e => e.employeeId === currentUser.id && new Date(e.clockIn).getTime() >= since)
+      .filter(e => e.id !== activeTimeEntry?.id) // Still on the clock - nothing to fix yet
+      .sort((a, b) => b.clockIn.localeCompare(a.clockIn)));
+    setRequests(myRequests);
+    setIsLoading(false);
+  }, [currentUser, activeTimeEntry?.id]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const selectShift = (shift: TimeEntry) => {
+    setSelected(shift);
+    setClockIn(new Date(shift.clockIn));
+    setClockOut(shift.clockOut ? new Date(shift.clockOut) : null);
+    setReason('');
+  };
+
+  const handleSubmit = async () => {
+    if (!selected || !clockIn || !clockOut || !reason.trim()) {
+      showAlert('Required Fields', 'Please fill in all fields');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await submitCorrectionRequest(selected, clockIn, clockOut, reason);
+      setSelected(null);
+      await loadData();
+      showAlert('Request Submitted', 'Your time card correction has been sent to your manager for approval');
+    } catch (error) {
+      showAlert('Cannot Submit', error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const pendingFor = (shift: TimeEntry) =>
+    requests.some(r => r.timeEntryId === shift.id && r.status === 'pending');
+
+  const statusColor = (status: TimeCorrectionRequest['status']) =>
+    status === 'approved' ? LOWES_THEME.success : status === 'denied' ? LOWES_THEME.error : LOWES_THEME.warning;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.backButton}>
+          <MaterialIcons name="arrow-back" size={24} color={LOWES_THEME.primary} />
+        </Pressable>
+        <Text style={styles.headerTitle}>Fix a Time Card</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {isLoading ? (
+          <ActivityIndicator size="large" color={LOWES_THEME.primary} />
+        ) : selected ? (
+          <>
+            <View style={styles.card}>
+              <Text style={styles.cardLabel}>Recorded</Text>
+              <Text style={styles.cardText}>In: {formatFullDateTime(selected.clockIn)}</Text>
+              <Text style={styles.cardText}>
+                Out: {selected.clockOut ? formatFullDateTime(selected.clockOut) : 'No clock-out'}
+              </Text>
+            </View>
+
+            <DatePicker
+              label="Clock In"
+              value={clockIn}
+              onChange={setClockIn}
+              mode="datetime"
+              maximumDate={new Date()}
+              placeholder="Select Clock In"
+              primaryColor={LOWES_THEME.primary}
+              textColor={LOWES_THEME.text}
+            />
+
+            <DatePicker
+              label="Clock Out"
+              value={clockOut}
+              onChange={setClockOut}
+              mode="datetime"
+              minimumDate={clockIn || undefined}
+              maximumDate={new Date()}
+              placeholder="Select Clock Out"
+              primaryColor={LOWES_THEME.primary}
+              textColor={LOWES_THEME.text}
+            />
+
+            <Input
+              label="Reason"
+              value={reason}
+              onChangeText={setReason}
+              placeholder="Forgot to clock out, tablet was offline, etc."
+              multiline
+              numberOfLines={4}
+              borderColor={LOWES_THEME.primary}
+            />
+
+            <Button
+              title={isSubmitting ? 'Submitting...' : 'Submit Request'}
+              onPress={handleSubmit}
+              backgroundColor={LOWES_THEME.primary}
+              size="large"
+              fullWidth
+              disabled={isSubmitting}
+            />
+            <Button title="Cancel" onPress={() => setSelected(null)} variant="outline" fullWidth />
+          </>
+        ) : (
+          <>
+            <Text style={styles.sectionTitle}>Recent Shifts</Text>
+            {shifts.length === 0 ? (
+              <Text style={styles.emptyText}>No shifts in the last {RECENT_DAYS} days</Text>
+            ) : (
+              shifts.map(shift => (
+                <Pressable
+                  key={shift.id}
+                  style={styles.card}
+                  onPress={() => selectShift(shift)}
+                  disabled={pendingFor(shift)}
+                >
+                  <View style={styles.cardRow}>
+                    <View style={styles.cardBody}>
+                      <Text style={styles.cardText}>In: {formatFullDateTime(shift.clockIn)}</Text>
+                      <Text style={[styles.cardText, !shift.clockOut && { color: LOWES_THEME.error }]}>
+                        Out: {shift.clockOut ? formatFullDateTime(shift.clockOut) : 'No clock-out'}
+                      </Text>
+                      {shift.correctionHistory && shift.correctionHistory.length > 0 && (
+                        <Text style={styles.cardHint}>Corrected {shift.correctionHistory.length}x</Text>
+                      )}
+                    </View>
+                    {pendingFor(shift) ? (
+                      <Text style={styles.cardHint}>Fix pending</Text>
+                    ) : (
+                      <MaterialIcons name="edit" size={20} color={LOWES_THEME.primary} />
+                    )}
+                  </View>
+                </Pressable>
+              ))
+            )}
+
+            {requests.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>My Requests</Text>
+                {requests.map(request => (
+                  <View key={request.id} style={styles.card}>
+                    <View style={styles.cardRow}>
+                      <Text style={styles.cardLabel}>Shift of {formatFullDateTime(request.original.clockIn)}</Text>
+                      <Text style={[styles.status, { color: statusColor(request.status) }]}>
+                        {request.status.toUpperCase()}
+                      </Text>
+                    </View>
+                    <Text style={styles.cardText}>
+                      Requested {formatFullDateTime(request.requestedClockIn)} - {formatFullDateTime(request.requestedClockOut)}
+                    </Text>
+                    <Text style={styles.cardHint}>{request.reason}</Text>
+                    {request.reviewNote && <Text style={styles.cardHint}>Manager: {request.reviewNote}</Text>}
+                  </View>
+                ))}
+              </>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: LOWES_THEME.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.md,
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: LOWES_THEME.border,
+  },
+  backButton: {
+    padding: SPACING.sm,
+  },
+  headerTitle: {
+    fontSize: FONTS.sizes.xl,
+    fontWeight: '700',
+    color: LOWES_THEME.text,
+  },
+  content: {
+    padding: SPACING.lg,
+    gap: SPACING.lg,
+  },
+  sectionTitle: {
+    fontSize: FONTS.sizes.lg,
+    fontWeight: '700',
+    color: LOWES_THEME.text,
+  },
+  emptyText: {
+    fontSize: FONTS.sizes.md,
+    color: LOWES_THEME.textSubtle,
+  },
+  card: {
+    backgroundColor: LOWES_THEME.surface,
+    borderRadius: 12,
+    padding: SPACING.md,
+    gap: SPACING.xs,
+    borderWidth: 1,
+    borderColor: LOWES_THEME.border,
+  },
+  cardRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: SPACING.sm,
+  },
+  cardBody: {
+    flex: 1,
+    gap: 2,
+  },
+  cardLabel: {
+    fontSize: FONTS.sizes.md,
+    fontWeight: '600',
+    color: LOWES_THEME.text,
+  },
+  cardText: {
+    fontSize: FONTS.sizes.md,
+    color: LOWES_THEME.text,
+  },
+  cardHint: {
+    fontSize: FONTS.sizes.sm,
+    color: LOWES_THEME.textSubtle,
+  },
+  status: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: '700',
+  },
+});
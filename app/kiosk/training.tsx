@@ -1,11 +1,14 @@
 // Training screen with modern UI
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, Pressable } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import { MaterialIcons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Button } from '@/components/ui/Button';
+import { useApp } from '@/hooks/useApp';
+import { getScriptVariant } from '@/services/experimentService';
+import { ExperimentVariant } from '@/types';
 import { SPACING, FONTS, isTablet } from '@/constants/theme';
 
 const SCRIPTS = [
@@ -166,7 +169,19 @@ const QUESTIONS_DATA = [
 
 export default function TrainingScreen() {
   const router = useRouter();
+  const { currentUser, selectedStore } = useApp();
   const [activeTab, setActiveTab] = useState<'script' | 'rebuttals' | 'questions'>('script');
+  const [scriptVariant, setScriptVariant] = useState<ExperimentVariant | null>(null);
+
+  // Employees in a script experiment see their assigned pitch for the day
+  useEffect(() => {
+    if (!currentUser) return;
+    getScriptVariant(currentUser.id, selectedStore || 'lowes').then(match => {
+      setScriptVariant(match?.variant || null);
+    });
+  }, [currentUser, selectedStore]);
+
+  const scripts = SCRIPTS.map(script => ({ ...script, ...scriptVariant?.scripts?.[script.id] }));
 
   return (
     <View style={styles.container}>
@@ -239,7 +254,7 @@ export default function TrainingScreen() {
           <ScrollView contentContainerStyle={styles.content}>
             {activeTab === 'script' && (
               <View style={styles.scriptContainer}>
-                {SCRIPTS.map((script) => (
+                {scripts.map((script) => (
                   <View key={script.id} style={styles.scriptCard}>
                     <View style={styles.scriptHeader}>
                       <View style={styles.scriptIcon}>
@@ -1,9 +1,10 @@
 // Visual indicator for critical features health status
 import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, Pressable } from 'react-native';
+import { View, Text, StyleSheet, Pressable, ActivityIndicator } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import { SPACING, FONTS, LOWES_THEME } from '@/constants/theme';
 import * as FailsafeStorage from '@/services/failsafeStorage';
+import { useSendDiagnostics } from '@/hooks/useSendDiagnostics';
 
 interface Props {
   compact?: boolean;
@@ -24,6 +25,7 @@ export function CriticalFeatureStatus({ compact = false }: Props) {
     lastBackup: null as string | null,
   });
   const [expanded, setExpanded] = useState(false);
+  const { sending, sendDiagnostics } = useSendDiagnostics();
 
   useEffect(() => {
     loadHealth();
@@ -122,6 +124,21 @@ export function CriticalFeatureStatus({ compact = false }: Props) {
               then synced to cloud when online. Your data is safe.
             </Text>
           </View>
+
+          <Pressable
+            style={styles.diagnosticsButton}
+            onPress={() => sendDiagnostics(`Critical systems: ${getStatusText()}, ${health.queuedForSync} queued`)}
+            disabled={sending}
+          >
+            {sending ? (
+              <ActivityIndicator size="small" color={LOWES_THEME.primary} />
+            ) : (
+              <MaterialIcons name="bug-report" size={16} color={LOWES_THEME.primary} />
+            )}
+            <Text style={styles.diagnosticsText}>
+              {sending ? 'Collecting diagnostics...' : 'Send Diagnostics'}
+            </Text>
+          </Pressable>
         </View>
       )}
     </Pressable>
@@ -191,6 +208,21 @@ const styles = StyleSheet.create({
     color: LOWES_THEME.text,
     lineHeight: 16,
   },
+  diagnosticsButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: SPACING.xs,
+    paddingVertical: SPACING.sm,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: LOWES_THEME.primary,
+  },
+  diagnosticsText: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: '600',
+    color: LOWES_THEME.primary,
+  },
   compactBadge: {
     flexDirection: 'row',
     alignItems: 'center',
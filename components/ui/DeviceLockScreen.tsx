@@ -0,0 +1,49 @@
+// Full-screen block shown while the tablet is locked from the admin fleet screen
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { SPACING, FONTS, LOWES_THEME } from '@/constants/theme';
+import { useApp } from '@/hooks/useApp';
+
+/**
+ * Covers the whole app until an admin sends an unlock command (picked up on the next heartbeat)
+ */
+export function DeviceLockScreen() {
+  const { isDeviceLocked } = useApp();
+
+  if (!isDeviceLocked) return null;
+
+  return (
+    <View style={styles.overlay}>
+      <MaterialIcons name="lock" size={72} color="#FFFFFF" />
+      <Text style={styles.title}>Device Locked</Text>
+      <Text style={styles.message}>
+        This tablet has been locked by an administrator.{'\n'}
+        Contact your manager to have it unlocked.
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: LOWES_THEME.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: SPACING.xl,
+    gap: SPACING.lg,
+    zIndex: 1000,
+  },
+  title: {
+    fontSize: FONTS.sizes.xxl,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  message: {
+    fontSize: FONTS.sizes.md,
+    color: '#FFFFFF',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+});
@@ -0,0 +1,138 @@
+// Line-by-line earnings statement - shared by the admin payroll screen and the surveyor statistics screen
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { SPACING, FONTS, LOWES_THEME } from '@/constants/theme';
+import { EarningsStatement } from '@/types';
+
+interface EarningsBreakdownProps {
+  statement: EarningsStatement;
+}
+
+const formatMoney = (amount: number) => `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`;
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+function Line({ label, detail, amount }: { label: string; detail?: string; amount: number }) {
+  return (
+    <View style={styles.line}>
+      <View style={styles.lineLabel}>
+        <Text style={styles.label}>{label}</Text>
+        {detail && <Text style={styles.detail}>{detail}</Text>}
+      </View>
+      <Text style={[styles.amount, amount < 0 && styles.negative]}>{formatMoney(amount)}</Text>
+    </View>
+  );
+}
+
+const installDetail = (count: number, tiered: boolean, bonus: number) =>
+  tiered ? `${count} (tiered rates)` : `${count} × ${formatMoney(bonus)}`;
+
+export function EarningsBreakdown({ statement }: EarningsBreakdownProps) {
+  const { plan } = statement;
+  const belowQuotaRate = Math.min(plan.baseHourlyRate, plan.belowQuotaHourlyRate);
+  const tiered = statement.tieredInstalls > 0;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.detail}>
+        {plan.name} plan v{plan.version} (from {plan.effectiveFrom})
+      </Text>
+      {statement.fullRateHours > 0 && (
+        <Line
+          label="Base pay"
+          detail={`${statement.fullRateHours.toFixed(2)} hrs × ${formatMoney(plan.baseHourlyRate)}/hr`}
+          amount={roundCents(statement.fullRateHours * plan.baseHourlyRate)}
+        />
+      )}
+      {statement.belowQuotaHours > 0 && (
+        <Line
+          label={statement.fullRateHours > 0 ? 'Below-quota hours' : 'Base pay'}
+          detail={`${statement.belowQuotaHours.toFixed(2)} hrs × ${formatMoney(belowQuotaRate)}/hr`}
+          amount={roundCents(statement.belowQuotaHours * belowQuotaRate)}
+        />
+      )}
+      {statement.hoursWorked === 0 && <Line label="Base pay" detail="No completed shifts" amount={0} />}
+      <Text style={[styles.quota, !statement.metQuota && styles.quotaMissed]}>
+        {statement.surveysPerHour.toFixed(1)} qualified surveys/hr (quota {plan.quota}
+        {plan.quotaBasis === 'daily' ? ' each day' : ''}) -{' '}
+        {statement.metQuota ? 'full rate' : 'below quota, minimum rate'}
+      </Text>
+      <Line
+        label="Survey installs"
+        detail={installDetail(statement.surveyInstalls, tiered, plan.surveyInstallBonus)}
+        amount={statement.surveyInstallPay}
+      />
+      <Line
+        label="Appointment installs"
+        detail={installDetail(statement.appointmentInstalls, tiered, plan.appointmentInstallBonus)}
+        amount={statement.appointmentInstallPay}
+      />
+      {tiered && (
+        <Text style={styles.quota}>
+          {statement.tieredInstalls} install(s) paid at a monthly bonus tier
+        </Text>
+      )}
+      {statement.adjustments.map(adjustment => (
+        <Line key={adjustment.id} label="Adjustment" detail={adjustment.reason} amount={adjustment.amount} />
+      ))}
+      <View style={[styles.line, styles.totalLine]}>
+        <Text style={styles.totalLabel}>Total</Text>
+        <Text style={styles.totalAmount}>{formatMoney(statement.total)}</Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: SPACING.sm,
+  },
+  line: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: SPACING.md,
+  },
+  lineLabel: {
+    flex: 1,
+  },
+  label: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: '600',
+    color: LOWES_THEME.text,
+  },
+  detail: {
+    fontSize: FONTS.sizes.xs,
+    color: LOWES_THEME.textSubtle,
+  },
+  amount: {
+    fontSize: FONTS.sizes.sm,
+    fontWeight: '600',
+    color: LOWES_THEME.text,
+  },
+  negative: {
+    color: LOWES_THEME.error,
+  },
+  quota: {
+    fontSize: FONTS.sizes.xs,
+    color: LOWES_THEME.success,
+  },
+  quotaMissed: {
+    color: LOWES_THEME.warning,
+  },
+  totalLine: {
+    borderTopWidth: 1,
+    borderTopColor: LOWES_THEME.border,
+    paddingTop: SPACING.sm,
+  },
+  totalLabel: {
+    fontSize: FONTS.sizes.md,
+    fontWeight: '700',
+    color: LOWES_THEME.text,
+  },
+  totalAmount: {
+    fontSize: FONTS.sizes.md,
+    fontWeight: '700',
+    color: LOWES_THEME.primary,
+  },
+});
@@ -0,0 +1,179 @@
+// Answer controls for a single survey question - shared by the kiosk and the admin survey preview
+import React, { useState } from 'react';
+import { View, StyleSheet, KeyboardTypeOptions } from 'react-native';
+import { Button } from './Button';
+import { Input } from './Input';
+import { SPACING, Theme, isTablet } from '@/constants/theme';
+import { SurveyQuestion } from '@/constants/surveyQuestions';
+
+interface SurveyQuestionInputProps {
+  question: SurveyQuestion;
+  answer: any;
+  theme: Theme;
+  onAnswer: (answer: any) => void;
+  onContinue: () => void;
+}
+
+const getKeyboardType = (question: SurveyQuestion): KeyboardTypeOptions => {
+  switch (question.type) {
+    case 'phone': return 'phone-pad';
+    case 'zip': return 'number-pad';
+    default: return 'default';
+  }
+};
+
+/**
+ * Renders the answer buttons/inputs for every question type except contact and signature,
+ * which need screen-level state and are rendered by the caller (returns null for those).
+ * Render with key={question.id} so typed values reset between questions.
+ */
+export function SurveyQuestionInput({ question, answer, theme, onAnswer, onContinue }: SurveyQuestionInputProps) {
+  const [textValue, setTextValue] = useState('');
+  const [selected, setSelected] = useState<string[]>(Array.isArray(answer) ? answer : []);
+
+  switch (question.type) {
+    case 'yesno':
+      return (
+        <View style={styles.optionsContainer}>
+          <Button
+            title="Yes"
+            onPress={() => onAnswer('Yes')}
+            backgroundColor={theme.success}
+            size="large"
+            fullWidth
+          />
+          <Button
+            title="No"
+            onPress={() => onAnswer('No')}
+            backgroundColor={theme.error}
+            size="large"
+            fullWidth
+          />
+        </View>
+      );
+
+    case 'choice':
+      return (
+        <View style={styles.optionsContainer}>
+          {question.options?.map((option) => (
+            <Button
+              key={option}
+              title={option}
+              onPress={() => onAnswer(option)}
+              variant={answer === option ? 'primary' : 'outline'}
+              backgroundColor={answer === option ? theme.primary : 'transparent'}
+              textColor={answer === option ? '#FFFFFF' : theme.primary}
+              size="large"
+              fullWidth
+            />
+          ))}
+          {question.allowNext && (
+            <Button
+              title="Continue"
+              onPress={onContinue}
+              backgroundColor={theme.primary}
+              size="large"
+              fullWidth
+            />
+          )}
+        </View>
+      );
+
+    case 'multiselect':
+      return (
+        <View style={styles.inputContainer}>
+          <View style={styles.optionsContainer}>
+            {question.options?.map((option) => {
+              const isSelected = selected.includes(option);
+              return (
+                <Button
+                  key={option}
+                  title={option}
+                  onPress={() => setSelected(isSelected
+                    ? selected.filter(item => item !== option)
+                    : [...selected, option])}
+                  variant={isSelected ? 'primary' : 'outline'}
+                  backgroundColor={isSelected ? theme.primary : 'transparent'}
+                  textColor={isSelected ? '#FFFFFF' : theme.primary}
+                  size="large"
+                  fullWidth
+                />
+              );
+            })}
+          </View>
+          <Button
+            title="Continue"
+            onPress={() => onAnswer(selected)}
+            backgroundColor={theme.primary}
+            size="large"
+            fullWidth
+          />
+        </View>
+      );
+
+    case 'number':
+      return (
+        <View style={styles.inputContainer}>
+          <Input
+            value={textValue}
+            onChangeText={(text) => {
+              // Only allow numbers
+              setTextValue(text.replace(/[^0-9]/g, ''));
+            }}
+            placeholder={question.placeholder || 'Enter number'}
+            keyboardType="number-pad"
+            borderColor={theme.primary}
+          />
+          <Button
+            title="Continue"
+            onPress={() => onAnswer(parseInt(textValue))}
+            backgroundColor={theme.primary}
+            size="large"
+            fullWidth
+            disabled={!textValue || parseInt(textValue) <= 0}
+          />
+        </View>
+      );
+
+    case 'text':
+    case 'phone':
+    case 'zip':
+    case 'address':
+    case 'datetime':
+      return (
+        <View style={styles.inputContainer}>
+          <Input
+            value={textValue}
+            onChangeText={setTextValue}
+            placeholder={question.placeholder}
+            keyboardType={getKeyboardType(question)}
+            maxLength={question.type === 'zip' ? 5 : undefined}
+            multiline={question.type === 'address'}
+            borderColor={theme.primary}
+          />
+          <Button
+            title="Continue"
+            onPress={() => onAnswer(textValue.trim())}
+            backgroundColor={theme.primary}
+            size="large"
+            fullWidth
+            disabled={question.required && !textValue.trim()}
+          />
+        </View>
+      );
+
+    default:
+      return null;
+  }
+}
+
+const styles = StyleSheet.create({
+  optionsContainer: {
+    gap: SPACING.md,
+    flexDirection: isTablet() ? 'row' : 'column',
+    flexWrap: 'wrap',
+  },
+  inputContainer: {
+    gap: SPACING.md,
+  },
+});
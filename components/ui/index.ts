@@ -4,3 +4,6 @@ export { StatsModal } from './StatsModal';
 export { DatePicker } from './DatePicker';
 export { TimePicker30 } from './TimePicker30';
 export { CriticalFeatureStatus } from './CriticalFeatureStatus';
+export { SurveyQuestionInput } from './SurveyQuestionInput';
+export { DeviceLockScreen } from './DeviceLockScreen';
+export { EarningsBreakdown } from './EarningsBreakdown';
@@ -0,0 +1,38 @@
+// Versioned consent disclosures shown at the signature step
+// Never edit a published version's text - add a new version so older consent records still match their hash
+
+export interface ConsentVersion {
+  version: string;
+  effectiveDate: string; // YYYY-MM-DD
+  disclosure: string; // Shown above the signature pad
+  callConsentLabel: string;
+  smsConsentLabel: string;
+}
+
+export const CONSENT_VERSIONS: ConsentVersion[] = [
+  {
+    version: '2026-10-01',
+    effectiveDate: '2026-10-01',
+    disclosure:
+      'By signing below, I confirm the information I provided is accurate and I request a free in-home water ' +
+      'analysis from RainSoft and its authorized dealer. I understand my signature is not a purchase commitment. ' +
+      'If I check the boxes below, I agree that RainSoft and its authorized dealer may contact me at the phone ' +
+      'number provided, including with calls and text messages sent using automated technology or prerecorded ' +
+      'voice, about water treatment products and my appointment. Consent is not a condition of purchase. ' +
+      'Message and data rates may apply. Message frequency varies. Reply STOP to opt out of texts at any time.',
+    callConsentLabel: 'Yes, you may call me at the number provided',
+    smsConsentLabel: 'Yes, you may text me at the number provided',
+  },
+];
+
+// Latest version is the one shown on the kiosk
+export const CURRENT_CONSENT_VERSION = CONSENT_VERSIONS[CONSENT_VERSIONS.length - 1];
+
+export const getConsentVersion = (version: string): ConsentVersion | undefined =>
+  CONSENT_VERSIONS.find(v => v.version === version);
+
+/**
+ * Exact text covered by the consent hash - disclosure plus both checkbox labels
+ */
+export const getConsentText = (consent: ConsentVersion): string =>
+  [consent.disclosure, consent.callConsentLabel, consent.smsConsentLabel].join('\n');
@@ -0,0 +1,33 @@
+// State minimum wages by effective date - the floor for below-quota pay.
+// Add the new rate (with its effective date) before it takes effect; never edit past rows,
+// they still price older pay periods
+
+export const FEDERAL_MINIMUM_WAGE = 7.25;
+
+export interface MinimumWageRate {
+  effectiveFrom: string; // YYYY-MM-DD
+  hourlyRate: number;
+}
+
+// States without an entry (e.g. AL) follow the federal minimum
+export const STATE_MINIMUM_WAGES: Record<string, MinimumWageRate[]> = {
+  // Amendment 2 (2020) - $1 a year each September 30 until $15
+  FL: [
+    { effectiveFrom: '2021-01-01', hourlyRate: 8.65 },
+    { effectiveFrom: '2021-09-30', hourlyRate: 10 },
+    { effectiveFrom: '2022-09-30', hourlyRate: 11 },
+    { effectiveFrom: '2023-09-30', hourlyRate: 12 },
+    { effectiveFrom: '2024-09-30', hourlyRate: 13 },
+    { effectiveFrom: '2025-09-30', hourlyRate: 14 },
+    { effectiveFrom: '2026-09-30', hourlyRate: 15 },
+  ],
+};
+
+/**
+ * Minimum wage in a state (two-letter code) on a day - never below the federal minimum
+ */
+export const getMinimumWage = (state: string | undefined, day: string): number => {
+  const rates = (state && STATE_MINIMUM_WAGES[state.toUpperCase()]) || [];
+  const current = rates.filter(rate => rate.effectiveFrom <= day).pop();
+  return Math.max(FEDERAL_MINIMUM_WAGE, current?.hourlyRate ?? 0);
+};
@@ -1,4 +1,7 @@
 // Survey questions and flow logic
+import type { Store } from '@/constants/theme';
+import type { Survey } from '@/types';
+
 export type QuestionType = 
   | 'yesno' 
   | 'choice' 
@@ -22,6 +25,62 @@ export interface SurveyQuestion {
   allowNext?: boolean;
   placeholder?: string;
   multiSelect?: boolean;
+  showIf?: SurveyCondition[]; // Only shown when ALL conditions match
+  skipIf?: SurveyCondition[]; // Skipped when ANY condition matches
+  endSurveyIf?: TerminationRule[]; // Evaluated right after this question is answered
+  validation?: ValidationRule;
+  answerMap?: Record<string, string>; // Stored value per selected option (e.g. Yes → "Tastes;Odors")
+}
+
+// ============ BRANCHING / VALIDATION RULES ============
+
+export type ConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'in'
+  | 'not_in'
+  | 'gt'
+  | 'lt'
+  | 'answered'
+  | 'not_answered';
+
+export interface SurveyCondition {
+  questionId: string; // Supports nested paths like "contact_info.zipCode"
+  operator: ConditionOperator;
+  value?: string | number | boolean | (string | number)[];
+}
+
+export interface TerminationRule {
+  when: SurveyCondition[]; // ALL must match
+  category: Survey['category'];
+  message?: string; // Shown to the surveyor when the survey ends
+}
+
+export interface ValidationRule {
+  min?: number;
+  max?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string; // Regular expression source
+  message?: string;
+}
+
+// ============ SURVEY DEFINITIONS ============
+
+export interface SurveyDefinitionTargeting {
+  stores?: Store[];
+  states?: string[]; // Two-letter state codes of the verified store
+  storeNumbers?: string[];
+}
+
+export interface SurveyDefinition {
+  id: string;
+  version: number;
+  name: string;
+  description?: string;
+  targeting?: SurveyDefinitionTargeting; // Empty = applies everywhere
+  questions: SurveyQuestion[];
+  publishedAt?: string;
 }
 
 export const SURVEY_QUESTIONS: SurveyQuestion[] = [
@@ -36,6 +95,13 @@ export const SURVEY_QUESTIONS: SurveyQuestion[] = [
     question: 'Are you a homeowner or currently purchasing a home?',
     type: 'yesno',
     required: true,
+    endSurveyIf: [
+      {
+        when: [{ questionId: 'is_homeowner', operator: 'equals', value: 'No' }],
+        category: 'renter',
+        message: 'Thank you! This survey has been recorded as a renter contact.',
+      },
+    ],
   },
   {
     id: 'water_quality',
@@ -62,6 +128,7 @@ export const SURVEY_QUESTIONS: SurveyQuestion[] = [
     question: 'Do you experience any tastes or odors with your tap water?',
     type: 'yesno',
     required: true,
+    answerMap: { Yes: 'Tastes;Odors', No: 'No Problems' },
   },
   {
     id: 'people_in_home',
@@ -69,6 +136,7 @@ export const SURVEY_QUESTIONS: SurveyQuestion[] = [
     type: 'number',
     required: true,
     placeholder: 'Enter number',
+    validation: { min: 1, max: 50, message: 'Please enter a valid number' },
   },
   {
     id: 'property_type',
@@ -92,6 +160,15 @@ export const SURVEY_QUESTIONS: SurveyQuestion[] = [
   },
 ];
 
+// Built-in definition - used when no published definition is cached on the device
+export const DEFAULT_SURVEY_DEFINITION: SurveyDefinition = {
+  id: 'default',
+  version: 1,
+  name: 'Standard Water Survey',
+  questions: SURVEY_QUESTIONS,
+};
+
+// Default weekly slots - live booking availability comes from appointmentAvailabilityService
 export const APPOINTMENT_TIMES = {
   weekday: ['10:00 AM', '1:00 PM', '4:00 PM', '7:00 PM'],
   saturday: ['10:00 AM', '1:00 PM'],
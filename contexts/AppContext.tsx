@@ -4,8 +4,19 @@ import { AppState, AppStateStatus } from 'react-native';
 import { Employee, TimeEntry, Survey, Schedule, Message, TimeOffRequest, DailySurveyCounts } from '@/types';
 import { Store } from '@/constants/theme';
 import * as StorageService from '@/services/storageService';
+import * as CurrentUserStore from '@/services/currentUserStore';
 import * as SyncService from '@/services/syncService';
+import * as BackgroundSyncService from '@/services/backgroundSyncService';
 import * as NotificationService from '@/services/notificationService';
+import * as OutboxService from '@/services/outboxService';
+import * as AppointmentAvailabilityService from '@/services/appointmentAvailabilityService';
+import * as AppointmentCalendarService from '@/services/appointmentCalendarService';
+import * as AppointmentMessagingService from '@/services/appointmentMessagingService';
+import * as PrivacyRequestService from '@/services/privacyRequestService';
+import * as DuplicateIndexService from '@/services/duplicateIndexService';
+import * as FailsafeStorage from '@/services/failsafeStorage';
+import * as DeviceFleetService from '@/services/deviceFleetService';
+import * as LogService from '@/services/logService';
 import NetInfo from '@react-native-community/netinfo';
 
 interface AppContextType {
@@ -19,18 +30,23 @@ interface AppContextType {
   schedules: Schedule[];
   messages: Message[];
   timeOffRequests: TimeOffRequest[];
+  isDeviceLocked: boolean; // Locked remotely from the fleet screen
   
   // Actions
   login: (email: string) => Promise<boolean>;
   logout: () => void;
+  unenrollDevice: () => Promise<void>;
   selectStore: (store: Store) => void;
   clockIn: (store: Store, gpsCoordinates?: { latitude: number; longitude: number; accuracy: number }, photoUri?: string) => Promise<void>;
   clockOut: () => Promise<void>;
   setKioskActive: (isActive: boolean) => Promise<void>;
+  startBreak: () => Promise<void>;
+  endBreak: () => Promise<void>;
   updateLastActivity: () => void;
   calculateDailyStats: () => Promise<{ hoursWorked: number; qualifiedSurveys: number; appointments: number; surveysPerHour: number }>;
   submitSurvey: (survey: Survey) => Promise<void>;
   loadData: () => Promise<void>;
+  refreshMessages: () => Promise<void>; // Messages only - cheaper than loadData for live updates
   syncData: () => Promise<void>;
   getClockedInEmployees: () => Promise<Array<{ employee: Employee; timeEntry: TimeEntry; todayStats: { surveys: number; appointments: number } }>>;
 }
@@ -58,6 +74,15 @@ export function AppProvider({ children }: { children: ReactNode }) {
   const [schedules, setSchedules] = useState<Schedule[]>([]);
   const [messages, setMessages] = useState<Message[]>([]);
   const [timeOffRequests, setTimeOffRequests] = useState<TimeOffRequest[]>([]);
+  const [isDeviceLocked, setIsDeviceLocked] = useState(false);
+
+  // Read by the fleet heartbeat, which outlives any single render
+  const heartbeatContextRef = useRef<DeviceFleetService.HeartbeatContext>({});
+  heartbeatContextRef.current = {
+    currentEmployeeId: currentUser?.id,
+    store: activeTimeEntry?.store || selectedStore || undefined,
+    storeName: activeTimeEntry?.storeName,
+  };
 
   // Request notification permissions on mount
   useEffect(() => {
@@ -115,8 +140,15 @@ export function AppProvider({ children }: { children: ReactNode }) {
       }
     });
     
-    // Start background sync
-    SyncService.startBackgroundSync();
+    // Start background sync - in-app triggers plus the OS background task
+    BackgroundSyncService.startBackgroundSync();
+
+    // Fleet heartbeat - reports status and picks up remote commands
+    DeviceFleetService.startHeartbeat({
+      getContext: () => heartbeatContextRef.current,
+      onLockChange: setIsDeviceLocked,
+      onWiped: resetAfterWipe,
+    });
     
     // START AUTOMATIC INACTIVITY ALERTS
     const ActivityService = require('@/services/activityService');
@@ -129,7 +161,8 @@ export function AppProvider({ children }: { children: ReactNode }) {
     return () => {
       clearInterval(intervalId);
       unsubscribe();
-      SyncService.stopBackgroundSync();
+      BackgroundSyncService.stopBackgroundSync();
+      DeviceFleetService.stopHeartbeat();
       
       // Stop inactivity alerts
       ActivityService.stopInactivityAlerts();
@@ -191,10 +224,18 @@ export function AppProvider({ children }: { children: ReactNode }) {
   };
 
   const initializeApp = async () => {
+    // Keep console output in the on-device log for diagnostic bundles
+    LogService.captureConsole();
+
+    // Encrypt anything an older version left in plaintext before it is read
+    await StorageService.encryptLocalData();
+    await FailsafeStorage.encryptCriticalStorage();
+    await LogService.encryptStoredLogs();
+    setIsDeviceLocked(await DeviceFleetService.isDeviceLocked());
     await StorageService.initializeDemoData();
     await loadData();
     
-    const user = await StorageService.getCurrentUser();
+    const user = await CurrentUserStore.getCurrentUser();
     if (user) {
       setCurrentUser(user);
       await checkActiveTimeEntry(user.id);
@@ -223,6 +264,10 @@ export function AppProvider({ children }: { children: ReactNode }) {
     setTimeOffRequests(timeOffData || []);
   };
 
+  const refreshMessages = async () => {
+    setMessages(await StorageService.getMessages() || []);
+  };
+
   const checkActiveTimeEntry = async (employeeId: string) => {
     const entries = await StorageService.getTimeEntries();
     const active = entries?.find(e => e.employeeId === employeeId && !e.clockOut);
@@ -266,7 +311,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
     if (employee) {
       console.log('✅ Login successful:', employee.email);
       setCurrentUser(employee);
-      await StorageService.setCurrentUser(employee);
+      await CurrentUserStore.setCurrentUser(employee);
       await checkActiveTimeEntry(employee.id);
       return true;
     }
@@ -279,7 +324,25 @@ export function AppProvider({ children }: { children: ReactNode }) {
     setCurrentUser(null);
     setActiveTimeEntry(null);
     setSelectedStore(null);
-    await StorageService.setCurrentUser(null);
+    await CurrentUserStore.setCurrentUser(null);
+  };
+
+  // Local data is gone - drop everything held in memory and stop talking to the server
+  const resetAfterWipe = () => {
+    BackgroundSyncService.stopBackgroundSync();
+    BackgroundSyncService.unregisterBackgroundTask();
+    DeviceFleetService.stopHeartbeat();
+    setCurrentUser(null);
+    setActiveTimeEntry(null);
+    setSelectedStore(null);
+    setSurveys([]);
+    setIsDeviceLocked(false);
+  };
+
+  const unenrollDevice = async () => {
+    await DeviceFleetService.markDeviceUnenrolled();
+    await StorageService.wipeDevice();
+    resetAfterWipe();
   };
 
   const selectStore = (store: Store) => {
@@ -297,8 +360,6 @@ export function AppProvider({ children }: { children: ReactNode }) {
     setActiveTimeEntry(entry);
     setSelectedStore(store);
     
-    await StorageService.addToSyncQueue({ type: 'timeEntry', data: entry });
-    
     // Notify managers
     const managers = employees.filter(e => e.role === 'admin' || e.role === 'manager');
     await NotificationService.notifyClockIn(currentUser, store === 'lowes' ? 'Lowes' : 'Home Depot', managers);
@@ -313,9 +374,9 @@ export function AppProvider({ children }: { children: ReactNode }) {
     // CRITICAL: Force sync all pending data before clocking out
     // This ensures no surveys are ever lost
     try {
-      const queue = await StorageService.getSyncQueue();
-      if (queue && queue.length > 0) {
-        console.log(`⏳ Attempting to sync ${queue.length} pending items before clock out...`);
+      const outbox = await OutboxService.getOutboxSummary();
+      if (outbox.pending > 0) {
+        console.log(`⏳ Attempting to sync ${outbox.pending} pending items before clock out...`);
         
         if (isOnline) {
           // Attempt to sync local data to cloud
@@ -333,6 +394,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
       // Sync will retry automatically when connectivity restores
     }
     
+    // Recorded locally first - never blocked by a dead zone
     await StorageService.clockOut(currentUser.id);
     setActiveTimeEntry(null);
     setSelectedStore(null);
@@ -355,6 +417,28 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const startBreak = async () => {
+    if (!currentUser) return;
+    const updatedEntry = await StorageService.startBreak(currentUser.id);
+    if (!updatedEntry) return;
+    setActiveTimeEntry(updatedEntry);
+
+    const managers = employees.filter(e => e.role === 'admin' || e.role === 'manager');
+    await NotificationService.notifyBreakStart(currentUser, managers);
+  };
+
+  const endBreak = async () => {
+    if (!currentUser) return;
+    const updatedEntry = await StorageService.endBreak(currentUser.id);
+    if (!updatedEntry) return;
+    setActiveTimeEntry(updatedEntry);
+    lastActivityRef.current = Date.now();
+
+    const managers = employees.filter(e => e.role === 'admin' || e.role === 'manager');
+    const store = updatedEntry.storeName || (updatedEntry.store === 'lowes' ? 'Lowes' : 'Home Depot');
+    await NotificationService.notifyBreakReturn(currentUser, store, managers);
+  };
+
 const setKioskActive = async (isActive: boolean) => {
     if (!currentUser) return;
     const updatedEntry = await StorageService.setKioskActiveStatus(currentUser.id, isActive);
@@ -427,6 +511,9 @@ const setKioskActive = async (isActive: boolean) => {
       // Reload data immediately to show new survey in UI
       await loadData();
       
+      // Salesforce lead / Zapier appointment wait in the outbox behind the survey upload
+      await SyncService.enqueueSurveySync(survey);
+      
       // BACKGROUND SYNC (non-blocking) - don't await this
       if (isOnline) {
         console.log('🌐 Online - starting background sync...');
@@ -434,36 +521,13 @@ const setKioskActive = async (isActive: boolean) => {
         // Fire and forget - sync in background without blocking UI
         (async () => {
           try {
-            // IMMEDIATE Salesforce sync for surveys (not renters)
-            if (survey.category !== 'renter' && survey.answers?.contact_info?.phone) {
-              console.log('📤 [Background] Syncing survey to Salesforce...');
-              const syncResult = await SyncService.processSyncQueue([{
-                type: 'survey',
-                data: survey,
-                timestamp: survey.timestamp,
-              }]);
-              console.log(`✅ [Background] Salesforce: ${syncResult.synced} synced, ${syncResult.duplicates} duplicates, ${syncResult.failed} failed`);
-            }
-            
-            // IMMEDIATE Zapier sync for appointments (sync both survey to Salesforce AND appointment to Zapier)
+            // IMMEDIATE Salesforce sync for surveys (not renters) + Zapier for appointments
+            const syncResult = await SyncService.processOutbox();
+            console.log(`✅ [Background] Salesforce/Zapier: ${syncResult.synced} synced, ${syncResult.duplicates} duplicates, ${syncResult.failed} failed`);
+
             if (survey.category === 'appointment' && survey.appointment) {
-              // First sync the survey part to Salesforce
-              console.log('📤 [Background] Syncing appointment survey to Salesforce...');
-              const salesforceResult = await SyncService.processSyncQueue([{
-                type: 'survey',
-                data: survey,
-                timestamp: survey.timestamp,
-              }]);
-              console.log(`✅ [Background] Appointment Survey → Salesforce: ${salesforceResult.synced} synced`);
-              
-              // Then sync appointment details to Zapier
-              console.log('📤 [Background] Syncing appointment to Zapier...');
-              const zapierResult = await SyncService.processSyncQueue([{
-                type: 'appointment',
-                data: { survey, appointment: survey.appointment },
-                timestamp: survey.timestamp,
-              }]);
-              console.log(`✅ [Background] Appointment → Zapier: ${zapierResult.synced} synced`);
+              // Immediate confirmation + 24h/2h reminders to the homeowner
+              await AppointmentMessagingService.scheduleAppointmentMessages(survey.id);
             }
             
             // Success - reload to show updated sync status
@@ -499,6 +563,12 @@ const setKioskActive = async (isActive: boolean) => {
       
       if (totalSynced > 0) {
         console.log(`✅ Synced ${result.surveySynced} surveys and ${result.timeSynced} time entries to cloud database`);
+
+        // Offline bookings may have landed in slots that filled up meanwhile
+        if (result.surveySynced > 0) {
+          await AppointmentAvailabilityService.flagOverbookedAppointments();
+        }
+
         await loadData(); // Refresh UI to show cloud data
       }
       if (totalFailed > 0) {
@@ -507,54 +577,52 @@ const setKioskActive = async (isActive: boolean) => {
       
       // STEP 2: Sync Cloud Database → Salesforce/Zapier
       console.log('🔄 STEP 2: Syncing cloud database → Salesforce/Zapier...');
-      const surveysData = await StorageService.getSurveys();
+      let surveysData = await StorageService.getSurveys();
+
+      // Surveys collected offline before an erasure request reached this kiosk
+      if (await PrivacyRequestService.enforceErasureRequests(surveysData) > 0) {
+        surveysData = await StorageService.getSurveys();
+        await loadData();
+      }
+
+      // Hashed lead index for the kiosk's offline duplicate check
+      await DuplicateIndexService.refreshDuplicateIndexIfStale();
+
+      // Appointment lifecycle ↔ calendar backend (push local changes, pull specialist updates)
+      await AppointmentCalendarService.pushPendingAppointments(surveysData);
+      const calendarUpdates = await AppointmentCalendarService.pullCalendarUpdates(surveysData);
+      await AppointmentMessagingService.schedulePendingAppointmentMessages(surveysData);
+      if (calendarUpdates > 0) {
+        await loadData();
+      }
       
       // Find surveys that need Salesforce/Zapier sync
       const needsSalesforceSync = surveysData.filter(s => 
         !s.syncedToSalesforce && 
+        !s.redactedAt && // Erased customers never go back to Salesforce
         s.category !== 'renter' && // Don't sync renters
         s.answers?.contact_info?.phone // Only sync if has phone
       );
       
       const needsZapierSync = surveysData.filter(s => 
         !s.syncedToZapier && 
+        !s.redactedAt &&
         s.category === 'appointment' // Only appointments to Zapier
       );
       
       console.log(`📊 Found ${needsSalesforceSync.length} surveys for Salesforce, ${needsZapierSync.length} appointments for Zapier`);
       
-      if (needsSalesforceSync.length > 0 || needsZapierSync.length > 0) {
-        // Build sync queue for Salesforce/Zapier
-        const syncQueue: any[] = [];
-        
-        // Add surveys for Salesforce
-        needsSalesforceSync.forEach(survey => {
-          syncQueue.push({
-            type: 'survey',
-            data: survey,
-            timestamp: survey.timestamp,
-          });
-        });
-        
-        // Add appointments for Zapier
-        needsZapierSync.forEach(survey => {
-          if (survey.appointment) {
-            syncQueue.push({
-              type: 'appointment',
-              data: { survey, appointment: survey.appointment },
-              timestamp: survey.timestamp,
-            });
-          }
-        });
+      // Already-queued surveys are skipped by their idempotency keys
+      for (const survey of [...needsSalesforceSync, ...needsZapierSync]) {
+        await SyncService.enqueueSurveySync(survey);
+      }
+      
+      const syncResult = await SyncService.processOutbox();
+      if (syncResult.synced > 0 || syncResult.failed > 0 || syncResult.duplicates > 0) {
+        console.log(`✅ Salesforce/Zapier sync complete: ${syncResult.synced} synced, ${syncResult.failed} failed, ${syncResult.duplicates} duplicates`);
         
-        if (syncQueue.length > 0) {
-          console.log(`🔄 Processing ${syncQueue.length} items for Salesforce/Zapier sync...`);
-          const syncResult = await SyncService.processSyncQueue(syncQueue);
-          console.log(`✅ Salesforce/Zapier sync complete: ${syncResult.synced} synced, ${syncResult.failed} failed, ${syncResult.duplicates} duplicates`);
-          
-          // Reload to reflect sync status updates
-          await loadData();
-        }
+        // Reload to reflect sync status updates
+        await loadData();
       }
       
     } catch (error) {
@@ -563,11 +631,7 @@ const setKioskActive = async (isActive: boolean) => {
   };
 
   const syncData = async () => {
-    const queue = await StorageService.getSyncQueue();
-    if (queue && queue.length > 0) {
-      await SyncService.processSyncQueue(queue);
-      await StorageService.clearSyncQueue();
-    }
+    await SyncService.processOutbox();
   };
 
   const getClockedInEmployees = async () => {
@@ -611,16 +675,21 @@ const setKioskActive = async (isActive: boolean) => {
         schedules,
         messages,
         timeOffRequests,
+        isDeviceLocked,
         login,
         logout,
+        unenrollDevice,
         selectStore,
         clockIn,
         clockOut,
         setKioskActive,
+        startBreak,
+        endBreak,
         updateLastActivity,
         calculateDailyStats,
         submitSurvey,
         loadData,
+        refreshMessages,
         syncData,
         getClockedInEmployees,
       }}
@@ -2,7 +2,9 @@
  * Deno ADP Sync Bridge
  * 
  * Handles mutual TLS (mTLS) authentication with ADP Workforce Now API
- * Syncs time clock data and employee onboarding from Onspace to ADP
+ * Syncs approved pay periods and employee onboarding from Onspace to ADP.
+ * Hours are only exported once a manager has approved and locked their pay period
+ * (pay_period_closes.status = 'locked') - one batch per period, with a reconciliation report
  * 
  * Deploy to: https://dash.deno.com/playground
  * 
@@ -21,8 +23,8 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
 // ============ CONFIGURATION ============
 const ADP_API_BASE = "https://api.adp.com";
 const ADP_TOKEN_URL = `${ADP_API_BASE}/auth/oauth/v2/token`;
-const ADP_TIME_URL = `${ADP_API_BASE}/time/v2/workers`;
 const ADP_HR_URL = `${ADP_API_BASE}/hr/v2/workers`;
+const ADP_PAY_DATA_URL = `${ADP_API_BASE}/events/payroll/v1/pay-data-input.modify`;
 
 // CORS headers
 const corsHeaders = {
@@ -176,39 +178,67 @@ function getSupabaseClient() {
 
 // ============ DATA TRANSFORMATION ============
 
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
 /**
- * Transform Onspace time entry to ADP time card format
+ * Transform a locked pay period's export lines to one ADP pay data input batch.
+ * A corrected shift from an earlier exported period (resyncs, keyed by correction id) goes in as a
+ * reversal of the hours ADP already has plus the corrected hours
  */
-function transformTimeEntry(timeEntry: any, employee: any): any {
-  const clockIn = new Date(timeEntry.clock_in);
-  const clockOut = timeEntry.clock_out ? new Date(timeEntry.clock_out) : null;
+function transformPayPeriodBatch(close: any, lines: any[], resyncs: Map<string, any>): any {
+  const amount = (value: number) => ({ amountValue: value, currencyCode: "USD" });
+  const earningInputs = (line: any) => {
+    const resync = line.correctionId ? resyncs.get(line.correctionId) : null;
+    if (resync) {
+      return [
+        {
+          earningCode: { codeValue: "REG" },
+          numberOfHours: -resync.reversedHours,
+          earningAmount: amount(-resync.reversedAmount),
+        },
+        {
+          earningCode: { codeValue: "REG" },
+          numberOfHours: resync.correctedHours,
+          earningAmount: amount(resync.correctedAmount),
+        },
+      ];
+    }
+    return [
+      {
+        earningCode: { codeValue: "REG" },
+        numberOfHours: line.hours,
+        earningAmount: amount(line.basePay),
+      },
+      ...(line.bonusPay !== 0
+        ? [{ earningCode: { codeValue: "BON" }, earningAmount: amount(line.bonusPay) }]
+        : []),
+      ...(line.adjustments !== 0
+        ? [{ earningCode: { codeValue: "ADJ" }, earningAmount: amount(line.adjustments) }]
+        : []),
+    ];
+  };
 
   return {
-    timeCards: [
+    events: [
       {
-        associateOID: employee.adp_employee_id, // ADP worker ID
-        timeSheets: [
-          {
-            timePeriod: {
-              startDate: clockIn.toISOString().split("T")[0],
-              endDate: clockOut
-                ? clockOut.toISOString().split("T")[0]
-                : clockIn.toISOString().split("T")[0],
-            },
-            entries: [
-              {
-                entryDate: clockIn.toISOString().split("T")[0],
-                timeTypeCode: { codeValue: "Regular Time" },
-                timeIn: clockIn.toISOString(),
-                timeOut: clockOut ? clockOut.toISOString() : undefined,
-                payCode: { codeValue: "REG" },
-                comment: `GPS: ${timeEntry.gps_latitude || "N/A"},${
-                  timeEntry.gps_longitude || "N/A"
-                } | Store: ${timeEntry.store_name || timeEntry.store}`,
+        data: {
+          transform: {
+            payDataInput: {
+              payPeriod: {
+                startDate: close.period_start,
+                endDate: close.period_end,
               },
-            ],
+              payeePayInputs: lines.map((line) => ({
+                associateOID: line.adpEmployeeId,
+                payrollProfilePayInputs: [
+                  {
+                    payInputs: [{ earningInputs: earningInputs(line) }],
+                  },
+                ],
+              })),
+            },
           },
-        ],
+        },
       },
     ],
   };
@@ -317,9 +347,221 @@ function transformEmployeeOnboarding(employee: any, onboarding: any): any {
 // ============ SYNC FUNCTIONS ============
 
 /**
- * Sync time entries from Onspace to ADP
+ * Export one locked pay period to ADP as a single batch and record the reconciliation.
+ * Approved time-card corrections to shifts from earlier exported periods ride along.
+ * Lines ADP accepted on an earlier attempt are not sent again
+ */
+async function syncPayPeriod(periodStart: string, submittedBy?: string): Promise<any> {
+  const supabase = getSupabaseClient();
+
+  const { data: close, error: closeError } = await supabase
+    .from("pay_period_closes")
+    .select("*")
+    .eq("id", periodStart)
+    .single();
+
+  if (closeError || !close) {
+    throw new Error(`No closed pay period starting ${periodStart}`);
+  }
+  if (close.status === "exported") {
+    console.log(`ℹ️ Pay period ${periodStart} already exported`);
+    return close.reconciliation;
+  }
+  if (close.status !== "locked") {
+    throw new Error(`Pay period ${periodStart} must be approved and locked before export`);
+  }
+
+  const { data: statements, error: statementError } = await supabase
+    .from("earnings_statements")
+    .select("*")
+    .eq("period_start", periodStart)
+    .eq("status", "approved");
+
+  if (statementError) {
+    throw statementError;
+  }
+
+  const { data: corrections, error: correctionError } = await supabase
+    .from("time_correction_requests")
+    .select("*")
+    .eq("status", "approved")
+    .eq("adp_resync->>status", "pending");
+
+  if (correctionError) {
+    throw correctionError;
+  }
+
+  const employeeIds = [
+    ...(statements || []).map((s: any) => s.employee_id),
+    ...(corrections || []).map((c: any) => c.employee_id),
+  ];
+  const { data: employees, error: employeeError } = await supabase
+    .from("employees")
+    .select("id, first_name, last_name, email, adp_employee_id")
+    .in("id", employeeIds.length > 0 ? employeeIds : [""]);
+
+  if (employeeError) {
+    throw employeeError;
+  }
+
+  const batchId = `${periodStart}_${Date.now()}`;
+  const lineKey = (line: any) => line.correctionId || line.employeeId;
+  const previous = close.reconciliation;
+  const previouslyAccepted = new Set(
+    (previous?.lines || [])
+      .filter((line: any) => line.status === "accepted")
+      .map(lineKey)
+  );
+
+  const statementLines = (statements || []).map((statement: any) => {
+    const employee = (employees || []).find((e: any) => e.id === statement.employee_id);
+    const adjustments = (statement.adjustments || []).reduce(
+      (sum: number, adjustment: any) => sum + Number(adjustment.amount),
+      0
+    );
+    const line: any = {
+      employeeId: statement.employee_id,
+      employeeName: employee ? `${employee.first_name} ${employee.last_name}` : statement.employee_id,
+      adpEmployeeId: employee?.adp_employee_id || undefined,
+      hours: Number(statement.hours_worked),
+      basePay: Number(statement.base_pay),
+      bonusPay: roundCents(Number(statement.survey_install_pay) + Number(statement.appointment_install_pay)),
+      adjustments: roundCents(adjustments),
+      total: Number(statement.total),
+      status: "accepted",
+    };
+
+    if (!previouslyAccepted.has(line.employeeId) && !line.adpEmployeeId) {
+      line.status = "skipped";
+      line.error = "No ADP employee ID configured";
+    }
+    return line;
+  });
+
+  // Corrections already accepted on an earlier attempt are no longer pending - carry their lines over
+  const resyncs = new Map<string, any>();
+  const correctionLines = [
+    ...(previous?.lines || []).filter((line: any) => line.correctionId && line.status === "accepted"),
+    ...(corrections || []).map((correction: any) => {
+      const employee = (employees || []).find((e: any) => e.id === correction.employee_id);
+      const resync = correction.adp_resync;
+      resyncs.set(correction.id, resync);
+      const line: any = {
+        employeeId: correction.employee_id,
+        correctionId: correction.id,
+        employeeName: `${employee ? `${employee.first_name} ${employee.last_name}` : correction.employee_id} (corrected shift, period of ${resync.periodStart})`,
+        adpEmployeeId: employee?.adp_employee_id || undefined,
+        hours: roundCents(resync.correctedHours - resync.reversedHours),
+        basePay: roundCents(resync.correctedAmount - resync.reversedAmount),
+        bonusPay: 0,
+        adjustments: 0,
+        total: roundCents(resync.correctedAmount - resync.reversedAmount),
+        status: "accepted",
+      };
+      if (!line.adpEmployeeId) {
+        line.status = "skipped";
+        line.error = "No ADP employee ID configured";
+      }
+      return line;
+    }),
+  ];
+  const lines = [...statementLines, ...correctionLines];
+
+  const toSend = lines.filter(
+    (line: any) => line.status === "accepted" && !previouslyAccepted.has(lineKey(line))
+  );
+
+  if (toSend.length > 0) {
+    console.log(`🔄 Exporting pay period ${periodStart} to ADP (${toSend.length} lines)...`);
+    try {
+      await adpRequest(ADP_PAY_DATA_URL, "POST", transformPayPeriodBatch(close, toSend, resyncs));
+      console.log(`✅ ADP accepted pay period ${periodStart}`);
+    } catch (error: any) {
+      console.error(`❌ ADP rejected pay period ${periodStart}:`, error.message);
+      toSend.forEach((line: any) => {
+        line.status = "rejected";
+        line.error = error.message;
+      });
+    }
+  }
+
+  // Flag the period's shifts for accepted employees - hours are in ADP now
+  let timeEntriesMarked = previous?.timeEntriesMarked || 0;
+  const newlyAccepted = toSend
+    .filter((line: any) => line.status === "accepted" && !line.correctionId)
+    .map((line: any) => line.employeeId);
+  if (newlyAccepted.length > 0 && (close.time_entry_ids || []).length > 0) {
+    const { data: marked, error: markError } = await supabase
+      .from("time_entries")
+      .update({ synced_to_adp: true })
+      .in("id", close.time_entry_ids)
+      .in("employee_id", newlyAccepted)
+      .select("id");
+
+    if (markError) {
+      console.error("❌ Failed to flag exported time entries:", markError);
+    } else {
+      timeEntriesMarked += (marked || []).length;
+    }
+  }
+
+  // Corrected shifts are in ADP now - close out their re-sync
+  const syncedAt = new Date().toISOString();
+  for (const line of toSend.filter((l: any) => l.status === "accepted" && l.correctionId)) {
+    const correction = (corrections || []).find((c: any) => c.id === line.correctionId);
+    const { error: resyncError } = await supabase
+      .from("time_correction_requests")
+      .update({ adp_resync: { ...correction.adp_resync, status: "synced", batchId, syncedAt } })
+      .eq("id", correction.id);
+    const { error: entryError } = await supabase
+      .from("time_entries")
+      .update({ synced_to_adp: true })
+      .eq("id", correction.time_entry_id);
+
+    if (resyncError || entryError) {
+      console.error(`❌ Failed to record ADP re-sync of correction ${correction.id}:`, resyncError || entryError);
+    } else {
+      timeEntriesMarked++;
+    }
+  }
+
+  const accepted = lines.filter((line: any) => line.status === "accepted");
+  const reconciliation = {
+    batchId,
+    submittedAt: syncedAt,
+    submittedBy,
+    lines,
+    expectedHours: roundCents(lines.reduce((sum: number, line: any) => sum + line.hours, 0)),
+    expectedTotal: roundCents(lines.reduce((sum: number, line: any) => sum + line.total, 0)),
+    exportedHours: roundCents(accepted.reduce((sum: number, line: any) => sum + line.hours, 0)),
+    exportedTotal: roundCents(accepted.reduce((sum: number, line: any) => sum + line.total, 0)),
+    timeEntriesMarked,
+  };
+  const complete = accepted.length === lines.length;
+
+  const { error: updateError } = await supabase
+    .from("pay_period_closes")
+    .update({
+      reconciliation,
+      status: complete ? "exported" : "locked",
+      exported_at: complete ? reconciliation.submittedAt : null,
+    })
+    .eq("id", periodStart);
+
+  if (updateError) {
+    throw updateError;
+  }
+
+  console.log(
+    `✅ Pay period ${periodStart}: ${accepted.length}/${lines.length} employees in ADP, $${reconciliation.exportedTotal} of $${reconciliation.expectedTotal}`
+  );
+  return reconciliation;
+}
+
+/**
+ * Export every locked pay period that is not fully in ADP yet
  */
-async function syncTimeEntries(): Promise<{
+async function syncLockedPayPeriods(): Promise<{
   synced: number;
   failed: number;
   errors: string[];
@@ -328,81 +570,46 @@ async function syncTimeEntries(): Promise<{
   const results = { synced: 0, failed: 0, errors: [] as string[] };
 
   try {
-    // Get unsynced time entries
-    const { data: timeEntries, error: fetchError } = await supabase
-      .from("time_entries")
-      .select(
-        `
-        *,
-        employees!inner(id, first_name, last_name, adp_employee_id, email)
-      `
-      )
-      .eq("synced_to_adp", false)
-      .not("clock_out", "is", null) // Only sync completed shifts
-      .limit(50); // Process in batches
+    const { data: closes, error: fetchError } = await supabase
+      .from("pay_period_closes")
+      .select("id")
+      .eq("status", "locked")
+      .order("period_start", { ascending: true });
 
     if (fetchError) {
       throw fetchError;
     }
 
-    if (!timeEntries || timeEntries.length === 0) {
-      console.log("ℹ️ No time entries to sync");
+    if (!closes || closes.length === 0) {
+      console.log("ℹ️ No locked pay periods to export");
       return results;
     }
 
-    console.log(`🔄 Syncing ${timeEntries.length} time entries to ADP...`);
-
-    // Sync each entry
-    for (const entry of timeEntries) {
+    for (const close of closes) {
       try {
-        const employee = entry.employees;
-
-        // Skip if employee doesn't have ADP ID
-        if (!employee.adp_employee_id) {
-          console.warn(
-            `⚠️ Employee ${employee.first_name} ${employee.last_name} has no ADP ID - skipping`
-          );
+        const reconciliation = await syncPayPeriod(close.id);
+        const problems = reconciliation.lines.filter((line: any) => line.status !== "accepted");
+        if (problems.length === 0) {
+          results.synced++;
+        } else {
           results.failed++;
-          results.errors.push(
-            `${employee.email}: No ADP employee ID configured`
+          problems.forEach((line: any) =>
+            results.errors.push(`${close.id} ${line.employeeName}: ${line.error}`)
           );
-          continue;
         }
-
-        // Transform data
-        const adpPayload = transformTimeEntry(entry, employee);
-
-        // Send to ADP
-        await adpRequest(
-          `${ADP_TIME_URL}/${employee.adp_employee_id}/team-time-cards`,
-          "POST",
-          adpPayload
-        );
-
-        // Mark as synced in Onspace
-        await supabase
-          .from("time_entries")
-          .update({ synced_to_adp: true })
-          .eq("id", entry.id);
-
-        results.synced++;
-        console.log(
-          `✅ Synced time entry for ${employee.first_name} ${employee.last_name}`
-        );
       } catch (error: any) {
         results.failed++;
-        const errorMsg = `${entry.employees.email}: ${error.message}`;
-        results.errors.push(errorMsg);
-        console.error(`❌ Failed to sync time entry:`, errorMsg);
+        results.errors.push(`${close.id}: ${error.message}`);
+        console.error(`❌ Failed to export pay period ${close.id}:`, error.message);
       }
     }
 
     console.log(
-      `✅ Time entry sync complete: ${results.synced} synced, ${results.failed} failed`
+      `✅ Pay period export complete: ${results.synced} exported, ${results.failed} incomplete`
     );
     return results;
   } catch (error: any) {
-    console.error("❌ Time entry sync error:", error);
+    console.error("❌ Pay period export error:", error);
     results.errors.push(`Global error: ${error.message}`);
     return results;
   }
@@ -514,9 +721,10 @@ async function handler(req: Request): Promise<Response> {
             endpoints: {
               "/": "This documentation",
               "/health": "Health check and ADP connection status",
-              "/sync/time-entries": "Sync time clock data to ADP",
+              "/sync/time-entries": "Export every locked pay period to ADP",
+              "/sync/pay-period": "Export one locked pay period ({ period_start }) and return its reconciliation",
               "/sync/employees": "Sync employee onboarding to ADP",
-              "/sync/all": "Sync both time entries and employees",
+              "/sync/all": "Export locked pay periods and sync employees",
               "/test/token": "Test ADP OAuth token generation",
             },
             authentication:
@@ -589,14 +797,29 @@ async function handler(req: Request): Promise<Response> {
       }
     }
 
-    // Sync time entries
+    // Export locked pay periods
     if (path === "/sync/time-entries" && req.method === "POST") {
-      const results = await syncTimeEntries();
+      const results = await syncLockedPayPeriods();
       return new Response(JSON.stringify(results, null, 2), {
         headers: corsHeaders,
       });
     }
 
+    // Export one pay period
+    if (path === "/sync/pay-period" && req.method === "POST") {
+      const body = await req.json();
+      if (!body?.period_start) {
+        return new Response(
+          JSON.stringify({ error: "period_start is required" }),
+          { status: 400, headers: corsHeaders }
+        );
+      }
+      const reconciliation = await syncPayPeriod(body.period_start, body.submitted_by);
+      return new Response(JSON.stringify(reconciliation, null, 2), {
+        headers: corsHeaders,
+      });
+    }
+
     // Sync employees
     if (path === "/sync/employees" && req.method === "POST") {
       const results = await syncEmployeeOnboarding();
@@ -608,7 +831,7 @@ async function handler(req: Request): Promise<Response> {
     // Sync everything
     if (path === "/sync/all" && req.method === "POST") {
       const [timeResults, employeeResults] = await Promise.all([
-        syncTimeEntries(),
+        syncLockedPayPeriods(),
         syncEmployeeOnboarding(),
       ]);
 
@@ -0,0 +1,30 @@
+// Hook to keep a screen current from Supabase Realtime - see services/realtimeService.ts
+import { useEffect, useRef, useState } from 'react';
+import * as RealtimeService from '@/services/realtimeService';
+
+export function useRealtime(
+  tables: RealtimeService.RealtimeTable[],
+  onUpdate: (update: RealtimeService.RealtimeUpdate) => void
+): RealtimeService.RealtimeStatus {
+  const [status, setStatus] = useState(RealtimeService.getRealtimeStatus());
+  const onUpdateRef = useRef(onUpdate);
+  onUpdateRef.current = onUpdate; // Always call the latest render's handler
+
+  const tablesKey = tables.join(',');
+
+  useEffect(() => {
+    const unsubscribeStatus = RealtimeService.onRealtimeStatusChange(setStatus);
+    const unsubscribe = RealtimeService.subscribe(
+      tablesKey.split(',') as RealtimeService.RealtimeTable[],
+      update => onUpdateRef.current(update)
+    );
+    setStatus(RealtimeService.getRealtimeStatus());
+
+    return () => {
+      unsubscribe();
+      unsubscribeStatus();
+    };
+  }, [tablesKey]);
+
+  return status;
+}
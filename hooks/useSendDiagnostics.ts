@@ -0,0 +1,41 @@
+// "Send Diagnostics" action shared by the sync dashboard and the critical systems card
+import { useState } from 'react';
+import { useAlert } from '@/template';
+import * as DiagnosticsService from '@/services/diagnosticsService';
+
+export function useSendDiagnostics() {
+  const { showAlert } = useAlert();
+  const [sending, setSending] = useState(false);
+
+  const sendDiagnostics = async (reason?: string) => {
+    setSending(true);
+    try {
+      const result = await DiagnosticsService.sendDiagnostics(reason);
+
+      if (result.uploaded) {
+        showAlert('Diagnostics Sent ✓', `Give support this reference:\n\n${result.path}\n\nCustomer details are removed before upload.`);
+      } else if (result.localUri) {
+        const localUri = result.localUri;
+        showAlert('Upload Failed', `The diagnostics file could not be uploaded (${result.error}). Share it with support another way?`, [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Share File',
+            onPress: async () => {
+              if (!(await DiagnosticsService.shareDiagnostics(localUri))) {
+                showAlert('Sharing Unavailable', 'Sharing is not available on this device. Try again when online.');
+              }
+            },
+          },
+        ]);
+      } else {
+        showAlert('Upload Failed', `The diagnostics file could not be uploaded: ${result.error}`);
+      }
+    } catch (error) {
+      showAlert('Diagnostics Error', `Failed to collect diagnostics: ${error}`);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return { sending, sendDiagnostics };
+}
@@ -0,0 +1,110 @@
+#!/usr/bin/env node
+
+/**
+ * Local CalDAV/ICS stand-in for testing the appointment-calendar edge function.
+ *
+ * Stores calendar objects in memory (optionally persisted to a JSON file) and supports the subset
+ * of CalDAV the edge function uses:
+ *   PUT    /{territory}/{uid}.ics   create/replace an event
+ *   GET    /{territory}/{uid}.ics   read an event
+ *   DELETE /{territory}/{uid}.ics   delete an event (the app treats this as a cancellation)
+ *   GET    /{territory}/            all events in the territory as one subscribable .ics feed
+ *
+ * Usage: npm run calendar:local -- [--port 5232] [--data ./caldav-data.json]
+ * Then set CALDAV_URL=http://host.docker.internal:5232 for `supabase functions serve`.
+ * To simulate a specialist editing an event, GET it, change DTSTART/STATUS, bump SEQUENCE and PUT it back.
+ */
+const fs = require("fs");
+const http = require("http");
+
+const getArg = (name, fallback) => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+};
+
+const port = parseInt(getArg("port", "5232"), 10);
+const dataFile = getArg("data", null);
+
+// { [territory]: { [uid]: icsText } }
+let calendars = {};
+if (dataFile && fs.existsSync(dataFile)) {
+  calendars = JSON.parse(fs.readFileSync(dataFile, "utf8"));
+}
+
+const persist = () => {
+  if (dataFile) fs.writeFileSync(dataFile, JSON.stringify(calendars, null, 2));
+};
+
+const extractEvents = (ics) => {
+  const match = ics.match(/BEGIN:VEVENT[\s\S]*?END:VEVENT/g);
+  return match ? match.join("\r\n") : "";
+};
+
+const buildFeed = (territory) =>
+  [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//RainSoft//Local CalDAV Stand-in//EN",
+    `X-WR-CALNAME:${territory}`,
+    ...Object.values(calendars[territory] || {}).map(extractEvents),
+    "END:VCALENDAR",
+    "",
+  ].join("\r\n");
+
+const server = http.createServer((req, res) => {
+  const parts = decodeURIComponent(req.url.split("?")[0])
+    .split("/")
+    .filter(Boolean);
+  const [territory, file] = parts;
+  const uid = file && file.endsWith(".ics") ? file.slice(0, -4) : null;
+
+  const send = (status, body = "", contentType = "text/plain") => {
+    res.writeHead(status, { "Content-Type": contentType });
+    res.end(body);
+  };
+
+  if (!territory) return send(404, "Not found");
+
+  // Whole-territory feed
+  if (!uid) {
+    if (req.method !== "GET") return send(405, "Method not allowed");
+    return send(200, buildFeed(territory), "text/calendar; charset=utf-8");
+  }
+
+  const events = calendars[territory] || {};
+
+  switch (req.method) {
+    case "GET":
+      return events[uid]
+        ? send(200, events[uid], "text/calendar; charset=utf-8")
+        : send(404, "Not found");
+
+    case "PUT": {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        const existed = !!events[uid];
+        calendars[territory] = { ...events, [uid]: body };
+        persist();
+        console.log(`📅 ${existed ? "Updated" : "Created"} ${territory}/${uid}`);
+        send(existed ? 204 : 201);
+      });
+      return;
+    }
+
+    case "DELETE":
+      if (!events[uid]) return send(404, "Not found");
+      delete events[uid];
+      persist();
+      console.log(`🗑️ Deleted ${territory}/${uid}`);
+      return send(204);
+
+    default:
+      return send(405, "Method not allowed");
+  }
+});
+
+server.listen(port, () => {
+  console.log(`✅ Local CalDAV stand-in listening on http://localhost:${port}`);
+  if (dataFile) console.log(`💾 Persisting events to ${dataFile}`);
+});
@@ -1,6 +1,5 @@
 // Activity tracking service for monitoring employee activity
 import { getSupabaseClient } from '@/template';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as StorageService from './storageService';
 import * as NotificationService from './notificationService';
 import { Employee } from '@/types';
@@ -10,7 +9,7 @@ const supabase = getSupabaseClient();
 export interface ActivityEvent {
   employeeId: string;
   timeEntryId?: string;
-  eventType: 'app_heartbeat' | 'survey_started' | 'survey_page_changed' | 'survey_submitted' | 'page_view' | 'kiosk_exited' | 'survey_inactivity_detected';
+  eventType: 'app_heartbeat' | 'survey_started' | 'survey_page_changed' | 'survey_submitted' | 'page_view' | 'kiosk_exited' | 'survey_inactivity_detected' | 'survey_duplicate_discarded';
   pagePath?: string;
   isPageVisible?: boolean;
   metadata?: any;
@@ -264,48 +263,9 @@ export const forceClockOut = async (
       isTemp: timeEntry.id.startsWith('temp_'),
     });
     
-    // Check if this is a temporary (unsynced) entry
-    const isLocalOnly = timeEntry.id.startsWith('temp_');
-    
-    if (isLocalOnly) {
-      // Entry is still in local storage only - update it there
-      console.log('📱 Updating local storage entry...');
-      
-      const updatedEntries = allTimeEntries.map(entry => {
-        if (entry.id === timeEntryId) {
-          return {
-            ...entry,
-            clockOut: new Date().toISOString(),
-            isActiveInKiosk: false,
-          };
-        }
-        return entry;
-      });
-      
-      // Save back to local storage
-      const KEYS = {
-        LOCAL_TIME_ENTRIES: 'local_time_entries_failsafe',
-      };
-      await AsyncStorage.setItem(KEYS.LOCAL_TIME_ENTRIES, JSON.stringify(updatedEntries.filter(e => e.id.startsWith('temp_'))));
-      console.log('✅ Local entry clocked out successfully');
-    } else {
-      // Entry exists in database - update it there
-      console.log('☁️ Updating database entry...');
-      
-      const { error } = await supabase
-        .from('time_entries')
-        .update({
-          clock_out: new Date().toISOString(),
-          is_active_in_kiosk: false,
-        })
-        .eq('id', timeEntryId);
-
-      if (error) {
-        console.error('❌ Database update failed:', error);
-        return false;
-      }
-      console.log('✅ Database entry clocked out successfully');
-    }
+    // Recorded locally first and replayed to the server - works for unsynced (temp_) entries and offline
+    await StorageService.clockOutTimeEntry(timeEntry);
+    console.log('✅ Time entry clocked out');
 
     // Log the action
     await logInactivity(
@@ -0,0 +1,351 @@
+// Appointment availability engine - slot capacity per territory, blackouts, lead time and booked counts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getSupabaseClient } from '@/template';
+import { APPOINTMENT_TIMES } from '@/constants/surveyQuestions';
+import {
+  Survey,
+  AppointmentAvailabilityConfig,
+  AppointmentTerritory,
+  AppointmentSlot,
+} from '@/types';
+import * as ConflictService from './conflictService';
+
+const supabase = getSupabaseClient();
+
+const KEYS = {
+  CONFIG_CACHE: '@rainsoft/appointments/availabilityConfig',
+  BOOKINGS_CACHE: '@rainsoft/appointments/bookings',
+  LAST_REFRESH: '@rainsoft/appointments/lastRefresh',
+};
+
+const REFRESH_INTERVAL = 5 * 60 * 1000; // 5 minutes - bookings change throughout the day
+
+export const DEFAULT_TERRITORY_ID = 'default';
+
+export const DEFAULT_AVAILABILITY_CONFIG: AppointmentAvailabilityConfig = {
+  times: APPOINTMENT_TIMES,
+  defaultCapacityPerSlot: 2,
+  leadTimeHours: 2,
+  maxDaysAhead: 30,
+  territories: [],
+  blackouts: [],
+};
+
+export interface BookedSlot {
+  surveyId: string;
+  territoryId: string;
+  date: string;
+  time: string;
+  bookedAt: string; // Survey timestamp - earliest bookings keep the slot when overbooked
+}
+
+export interface AvailabilitySnapshot {
+  config: AppointmentAvailabilityConfig;
+  bookings: BookedSlot[];
+  refreshedAt: string | null; // null = never refreshed (built-in defaults)
+  isCached: boolean; // true when the cloud could not be reached
+}
+
+// ============ DATE HELPERS ============
+
+/**
+ * Local calendar date as YYYY-MM-DD (appointments are booked in the kiosk's local time)
+ */
+export const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Combine a YYYY-MM-DD date and a "1:00 PM" slot into a local Date
+ */
+export const getSlotStart = (dateKey: string, time: string): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const match = time.match(/^(\d{1,2}):(\d{2})\s*(AM|PM)$/i);
+  let hours = match ? parseInt(match[1], 10) % 12 : 0;
+  if (match && match[3].toUpperCase() === 'PM') hours += 12;
+  return new Date(year, month - 1, day, hours, match ? parseInt(match[2], 10) : 0);
+};
+
+// ============ TERRITORIES ============
+
+/**
+ * Territory for a customer zip - the longest matching prefix wins
+ */
+export const getTerritoryForZip = (
+  config: AppointmentAvailabilityConfig,
+  zipCode?: string
+): AppointmentTerritory => {
+  let best: AppointmentTerritory | null = null;
+  let bestLength = 0;
+
+  if (zipCode) {
+    for (const territory of config.territories) {
+      for (const prefix of territory.zipPrefixes) {
+        if (zipCode.startsWith(prefix) && prefix.length > bestLength) {
+          best = territory;
+          bestLength = prefix.length;
+        }
+      }
+    }
+  }
+
+  return best || {
+    id: DEFAULT_TERRITORY_ID,
+    name: 'Default',
+    zipPrefixes: [],
+    capacityPerSlot: config.defaultCapacityPerSlot,
+  };
+};
+
+const getBookingForSurvey = (survey: Survey, config: AppointmentAvailabilityConfig): BookedSlot | null => {
+  if (survey.category !== 'appointment' || !survey.appointment?.date || !survey.appointment?.time) return null;
+  // Cancelled and completed appointments give their slot back
+  if (survey.appointment.status === 'cancelled' || survey.appointment.status === 'completed') return null;
+
+  return {
+    surveyId: survey.id,
+    territoryId: survey.appointment.territoryId
+      || getTerritoryForZip(config, survey.answers?.contact_info?.zipCode).id,
+    date: survey.appointment.date,
+    time: survey.appointment.time,
+    bookedAt: survey.timestamp,
+  };
+};
+
+// ============ CLOUD + CACHE ============
+
+const parseConfig = (raw: any): AppointmentAvailabilityConfig => ({
+  times: raw?.times || DEFAULT_AVAILABILITY_CONFIG.times,
+  defaultCapacityPerSlot: Number(raw?.defaultCapacityPerSlot) || DEFAULT_AVAILABILITY_CONFIG.defaultCapacityPerSlot,
+  leadTimeHours: Number(raw?.leadTimeHours ?? DEFAULT_AVAILABILITY_CONFIG.leadTimeHours),
+  maxDaysAhead: Number(raw?.maxDaysAhead) || DEFAULT_AVAILABILITY_CONFIG.maxDaysAhead,
+  territories: Array.isArray(raw?.territories) ? raw.territories : [],
+  blackouts: Array.isArray(raw?.blackouts) ? raw.blackouts : [],
+});
+
+const getCachedSnapshot = async (): Promise<AvailabilitySnapshot> => {
+  try {
+    const [config, bookings, refreshedAt] = await Promise.all([
+      AsyncStorage.getItem(KEYS.CONFIG_CACHE),
+      AsyncStorage.getItem(KEYS.BOOKINGS_CACHE),
+      AsyncStorage.getItem(KEYS.LAST_REFRESH),
+    ]);
+
+    return {
+      config: config ? JSON.parse(config) : DEFAULT_AVAILABILITY_CONFIG,
+      bookings: bookings ? JSON.parse(bookings) : [],
+      refreshedAt,
+      isCached: true,
+    };
+  } catch (error) {
+    console.error('Error reading cached availability:', error);
+    return { config: DEFAULT_AVAILABILITY_CONFIG, bookings: [], refreshedAt: null, isCached: true };
+  }
+};
+
+/**
+ * Pull the availability config and every upcoming booked appointment, then cache both
+ * Falls back to the last cached snapshot when offline
+ */
+export const refreshAvailability = async (): Promise<AvailabilitySnapshot> => {
+  try {
+    const { data: configRow, error: configError } = await supabase
+      .from('appointment_availability')
+      .select('config')
+      .limit(1)
+      .maybeSingle();
+
+    if (configError) throw configError;
+
+    const config = parseConfig(configRow?.config);
+
+    const { data: rows, error: surveysError } = await supabase
+      .from('surveys')
+      .select('id, timestamp, category, answers, appointment')
+      .eq('category', 'appointment')
+      .gte('appointment->>date', toDateKey(new Date()));
+
+    if (surveysError) throw surveysError;
+
+    const bookings = (rows || [])
+      .map((row: any) => getBookingForSurvey({
+        id: row.id,
+        timestamp: row.timestamp,
+        category: row.category,
+        answers: row.answers || {},
+        appointment: row.appointment,
+      } as Survey, config))
+      .filter((booking: BookedSlot | null): booking is BookedSlot => booking !== null);
+
+    const refreshedAt = new Date().toISOString();
+    await AsyncStorage.setItem(KEYS.CONFIG_CACHE, JSON.stringify(config));
+    await AsyncStorage.setItem(KEYS.BOOKINGS_CACHE, JSON.stringify(bookings));
+    await AsyncStorage.setItem(KEYS.LAST_REFRESH, refreshedAt);
+
+    console.log(`✅ Appointment availability refreshed: ${bookings.length} upcoming bookings`);
+    return { config, bookings, refreshedAt, isCached: false };
+  } catch (error) {
+    console.warn('⚠️ Could not refresh appointment availability (using cache):', error);
+    return await getCachedSnapshot();
+  }
+};
+
+/**
+ * Snapshot for the booking screen - refreshes when stale, otherwise serves the cache
+ */
+export const getAvailabilitySnapshot = async (forceRefresh = false): Promise<AvailabilitySnapshot> => {
+  const cached = await getCachedSnapshot();
+  const isStale = !cached.refreshedAt || Date.now() - new Date(cached.refreshedAt).getTime() > REFRESH_INTERVAL;
+  return forceRefresh || isStale ? await refreshAvailability() : { ...cached, isCached: false };
+};
+
+/**
+ * Cloud bookings plus this device's surveys that may not have synced yet
+ */
+export const mergeLocalBookings = (snapshot: AvailabilitySnapshot, surveys: Survey[]): BookedSlot[] => {
+  const merged = new Map(snapshot.bookings.map(booking => [booking.surveyId, booking]));
+  for (const survey of surveys) {
+    const booking = getBookingForSurvey(survey, snapshot.config);
+    if (booking && !merged.has(survey.id)) merged.set(survey.id, booking);
+  }
+  return Array.from(merged.values());
+};
+
+// ============ SLOTS ============
+
+/**
+ * All slots for one day in the customer's territory, with why any slot is unavailable
+ */
+export const getDaySlots = (
+  config: AppointmentAvailabilityConfig,
+  bookings: BookedSlot[],
+  date: Date,
+  zipCode?: string,
+  now: Date = new Date()
+): AppointmentSlot[] => {
+  const territory = getTerritoryForZip(config, zipCode);
+  const times = territory.times || config.times;
+  const dateKey = toDateKey(date);
+  const day = date.getDay();
+  const dayTimes = day === 0 ? times.sunday : day === 6 ? times.saturday : times.weekday;
+
+  const earliest = now.getTime() + config.leadTimeHours * 60 * 60 * 1000;
+  const latest = new Date(now);
+  latest.setDate(latest.getDate() + config.maxDaysAhead);
+  latest.setHours(23, 59, 59, 999);
+
+  const blackouts = config.blackouts.filter(b =>
+    b.date === dateKey && (!b.territoryId || b.territoryId === territory.id)
+  );
+
+  return dayTimes.map(time => {
+    const booked = bookings.filter(b => b.territoryId === territory.id && b.date === dateKey && b.time === time).length;
+    const start = getSlotStart(dateKey, time);
+
+    let reason: AppointmentSlot['reason'];
+    if (blackouts.some(b => !b.times || b.times.length === 0 || b.times.includes(time))) {
+      reason = 'blackout';
+    } else if (start.getTime() < earliest) {
+      reason = 'lead_time';
+    } else if (start > latest) {
+      reason = 'too_far';
+    } else if (booked >= territory.capacityPerSlot) {
+      reason = 'full';
+    }
+
+    return {
+      date: dateKey,
+      time,
+      territoryId: territory.id,
+      capacity: territory.capacityPerSlot,
+      booked,
+      available: !reason,
+      reason,
+    };
+  });
+};
+
+/**
+ * Reason a whole day is closed (holiday/blackout name), if any
+ */
+export const getBlackoutReason = (
+  config: AppointmentAvailabilityConfig,
+  date: Date,
+  zipCode?: string
+): string | null => {
+  const territory = getTerritoryForZip(config, zipCode);
+  const dateKey = toDateKey(date);
+  const blackout = config.blackouts.find(b =>
+    b.date === dateKey &&
+    (!b.territoryId || b.territoryId === territory.id) &&
+    (!b.times || b.times.length === 0)
+  );
+  return blackout ? blackout.reason : null;
+};
+
+// ============ OVERBOOKING ============
+
+/**
+ * Survey ids whose booking pushed a slot over capacity (later bookings lose the slot)
+ */
+export const findOverbookedSurveyIds = (
+  config: AppointmentAvailabilityConfig,
+  bookings: BookedSlot[]
+): string[] => {
+  const capacityByTerritory = new Map(config.territories.map(t => [t.id, t.capacityPerSlot]));
+  const slots = new Map<string, BookedSlot[]>();
+
+  for (const booking of bookings) {
+    const key = `${booking.territoryId}|${booking.date}|${booking.time}`;
+    slots.set(key, [...(slots.get(key) || []), booking]);
+  }
+
+  const overbooked: string[] = [];
+  for (const slotBookings of slots.values()) {
+    const capacity = capacityByTerritory.get(slotBookings[0].territoryId) ?? config.defaultCapacityPerSlot;
+    if (slotBookings.length <= capacity) continue;
+
+    slotBookings
+      .sort((a, b) => new Date(a.bookedAt).getTime() - new Date(b.bookedAt).getTime())
+      .slice(capacity)
+      .forEach(booking => overbooked.push(booking.surveyId));
+  }
+
+  return overbooked;
+};
+
+/**
+ * Run after offline surveys reach the cloud: mark appointments that no longer fit their slot
+ * so the office can reschedule them. Returns how many appointments were newly flagged
+ */
+export const flagOverbookedAppointments = async (): Promise<number> => {
+  const snapshot = await refreshAvailability();
+  if (snapshot.isCached) return 0;
+
+  const overbookedIds = findOverbookedSurveyIds(snapshot.config, snapshot.bookings);
+  if (overbookedIds.length === 0) return 0;
+
+  let flagged = 0;
+  for (const surveyId of overbookedIds) {
+    try {
+      // Re-read inside the versioned write so a concurrent reschedule isn't overwritten
+      let changed = false;
+      await ConflictService.updateVersionedRecord('survey', surveyId, current => {
+        changed = !!current.appointment && !current.appointment.overbooked;
+        return changed
+          ? { appointment: { ...current.appointment, overbooked: true, overbookedAt: new Date().toISOString() } }
+          : null;
+      });
+      if (changed) flagged++;
+    } catch (error) {
+      console.error(`Error flagging overbooked appointment ${surveyId}:`, error);
+    }
+  }
+
+  if (flagged > 0) {
+    console.log(`⚠️ Flagged ${flagged} overbooked appointment(s) for rescheduling`);
+  }
+  return flagged;
+};
@@ -0,0 +1,264 @@
+// Appointment lifecycle + two-way sync with the calendar backend (appointment-calendar edge function)
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getSupabaseClient } from '@/template';
+import * as StorageService from '@/services/storageService';
+import { Survey, Appointment, AppointmentStatus, AppointmentStatusChange } from '@/types';
+import { getDeviceAuthHeaders } from './deviceIdentity';
+
+const supabase = getSupabaseClient();
+
+// Every action needs the device's credentials - only the .ics feed itself is public
+const invokeCalendar = async (body: Record<string, unknown>) =>
+  supabase.functions.invoke('appointment-calendar', { headers: (await getDeviceAuthHeaders()) || {}, body });
+
+const KEYS = {
+  LAST_PULL: '@rainsoft/appointments/calendarLastPull',
+};
+
+// Which statuses each status can move to - cancelled and completed are final
+export const APPOINTMENT_STATUS_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  booked: ['confirmed', 'rescheduled', 'cancelled', 'completed'],
+  confirmed: ['rescheduled', 'cancelled', 'completed'],
+  rescheduled: ['confirmed', 'rescheduled', 'cancelled', 'completed'],
+  cancelled: [],
+  completed: [],
+};
+
+export const APPOINTMENT_STATUS_LABELS: Record<AppointmentStatus, string> = {
+  booked: 'Booked',
+  confirmed: 'Confirmed',
+  rescheduled: 'Rescheduled',
+  cancelled: 'Cancelled',
+  completed: 'Completed',
+};
+
+export interface CalendarEventChange {
+  surveyId: string;
+  status: AppointmentStatus;
+  date: string;
+  time: string;
+  sequence: number;
+  updatedAt: string;
+}
+
+export const getAppointmentStatus = (appointment: Appointment): AppointmentStatus =>
+  appointment.status || 'booked';
+
+export const canTransition = (appointment: Appointment, next: AppointmentStatus): boolean =>
+  APPOINTMENT_STATUS_TRANSITIONS[getAppointmentStatus(appointment)].includes(next);
+
+/**
+ * New appointment as booked at the kiosk - first entry in its history
+ */
+export const createBookedAppointment = (appointment: Appointment): Appointment => {
+  const now = new Date().toISOString();
+  return {
+    ...appointment,
+    status: 'booked',
+    statusUpdatedAt: now,
+    history: [{ status: 'booked', at: now, source: 'kiosk', date: appointment.date, time: appointment.time }],
+    calendarSequence: 0,
+    calendarSynced: false,
+  };
+};
+
+/**
+ * Apply a status change (with a new slot for reschedules) and record it in the history
+ */
+export const applyStatusChange = (
+  appointment: Appointment,
+  status: AppointmentStatus,
+  source: AppointmentStatusChange['source'],
+  changes: { date?: string; time?: string; note?: string; sequence?: number } = {}
+): Appointment => {
+  const now = new Date().toISOString();
+  const date = changes.date || appointment.date;
+  const time = changes.time || appointment.time;
+
+  return {
+    ...appointment,
+    date,
+    time,
+    status,
+    statusUpdatedAt: now,
+    history: [...(appointment.history || []), { status, at: now, source, date, time, note: changes.note }],
+    // Changes pulled from the calendar already carry its sequence; local changes bump ours
+    calendarSequence: changes.sequence ?? (appointment.calendarSequence || 0) + 1,
+    calendarSynced: source === 'calendar',
+    // A reschedule resolves an overbooking
+    overbooked: status === 'rescheduled' ? false : appointment.overbooked,
+  };
+};
+
+// ============ PUSH ============
+
+const toCalendarEvent = (survey: Survey, appointment: Appointment) => {
+  const contact = survey.answers.contact_info;
+  return {
+    surveyId: survey.id,
+    territoryId: appointment.territoryId || 'default',
+    status: getAppointmentStatus(appointment),
+    date: appointment.date,
+    time: appointment.time,
+    sequence: appointment.calendarSequence || 0,
+    summary: `Water test - ${contact?.firstName || ''} ${contact?.lastName || ''}`.trim(),
+    location: appointment.address,
+    description: [
+      contact?.phone ? `Phone: ${contact.phone}` : '',
+      appointment.email ? `Email: ${appointment.email}` : '',
+      appointment.spouseName ? `Spouse: ${appointment.spouseName}` : '',
+      `Store: ${survey.storeName || (survey.store === 'lowes' ? "Lowe's" : 'Home Depot')}`,
+      survey.employeeAlias ? `Booked by: ${survey.employeeAlias}` : '',
+      appointment.notes ? `Notes: ${appointment.notes}` : '',
+    ].filter(Boolean).join('\n'),
+  };
+};
+
+/**
+ * Send one appointment's current state to the calendar backend
+ */
+export const pushAppointmentToCalendar = async (survey: Survey): Promise<boolean> => {
+  if (!survey.appointment) return false;
+
+  try {
+    const { data, error } = await invokeCalendar({ action: 'upsert', event: toCalendarEvent(survey, survey.appointment) });
+
+    if (error || !data?.success) {
+      console.error('Calendar push failed:', error || data?.error);
+      return false;
+    }
+
+    await StorageService.updateSurveyAppointment(survey.id, { ...survey.appointment, calendarSynced: true });
+    return true;
+  } catch (error) {
+    console.error('Calendar push error:', error);
+    return false;
+  }
+};
+
+/**
+ * Push every appointment whose latest change has not reached the calendar yet
+ */
+export const pushPendingAppointments = async (surveys: Survey[]): Promise<number> => {
+  const pending = surveys.filter(s => s.category === 'appointment' && s.appointment && s.appointment.calendarSynced !== true);
+  let pushed = 0;
+
+  for (const survey of pending) {
+    if (await pushAppointmentToCalendar(survey)) pushed++;
+  }
+
+  if (pushed > 0) {
+    console.log(`📅 Pushed ${pushed} appointment(s) to the calendar`);
+  }
+  return pushed;
+};
+
+/**
+ * Change an appointment's status from the admin screens and push it to the calendar
+ */
+export const updateAppointmentStatus = async (
+  survey: Survey,
+  status: AppointmentStatus,
+  changes: { date?: string; time?: string; note?: string } = {}
+): Promise<Appointment> => {
+  if (!survey.appointment) {
+    throw new Error('Survey has no appointment');
+  }
+  if (!canTransition(survey.appointment, status)) {
+    throw new Error(`Cannot change a ${getAppointmentStatus(survey.appointment)} appointment to ${status}`);
+  }
+
+  const appointment = applyStatusChange(survey.appointment, status, 'admin', changes);
+  await StorageService.updateSurveyAppointment(survey.id, appointment);
+  await pushAppointmentToCalendar({ ...survey, appointment });
+  return appointment;
+};
+
+// ============ PULL ============
+
+/**
+ * Pull changes made on the calendar side (confirmations, reschedules, cancellations, completions)
+ * and apply them to the matching surveys. Returns how many appointments changed
+ */
+export const pullCalendarUpdates = async (surveys: Survey[]): Promise<number> => {
+  try {
+    const since = await AsyncStorage.getItem(KEYS.LAST_PULL);
+    const pulledAt = new Date().toISOString();
+
+    const { data, error } = await invokeCalendar({ action: 'changes', since });
+
+    if (error || !data?.success) {
+      console.error('Calendar pull failed:', error || data?.error);
+      return 0;
+    }
+
+    const changes: CalendarEventChange[] = data.changes || [];
+    let applied = 0;
+
+    for (const change of changes) {
+      const survey = surveys.find(s => s.id === change.surveyId);
+      const appointment = survey?.appointment;
+      if (!survey || !appointment) continue;
+
+      // Ignore anything older than what the app already has (including our own pushes)
+      if (change.sequence <= (appointment.calendarSequence || 0)) continue;
+
+      const updated = applyStatusChange(appointment, change.status, 'calendar', {
+        date: change.date,
+        time: change.time,
+        sequence: change.sequence,
+      });
+      await StorageService.updateSurveyAppointment(survey.id, updated);
+      applied++;
+    }
+
+    await AsyncStorage.setItem(KEYS.LAST_PULL, pulledAt);
+
+    if (applied > 0) {
+      console.log(`📅 Applied ${applied} calendar update(s) to appointments`);
+    }
+    return applied;
+  } catch (error) {
+    console.error('Calendar pull error:', error);
+    return 0;
+  }
+};
+
+// ============ ICS FEED / EXPORT ============
+
+/**
+ * Subscribable .ics URL for a territory's in-home specialists
+ */
+export const getCalendarFeedUrl = async (territoryId: string): Promise<string | null> => {
+  const { data, error } = await invokeCalendar({ action: 'feed_url', territoryId });
+
+  if (error || !data?.success) {
+    console.error('Error getting calendar feed URL:', error || data?.error);
+    return null;
+  }
+  return data.url;
+};
+
+/**
+ * Revoke a territory's feed URL (e.g. a specialist left) - returns the replacement URL
+ */
+export const revokeCalendarFeed = async (territoryId: string): Promise<string> => {
+  const { data, error } = await invokeCalendar({ action: 'revoke_feed', territoryId });
+
+  if (error || !data?.success) {
+    throw new Error(data?.error || error?.message || 'Could not revoke calendar feed');
+  }
+  return data.url;
+};
+
+/**
+ * One-off .ics export of a territory's appointments
+ */
+export const exportTerritoryCalendar = async (territoryId: string): Promise<string> => {
+  const { data, error } = await invokeCalendar({ action: 'ics', territoryId });
+
+  if (error || !data?.success) {
+    throw new Error(data?.error || error?.message || 'Calendar export failed');
+  }
+  return data.ics;
+};
@@ -0,0 +1,154 @@
+// Appointment confirmation/reminder messaging - scheduling + status for the admin screens
+// Sending, quiet hours and reply handling run server-side in the appointment-reminders edge function
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getSupabaseClient } from '@/template';
+import { Survey, AppointmentMessage, AppointmentMessageKind } from '@/types';
+import { getPhoneDigits } from '@/utils/phone';
+import { hashIdentifier } from './privacyHash';
+
+const supabase = getSupabaseClient();
+
+const KEYS = {
+  SCHEDULED: '@rainsoft/appointments/messagesScheduled',
+};
+
+export interface AppointmentMessagingSummary {
+  messages: AppointmentMessage[];
+  lastReply?: AppointmentMessage;
+  smsOptedOut: boolean;
+}
+
+export const MESSAGE_KIND_LABELS: Record<AppointmentMessageKind, string> = {
+  confirmation: 'Confirmation',
+  reschedule: 'Reschedule notice',
+  reminder_24h: '24h reminder',
+  reminder_2h: '2h reminder',
+  reply: 'Reply',
+};
+
+const getScheduledIds = async (): Promise<string[]> => {
+  try {
+    const data = await AsyncStorage.getItem(KEYS.SCHEDULED);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    console.error('Error reading scheduled appointment messages:', error);
+    return [];
+  }
+};
+
+/**
+ * Queue the confirmation and 24h/2h reminders for an appointment that has reached the cloud.
+ * Pass rescheduled after a slot change to send a reschedule notice and restart the reminders
+ */
+export const scheduleAppointmentMessages = async (
+  surveyId: string,
+  options: { rescheduled?: boolean } = {}
+): Promise<boolean> => {
+  try {
+    const { data, error } = await supabase.functions.invoke('appointment-reminders', {
+      body: { action: 'schedule', surveyId, rescheduled: options.rescheduled === true },
+    });
+
+    if (error || !data?.success) {
+      console.warn('⚠️ Could not schedule appointment messages:', error || data?.error);
+      return false;
+    }
+
+    const scheduled = await getScheduledIds();
+    if (!scheduled.includes(surveyId)) {
+      // Only upcoming appointments matter - keep the list from growing forever
+      await AsyncStorage.setItem(KEYS.SCHEDULED, JSON.stringify([...scheduled, surveyId].slice(-500)));
+    }
+    return true;
+  } catch (error) {
+    console.error('Error scheduling appointment messages:', error);
+    return false;
+  }
+};
+
+/**
+ * Schedule messages for upcoming appointments booked offline (scheduling needs the survey in the cloud)
+ */
+export const schedulePendingAppointmentMessages = async (surveys: Survey[]): Promise<number> => {
+  const scheduled = await getScheduledIds();
+  const today = new Date().toISOString().split('T')[0];
+  const pending = surveys.filter(s =>
+    s.category === 'appointment' &&
+    s.appointment &&
+    s.appointment.date >= today &&
+    (s.appointment.status || 'booked') === 'booked' &&
+    !scheduled.includes(s.id)
+  );
+
+  let count = 0;
+  for (const survey of pending) {
+    if (await scheduleAppointmentMessages(survey.id)) count++;
+  }
+  return count;
+};
+
+/**
+ * Messages, latest customer reply and opt-out state for each appointment
+ */
+export const getMessagingSummaries = async (
+  surveys: Survey[]
+): Promise<Record<string, AppointmentMessagingSummary>> => {
+  const ids = surveys.map(s => s.id);
+  if (ids.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('appointment_messages')
+    .select('*')
+    .in('survey_id', ids)
+    .order('send_at', { ascending: true });
+
+  if (error) {
+    console.error('Error loading appointment messages:', error);
+    return {};
+  }
+
+  // Opt-outs are keyed by the phone's HMAC (privacyHash.ts)
+  const { data: optOuts } = await supabase
+    .from('sms_opt_outs')
+    .select('phone_hash')
+    .eq('opted_out', true);
+  const optedOut = new Set((optOuts || []).map((row: any) => row.phone_hash));
+
+  const summaries: Record<string, AppointmentMessagingSummary> = {};
+  for (const survey of surveys) {
+    const phone = getPhoneDigits(survey.answers.contact_info?.phone);
+    const phoneHash = phone && optedOut.size > 0
+      ? await hashIdentifier(phone).catch(error => {
+        console.warn('⚠️ Could not check SMS opt-out:', error);
+        return undefined;
+      })
+      : undefined;
+    summaries[survey.id] = { messages: [], smsOptedOut: !!phoneHash && optedOut.has(phoneHash) };
+  }
+
+  for (const row of data || []) {
+    const message: AppointmentMessage = {
+      id: row.id,
+      surveyId: row.survey_id,
+      kind: row.kind,
+      channel: row.channel,
+      status: row.status,
+      sendAt: row.send_at,
+      sentAt: row.sent_at,
+      body: row.body,
+      error: row.error,
+    };
+    const summary = summaries[message.surveyId];
+    if (!summary) continue;
+
+    if (message.kind === 'reply') {
+      if (!summary.lastReply || (message.sentAt || '') > (summary.lastReply.sentAt || '')) {
+        summary.lastReply = message;
+      }
+    } else {
+      summary.messages.push(message);
+    }
+  }
+
+  return summaries;
+};
@@ -0,0 +1,241 @@
+// Keeps the outbox draining when nobody is using the tablet.
+// - An OS background task (WorkManager on Android, BGTaskScheduler on iOS) wakes the app about every
+//   15 minutes - the OS picks the exact time - even after the JS thread was suspended overnight
+// - Coming back online drains straight away instead of waiting for the next tick
+// - While the app is open: every 5 minutes and whenever it returns to the foreground
+// Runs that had something to deliver are recorded for the sync dashboard.
+//
+// Background runs read the encrypted outbox while the screen is locked - this works because the
+// storage key is kept in SecureStore as AFTER_FIRST_UNLOCK (see encryptionService)
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import * as BackgroundTask from 'expo-background-task';
+import * as TaskManager from 'expo-task-manager';
+import { AppState, NativeEventSubscription, Platform } from 'react-native';
+import * as OutboxService from './outboxService';
+import * as SyncService from './syncService';
+
+export const BACKGROUND_SYNC_TASK = 'rainsoft-background-sync';
+
+const KEYS = {
+  RUNS: '@rainsoft/sync/runs',
+};
+
+const FOREGROUND_INTERVAL_MS = 5 * 60 * 1000;
+const BACKGROUND_INTERVAL_MINUTES = 15; // Shortest interval either OS allows
+const MAX_RUNS = 50;
+
+export type SyncTrigger = 'background_task' | 'connectivity' | 'foreground' | 'interval';
+
+export const SYNC_TRIGGER_LABELS: Record<SyncTrigger, string> = {
+  background_task: 'OS background wake',
+  connectivity: 'Back online',
+  foreground: 'App opened',
+  interval: 'Every 5 min',
+};
+
+export interface SyncRun {
+  id: string;
+  trigger: SyncTrigger;
+  startedAt: string;
+  finishedAt: string;
+  synced: number;
+  failed: number;
+  duplicates: number;
+  remaining: number; // Still queued afterwards (pending + dead-lettered)
+  error?: string;
+}
+
+export interface BackgroundSyncStatus {
+  available: boolean; // The OS lets this app run background tasks
+  registered: boolean;
+  lastBackgroundRunAt: string | null;
+}
+
+// ============ RUNS ============
+
+let running: Promise<SyncRun | null> | null = null;
+
+export const getSyncRuns = async (): Promise<SyncRun[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(KEYS.RUNS);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error loading sync runs:', error);
+    return [];
+  }
+};
+
+const recordRun = async (run: SyncRun) => {
+  try {
+    const runs = await getSyncRuns();
+    await AsyncStorage.setItem(KEYS.RUNS, JSON.stringify([run, ...runs].slice(0, MAX_RUNS)));
+  } catch (error) {
+    console.error('Error saving sync run:', error);
+  }
+};
+
+/**
+ * Drain the outbox. One run at a time - a trigger that fires mid-run shares that run.
+ * Returns null (and records nothing) when offline or there was nothing to send
+ */
+export const runSync = (trigger: SyncTrigger): Promise<SyncRun | null> => {
+  if (running) return running;
+
+  running = (async (): Promise<SyncRun | null> => {
+    if (!(await SyncService.isOnline())) return null;
+
+    const before = await OutboxService.getOutboxSummary();
+    const startedAt = new Date().toISOString();
+    let result = { synced: 0, failed: 0, duplicates: 0 };
+    let error: string | undefined;
+    try {
+      // Runs even with an empty queue - it also picks up data queued by older app versions
+      result = await SyncService.processOutbox();
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+      console.error('Sync run failed:', e);
+    }
+
+    const delivered = result.synced + result.failed + result.duplicates;
+    if (before.pending + before.inFlight === 0 && delivered === 0 && !error) return null;
+
+    console.log(`🔄 Sync run (${SYNC_TRIGGER_LABELS[trigger]}): ${result.synced} synced, ${result.failed} failed`);
+    const after = await OutboxService.getOutboxSummary();
+    const run: SyncRun = {
+      id: `run_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      trigger,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      ...result,
+      remaining: after.pending + after.inFlight + after.dead,
+      error,
+    };
+    await recordRun(run);
+    return run;
+  })().finally(() => {
+    running = null;
+  });
+
+  return running;
+};
+
+// ============ OS BACKGROUND TASK ============
+
+// Must be defined at module load - the OS may start the app headless just to run it
+if (Platform.OS !== 'web') {
+  TaskManager.defineTask(BACKGROUND_SYNC_TASK, async () => {
+    try {
+      const run = await runSync('background_task');
+      return run?.error ? BackgroundTask.BackgroundTaskResult.Failed : BackgroundTask.BackgroundTaskResult.Success;
+    } catch (error) {
+      console.error('Background sync task failed:', error);
+      return BackgroundTask.BackgroundTaskResult.Failed;
+    }
+  });
+}
+
+const registerBackgroundTask = async () => {
+  if (Platform.OS === 'web') return;
+
+  try {
+    const status = await BackgroundTask.getStatusAsync();
+    if (status !== BackgroundTask.BackgroundTaskStatus.Available) {
+      console.warn('⚠️ Background tasks are restricted on this device - syncing only while the app is open');
+      return;
+    }
+    if (!(await TaskManager.isTaskRegisteredAsync(BACKGROUND_SYNC_TASK))) {
+      await BackgroundTask.registerTaskAsync(BACKGROUND_SYNC_TASK, { minimumInterval: BACKGROUND_INTERVAL_MINUTES });
+      console.log(`🔄 Background sync task registered (every ~${BACKGROUND_INTERVAL_MINUTES} min)`);
+    }
+  } catch (error) {
+    console.error('Error registering background sync task:', error);
+  }
+};
+
+/**
+ * Stop OS wakes (device wiped - nothing left to send)
+ */
+export const unregisterBackgroundTask = async (): Promise<void> => {
+  if (Platform.OS === 'web') return;
+
+  try {
+    if (await TaskManager.isTaskRegisteredAsync(BACKGROUND_SYNC_TASK)) {
+      await BackgroundTask.unregisterTaskAsync(BACKGROUND_SYNC_TASK);
+    }
+  } catch (error) {
+    console.error('Error unregistering background sync task:', error);
+  }
+};
+
+export const getBackgroundSyncStatus = async (): Promise<BackgroundSyncStatus> => {
+  const lastBackgroundRun = (await getSyncRuns()).find(run => run.trigger === 'background_task');
+  if (Platform.OS === 'web') {
+    return { available: false, registered: false, lastBackgroundRunAt: null };
+  }
+
+  try {
+    const [status, registered] = await Promise.all([
+      BackgroundTask.getStatusAsync(),
+      TaskManager.isTaskRegisteredAsync(BACKGROUND_SYNC_TASK),
+    ]);
+    return {
+      available: status === BackgroundTask.BackgroundTaskStatus.Available,
+      registered,
+      lastBackgroundRunAt: lastBackgroundRun?.startedAt || null,
+    };
+  } catch (error) {
+    console.error('Error reading background sync status:', error);
+    return { available: false, registered: false, lastBackgroundRunAt: lastBackgroundRun?.startedAt || null };
+  }
+};
+
+// ============ FOREGROUND TRIGGERS ============
+
+let foregroundInterval: ReturnType<typeof setInterval> | null = null;
+let netInfoUnsubscribe: (() => void) | null = null;
+let appStateSubscription: NativeEventSubscription | null = null;
+
+/**
+ * Sync now, then on every trigger above. Safe to call again while running
+ */
+export const startBackgroundSync = async (): Promise<void> => {
+  if (foregroundInterval) {
+    console.log('⚠️ Background sync already running');
+    return;
+  }
+
+  console.log('🔄 Starting background sync (5 min while open, OS wakes while suspended)');
+  foregroundInterval = setInterval(() => runSync('interval'), FOREGROUND_INTERVAL_MS);
+
+  let wasOffline = false;
+  netInfoUnsubscribe = NetInfo.addEventListener(state => {
+    const offline = !(state.isConnected && state.isInternetReachable !== false);
+    if (wasOffline && !offline) {
+      runSync('connectivity');
+    }
+    wasOffline = offline;
+  });
+
+  appStateSubscription = AppState.addEventListener('change', nextState => {
+    if (nextState === 'active') runSync('foreground');
+  });
+
+  await registerBackgroundTask();
+  await runSync('foreground');
+};
+
+/**
+ * Stop the in-app triggers. The OS task stays registered so the queue keeps draining after logout
+ */
+export const stopBackgroundSync = (): void => {
+  if (foregroundInterval) {
+    clearInterval(foregroundInterval);
+    foregroundInterval = null;
+  }
+  netInfoUnsubscribe?.();
+  netInfoUnsubscribe = null;
+  appStateSubscription?.remove();
+  appStateSubscription = null;
+  console.log('⏹️ Background sync stopped');
+};
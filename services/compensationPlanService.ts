@@ -0,0 +1,291 @@
+// Compensation plans - effective-dated, versioned pay rules per employee, team, market or company-wide.
+// Plans are never edited in place: every change inserts a new version into compensation_plans, so a
+// pay period always computes with the version that was in force when it started.
+// The most specific plan wins: employee > team > market > global
+import { getSupabaseClient } from '@/template';
+import { CompensationPlan, CompensationPlanScope, CompensationSettings, Employee } from '@/types';
+import { FEDERAL_MINIMUM_WAGE } from '@/constants/minimumWage';
+import { toLocalDateKey } from '@/utils/timeFormat';
+
+const supabase = getSupabaseClient();
+
+export const DEFAULT_PLAN_ID = 'default'; // Company-wide plan - always present
+const DEFAULT_SETTINGS: CompensationSettings = {
+  baseHourlyRate: 15,
+  surveyInstallBonus: 10,
+  appointmentInstallBonus: 25,
+  quota: 5,
+};
+
+// Paid for below-quota hours unless a plan says otherwise - the onboarding agreement says
+// missing quota "may result in minimum wage pay". Statements raise any plan's rate to the minimum
+// wage of the employee's market (constants/minimumWage.ts), so a market plan only needs its own
+// rate when it pays more than that
+export const DEFAULT_BELOW_QUOTA_HOURLY_RATE = FEDERAL_MINIMUM_WAGE;
+
+export const PLAN_SCOPE_LABELS: Record<CompensationPlanScope, string> = {
+  global: 'Everyone',
+  market: 'Market',
+  team: 'Team',
+  employee: 'Employee',
+};
+
+const SCOPE_PRIORITY: CompensationPlanScope[] = ['employee', 'team', 'market', 'global'];
+
+export type CompensationPlanInput = Omit<CompensationPlan, 'id' | 'planId' | 'version' | 'status' | 'createdAt'>;
+
+// ============ LOADING ============
+
+// The single compensation_settings row that predates plans - becomes version 1 of the default plan
+const getLegacySettings = async (): Promise<CompensationSettings> => {
+  const { data, error } = await supabase
+    .from('compensation_settings')
+    .select('*')
+    .limit(1)
+    .single();
+
+  if (error || !data) {
+    console.error('Error fetching compensation settings:', error);
+    return DEFAULT_SETTINGS;
+  }
+  return {
+    baseHourlyRate: Number(data.base_hourly_rate),
+    surveyInstallBonus: Number(data.survey_install_bonus),
+    appointmentInstallBonus: Number(data.appointment_install_bonus),
+    quota: Number(data.quota),
+  };
+};
+
+const buildLegacyPlan = (settings: CompensationSettings): CompensationPlan => ({
+  ...settings,
+  id: `${DEFAULT_PLAN_ID}_v1`,
+  planId: DEFAULT_PLAN_ID,
+  version: 1,
+  name: 'Standard',
+  scope: 'global',
+  effectiveFrom: '2000-01-01',
+  status: 'active',
+  quotaBasis: 'period',
+  belowQuotaHourlyRate: DEFAULT_BELOW_QUOTA_HOURLY_RATE,
+  bonusTiers: [],
+  createdAt: '2000-01-01T00:00:00.000Z',
+});
+
+/**
+ * Every version of every plan, oldest first. Falls back to the legacy settings as the default plan
+ */
+export const getPlanVersions = async (): Promise<CompensationPlan[]> => {
+  const { data, error } = await supabase
+    .from('compensation_plans')
+    .select('*')
+    .order('effective_from', { ascending: true })
+    .order('version', { ascending: true });
+
+  if (error) {
+    console.error('Error loading compensation plans:', error);
+    throw error;
+  }
+
+  const versions = (data || []).map(transformPlanFromDB);
+  if (!versions.some(v => v.planId === DEFAULT_PLAN_ID && v.version === 1)) {
+    versions.unshift(buildLegacyPlan(await getLegacySettings()));
+  }
+  return versions;
+};
+
+/**
+ * The version of each plan in force on a day (retired plans left out)
+ */
+const getPlansInForce = (versions: CompensationPlan[], day: string): CompensationPlan[] => {
+  const latest = new Map<string, CompensationPlan>();
+  versions
+    .filter(v => v.effectiveFrom <= day)
+    .forEach(v => {
+      const current = latest.get(v.planId);
+      if (!current || v.effectiveFrom > current.effectiveFrom ||
+        (v.effectiveFrom === current.effectiveFrom && v.version > current.version)) {
+        latest.set(v.planId, v);
+      }
+    });
+  return Array.from(latest.values()).filter(v => v.status === 'active');
+};
+
+/**
+ * Latest version of each plan (including retired ones), for the plans screen
+ */
+export const getCurrentPlans = (versions: CompensationPlan[]): CompensationPlan[] => {
+  const latest = new Map<string, CompensationPlan>();
+  versions.forEach(v => {
+    const current = latest.get(v.planId);
+    if (!current || v.version > current.version) latest.set(v.planId, v);
+  });
+  return Array.from(latest.values());
+};
+
+/**
+ * The plan that applies to an employee on a day. market is the store state they worked in
+ */
+export const resolvePlan = (
+  versions: CompensationPlan[],
+  employee: Pick<Employee, 'id' | 'teamLeadId' | 'isTeamLead'> | undefined,
+  day: string,
+  market?: string
+): CompensationPlan => {
+  const inForce = getPlansInForce(versions, day);
+  const matches = (plan: CompensationPlan) => {
+    switch (plan.scope) {
+      case 'employee':
+        return plan.scopeId === employee?.id;
+      case 'team':
+        return !!plan.scopeId && (plan.scopeId === employee?.teamLeadId || (!!employee?.isTeamLead && plan.scopeId === employee.id));
+      case 'market':
+        return !!market && plan.scopeId === market;
+      default:
+        return true;
+    }
+  };
+
+  for (const scope of SCOPE_PRIORITY) {
+    const candidates = inForce
+      .filter(plan => plan.scope === scope && matches(plan))
+      .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom));
+    if (candidates[0]) return candidates[0];
+  }
+
+  // Only reachable for days before the default plan's first version
+  return buildLegacyPlan(DEFAULT_SETTINGS);
+};
+
+/**
+ * Company-wide plan in force today (what onboarding shows new hires)
+ */
+export const getDefaultPlan = async (): Promise<CompensationPlan> => {
+  try {
+    return resolvePlan(await getPlanVersions(), undefined, toLocalDateKey(new Date()));
+  } catch {
+    return buildLegacyPlan(await getLegacySettings());
+  }
+};
+
+// ============ CHANGES ============
+
+/**
+ * Add a version of a plan (new plan when planId is omitted). Earlier versions are kept untouched
+ */
+export const savePlanVersion = async (
+  input: CompensationPlanInput,
+  planId?: string,
+  status: CompensationPlan['status'] = 'active'
+): Promise<CompensationPlan> => {
+  if (input.scope !== 'global' && !input.scopeId) {
+    throw new Error(`Pick the ${PLAN_SCOPE_LABELS[input.scope].toLowerCase()} this plan applies to`);
+  }
+  if (input.scope === 'global' && planId !== DEFAULT_PLAN_ID) {
+    throw new Error('There is already a company-wide plan - change its rates instead');
+  }
+
+  const versions = planId ? (await getPlanVersions()).filter(v => v.planId === planId) : [];
+  const version = versions.reduce((max, v) => Math.max(max, v.version), 0) + 1;
+  const id = planId || `plan_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+  // First change to the default plan - store the pre-plan rates as version 1 so earlier pay
+  // periods keep resolving to them
+  if (planId === DEFAULT_PLAN_ID && versions.length === 1) {
+    const { error } = await supabase
+      .from('compensation_plans')
+      .upsert([transformPlanToDB(versions[0])], { onConflict: 'id', ignoreDuplicates: true });
+    if (error) {
+      console.error('Error saving original compensation plan:', error);
+      throw error;
+    }
+  }
+
+  const plan: CompensationPlan = {
+    ...input,
+    scopeId: input.scope === 'global' ? undefined : input.scopeId,
+    bonusTiers: [...input.bonusTiers].sort((a, b) => a.afterInstalls - b.afterInstalls),
+    id: `${id}_v${version}`,
+    planId: id,
+    version,
+    status,
+    createdAt: new Date().toISOString(),
+  };
+
+  const { error } = await supabase.from('compensation_plans').insert([transformPlanToDB(plan)]);
+  if (error) {
+    console.error('Error saving compensation plan:', error);
+    throw error;
+  }
+
+  console.log(`💵 Compensation plan "${plan.name}" v${plan.version} ${status === 'retired' ? 'retires' : 'takes effect'} ${plan.effectiveFrom}`);
+  return plan;
+};
+
+/**
+ * End a plan from a date - employees fall back to the next most specific plan
+ */
+export const retirePlan = async (plan: CompensationPlan, effectiveFrom: string, retiredBy?: string): Promise<CompensationPlan> => {
+  if (plan.planId === DEFAULT_PLAN_ID) {
+    throw new Error('The company-wide plan cannot be retired - add a new version instead');
+  }
+  const { id, planId, version, status, createdAt, ...input } = plan;
+  return savePlanVersion({ ...input, effectiveFrom, createdBy: retiredBy }, planId, 'retired');
+};
+
+/**
+ * New version of the company-wide plan with these rates, effective today
+ */
+export const saveDefaultRates = async (settings: CompensationSettings, createdBy?: string): Promise<CompensationPlan> => {
+  const versions = await getPlanVersions();
+  const current = getCurrentPlans(versions).find(v => v.planId === DEFAULT_PLAN_ID) || buildLegacyPlan(DEFAULT_SETTINGS);
+  const { id, planId, version, status, createdAt, ...input } = current;
+
+  return savePlanVersion(
+    { ...input, ...settings, effectiveFrom: toLocalDateKey(new Date()), createdBy },
+    DEFAULT_PLAN_ID
+  );
+};
+
+function transformPlanFromDB(row: any): CompensationPlan {
+  return {
+    id: row.id,
+    planId: row.plan_id,
+    version: row.version,
+    name: row.name,
+    scope: row.scope,
+    scopeId: row.scope_id || undefined,
+    effectiveFrom: row.effective_from,
+    status: row.status,
+    baseHourlyRate: Number(row.base_hourly_rate),
+    surveyInstallBonus: Number(row.survey_install_bonus),
+    appointmentInstallBonus: Number(row.appointment_install_bonus),
+    quota: Number(row.quota),
+    quotaBasis: row.quota_basis || 'period',
+    belowQuotaHourlyRate: Number(row.below_quota_hourly_rate ?? DEFAULT_BELOW_QUOTA_HOURLY_RATE),
+    bonusTiers: row.bonus_tiers || [],
+    createdBy: row.created_by || undefined,
+    createdAt: row.created_at,
+  };
+}
+
+function transformPlanToDB(plan: CompensationPlan): any {
+  return {
+    id: plan.id,
+    plan_id: plan.planId,
+    version: plan.version,
+    name: plan.name,
+    scope: plan.scope,
+    scope_id: plan.scopeId || null,
+    effective_from: plan.effectiveFrom,
+    status: plan.status,
+    base_hourly_rate: plan.baseHourlyRate,
+    survey_install_bonus: plan.surveyInstallBonus,
+    appointment_install_bonus: plan.appointmentInstallBonus,
+    quota: plan.quota,
+    quota_basis: plan.quotaBasis,
+    below_quota_hourly_rate: plan.belowQuotaHourlyRate,
+    bonus_tiers: plan.bonusTiers,
+    created_by: plan.createdBy || null,
+    created_at: plan.createdAt,
+  };
+}
@@ -0,0 +1,309 @@
+// Per-record versioning and field-level merge for records edited from several devices
+// (two admins, or an admin plus a kiosk). Every cloud write goes through updateVersionedRecord:
+// - The write is a compare-and-set on `version`; if another device saved in between, the row is
+//   re-read and the change re-applied instead of blindly overwriting it
+// - Only the columns being changed are written, so edits to other fields survive
+// - Set-like fields (message/alert readBy, reactions) are merged by union so adds from every device survive
+// - Any other field changed on both sides is last-writer-wins, and the overwritten value is logged
+//
+// Versioned tables need `version integer not null default 1` and `updated_at timestamptz` columns,
+// and conflicts are audited in `sync_conflicts`
+import { getSupabaseClient } from '@/template';
+import { RecordConflict, VersionedRecordType } from '@/types';
+import { getCurrentUser } from './currentUserStore';
+import { getDeviceId } from './deviceIdentity';
+import * as EncryptionService from './encryptionService';
+
+const supabase = getSupabaseClient();
+
+const KEYS = {
+  CONFLICT_LOG: '@rainsoft/conflicts/log',
+};
+
+const MAX_ATTEMPTS = 5;
+const MAX_LOCAL_CONFLICTS = 200;
+
+const TABLES: Record<VersionedRecordType, string> = {
+  employee: 'employees',
+  schedule: 'schedules',
+  message: 'messages',
+  survey: 'surveys',
+  time_off_request: 'time_off_requests',
+  alert: 'alerts',
+};
+
+// Columns merged by set-union instead of last-writer-wins
+const SET_UNION_FIELDS: Partial<Record<VersionedRecordType, string[]>> = {
+  message: ['read_by', 'reactions'],
+  alert: ['read_by', 'dismissed_by'],
+};
+
+// Columns holding SSNs, bank details, signatures or customer answers - conflicts on them are
+// logged without the values
+const REDACTED_FIELDS: Partial<Record<VersionedRecordType, string[]>> = {
+  employee: ['personal_info', 'direct_deposit_data', 'w4_signature', 'i9_signature'],
+  survey: ['answers', 'signature', 'consent'],
+};
+
+const REDACTED_VALUE = '[redacted]';
+
+export const RECORD_TYPE_LABELS: Record<VersionedRecordType, string> = {
+  employee: 'Employee',
+  schedule: 'Schedule',
+  message: 'Message',
+  survey: 'Survey',
+  time_off_request: 'Time Off Request',
+  alert: 'Alert',
+};
+
+/**
+ * The record as the caller last read it (database columns). Used to tell which fields another
+ * device changed since then
+ */
+export interface VersionedBase {
+  version?: number;
+  values: Record<string, any>;
+}
+
+export type VersionedChanges =
+  | Record<string, any>
+  | ((current: Record<string, any>) => Record<string, any> | null); // null = nothing to write
+
+export interface VersionedUpdateResult {
+  version: number;
+  conflicts: RecordConflict[];
+}
+
+// jsonb comes back with its keys reordered, so compare structurally. null and undefined are the same
+const isSameValue = (a: any, b: any): boolean => {
+  if ((a ?? null) === (b ?? null)) return true;
+  if (a === null || a === undefined || b === null || b === undefined) return false;
+  if (typeof a !== 'object' || typeof b !== 'object' || Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return Array.from(keys).every(key => isSameValue(a[key], b[key]));
+};
+
+// Arrays merge as sets; objects (e.g. reactions: emoji -> employeeIds) merge key by key
+const unionValues = (remote: any, local: any): any => {
+  if (Array.isArray(remote) || Array.isArray(local)) {
+    return Array.from(new Set([...(remote || []), ...(local || [])]));
+  }
+
+  const merged: Record<string, any> = { ...(remote || {}) };
+  Object.entries(local || {}).forEach(([key, value]) => {
+    merged[key] = unionValues(merged[key], value);
+  });
+  return merged;
+};
+
+const mergeChanges = (
+  recordType: VersionedRecordType,
+  current: Record<string, any>,
+  requested: Record<string, any>,
+  base?: VersionedBase
+) => {
+  const unionFields = SET_UNION_FIELDS[recordType] || [];
+  const remoteVersion = current.version ?? 0;
+  const remoteEdited = !base || base.version === undefined || base.version !== remoteVersion;
+
+  const resolved: Record<string, any> = {};
+  const conflicts: Omit<RecordConflict, 'id' | 'deviceId' | 'employeeId' | 'detectedAt'>[] = [];
+
+  Object.entries(requested).forEach(([field, localValue]) => {
+    if (field === 'id' || field === 'version' || field === 'updated_at') return;
+
+    if (unionFields.includes(field)) {
+      resolved[field] = unionValues(current[field], localValue);
+      return;
+    }
+
+    // Blind writes (no base) can't tell a concurrent edit from a stale read - plain last-writer-wins
+    if (!base || !(field in base.values)) {
+      resolved[field] = localValue;
+      return;
+    }
+
+    // Not edited here - keep whatever the cloud has now
+    const baseValue = base.values[field];
+    if (isSameValue(localValue, baseValue)) return;
+
+    resolved[field] = localValue;
+
+    const remoteValue = current[field];
+    if (!remoteEdited || isSameValue(remoteValue, baseValue) || isSameValue(remoteValue, localValue)) return;
+
+    conflicts.push({
+      recordType,
+      recordId: String(current.id),
+      field,
+      baseValue,
+      localValue,
+      remoteValue,
+      baseVersion: base.version,
+      remoteVersion,
+    });
+  });
+
+  return { resolved, conflicts };
+};
+
+/**
+ * Apply a change to one cloud record without losing concurrent edits from other devices.
+ * `changes` may be a function of the current row for read-modify-write updates (re-run on retry).
+ * Returns null when the record does not exist in the cloud
+ */
+export const updateVersionedRecord = async (
+  recordType: VersionedRecordType,
+  recordId: string,
+  changes: VersionedChanges,
+  base?: VersionedBase
+): Promise<VersionedUpdateResult | null> => {
+  const table = TABLES[recordType];
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const { data: current, error: fetchError } = await supabase
+      .from(table)
+      .select('*')
+      .eq('id', recordId)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+    if (!current) return null;
+
+    const requested = typeof changes === 'function' ? changes(current) : changes;
+    if (!requested) return { version: current.version ?? 0, conflicts: [] };
+
+    const { resolved, conflicts } = mergeChanges(recordType, current, requested, base);
+    if (Object.keys(resolved).length === 0) return { version: current.version ?? 0, conflicts: [] };
+
+    const nextVersion = (current.version ?? 0) + 1;
+
+    let query = supabase
+      .from(table)
+      .update({ ...resolved, version: nextVersion, updated_at: new Date().toISOString() })
+      .eq('id', recordId);
+    // Rows written before versioning have no version yet
+    query = current.version === null || current.version === undefined
+      ? query.is('version', null)
+      : query.eq('version', current.version);
+
+    const { data: updated, error: updateError } = await query.select('id');
+    if (updateError) throw updateError;
+
+    if (updated && updated.length > 0) {
+      const logged = conflicts.length > 0 ? await logConflicts(conflicts) : [];
+      return { version: nextVersion, conflicts: logged };
+    }
+
+    console.log(`🔁 ${RECORD_TYPE_LABELS[recordType]} ${recordId} changed on another device - re-applying (${attempt}/${MAX_ATTEMPTS})`);
+  }
+
+  throw new Error(`${RECORD_TYPE_LABELS[recordType]} ${recordId} kept changing on other devices - try again`);
+};
+
+// ============ CONFLICT LOG ============
+
+const getLocalConflicts = async (): Promise<RecordConflict[]> => {
+  try {
+    const stored = await EncryptionService.getEncryptedItem(KEYS.CONFLICT_LOG);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error loading conflict log:', error);
+    return [];
+  }
+};
+
+const logConflicts = async (
+  detected: Omit<RecordConflict, 'id' | 'deviceId' | 'employeeId' | 'detectedAt'>[]
+): Promise<RecordConflict[]> => {
+  const deviceId = await getDeviceId();
+  const currentUser = await getCurrentUser();
+  const detectedAt = new Date().toISOString();
+
+  const conflicts: RecordConflict[] = detected.map(conflict => ({
+    ...conflict,
+    ...(REDACTED_FIELDS[conflict.recordType]?.includes(conflict.field)
+      ? { baseValue: REDACTED_VALUE, localValue: REDACTED_VALUE, remoteValue: REDACTED_VALUE }
+      : {}),
+    id: `conflict_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    deviceId,
+    employeeId: currentUser?.id,
+    detectedAt,
+  }));
+
+  conflicts.forEach(c => {
+    console.warn(`⚠️ Conflict on ${RECORD_TYPE_LABELS[c.recordType]} ${c.recordId}.${c.field} - kept this device's value (v${c.baseVersion ?? '?'} → v${c.remoteVersion})`);
+  });
+
+  try {
+    const local = await getLocalConflicts();
+    await EncryptionService.setEncryptedItem(
+      KEYS.CONFLICT_LOG,
+      JSON.stringify([...conflicts, ...local].slice(0, MAX_LOCAL_CONFLICTS))
+    );
+  } catch (error) {
+    console.error('Error saving conflict log:', error);
+  }
+
+  const { error } = await supabase
+    .from('sync_conflicts')
+    .insert(conflicts.map(transformConflictToDB));
+  if (error) {
+    console.error('Error uploading conflict log (kept locally):', error);
+  }
+
+  return conflicts;
+};
+
+/**
+ * Conflicts from every device, newest first. Falls back to this device's log when offline
+ */
+export const getConflictLog = async (limit = 100): Promise<RecordConflict[]> => {
+  const { data, error } = await supabase
+    .from('sync_conflicts')
+    .select('*')
+    .order('detected_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching conflict log (showing this device only):', error);
+    return (await getLocalConflicts()).slice(0, limit);
+  }
+
+  return (data || []).map(transformConflictFromDB);
+};
+
+function transformConflictToDB(conflict: RecordConflict): any {
+  return {
+    id: conflict.id,
+    record_type: conflict.recordType,
+    record_id: conflict.recordId,
+    field: conflict.field,
+    base_value: conflict.baseValue ?? null,
+    local_value: conflict.localValue ?? null,
+    remote_value: conflict.remoteValue ?? null,
+    base_version: conflict.baseVersion ?? null,
+    remote_version: conflict.remoteVersion,
+    device_id: conflict.deviceId,
+    employee_id: conflict.employeeId || null,
+    detected_at: conflict.detectedAt,
+  };
+}
+
+function transformConflictFromDB(row: any): RecordConflict {
+  return {
+    id: row.id,
+    recordType: row.record_type,
+    recordId: row.record_id,
+    field: row.field,
+    baseValue: row.base_value,
+    localValue: row.local_value,
+    remoteValue: row.remote_value,
+    baseVersion: row.base_version ?? undefined,
+    remoteVersion: row.remote_version,
+    deviceId: row.device_id,
+    employeeId: row.employee_id || undefined,
+    detectedAt: row.detected_at,
+  };
+}
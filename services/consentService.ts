@@ -0,0 +1,200 @@
+// Consent capture (TCPA opt-in audit trail) and consent proof lookup by phone number
+import * as Crypto from 'expo-crypto';
+import * as Device from 'expo-device';
+import * as Location from 'expo-location';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { Platform } from 'react-native';
+import { getSupabaseClient } from '@/template';
+import { Store } from '@/constants/theme';
+import { ConsentVersion, getConsentText, getConsentVersion } from '@/constants/consent';
+import { ConsentRecord } from '@/types';
+import { formatFullDateTime } from '@/utils/timeFormat';
+import { getStoredPhoneFormats } from '@/utils/phone';
+import { getDeviceId } from './deviceIdentity';
+
+const supabase = getSupabaseClient();
+
+export const hashConsentText = async (consent: ConsentVersion): Promise<string> =>
+  Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, getConsentText(consent));
+
+// Current position if permission is already granted - never prompts mid-survey
+const getCurrentGps = async (): Promise<ConsentRecord['gps']> => {
+  try {
+    const { status } = await Location.getForegroundPermissionsAsync();
+    if (status !== 'granted') return undefined;
+
+    const position = await Location.getLastKnownPositionAsync();
+    if (!position) return undefined;
+
+    return {
+      latitude: position.coords.latitude,
+      longitude: position.coords.longitude,
+      accuracy: position.coords.accuracy || 0,
+    };
+  } catch (error) {
+    console.warn('⚠️ Could not read GPS for consent record:', error);
+    return undefined;
+  }
+};
+
+/**
+ * Snapshot of exactly what the customer agreed to, taken when the survey is completed
+ */
+export const buildConsentRecord = async (params: {
+  consent: ConsentVersion;
+  callConsent: boolean;
+  smsConsent: boolean;
+  store: Store;
+  storeName?: string;
+  storeNumber?: string;
+  fallbackGps?: ConsentRecord['gps']; // Clock-in location when no live fix is available
+}): Promise<ConsentRecord> => ({
+  version: params.consent.version,
+  textHash: await hashConsentText(params.consent),
+  consentedAt: new Date().toISOString(),
+  callConsent: params.callConsent,
+  smsConsent: params.smsConsent,
+  deviceId: await getDeviceId(),
+  deviceModel: [Device.manufacturer, Device.modelName, Device.osName, Device.osVersion].filter(Boolean).join(' ') || undefined,
+  store: params.store,
+  storeName: params.storeName,
+  storeNumber: params.storeNumber,
+  gps: (await getCurrentGps()) || params.fallbackGps,
+});
+
+// ============ CONSENT PROOF ============
+
+export interface ConsentProofEntry {
+  surveyId: string;
+  customerName: string;
+  phone: string;
+  employeeAlias?: string;
+  consent: ConsentRecord;
+  disclosure?: ConsentVersion;
+  hashVerified: boolean; // Stored hash matches the disclosure text for that version
+}
+
+/**
+ * Every consent record captured for a phone number (any formatting), newest first
+ */
+export const getConsentRecordsByPhone = async (phone: string): Promise<ConsentProofEntry[]> => {
+  const formats = getStoredPhoneFormats(phone);
+  if (formats.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('surveys')
+    .select('id, timestamp, employee_alias, answers, consent')
+    .not('consent', 'is', null)
+    .in('answers->contact_info->>phone', formats)
+    .order('timestamp', { ascending: false });
+
+  if (error) {
+    console.error('Error loading consent records:', error);
+    throw error;
+  }
+
+  return Promise.all((data || []).map(async (row: any) => {
+    const consent: ConsentRecord = row.consent;
+    const disclosure = getConsentVersion(consent.version);
+    const contact = row.answers?.contact_info;
+
+    return {
+      surveyId: row.id,
+      customerName: `${contact?.firstName || ''} ${contact?.lastName || ''}`.trim() || 'Unknown',
+      phone: contact?.phone || '',
+      employeeAlias: row.employee_alias || undefined,
+      consent,
+      disclosure,
+      hashVerified: !!disclosure && (await hashConsentText(disclosure)) === consent.textHash,
+    };
+  }));
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const buildConsentProofHtml = (phone: string, entries: ConsentProofEntry[], signatures: Record<string, string>) => `
+  <html>
+    <head>
+      <meta charset="utf-8" />
+      <style>
+        body { font-family: Helvetica, Arial, sans-serif; font-size: 12px; color: #1A1A1A; padding: 24px; }
+        h1 { font-size: 20px; margin-bottom: 4px; }
+        h2 { font-size: 15px; margin: 24px 0 8px; border-bottom: 1px solid #D1DDE6; padding-bottom: 4px; }
+        table { border-collapse: collapse; width: 100%; }
+        td { padding: 4px 8px; vertical-align: top; border-bottom: 1px solid #EEE; }
+        td:first-child { width: 180px; color: #666; }
+        .disclosure { background: #F5F8FA; padding: 12px; border-radius: 6px; white-space: pre-wrap; }
+        .signature { max-width: 320px; max-height: 120px; border: 1px solid #D1DDE6; }
+        .ok { color: #2E7D32; font-weight: bold; }
+        .bad { color: #D32F2F; font-weight: bold; }
+      </style>
+    </head>
+    <body>
+      <h1>Consent Proof</h1>
+      <div>Phone number: <strong>${escapeHtml(phone)}</strong></div>
+      <div>Generated: ${escapeHtml(formatFullDateTime(new Date().toISOString()))}</div>
+      <div>Records found: ${entries.length}</div>
+      ${entries.map(entry => `
+        <h2>${escapeHtml(entry.customerName)} - ${escapeHtml(formatFullDateTime(entry.consent.consentedAt))}</h2>
+        <table>
+          <tr><td>Survey ID</td><td>${escapeHtml(entry.surveyId)}</td></tr>
+          <tr><td>Phone</td><td>${escapeHtml(entry.phone)}</td></tr>
+          <tr><td>Consent to calls</td><td>${entry.consent.callConsent ? 'Yes' : 'No'}</td></tr>
+          <tr><td>Consent to texts</td><td>${entry.consent.smsConsent ? 'Yes' : 'No'}</td></tr>
+          <tr><td>Disclosure version</td><td>${escapeHtml(entry.consent.version)}</td></tr>
+          <tr><td>Text hash (SHA-256)</td><td>${escapeHtml(entry.consent.textHash)}
+            <span class="${entry.hashVerified ? 'ok' : 'bad'}">${entry.hashVerified ? 'Verified' : 'Does not match known text'}</span></td></tr>
+          <tr><td>Timestamp (UTC)</td><td>${escapeHtml(entry.consent.consentedAt)}</td></tr>
+          <tr><td>Store</td><td>${escapeHtml([entry.consent.store === 'lowes' ? "Lowe's" : 'Home Depot', entry.consent.storeName, entry.consent.storeNumber].filter(Boolean).join(' - '))}</td></tr>
+          <tr><td>Device</td><td>${escapeHtml(entry.consent.deviceId)}${entry.consent.deviceModel ? ` (${escapeHtml(entry.consent.deviceModel)})` : ''}</td></tr>
+          <tr><td>GPS</td><td>${entry.consent.gps
+            ? `${entry.consent.gps.latitude.toFixed(6)}, ${entry.consent.gps.longitude.toFixed(6)} (±${Math.round(entry.consent.gps.accuracy)}m)`
+            : 'Not available'}</td></tr>
+          <tr><td>Collected by</td><td>${escapeHtml(entry.employeeAlias || 'N/A')}</td></tr>
+        </table>
+        ${entry.disclosure ? `
+          <p><strong>Disclosure shown:</strong></p>
+          <div class="disclosure">${escapeHtml(entry.disclosure.disclosure)}
+
+[${entry.consent.callConsent ? 'X' : ' '}] ${escapeHtml(entry.disclosure.callConsentLabel)}
+[${entry.consent.smsConsent ? 'X' : ' '}] ${escapeHtml(entry.disclosure.smsConsentLabel)}</div>
+        ` : '<p class="bad">Disclosure text for this version is not bundled with this app build.</p>'}
+        ${signatures[entry.surveyId] ? `<p><strong>Signature:</strong></p><img class="signature" src="${signatures[entry.surveyId]}" />` : ''}
+      `).join('')}
+    </body>
+  </html>
+`;
+
+/**
+ * Build the consent proof PDF for a phone number and open the share sheet (print dialog on web).
+ * Returns the number of consent records included
+ */
+export const generateConsentProofPdf = async (phone: string): Promise<number> => {
+  const entries = await getConsentRecordsByPhone(phone);
+  if (entries.length === 0) return 0;
+
+  const { data: signatureRows } = await supabase
+    .from('surveys')
+    .select('id, signature')
+    .in('id', entries.map(e => e.surveyId));
+  const signatures: Record<string, string> = {};
+  (signatureRows || []).forEach((row: any) => {
+    if (row.signature) signatures[row.id] = row.signature;
+  });
+
+  const html = buildConsentProofHtml(phone, entries, signatures);
+
+  if (Platform.OS === 'web') {
+    await Print.printAsync({ html });
+    return entries.length;
+  }
+
+  const { uri } = await Print.printToFileAsync({ html });
+  if (await Sharing.isAvailableAsync()) {
+    await Sharing.shareAsync(uri, { mimeType: 'application/pdf', dialogTitle: 'Consent Proof', UTI: 'com.adobe.pdf' });
+  }
+  return entries.length;
+};
+
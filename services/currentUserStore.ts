@@ -0,0 +1,43 @@
+// Signed-in employee cached on the device (session storage - not in DB).
+// A leaf module so storage, sync and conflict code can all read it without importing each other
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Employee } from '@/types';
+import * as EncryptionService from './encryptionService';
+
+const CURRENT_USER_KEY = 'current_user';
+
+export const setCurrentUser = async (employee: Employee | null): Promise<void> => {
+  try {
+    if (employee) {
+      // SSN stays encrypted in the cached record - nothing on the kiosk displays it
+      const stored = await EncryptionService.encryptSensitiveFields(employee);
+      await EncryptionService.setEncryptedItem(CURRENT_USER_KEY, JSON.stringify(stored));
+    } else {
+      await AsyncStorage.removeItem(CURRENT_USER_KEY);
+    }
+  } catch (error) {
+    console.error('Error setting current user:', error);
+  }
+};
+
+export const getCurrentUser = async (): Promise<Employee | null> => {
+  try {
+    const data = await EncryptionService.getEncryptedItem(CURRENT_USER_KEY);
+    return data ? JSON.parse(data) : null;
+  } catch (error) {
+    console.error('Error getting current user:', error);
+    return null;
+  }
+};
+
+/**
+ * Encrypt a cached user written as plaintext by older versions, including the SSN field (runs at startup)
+ */
+export const encryptStoredCurrentUser = async (): Promise<void> => {
+  await EncryptionService.migratePlaintextItems([CURRENT_USER_KEY]);
+
+  const currentUser = await getCurrentUser();
+  if (currentUser) {
+    await setCurrentUser(currentUser); // Field-level encryption for a cached SSN
+  }
+};
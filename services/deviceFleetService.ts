@@ -0,0 +1,426 @@
+// Kiosk fleet management - device enrollment, periodic heartbeats and remote commands.
+// Admins queue commands in device_commands; each tablet runs its pending commands on the next check-in
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Battery from 'expo-battery';
+import * as FileSystem from 'expo-file-system';
+import { Platform } from 'react-native';
+import { getSupabaseClient } from '@/template';
+import { Store } from '@/constants/theme';
+import { DeviceCommand, DeviceCommandType, KioskDevice } from '@/types';
+import { clearDeviceSecret, getDeviceAuthHeaders, getDeviceId, isDeviceEnrolled, saveDeviceSecret } from './deviceIdentity';
+import { getAppInfo, sendDiagnostics } from './diagnosticsService';
+import { getCriticalStorageHealth } from './failsafeStorage';
+import * as OutboxService from './outboxService';
+import * as StorageService from './storageService';
+import * as SyncService from './syncService';
+
+const supabase = getSupabaseClient();
+
+const KEYS = {
+  ENROLLMENT: '@rainsoft/device/enrollment',
+  LOCKED: '@rainsoft/device/locked',
+};
+
+const HEARTBEAT_INTERVAL_MS = 5 * 60 * 1000;
+export const HEARTBEAT_STALE_MS = 15 * 60 * 1000; // Three missed heartbeats
+
+export const DEVICE_COMMAND_LABELS: Record<DeviceCommandType, string> = {
+  force_sync: 'Force sync',
+  upload_diagnostics: 'Upload diagnostics',
+  lock: 'Lock',
+  unlock: 'Unlock',
+  wipe: 'Wipe',
+};
+
+export interface DeviceEnrollment {
+  deviceId: string;
+  name: string;
+  enrolledAt: string;
+}
+
+// What the device is doing right now - supplied by AppContext
+export interface HeartbeatContext {
+  currentEmployeeId?: string;
+  store?: Store;
+  storeName?: string;
+}
+
+export interface FleetCallbacks {
+  getContext: () => HeartbeatContext;
+  onLockChange: (locked: boolean) => void;
+  onWiped: () => void;
+}
+
+// ============ ENROLLMENT ============
+
+// Tablets enrolled before device secrets existed read as unenrolled, so an admin enrolls them again
+export const getEnrollment = async (): Promise<DeviceEnrollment | null> => {
+  try {
+    if (!(await isDeviceEnrolled())) return null;
+    const data = await AsyncStorage.getItem(KEYS.ENROLLMENT);
+    return data ? JSON.parse(data) : null;
+  } catch (error) {
+    console.error('Error reading device enrollment:', error);
+    return null;
+  }
+};
+
+/**
+ * Register this tablet in the fleet and store the secret it uploads with.
+ * Re-enrolling an existing device keeps its history
+ */
+export const enrollDevice = async (name: string, enrolledBy: string): Promise<DeviceEnrollment> => {
+  const deviceId = await getDeviceId();
+  const info = getAppInfo();
+  const enrollment: DeviceEnrollment = { deviceId, name: name.trim(), enrolledAt: new Date().toISOString() };
+
+  const { data, error } = await supabase.functions.invoke('enroll-device', {
+    headers: (await getDeviceAuthHeaders()) || {},
+    body: {
+      action: 'enroll',
+      device: {
+        deviceId,
+        name: enrollment.name,
+        enrolledBy,
+        platform: info.platform,
+        model: info.model,
+        osVersion: info.osVersion,
+        appVersion: info.appVersion,
+        buildNumber: info.buildNumber,
+      },
+    },
+  });
+  if (error || !data?.success) {
+    console.error('Error enrolling device:', error || data?.error);
+    throw new Error(data?.error || error?.message || 'Could not enroll device');
+  }
+
+  await saveDeviceSecret(data.secret);
+  await AsyncStorage.setItem(KEYS.ENROLLMENT, JSON.stringify(enrollment));
+  await AsyncStorage.removeItem(KEYS.LOCKED);
+  console.log(`📟 Device enrolled as "${enrollment.name}" (${deviceId})`);
+  return enrollment;
+};
+
+/**
+ * Mark the device unenrolled on the server and drop its secret (local data is wiped separately)
+ */
+export const markDeviceUnenrolled = async (): Promise<void> => {
+  const headers = await getDeviceAuthHeaders();
+  if (!headers) return;
+
+  const { data, error } = await supabase.functions.invoke('enroll-device', {
+    headers,
+    body: { action: 'unenroll' },
+  });
+  if (error || !data?.success) {
+    console.warn('⚠️ Could not mark device unenrolled:', error?.message || data?.error);
+  }
+  await clearDeviceSecret();
+};
+
+export const isDeviceLocked = async (): Promise<boolean> =>
+  (await AsyncStorage.getItem(KEYS.LOCKED).catch(() => null)) === 'true';
+
+// ============ HEARTBEAT ============
+
+const collectStatus = async (context: HeartbeatContext) => {
+  const [outbox, lastSuccessfulSync, freeStorage, totalStorage, battery] = await Promise.all([
+    OutboxService.getOutboxSummary(),
+    SyncService.getLastSuccessfulSync().catch(() => null), // Unreadable storage still heartbeats
+    Platform.OS === 'web' ? Promise.resolve(undefined) : FileSystem.getFreeDiskStorageAsync().catch(() => undefined),
+    Platform.OS === 'web' ? Promise.resolve(undefined) : FileSystem.getTotalDiskCapacityAsync().catch(() => undefined),
+    Battery.getBatteryLevelAsync().catch(() => -1),
+  ]);
+
+  return {
+    ...getAppInfo(),
+    currentEmployeeId: context.currentEmployeeId,
+    store: context.store,
+    storeName: context.storeName,
+    lastSuccessfulSyncAt: lastSuccessfulSync || undefined,
+    queuePending: outbox.pending + outbox.inFlight,
+    queueDead: outbox.dead,
+    batteryLevel: battery >= 0 ? battery : undefined, // -1 = unknown (simulators, unsupported browsers)
+    freeStorageBytes: freeStorage,
+    totalStorageBytes: totalStorage,
+  };
+};
+
+/**
+ * Report status and run any commands queued for this device. Does nothing until the device is enrolled
+ */
+export const sendHeartbeat = async (callbacks: FleetCallbacks): Promise<void> => {
+  const enrollment = await getEnrollment();
+  if (!enrollment) return;
+
+  try {
+    const status = await collectStatus(callbacks.getContext());
+    const { error } = await supabase
+      .from('kiosk_devices')
+      .update({
+        platform: status.platform,
+        model: status.model,
+        os_version: status.osVersion,
+        app_version: status.appVersion,
+        build_number: status.buildNumber,
+        current_employee_id: status.currentEmployeeId || null,
+        store: status.store || null,
+        store_name: status.storeName || null,
+        last_heartbeat_at: new Date().toISOString(),
+        last_successful_sync_at: status.lastSuccessfulSyncAt || null,
+        queue_pending: status.queuePending,
+        queue_dead: status.queueDead,
+        battery_level: status.batteryLevel ?? null,
+        free_storage_bytes: status.freeStorageBytes ?? null,
+        total_storage_bytes: status.totalStorageBytes ?? null,
+      })
+      .eq('device_id', enrollment.deviceId);
+    if (error) throw error;
+
+    const { data: commands, error: commandsError } = await supabase
+      .from('device_commands')
+      .select('*')
+      .eq('device_id', enrollment.deviceId)
+      .eq('status', 'pending')
+      .order('issued_at', { ascending: true });
+    if (commandsError) throw commandsError;
+
+    for (const row of commands || []) {
+      const wiped = await runCommand(transformCommandFromDB(row), callbacks);
+      if (wiped) return;
+    }
+  } catch (error) {
+    console.warn('⚠️ Device heartbeat failed:', error);
+  }
+};
+
+const completeCommand = async (commandId: string, status: 'completed' | 'failed', result: string) => {
+  const { error } = await supabase
+    .from('device_commands')
+    .update({ status, result, completed_at: new Date().toISOString() })
+    .eq('id', commandId);
+  if (error) {
+    console.error('Error completing device command:', error);
+  }
+};
+
+const setLocked = async (deviceId: string, locked: boolean, callbacks: FleetCallbacks) => {
+  if (locked) {
+    await AsyncStorage.setItem(KEYS.LOCKED, 'true');
+  } else {
+    await AsyncStorage.removeItem(KEYS.LOCKED);
+  }
+  await supabase
+    .from('kiosk_devices')
+    .update({ status: locked ? 'locked' : 'active' })
+    .eq('device_id', deviceId);
+  callbacks.onLockChange(locked);
+};
+
+// Returns true when the device was wiped (nothing else may run afterwards)
+const runCommand = async (command: DeviceCommand, callbacks: FleetCallbacks): Promise<boolean> => {
+  console.log(`📟 Running device command: ${DEVICE_COMMAND_LABELS[command.type]}`);
+
+  try {
+    switch (command.type) {
+      case 'force_sync': {
+        const result = await SyncService.processOutbox();
+        await completeCommand(command.id, 'completed', `${result.synced} synced, ${result.failed} failed`);
+        return false;
+      }
+      case 'upload_diagnostics': {
+        await uploadDiagnostics(command.deviceId, callbacks.getContext(), command.id);
+        await completeCommand(command.id, 'completed', 'Diagnostics uploaded');
+        return false;
+      }
+      case 'lock':
+        await setLocked(command.deviceId, true, callbacks);
+        await completeCommand(command.id, 'completed', 'Device locked');
+        return false;
+      case 'unlock':
+        await setLocked(command.deviceId, false, callbacks);
+        await completeCommand(command.id, 'completed', 'Device unlocked');
+        return false;
+      case 'wipe': {
+        // Acknowledge first - after the wipe the device no longer knows who it is
+        const { pending, inFlight, dead } = await OutboxService.getOutboxSummary();
+        await completeCommand(command.id, 'completed', `Wiped (${pending + inFlight + dead} unsynced item(s) discarded)`);
+        await markDeviceUnenrolled();
+        await StorageService.wipeDevice();
+        callbacks.onWiped();
+        return true;
+      }
+      default:
+        await completeCommand(command.id, 'failed', `Unknown command: ${command.type}`);
+        return false;
+    }
+  } catch (error) {
+    await completeCommand(command.id, 'failed', error instanceof Error ? error.message : String(error));
+    return false;
+  }
+};
+
+let heartbeatInterval: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Heartbeat now and every 5 minutes
+ */
+export const startHeartbeat = (callbacks: FleetCallbacks): void => {
+  if (heartbeatInterval) return;
+
+  sendHeartbeat(callbacks);
+  heartbeatInterval = setInterval(() => sendHeartbeat(callbacks), HEARTBEAT_INTERVAL_MS);
+  console.log('📟 Device heartbeat started');
+};
+
+export const stopHeartbeat = (): void => {
+  if (heartbeatInterval) {
+    clearInterval(heartbeatInterval);
+    heartbeatInterval = null;
+  }
+};
+
+// ============ DIAGNOSTICS ============
+
+/**
+ * Upload a snapshot of storage health, the outbox and recent sync runs. Customer names and payloads are left out.
+ * The full redacted bundle (including the on-device log) goes to the diagnostics bucket alongside it
+ */
+export const uploadDiagnostics = async (
+  deviceId: string,
+  context: HeartbeatContext,
+  commandId?: string
+): Promise<void> => {
+  const [status, health, deadItems, syncLogs, bundle] = await Promise.all([
+    collectStatus(context),
+    getCriticalStorageHealth(),
+    OutboxService.getOutboxItems().then(items => items.filter(i => i.status === 'dead')),
+    StorageService.getSyncLogs(),
+    sendDiagnostics(commandId ? 'Remote diagnostics command' : undefined),
+  ]);
+
+  const { error } = await supabase.from('device_diagnostics').insert({
+    device_id: deviceId,
+    command_id: commandId || null,
+    collected_at: new Date().toISOString(),
+    payload: {
+      status,
+      health,
+      bundlePath: bundle.uploaded ? bundle.path : null,
+      deadItems: deadItems.map(item => ({
+        key: item.idempotencyKey,
+        type: item.type,
+        attempts: item.attempts,
+        lastError: item.lastError,
+        deadAt: item.deadAt,
+      })),
+      syncLogs: (syncLogs || []).slice(0, 20).map(({ items, ...log }) => ({
+        ...log,
+        failedItems: (items || []).filter(i => i.status === 'failed').map(i => ({ id: i.id, error: i.error })),
+      })),
+    },
+  });
+  if (error) throw error;
+};
+
+// ============ ADMIN ============
+
+export const getFleetDevices = async (): Promise<KioskDevice[]> => {
+  const { data, error } = await supabase
+    .from('kiosk_devices')
+    .select('*')
+    .order('last_heartbeat_at', { ascending: false, nullsFirst: false });
+
+  if (error) {
+    console.error('Error loading fleet devices:', error);
+    return [];
+  }
+  return (data || []).map(transformDeviceFromDB);
+};
+
+export const getPendingDeviceCommands = async (): Promise<DeviceCommand[]> => {
+  const { data, error } = await supabase
+    .from('device_commands')
+    .select('*')
+    .eq('status', 'pending')
+    .order('issued_at', { ascending: true });
+
+  if (error) {
+    console.error('Error loading device commands:', error);
+    return [];
+  }
+  return (data || []).map(transformCommandFromDB);
+};
+
+/**
+ * Queue a command - the device runs it on its next heartbeat
+ */
+export const issueDeviceCommand = async (
+  deviceId: string,
+  type: DeviceCommandType,
+  issuedBy: string
+): Promise<void> => {
+  const { error } = await supabase.from('device_commands').insert({
+    device_id: deviceId,
+    type,
+    status: 'pending',
+    issued_by: issuedBy,
+    issued_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    console.error('Error issuing device command:', error);
+    throw error;
+  }
+};
+
+export const getLatestDiagnostics = async (deviceId: string): Promise<{ collectedAt: string; payload: any } | null> => {
+  const { data, error } = await supabase
+    .from('device_diagnostics')
+    .select('collected_at, payload')
+    .eq('device_id', deviceId)
+    .order('collected_at', { ascending: false })
+    .limit(1);
+
+  if (error || !data?.[0]) return null;
+  return { collectedAt: data[0].collected_at, payload: data[0].payload };
+};
+
+function transformDeviceFromDB(row: any): KioskDevice {
+  return {
+    deviceId: row.device_id,
+    name: row.name,
+    status: row.status,
+    enrolledAt: row.enrolled_at,
+    enrolledBy: row.enrolled_by || undefined,
+    platform: row.platform,
+    model: row.model || undefined,
+    osVersion: row.os_version || undefined,
+    appVersion: row.app_version || undefined,
+    buildNumber: row.build_number || undefined,
+    store: row.store || undefined,
+    storeName: row.store_name || undefined,
+    currentEmployeeId: row.current_employee_id || undefined,
+    lastHeartbeatAt: row.last_heartbeat_at || undefined,
+    lastSuccessfulSyncAt: row.last_successful_sync_at || undefined,
+    queuePending: row.queue_pending || 0,
+    queueDead: row.queue_dead || 0,
+    batteryLevel: row.battery_level ?? undefined,
+    freeStorageBytes: row.free_storage_bytes ?? undefined,
+    totalStorageBytes: row.total_storage_bytes ?? undefined,
+  };
+}
+
+function transformCommandFromDB(row: any): DeviceCommand {
+  return {
+    id: row.id,
+    deviceId: row.device_id,
+    type: row.type,
+    status: row.status,
+    issuedBy: row.issued_by,
+    issuedAt: row.issued_at,
+    completedAt: row.completed_at || undefined,
+    result: row.result || undefined,
+  };
+}
@@ -0,0 +1,37 @@
+// Identity of this kiosk install - shared by consent records, diagnostics, sync and fleet management.
+// Enrolled devices also hold the secret enroll-device issued, which edge functions check instead of a user login
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { getEncryptedItem, setEncryptedItem } from './encryptionService';
+
+const KEYS = {
+  DEVICE_ID: '@rainsoft/device/id',
+  DEVICE_SECRET: '@rainsoft/device/secret',
+};
+
+/**
+ * Stable id for this kiosk - generated once and kept for the life of the install
+ */
+export const getDeviceId = async (): Promise<string> => {
+  const existing = await AsyncStorage.getItem(KEYS.DEVICE_ID);
+  if (existing) return existing;
+
+  const deviceId = Crypto.randomUUID();
+  await AsyncStorage.setItem(KEYS.DEVICE_ID, deviceId);
+  return deviceId;
+};
+
+export const saveDeviceSecret = (secret: string): Promise<void> => setEncryptedItem(KEYS.DEVICE_SECRET, secret);
+
+export const clearDeviceSecret = (): Promise<void> => AsyncStorage.removeItem(KEYS.DEVICE_SECRET);
+
+/**
+ * Headers that authenticate this device to edge functions, or null until it is enrolled
+ */
+export const getDeviceAuthHeaders = async (): Promise<Record<string, string> | null> => {
+  const secret = await getEncryptedItem(KEYS.DEVICE_SECRET);
+  if (!secret) return null;
+  return { 'x-device-id': await getDeviceId(), 'x-device-secret': secret };
+};
+
+export const isDeviceEnrolled = async (): Promise<boolean> => (await getDeviceAuthHeaders()) !== null;
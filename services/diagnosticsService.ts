@@ -0,0 +1,122 @@
+// Diagnostic bundles for support - sent from the sync dashboard / storage status card when a sync
+// keeps failing, or remotely through the fleet "Upload diagnostics" command.
+// A bundle is one JSON file with app/build info, storage health, the outbox (payloads redacted),
+// recent sync runs and the on-device log. It is written to the cache directory and uploaded to the
+// `diagnostics` storage bucket as <deviceId>/<timestamp>.json
+import * as Application from 'expo-application';
+import * as Device from 'expo-device';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { Platform } from 'react-native';
+import { getSupabaseClient } from '@/template';
+import { getDeviceId } from './deviceIdentity';
+import { getCriticalStorageHealth } from './failsafeStorage';
+import * as LogService from './logService';
+import * as OutboxService from './outboxService';
+import * as StorageService from './storageService';
+
+const supabase = getSupabaseClient();
+
+const BUCKET = 'diagnostics';
+const MAX_LOG_ENTRIES = 1000;
+const MAX_SYNC_LOGS = 20;
+
+export interface DiagnosticsResult {
+  path: string; // Object path in the diagnostics bucket
+  uploaded: boolean;
+  localUri?: string; // Cached copy - shareable when the upload failed (not on web)
+  error?: string;
+}
+
+/**
+ * App, build and hardware details
+ */
+export const getAppInfo = () => ({
+  platform: Platform.OS,
+  model: Device.modelName || undefined,
+  osVersion: Device.osVersion || undefined,
+  appVersion: Application.nativeApplicationVersion || undefined,
+  buildNumber: Application.nativeBuildVersion || undefined,
+});
+
+/**
+ * Everything support needs to look into failed syncs on this device, with personal data removed
+ */
+export const buildDiagnosticBundle = async (reason?: string) => {
+  const [deviceId, health, outboxItems, outboxSummary, syncLogs, logEntries, freeStorage] = await Promise.all([
+    getDeviceId(),
+    getCriticalStorageHealth(),
+    OutboxService.getOutboxItems(),
+    OutboxService.getOutboxSummary(),
+    StorageService.getSyncLogs(),
+    LogService.getLogEntries(MAX_LOG_ENTRIES),
+    Platform.OS === 'web' ? Promise.resolve(undefined) : FileSystem.getFreeDiskStorageAsync().catch(() => undefined),
+  ]);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    reason: reason ? LogService.redact(reason) : undefined,
+    deviceId,
+    app: {
+      ...getAppInfo(),
+      applicationId: Application.applicationId || undefined,
+      dev: __DEV__,
+    },
+    storage: {
+      ...health,
+      freeStorageBytes: freeStorage,
+    },
+    outbox: {
+      summary: outboxSummary,
+      items: outboxItems.map(item => LogService.redact(item)),
+    },
+    syncLogs: (syncLogs || []).slice(0, MAX_SYNC_LOGS).map(log => LogService.redact(log)),
+    logs: logEntries,
+  };
+};
+
+/**
+ * Build a bundle and upload it. The file is kept in the cache directory either way, so it can
+ * still be shared by hand when the device is offline
+ */
+export const sendDiagnostics = async (reason?: string): Promise<DiagnosticsResult> => {
+  const bundle = await buildDiagnosticBundle(reason);
+  const json = JSON.stringify(bundle, null, 2);
+  const fileName = `${bundle.generatedAt.replace(/[:.]/g, '-')}.json`;
+  const path = `${bundle.deviceId}/${fileName}`;
+
+  let localUri: string | undefined;
+  if (Platform.OS !== 'web' && FileSystem.cacheDirectory) {
+    localUri = `${FileSystem.cacheDirectory}diagnostics-${fileName}`;
+    try {
+      await FileSystem.writeAsStringAsync(localUri, json);
+    } catch (error) {
+      console.error('Error writing diagnostic bundle:', error);
+      localUri = undefined;
+    }
+  }
+
+  const { error } = await supabase.storage
+    .from(BUCKET)
+    .upload(path, new TextEncoder().encode(json), {
+      contentType: 'application/json',
+      upsert: true,
+    });
+
+  if (error) {
+    console.error('Diagnostic bundle upload failed:', error);
+    return { path, uploaded: false, localUri, error: error.message };
+  }
+
+  console.log(`🩺 Diagnostic bundle uploaded: ${path} (${bundle.logs.length} log entries, ${bundle.outbox.items.length} queued items)`);
+  return { path, uploaded: true, localUri };
+};
+
+/**
+ * Open the share sheet for a bundle that could not be uploaded
+ */
+export const shareDiagnostics = async (localUri: string): Promise<boolean> => {
+  if (!(await Sharing.isAvailableAsync())) return false;
+  await Sharing.shareAsync(localUri, { mimeType: 'application/json', dialogTitle: 'Diagnostics', UTI: 'public.json' });
+  return true;
+};
@@ -0,0 +1,161 @@
+// Kiosk duplicate detection - checks the entered phone/email before the signature step, offline.
+// Recent Salesforce leads and cloud surveys are cached as keyed hashes (privacyHash.ts). The device holds the
+// key, so the index still identifies customers - it is stored encrypted like the rest of local storage
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getSupabaseClient } from '@/template';
+import { Survey, KioskDuplicateMatch } from '@/types';
+import { getPhoneDigits } from '@/utils/phone';
+import * as EncryptionService from './encryptionService';
+import { hashIdentifier } from './privacyHash';
+import * as StorageService from './storageService';
+
+const supabase = getSupabaseClient();
+
+const KEYS = {
+  INDEX: '@rainsoft/duplicates/hashedLeadIndex',
+  LEGACY_INDEX: '@rainsoft/duplicates/leadIndex', // Unkeyed SHA-256 in plain storage - removed on refresh
+};
+
+const INDEX_MAX_AGE_MS = 6 * 60 * 60 * 1000;
+const LOOKBACK_DAYS = 180;
+
+interface IndexEntry {
+  source: 'survey' | 'salesforce';
+  seenAt?: string;
+  surveyId?: string;
+}
+
+interface DuplicateIndex {
+  phones: Record<string, IndexEntry>; // HMAC of the 10-digit number
+  emails: Record<string, IndexEntry>; // HMAC of the lowercased address
+  refreshedAt: string | null;
+}
+
+const EMPTY_INDEX: DuplicateIndex = { phones: {}, emails: {}, refreshedAt: null };
+
+const normalizeEmail = (email?: string) => (email || '').trim().toLowerCase();
+
+// Email is not part of the default questionnaire - custom definitions may collect it either way
+export const getSurveyEmail = (answers: Record<string, any>): string =>
+  normalizeEmail(answers?.contact_info?.email || answers?.email);
+
+// The index is rebuilt from the server, so an unreadable copy is dropped rather than failing the survey
+const getCachedIndex = async (): Promise<DuplicateIndex> => {
+  try {
+    const data = await EncryptionService.getEncryptedItem(KEYS.INDEX);
+    return data ? JSON.parse(data) : EMPTY_INDEX;
+  } catch (error) {
+    console.error('Error reading duplicate index:', error);
+    return EMPTY_INDEX;
+  }
+};
+
+/**
+ * Rebuild the hashed index from recent Salesforce leads and cloud surveys.
+ * Keeps the previous index if either source is unreachable
+ */
+export const refreshDuplicateIndex = async (): Promise<boolean> => {
+  try {
+    await AsyncStorage.removeItem(KEYS.LEGACY_INDEX);
+
+    const { data, error } = await supabase.functions.invoke('salesforce-sync', {
+      body: { action: 'recent_lead_index', data: { days: LOOKBACK_DAYS } },
+    });
+    if (error || !data?.success) {
+      console.warn('⚠️ Could not refresh lead index:', error || data?.error);
+      return false;
+    }
+
+    const index: DuplicateIndex = { phones: {}, emails: {}, refreshedAt: new Date().toISOString() };
+    for (const entry of data.entries || []) {
+      const target = entry.kind === 'email' ? index.emails : index.phones;
+      target[entry.hash] = { source: 'salesforce', seenAt: entry.createdAt };
+    }
+
+    // Cloud surveys win over leads - they point at the exact earlier visit
+    const cutoff = new Date(Date.now() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const surveys = (await StorageService.getSurveys()).filter(s => s.timestamp >= cutoff && !s.redactedAt);
+    for (const survey of surveys) {
+      const entry: IndexEntry = { source: 'survey', seenAt: survey.timestamp, surveyId: survey.id };
+      const digits = getPhoneDigits(survey.answers?.contact_info?.phone);
+      const email = getSurveyEmail(survey.answers) || normalizeEmail(survey.appointment?.email);
+      if (digits) index.phones[await hashIdentifier(digits)] = entry;
+      if (email) index.emails[await hashIdentifier(email)] = entry;
+    }
+
+    await EncryptionService.setEncryptedItem(KEYS.INDEX, JSON.stringify(index));
+    console.log(`📇 Duplicate index refreshed: ${Object.keys(index.phones).length} phones, ${Object.keys(index.emails).length} emails`);
+    return true;
+  } catch (error) {
+    console.error('Error refreshing duplicate index:', error);
+    return false;
+  }
+};
+
+/**
+ * Refresh during sync once the cached index is older than 6 hours
+ */
+export const refreshDuplicateIndexIfStale = async (): Promise<boolean> => {
+  const { refreshedAt } = await getCachedIndex();
+  if (refreshedAt && Date.now() - new Date(refreshedAt).getTime() < INDEX_MAX_AGE_MS) return false;
+  return refreshDuplicateIndex();
+};
+
+/**
+ * Look for an earlier survey or lead with the same phone/email. Surveys taken on this device
+ * are compared directly (they may not have synced yet); everything else uses the cached index
+ */
+export const findKioskDuplicate = async (params: {
+  phone?: string;
+  email?: string;
+  localSurveys: Survey[];
+}): Promise<{ match?: KioskDuplicateMatch; indexRefreshedAt?: string }> => {
+  const digits = getPhoneDigits(params.phone);
+  const email = normalizeEmail(params.email);
+  const index = await getCachedIndex();
+  const indexRefreshedAt = index.refreshedAt || undefined;
+  if (!digits && !email) return { indexRefreshedAt };
+
+  const localMatch = params.localSurveys.find(s =>
+    !s.redactedAt && (
+      (!!digits && getPhoneDigits(s.answers?.contact_info?.phone) === digits) ||
+      (!!email && (getSurveyEmail(s.answers) === email || normalizeEmail(s.appointment?.email) === email))
+    )
+  );
+  if (localMatch) {
+    return {
+      indexRefreshedAt,
+      match: {
+        source: 'local_survey',
+        matchedOn: digits && getPhoneDigits(localMatch.answers?.contact_info?.phone) === digits ? 'phone' : 'email',
+        surveyId: localMatch.id,
+        seenAt: localMatch.timestamp,
+      },
+    };
+  }
+
+  if (!index.refreshedAt) return { indexRefreshedAt };
+
+  let phoneEntry: IndexEntry | undefined;
+  let emailEntry: IndexEntry | undefined;
+  try {
+    phoneEntry = digits ? index.phones[await hashIdentifier(digits)] : undefined;
+    emailEntry = email ? index.emails[await hashIdentifier(email)] : undefined;
+  } catch (error) {
+    // No hash key on this device yet (never online since enrollment) - only local surveys were checked
+    console.warn('⚠️ Could not check duplicate index:', error);
+    return { indexRefreshedAt };
+  }
+  const entry = phoneEntry || emailEntry;
+  if (!entry) return { indexRefreshedAt };
+
+  return {
+    indexRefreshedAt,
+    match: {
+      source: entry.source,
+      matchedOn: phoneEntry ? 'phone' : 'email',
+      surveyId: entry.surveyId,
+      seenAt: entry.seenAt,
+    },
+  };
+};
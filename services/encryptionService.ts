@@ -0,0 +1,187 @@
+// Encryption at rest for data kept on shared kiosk tablets (surveys, outbox, cached employee records).
+// A random secret is generated per device and kept in the OS keychain/keystore; AES and integrity keys
+// are derived from it, so a copied AsyncStorage dump is unreadable on its own
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import * as SecureStore from 'expo-secure-store';
+import { Platform } from 'react-native';
+import CryptoJS from 'react-native-crypto-js';
+
+const KEYS = {
+  SECRET: 'rainsoft_storage_secret', // SecureStore keys only allow [A-Za-z0-9._-]
+  WEB_SECRET: '@rainsoft/encryption/secret', // Web has no secure store - browser storage is the best available
+};
+
+const PREFIX = 'enc:v1:';
+
+// Onboarding fields that stay encrypted inside records even after the record itself is decrypted
+const SENSITIVE_FIELD_PATHS = [
+  ['personalInfo', 'ssn'],
+  ['directDepositData', 'routingNumber'],
+  ['directDepositData', 'accountNumber'],
+];
+
+interface DerivedKeys {
+  encKey: CryptoJS.WordArray;
+  macKey: string;
+}
+
+let keysPromise: Promise<DerivedKeys> | null = null;
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+const sha256 = (value: string) => Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, value);
+
+const loadSecret = async (): Promise<string> => {
+  if (Platform.OS === 'web') {
+    const existing = await AsyncStorage.getItem(KEYS.WEB_SECRET);
+    if (existing) return existing;
+    const secret = toHex(Crypto.getRandomBytes(32));
+    await AsyncStorage.setItem(KEYS.WEB_SECRET, secret);
+    return secret;
+  }
+
+  const existing = await SecureStore.getItemAsync(KEYS.SECRET);
+  if (existing) return existing;
+
+  const secret = toHex(Crypto.getRandomBytes(32));
+  // Readable after first unlock so background sync keeps working while the tablet is locked
+  await SecureStore.setItemAsync(KEYS.SECRET, secret, {
+    keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+  });
+  console.log('🔐 Generated device storage key');
+  return secret;
+};
+
+const getKeys = (): Promise<DerivedKeys> => {
+  if (!keysPromise) {
+    keysPromise = (async () => {
+      const secret = await loadSecret();
+      return {
+        encKey: CryptoJS.enc.Hex.parse(await sha256(`storage-enc:${secret}`)),
+        macKey: await sha256(`storage-mac:${secret}`),
+      };
+    })().catch(error => {
+      keysPromise = null; // Try again on the next call
+      throw error;
+    });
+  }
+  return keysPromise;
+};
+
+// Nested hash keeps the tag safe from length extension
+const computeMac = async (macKey: string, body: string) =>
+  sha256(`${macKey}:${await sha256(`${macKey}:${body}`)}`);
+
+// Constant-time comparison so a forged tag can't be found byte by byte from timing
+const isSameMac = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+export const isEncrypted = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith(PREFIX);
+
+/**
+ * AES-256-CBC with a random IV, authenticated with a SHA-256 tag
+ */
+export const encryptString = async (plaintext: string): Promise<string> => {
+  const { encKey, macKey } = await getKeys();
+  const iv = toHex(Crypto.getRandomBytes(16));
+  const ciphertext = CryptoJS.AES.encrypt(plaintext, encKey, { iv: CryptoJS.enc.Hex.parse(iv) })
+    .ciphertext.toString(CryptoJS.enc.Base64);
+  const body = `${iv}:${ciphertext}`;
+  return `${PREFIX}${body}:${await computeMac(macKey, body)}`;
+};
+
+/**
+ * Decrypt a value written by encryptString. Plaintext (pre-encryption data) is returned unchanged.
+ * Throws when the value was tampered with or written under a different device key
+ */
+export const decryptString = async (value: string): Promise<string> => {
+  if (!isEncrypted(value)) return value;
+
+  const { encKey, macKey } = await getKeys();
+  const [iv, ciphertext, mac] = value.slice(PREFIX.length).split(':');
+  if (!iv || !ciphertext || !mac || !isSameMac(mac, await computeMac(macKey, `${iv}:${ciphertext}`))) {
+    throw new Error('Encrypted value failed integrity check');
+  }
+
+  return CryptoJS.AES.decrypt(
+    CryptoJS.lib.CipherParams.create({ ciphertext: CryptoJS.enc.Base64.parse(ciphertext) }),
+    encKey,
+    { iv: CryptoJS.enc.Hex.parse(iv) }
+  ).toString(CryptoJS.enc.Utf8);
+};
+
+// ============ ASYNCSTORAGE WRAPPERS ============
+
+export const setEncryptedItem = async (key: string, value: string): Promise<void> => {
+  await AsyncStorage.setItem(key, await encryptString(value));
+};
+
+/**
+ * Read and decrypt a key. Plaintext left by older versions is returned as is and encrypted on the
+ * next write (or by migratePlaintextItems at startup)
+ */
+export const getEncryptedItem = async (key: string): Promise<string | null> => {
+  const stored = await AsyncStorage.getItem(key);
+  return stored === null ? null : decryptString(stored);
+};
+
+/**
+ * Encrypt any of the given keys still holding plaintext. Returns how many were migrated
+ */
+export const migratePlaintextItems = async (keys: string[]): Promise<number> => {
+  let migrated = 0;
+  for (const key of keys) {
+    try {
+      const stored = await AsyncStorage.getItem(key);
+      if (stored === null || isEncrypted(stored)) continue;
+      await AsyncStorage.setItem(key, await encryptString(stored));
+      migrated++;
+    } catch (error) {
+      console.error(`Error encrypting ${key}:`, error);
+    }
+  }
+  if (migrated > 0) {
+    console.log(`🔐 Encrypted ${migrated} plaintext storage keys`);
+  }
+  return migrated;
+};
+
+// ============ FIELD-LEVEL ENCRYPTION ============
+
+/**
+ * Encrypt SSN and bank details inside a record (employee, onboarding data) before it is stored.
+ * They stay encrypted when the record is loaded
+ */
+export const encryptSensitiveFields = async <T>(record: T): Promise<T> => {
+  if (!record || typeof record !== 'object') return record;
+
+  const copy: any = { ...record };
+  for (const [parent, field] of SENSITIVE_FIELD_PATHS) {
+    const value = copy[parent]?.[field];
+    if (typeof value === 'string' && value && !isEncrypted(value)) {
+      copy[parent] = { ...copy[parent], [field]: await encryptString(value) };
+    }
+  }
+  return copy;
+};
+
+// ============ DEVICE WIPE ============
+
+/**
+ * Remove every locally stored record and the device key (device unenrolled or handed back).
+ * Anything copied before the wipe can no longer be decrypted
+ */
+export const wipeDeviceData = async (): Promise<void> => {
+  keysPromise = null;
+  await AsyncStorage.clear();
+  if (Platform.OS !== 'web') {
+    await SecureStore.deleteItemAsync(KEYS.SECRET);
+  }
+  console.log('🧹 Device data and storage key wiped');
+};
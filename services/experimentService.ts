@@ -0,0 +1,453 @@
+// Experiment service - A/B variant assignment for survey sessions and training scripts, with outcome attribution
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getSupabaseClient } from '@/template';
+import { Store } from '@/constants/theme';
+import { SurveyDefinition } from '@/constants/surveyQuestions';
+import { Experiment, ExperimentAssignment, ExperimentVariant, Survey } from '@/types';
+import { getSurveyDefinitionById } from '@/services/surveyDefinitionService';
+import { getInstalledLeads } from '@/services/leadInstallService';
+import { toLocalDateKey } from '@/utils/timeFormat';
+
+const supabase = getSupabaseClient();
+
+const KEYS = {
+  EXPERIMENTS_CACHE: '@rainsoft/experiments/cache',
+  LAST_REFRESH: '@rainsoft/experiments/lastRefresh',
+  PENDING_EXPOSURES: '@rainsoft/experiments/pendingExposures',
+};
+
+const REFRESH_INTERVAL = 15 * 60 * 1000; // 15 minutes
+const Z_95 = 1.96;
+
+interface ExposureRecord {
+  sessionId: string;
+  experimentId: string;
+  variantId: string;
+  employeeId: string;
+  store: Store;
+  timestamp: string;
+}
+
+export interface RateWithInterval {
+  rate: number; // 0-1
+  low: number; // 95% confidence interval bounds
+  high: number;
+}
+
+export interface VariantResult {
+  variantId: string;
+  variantName: string;
+  sessions: number;
+  completed: number;
+  appointments: number;
+  installs: number; // Surveys whose Salesforce lead reached an install status
+  completionRate: RateWithInterval;
+  appointmentRate: RateWithInterval;
+  installRate: RateWithInterval;
+}
+
+// ============ LOADING ============
+
+const parseExperiment = (raw: any): Experiment | null => {
+  const variants: any[] = Array.isArray(raw?.variants) ? raw.variants : [];
+  if (!raw?.id || (raw.kind !== 'survey' && raw.kind !== 'script') || variants.length < 2) {
+    console.warn(`⚠️ Experiment ${raw?.id || 'unknown'} rejected: needs an id, a kind and at least two variants`);
+    return null;
+  }
+  if (variants.some(v => !v?.id || !(Number(v.weight) > 0))) {
+    console.warn(`⚠️ Experiment ${raw.id} rejected: every variant needs an id and a positive weight`);
+    return null;
+  }
+
+  return {
+    id: raw.id,
+    name: raw.name || raw.id,
+    kind: raw.kind,
+    status: raw.status || 'running',
+    variants: variants.map(v => ({ ...v, name: v.name || v.id, weight: Number(v.weight) })),
+    stores: raw.stores || undefined,
+    startDate: raw.start_date || raw.startDate || undefined,
+    endDate: raw.end_date || raw.endDate || undefined,
+  };
+};
+
+const getCachedExperiments = async (): Promise<Experiment[]> => {
+  try {
+    const data = await AsyncStorage.getItem(KEYS.EXPERIMENTS_CACHE);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    console.error('Error reading experiment cache:', error);
+    return [];
+  }
+};
+
+/**
+ * Fetch running experiments and replace the local cache
+ * Keeps the existing cache if the cloud is unreachable so kiosks stay in their variants offline
+ */
+export const refreshExperiments = async (): Promise<Experiment[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('experiments')
+      .select('*')
+      .eq('status', 'running');
+
+    if (error) {
+      console.warn('⚠️ Could not refresh experiments (using cache):', error.message);
+      return await getCachedExperiments();
+    }
+
+    const experiments = (data || [])
+      .map(parseExperiment)
+      .filter((experiment: Experiment | null): experiment is Experiment => experiment !== null);
+
+    await AsyncStorage.setItem(KEYS.EXPERIMENTS_CACHE, JSON.stringify(experiments));
+    await AsyncStorage.setItem(KEYS.LAST_REFRESH, new Date().toISOString());
+    return experiments;
+  } catch (error) {
+    console.warn('⚠️ Experiment refresh error (using cache):', error);
+    return await getCachedExperiments();
+  }
+};
+
+/**
+ * All experiments (any status) for the analytics screen
+ */
+export const getAllExperiments = async (): Promise<Experiment[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('experiments')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || [])
+      .map(parseExperiment)
+      .filter((experiment: Experiment | null): experiment is Experiment => experiment !== null);
+  } catch (error) {
+    console.error('Error loading experiments:', error);
+    return [];
+  }
+};
+
+/**
+ * Running experiments that apply to this store today
+ */
+export const getRunningExperiments = async (store: Store): Promise<Experiment[]> => {
+  const lastRefresh = await AsyncStorage.getItem(KEYS.LAST_REFRESH).catch(() => null);
+  const isStale = !lastRefresh || Date.now() - new Date(lastRefresh).getTime() > REFRESH_INTERVAL;
+  const experiments = isStale ? await refreshExperiments() : await getCachedExperiments();
+
+  const today = toLocalDateKey(new Date());
+  return experiments.filter(experiment =>
+    experiment.status === 'running' &&
+    (!experiment.stores || experiment.stores.length === 0 || experiment.stores.includes(store)) &&
+    (!experiment.startDate || experiment.startDate <= today) &&
+    (!experiment.endDate || experiment.endDate >= today)
+  );
+};
+
+// ============ ASSIGNMENT ============
+
+// FNV-1a: stable across devices so the same unit always lands in the same variant
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const pickVariant = (experiment: Experiment, unitId: string): ExperimentVariant => {
+  const totalWeight = experiment.variants.reduce((sum, v) => sum + v.weight, 0);
+  let bucket = (hashString(`${experiment.id}:${unitId}`) % 10000) / 10000 * totalWeight;
+
+  for (const variant of experiment.variants) {
+    if (bucket < variant.weight) return variant;
+    bucket -= variant.weight;
+  }
+  return experiment.variants[experiment.variants.length - 1];
+};
+
+/**
+ * Survey experiments randomize per session; script experiments randomize per employee per day,
+ * since an employee delivers one pitch for a whole shift
+ */
+const getAssignmentUnit = (experiment: Experiment, sessionId: string, employeeId: string): string => {
+  if (experiment.kind === 'script') {
+    return `${employeeId}:${toLocalDateKey(new Date())}`;
+  }
+  return sessionId;
+};
+
+export const assignExperiments = (
+  experiments: Experiment[],
+  sessionId: string,
+  employeeId: string
+): ExperimentAssignment[] => {
+  return experiments.map(experiment => ({
+    experimentId: experiment.id,
+    variantId: pickVariant(experiment, getAssignmentUnit(experiment, sessionId, employeeId)).id,
+  }));
+};
+
+const findVariant = (experiments: Experiment[], assignment: ExperimentAssignment) => {
+  const experiment = experiments.find(e => e.id === assignment.experimentId);
+  const variant = experiment?.variants.find(v => v.id === assignment.variantId);
+  return experiment && variant ? { experiment, variant } : null;
+};
+
+export const createSessionId = (): string => {
+  return `${Date.now()}-${Math.random().toString(36).substring(2, 10)}`;
+};
+
+// ============ APPLYING VARIANTS ============
+
+/**
+ * Build the questionnaire for a session from its survey-experiment variants
+ * The signature always stays last so a reordered variant can never skip consent
+ */
+export const applySurveyVariants = async (
+  base: SurveyDefinition,
+  experiments: Experiment[],
+  assignments: ExperimentAssignment[]
+): Promise<SurveyDefinition> => {
+  let definition = base;
+
+  for (const assignment of assignments) {
+    const match = findVariant(experiments, assignment);
+    if (!match || match.experiment.kind !== 'survey') continue;
+    const { variant } = match;
+
+    if (variant.surveyDefinitionId) {
+      const replacement = await getSurveyDefinitionById(variant.surveyDefinitionId);
+      if (replacement) {
+        definition = replacement;
+      } else {
+        console.warn(`⚠️ Variant ${variant.id} references unknown survey definition ${variant.surveyDefinitionId}`);
+      }
+    }
+
+    let questions = definition.questions.map(q =>
+      variant.questionText?.[q.id] ? { ...q, question: variant.questionText[q.id] } : q
+    );
+
+    if (variant.questionOrder && variant.questionOrder.length > 0) {
+      const ordered = variant.questionOrder
+        .map(id => questions.find(q => q.id === id))
+        .filter((q): q is typeof questions[number] => !!q && q.type !== 'signature');
+      const rest = questions.filter(q => !ordered.includes(q) && q.type !== 'signature');
+      const signatures = questions.filter(q => q.type === 'signature');
+      questions = [...ordered, ...rest, ...signatures];
+    }
+
+    definition = { ...definition, questions };
+  }
+
+  return definition;
+};
+
+/**
+ * Script overrides for the employee's current script-experiment variant, if any
+ */
+export const getScriptVariant = async (
+  employeeId: string,
+  store: Store
+): Promise<{ experiment: Experiment; variant: ExperimentVariant } | null> => {
+  const experiments = (await getRunningExperiments(store)).filter(e => e.kind === 'script');
+  for (const assignment of assignExperiments(experiments, '', employeeId)) {
+    const match = findVariant(experiments, assignment);
+    if (match?.variant.scripts) return match;
+  }
+  return null;
+};
+
+/**
+ * Compact "experiment:variant;experiment:variant" form, sent to Salesforce only when a field mapping uses _experimentVariant
+ */
+export const formatExperimentAssignments = (assignments?: ExperimentAssignment[]): string => {
+  return (assignments || []).map(a => `${a.experimentId}:${a.variantId}`).join(';');
+};
+
+// ============ EXPOSURES ============
+
+/**
+ * Push queued exposures to Supabase; anything that fails stays queued for the next attempt
+ */
+export const flushExposures = async (): Promise<void> => {
+  try {
+    const data = await AsyncStorage.getItem(KEYS.PENDING_EXPOSURES);
+    const pending: ExposureRecord[] = data ? JSON.parse(data) : [];
+    if (pending.length === 0) return;
+
+    const { error } = await supabase
+      .from('experiment_exposures')
+      .upsert(pending.map(exposure => ({
+        session_id: exposure.sessionId,
+        experiment_id: exposure.experimentId,
+        variant_id: exposure.variantId,
+        employee_id: exposure.employeeId,
+        store: exposure.store,
+        created_at: exposure.timestamp,
+      })), { onConflict: 'session_id,experiment_id' });
+
+    if (error) {
+      console.warn('⚠️ Experiment exposures not synced (will retry):', error.message);
+      return;
+    }
+
+    // Re-read - sessions started while the upsert was in flight are still queued
+    const flushed = new Set(pending.map(exposure => `${exposure.sessionId}:${exposure.experimentId}`));
+    const latest = await AsyncStorage.getItem(KEYS.PENDING_EXPOSURES);
+    const remaining = (latest ? JSON.parse(latest) as ExposureRecord[] : [])
+      .filter(exposure => !flushed.has(`${exposure.sessionId}:${exposure.experimentId}`));
+    if (remaining.length > 0) {
+      await AsyncStorage.setItem(KEYS.PENDING_EXPOSURES, JSON.stringify(remaining));
+    } else {
+      await AsyncStorage.removeItem(KEYS.PENDING_EXPOSURES);
+    }
+    console.log(`✅ Synced ${pending.length} experiment exposures`);
+  } catch (error) {
+    console.warn('⚠️ Experiment exposure flush error (will retry):', error);
+  }
+};
+
+/**
+ * Record that a survey session started in these variants (denominator for completion rates)
+ * Stored locally first so sessions started offline are still counted
+ */
+export const recordExposure = async (
+  sessionId: string,
+  employeeId: string,
+  store: Store,
+  assignments: ExperimentAssignment[]
+): Promise<void> => {
+  if (assignments.length === 0) return;
+
+  try {
+    const data = await AsyncStorage.getItem(KEYS.PENDING_EXPOSURES);
+    const pending: ExposureRecord[] = data ? JSON.parse(data) : [];
+    const timestamp = new Date().toISOString();
+
+    for (const assignment of assignments) {
+      pending.push({ sessionId, employeeId, store, timestamp, ...assignment });
+    }
+
+    await AsyncStorage.setItem(KEYS.PENDING_EXPOSURES, JSON.stringify(pending));
+  } catch (error) {
+    console.error('Error recording experiment exposure:', error);
+  }
+
+  flushExposures();
+};
+
+// ============ RESULTS ============
+
+/**
+ * Wilson score interval - stays sensible for small samples and rates near 0% or 100%
+ */
+export const wilsonInterval = (successes: number, trials: number, z: number = Z_95): RateWithInterval => {
+  if (trials <= 0) return { rate: 0, low: 0, high: 0 };
+
+  const p = Math.min(successes / trials, 1);
+  const z2 = z * z;
+  const denominator = 1 + z2 / trials;
+  const center = (p + z2 / (2 * trials)) / denominator;
+  const margin = (z * Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials * trials))) / denominator;
+
+  return {
+    rate: p,
+    low: Math.max(0, center - margin),
+    high: Math.min(1, center + margin),
+  };
+};
+
+const getVariantId = (survey: Survey, experimentId: string): string | undefined => {
+  return survey.experimentAssignments?.find(a => a.experimentId === experimentId)?.variantId;
+};
+
+/**
+ * Per-variant completion, appointment and install rates for one experiment.
+ * Pass the same employee/store filters the surveys were narrowed by, so exposures count the same sessions.
+ * Installs are the surveys whose Salesforce lead reached an install status (matched via Survey_ID__c)
+ */
+export const getExperimentResults = async (
+  experiment: Experiment,
+  surveys: Survey[],
+  startDate?: Date | null,
+  endDate?: Date | null,
+  filters: { employeeId?: string | null; store?: Store | null } = {}
+): Promise<VariantResult[]> => {
+  const inRange = (timestamp: string) => {
+    const date = new Date(timestamp);
+    if (startDate && date < startDate) return false;
+    if (endDate) {
+      const endOfDay = new Date(endDate);
+      endOfDay.setHours(23, 59, 59, 999);
+      if (date > endOfDay) return false;
+    }
+    return true;
+  };
+
+  const experimentSurveys = surveys.filter(s => getVariantId(s, experiment.id) && inRange(s.timestamp));
+
+  // Sessions started per variant
+  const exposures = new Map<string, number>();
+  try {
+    let query = supabase
+      .from('experiment_exposures')
+      .select('variant_id, created_at')
+      .eq('experiment_id', experiment.id);
+    if (startDate) query = query.gte('created_at', startDate.toISOString());
+    if (filters.employeeId) query = query.eq('employee_id', filters.employeeId);
+    if (filters.store) query = query.eq('store', filters.store);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    for (const row of data || []) {
+      if (!inRange(row.created_at)) continue;
+      exposures.set(row.variant_id, (exposures.get(row.variant_id) || 0) + 1);
+    }
+  } catch (error) {
+    console.warn('⚠️ Could not load experiment exposures:', error);
+  }
+
+  // Installed leads can only come from surveys taken on or after the earliest one here
+  const installedSurveyIds = new Set<string>();
+  if (experimentSurveys.length > 0) {
+    try {
+      const since = experimentSurveys
+        .map(s => toLocalDateKey(s.timestamp))
+        .reduce((earliest, day) => (day < earliest ? day : earliest));
+      for (const lead of await getInstalledLeads(since)) {
+        installedSurveyIds.add(lead.surveyId);
+      }
+    } catch (error) {
+      console.warn('⚠️ Could not load install outcomes for experiment:', error);
+    }
+  }
+
+  return experiment.variants.map(variant => {
+    const variantSurveys = experimentSurveys.filter(s => getVariantId(s, experiment.id) === variant.id);
+    const completed = variantSurveys.filter(s => !!s.signature).length;
+    const appointments = variantSurveys.filter(s => s.category === 'appointment').length;
+    // Exposures can lag behind surveys if a device has not flushed yet
+    const sessions = Math.max(exposures.get(variant.id) || 0, variantSurveys.length);
+    const variantInstalls = variantSurveys.filter(s => installedSurveyIds.has(s.id)).length;
+
+    return {
+      variantId: variant.id,
+      variantName: variant.name,
+      sessions,
+      completed,
+      appointments,
+      installs: variantInstalls,
+      completionRate: wilsonInterval(completed, sessions),
+      appointmentRate: wilsonInterval(appointments, completed),
+      installRate: wilsonInterval(variantInstalls, completed),
+    };
+  });
+};
@@ -7,22 +7,25 @@
  * - Appointments
  * 
  * Design Principles:
- * 1. Multiple redundancy layers (AsyncStorage + Supabase + Sync Queue)
+ * 1. Multiple redundancy layers (AsyncStorage + Supabase + Outbox)
  * 2. Never throw errors (returns success/failure status)
  * 3. Automatic retry mechanisms
  * 4. Works offline-first
  * 5. Isolated from other features (won't be affected by crashes elsewhere)
+ * 6. Encrypted at rest with the device key (see encryptionService)
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Survey, TimeEntry, Appointment } from '@/types';
+import * as OutboxService from './outboxService';
+import * as EncryptionService from './encryptionService';
 
 // Separate storage keys for critical features (isolated from other app data)
 const KEYS = {
   SURVEYS_CRITICAL: '@rainsoft/critical/surveys',
   TIME_ENTRIES_CRITICAL: '@rainsoft/critical/timeEntries',
   APPOINTMENTS_CRITICAL: '@rainsoft/critical/appointments',
-  SYNC_QUEUE_CRITICAL: '@rainsoft/critical/syncQueue',
+  SYNC_QUEUE_CRITICAL: '@rainsoft/critical/syncQueue', // Legacy - moved into the outbox
   LAST_BACKUP: '@rainsoft/critical/lastBackup',
 };
 
@@ -44,17 +47,19 @@ export async function saveSurveyFailsafe(survey: Survey): Promise<FailsafeResult
     const surveys = await getCriticalSurveys();
     surveys.push(survey);
     
-    await AsyncStorage.setItem(KEYS.SURVEYS_CRITICAL, JSON.stringify(surveys));
+    await EncryptionService.setEncryptedItem(KEYS.SURVEYS_CRITICAL, JSON.stringify(surveys));
     console.log(`✅ FAILSAFE: Survey ${survey.id} saved to critical storage`);
     
     // LAYER 2: Try to save to cloud database (non-blocking)
+    // Same idempotency key as the outbox upload - whichever lands second is a no-op
     try {
-      const { getSupabaseClient } = require('@/template');
-      const supabase = getSupabaseClient();
+      const { ingestRecords } = require('./ingestionService');
       
-      const { error: cloudError } = await supabase
-        .from('surveys')
-        .upsert([{
+      const [result] = await ingestRecords([{
+        kind: 'survey',
+        clientId: survey.id,
+        idempotencyKey: `survey:${survey.id}`,
+        data: {
           id: survey.id,
           employee_id: survey.employeeId,
           employee_alias: survey.employeeAlias,
@@ -70,19 +75,26 @@ export async function saveSurveyFailsafe(survey: Survey): Promise<FailsafeResult
           synced_to_salesforce: false,
           synced_to_zapier: false,
           location_verified: survey.locationVerified,
-        }]);
+          survey_definition_id: survey.surveyDefinitionId,
+          survey_definition_version: survey.surveyDefinitionVersion,
+          experiment_assignments: survey.experimentAssignments || null,
+          consent: survey.consent || null,
+          redacted_at: survey.redactedAt || null,
+          kiosk_duplicate_check: survey.kioskDuplicateCheck || null,
+        },
+      }]);
       
-      if (!cloudError) {
+      if (result && result.status !== 'error' && result.status !== 'invalid') {
         console.log(`✅ FAILSAFE: Survey ${survey.id} also saved to cloud`);
       } else {
-        console.warn(`⚠️ FAILSAFE: Cloud save failed (data safe locally):`, cloudError.message);
-        // Add to sync queue for retry
-        await addToSyncQueueCritical({ type: 'survey', data: survey });
+        console.warn(`⚠️ FAILSAFE: Cloud save failed (data safe locally):`, result?.error);
+        // Add to outbox for retry
+        await addToOutboxCritical({ type: 'survey', data: survey });
       }
     } catch (cloudError) {
       console.warn(`⚠️ FAILSAFE: Cloud save error (data safe locally):`, cloudError);
-      // Add to sync queue for retry
-      await addToSyncQueueCritical({ type: 'survey', data: survey });
+      // Add to outbox for retry
+      await addToOutboxCritical({ type: 'survey', data: survey });
     }
     
     // LAYER 3: Create backup checkpoint
@@ -128,18 +140,18 @@ export async function saveTimeEntryFailsafe(timeEntry: TimeEntry): Promise<Fails
       entries.push(timeEntry);
     }
     
-    await AsyncStorage.setItem(KEYS.TIME_ENTRIES_CRITICAL, JSON.stringify(entries));
+    await EncryptionService.setEncryptedItem(KEYS.TIME_ENTRIES_CRITICAL, JSON.stringify(entries));
     console.log(`✅ FAILSAFE: Time entry ${timeEntry.id} saved to critical storage`);
     
-    // LAYER 2: Try cloud save
+    // LAYER 2: Try cloud save (offline temp_ ids are mapped to their server row by the endpoint)
     try {
-      const { getSupabaseClient } = require('@/template');
-      const supabase = getSupabaseClient();
+      const { ingestRecords } = require('./ingestionService');
       
-      const { error: cloudError } = await supabase
-        .from('time_entries')
-        .upsert([{
-          id: timeEntry.id,
+      const [result] = await ingestRecords([{
+        kind: 'time_entry',
+        clientId: timeEntry.id,
+        idempotencyKey: `time_entry:${timeEntry.id}:${timeEntry.clockOut || 'open'}`,
+        data: {
           employee_id: timeEntry.employeeId,
           clock_in: timeEntry.clockIn,
           clock_out: timeEntry.clockOut,
@@ -155,17 +167,18 @@ export async function saveTimeEntryFailsafe(timeEntry: TimeEntry): Promise<Fails
           photo_uri: timeEntry.photoUri,
           location_verified: timeEntry.locationVerified,
           distance_from_store: timeEntry.distanceFromStore,
-        }]);
+        },
+      }]);
       
-      if (!cloudError) {
+      if (result && result.status !== 'error' && result.status !== 'invalid') {
         console.log(`✅ FAILSAFE: Time entry ${timeEntry.id} also saved to cloud`);
       } else {
         console.warn(`⚠️ FAILSAFE: Cloud save failed (data safe locally)`);
-        await addToSyncQueueCritical({ type: 'timeEntry', data: timeEntry });
+        await addToOutboxCritical({ type: 'timeEntry', data: timeEntry });
       }
     } catch (cloudError) {
       console.warn(`⚠️ FAILSAFE: Cloud save error (data safe locally)`);
-      await addToSyncQueueCritical({ type: 'timeEntry', data: timeEntry });
+      await addToOutboxCritical({ type: 'timeEntry', data: timeEntry });
     }
     
     await createBackupCheckpoint();
@@ -177,78 +190,111 @@ export async function saveTimeEntryFailsafe(timeEntry: TimeEntry): Promise<Fails
 }
 
 /**
- * Get all critical surveys (never throws)
+ * Read a critical list. Throws when it can't be decrypted or parsed - an unreadable list is never
+ * treated as empty, or the next save would write a one-item list over everything stored
  */
-async function getCriticalSurveys(): Promise<Survey[]> {
+async function readCriticalList<T>(key: string): Promise<T[]> {
   try {
-    const data = await AsyncStorage.getItem(KEYS.SURVEYS_CRITICAL);
+    const data = await EncryptionService.getEncryptedItem(key);
     return data ? JSON.parse(data) : [];
   } catch (error) {
-    console.error('Error loading critical surveys:', error);
-    return [];
+    console.error(`❌ FAILSAFE: ${key} could not be read - leaving it untouched:`, error);
+    throw new Error(`Critical storage ${key} could not be read: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
+const getCriticalSurveys = () => readCriticalList<Survey>(KEYS.SURVEYS_CRITICAL);
+
+const getCriticalTimeEntries = () => readCriticalList<TimeEntry>(KEYS.TIME_ENTRIES_CRITICAL);
+
 /**
- * Get all critical time entries (never throws)
+ * Add item to the outbox (for retry when online)
  */
-async function getCriticalTimeEntries(): Promise<TimeEntry[]> {
+async function addToOutboxCritical(item: { type: 'survey' | 'timeEntry'; data: any }): Promise<void> {
   try {
-    const data = await AsyncStorage.getItem(KEYS.TIME_ENTRIES_CRITICAL);
-    return data ? JSON.parse(data) : [];
+    if (item.type === 'survey') {
+      await OutboxService.enqueueOutboxItem({
+        type: 'survey',
+        idempotencyKey: `survey:${item.data.id}`,
+        entityId: item.data.id,
+        payload: { survey: item.data },
+      });
+    } else {
+      await OutboxService.enqueueOutboxItem({
+        type: 'time_entry',
+        // A later snapshot of the same entry must still go out
+        idempotencyKey: `time_entry:${item.data.id}:${item.data.clockOut || 'open'}`,
+        entityId: item.data.id,
+        payload: { timeEntry: item.data },
+      });
+    }
+    console.log(`📋 Added to outbox:`, item.type);
   } catch (error) {
-    console.error('Error loading critical time entries:', error);
-    return [];
+    console.error('Error adding to outbox:', error);
   }
 }
 
 /**
- * Add item to critical sync queue (for retry when online)
+ * Move items left in the old critical sync queue into the outbox
  */
-async function addToSyncQueueCritical(item: any): Promise<void> {
+export async function migrateCriticalSyncQueue(): Promise<void> {
   try {
-    const queueData = await AsyncStorage.getItem(KEYS.SYNC_QUEUE_CRITICAL);
-    const queue = queueData ? JSON.parse(queueData) : [];
-    
-    queue.push({
-      ...item,
-      addedAt: new Date().toISOString(),
-      retryCount: 0,
-    });
-    
-    await AsyncStorage.setItem(KEYS.SYNC_QUEUE_CRITICAL, JSON.stringify(queue));
-    console.log(`📋 Added to critical sync queue:`, item.type);
+    const data = await EncryptionService.getEncryptedItem(KEYS.SYNC_QUEUE_CRITICAL);
+    const queue: { type: 'survey' | 'timeEntry'; data: any }[] = data ? JSON.parse(data) : [];
+    for (const item of queue) {
+      await addToOutboxCritical(item);
+    }
+    if (queue.length > 0) {
+      await AsyncStorage.removeItem(KEYS.SYNC_QUEUE_CRITICAL);
+      console.log(`📋 Moved ${queue.length} critical sync queue items to the outbox`);
+    }
   } catch (error) {
-    console.error('Error adding to critical sync queue:', error);
+    console.error('Error migrating critical sync queue:', error);
   }
 }
 
 /**
- * Get critical sync queue
+ * Replace matching surveys in critical storage and queued survey uploads (erasure requests).
+ * Returns the ids that were redacted
  */
-export async function getCriticalSyncQueue(): Promise<any[]> {
+export async function redactCriticalSurveys(
+  shouldRedact: (survey: Survey) => boolean,
+  redact: (survey: Survey) => Survey
+): Promise<string[]> {
+  const redactedIds = new Set<string>();
+
   try {
-    const data = await AsyncStorage.getItem(KEYS.SYNC_QUEUE_CRITICAL);
-    return data ? JSON.parse(data) : [];
+    const surveys = await getCriticalSurveys();
+    const updated = surveys.map(survey => {
+      if (!shouldRedact(survey)) return survey;
+      redactedIds.add(survey.id);
+      return redact(survey);
+    });
+    await EncryptionService.setEncryptedItem(KEYS.SURVEYS_CRITICAL, JSON.stringify(updated));
   } catch (error) {
-    console.error('Error loading critical sync queue:', error);
-    return [];
+    console.error('Error redacting critical surveys:', error);
   }
-}
 
-/**
- * Remove item from critical sync queue after successful sync
- */
-export async function removeFromCriticalSyncQueue(item: any): Promise<void> {
+  // Queued uploads are redacted even when critical storage can't be read
   try {
-    const queue = await getCriticalSyncQueue();
-    const filtered = queue.filter(q => 
-      !(q.type === item.type && q.data.id === item.data.id)
-    );
-    await AsyncStorage.setItem(KEYS.SYNC_QUEUE_CRITICAL, JSON.stringify(filtered));
+    await migrateCriticalSyncQueue();
+    await OutboxService.updateOutboxPayloads('survey', payload => {
+      if (!payload?.survey || !shouldRedact(payload.survey)) return payload;
+      redactedIds.add(payload.survey.id);
+      return { ...payload, survey: redact(payload.survey) };
+    });
   } catch (error) {
-    console.error('Error removing from critical sync queue:', error);
+    console.error('Error redacting queued survey uploads:', error);
   }
+
+  return Array.from(redactedIds);
+}
+
+/**
+ * Encrypt critical storage written as plaintext by older versions (runs at startup)
+ */
+export async function encryptCriticalStorage(): Promise<void> {
+  await EncryptionService.migratePlaintextItems([KEYS.SURVEYS_CRITICAL, KEYS.TIME_ENTRIES_CRITICAL]);
 }
 
 /**
@@ -260,7 +306,7 @@ async function createBackupCheckpoint(): Promise<void> {
       timestamp: new Date().toISOString(),
       surveyCount: (await getCriticalSurveys()).length,
       timeEntryCount: (await getCriticalTimeEntries()).length,
-      queueCount: (await getCriticalSyncQueue()).length,
+      queueCount: (await OutboxService.getOutboxItems()).length,
     };
     
     await AsyncStorage.setItem(KEYS.LAST_BACKUP, JSON.stringify(checkpoint));
@@ -282,7 +328,7 @@ export async function getCriticalStorageHealth(): Promise<{
   try {
     const surveys = await getCriticalSurveys();
     const timeEntries = await getCriticalTimeEntries();
-    const queue = await getCriticalSyncQueue();
+    const outbox = await OutboxService.getOutboxSummary();
     const backupData = await AsyncStorage.getItem(KEYS.LAST_BACKUP);
     const backup = backupData ? JSON.parse(backupData) : null;
     
@@ -290,7 +336,7 @@ export async function getCriticalStorageHealth(): Promise<{
       healthy: true,
       surveysStored: surveys.length,
       timeEntriesStored: timeEntries.length,
-      queuedForSync: queue.length,
+      queuedForSync: outbox.pending + outbox.inFlight + outbox.dead,
       lastBackup: backup?.timestamp || null,
     };
   } catch (error) {
@@ -304,94 +350,3 @@ export async function getCriticalStorageHealth(): Promise<{
     };
   }
 }
-
-/**
- * Sync critical data to cloud (called when online)
- */
-export async function syncCriticalDataToCloud(): Promise<{
-  surveysSynced: number;
-  timeEntriesSynced: number;
-  failed: number;
-}> {
-  console.log('🔄 Syncing critical data to cloud...');
-  
-  let surveysSynced = 0;
-  let timeEntriesSynced = 0;
-  let failed = 0;
-  
-  try {
-    const queue = await getCriticalSyncQueue();
-    const { getSupabaseClient } = require('@/template');
-    const supabase = getSupabaseClient();
-    
-    for (const item of queue) {
-      try {
-        if (item.type === 'survey') {
-          const { error } = await supabase
-            .from('surveys')
-            .upsert([{
-              id: item.data.id,
-              employee_id: item.data.employeeId,
-              employee_alias: item.data.employeeAlias,
-              store: item.data.store,
-              store_name: item.data.storeName,
-              store_number: item.data.storeNumber,
-              store_address: item.data.storeAddress,
-              timestamp: item.data.timestamp,
-              answers: item.data.answers,
-              signature: item.data.signature,
-              category: item.data.category,
-              appointment: item.data.appointment,
-              synced_to_salesforce: false,
-              synced_to_zapier: false,
-              location_verified: item.data.locationVerified,
-            }]);
-          
-          if (!error) {
-            surveysSynced++;
-            await removeFromCriticalSyncQueue(item);
-          } else {
-            failed++;
-          }
-        } else if (item.type === 'timeEntry') {
-          const { error } = await supabase
-            .from('time_entries')
-            .upsert([{
-              id: item.data.id,
-              employee_id: item.data.employeeId,
-              clock_in: item.data.clockIn,
-              clock_out: item.data.clockOut,
-              store: item.data.store,
-              store_name: item.data.storeName,
-              store_number: item.data.storeNumber,
-              store_address: item.data.storeAddress,
-              synced_to_adp: false,
-              is_active_in_kiosk: item.data.isActiveInKiosk,
-              gps_latitude: item.data.gpsCoordinates?.latitude,
-              gps_longitude: item.data.gpsCoordinates?.longitude,
-              gps_accuracy: item.data.gpsCoordinates?.accuracy,
-              photo_uri: item.data.photoUri,
-              location_verified: item.data.locationVerified,
-              distance_from_store: item.data.distanceFromStore,
-            }]);
-          
-          if (!error) {
-            timeEntriesSynced++;
-            await removeFromCriticalSyncQueue(item);
-          } else {
-            failed++;
-          }
-        }
-      } catch (itemError) {
-        console.error('Error syncing item:', itemError);
-        failed++;
-      }
-    }
-    
-    console.log(`✅ Critical sync complete: ${surveysSynced} surveys, ${timeEntriesSynced} time entries, ${failed} failed`);
-  } catch (error) {
-    console.error('Error syncing critical data:', error);
-  }
-  
-  return { surveysSynced, timeEntriesSynced, failed };
-}
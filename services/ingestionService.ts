@@ -0,0 +1,38 @@
+// Client for the ingest-records edge function - surveys and time entries go through it instead of
+// writing tables directly, so a retried upload is recognised by its idempotency key.
+// The function only accepts enrolled devices - an unenrolled kiosk keeps its records queued
+import { getSupabaseClient } from '@/template';
+import { IngestRecord, IngestResult } from '@/types';
+import { getDeviceAuthHeaders } from './deviceIdentity';
+
+const supabase = getSupabaseClient();
+
+/**
+ * Send a batch of records. Throws when the endpoint cannot be reached - the caller retries later
+ */
+export const ingestRecords = async (records: IngestRecord[]): Promise<IngestResult[]> => {
+  const headers = await getDeviceAuthHeaders();
+  if (!headers) throw new Error('This device is not enrolled - enroll it in Settings before uploading');
+
+  const { data, error } = await supabase.functions.invoke('ingest-records', {
+    headers,
+    body: { records },
+  });
+  if (error) throw new Error(error.message || 'Ingestion endpoint unavailable');
+  if (!data?.success) throw new Error(data?.error || 'Ingestion failed');
+  return data.results as IngestResult[];
+};
+
+/**
+ * Send one record. Throws unless the server applied it now or already had it
+ */
+export const ingestRecord = async (record: IngestRecord): Promise<IngestResult> => {
+  const [result] = await ingestRecords([record]);
+  if (!result || result.status === 'error' || result.status === 'invalid') {
+    throw new Error(`Ingestion ${result?.status || 'failed'} for ${record.idempotencyKey}: ${result?.error || 'no result'}`);
+  }
+  if (result.status === 'duplicate') {
+    console.log(`♻️ ${record.idempotencyKey} was already ingested`);
+  }
+  return result;
+};
@@ -0,0 +1,348 @@
+// Labor compliance rules - weekly/daily overtime, meal breaks, maximum shift length and minimum rest
+// between shifts. Rules live in one labor_rules row that admins edit; kiosks keep a local copy so
+// clock-in warnings still work offline.
+// The same evaluation runs over worked shifts (time entries, for reporting and clock-in warnings)
+// and planned shifts (schedules, which are blocked when they would break a rule)
+import { getSupabaseClient } from '@/template';
+import { LaborRules, LaborViolation, LaborViolationType, Schedule, TimeEntry, TimeEntryBreak } from '@/types';
+import { toLocalDateKey } from '@/utils/timeFormat';
+import { getWorkedHours } from './payrollService';
+import * as StorageService from './storageService';
+
+const supabase = getSupabaseClient();
+
+const RULES_ID = 'default';
+const RULES_CACHE_KEY = 'labor_rules';
+const HOUR_MS = 60 * 60 * 1000;
+
+// Federal baseline - no daily overtime
+export const DEFAULT_LABOR_RULES: LaborRules = {
+  weeklyOvertimeHours: 40,
+  dailyOvertimeHours: null,
+  mealBreakAfterHours: 5,
+  mealBreakMinutes: 30,
+  maxShiftHours: 12,
+  minRestHours: 8,
+};
+
+export const VIOLATION_LABELS: Record<LaborViolationType, string> = {
+  weekly_overtime: 'Weekly overtime',
+  daily_overtime: 'Daily overtime',
+  missed_meal_break: 'Missed meal break',
+  max_shift_length: 'Shift too long',
+  min_rest: 'Short rest',
+};
+
+// A worked or planned shift
+interface WorkBlock {
+  id: string;
+  employeeId: string;
+  start: Date;
+  end: Date;
+  paidHours: number;
+  breaks?: TimeEntryBreak[]; // Worked shifts only - schedules have no breaks to check
+}
+
+// ============ RULES ============
+
+/**
+ * Rules in force - the last copy this device saw when offline, the defaults when never loaded
+ */
+export const getLaborRules = async (): Promise<LaborRules> => {
+  const { data, error } = await supabase
+    .from('labor_rules')
+    .select('*')
+    .eq('id', RULES_ID)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading labor rules:', error);
+    return (await StorageService.getData<LaborRules>(RULES_CACHE_KEY)) || DEFAULT_LABOR_RULES;
+  }
+
+  const rules = data ? transformRulesFromDB(data) : DEFAULT_LABOR_RULES;
+  await StorageService.saveData(RULES_CACHE_KEY, rules);
+  return rules;
+};
+
+export const saveLaborRules = async (rules: LaborRules, updatedBy?: string): Promise<LaborRules> => {
+  const positive = [
+    rules.weeklyOvertimeHours,
+    rules.dailyOvertimeHours,
+    rules.mealBreakAfterHours,
+    rules.maxShiftHours,
+    rules.minRestHours,
+  ];
+  if (positive.some(value => value !== null && !(value > 0)) || !(rules.mealBreakMinutes > 0)) {
+    throw new Error('Every enabled rule needs a value greater than 0');
+  }
+  if (rules.dailyOvertimeHours !== null && rules.maxShiftHours !== null && rules.maxShiftHours < rules.dailyOvertimeHours) {
+    throw new Error('Maximum shift length cannot be shorter than the daily overtime threshold');
+  }
+
+  const saved: LaborRules = { ...rules, updatedBy, updatedAt: new Date().toISOString() };
+  const { error } = await supabase
+    .from('labor_rules')
+    .upsert([transformRulesToDB(saved)], { onConflict: 'id' });
+
+  if (error) {
+    console.error('Error saving labor rules:', error);
+    throw error;
+  }
+
+  await StorageService.saveData(RULES_CACHE_KEY, saved);
+  console.log('⚖️ Labor rules updated');
+  return saved;
+};
+
+// ============ EVALUATION ============
+
+const round = (hours: number) => Math.round(hours * 100) / 100;
+
+const parseDateKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Monday of the workweek containing a day
+const getWeekStart = (day: string) => {
+  const date = parseDateKey(day);
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return toLocalDateKey(date);
+};
+
+const fromTimeEntry = (entry: TimeEntry): WorkBlock => ({
+  id: entry.id,
+  employeeId: entry.employeeId,
+  start: new Date(entry.clockIn),
+  end: new Date(entry.clockOut!),
+  paidHours: getWorkedHours(entry),
+  breaks: entry.breaks || [],
+});
+
+// An end time at or before the start time runs past midnight
+const fromSchedule = (schedule: Schedule): WorkBlock => {
+  const at = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    const date = parseDateKey(schedule.date);
+    date.setHours(hours, minutes, 0, 0);
+    return date;
+  };
+  const start = at(schedule.startTime);
+  const end = at(schedule.endTime);
+  if (end <= start) end.setDate(end.getDate() + 1);
+  return {
+    id: schedule.id,
+    employeeId: schedule.employeeId,
+    start,
+    end,
+    paidHours: (end.getTime() - start.getTime()) / HOUR_MS,
+  };
+};
+
+const formatHours = (hours: number) => `${round(hours)} hrs`;
+
+// Every violation across one employee's shifts (sorted by start)
+const evaluateEmployee = (blocks: WorkBlock[], rules: LaborRules): LaborViolation[] => {
+  const violations: LaborViolation[] = [];
+  const add = (violation: LaborViolation) => violations.push({ ...violation, measured: round(violation.measured) });
+
+  blocks.forEach((block, index) => {
+    const date = toLocalDateKey(block.start);
+    const span = (block.end.getTime() - block.start.getTime()) / HOUR_MS;
+
+    if (rules.maxShiftHours !== null && span > rules.maxShiftHours) {
+      add({
+        id: `max_shift_length:${block.employeeId}:${block.id}`,
+        type: 'max_shift_length',
+        severity: 'violation',
+        employeeId: block.employeeId,
+        date,
+        shiftIds: [block.id],
+        measured: span,
+        limit: rules.maxShiftHours,
+        detail: `${formatHours(span)} shift - the limit is ${rules.maxShiftHours} hrs`,
+      });
+    }
+
+    // A long enough break has to start before the cutoff
+    if (block.breaks && rules.mealBreakAfterHours !== null && block.paidHours > rules.mealBreakAfterHours) {
+      const cutoff = block.start.getTime() + rules.mealBreakAfterHours * HOUR_MS;
+      const tookMeal = block.breaks.some(b => {
+        const start = new Date(b.start).getTime();
+        const end = new Date(b.end || block.end).getTime();
+        return start <= cutoff && end - start >= rules.mealBreakMinutes * 60 * 1000;
+      });
+      if (!tookMeal) {
+        add({
+          id: `missed_meal_break:${block.employeeId}:${block.id}`,
+          type: 'missed_meal_break',
+          severity: 'violation',
+          employeeId: block.employeeId,
+          date,
+          shiftIds: [block.id],
+          measured: block.paidHours,
+          limit: rules.mealBreakAfterHours,
+          detail: `No ${rules.mealBreakMinutes}-minute meal break in the first ${rules.mealBreakAfterHours} hrs of a ${formatHours(block.paidHours)} shift`,
+        });
+      }
+    }
+
+    // Rest is between workdays - clocking out and back in the same day is a split shift
+    const previous = blocks[index - 1];
+    if (previous && rules.minRestHours !== null && toLocalDateKey(previous.start) !== date) {
+      const rest = Math.max(0, (block.start.getTime() - previous.end.getTime()) / HOUR_MS);
+      if (rest < rules.minRestHours) {
+        add({
+          id: `min_rest:${block.employeeId}:${block.id}`,
+          type: 'min_rest',
+          severity: 'violation',
+          employeeId: block.employeeId,
+          date,
+          shiftIds: [previous.id, block.id],
+          measured: rest,
+          limit: rules.minRestHours,
+          detail: `${formatHours(rest)} between shifts - ${rules.minRestHours} hrs required`,
+        });
+      }
+    }
+  });
+
+  // Hours by day, then by workweek - daily overtime hours are not counted again toward the week
+  const days = new Map<string, WorkBlock[]>();
+  blocks.forEach(block => {
+    const day = toLocalDateKey(block.start);
+    days.set(day, [...(days.get(day) || []), block]);
+  });
+
+  const weeks = new Map<string, { hours: number; blocks: WorkBlock[] }>();
+  days.forEach((dayBlocks, day) => {
+    const hours = dayBlocks.reduce((sum, block) => sum + block.paidHours, 0);
+    const employeeId = dayBlocks[0].employeeId;
+    if (rules.dailyOvertimeHours !== null && hours > rules.dailyOvertimeHours) {
+      add({
+        id: `daily_overtime:${employeeId}:${day}`,
+        type: 'daily_overtime',
+        severity: 'warning',
+        employeeId,
+        date: day,
+        shiftIds: dayBlocks.map(block => block.id),
+        measured: hours,
+        limit: rules.dailyOvertimeHours,
+        detail: `${formatHours(hours)} in one day - ${formatHours(hours - rules.dailyOvertimeHours)} overtime`,
+      });
+    }
+
+    const week = getWeekStart(day);
+    const current = weeks.get(week) || { hours: 0, blocks: [] };
+    weeks.set(week, {
+      hours: current.hours + (rules.dailyOvertimeHours !== null ? Math.min(hours, rules.dailyOvertimeHours) : hours),
+      blocks: [...current.blocks, ...dayBlocks],
+    });
+  });
+
+  if (rules.weeklyOvertimeHours !== null) {
+    weeks.forEach(({ hours, blocks: weekBlocks }, week) => {
+      if (hours > rules.weeklyOvertimeHours!) {
+        add({
+          id: `weekly_overtime:${weekBlocks[0].employeeId}:${week}`,
+          type: 'weekly_overtime',
+          severity: 'warning',
+          employeeId: weekBlocks[0].employeeId,
+          date: week,
+          shiftIds: weekBlocks.map(block => block.id),
+          measured: hours,
+          limit: rules.weeklyOvertimeHours!,
+          detail: `${formatHours(hours)} in the week of ${week} - ${formatHours(hours - rules.weeklyOvertimeHours!)} overtime`,
+        });
+      }
+    });
+  }
+
+  return violations;
+};
+
+const evaluateBlocks = (blocks: WorkBlock[], rules: LaborRules): LaborViolation[] => {
+  const byEmployee = new Map<string, WorkBlock[]>();
+  blocks.forEach(block => byEmployee.set(block.employeeId, [...(byEmployee.get(block.employeeId) || []), block]));
+
+  return Array.from(byEmployee.values())
+    .flatMap(employeeBlocks =>
+      evaluateEmployee([...employeeBlocks].sort((a, b) => a.start.getTime() - b.start.getTime()), rules)
+    )
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Violations across completed shifts. Pass every shift for the employees involved - rest and weekly
+ * overtime look across neighbouring shifts - and filter the result by date
+ */
+export const evaluateTimeEntries = (entries: TimeEntry[], rules: LaborRules): LaborViolation[] =>
+  evaluateBlocks(entries.filter(e => e.clockOut).map(fromTimeEntry), rules);
+
+/**
+ * Violations a new or changed schedule would cause alongside the employee's other schedules
+ */
+export const checkSchedule = (schedule: Schedule, schedules: Schedule[], rules: LaborRules): LaborViolation[] => {
+  const blocks = schedules
+    .filter(s => s.employeeId === schedule.employeeId && s.id !== schedule.id && s.status !== 'missed')
+    .concat(schedule)
+    .map(fromSchedule);
+  return evaluateBlocks(blocks, rules).filter(v => v.shiftIds.includes(schedule.id));
+};
+
+/**
+ * What clocking in now would run into - too little rest since the last shift, or overtime once the
+ * shift scheduled today is worked
+ */
+export const getClockInWarnings = async (employeeId: string, now: Date = new Date()): Promise<LaborViolation[]> => {
+  const [rules, timeEntries, schedules] = await Promise.all([
+    getLaborRules(),
+    StorageService.getTimeEntries(),
+    StorageService.getSchedules(),
+  ]);
+  const today = toLocalDateKey(now);
+  const worked = timeEntries.filter(e => e.employeeId === employeeId && e.clockOut);
+  const scheduledToday = schedules.find(s => s.employeeId === employeeId && s.date === today && s.status === 'scheduled');
+
+  // The shift about to start runs to the scheduled end - with no schedule it adds no hours yet
+  const end = scheduledToday ? Math.max(fromSchedule(scheduledToday).end.getTime(), now.getTime()) : now.getTime();
+  const upcoming: WorkBlock = {
+    id: scheduledToday?.id || 'clock_in',
+    employeeId,
+    start: now,
+    end: new Date(end),
+    paidHours: (end - now.getTime()) / HOUR_MS,
+  };
+
+  return evaluateBlocks([...worked.map(fromTimeEntry), upcoming], rules).filter(
+    v => v.shiftIds.includes(upcoming.id) && v.type !== 'max_shift_length'
+  );
+};
+
+function transformRulesFromDB(row: any): LaborRules {
+  return {
+    weeklyOvertimeHours: row.weekly_overtime_hours ?? null,
+    dailyOvertimeHours: row.daily_overtime_hours ?? null,
+    mealBreakAfterHours: row.meal_break_after_hours ?? null,
+    mealBreakMinutes: row.meal_break_minutes ?? DEFAULT_LABOR_RULES.mealBreakMinutes,
+    maxShiftHours: row.max_shift_hours ?? null,
+    minRestHours: row.min_rest_hours ?? null,
+    updatedBy: row.updated_by || undefined,
+    updatedAt: row.updated_at || undefined,
+  };
+}
+
+function transformRulesToDB(rules: LaborRules): any {
+  return {
+    id: RULES_ID,
+    weekly_overtime_hours: rules.weeklyOvertimeHours,
+    daily_overtime_hours: rules.dailyOvertimeHours,
+    meal_break_after_hours: rules.mealBreakAfterHours,
+    meal_break_minutes: rules.mealBreakMinutes,
+    max_shift_hours: rules.maxShiftHours,
+    min_rest_hours: rules.minRestHours,
+    updated_by: rules.updatedBy || null,
+    updated_at: rules.updatedAt || null,
+  };
+}
@@ -0,0 +1,40 @@
+// Installed leads from Salesforce, matched back to the survey that created them (Lead.Survey_ID__c).
+// Shared by payroll (install bonuses) and experiment results (install rates per variant)
+import { getSupabaseClient } from '@/template';
+
+const supabase = getSupabaseClient();
+
+export interface InstalledLead {
+  leadId: string;
+  surveyId: string;
+  installedAt: string; // When the lead reached an install status
+}
+
+/**
+ * Leads that reached an install status (per lead_status_mappings) on or after a local day (YYYY-MM-DD)
+ */
+export const getInstalledLeads = async (since: string): Promise<InstalledLead[]> => {
+  const { data: mappings, error: mappingsError } = await supabase
+    .from('lead_status_mappings')
+    .select('salesforce_status')
+    .eq('object_type', 'lead')
+    .eq('category', 'install');
+  if (mappingsError) {
+    console.error('Error loading install statuses:', mappingsError);
+    throw mappingsError;
+  }
+  if (!mappings || mappings.length === 0) return [];
+
+  const { data, error } = await supabase.functions.invoke('salesforce-sync', {
+    body: {
+      action: 'lead_installs',
+      data: { statuses: mappings.map(m => m.salesforce_status), since },
+    },
+  });
+  if (error || !data?.success) {
+    console.error('Error loading installed leads:', error || data?.error);
+    throw error || new Error(data?.error || 'Failed to load installed leads');
+  }
+
+  return data.installs || [];
+};
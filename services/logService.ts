@@ -0,0 +1,224 @@
+// Structured on-device log for support diagnostics.
+// - Entries have a level, a scope and optional data; everything is redacted before it is stored
+//   (customer names, phones, emails, addresses, SSN/bank numbers, signatures)
+// - Kept in two rotating segments, encrypted like every other local store (at most 2 x MAX_SEGMENT_ENTRIES,
+//   7 days) - redaction is pattern-based and best-effort, so a segment may still hold personal data
+// - captureConsole() mirrors the existing console output into the log, so the emoji logging across
+//   the services ends up in diagnostic bundles without touching every call site
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as EncryptionService from './encryptionService';
+
+const KEYS = {
+  CURRENT: '@rainsoft/logs/current',
+  PREVIOUS: '@rainsoft/logs/previous',
+};
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEntry {
+  timestamp: string;
+  level: LogLevel;
+  scope: string;
+  message: string;
+  data?: any;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+const MIN_LEVEL: LogLevel = __DEV__ ? 'debug' : 'info';
+
+const MAX_SEGMENT_ENTRIES = 500;
+const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const FLUSH_DELAY_MS = 5000;
+const MAX_STRING_LENGTH = 500;
+const MAX_DEPTH = 5;
+
+// Object keys whose values are personal data. Keys are compared lower-cased without underscores or a
+// Salesforce `__c` suffix, so firstName, first_name and First_Name__c all match. Zip code and state are
+// kept (as in privacyRequestService.redactSurvey) - they are what zip lookups and routing run on
+const PII_KEYS = new Set([
+  'firstname', 'lastname', 'fullname', 'name', 'spousename', 'customername', 'recordname', 'sendername',
+  'phone', 'phonee164', 'matchedphone', 'mobilephone', 'homephone', 'mobile',
+  'email', 'recordemail',
+  'address', 'street', 'streetaddress', 'city',
+  'ssn', 'dateofbirth', 'dob',
+  'routingnumber', 'accountnumber',
+  'signature', 'notes', 'photouri', 'gpslatitude', 'gpslongitude', 'latitude', 'longitude',
+]);
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/__c$/, '').replace(/_/g, '');
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+const SSN_PATTERN = /\b\d{3}-\d{2}-\d{4}\b/g;
+const PHONE_PATTERN = /(?:\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/g;
+const LONG_NUMBER_PATTERN = /\b\d{9,17}\b/g; // Bank account / routing numbers
+
+// Record ids are kept intact - their digit runs would otherwise read as phone/account numbers
+const UUID_SPLIT = /([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})/i;
+
+const redactString = (value: string): string => {
+  const redacted = value
+    .split(UUID_SPLIT)
+    .map((part, index) => index % 2 === 1 ? part : part
+      .replace(EMAIL_PATTERN, '[email]')
+      .replace(SSN_PATTERN, '[ssn]')
+      .replace(PHONE_PATTERN, '[phone]')
+      .replace(LONG_NUMBER_PATTERN, '[number]'))
+    .join('');
+  return redacted.length > MAX_STRING_LENGTH ? `${redacted.slice(0, MAX_STRING_LENGTH)}…` : redacted;
+};
+
+/**
+ * Copy of a value with personal data removed - used for log entries and diagnostic bundles
+ */
+export const redact = (value: any, depth = 0): any => {
+  if (value === null || value === undefined) return value;
+  if (typeof value === 'string') return redactString(value);
+  if (typeof value !== 'object') return value;
+  if (value instanceof Error) return { name: value.name, message: redactString(value.message) };
+  if (depth >= MAX_DEPTH) return '[truncated]';
+
+  if (Array.isArray(value)) {
+    return value.slice(0, 50).map(item => redact(item, depth + 1));
+  }
+
+  const result: Record<string, any> = {};
+  Object.entries(value).forEach(([key, field]) => {
+    result[key] = PII_KEYS.has(normalizeKey(key)) && field !== null && field !== undefined && field !== ''
+      ? '[redacted]'
+      : redact(field, depth + 1);
+  });
+  return result;
+};
+
+// ============ BUFFER + ROTATION ============
+
+let buffer: LogEntry[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let flushing: Promise<void> | null = null;
+
+// Console methods as they were before captureConsole - the logger never logs through itself
+const rawConsole = {
+  log: console.log.bind(console),
+  warn: console.warn.bind(console),
+  error: console.error.bind(console),
+};
+
+// Unlike the record stores, an unreadable segment is dropped - losing old log lines beats logging nothing
+const readSegment = async (key: string): Promise<LogEntry[]> => {
+  try {
+    const stored = await EncryptionService.getEncryptedItem(key);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+const flush = async (): Promise<void> => {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  while (flushing) await flushing;
+  if (buffer.length === 0) return;
+
+  const entries = buffer;
+  buffer = [];
+  flushing = (async () => {
+    try {
+      let current = [...await readSegment(KEYS.CURRENT), ...entries];
+      if (current.length >= MAX_SEGMENT_ENTRIES) {
+        const cutoff = Date.now() - MAX_AGE_MS;
+        await EncryptionService.setEncryptedItem(
+          KEYS.PREVIOUS,
+          JSON.stringify(current.filter(e => new Date(e.timestamp).getTime() >= cutoff).slice(-MAX_SEGMENT_ENTRIES))
+        );
+        current = [];
+      }
+      await EncryptionService.setEncryptedItem(KEYS.CURRENT, JSON.stringify(current));
+    } catch (error) {
+      rawConsole.error('Error writing log:', error);
+    }
+  })();
+
+  await flushing;
+  flushing = null;
+};
+
+const write = (level: LogLevel, scope: string, message: string, data?: any) => {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[MIN_LEVEL]) return;
+
+  buffer.push({
+    timestamp: new Date().toISOString(),
+    level,
+    scope,
+    message: redactString(message),
+    data: data === undefined ? undefined : redact(data),
+  });
+
+  // Errors are written straight away - the app may be about to crash
+  if (level === 'error') {
+    flush();
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(flush, FLUSH_DELAY_MS);
+  }
+};
+
+// ============ PUBLIC API ============
+
+export const debug = (scope: string, message: string, data?: any) => write('debug', scope, message, data);
+export const info = (scope: string, message: string, data?: any) => write('info', scope, message, data);
+export const warn = (scope: string, message: string, data?: any) => write('warn', scope, message, data);
+export const error = (scope: string, message: string, data?: any) => write('error', scope, message, data);
+
+/**
+ * Stored entries, oldest first (optionally only the newest `limit`)
+ */
+export const getLogEntries = async (limit?: number): Promise<LogEntry[]> => {
+  await flush();
+  const entries = [...await readSegment(KEYS.PREVIOUS), ...await readSegment(KEYS.CURRENT)];
+  return limit ? entries.slice(-limit) : entries;
+};
+
+export const clearLogs = async (): Promise<void> => {
+  buffer = [];
+  await AsyncStorage.multiRemove([KEYS.CURRENT, KEYS.PREVIOUS]);
+};
+
+/**
+ * Encrypt log segments written as plaintext by older versions (runs at startup)
+ */
+export const encryptStoredLogs = async (): Promise<void> => {
+  await EncryptionService.migratePlaintextItems([KEYS.CURRENT, KEYS.PREVIOUS]);
+};
+
+const formatConsoleArgs = (args: any[]): { message: string; data?: any } => {
+  const message = args.filter(arg => typeof arg !== 'object' || arg === null).map(String).join(' ');
+  const objects = args.filter(arg => typeof arg === 'object' && arg !== null);
+  return { message, data: objects.length === 0 ? undefined : objects.length === 1 ? objects[0] : objects };
+};
+
+let consoleCaptured = false;
+
+/**
+ * Mirror console.log/warn/error into the structured log (scope 'console'). Safe to call repeatedly
+ */
+export const captureConsole = (): void => {
+  if (consoleCaptured) return;
+  consoleCaptured = true;
+
+  console.log = (...args: any[]) => {
+    rawConsole.log(...args);
+    const { message, data } = formatConsoleArgs(args);
+    write('info', 'console', message, data);
+  };
+  console.warn = (...args: any[]) => {
+    rawConsole.warn(...args);
+    const { message, data } = formatConsoleArgs(args);
+    write('warn', 'console', message, data);
+  };
+  console.error = (...args: any[]) => {
+    rawConsole.error(...args);
+    const { message, data } = formatConsoleArgs(args);
+    write('error', 'console', message, data);
+  };
+};
@@ -0,0 +1,274 @@
+// Durable outbox - the single queue for everything that has to leave the device.
+// Items carry an idempotency key, optional dependencies (survey before its appointment),
+// retry with exponential backoff + jitter and end up dead-lettered after MAX_ATTEMPTS
+import { OutboxItem, OutboxItemType } from '@/types';
+import * as EncryptionService from './encryptionService';
+
+const KEYS = {
+  OUTBOX: '@rainsoft/outbox/items',
+};
+
+const MAX_ATTEMPTS = 8;
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 30 * 60 * 1000;
+const CLAIM_TIMEOUT_MS = 10 * 60 * 1000; // in_flight items older than this were interrupted (app killed)
+const DELIVERED_RETENTION_MS = 14 * 24 * 60 * 60 * 1000;
+const MAX_PASSES = 50;
+
+export const OUTBOX_TYPE_LABELS: Record<OutboxItemType, string> = {
+  survey: 'Survey upload',
+  time_entry: 'Time entry',
+  time_clock: 'Time clock',
+  salesforce_lead: 'Salesforce lead',
+  zapier_appointment: 'Zapier appointment',
+};
+
+interface OutboxState {
+  items: OutboxItem[];
+  delivered: Record<string, string>; // idempotency key -> delivered at
+}
+
+export type OutboxDeliveryStatus = 'success' | 'duplicate' | 'skipped';
+
+export interface OutboxDeliveryResult {
+  status: OutboxDeliveryStatus;
+  salesforceId?: string;
+}
+
+// Throw to retry later - the error message is kept on the item
+export type OutboxHandler = (item: OutboxItem) => Promise<OutboxDeliveryResult | void>;
+
+export interface OutboxProcessResult {
+  delivered: number;
+  failed: number;
+  deadLettered: number;
+  duplicates: number;
+  byType: Partial<Record<OutboxItemType, number>>; // delivered per type
+  results: { item: OutboxItem; status: OutboxDeliveryStatus | 'failed'; error?: string; salesforceId?: string }[];
+}
+
+// ============ PERSISTENCE ============
+// Stored encrypted (payloads hold full surveys). The decrypted JSON is kept in memory so a
+// delivery pass does not decrypt the whole outbox for every item
+
+let cachedJson: string | null = null;
+
+// An outbox that can't be decrypted or parsed is never treated as empty - the next write would
+// replace every queued survey and punch with a blank outbox. Reads and writes fail until it can be read
+const readState = async (): Promise<OutboxState> => {
+  try {
+    if (cachedJson === null) {
+      cachedJson = await EncryptionService.getEncryptedItem(KEYS.OUTBOX);
+    }
+    return cachedJson ? JSON.parse(cachedJson) : { items: [], delivered: {} };
+  } catch (error) {
+    cachedJson = null;
+    console.error('❌ Outbox could not be read - leaving stored items untouched:', error);
+    throw new Error(`Outbox could not be read: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+// Read-modify-write sections run one at a time so concurrent passes never drop each other's changes
+let outboxLock: Promise<unknown> = Promise.resolve();
+
+const withOutbox = <T>(mutate: (state: OutboxState) => T): Promise<T> => {
+  const run = outboxLock.then(async () => {
+    const state = await readState();
+    const result = mutate(state);
+    const json = JSON.stringify(state);
+    await EncryptionService.setEncryptedItem(KEYS.OUTBOX, json);
+    cachedJson = json;
+    return result;
+  });
+  outboxLock = run.catch(() => undefined);
+  return run;
+};
+
+/**
+ * Forget the decrypted copy (device storage was wiped underneath the outbox)
+ */
+export const resetOutboxCache = (): void => {
+  cachedJson = null;
+};
+
+const getBackoffMs = (attempts: number): number => {
+  const ceiling = Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+};
+
+// ============ PUBLIC API ============
+
+/**
+ * Add an item to the outbox. Returns null when the key was already delivered (unless forced).
+ * Forcing also revives a dead-lettered item with the same key
+ */
+export const enqueueOutboxItem = (
+  input: Pick<OutboxItem, 'type' | 'idempotencyKey' | 'entityId' | 'payload'> & Partial<Pick<OutboxItem, 'dependsOn' | 'label'>>,
+  options: { force?: boolean } = {}
+): Promise<OutboxItem | null> =>
+  withOutbox(state => {
+    const now = new Date().toISOString();
+    const existing = state.items.find(i => i.idempotencyKey === input.idempotencyKey);
+    if (existing) {
+      if (options.force && existing.status === 'dead') {
+        Object.assign(existing, { status: 'pending', attempts: 0, nextAttemptAt: now, deadAt: undefined, payload: input.payload });
+      }
+      return existing;
+    }
+    if (state.delivered[input.idempotencyKey] && !options.force) {
+      return null;
+    }
+
+    const item: OutboxItem = {
+      ...input,
+      id: `outbox_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      status: 'pending',
+      attempts: 0,
+      createdAt: now,
+      nextAttemptAt: now,
+    };
+    state.items.push(item);
+    console.log(`📋 Outbox: queued ${input.idempotencyKey}`);
+    return item;
+  });
+
+export const getOutboxItems = async (type?: OutboxItemType): Promise<OutboxItem[]> => {
+  const { items } = await readState();
+  return type ? items.filter(i => i.type === type) : items;
+};
+
+const isBlocked = (item: OutboxItem, items: OutboxItem[]) =>
+  !!item.dependsOn?.some(key => items.some(i => i.idempotencyKey === key));
+
+export const getOutboxSummary = async (): Promise<{ pending: number; inFlight: number; blocked: number; dead: number }> => {
+  const { items } = await readState();
+  return {
+    pending: items.filter(i => i.status === 'pending').length,
+    inFlight: items.filter(i => i.status === 'in_flight').length,
+    blocked: items.filter(i => i.status === 'pending' && isBlocked(i, items)).length,
+    dead: items.filter(i => i.status === 'dead').length,
+  };
+};
+
+/**
+ * Move dead-lettered items back to pending (all of them when no id is given)
+ */
+export const retryDeadOutboxItems = (id?: string | string[]): Promise<number> =>
+  withOutbox(state => {
+    const now = new Date().toISOString();
+    const ids = id === undefined ? null : Array.isArray(id) ? id : [id];
+    const dead = state.items.filter(i => i.status === 'dead' && (!ids || ids.includes(i.id)));
+    dead.forEach(item => Object.assign(item, { status: 'pending', attempts: 0, nextAttemptAt: now, deadAt: undefined }));
+    return dead.length;
+  });
+
+/**
+ * Drop dead-lettered items (all of them when no id is given). Items depending on them are unblocked
+ */
+export const discardDeadOutboxItems = (id?: string): Promise<number> =>
+  withOutbox(state => {
+    const before = state.items.length;
+    state.items = state.items.filter(i => !(i.status === 'dead' && (!id || i.id === id)));
+    return before - state.items.length;
+  });
+
+/**
+ * Rewrite queued payloads in place (used to redact personal data from pending uploads)
+ */
+export const updateOutboxPayloads = (
+  type: OutboxItemType,
+  update: (payload: any) => any
+): Promise<void> =>
+  withOutbox(state => {
+    state.items.filter(i => i.type === type).forEach(item => {
+      item.payload = update(item.payload);
+    });
+  });
+
+// ============ DELIVERY ============
+
+/**
+ * Deliver ready items with the given handlers. Items without a handler are left for another caller.
+ * Passes repeat until nothing is ready so dependents go out as soon as their dependency lands.
+ * Items are claimed (in_flight) before delivery, so overlapping calls never send the same item twice
+ */
+export const processOutbox = async (
+  handlers: Partial<Record<OutboxItemType, OutboxHandler>>,
+  options: { keys?: string[]; deadLetterKeys?: string[] } = {}
+): Promise<OutboxProcessResult> => {
+  const result: OutboxProcessResult = { delivered: 0, failed: 0, deadLettered: 0, duplicates: 0, byType: {}, results: [] };
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    const claimed = await withOutbox(state => {
+      const now = Date.now();
+      const ready = state.items.filter(item => {
+        const stale = item.status === 'in_flight' && now - new Date(item.claimedAt || 0).getTime() > CLAIM_TIMEOUT_MS;
+        return (item.status === 'pending' || stale) &&
+          !!handlers[item.type] &&
+          (!options.keys || options.keys.includes(item.idempotencyKey)) &&
+          new Date(item.nextAttemptAt).getTime() <= now &&
+          !isBlocked(item, state.items);
+      });
+      ready.forEach(item => {
+        item.status = 'in_flight';
+        item.claimedAt = new Date(now).toISOString();
+      });
+      return ready.map(item => ({ ...item }));
+    });
+    if (claimed.length === 0) break;
+
+    for (const item of claimed) {
+      try {
+        const outcome = (await handlers[item.type]!(item)) || { status: 'success' as const };
+        await withOutbox(state => {
+          state.items = state.items.filter(i => i.id !== item.id);
+          state.delivered[item.idempotencyKey] = new Date().toISOString();
+        });
+        result.delivered++;
+        result.byType[item.type] = (result.byType[item.type] || 0) + 1;
+        if (outcome.status === 'duplicate') result.duplicates++;
+        result.results.push({ item, status: outcome.status, salesforceId: outcome.salesforceId });
+      } catch (error: any) {
+        const message = error?.message || String(error);
+        const dead = await withOutbox(state => {
+          const stored = state.items.find(i => i.id === item.id);
+          if (!stored) return false;
+          stored.attempts += 1;
+          stored.lastError = message;
+          stored.claimedAt = undefined;
+          // Items an admin replayed go straight back to the dead letters so they see the new error -
+          // pending dependencies pulled into the replay keep their normal retries
+          if (stored.attempts >= MAX_ATTEMPTS || options.deadLetterKeys?.includes(stored.idempotencyKey)) {
+            stored.status = 'dead';
+            stored.deadAt = new Date().toISOString();
+            return true;
+          }
+          stored.status = 'pending';
+          stored.nextAttemptAt = new Date(Date.now() + getBackoffMs(stored.attempts)).toISOString();
+          return false;
+        });
+        result.failed++;
+        if (dead) {
+          result.deadLettered++;
+          console.error(`☠️ Outbox: ${item.idempotencyKey} dead-lettered after ${item.attempts + 1} attempt(s):`, message);
+        } else {
+          console.warn(`⚠️ Outbox: ${item.idempotencyKey} failed (attempt ${item.attempts + 1}), will retry:`, message);
+        }
+        result.results.push({ item, status: 'failed', error: message });
+      }
+    }
+  }
+
+  // Delivered keys only need to outlive any late duplicate enqueue
+  await withOutbox(state => {
+    const cutoff = Date.now() - DELIVERED_RETENTION_MS;
+    for (const [key, at] of Object.entries(state.delivered)) {
+      if (new Date(at).getTime() < cutoff) delete state.delivered[key];
+    }
+  });
+
+  if (result.delivered > 0 || result.failed > 0) {
+    console.log(`📤 Outbox: ${result.delivered} delivered, ${result.failed} failed, ${result.deadLettered} dead-lettered`);
+  }
+  return result;
+};
@@ -0,0 +1,293 @@
+// Pay-period close - managers review exceptions (missing clock-outs, forced clock-outs, unverified
+// locations), approve and lock the period, then export it to ADP as one batch.
+// A locked period's statements and shifts can no longer change (payPeriodLock.assertPeriodOpen -
+// checked by statement edits, time clock sync and time-card corrections);
+// the ADP bridge only exports locked periods and writes the reconciliation back to pay_period_closes
+import { getSupabaseClient } from '@/template';
+import { PayPeriod, PayPeriodClose, PayrollException, PayrollExceptionType, PayrollReconciliation, TimeEntry } from '@/types';
+import { formatFullDateTime, toLocalDateKey } from '@/utils/timeFormat';
+import * as PayrollService from './payrollService';
+import * as StorageService from './storageService';
+import * as SyncService from './syncService';
+
+const supabase = getSupabaseClient();
+
+export const EXCEPTION_LABELS: Record<PayrollExceptionType, string> = {
+  missing_clock_out: 'Missing clock-out',
+  forced_clock_out: 'Forced clock-out',
+  unverified_location: 'Unverified location',
+};
+
+// Local calendar day - same rule payrollService uses for statements
+const isInPeriod = (timestamp: string, period: PayPeriod) => {
+  const day = toLocalDateKey(timestamp);
+  return day >= period.start && day <= period.end;
+};
+
+// ============ CLOSE RECORD ============
+
+/**
+ * Close record for a period - an unsaved open record when nothing has been reviewed yet
+ */
+export const getPeriodClose = async (period: PayPeriod): Promise<PayPeriodClose> => {
+  const { data, error } = await supabase
+    .from('pay_period_closes')
+    .select('*')
+    .eq('id', period.start)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading pay period close:', error);
+    throw error;
+  }
+  if (data) return transformCloseFromDB(data);
+
+  return {
+    id: period.start,
+    periodStart: period.start,
+    periodEnd: period.end,
+    frequency: period.frequency || 'biweekly',
+    status: 'open',
+    reviewedExceptions: [],
+    timeEntryIds: [],
+    autoApprovedStatementIds: [],
+  };
+};
+
+const saveClose = async (close: PayPeriodClose): Promise<PayPeriodClose> => {
+  const { error } = await supabase
+    .from('pay_period_closes')
+    .upsert([transformCloseToDB(close)], { onConflict: 'id' });
+
+  if (error) {
+    console.error('Error saving pay period close:', error);
+    throw error;
+  }
+  return close;
+};
+
+// ============ EXCEPTIONS ============
+
+// Shifts an admin ended from the activity monitor (activityService.forceClockOut logs them)
+const getForcedClockOuts = async (timeEntryIds: string[]): Promise<Map<string, string>> => {
+  const forced = new Map<string, string>();
+  if (timeEntryIds.length === 0) return forced;
+
+  const { data, error } = await supabase
+    .from('inactivity_log')
+    .select('time_entry_id, notes, detected_at')
+    .eq('action_taken', 'force_clocked_out')
+    .in('time_entry_id', timeEntryIds);
+
+  if (error) {
+    console.error('Error loading forced clock-outs:', error);
+    throw error;
+  }
+  (data || []).forEach(row => forced.set(row.time_entry_id, row.notes || 'Forced clock-out by admin'));
+  return forced;
+};
+
+const describeLocation = (entry: TimeEntry) =>
+  entry.distanceFromStore !== undefined && entry.storeName
+    ? `${Math.round(entry.distanceFromStore)}m from ${entry.storeName}`
+    : entry.gpsCoordinates
+      ? 'GPS did not match a known store'
+      : 'No GPS location recorded';
+
+/**
+ * Every exception in the period, with the review recorded on the close (if any)
+ */
+export const getPayrollExceptions = async (period: PayPeriod, close?: PayPeriodClose): Promise<PayrollException[]> => {
+  const [timeEntries, periodClose] = await Promise.all([
+    StorageService.getTimeEntries(),
+    close ? Promise.resolve(close) : getPeriodClose(period),
+  ]);
+  const entries = timeEntries.filter(e => isInPeriod(e.clockIn, period));
+  const forced = await getForcedClockOuts(entries.filter(e => !e.id.startsWith('temp_')).map(e => e.id));
+
+  const exceptions: PayrollException[] = [];
+  const add = (type: PayrollExceptionType, entry: TimeEntry, detail: string) => {
+    const id = `${type}:${entry.id}`;
+    const reviewed = periodClose.reviewedExceptions.find(e => e.id === id);
+    exceptions.push(reviewed || { id, type, employeeId: entry.employeeId, timeEntryId: entry.id, clockIn: entry.clockIn, detail });
+  };
+
+  entries.forEach(entry => {
+    if (!entry.clockOut) {
+      add('missing_clock_out', entry, `Clocked in ${formatFullDateTime(entry.clockIn)}, never clocked out`);
+    }
+    if (forced.has(entry.id)) {
+      add('forced_clock_out', entry, forced.get(entry.id)!);
+    }
+    if (!entry.locationVerified) {
+      add('unverified_location', entry, describeLocation(entry));
+    }
+  });
+
+  return exceptions.sort((a, b) => a.clockIn.localeCompare(b.clockIn));
+};
+
+/**
+ * Mark an exception reviewed. Missing clock-outs stay unpaid until the time card is corrected
+ */
+export const reviewException = async (
+  period: PayPeriod,
+  exception: PayrollException,
+  reviewedBy: string,
+  note?: string
+): Promise<PayPeriodClose> => {
+  const close = await getPeriodClose(period);
+  if (close.status !== 'open') {
+    throw new Error('Unlock the period before reviewing exceptions');
+  }
+
+  const reviewed: PayrollException = {
+    ...exception,
+    reviewedBy,
+    reviewedAt: new Date().toISOString(),
+    note: note?.trim() || undefined,
+  };
+  return saveClose({
+    ...close,
+    reviewedExceptions: [...close.reviewedExceptions.filter(e => e.id !== exception.id), reviewed],
+  });
+};
+
+// ============ LOCK ============
+
+/**
+ * Approve every draft statement and lock the period. Requires the period to have ended and
+ * every exception and time-card correction to be reviewed
+ */
+export const lockPayPeriod = async (period: PayPeriod, lockedBy: string): Promise<PayPeriodClose> => {
+  if (period.end >= toLocalDateKey(new Date())) {
+    throw new Error('The pay period has not ended yet');
+  }
+
+  const close = await getPeriodClose(period);
+  if (close.status !== 'open') {
+    throw new Error('The pay period is already locked');
+  }
+
+  const exceptions = await getPayrollExceptions(period, close);
+  const unreviewed = exceptions.filter(e => !e.reviewedAt);
+  if (unreviewed.length > 0) {
+    throw new Error(`${unreviewed.length} exception(s) still need review`);
+  }
+
+  // Time-card corrections waiting on a manager would change the period's hours
+  const timeEntries = await StorageService.getTimeEntries();
+  const periodEntryIds = timeEntries.filter(e => isInPeriod(e.clockIn, period)).map(e => e.id);
+  if (periodEntryIds.length > 0) {
+    const { data: pendingCorrections, error } = await supabase
+      .from('time_correction_requests')
+      .select('id')
+      .eq('status', 'pending')
+      .in('time_entry_id', periodEntryIds);
+
+    if (error) {
+      console.error('Error checking pending time corrections:', error);
+      throw error;
+    }
+    if (pendingCorrections && pendingCorrections.length > 0) {
+      throw new Error(`${pendingCorrections.length} time-card correction(s) still need review`);
+    }
+  }
+
+  const statements = await PayrollService.getPayPeriodStatements(period);
+  const drafts = statements.filter(s => s.status === 'draft');
+  for (const statement of drafts) {
+    await PayrollService.approveStatement(statement, lockedBy, true);
+  }
+
+  const locked = await saveClose({
+    ...close,
+    periodEnd: period.end,
+    frequency: period.frequency || close.frequency,
+    status: 'locked',
+    timeEntryIds: timeEntries.filter(e => e.clockOut && isInPeriod(e.clockIn, period)).map(e => e.id),
+    autoApprovedStatementIds: drafts.map(s => s.id),
+    lockedBy,
+    lockedAt: new Date().toISOString(),
+  });
+
+  console.log(`🔒 Locked pay period ${period.start} - ${period.end} (${statements.length} statements)`);
+  return locked;
+};
+
+/**
+ * Back to open for corrections. Statements the lock approved go back to draft, so corrections reach them
+ * and the next lock approves fresh figures. Not possible once ADP has accepted any of the period
+ */
+export const unlockPayPeriod = async (period: PayPeriod): Promise<PayPeriodClose> => {
+  let close = await getPeriodClose(period);
+  if (close.status === 'exported' || close.reconciliation?.lines.some(line => line.status === 'accepted')) {
+    throw new Error('This period is already in ADP - correct it with an adjustment in the current period');
+  }
+  // An open close that still lists statements is a retry of an unlock that failed part way
+  if (close.status !== 'locked' && close.autoApprovedStatementIds.length === 0) return close;
+
+  if (close.status === 'locked') {
+    close = await saveClose({ ...close, status: 'open', lockedBy: undefined, lockedAt: undefined });
+    console.log(`🔓 Unlocked pay period ${period.start} - ${period.end}`);
+  }
+
+  const autoApproved = new Set(close.autoApprovedStatementIds);
+  const statements = await PayrollService.getPayPeriodStatements(period);
+  for (const statement of statements.filter(s => s.status === 'approved' && autoApproved.has(s.id))) {
+    await PayrollService.reopenStatement(statement);
+  }
+
+  return saveClose({ ...close, autoApprovedStatementIds: [] });
+};
+
+// ============ EXPORT ============
+
+/**
+ * Send the locked period to ADP as one batch. Returns the reconciliation the bridge recorded
+ */
+export const exportPayPeriod = async (period: PayPeriod, exportedBy: string): Promise<PayrollReconciliation> => {
+  const close = await getPeriodClose(period);
+  if (close.status === 'open') {
+    throw new Error('Approve and lock the period before exporting');
+  }
+
+  const reconciliation = await SyncService.exportPayPeriodToADP(period.start, exportedBy);
+  const problems = reconciliation.lines.filter(line => line.status !== 'accepted').length;
+  console.log(`💵 ADP export ${period.start}: $${reconciliation.exportedTotal} of $${reconciliation.expectedTotal}${problems > 0 ? `, ${problems} not accepted` : ''}`);
+  return reconciliation;
+};
+
+function transformCloseFromDB(row: any): PayPeriodClose {
+  return {
+    id: row.id,
+    periodStart: row.period_start,
+    periodEnd: row.period_end,
+    frequency: row.frequency,
+    status: row.status,
+    reviewedExceptions: row.reviewed_exceptions || [],
+    timeEntryIds: row.time_entry_ids || [],
+    autoApprovedStatementIds: row.auto_approved_statement_ids || [],
+    lockedBy: row.locked_by || undefined,
+    lockedAt: row.locked_at || undefined,
+    exportedAt: row.exported_at || undefined,
+    reconciliation: row.reconciliation || undefined,
+  };
+}
+
+function transformCloseToDB(close: PayPeriodClose): any {
+  return {
+    id: close.id,
+    period_start: close.periodStart,
+    period_end: close.periodEnd,
+    frequency: close.frequency,
+    status: close.status,
+    reviewed_exceptions: close.reviewedExceptions,
+    time_entry_ids: close.timeEntryIds,
+    auto_approved_statement_ids: close.autoApprovedStatementIds,
+    locked_by: close.lockedBy || null,
+    locked_at: close.lockedAt || null,
+    exported_at: close.exportedAt || null,
+    reconciliation: close.reconciliation || null,
+  };
+}
@@ -0,0 +1,30 @@
+// Pay period lock check - a leaf module so time clock sync (storageService) and payroll can both use it
+// without importing each other. Periods are locked and unlocked in payPeriodCloseService
+import { getSupabaseClient } from '@/template';
+import { formatPayPeriod } from '@/utils/timeFormat';
+
+const supabase = getSupabaseClient();
+
+/**
+ * Throws when the day falls in a locked or exported pay period - its hours and earnings are final
+ */
+export const assertPeriodOpen = async (day: string): Promise<void> => {
+  const { data, error } = await supabase
+    .from('pay_period_closes')
+    .select('period_start, period_end, status')
+    .lte('period_start', day)
+    .gte('period_end', day)
+    .neq('status', 'open')
+    .limit(1);
+
+  if (error) {
+    console.error('Error checking pay period lock:', error);
+    throw error;
+  }
+  if (data && data.length > 0) {
+    const period = { start: data[0].period_start, end: data[0].period_end };
+    throw new Error(
+      `The ${formatPayPeriod(period)} pay period is ${data[0].status === 'exported' ? 'exported to ADP' : 'locked'}`
+    );
+  }
+};
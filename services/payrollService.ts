@@ -0,0 +1,552 @@
+// Pay-period earnings - turns hours from time_entries, installed Salesforce leads and the
+// employee's compensation plan into one statement per employee per pay period.
+// Statements are drafts (recalculated on every load, admin adjustments carried over) until an admin
+// approves them. Approved statements are frozen in earnings_statements and no longer recalculate.
+// Pay periods follow pay_schedules (weekly or biweekly); closing a period is in payPeriodCloseService
+import { getSupabaseClient } from '@/template';
+import { getMinimumWage } from '@/constants/minimumWage';
+import { CompensationBonusTier, CompensationPlan, EarningsAdjustment, EarningsStatement, Employee, PayFrequency, PayPeriod, PaySchedule, Survey, TimeEntry } from '@/types';
+import { toLocalDateKey } from '@/utils/timeFormat';
+import * as CompensationPlanService from './compensationPlanService';
+import { assertPeriodOpen } from './payPeriodLock';
+import { getInstalledLeads } from './leadInstallService';
+import * as StorageService from './storageService';
+import { getStoreByName, STORE_LOCATIONS } from './storeLocationsService';
+
+const supabase = getSupabaseClient();
+
+// Biweekly from a Monday - used until an admin adds a pay_schedules row
+const DEFAULT_PAY_SCHEDULE: PaySchedule = {
+  id: 'default',
+  frequency: 'biweekly',
+  anchorDate: '2026-01-05',
+  createdAt: '2026-01-05T00:00:00.000Z',
+};
+const PERIOD_DAYS: Record<PayFrequency, number> = { weekly: 7, biweekly: 14 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// One installed lead, credited to the employee and category of the survey it came from
+interface PayrollInstall {
+  surveyId: string;
+  employeeId: string;
+  category: Survey['category'];
+  day: string; // Local date the lead reached an install status
+}
+
+interface PayrollInputs {
+  timeEntries: TimeEntry[];
+  surveys: Survey[];
+  installs: PayrollInstall[]; // From the start of the month the period starts in
+  plans: CompensationPlan[]; // Every version - resolved per employee
+  employees: Employee[];
+}
+
+// ============ PAY PERIODS ============
+
+const parseDateKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const addDays = (date: Date, days: number) => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+const sortSchedules = (schedules: PaySchedule[]) =>
+  [...schedules].sort((a, b) => a.anchorDate.localeCompare(b.anchorDate) || a.createdAt.localeCompare(b.createdAt));
+
+/**
+ * Every pay schedule, oldest first - the default biweekly schedule is always the first
+ */
+export const getPaySchedules = async (): Promise<PaySchedule[]> => {
+  const { data, error } = await supabase
+    .from('pay_schedules')
+    .select('*')
+    .order('anchor_date', { ascending: true });
+
+  if (error) {
+    console.error('Error loading pay schedules:', error);
+    return [DEFAULT_PAY_SCHEDULE];
+  }
+  return sortSchedules([DEFAULT_PAY_SCHEDULE, ...(data || []).map(transformScheduleFromDB)]);
+};
+
+/**
+ * The pay period containing a date (today by default) under the schedule in force that day
+ */
+export const getPayPeriod = (date: Date = new Date(), schedules: PaySchedule[] = [DEFAULT_PAY_SCHEDULE]): PayPeriod => {
+  const day = toLocalDateKey(date);
+  const sorted = sortSchedules(schedules);
+  const schedule = [...sorted].reverse().find(s => s.anchorDate <= day) || sorted[0];
+  const length = PERIOD_DAYS[schedule.frequency];
+  const anchor = parseDateKey(schedule.anchorDate);
+  // Rounded - days around a DST change are not exactly 24h
+  const daysSinceAnchor = Math.round((parseDateKey(day).getTime() - anchor.getTime()) / DAY_MS);
+  const start = addDays(anchor, Math.floor(daysSinceAnchor / length) * length);
+  let end = toLocalDateKey(addDays(start, length - 1));
+
+  // The last period before a schedule change ends the day before the new schedule starts
+  const next = sorted.find(s => s.anchorDate > day);
+  if (next && end >= next.anchorDate) end = toLocalDateKey(addDays(parseDateKey(next.anchorDate), -1));
+
+  return { start: toLocalDateKey(start), end, frequency: schedule.frequency };
+};
+
+/**
+ * The period `count` periods before (negative) or after (positive) the given one
+ */
+export const shiftPayPeriod = (period: PayPeriod, count: number, schedules?: PaySchedule[]): PayPeriod => {
+  let shifted = period;
+  for (let i = 0; i < Math.abs(count); i++) {
+    const day = count < 0 ? addDays(parseDateKey(shifted.start), -1) : addDays(parseDateKey(shifted.end), 1);
+    shifted = getPayPeriod(day, schedules);
+  }
+  return shifted;
+};
+
+/**
+ * Switch to a weekly or biweekly schedule from the start of a future pay period.
+ * Periods that have already started keep their dates
+ */
+export const savePaySchedule = async (
+  frequency: PayFrequency,
+  anchorDate: string,
+  createdBy?: string
+): Promise<PaySchedule> => {
+  const schedules = await getPaySchedules();
+  if (getPayPeriod(parseDateKey(anchorDate), schedules).start !== anchorDate) {
+    throw new Error('A new schedule has to start on the first day of a pay period');
+  }
+  if (anchorDate <= getPayPeriod(new Date(), schedules).start) {
+    throw new Error('A new schedule can only start with a future pay period');
+  }
+
+  const schedule: PaySchedule = {
+    id: `schedule_${Date.now()}`,
+    frequency,
+    anchorDate,
+    createdBy,
+    createdAt: new Date().toISOString(),
+  };
+  const { error } = await supabase.from('pay_schedules').insert([transformScheduleToDB(schedule)]);
+  if (error) {
+    console.error('Error saving pay schedule:', error);
+    throw error;
+  }
+
+  console.log(`📅 Pay schedule: ${frequency} from ${anchorDate}`);
+  return schedule;
+};
+
+// Local calendar day - a shift that starts at 8pm belongs to that day, not the next UTC day
+const isInPeriod = (timestamp: string, period: PayPeriod) => {
+  const day = toLocalDateKey(timestamp);
+  return day >= period.start && day <= period.end;
+};
+
+// ============ CALCULATION ============
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Paid hours of a closed shift - breaks excluded
+ */
+export const getWorkedHours = (entry: TimeEntry): number => {
+  const clockOut = new Date(entry.clockOut!).getTime();
+  const breakMs = (entry.breaks || []).reduce(
+    (sum, b) => sum + (new Date(b.end || entry.clockOut!).getTime() - new Date(b.start).getTime()),
+    0
+  );
+  return Math.max(0, clockOut - new Date(entry.clockIn).getTime() - breakMs) / HOUR_MS;
+};
+
+const getStatementTotal = (statement: Omit<EarningsStatement, 'total'>) =>
+  roundCents(
+    statement.basePay +
+    statement.surveyInstallPay +
+    statement.appointmentInstallPay +
+    statement.adjustments.reduce((sum, adjustment) => sum + adjustment.amount, 0)
+  );
+
+// Market = state of the store the employee worked the most hours at in the period
+const getMarket = (entries: TimeEntry[]): string | undefined => {
+  const hoursByState = new Map<string, number>();
+  entries.filter(e => e.clockOut && e.storeName).forEach(e => {
+    const state = getStoreByName(e.storeName!)?.state;
+    if (state) hoursByState.set(state, (hoursByState.get(state) || 0) + getWorkedHours(e));
+  });
+  return Array.from(hoursByState.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+};
+
+// Bonus rates for the nth install of the month - the highest tier reached, else the plan's base bonus
+const getBonusRates = (plan: CompensationPlan, installNumber: number): CompensationBonusTier | null =>
+  [...plan.bonusTiers].reverse().find(tier => installNumber > tier.afterInstalls) || null;
+
+const calculateStatement = (
+  employeeId: string,
+  period: PayPeriod,
+  inputs: PayrollInputs,
+  adjustments: EarningsAdjustment[]
+): EarningsStatement => {
+  const entries = inputs.timeEntries.filter(e => e.employeeId === employeeId && isInPeriod(e.clockIn, period));
+  const closed = entries.filter(e => e.clockOut);
+  const employee = inputs.employees.find(e => e.id === employeeId);
+  // Plan in force on the first day - a version taking effect mid-period applies from the next period
+  const market = getMarket(closed);
+  const plan = CompensationPlanService.resolvePlan(inputs.plans, employee, period.start, market);
+
+  const qualified = inputs.surveys.filter(s =>
+    s.employeeId === employeeId &&
+    (s.category === 'survey' || s.category === 'appointment') &&
+    isInPeriod(s.timestamp, period)
+  );
+  const hoursWorked = roundCents(closed.reduce((sum, e) => sum + getWorkedHours(e), 0));
+  const surveysPerHour = hoursWorked > 0 ? qualified.length / hoursWorked : 0;
+
+  // Quota is checked over the whole period, or day by day for daily-basis plans
+  let fullRateHours = 0;
+  let belowQuotaHours = 0;
+  if (plan.quotaBasis === 'daily') {
+    const hoursByDay = new Map<string, number>();
+    closed.forEach(e => {
+      const day = toLocalDateKey(e.clockIn);
+      hoursByDay.set(day, (hoursByDay.get(day) || 0) + getWorkedHours(e));
+    });
+    hoursByDay.forEach((hours, day) => {
+      const surveys = qualified.filter(s => toLocalDateKey(s.timestamp) === day).length;
+      if (hours > 0 && surveys / hours >= plan.quota) fullRateHours += hours;
+      else belowQuotaHours += hours;
+    });
+  } else if (surveysPerHour >= plan.quota) {
+    fullRateHours = hoursWorked;
+  } else {
+    belowQuotaHours = hoursWorked;
+  }
+  // Never below the market's minimum wage - the higher rate when it goes up mid-period, and the
+  // highest of our store states when no shift matched a store
+  const minimumWage = Math.max(
+    ...(market ? [market] : STORE_LOCATIONS.map(store => store.state)).map(state => getMinimumWage(state, period.end))
+  );
+  const belowQuotaRate = Math.max(minimumWage, Math.min(plan.baseHourlyRate, plan.belowQuotaHourlyRate));
+
+  // Each installed lead pays its own survey's bonus on the day it was installed.
+  // Tiers count installs from the start of the calendar month, including days before this period
+  let surveyInstalls = 0;
+  let appointmentInstalls = 0;
+  let tieredInstalls = 0;
+  let surveyInstallPay = 0;
+  let appointmentInstallPay = 0;
+  const installsByMonth = new Map<string, number>();
+  inputs.installs
+    .filter(install => install.employeeId === employeeId && install.day <= period.end)
+    .sort((a, b) => a.day.localeCompare(b.day))
+    .forEach(install => {
+      const month = install.day.slice(0, 7);
+      const installNumber = (installsByMonth.get(month) || 0) + 1;
+      installsByMonth.set(month, installNumber);
+      if (install.day < period.start) return;
+
+      const tier = getBonusRates(plan, installNumber);
+      if (tier) tieredInstalls++;
+      if (install.category === 'appointment') {
+        appointmentInstalls++;
+        appointmentInstallPay += (tier || plan).appointmentInstallBonus;
+      } else {
+        surveyInstalls++;
+        surveyInstallPay += (tier || plan).surveyInstallBonus;
+      }
+    });
+
+  const statement: Omit<EarningsStatement, 'total'> = {
+    id: `${employeeId}_${period.start}`,
+    employeeId,
+    periodStart: period.start,
+    periodEnd: period.end,
+    status: 'draft',
+    hoursWorked,
+    openShifts: entries.length - closed.length,
+    qualifiedSurveys: qualified.length,
+    surveysPerHour: roundCents(surveysPerHour),
+    metQuota: belowQuotaHours === 0,
+    fullRateHours: roundCents(fullRateHours),
+    belowQuotaHours: roundCents(belowQuotaHours),
+    basePay: roundCents(fullRateHours * plan.baseHourlyRate + belowQuotaHours * belowQuotaRate),
+    surveyInstalls,
+    appointmentInstalls,
+    tieredInstalls,
+    surveyInstallPay: roundCents(surveyInstallPay),
+    appointmentInstallPay: roundCents(appointmentInstallPay),
+    adjustments,
+    plan,
+    calculatedAt: new Date().toISOString(),
+  };
+  return { ...statement, total: getStatementTotal(statement) };
+};
+
+// Leads installed from the first of the month the period starts in, so monthly bonus tiers see
+// earlier installs. Statuses count as installs per lead_status_mappings
+const getInstalls = async (period: PayPeriod, surveys: Survey[]): Promise<PayrollInstall[]> => {
+  const leads = await getInstalledLeads(`${period.start.slice(0, 7)}-01`);
+
+  const surveysById = new Map(surveys.map(s => [s.id, s]));
+  const installs: PayrollInstall[] = [];
+  for (const lead of leads) {
+    const survey = surveysById.get(lead.surveyId);
+    if (!survey) {
+      console.warn(`⚠️ Installed lead ${lead.leadId} has no matching survey - not credited`);
+      continue;
+    }
+    installs.push({
+      surveyId: survey.id,
+      employeeId: survey.employeeId,
+      category: survey.category,
+      day: toLocalDateKey(lead.installedAt),
+    });
+  }
+  return installs;
+};
+
+// ============ STATEMENTS ============
+
+const getStoredStatements = async (period: PayPeriod, employeeId?: string): Promise<EarningsStatement[]> => {
+  let query = supabase
+    .from('earnings_statements')
+    .select('*')
+    .eq('period_start', period.start);
+  if (employeeId) query = query.eq('employee_id', employeeId);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error loading earnings statements:', error);
+    throw error;
+  }
+  return (data || []).map(transformStatementFromDB);
+};
+
+/**
+ * Statements for everyone who worked, surveyed or had installs in the period (or only one employee).
+ * Approved statements come back as stored; drafts are recalculated from current data
+ */
+export const getPayPeriodStatements = async (period: PayPeriod, employeeId?: string): Promise<EarningsStatement[]> => {
+  const [timeEntries, surveys, plans, employees, stored] = await Promise.all([
+    StorageService.getTimeEntries(),
+    StorageService.getSurveys(),
+    CompensationPlanService.getPlanVersions(),
+    StorageService.getEmployees(),
+    getStoredStatements(period, employeeId),
+  ]);
+  const installs = await getInstalls(period, surveys);
+  const inputs: PayrollInputs = { timeEntries, surveys, installs, plans, employees };
+
+  const employeeIds = new Set<string>([
+    ...timeEntries.filter(e => isInPeriod(e.clockIn, period)).map(e => e.employeeId),
+    ...surveys.filter(s => isInPeriod(s.timestamp, period)).map(s => s.employeeId),
+    ...installs.filter(i => i.day >= period.start && i.day <= period.end).map(i => i.employeeId),
+    ...stored.map(s => s.employeeId),
+  ]);
+
+  return Array.from(employeeIds)
+    .filter(id => !employeeId || id === employeeId)
+    .map(id => {
+      const existing = stored.find(s => s.employeeId === id);
+      if (existing?.status === 'approved') return existing;
+      return calculateStatement(id, period, inputs, existing?.adjustments || []);
+    })
+    .sort((a, b) => b.total - a.total);
+};
+
+/**
+ * One employee's statement for a period (a zero statement when they have no activity)
+ */
+export const getEmployeeStatement = async (employeeId: string, period: PayPeriod): Promise<EarningsStatement> => {
+  const [statement] = await getPayPeriodStatements(period, employeeId);
+  if (statement) return statement;
+
+  const [plans, employees] = await Promise.all([
+    CompensationPlanService.getPlanVersions(),
+    StorageService.getEmployees(),
+  ]);
+  return calculateStatement(
+    employeeId,
+    period,
+    { timeEntries: [], surveys: [], installs: [], plans, employees },
+    []
+  );
+};
+
+/**
+ * Approved statements for one employee, newest period first
+ */
+export const getApprovedStatements = async (employeeId: string, limit = 6): Promise<EarningsStatement[]> => {
+  const { data, error } = await supabase
+    .from('earnings_statements')
+    .select('*')
+    .eq('employee_id', employeeId)
+    .eq('status', 'approved')
+    .order('period_start', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error loading approved statements:', error);
+    return [];
+  }
+  return (data || []).map(transformStatementFromDB);
+};
+
+const saveStatement = async (statement: EarningsStatement): Promise<EarningsStatement> => {
+  const { error } = await supabase
+    .from('earnings_statements')
+    .upsert([transformStatementToDB(statement)], { onConflict: 'id' });
+
+  if (error) {
+    console.error('Error saving earnings statement:', error);
+    throw error;
+  }
+  return statement;
+};
+
+/**
+ * Add a one-off amount (negative for a deduction) to a draft statement
+ */
+export const addAdjustment = async (
+  statement: EarningsStatement,
+  amount: number,
+  reason: string,
+  addedBy: string
+): Promise<EarningsStatement> => {
+  if (statement.status === 'approved') {
+    throw new Error('Reopen the statement before adjusting it');
+  }
+  await assertPeriodOpen(statement.periodStart);
+
+  const adjustment: EarningsAdjustment = {
+    id: `adj_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    amount: roundCents(amount),
+    reason: reason.trim(),
+    addedBy,
+    addedAt: new Date().toISOString(),
+  };
+  const updated = { ...statement, adjustments: [...statement.adjustments, adjustment] };
+  return saveStatement({ ...updated, total: getStatementTotal(updated) });
+};
+
+export const removeAdjustment = async (statement: EarningsStatement, adjustmentId: string): Promise<EarningsStatement> => {
+  if (statement.status === 'approved') {
+    throw new Error('Reopen the statement before adjusting it');
+  }
+  await assertPeriodOpen(statement.periodStart);
+
+  const updated = { ...statement, adjustments: statement.adjustments.filter(a => a.id !== adjustmentId) };
+  return saveStatement({ ...updated, total: getStatementTotal(updated) });
+};
+
+/**
+ * Freeze the statement as shown - later time entry or install changes no longer affect it.
+ * Shifts without a clock-out block approval unless they were reviewed while closing the period
+ */
+export const approveStatement = async (
+  statement: EarningsStatement,
+  approvedBy: string,
+  openShiftsReviewed = false
+): Promise<EarningsStatement> => {
+  if (statement.openShifts > 0 && !openShiftsReviewed) {
+    throw new Error(`${statement.openShifts} shift(s) in this period have no clock-out`);
+  }
+
+  console.log(`💵 Approved ${statement.periodStart} earnings for ${statement.employeeId}: $${statement.total.toFixed(2)}`);
+  return saveStatement({
+    ...statement,
+    status: 'approved',
+    approvedBy,
+    approvedAt: new Date().toISOString(),
+  });
+};
+
+/**
+ * Back to draft - recalculates from current data on the next load
+ */
+export const reopenStatement = async (statement: EarningsStatement): Promise<EarningsStatement> => {
+  await assertPeriodOpen(statement.periodStart);
+  return saveStatement({ ...statement, status: 'draft', approvedBy: undefined, approvedAt: undefined });
+};
+
+function transformStatementFromDB(row: any): EarningsStatement {
+  return {
+    id: row.id,
+    employeeId: row.employee_id,
+    periodStart: row.period_start,
+    periodEnd: row.period_end,
+    status: row.status,
+    hoursWorked: Number(row.hours_worked) || 0,
+    openShifts: row.open_shifts || 0,
+    qualifiedSurveys: row.qualified_surveys || 0,
+    surveysPerHour: Number(row.surveys_per_hour) || 0,
+    metQuota: !!row.met_quota,
+    fullRateHours: Number(row.full_rate_hours) || 0,
+    belowQuotaHours: Number(row.below_quota_hours) || 0,
+    basePay: Number(row.base_pay) || 0,
+    surveyInstalls: row.survey_installs || 0,
+    appointmentInstalls: row.appointment_installs || 0,
+    tieredInstalls: row.tiered_installs || 0,
+    surveyInstallPay: Number(row.survey_install_pay) || 0,
+    appointmentInstallPay: Number(row.appointment_install_pay) || 0,
+    adjustments: row.adjustments || [],
+    total: Number(row.total) || 0,
+    plan: row.plan,
+    calculatedAt: row.calculated_at,
+    approvedBy: row.approved_by || undefined,
+    approvedAt: row.approved_at || undefined,
+  };
+}
+
+function transformStatementToDB(statement: EarningsStatement): any {
+  return {
+    id: statement.id,
+    employee_id: statement.employeeId,
+    period_start: statement.periodStart,
+    period_end: statement.periodEnd,
+    status: statement.status,
+    hours_worked: statement.hoursWorked,
+    open_shifts: statement.openShifts,
+    qualified_surveys: statement.qualifiedSurveys,
+    surveys_per_hour: statement.surveysPerHour,
+    met_quota: statement.metQuota,
+    full_rate_hours: statement.fullRateHours,
+    below_quota_hours: statement.belowQuotaHours,
+    base_pay: statement.basePay,
+    survey_installs: statement.surveyInstalls,
+    appointment_installs: statement.appointmentInstalls,
+    tiered_installs: statement.tieredInstalls,
+    survey_install_pay: statement.surveyInstallPay,
+    appointment_install_pay: statement.appointmentInstallPay,
+    adjustments: statement.adjustments,
+    total: statement.total,
+    plan: statement.plan,
+    calculated_at: statement.calculatedAt,
+    approved_by: statement.approvedBy || null,
+    approved_at: statement.approvedAt || null,
+  };
+}
+
+function transformScheduleFromDB(row: any): PaySchedule {
+  return {
+    id: row.id,
+    frequency: row.frequency,
+    anchorDate: row.anchor_date,
+    createdBy: row.created_by || undefined,
+    createdAt: row.created_at,
+  };
+}
+
+function transformScheduleToDB(schedule: PaySchedule): any {
+  return {
+    id: schedule.id,
+    frequency: schedule.frequency,
+    anchor_date: schedule.anchorDate,
+    created_by: schedule.createdBy || null,
+    created_at: schedule.createdAt,
+  };
+}
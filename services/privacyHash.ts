@@ -0,0 +1,69 @@
+// Keyed hashes for customer phone numbers and emails (privacy blocklist, kiosk duplicate index).
+// HMAC-SHA256 with a key kept server-side (privacy-hash-key edge function, PRIVACY_HASH_SECRET) and cached
+// encrypted on enrolled devices - a plain SHA-256 of a 10-digit phone number is reversed by brute force in seconds
+import * as Crypto from 'expo-crypto';
+import { getSupabaseClient } from '@/template';
+import { getDeviceAuthHeaders } from './deviceIdentity';
+import * as EncryptionService from './encryptionService';
+
+const supabase = getSupabaseClient();
+
+const KEYS = {
+  HASH_KEY: '@rainsoft/privacy/hashKey',
+};
+
+const HMAC_BLOCK_SIZE = 64;
+
+let hashKeyPromise: Promise<Uint8Array> | null = null;
+
+/**
+ * The HMAC key - fetched once from privacy-hash-key, then read from encrypted storage so it works offline
+ */
+export const getHashKey = (): Promise<Uint8Array> => {
+  if (!hashKeyPromise) {
+    hashKeyPromise = (async () => {
+      let key = await EncryptionService.getEncryptedItem(KEYS.HASH_KEY);
+      if (!key) {
+        const { data, error } = await supabase.functions.invoke('privacy-hash-key', {
+          headers: (await getDeviceAuthHeaders()) || {},
+          body: {},
+        });
+        if (error || !data?.success) {
+          throw new Error(data?.error || error?.message || 'Privacy hash key unavailable');
+        }
+        key = data.key as string;
+        await EncryptionService.setEncryptedItem(KEYS.HASH_KEY, key);
+      }
+      return new TextEncoder().encode(key);
+    })().catch(error => {
+      hashKeyPromise = null; // Try again on the next call
+      throw error;
+    });
+  }
+  return hashKeyPromise;
+};
+
+const sha256Bytes = async (data: Uint8Array) =>
+  new Uint8Array(await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, data));
+
+const concatBytes = (a: Uint8Array, b: Uint8Array) => {
+  const out = new Uint8Array(a.length + b.length);
+  out.set(a);
+  out.set(b, a.length);
+  return out;
+};
+
+/**
+ * HMAC-SHA256 (RFC 2104) of a normalized identifier as hex - expo-crypto only offers plain digests.
+ * Matches createIdentifierHasher in supabase/functions/_shared/privacyHash.ts
+ */
+export const hashIdentifier = async (value: string): Promise<string> => {
+  let key = await getHashKey();
+  if (key.length > HMAC_BLOCK_SIZE) key = await sha256Bytes(key);
+  const padded = new Uint8Array(HMAC_BLOCK_SIZE);
+  padded.set(key);
+
+  const inner = await sha256Bytes(concatBytes(padded.map(b => b ^ 0x36), new TextEncoder().encode(value)));
+  const outer = await sha256Bytes(concatBytes(padded.map(b => b ^ 0x5c), inner));
+  return Array.from(outer, b => b.toString(16).padStart(2, '0')).join('');
+};
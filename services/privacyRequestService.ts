@@ -0,0 +1,409 @@
+// Customer privacy requests - do-not-contact and "forget me" (erasure) workflow with an audit trail
+// Identifiers are only ever stored hashed: the blocklist, SMS opt-outs and audit rows never hold the raw phone/email.
+// Hashes are keyed (see privacyHash.ts), so a leaked table can't be reversed by hashing every phone number
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { getSupabaseClient } from '@/template';
+import { Survey, PrivacyRequest, PrivacyRequestType, PrivacySalesforceAction } from '@/types';
+import { getHashKey, hashIdentifier } from './privacyHash';
+import * as StorageService from './storageService';
+import * as SyncService from './syncService';
+import { redactCriticalSurveys } from './failsafeStorage';
+import { getPhoneDigits } from '@/utils/phone';
+import { applyStatusChange, getAppointmentStatus, pushAppointmentToCalendar } from './appointmentCalendarService';
+
+const supabase = getSupabaseClient();
+
+const KEYS = {
+  BLOCKLIST: '@rainsoft/privacy/blocklist',
+};
+
+const BLOCKLIST_MAX_AGE_MS = 60 * 60 * 1000;
+const REDACTED = '[redacted]';
+
+interface BlocklistEntry {
+  phoneHash?: string;
+  emailHash?: string;
+  erase: boolean;
+}
+
+interface BlocklistCache {
+  entries: BlocklistEntry[];
+  refreshedAt: string | null;
+}
+
+export const PRIVACY_REQUEST_LABELS: Record<PrivacyRequestType, string> = {
+  do_not_contact: 'Do Not Contact',
+  erasure: 'Delete My Data',
+};
+
+const normalizeEmail = (email?: string) => (email || '').trim().toLowerCase();
+
+const maskEmail = (email: string) => {
+  const [name, domain] = email.split('@');
+  return domain ? `${name.charAt(0)}***@${domain}` : '***';
+};
+
+// ============ BLOCKLIST ============
+
+const getCachedBlocklist = async (): Promise<BlocklistCache> => {
+  try {
+    const data = await AsyncStorage.getItem(KEYS.BLOCKLIST);
+    return data ? JSON.parse(data) : { entries: [], refreshedAt: null };
+  } catch (error) {
+    console.error('Error reading privacy blocklist:', error);
+    return { entries: [], refreshedAt: null };
+  }
+};
+
+/**
+ * Download the blocklist so kiosks can refuse blocked customers while offline
+ */
+export const refreshBlocklist = async (): Promise<BlocklistCache> => {
+  const { data, error } = await supabase
+    .from('contact_blocklist')
+    .select('phone_hash, email_hash, erase');
+
+  if (error) {
+    console.warn('⚠️ Could not refresh privacy blocklist (using cached copy):', error);
+    return getCachedBlocklist();
+  }
+
+  const cache: BlocklistCache = {
+    entries: (data || []).map((row: any) => ({
+      phoneHash: row.phone_hash || undefined,
+      emailHash: row.email_hash || undefined,
+      erase: row.erase === true,
+    })),
+    refreshedAt: new Date().toISOString(),
+  };
+  await AsyncStorage.setItem(KEYS.BLOCKLIST, JSON.stringify(cache));
+  await getHashKey().catch(error => console.warn('⚠️ Could not load privacy hash key:', error)); // Cached with the blocklist for offline checks
+  return cache;
+};
+
+const getBlocklist = async (): Promise<BlocklistCache> => {
+  const cached = await getCachedBlocklist();
+  const age = cached.refreshedAt ? Date.now() - new Date(cached.refreshedAt).getTime() : Infinity;
+  return age > BLOCKLIST_MAX_AGE_MS ? refreshBlocklist() : cached;
+};
+
+/**
+ * True if the customer asked not to be contacted - checked before the survey continues past contact info
+ */
+export const isPhoneBlocked = async (phone: string): Promise<boolean> => {
+  const digits = getPhoneDigits(phone);
+  if (!digits) return false;
+
+  try {
+    const phoneHash = await hashIdentifier(digits);
+    const { entries } = await getBlocklist();
+    return entries.some(entry => entry.phoneHash === phoneHash);
+  } catch (error) {
+    // Never signed in online on this device - no key yet, and no blocklist to check either
+    console.warn('⚠️ Could not check privacy blocklist:', error);
+    return false;
+  }
+};
+
+// ============ MATCHING + REDACTION ============
+
+const surveyMatches = (survey: Survey, phone: string, email: string) =>
+  (!!phone && getPhoneDigits(survey.answers?.contact_info?.phone) === phone) ||
+  (!!email && normalizeEmail(survey.appointment?.email) === email);
+
+/**
+ * Every survey (cloud + pending on this device) collected from the customer
+ */
+export const findMatchingSurveys = async (params: { phone?: string; email?: string }): Promise<Survey[]> => {
+  const phone = getPhoneDigits(params.phone);
+  const email = normalizeEmail(params.email);
+  if (!phone && !email) return [];
+
+  const surveys = await StorageService.getSurveys();
+  return surveys.filter(survey => surveyMatches(survey, phone, email));
+};
+
+/**
+ * Copy of the survey with personal data removed. Zip code and state are kept for territory reporting
+ */
+export const redactSurvey = (survey: Survey): Survey => {
+  const contact = survey.answers?.contact_info;
+  const now = new Date().toISOString();
+
+  return {
+    ...survey,
+    answers: {
+      ...survey.answers,
+      contact_info: contact ? {
+        firstName: REDACTED,
+        lastName: '',
+        phone: '',
+        zipCode: contact.zipCode || '',
+        city: '',
+        state: contact.state || '',
+      } : contact,
+    },
+    signature: '',
+    appointment: survey.appointment ? {
+      ...survey.appointment,
+      address: '',
+      email: '',
+      spouseName: undefined,
+      notes: undefined,
+    } : undefined,
+    duplicateInfo: survey.duplicateInfo ? {
+      ...survey.duplicateInfo,
+      matchedPhone: '',
+      recordName: undefined,
+      recordEmail: undefined,
+    } : undefined,
+    redactedAt: survey.redactedAt || now,
+  };
+};
+
+/**
+ * Redact a survey everywhere it is stored. Open appointments are cancelled and every
+ * calendar copy is overwritten with the redacted event
+ */
+const eraseSurvey = async (survey: Survey): Promise<void> => {
+  const redacted = redactSurvey(survey);
+
+  if (redacted.appointment) {
+    const status = getAppointmentStatus(redacted.appointment);
+    redacted.appointment = ['cancelled', 'completed'].includes(status)
+      ? { ...redacted.appointment, calendarSequence: (redacted.appointment.calendarSequence || 0) + 1, calendarSynced: false }
+      : applyStatusChange(redacted.appointment, 'cancelled', 'admin', { note: 'Customer data deletion request' });
+  }
+
+  await StorageService.saveRedactedSurvey(redacted);
+  if (redacted.appointment) {
+    // Failure leaves calendarSynced false - pushPendingAppointments retries on the next sync
+    await pushAppointmentToCalendar(redacted);
+  }
+};
+
+// ============ PROCESSING ============
+
+const handleSalesforce = async (
+  type: PrivacyRequestType,
+  phone: string,
+  email: string,
+  surveys: Survey[],
+  errors: string[]
+): Promise<PrivacySalesforceAction[]> => {
+  const { records, error } = await SyncService.findSalesforceContactRecords(phone || undefined, email || undefined);
+  if (error) errors.push(`Salesforce search failed: ${error}`);
+
+  // Records created from these surveys, in case search indexing has not caught up yet
+  const targets = new Map(records.map(r => [r.salesforceId, r.recordType]));
+  for (const survey of surveys) {
+    if (survey.salesforceId && !targets.has(survey.salesforceId)) targets.set(survey.salesforceId, 'Lead');
+    if (survey.duplicateInfo && !targets.has(survey.duplicateInfo.salesforceId)) {
+      targets.set(survey.duplicateInfo.salesforceId, survey.duplicateInfo.recordType);
+    }
+  }
+
+  const actions: PrivacySalesforceAction[] = [];
+  for (const [salesforceId, recordType] of targets) {
+    // Accounts are customers with sales history - they are flagged, never deleted from here
+    const remove = type === 'erasure' && recordType === 'Lead';
+    const result = remove
+      ? await SyncService.deleteSalesforceRecord(salesforceId, recordType)
+      : await SyncService.flagSalesforceDoNotContact(salesforceId, recordType);
+
+    if (!result.success) errors.push(`${recordType} ${salesforceId}: ${result.error}`);
+    actions.push({
+      recordType,
+      salesforceId,
+      action: result.success ? (remove ? 'deleted' : 'flagged') : 'failed',
+      error: result.error,
+    });
+  }
+  return actions;
+};
+
+/**
+ * Run a do-not-contact or erasure request end to end and record it in the audit log.
+ * Steps that fail are recorded on the request (status 'partial') rather than aborting the rest
+ */
+export const processPrivacyRequest = async (params: {
+  type: PrivacyRequestType;
+  phone?: string;
+  email?: string;
+  requestedBy: string;
+  notes?: string;
+}): Promise<PrivacyRequest> => {
+  const phone = getPhoneDigits(params.phone);
+  const email = normalizeEmail(params.email);
+  if (!phone && !email) {
+    throw new Error('A 10-digit phone number or an email address is required');
+  }
+
+  console.log(`🔒 Processing ${params.type} privacy request...`);
+  const errors: string[] = [];
+  const requestId = Crypto.randomUUID();
+  const phoneHash = phone ? await hashIdentifier(phone) : undefined;
+  const emailHash = email ? await hashIdentifier(email) : undefined;
+
+  // 1. Block future surveys first so nothing new comes in while the rest runs
+  const { error: blockError } = await supabase.from('contact_blocklist').insert({
+    request_id: requestId,
+    phone_hash: phoneHash || null,
+    email_hash: emailHash || null,
+    erase: params.type === 'erasure',
+  });
+  if (blockError) errors.push(`Blocklist update failed: ${blockError.message}`);
+  const cached = await getCachedBlocklist();
+  await AsyncStorage.setItem(KEYS.BLOCKLIST, JSON.stringify({
+    ...cached,
+    entries: [...cached.entries, { phoneHash, emailHash, erase: params.type === 'erasure' }],
+  }));
+
+  // 2. Stop texting/reminders - the opt-out list is a suppression record, kept even on erasure
+  const matches = await findMatchingSurveys({ phone, email });
+  if (phoneHash) {
+    await supabase
+      .from('sms_opt_outs')
+      .upsert({ phone_hash: phoneHash, opted_out: true, updated_at: new Date().toISOString() }, { onConflict: 'phone_hash' });
+  }
+  if (matches.length > 0) {
+    await supabase
+      .from('appointment_messages')
+      .update({ status: 'skipped', error: 'Customer privacy request' })
+      .in('survey_id', matches.map(s => s.id))
+      .eq('status', 'pending');
+  }
+
+  // 3. Salesforce
+  const salesforceActions = await handleSalesforce(params.type, phone, email, matches, errors);
+
+  // 4. Erasure - redact every copy of the surveys we hold
+  const redactedSurveyIds: string[] = [];
+  if (params.type === 'erasure') {
+    for (const survey of matches) {
+      try {
+        await eraseSurvey(survey);
+        redactedSurveyIds.push(survey.id);
+      } catch (error) {
+        errors.push(`Survey ${survey.id}: ${String(error)}`);
+      }
+    }
+
+    const criticalIds = await redactCriticalSurveys(s => surveyMatches(s, phone, email), redactSurvey);
+    criticalIds.forEach(id => {
+      if (!redactedSurveyIds.includes(id)) redactedSurveyIds.push(id);
+    });
+  }
+
+  const request: PrivacyRequest = {
+    id: requestId,
+    type: params.type,
+    phoneLast4: phone ? phone.slice(-4) : undefined,
+    emailMasked: email ? maskEmail(email) : undefined,
+    requestedBy: params.requestedBy,
+    requestedAt: new Date().toISOString(),
+    completedAt: new Date().toISOString(),
+    status: errors.length > 0 ? 'partial' : 'completed',
+    matchedSurveyIds: matches.map(s => s.id),
+    redactedSurveyIds,
+    salesforceActions,
+    errors,
+    notes: params.notes,
+  };
+
+  // 5. Audit record
+  const { error: auditError } = await supabase.from('privacy_requests').insert({
+    id: request.id,
+    type: request.type,
+    phone_hash: phoneHash || null,
+    email_hash: emailHash || null,
+    phone_last4: request.phoneLast4 || null,
+    email_masked: request.emailMasked || null,
+    requested_by: request.requestedBy,
+    requested_at: request.requestedAt,
+    completed_at: request.completedAt,
+    status: request.status,
+    matched_survey_ids: request.matchedSurveyIds,
+    redacted_survey_ids: request.redactedSurveyIds,
+    salesforce_actions: request.salesforceActions,
+    errors: request.errors,
+    notes: request.notes || null,
+  });
+  if (auditError) {
+    console.error('❌ Failed to write privacy request audit record:', auditError);
+    throw auditError;
+  }
+
+  console.log(`✅ Privacy request ${request.id} ${request.status}: ${matches.length} surveys matched`);
+  return request;
+};
+
+/**
+ * Erasure applies to surveys that were still offline on another kiosk when the request came in.
+ * Runs during sync; returns how many surveys were redacted
+ */
+export const enforceErasureRequests = async (surveys: Survey[]): Promise<number> => {
+  const pending = surveys.filter(s => !s.redactedAt && (s.answers?.contact_info?.phone || s.appointment?.email));
+  if (pending.length === 0) return 0;
+
+  const erasures = (await getBlocklist()).entries.filter(e => e.erase);
+  const erasePhoneHashes = new Set(erasures.filter(e => e.phoneHash).map(e => e.phoneHash));
+  const eraseEmailHashes = new Set(erasures.filter(e => e.emailHash).map(e => e.emailHash));
+  if (erasePhoneHashes.size === 0 && eraseEmailHashes.size === 0) return 0;
+
+  const isErased = async (survey: Survey) => {
+    const digits = getPhoneDigits(survey.answers?.contact_info?.phone);
+    if (digits && erasePhoneHashes.has(await hashIdentifier(digits))) return true;
+    const email = normalizeEmail(survey.appointment?.email);
+    return !!email && eraseEmailHashes.has(await hashIdentifier(email));
+  };
+
+  let redacted = 0;
+  for (const survey of pending) {
+    if (!(await isErased(survey))) continue;
+
+    try {
+      await eraseSurvey(survey);
+      redacted++;
+    } catch (error) {
+      console.error(`Error redacting survey ${survey.id}:`, error);
+    }
+  }
+
+  if (redacted > 0) {
+    console.log(`🔒 Redacted ${redacted} late-synced survey(s) covered by erasure requests`);
+  }
+  return redacted;
+};
+
+/**
+ * Audit log of processed requests, newest first
+ */
+export const getPrivacyRequests = async (): Promise<PrivacyRequest[]> => {
+  const { data, error } = await supabase
+    .from('privacy_requests')
+    .select('*')
+    .order('requested_at', { ascending: false });
+
+  if (error) {
+    console.error('Error loading privacy requests:', error);
+    return [];
+  }
+
+  return (data || []).map((row: any) => ({
+    id: row.id,
+    type: row.type,
+    phoneLast4: row.phone_last4 || undefined,
+    emailMasked: row.email_masked || undefined,
+    requestedBy: row.requested_by,
+    requestedAt: row.requested_at,
+    completedAt: row.completed_at || undefined,
+    status: row.status,
+    matchedSurveyIds: row.matched_survey_ids || [],
+    redactedSurveyIds: row.redacted_survey_ids || [],
+    salesforceActions: row.salesforce_actions || [],
+    errors: row.errors || [],
+    notes: row.notes || undefined,
+  }));
+};
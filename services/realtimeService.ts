@@ -0,0 +1,306 @@
+// Supabase Realtime subscription manager for the live dashboard, messages and alerts.
+// - One channel per table, shared by every screen listening to it
+// - A channel that errors, times out or closes is retried with backoff; until it is back the
+//   manager polls instead (subscribers reload every 30s)
+// - After any gap (channel reconnect, device back online) subscribers are told to resync, so
+//   events missed in the meantime are backfilled by reloading
+//
+// The tables must be in the `supabase_realtime` publication. Row-level security applies to events
+import NetInfo from '@react-native-community/netinfo';
+import { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { getSupabaseClient } from '@/template';
+
+const supabase = getSupabaseClient();
+
+export type RealtimeTable = 'time_entries' | 'surveys' | 'messages' | 'alerts' | 'user_activity';
+
+export type RealtimeStatus = 'connecting' | 'live' | 'polling';
+
+export interface RealtimeChange {
+  table: RealtimeTable;
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  record: Record<string, any> | null; // New row (database columns) - null on delete
+  oldRecord: Record<string, any> | null;
+}
+
+export interface RealtimeUpdate {
+  tables: RealtimeTable[];
+  changes: RealtimeChange[];
+  resync: boolean; // Events may have been missed - reload rather than patching from `changes`
+}
+
+type UpdateListener = (update: RealtimeUpdate) => void;
+type StatusListener = (status: RealtimeStatus) => void;
+
+interface Subscriber {
+  tables: RealtimeTable[];
+  onUpdate: UpdateListener;
+  pending: { tables: Set<RealtimeTable>; changes: RealtimeChange[]; resync: boolean };
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+interface TableChannel {
+  channel: RealtimeChannel | null;
+  status: RealtimeStatus;
+  subscribers: Set<Subscriber>;
+  missedEvents: boolean; // Was down since the last successful subscribe
+  retryAttempt: number;
+  connectTimer: ReturnType<typeof setTimeout> | null;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+  pollTimer: ReturnType<typeof setInterval> | null;
+}
+
+const DELIVERY_DEBOUNCE_MS = 1000; // Bursts (e.g. a kiosk syncing 20 surveys) become one reload
+const POLL_INTERVAL_MS = 30 * 1000;
+const CONNECT_TIMEOUT_MS = 10 * 1000;
+const BASE_RETRY_DELAY_MS = 5 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+
+const channels = new Map<RealtimeTable, TableChannel>();
+const statusListeners = new Set<StatusListener>();
+let lastStatus: RealtimeStatus = 'connecting';
+let isOffline = false;
+let netInfoUnsubscribe: (() => void) | null = null;
+
+// ============ DELIVERY ============
+
+const deliver = (subscriber: Subscriber) => {
+  subscriber.timer = null;
+  const { tables, changes, resync } = subscriber.pending;
+  subscriber.pending = { tables: new Set(), changes: [], resync: false };
+  if (tables.size === 0) return;
+
+  try {
+    subscriber.onUpdate({ tables: Array.from(tables), changes, resync });
+  } catch (error) {
+    console.error('Realtime subscriber failed:', error);
+  }
+};
+
+// `change` null = resync (reconnect, back online or poll tick)
+const notifyTable = (table: RealtimeTable, change: RealtimeChange | null) => {
+  channels.get(table)?.subscribers.forEach(subscriber => {
+    subscriber.pending.tables.add(table);
+    if (change) {
+      subscriber.pending.changes.push(change);
+    } else {
+      subscriber.pending.resync = true;
+    }
+    if (!subscriber.timer) {
+      subscriber.timer = setTimeout(() => deliver(subscriber), DELIVERY_DEBOUNCE_MS);
+    }
+  });
+};
+
+// ============ STATUS ============
+
+const computeStatus = (): RealtimeStatus => {
+  const statuses = Array.from(channels.values()).map(entry => entry.status);
+  if (statuses.includes('polling')) return 'polling';
+  if (statuses.length === 0 || statuses.includes('connecting')) return 'connecting';
+  return 'live';
+};
+
+const setTableStatus = (entry: TableChannel, status: RealtimeStatus) => {
+  entry.status = status;
+  const overall = computeStatus();
+  if (overall !== lastStatus) {
+    lastStatus = overall;
+    statusListeners.forEach(listener => listener(overall));
+  }
+};
+
+// ============ CHANNELS ============
+
+const clearTimer = (entry: TableChannel, timer: 'connectTimer' | 'retryTimer') => {
+  if (entry[timer]) {
+    clearTimeout(entry[timer]!);
+    entry[timer] = null;
+  }
+};
+
+const startPolling = (table: RealtimeTable, entry: TableChannel) => {
+  if (entry.pollTimer) return;
+  entry.pollTimer = setInterval(() => {
+    if (!isOffline) notifyTable(table, null); // Offline reloads only return errors/empty lists
+  }, POLL_INTERVAL_MS);
+};
+
+const stopPolling = (entry: TableChannel) => {
+  if (entry.pollTimer) {
+    clearInterval(entry.pollTimer);
+    entry.pollTimer = null;
+  }
+};
+
+const handleChannelUp = (table: RealtimeTable, entry: TableChannel) => {
+  clearTimer(entry, 'connectTimer');
+  stopPolling(entry);
+  entry.retryAttempt = 0;
+  setTableStatus(entry, 'live');
+
+  if (entry.missedEvents) {
+    entry.missedEvents = false;
+    console.log(`📡 Realtime ${table} reconnected - backfilling`);
+    notifyTable(table, null);
+  }
+};
+
+const handleChannelDown = (table: RealtimeTable, entry: TableChannel) => {
+  clearTimer(entry, 'connectTimer');
+  if (entry.retryTimer) return; // Already waiting to reconnect
+
+  entry.missedEvents = true;
+  setTableStatus(entry, 'polling');
+  startPolling(table, entry);
+
+  const delay = Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, entry.retryAttempt), MAX_RETRY_DELAY_MS);
+  entry.retryAttempt++;
+  console.log(`📡 Realtime ${table} unavailable - polling, retrying in ${delay / 1000}s`);
+  entry.retryTimer = setTimeout(() => {
+    entry.retryTimer = null;
+    openChannel(table);
+  }, delay);
+};
+
+const openChannel = (table: RealtimeTable) => {
+  const entry = channels.get(table);
+  if (!entry) return;
+
+  clearTimer(entry, 'connectTimer');
+  clearTimer(entry, 'retryTimer');
+  const previous = entry.channel;
+  entry.channel = null; // Its CLOSED callback must not count as this table going down
+  if (previous) {
+    supabase.removeChannel(previous);
+  }
+  if (entry.status !== 'polling') {
+    setTableStatus(entry, 'connecting');
+  }
+
+  const channel = supabase
+    .channel(`live:${table}`)
+    .on('postgres_changes', { event: '*', schema: 'public', table }, (payload: RealtimePostgresChangesPayload<Record<string, any>>) => {
+      notifyTable(table, {
+        table,
+        eventType: payload.eventType,
+        record: payload.eventType === 'DELETE' ? null : payload.new,
+        oldRecord: payload.eventType === 'INSERT' ? null : payload.old,
+      });
+    });
+  entry.channel = channel;
+
+  channel.subscribe(status => {
+    // Ignore callbacks from channels that were replaced or torn down
+    if (channels.get(table) !== entry || entry.channel !== channel) return;
+
+    if (status === 'SUBSCRIBED') {
+      handleChannelUp(table, entry);
+    } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+      handleChannelDown(table, entry);
+    }
+  });
+
+  entry.connectTimer = setTimeout(() => handleChannelDown(table, entry), CONNECT_TIMEOUT_MS);
+};
+
+const closeChannel = (table: RealtimeTable) => {
+  const entry = channels.get(table);
+  if (!entry) return;
+
+  channels.delete(table);
+  clearTimer(entry, 'connectTimer');
+  clearTimer(entry, 'retryTimer');
+  stopPolling(entry);
+  if (entry.channel) {
+    supabase.removeChannel(entry.channel);
+  }
+  setTableStatus(entry, 'live'); // Recompute the overall status without this table
+};
+
+// Coming back online: reconnect anything that is down now and backfill every table
+const watchConnectivity = () => {
+  if (netInfoUnsubscribe) return;
+
+  netInfoUnsubscribe = NetInfo.addEventListener(state => {
+    const offline = !(state.isConnected && state.isInternetReachable !== false);
+    if (isOffline && !offline) {
+      console.log('📡 Back online - reconnecting realtime and backfilling');
+      channels.forEach((entry, table) => {
+        entry.missedEvents = false;
+        notifyTable(table, null);
+        if (entry.status !== 'live') {
+          entry.retryAttempt = 0;
+          openChannel(table);
+        }
+      });
+    }
+    isOffline = offline;
+  });
+};
+
+// ============ PUBLIC API ============
+
+/**
+ * Listen for changes to the given tables. `onUpdate` is debounced and receives every change since
+ * the last call. Returns the unsubscribe function
+ */
+export const subscribe = (tables: RealtimeTable[], onUpdate: UpdateListener): (() => void) => {
+  const subscriber: Subscriber = {
+    tables,
+    onUpdate,
+    pending: { tables: new Set(), changes: [], resync: false },
+    timer: null,
+  };
+
+  watchConnectivity();
+  tables.forEach(table => {
+    let entry = channels.get(table);
+    if (!entry) {
+      entry = {
+        channel: null,
+        status: 'connecting',
+        subscribers: new Set(),
+        missedEvents: false,
+        retryAttempt: 0,
+        connectTimer: null,
+        retryTimer: null,
+        pollTimer: null,
+      };
+      channels.set(table, entry);
+      entry.subscribers.add(subscriber);
+      openChannel(table);
+    } else {
+      entry.subscribers.add(subscriber);
+    }
+  });
+
+  return () => {
+    if (subscriber.timer) {
+      clearTimeout(subscriber.timer);
+      subscriber.timer = null;
+    }
+    tables.forEach(table => {
+      const entry = channels.get(table);
+      if (!entry) return;
+      entry.subscribers.delete(subscriber);
+      if (entry.subscribers.size === 0) closeChannel(table);
+    });
+    if (channels.size === 0 && netInfoUnsubscribe) {
+      netInfoUnsubscribe();
+      netInfoUnsubscribe = null;
+    }
+  };
+};
+
+/**
+ * 'live' when every subscribed table is streaming, 'polling' when any has fallen back
+ */
+export const getRealtimeStatus = (): RealtimeStatus => lastStatus;
+
+export const onRealtimeStatusChange = (listener: StatusListener): (() => void) => {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+};
@@ -1,4 +1,7 @@
 // Salesforce Field Metadata Service - Fetches real fields from Salesforce API via Edge Function
+import { getData } from '@/services/storageService';
+
+const FIELD_MAPPING_KEY = 'salesforce_field_mapping';
 
 export interface SalesforceField {
   name: string;
@@ -11,6 +14,29 @@ export interface SalesforceField {
   required: boolean;
 }
 
+export interface FieldMapping {
+  surveyField: string;
+  salesforceField: string;
+  fieldType: 'text' | 'boolean' | 'date' | 'number' | 'picklist';
+  label: string;
+}
+
+// Mappings used until an admin saves their own on the Field Mapping screen
+export const DEFAULT_FIELD_MAPPINGS: FieldMapping[] = [
+  { surveyField: 'contact_info.firstName', salesforceField: 'FirstName', fieldType: 'text', label: 'First Name' },
+  { surveyField: 'contact_info.lastName', salesforceField: 'LastName', fieldType: 'text', label: 'Last Name' },
+  { surveyField: 'contact_info.phone', salesforceField: 'Phone', fieldType: 'text', label: 'Phone Number' },
+  { surveyField: 'contact_info.address', salesforceField: 'Street', fieldType: 'text', label: 'Street Address' },
+  { surveyField: 'contact_info.city', salesforceField: 'City', fieldType: 'text', label: 'City' },
+  { surveyField: 'contact_info.state', salesforceField: 'State', fieldType: 'text', label: 'State' },
+  { surveyField: 'contact_info.zipCode', salesforceField: 'PostalCode', fieldType: 'text', label: 'Zip Code' },
+  { surveyField: 'buys_bottled_water', salesforceField: 'Buys_Bottled_Water__c', fieldType: 'boolean', label: 'Buys Bottled Water' },
+  { surveyField: 'is_homeowner', salesforceField: 'Is_Homeowner__c', fieldType: 'boolean', label: 'Is Homeowner' },
+  { surveyField: 'water_quality', salesforceField: 'Water_Quality__c', fieldType: 'text', label: 'Water Quality' },
+  { surveyField: '_store', salesforceField: 'Survey_Store__c', fieldType: 'text', label: 'Store Location' },
+  { surveyField: '_timestamp', salesforceField: 'Survey_Date__c', fieldType: 'date', label: 'Survey Date' },
+];
+
 let cachedLeadFields: SalesforceField[] | null = null;
 let cacheTimestamp: number = 0;
 const CACHE_DURATION = 30 * 60 * 1000; // 30 minutes
@@ -111,3 +137,11 @@ export const testSalesforceFieldAccess = async (): Promise<{
     };
   }
 };
+
+/**
+ * Survey → Salesforce field mappings currently in effect (saved mappings, or the defaults)
+ */
+export const getFieldMappings = async (): Promise<FieldMapping[]> => {
+  const saved = await getData<FieldMapping[]>(FIELD_MAPPING_KEY);
+  return saved && saved.length > 0 ? saved : DEFAULT_FIELD_MAPPINGS;
+};
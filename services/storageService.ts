@@ -1,8 +1,18 @@
 // Supabase storage service - Local-first with cloud sync (ZERO DATA LOSS GUARANTEED)
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { getSupabaseClient } from '@/template';
-import { Employee, TimeEntry, Survey, Schedule, TimeOffRequest, Message, CompensationSettings, OnboardingData } from '@/types';
+import { Employee, TimeEntry, TimeClockEvent, TimeClockEventType, OutboxItemType, Survey, Appointment, Schedule, TimeOffRequest, Message, Alert, CompensationSettings, OnboardingData, RecordConflict } from '@/types';
 import { Store } from '@/constants/theme';
+import { toLocalDateKey } from '@/utils/timeFormat';
+import * as OutboxService from './outboxService';
+import * as IngestionService from './ingestionService';
+import { isDeviceEnrolled } from './deviceIdentity';
+import { encryptStoredCurrentUser } from './currentUserStore';
+import { assertPeriodOpen } from './payPeriodLock';
+import * as EncryptionService from './encryptionService';
+import * as ConflictService from './conflictService';
+import * as LogService from './logService';
+import * as CompensationPlanService from './compensationPlanService';
 
 const supabase = getSupabaseClient();
 
@@ -11,12 +21,19 @@ const KEYS = {
   LOCAL_SURVEYS: 'local_surveys_failsafe',
   LOCAL_TIME_ENTRIES: 'local_time_entries_failsafe',
   PENDING_SYNC: 'pending_sync_queue',
+  TIME_CLOCK_EVENTS: 'time_clock_events_pending', // Legacy - moved into the outbox
+  TIME_ENTRY_ID_MAP: 'time_entry_id_map',
+  OPEN_TIME_ENTRIES: 'open_time_entries_cache',
+  ALERTS_CACHE: 'alerts', // Last alerts fetched from the cloud - shown while offline
 };
 
 // ============ FAILSAFE: LOCAL STORAGE HELPERS ============
+// Values are encrypted at rest (services/encryptionService.ts) - plaintext from older versions still reads.
+// A value that can't be decrypted or parsed throws instead of reading as empty: callers append and write
+// back, which would replace every stored survey and punch (e.g. after the device key was regenerated)
 const saveToLocalStorage = async <T>(key: string, data: T): Promise<void> => {
   try {
-    await AsyncStorage.setItem(key, JSON.stringify(data));
+    await EncryptionService.setEncryptedItem(key, JSON.stringify(data));
     console.log(`✅ FAILSAFE: Data saved to local storage: ${key}`);
   } catch (error) {
     console.error(`❌ CRITICAL: Local storage save failed for ${key}:`, error);
@@ -26,14 +43,46 @@ const saveToLocalStorage = async <T>(key: string, data: T): Promise<void> => {
 
 const getFromLocalStorage = async <T>(key: string): Promise<T | null> => {
   try {
-    const data = await AsyncStorage.getItem(key);
+    const data = await EncryptionService.getEncryptedItem(key);
     return data ? JSON.parse(data) : null;
   } catch (error) {
-    console.error(`Error reading from local storage ${key}:`, error);
-    return null;
+    console.error(`❌ CRITICAL: Local storage ${key} could not be read - leaving it untouched:`, error);
+    throw new Error(`Local storage ${key} could not be read: ${error instanceof Error ? error.message : String(error)}`);
   }
 };
 
+// Clock-ins not yet on the server and the temp_ -> server id of each one that landed. Read-modify-write
+// sections run one at a time (like the outbox) so a clock-in written during an upload is never dropped
+interface TimeClockState {
+  localEntries: TimeEntry[];
+  idMap: Record<string, string>;
+}
+
+let timeClockLock: Promise<unknown> = Promise.resolve();
+
+const runTimeClockLocked = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = timeClockLock.then(task);
+  timeClockLock = run.catch(() => undefined);
+  return run;
+};
+
+const loadTimeClockState = async (): Promise<TimeClockState> => ({
+  localEntries: await getFromLocalStorage<TimeEntry[]>(KEYS.LOCAL_TIME_ENTRIES) || [],
+  idMap: await getFromLocalStorage<Record<string, string>>(KEYS.TIME_ENTRY_ID_MAP) || {},
+});
+
+// Both keys are written one after the other - reads wait for a write in progress to finish
+const readTimeClockState = (): Promise<TimeClockState> => runTimeClockLocked(loadTimeClockState);
+
+const withTimeClockState = <T>(mutate: (state: TimeClockState) => T): Promise<T> =>
+  runTimeClockLocked(async () => {
+    const state = await loadTimeClockState();
+    const result = mutate(state);
+    await saveToLocalStorage(KEYS.LOCAL_TIME_ENTRIES, state.localEntries);
+    await saveToLocalStorage(KEYS.TIME_ENTRY_ID_MAP, state.idMap);
+    return result;
+  });
+
 // ============ EMPLOYEES ============
 
 export const getEmployees = async (): Promise<Employee[]> => {
@@ -63,7 +112,15 @@ export const addEmployee = async (employee: Employee): Promise<void> => {
   }
 };
 
-export const updateEmployee = async (employeeId: string, updates: Partial<Employee>): Promise<void> => {
+/**
+ * Pass the employee as it was loaded (`base`) so edits made on another device in the meantime are
+ * kept or audited rather than silently overwritten
+ */
+export const updateEmployee = async (
+  employeeId: string,
+  updates: Partial<Employee>,
+  base?: Employee
+): Promise<RecordConflict[]> => {
   const dbUpdates: any = {
     ...updates,
     first_name: updates.firstName,
@@ -85,12 +142,16 @@ export const updateEmployee = async (employeeId: string, updates: Partial<Employ
     dbUpdates[key] === undefined && delete dbUpdates[key]
   );
 
-  const { error } = await supabase
-    .from('employees')
-    .update(dbUpdates)
-    .eq('id', employeeId);
-
-  if (error) {
+  try {
+    const result = await ConflictService.updateVersionedRecord(
+      'employee',
+      employeeId,
+      dbUpdates,
+      base && { version: base.version, values: transformEmployeeToDB(base) }
+    );
+    if (!result) throw new Error('Employee not found');
+    return result.conflicts;
+  } catch (error) {
     console.error('Error updating employee:', error);
     throw error;
   }
@@ -115,12 +176,36 @@ export const terminateEmployee = async (employeeId: string): Promise<void> => {
 
 // ============ TIME ENTRIES ============
 
+// Merge cloud entries with clock-ins that never reached the server, then lay pending
+// time clock events over the result so offline clock-outs/breaks show up immediately
+const mergeWithLocalTimeEntries = async (cloudEntries: TimeEntry[] | null): Promise<TimeEntry[]> => {
+  const { localEntries, idMap } = await readTimeClockState();
+  // Cloud unreachable - fall back to the open entries seen on the last successful fetch
+  const cachedEntries = cloudEntries ? [] : await getFromLocalStorage<TimeEntry[]>(KEYS.OPEN_TIME_ENTRIES) || [];
+
+  // Deduplicate by ID - cloud takes precedence
+  const mergedMap = new Map<string, TimeEntry>();
+  [...localEntries, ...cachedEntries, ...(cloudEntries || [])].forEach(entry => {
+    mergedMap.set(entry.id, entry);
+  });
+
+  const events = await getTimeClockEvents();
+  if (events.length > 0) {
+    for (const event of events) {
+      const id = idMap[event.timeEntryId] || event.timeEntryId;
+      const entry = mergedMap.get(id);
+      if (entry) mergedMap.set(id, applyTimeClockEvent(entry, event));
+    }
+  }
+
+  return Array.from(mergedMap.values());
+};
+
 export const getTimeEntries = async (): Promise<TimeEntry[]> => {
   // CRITICAL FIX: Merge cloud time entries + local failsafe storage
   // This ensures offline clock-ins are ALWAYS visible in the UI
   
-  const cloudEntries: TimeEntry[] = [];
-  const localEntries = await getFromLocalStorage<TimeEntry[]>(KEYS.LOCAL_TIME_ENTRIES) || [];
+  let cloudEntries: TimeEntry[] | null = null;
   
   // Try to fetch from cloud
   try {
@@ -130,7 +215,8 @@ export const getTimeEntries = async (): Promise<TimeEntry[]> => {
       .order('clock_in', { ascending: false });
 
     if (!error && data) {
-      cloudEntries.push(...data.map(transformTimeEntryFromDB));
+      cloudEntries = data.map(transformTimeEntryFromDB);
+      await saveToLocalStorage(KEYS.OPEN_TIME_ENTRIES, cloudEntries.filter(e => !e.clockOut));
     } else if (error) {
       console.error('Error fetching time entries from cloud (showing local only):', error);
     }
@@ -138,28 +224,16 @@ export const getTimeEntries = async (): Promise<TimeEntry[]> => {
     console.error('Cloud fetch failed (showing local only):', error);
   }
   
-  // Merge cloud + local entries (deduplicate by ID - cloud takes precedence)
-  const mergedMap = new Map<string, TimeEntry>();
-  
-  // Add local entries first
-  localEntries.forEach(entry => {
-    mergedMap.set(entry.id, entry);
-  });
-  
-  // Overwrite with cloud entries (cloud is source of truth for synced data)
-  cloudEntries.forEach(entry => {
-    mergedMap.set(entry.id, entry);
-  });
-  
-  const allEntries = Array.from(mergedMap.values());
+  const allEntries = await mergeWithLocalTimeEntries(cloudEntries);
   
   // Sort by clock_in descending
   allEntries.sort((a, b) => {
     return new Date(b.clockIn).getTime() - new Date(a.clockIn).getTime();
   });
   
-  if (localEntries.length > 0) {
-    console.log(`📊 Time entries loaded: ${cloudEntries.length} from cloud, ${localEntries.length} pending sync locally, ${allEntries.length} total`);
+  const pendingCount = allEntries.filter(e => e.id.startsWith('temp_')).length;
+  if (pendingCount > 0) {
+    console.log(`📊 Time entries loaded: ${cloudEntries?.length ?? 0} from cloud, ${pendingCount} pending sync locally, ${allEntries.length} total`);
   }
   
   return allEntries;
@@ -171,6 +245,29 @@ export const saveTimeEntries = async (entries: TimeEntry[]): Promise<void> => {
   console.warn('saveTimeEntries: Bulk operations not recommended with Supabase');
 };
 
+// Works offline: the server copy wins when reachable, otherwise the local view is used
+const findOpenTimeEntry = async (employeeId: string): Promise<TimeEntry | null> => {
+  let cloudEntries: TimeEntry[] | null = null;
+  try {
+    const { data, error } = await supabase
+      .from('time_entries')
+      .select('*')
+      .eq('employee_id', employeeId)
+      .is('clock_out', null);
+
+    if (!error && data) {
+      cloudEntries = data.map(transformTimeEntryFromDB);
+    } else if (error) {
+      console.warn('⚠️ Could not reach time entries (using local copy):', error);
+    }
+  } catch (error) {
+    console.warn('⚠️ Could not reach time entries (using local copy):', error);
+  }
+
+  const entries = await mergeWithLocalTimeEntries(cloudEntries);
+  return entries.find(e => e.employeeId === employeeId && !e.clockOut) || null;
+};
+
 export const clockIn = async (
   employeeId: string,
   store: Store,
@@ -224,9 +321,10 @@ export const clockIn = async (
 
   // ============ FAILSAFE: Save to local storage first ============
   try {
-    const localEntries = await getFromLocalStorage<TimeEntry[]>(KEYS.LOCAL_TIME_ENTRIES) || [];
-    localEntries.push(timeEntry);
-    await saveToLocalStorage(KEYS.LOCAL_TIME_ENTRIES, localEntries);
+    await withTimeClockState(state => {
+      state.localEntries.push(timeEntry);
+    });
+    await recordTimeClockEvent(timeEntry, 'clock_in', timeEntry.clockIn);
     console.log('✅ FAILSAFE: Time entry saved to local storage');
   } catch (localError) {
     console.error('❌ CRITICAL: Local storage save failed:', localError);
@@ -234,113 +332,286 @@ export const clockIn = async (
   }
 
   // ============ Attempt cloud sync ============
-  try {
-    const { data, error } = await supabase
-      .from('time_entries')
-      .insert([
-        {
-          employee_id: employeeId,
-          clock_in: new Date().toISOString(),
-          store,
-          store_name: storeName,
-          store_number: storeNumber,
-          store_address: storeAddress,
-          synced_to_adp: false,
-          is_active_in_kiosk: true,
-          gps_latitude: gpsCoordinates?.latitude,
-          gps_longitude: gpsCoordinates?.longitude,
-          gps_accuracy: gpsCoordinates?.accuracy,
-          photo_uri: photoUri,
-          location_verified: locationVerified,
-          distance_from_store: distanceFromStore,
-        }
-      ])
-      .select()
-      .single();
-
-    if (error) {
-      console.error('⚠️ Cloud sync failed (data is safe locally):', error);
-      return timeEntry; // Return local entry
-    }
+  await syncTimeClockEvents();
 
+  const { idMap } = await readTimeClockState();
+  if (idMap[timeEntry.id]) {
     console.log('✅ Time entry synced to cloud');
-    
-    // Remove from local storage after successful sync
-    const localEntries = await getFromLocalStorage<TimeEntry[]>(KEYS.LOCAL_TIME_ENTRIES) || [];
-    const filtered = localEntries.filter(e => e.id !== timeEntry.id);
-    await saveToLocalStorage(KEYS.LOCAL_TIME_ENTRIES, filtered);
-    
-    return transformTimeEntryFromDB(data);
-  } catch (syncError) {
-    console.error('⚠️ Cloud sync error (data is safe locally):', syncError);
-    return timeEntry; // Return local entry - data is SAFE
+    return { ...timeEntry, id: idMap[timeEntry.id] };
   }
-};
 
-export const clockOut = async (employeeId: string): Promise<void> => {
-  // Find active time entry
-  const { data: activeEntries, error: fetchError } = await supabase
-    .from('time_entries')
-    .select('*')
-    .eq('employee_id', employeeId)
-    .is('clock_out', null)
-    .limit(1);
+  console.error('⚠️ Cloud sync failed (data is safe locally)');
+  return timeEntry; // Return local entry - data is SAFE
+};
 
-  if (fetchError) {
-    console.error('Error finding active time entry:', fetchError);
-    throw fetchError;
-  }
+/**
+ * Clock out a specific entry - also used by admins force clocking out an inactive user
+ */
+export const clockOutTimeEntry = async (timeEntry: TimeEntry): Promise<TimeEntry> => {
+  const event = await recordTimeClockEvent(timeEntry, 'clock_out');
+  await syncTimeClockEvents();
+  return applyTimeClockEvent(timeEntry, event);
+};
 
-  if (!activeEntries || activeEntries.length === 0) {
+export const clockOut = async (employeeId: string): Promise<TimeEntry | null> => {
+  const activeEntry = await findOpenTimeEntry(employeeId);
+  if (!activeEntry) {
     console.warn('No active time entry found for clock out');
-    return;
+    return null;
   }
 
-  const { error } = await supabase
-    .from('time_entries')
-    .update({
-      clock_out: new Date().toISOString(),
-      is_active_in_kiosk: false,
-    })
-    .eq('id', activeEntries[0].id);
+  return clockOutTimeEntry(activeEntry);
+};
 
-  if (error) {
-    console.error('Error clocking out:', error);
-    throw error;
+export const startBreak = async (employeeId: string): Promise<TimeEntry | null> => {
+  const activeEntry = await findOpenTimeEntry(employeeId);
+  if (!activeEntry) {
+    console.warn('No active time entry found for break');
+    return null;
   }
+  if (isOnBreak(activeEntry)) return activeEntry;
+
+  const event = await recordTimeClockEvent(activeEntry, 'break_start');
+  await syncTimeClockEvents();
+  return applyTimeClockEvent(activeEntry, event);
 };
 
+export const endBreak = async (employeeId: string): Promise<TimeEntry | null> => {
+  const activeEntry = await findOpenTimeEntry(employeeId);
+  if (!activeEntry || !isOnBreak(activeEntry)) return activeEntry;
+
+  const event = await recordTimeClockEvent(activeEntry, 'break_return');
+  await syncTimeClockEvents();
+  return applyTimeClockEvent(activeEntry, event);
+};
+
+export const isOnBreak = (entry: TimeEntry): boolean =>
+  !!entry.breaks?.some(b => !b.end);
+
 export const setKioskActiveStatus = async (employeeId: string, isActive: boolean): Promise<TimeEntry | null> => {
-  // Find active time entry
-  const { data: activeEntries, error: fetchError } = await supabase
+  const activeEntry = await findOpenTimeEntry(employeeId);
+  if (!activeEntry) {
+    return null;
+  }
+  if (activeEntry.isActiveInKiosk === isActive) {
+    return activeEntry;
+  }
+
+  const event = await recordTimeClockEvent(activeEntry, 'kiosk_active', undefined, isActive);
+  await syncTimeClockEvents();
+  return applyTimeClockEvent(activeEntry, event);
+};
+
+// ============ TIME CLOCK EVENTS ============
+
+export const getTimeClockEvents = async (): Promise<TimeClockEvent[]> => {
+  return (await OutboxService.getOutboxItems('time_clock')).map(item => item.payload as TimeClockEvent);
+};
+
+const recordTimeClockEvent = async (
+  timeEntry: TimeEntry,
+  type: TimeClockEventType,
+  occurredAt: string = new Date().toISOString(),
+  isActive?: boolean
+): Promise<TimeClockEvent> => {
+  const event: TimeClockEvent = {
+    id: `evt_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    type,
+    timeEntryId: timeEntry.id,
+    employeeId: timeEntry.employeeId,
+    occurredAt,
+    isActive,
+  };
+
+  // Events for one entry apply in order - each waits for the previous one
+  const previous = (await OutboxService.getOutboxItems('time_clock')).filter(i => i.entityId === timeEntry.id);
+  await OutboxService.enqueueOutboxItem({
+    type: 'time_clock',
+    idempotencyKey: `time_clock:${event.id}`,
+    entityId: timeEntry.id,
+    dependsOn: previous.length > 0 ? [previous[previous.length - 1].idempotencyKey] : undefined,
+    label: type.replace('_', ' '),
+    payload: event,
+  });
+  return event;
+};
+
+const applyTimeClockEvent = (entry: TimeEntry, event: TimeClockEvent): TimeEntry => {
+  switch (event.type) {
+    case 'clock_out':
+      if (entry.clockOut) return entry;
+      return {
+        ...entry,
+        clockOut: event.occurredAt,
+        isActiveInKiosk: false,
+        // A break left open at clock-out ends with the shift
+        breaks: entry.breaks?.map(b => b.end ? b : { ...b, end: event.occurredAt }),
+      };
+    case 'break_start':
+      if (entry.breaks?.some(b => b.start === event.occurredAt)) return entry;
+      return { ...entry, breaks: [...(entry.breaks || []), { start: event.occurredAt }] };
+    case 'break_return':
+      return { ...entry, breaks: entry.breaks?.map(b => b.end ? b : { ...b, end: event.occurredAt }) };
+    case 'kiosk_active':
+      return entry.clockOut ? entry : { ...entry, isActiveInKiosk: !!event.isActive };
+    default:
+      return entry;
+  }
+};
+
+const timeEntryToDBRow = (entry: TimeEntry) => ({
+  employee_id: entry.employeeId,
+  clock_in: entry.clockIn,
+  clock_out: entry.clockOut,
+  store: entry.store,
+  store_name: entry.storeName,
+  store_number: entry.storeNumber,
+  store_address: entry.storeAddress,
+  synced_to_adp: entry.syncedToADP,
+  is_active_in_kiosk: entry.isActiveInKiosk,
+  gps_latitude: entry.gpsCoordinates?.latitude,
+  gps_longitude: entry.gpsCoordinates?.longitude,
+  gps_accuracy: entry.gpsCoordinates?.accuracy,
+  photo_uri: entry.photoUri,
+  location_verified: entry.locationVerified,
+  distance_from_store: entry.distanceFromStore,
+  breaks: entry.breaks,
+});
+
+// Hours in a locked or exported pay period are final - the event stays in the outbox (and ends
+// up in sync triage) until the period is unlocked
+const assertShiftPeriodOpen = async (entry: TimeEntry): Promise<void> => {
+  await assertPeriodOpen(toLocalDateKey(entry.clockIn));
+};
+
+// Push one event to the server. Throws when it should be retried later.
+// The upload runs outside the time clock lock - only the bookkeeping around it takes the lock
+const pushTimeClockEvent = async (event: TimeClockEvent, idempotencyKey: string): Promise<void> => {
+  const { localEntries, idMap } = await readTimeClockState();
+
+  if (event.type === 'clock_in') {
+    if (idMap[event.timeEntryId]) return;
+    const entry = localEntries.find(e => e.id === event.timeEntryId);
+    if (!entry) {
+      throw new Error(`Clock-in ${event.timeEntryId} is missing from local storage and was never uploaded`);
+    }
+    await assertShiftPeriodOpen(entry);
+
+    // A replay after a lost response gets the row created the first time
+    const result = await IngestionService.ingestRecord({
+      kind: 'time_entry',
+      clientId: entry.id,
+      idempotencyKey,
+      data: timeEntryToDBRow(entry),
+    });
+
+    await withTimeClockState(state => {
+      state.idMap[entry.id] = result.serverId!;
+      state.localEntries = state.localEntries.filter(e => e.id !== entry.id);
+    });
+    return;
+  }
+
+  const id = idMap[event.timeEntryId] || event.timeEntryId;
+  if (id.startsWith('temp_')) {
+    throw new Error(`Clock-in ${id} has not reached the server yet`);
+  }
+
+  const { data: rows, error: fetchError } = await supabase
     .from('time_entries')
     .select('*')
-    .eq('employee_id', employeeId)
-    .is('clock_out', null)
+    .eq('id', id)
     .limit(1);
-
-  if (fetchError) {
-    console.error('Error finding active time entry:', fetchError);
-    return null;
+  if (fetchError) throw fetchError;
+  if (!rows || rows.length === 0) {
+    console.warn(`⚠️ Time entry ${id} no longer exists - dropping ${event.type} event`);
+    return;
   }
 
-  if (!activeEntries || activeEntries.length === 0) {
-    return null;
-  }
+  const current = transformTimeEntryFromDB(rows[0]);
+  const updated = applyTimeClockEvent(current, event);
+  if (updated === current) return;
+  if (event.type !== 'kiosk_active') await assertShiftPeriodOpen(current);
 
-  const { data, error } = await supabase
+  const { error } = await supabase
     .from('time_entries')
-    .update({ is_active_in_kiosk: isActive })
-    .eq('id', activeEntries[0].id)
-    .select()
-    .single();
+    .update({
+      clock_out: updated.clockOut,
+      is_active_in_kiosk: updated.isActiveInKiosk,
+      breaks: updated.breaks,
+    })
+    .eq('id', id);
+  if (error) throw error;
+};
 
-  if (error) {
-    console.error('Error updating kiosk status:', error);
-    return null;
+// ============ OUTBOX HANDLERS (CLOUD DATABASE) ============
+
+const deliverTimeClockEvent: OutboxService.OutboxHandler = async (item) => {
+  await pushTimeClockEvent(item.payload as TimeClockEvent, item.idempotencyKey);
+};
+
+const deliverSurvey: OutboxService.OutboxHandler = async (item) => {
+  // The local copy carries edits made while the upload was pending
+  const localSurveys = await getFromLocalStorage<Survey[]>(KEYS.LOCAL_SURVEYS) || [];
+  const survey = localSurveys.find(s => s.id === item.entityId) || item.payload.survey as Survey;
+
+  const result = await IngestionService.ingestRecord({
+    kind: 'survey',
+    clientId: survey.id,
+    idempotencyKey: item.idempotencyKey,
+    data: transformSurveyToDB(survey),
+  });
+
+  console.log(`✅ Survey synced ${survey.id}`);
+  await removeFromLocalSurveys(survey.id);
+  return { status: result.status === 'duplicate' ? 'duplicate' : 'success' };
+};
+
+// Critical-storage snapshots (failsafeStorage) of entries that already exist on the server
+const deliverTimeEntry: OutboxService.OutboxHandler = async (item) => {
+  const timeEntry = item.payload.timeEntry as TimeEntry;
+  if (timeEntry.id.startsWith('temp_')) {
+    return { status: 'skipped' }; // Offline clock-ins upload through their time clock events
   }
+  await assertShiftPeriodOpen(timeEntry);
+
+  const result = await IngestionService.ingestRecord({
+    kind: 'time_entry',
+    clientId: timeEntry.id,
+    idempotencyKey: item.idempotencyKey,
+    data: timeEntryToDBRow(timeEntry),
+  });
+  return { status: result.status === 'duplicate' ? 'duplicate' : 'success' };
+};
+
+// Handlers for items that only need the Supabase database (Salesforce/Zapier live in syncService)
+const CLOUD_OUTBOX_HANDLERS: Partial<Record<OutboxItemType, OutboxService.OutboxHandler>> = {
+  survey: deliverSurvey,
+  time_entry: deliverTimeEntry,
+  time_clock: deliverTimeClockEvent,
+};
 
-  return transformTimeEntryFromDB(data);
+/**
+ * Handlers for records uploaded through ingest-records - none until the device is enrolled, so
+ * uploads stay queued instead of using up their retries
+ */
+export const getCloudOutboxHandlers = async (): Promise<Partial<Record<OutboxItemType, OutboxService.OutboxHandler>>> =>
+  (await isDeviceEnrolled()) ? CLOUD_OUTBOX_HANDLERS : {};
+
+/**
+ * Replay pending time clock events against the server in the order they happened.
+ * Offline clock-ins are uploaded first so later events can be mapped to the real row
+ */
+export const syncTimeClockEvents = async (): Promise<{ synced: number; failed: number }> => {
+  try {
+    const { time_clock } = await getCloudOutboxHandlers();
+    if (!time_clock) return { synced: 0, failed: 0 };
+    const result = await OutboxService.processOutbox({ time_clock });
+    return { synced: result.delivered, failed: result.failed };
+  } catch (error) {
+    console.error('Error syncing time clock events:', error);
+    return { synced: 0, failed: 0 };
+  }
 };
 
 // ============ SURVEYS ============
@@ -395,10 +666,6 @@ export const getSurveys = async (): Promise<Survey[]> => {
   return allSurveys;
 };
 
-export const saveSurveys = async (surveys: Survey[]): Promise<void> => {
-  console.warn('saveSurveys: Bulk operations not recommended with Supabase');
-};
-
 export const addSurvey = async (survey: Survey): Promise<Survey> => {
   // ============ STEP 1: SAVE TO LOCAL STORAGE FIRST (FAILSAFE) ============
   // This ensures data is NEVER lost, even if:
@@ -423,43 +690,114 @@ export const addSurvey = async (survey: Survey): Promise<Survey> => {
 
   // ============ STEP 2: ATTEMPT CLOUD SYNC (BEST EFFORT) ============
   try {
-    const dbSurvey = transformSurveyToDB(survey);
-
-    const { data, error } = await supabase
-      .from('surveys')
-      .insert([dbSurvey])
-      .select()
-      .single();
-
-    if (error) {
-      console.error('⚠️ Cloud sync failed (data is safe locally):', error);
-      // Data remains in KEYS.LOCAL_SURVEYS - will be synced when connectivity restores
-      return survey;
+    const queued = await enqueueSurveyUpload(survey);
+    if (queued) {
+      await OutboxService.processOutbox({ survey: deliverSurvey }, { keys: [queued.idempotencyKey] });
     }
-
-    console.log(`✅ Survey ${survey.id} synced to cloud`);
-    
-    // Remove from local storage after successful sync
-    await removeFromLocalSurveys(survey.id);
-    
-    return transformSurveyFromDB(data);
   } catch (syncError) {
     console.error('⚠️ Cloud sync error (data is safe locally):', syncError);
-    // Data remains in KEYS.LOCAL_SURVEYS - will be synced when connectivity restores
-    return survey;
+    // Data remains in KEYS.LOCAL_SURVEYS and the outbox - will be synced when connectivity restores
   }
+  return survey;
 };
 
-export const markSurveyAsReviewed = async (surveyId: string): Promise<void> => {
-  const { error } = await supabase
+/**
+ * Single survey - the pending local copy wins over the cloud row
+ */
+export const getSurveyById = async (surveyId: string): Promise<Survey | null> => {
+  const localSurveys = await getFromLocalStorage<Survey[]>(KEYS.LOCAL_SURVEYS) || [];
+  const local = localSurveys.find(s => s.id === surveyId);
+  if (local) return local;
+
+  const { data, error } = await supabase
     .from('surveys')
-    .update({ duplicate_reviewed: true })
-    .eq('id', surveyId);
+    .select('*')
+    .eq('id', surveyId)
+    .maybeSingle();
 
   if (error) {
-    console.error('Error marking survey as reviewed:', error);
+    console.error('Error fetching survey:', error);
     throw error;
   }
+  return data ? transformSurveyFromDB(data) : null;
+};
+
+// Only the columns for the fields being changed - cleared fields are written as null
+const toSurveyColumns = (updates: Partial<Survey>): Record<string, any> => {
+  const row = transformSurveyToDB(updates as Survey);
+  const columns: Record<string, any> = {};
+  Object.keys(updates).forEach(key => {
+    const column = key.replace(/[A-Z]/g, c => `_${c.toLowerCase()}`);
+    if (column !== 'id' && column in row) columns[column] = row[column] ?? null;
+  });
+  return columns;
+};
+
+/**
+ * Change some fields of one survey - the pending local copy and the cloud row. Pass the survey as it
+ * was loaded (`base`) so fields another device changed in the meantime are kept or audited.
+ * Returns the fields where this device's value overwrote a concurrent edit
+ */
+export const updateSurvey = async (
+  surveyId: string,
+  updates: Partial<Survey>,
+  base?: Survey
+): Promise<RecordConflict[]> => {
+  const localSurveys = await getFromLocalStorage<Survey[]>(KEYS.LOCAL_SURVEYS) || [];
+  const localIndex = localSurveys.findIndex(s => s.id === surveyId);
+  if (localIndex !== -1) {
+    localSurveys[localIndex] = { ...localSurveys[localIndex], ...updates };
+    await saveToLocalStorage(KEYS.LOCAL_SURVEYS, localSurveys);
+  }
+
+  try {
+    const result = await ConflictService.updateVersionedRecord(
+      'survey',
+      surveyId,
+      toSurveyColumns(updates),
+      base && { version: base.version, values: transformSurveyToDB(base) }
+    );
+    if (!result && localIndex === -1) throw new Error('Survey not found');
+    return result?.conflicts || [];
+  } catch (error) {
+    console.error('Error updating survey:', error);
+    // Still pending locally - the outbox upload carries the change
+    if (localIndex === -1) throw error;
+    return [];
+  }
+};
+
+/**
+ * Record the Salesforce/Zapier outcome on one survey (cloud row and pending local copy)
+ */
+export const updateSurveySyncStatus = async (
+  surveyId: string,
+  status: Partial<Pick<Survey, 'syncedToSalesforce' | 'syncedToZapier' | 'salesforceId' | 'syncError' | 'isDuplicate' | 'duplicateInfo'>>
+): Promise<void> => {
+  try {
+    await updateSurvey(surveyId, status);
+  } catch {
+    // Logged by updateSurvey - the outcome is recorded again on the next sync
+  }
+};
+
+export const markSurveyAsReviewed = async (surveyId: string): Promise<void> => {
+  await updateSurvey(surveyId, { duplicateReviewed: true });
+};
+
+/**
+ * Replace a survey's appointment in the cloud and in the local failsafe copy (if still pending)
+ */
+export const updateSurveyAppointment = async (surveyId: string, appointment: Appointment): Promise<void> => {
+  await updateSurvey(surveyId, { appointment });
+};
+
+/**
+ * Overwrite a survey's personal data with its redacted copy - cloud row and local failsafe copy
+ */
+export const saveRedactedSurvey = async (survey: Survey): Promise<void> => {
+  const { answers, signature, appointment, duplicateInfo, redactedAt } = survey;
+  await updateSurvey(survey.id, { answers, signature, appointment, duplicateInfo, redactedAt });
 };
 
 export const deleteSurvey = async (surveyId: string): Promise<void> => {
@@ -490,10 +828,6 @@ export const getSchedules = async (): Promise<Schedule[]> => {
   return (data || []).map(transformScheduleFromDB);
 };
 
-export const saveSchedules = async (schedules: Schedule[]): Promise<void> => {
-  console.warn('saveSchedules: Bulk operations not recommended with Supabase');
-};
-
 export const addSchedule = async (schedule: Schedule): Promise<void> => {
   const dbSchedule = transformScheduleToDB(schedule);
 
@@ -536,10 +870,6 @@ export const getTimeOffRequests = async (): Promise<TimeOffRequest[]> => {
   return (data || []).map(transformTimeOffRequestFromDB);
 };
 
-export const saveTimeOffRequests = async (requests: TimeOffRequest[]): Promise<void> => {
-  console.warn('saveTimeOffRequests: Bulk operations not recommended with Supabase');
-};
-
 export const addTimeOffRequest = async (request: TimeOffRequest): Promise<void> => {
   const dbRequest = transformTimeOffRequestToDB(request);
 
@@ -556,16 +886,13 @@ export const addTimeOffRequest = async (request: TimeOffRequest): Promise<void>
 export const updateTimeOffRequest = async (requestId: string, status: 'approved' | 'denied'): Promise<void> => {
   const { data: { user } } = await supabase.auth.getUser();
 
-  const { error } = await supabase
-    .from('time_off_requests')
-    .update({
+  try {
+    await ConflictService.updateVersionedRecord('time_off_request', requestId, {
       status,
       reviewed_at: new Date().toISOString(),
       reviewed_by: user?.id,
-    })
-    .eq('id', requestId);
-
-  if (error) {
+    });
+  } catch (error) {
     console.error('Error updating time off request:', error);
     throw error;
   }
@@ -587,10 +914,6 @@ export const getMessages = async (): Promise<Message[]> => {
   return (data || []).map(transformMessageFromDB);
 };
 
-export const saveMessages = async (messages: Message[]): Promise<void> => {
-  console.warn('saveMessages: Bulk operations not recommended with Supabase');
-};
-
 export const addMessage = async (message: Message): Promise<void> => {
   try {
     const dbMessage = transformMessageToDB(message);
@@ -615,138 +938,98 @@ export const addMessage = async (message: Message): Promise<void> => {
   }
 };
 
-export const markMessageAsRead = async (messageId: string, employeeId: string): Promise<void> => {
-  // Fetch current message
-  const { data: message, error: fetchError } = await supabase
-    .from('messages')
-    .select('read_by')
-    .eq('id', messageId)
-    .single();
+// readBy and reactions are merged by set-union, so reads/reactions from other devices are never lost
 
-  if (fetchError) {
-    console.error('Error fetching message:', fetchError);
-    return;
+export const markMessageAsRead = async (messageId: string, employeeId: string): Promise<void> => {
+  try {
+    await ConflictService.updateVersionedRecord('message', messageId, current =>
+      (current.read_by || []).includes(employeeId) ? null : { read_by: [employeeId] }
+    );
+  } catch (error) {
+    console.error('Error marking message as read:', error);
   }
+};
 
-  if (message.read_by && message.read_by.includes(employeeId)) {
-    return; // Already read
+export const addReaction = async (messageId: string, employeeId: string, emoji: string): Promise<void> => {
+  try {
+    await ConflictService.updateVersionedRecord('message', messageId, current =>
+      (current.reactions?.[emoji] || []).includes(employeeId) ? null : { reactions: { [emoji]: [employeeId] } }
+    );
+  } catch (error) {
+    console.error('Error adding reaction:', error);
   }
+};
 
-  const readBy = [...(message.read_by || []), employeeId];
+// ============ ALERTS ============
 
-  const { error } = await supabase
-    .from('messages')
-    .update({ read_by: readBy })
-    .eq('id', messageId);
+export const getAlerts = async (): Promise<Alert[]> => {
+  const { data, error } = await supabase
+    .from('alerts')
+    .select('*')
+    .order('created_at', { ascending: false });
 
   if (error) {
-    console.error('Error marking message as read:', error);
-  }
-};
-
-export const addReaction = async (messageId: string, employeeId: string, emoji: string): Promise<void> => {
-  // Fetch current message
-  const { data: message, error: fetchError } = await supabase
-    .from('messages')
-    .select('reactions')
-    .eq('id', messageId)
-    .single();
-
-  if (fetchError) {
-    console.error('Error fetching message:', fetchError);
-    return;
+    console.error('Error fetching alerts (showing cached):', error);
+    return await getData<Alert[]>(KEYS.ALERTS_CACHE) || [];
   }
 
-  const reactions = message.reactions || {};
-  if (!reactions[emoji]) {
-    reactions[emoji] = [];
-  }
-  if (!reactions[emoji].includes(employeeId)) {
-    reactions[emoji].push(employeeId);
-  }
+  const alerts = (data || []).map(transformAlertFromDB);
+  await saveData(KEYS.ALERTS_CACHE, alerts);
+  return alerts;
+};
 
+export const addAlert = async (alert: Alert): Promise<void> => {
   const { error } = await supabase
-    .from('messages')
-    .update({ reactions })
-    .eq('id', messageId);
+    .from('alerts')
+    .insert([transformAlertToDB(alert)]);
 
   if (error) {
-    console.error('Error adding reaction:', error);
+    console.error('Error adding alert:', error);
+    throw error;
   }
 };
 
-// ============ CURRENT USER (Session storage - not in DB) ============
-
-const CURRENT_USER_KEY = 'current_user';
+// readBy and dismissedBy are merged by set-union, like message reads
 
-export const setCurrentUser = async (employee: Employee | null): Promise<void> => {
+export const markAlertAsRead = async (alertId: string, employeeId: string): Promise<void> => {
   try {
-    if (employee) {
-      await AsyncStorage.setItem(CURRENT_USER_KEY, JSON.stringify(employee));
-    } else {
-      await AsyncStorage.removeItem(CURRENT_USER_KEY);
-    }
+    await ConflictService.updateVersionedRecord('alert', alertId, current =>
+      (current.read_by || []).includes(employeeId) ? null : { read_by: [employeeId] }
+    );
   } catch (error) {
-    console.error('Error setting current user:', error);
+    console.error('Error marking alert as read:', error);
   }
 };
 
-export const getCurrentUser = async (): Promise<Employee | null> => {
+export const dismissAlert = async (alertId: string, employeeId: string): Promise<void> => {
   try {
-    const data = await AsyncStorage.getItem(CURRENT_USER_KEY);
-    return data ? JSON.parse(data) : null;
+    await ConflictService.updateVersionedRecord('alert', alertId, current =>
+      (current.dismissed_by || []).includes(employeeId) ? null : { dismissed_by: [employeeId] }
+    );
   } catch (error) {
-    console.error('Error getting current user:', error);
-    return null;
+    console.error('Error dismissing alert:', error);
   }
 };
 
 // ============ COMPENSATION SETTINGS ============
 
+// Rates of the company-wide compensation plan. Plans are versioned and effective-dated, and can be
+// overridden per employee, team or market - see compensationPlanService
 export const getCompensationSettings = async (): Promise<CompensationSettings> => {
-  const { data, error } = await supabase
-    .from('compensation_settings')
-    .select('*')
-    .limit(1)
-    .single();
-
-  if (error) {
-    console.error('Error fetching compensation settings:', error);
-    return {
-      baseHourlyRate: 15,
-      surveyInstallBonus: 10,
-      appointmentInstallBonus: 25,
-      quota: 5,
-    };
-  }
-
-  return transformCompensationSettingsFromDB(data);
+  const plan = await CompensationPlanService.getDefaultPlan();
+  return {
+    baseHourlyRate: plan.baseHourlyRate,
+    surveyInstallBonus: plan.surveyInstallBonus,
+    appointmentInstallBonus: plan.appointmentInstallBonus,
+    quota: plan.quota,
+  };
 };
 
-export const saveCompensationSettings = async (settings: CompensationSettings): Promise<void> => {
-  // Get the existing settings ID
-  const { data: existing } = await supabase
-    .from('compensation_settings')
-    .select('id')
-    .limit(1)
-    .single();
-
-  if (existing) {
-    const { error } = await supabase
-      .from('compensation_settings')
-      .update({
-        base_hourly_rate: settings.baseHourlyRate,
-        survey_install_bonus: settings.surveyInstallBonus,
-        appointment_install_bonus: settings.appointmentInstallBonus,
-        quota: settings.quota,
-      })
-      .eq('id', existing.id);
-
-    if (error) {
-      console.error('Error updating compensation settings:', error);
-      throw error;
-    }
-  }
+/**
+ * Adds a version of the company-wide plan effective today - earlier pay periods keep their rates
+ */
+export const saveCompensationSettings = async (settings: CompensationSettings, changedBy?: string): Promise<void> => {
+  await CompensationPlanService.saveDefaultRates(settings, changedBy);
 };
 
 // ============ ONBOARDING DATA ============
@@ -809,83 +1092,51 @@ export const updateOnboardingStep = async (employeeId: string, step: number, dat
 
 // ============ ALERTS ============
 
+/**
+ * Read a non-database value (alerts, settings, sync logs). Throws when the stored value can't be
+ * decrypted or parsed, so it is never mistaken for empty and written over
+ */
 export const getData = async <T>(key: string): Promise<T | null> => {
   // For non-database data (like alerts, sync queue), use AsyncStorage
   try {
-    const data = await AsyncStorage.getItem(key);
+    const data = await EncryptionService.getEncryptedItem(key);
     return data ? JSON.parse(data) : null;
   } catch (error) {
     console.error(`Error getting ${key}:`, error);
-    return null;
+    throw new Error(`Stored ${key} could not be read: ${error instanceof Error ? error.message : String(error)}`);
   }
 };
 
 export const saveData = async <T>(key: string, data: T): Promise<void> => {
   try {
-    await AsyncStorage.setItem(key, JSON.stringify(data));
+    await EncryptionService.setEncryptedItem(key, JSON.stringify(data));
   } catch (error) {
     console.error(`Error saving ${key}:`, error);
   }
 };
 
-// ============ CONSOLIDATED SYNC QUEUE SYSTEM ============
-// NOTE: We removed the old separate queues and now use ONLY the local failsafe storage
-// This eliminates confusion and ensures clock out syncs check the correct storage
-
-interface SyncQueueItem {
-  type: 'survey' | 'timeEntry' | 'appointment';
-  data: any;
-  timestamp: string;
-  retryCount?: number;
-}
-
-// DEPRECATED - Kept for backward compatibility but not used
-const SYNC_QUEUE_KEY = 'sync_queue_deprecated';
-
-export const addToSyncQueue = async (item: Omit<SyncQueueItem, 'timestamp'>): Promise<void> => {
-  // NO-OP - Surveys are now saved directly to KEYS.LOCAL_SURVEYS via addSurvey()
-  // This function is kept for backward compatibility but does nothing
-  console.log('ℹ️ addToSyncQueue is deprecated - data is auto-saved to failsafe storage');
+/**
+ * Encrypt local records that older versions stored as plaintext (runs at startup).
+ * Keys written through saveData by other screens are encrypted on their next write
+ */
+export const encryptLocalData = async (): Promise<void> => {
+  await EncryptionService.migratePlaintextItems([...Object.values(KEYS), SYNC_LOGS_KEY]);
+  await encryptStoredCurrentUser();
 };
 
-export const getSyncQueue = async (): Promise<SyncQueueItem[]> => {
-  // Return the REAL local surveys that need syncing
-  const localSurveys = await getFromLocalStorage<Survey[]>(KEYS.LOCAL_SURVEYS) || [];
-  const localEntries = await getFromLocalStorage<TimeEntry[]>(KEYS.LOCAL_TIME_ENTRIES) || [];
-  
-  const queue: SyncQueueItem[] = [];
-  
-  // Add surveys to queue
-  localSurveys.forEach(survey => {
-    queue.push({
-      type: 'survey',
-      data: survey,
-      timestamp: survey.timestamp,
-      retryCount: 0,
-    });
-  });
-  
-  // Add time entries to queue
-  localEntries.forEach(entry => {
-    queue.push({
-      type: 'timeEntry',
-      data: entry,
-      timestamp: entry.clockIn,
-      retryCount: 0,
-    });
-  });
-  
-  console.log(`📊 Sync queue status: ${localSurveys.length} surveys, ${localEntries.length} time entries`);
-  
-  return queue;
+/**
+ * Erase all local data and the device storage key when the device is unenrolled.
+ * Anything still in the outbox is lost - callers should warn first
+ */
+export const wipeDevice = async (): Promise<void> => {
+  await LogService.clearLogs();
+  await EncryptionService.wipeDeviceData();
+  OutboxService.resetOutboxCache();
 };
 
-export const clearSyncQueue = async (): Promise<void> => {
-  // Clear both local storages after successful sync
-  await saveToLocalStorage(KEYS.LOCAL_SURVEYS, []);
-  await saveToLocalStorage(KEYS.LOCAL_TIME_ENTRIES, []);
-  console.log('✅ Sync queue cleared');
-};
+// ============ OUTBOX: LOCAL COPIES + MIGRATION ============
+// Pending writes live in the outbox (services/outboxService.ts). KEYS.LOCAL_SURVEYS and
+// KEYS.LOCAL_TIME_ENTRIES only hold the local copies shown in the UI until their upload lands
 
 const removeFromLocalSurveys = async (surveyId: string): Promise<void> => {
   try {
@@ -898,111 +1149,80 @@ const removeFromLocalSurveys = async (surveyId: string): Promise<void> => {
   }
 };
 
+const enqueueSurveyUpload = (survey: Survey) =>
+  OutboxService.enqueueOutboxItem({
+    type: 'survey',
+    idempotencyKey: `survey:${survey.id}`,
+    entityId: survey.id,
+    label: survey.employeeAlias ? `${survey.category} by ${survey.employeeAlias}` : survey.category,
+    payload: { survey },
+  });
+
+/**
+ * Queue local data written before the outbox existed: surveys/clock-ins without an outbox item
+ * and time clock events from the old event log. Safe to run on every sync
+ */
+export const migrateLegacySyncData = async (): Promise<void> => {
+  try {
+    const queuedKeys = new Set((await OutboxService.getOutboxItems()).map(i => i.idempotencyKey));
+
+    const localSurveys = await getFromLocalStorage<Survey[]>(KEYS.LOCAL_SURVEYS) || [];
+    for (const survey of localSurveys.filter(s => !queuedKeys.has(`survey:${s.id}`))) {
+      await enqueueSurveyUpload(survey);
+    }
+
+    const legacyEvents = await getFromLocalStorage<(TimeClockEvent & { seq?: number })[]>(KEYS.TIME_CLOCK_EVENTS) || [];
+    for (const event of legacyEvents.sort((a, b) => (a.seq || 0) - (b.seq || 0))) {
+      const previous = (await OutboxService.getOutboxItems('time_clock')).filter(i => i.entityId === event.timeEntryId);
+      await OutboxService.enqueueOutboxItem({
+        type: 'time_clock',
+        idempotencyKey: `time_clock:${event.id}`,
+        entityId: event.timeEntryId,
+        dependsOn: previous.length > 0 ? [previous[previous.length - 1].idempotencyKey] : undefined,
+        label: event.type.replace('_', ' '),
+        payload: { id: event.id, type: event.type, timeEntryId: event.timeEntryId, employeeId: event.employeeId, occurredAt: event.occurredAt, isActive: event.isActive },
+      });
+    }
+    if (legacyEvents.length > 0) {
+      await AsyncStorage.removeItem(KEYS.TIME_CLOCK_EVENTS);
+    }
+
+    // Entries that already have a real ID were synced before events existed
+    const localEntries = await withTimeClockState(state => {
+      state.localEntries = state.localEntries.filter(e => e.id.startsWith('temp_'));
+      return state.localEntries;
+    });
+    const clockIns = new Set((await getTimeClockEvents()).filter(e => e.type === 'clock_in').map(e => e.timeEntryId));
+    for (const entry of localEntries.filter(e => !clockIns.has(e.id))) {
+      await recordTimeClockEvent(entry, 'clock_in', entry.clockIn);
+    }
+
+    // temp_ -> server id mappings are only needed while queued events still reference the temp_ id
+    const referenced = new Set((await getTimeClockEvents()).map(e => e.timeEntryId));
+    await withTimeClockState(state => {
+      state.idMap = Object.fromEntries(Object.entries(state.idMap).filter(([tempId]) => referenced.has(tempId)));
+    });
+  } catch (error) {
+    console.error('Error migrating legacy sync data:', error);
+  }
+};
+
 // ============ RECOVERY: SYNC LOCAL DATA TO CLOUD ============
 
 export const syncLocalDataToCloud = async (): Promise<{ surveySynced: number; surveyFailed: number; timeSynced: number; timeFailed: number }> => {
   console.log('🔄 Starting comprehensive local data sync...');
   
-  const localSurveys = await getFromLocalStorage<Survey[]>(KEYS.LOCAL_SURVEYS) || [];
-  const localTimeEntries = await getFromLocalStorage<TimeEntry[]>(KEYS.LOCAL_TIME_ENTRIES) || [];
-  
-  if (localSurveys.length === 0 && localTimeEntries.length === 0) {
-    console.log('✅ No local data to sync');
-    return { surveySynced: 0, surveyFailed: 0, timeSynced: 0, timeFailed: 0 };
-  }
-  
-  // ============ SYNC SURVEYS ============
-  let surveySynced = 0;
-  let surveyFailed = 0;
-  const remainingSurveys: Survey[] = [];
-  
-  if (localSurveys.length > 0) {
-    console.log(`📤 Syncing ${localSurveys.length} local surveys to cloud...`);
-    
-    for (const survey of localSurveys) {
-      try {
-        const dbSurvey = transformSurveyToDB(survey);
-        
-        const { error } = await supabase
-          .from('surveys')
-          .insert([dbSurvey]);
-        
-        if (error) {
-          console.error(`❌ Survey sync failed ${survey.id}:`, error);
-          remainingSurveys.push(survey);
-          surveyFailed++;
-        } else {
-          console.log(`✅ Survey synced ${survey.id}`);
-          surveySynced++;
-        }
-      } catch (error) {
-        console.error(`❌ Survey sync error ${survey.id}:`, error);
-        remainingSurveys.push(survey);
-        surveyFailed++;
-      }
-    }
-    
-    await saveToLocalStorage(KEYS.LOCAL_SURVEYS, remainingSurveys);
-  }
+  await migrateLegacySyncData();
+  const result = await OutboxService.processOutbox(await getCloudOutboxHandlers());
   
-  // ============ SYNC TIME ENTRIES ============
-  let timeSynced = 0;
-  let timeFailed = 0;
-  const remainingTimeEntries: TimeEntry[] = [];
+  const failedOf = (...types: OutboxItemType[]) =>
+    result.results.filter(r => r.status === 'failed' && types.includes(r.item.type)).length;
+  const surveySynced = result.byType.survey || 0;
+  const timeSynced = (result.byType.time_clock || 0) + (result.byType.time_entry || 0);
+  const surveyFailed = failedOf('survey');
+  const timeFailed = failedOf('time_clock', 'time_entry');
   
-  if (localTimeEntries.length > 0) {
-    console.log(`📤 Syncing ${localTimeEntries.length} local time entries to cloud...`);
-    
-    for (const entry of localTimeEntries) {
-      try {
-        // Skip entries that already have a real ID (already synced)
-        if (!entry.id.startsWith('temp_')) {
-          console.log(`⏭️ Skipping already synced entry ${entry.id}`);
-          timeSynced++;
-          continue;
-        }
-        
-        const { data, error } = await supabase
-          .from('time_entries')
-          .insert([{
-            employee_id: entry.employeeId,
-            clock_in: entry.clockIn,
-            clock_out: entry.clockOut,
-            store: entry.store,
-            store_name: entry.storeName,
-            store_number: entry.storeNumber,
-            store_address: entry.storeAddress,
-            synced_to_adp: entry.syncedToADP,
-            is_active_in_kiosk: entry.isActiveInKiosk,
-            gps_latitude: entry.gpsCoordinates?.latitude,
-            gps_longitude: entry.gpsCoordinates?.longitude,
-            gps_accuracy: entry.gpsCoordinates?.accuracy,
-            photo_uri: entry.photoUri,
-            location_verified: entry.locationVerified,
-            distance_from_store: entry.distanceFromStore,
-          }])
-          .select()
-          .single();
-        
-        if (error) {
-          console.error(`❌ Time entry sync failed ${entry.id}:`, error);
-          remainingTimeEntries.push(entry);
-          timeFailed++;
-        } else {
-          console.log(`✅ Time entry synced ${entry.id}`);
-          timeSynced++;
-        }
-      } catch (error) {
-        console.error(`❌ Time entry sync error ${entry.id}:`, error);
-        remainingTimeEntries.push(entry);
-        timeFailed++;
-      }
-    }
-    
-    await saveToLocalStorage(KEYS.LOCAL_TIME_ENTRIES, remainingTimeEntries);
-  }
-  
-  console.log(`✅ Sync complete: Surveys ${surveySynced}/${localSurveys.length}, Time Entries ${timeSynced}/${localTimeEntries.length}`);
+  console.log(`✅ Sync complete: Surveys ${surveySynced} synced/${surveyFailed} failed, Time Clock ${timeSynced} synced/${timeFailed} failed`);
   
   return { surveySynced, surveyFailed, timeSynced, timeFailed };
 };
@@ -1035,6 +1255,7 @@ interface SyncLog {
   duplicates: number;
   queueSize: number;
   items?: SyncLogItem[]; // Detailed list of what was synced
+  replay?: boolean; // Manual replay from the failed-sync triage console
 }
 
 const SYNC_LOGS_KEY = 'sync_logs';
@@ -1050,27 +1271,6 @@ export const addSyncLog = async (log: SyncLog): Promise<void> => {
 
 export const getSyncLogs = () => getData<SyncLog[]>(SYNC_LOGS_KEY);
 
-// ============ FAILED SYNCS ============
-
-interface FailedSyncItem extends SyncQueueItem {
-  failedAt: string;
-  error: string;
-}
-
-const FAILED_SYNCS_KEY = 'failed_syncs';
-
-export const addFailedSyncItem = async (item: FailedSyncItem): Promise<void> => {
-  const failed = (await getData<FailedSyncItem[]>(FAILED_SYNCS_KEY)) || [];
-  failed.unshift(item);
-  if (failed.length > 50) {
-    failed.splice(50);
-  }
-  await saveData(FAILED_SYNCS_KEY, failed);
-};
-
-export const getFailedSyncItems = () => getData<FailedSyncItem[]>(FAILED_SYNCS_KEY);
-export const clearFailedSyncItems = () => saveData(FAILED_SYNCS_KEY, []);
-
 // ============ DEMO DATA INITIALIZATION ============
 
 export const initializeDemoData = async (): Promise<void> => {
@@ -1183,6 +1383,8 @@ function transformEmployeeFromDB(data: any): Employee {
     profilePictureUri: data.profile_picture_uri,
     isTeamLead: data.is_team_lead,
     teamLeadId: data.team_lead_id,
+    version: data.version,
+    updatedAt: data.updated_at,
   };
 }
 
@@ -1229,6 +1431,8 @@ function transformTimeEntryFromDB(data: any): TimeEntry {
     photoUri: data.photo_uri,
     locationVerified: data.location_verified,
     distanceFromStore: data.distance_from_store,
+    breaks: data.breaks || undefined,
+    correctionHistory: data.correction_history || undefined,
   };
 }
 
@@ -1263,6 +1467,14 @@ function transformSurveyFromDB(data: any): Survey {
     salesforceId: data.salesforce_id,
     salesforceVerified: data.salesforce_verified,
     salesforceVerifiedAt: data.salesforce_verified_at,
+    surveyDefinitionId: data.survey_definition_id,
+    surveyDefinitionVersion: data.survey_definition_version,
+    experimentAssignments: data.experiment_assignments || undefined,
+    consent: data.consent || undefined,
+    redactedAt: data.redacted_at || undefined,
+    kioskDuplicateCheck: data.kiosk_duplicate_check || undefined,
+    version: data.version,
+    updatedAt: data.updated_at,
   };
 }
 
@@ -1297,6 +1509,12 @@ function transformSurveyToDB(survey: Survey): any {
     salesforce_id: survey.salesforceId,
     salesforce_verified: survey.salesforceVerified,
     salesforce_verified_at: survey.salesforceVerifiedAt,
+    survey_definition_id: survey.surveyDefinitionId,
+    survey_definition_version: survey.surveyDefinitionVersion,
+    experiment_assignments: survey.experimentAssignments || null,
+    consent: survey.consent || null,
+    redacted_at: survey.redactedAt || null,
+    kiosk_duplicate_check: survey.kioskDuplicateCheck || null,
   };
 }
 
@@ -1309,6 +1527,8 @@ function transformScheduleFromDB(data: any): Schedule {
     endTime: data.end_time,
     store: data.store,
     status: data.status,
+    version: data.version,
+    updatedAt: data.updated_at,
   };
 }
 
@@ -1333,6 +1553,8 @@ function transformTimeOffRequestFromDB(data: any): TimeOffRequest {
     reason: data.reason,
     status: data.status,
     requestedAt: data.requested_at,
+    version: data.version,
+    updatedAt: data.updated_at,
   };
 }
 
@@ -1359,6 +1581,8 @@ function transformMessageFromDB(data: any): Message {
     readBy: data.read_by || [],
     reactions: data.reactions || {},
     isGroupMessage: data.is_group_message,
+    version: data.version,
+    updatedAt: data.updated_at,
   };
 }
 
@@ -1380,12 +1604,39 @@ function transformMessageToDB(message: Message): any {
   };
 }
 
-function transformCompensationSettingsFromDB(data: any): CompensationSettings {
+function transformAlertFromDB(data: any): Alert {
+  return {
+    id: data.id,
+    senderId: data.sender_id,
+    senderName: data.sender_name,
+    title: data.title,
+    message: data.message,
+    priority: data.priority,
+    recipientIds: data.recipient_ids || [],
+    isGroupAlert: data.is_group_alert,
+    timestamp: data.created_at,
+    readBy: data.read_by || [],
+    dismissedBy: data.dismissed_by || [],
+    expiresAt: data.expires_at || undefined,
+    version: data.version,
+    updatedAt: data.updated_at,
+  };
+}
+
+function transformAlertToDB(alert: Alert): any {
   return {
-    baseHourlyRate: data.base_hourly_rate,
-    surveyInstallBonus: data.survey_install_bonus,
-    appointmentInstallBonus: data.appointment_install_bonus,
-    quota: data.quota,
+    id: alert.id,
+    sender_id: alert.senderId,
+    sender_name: alert.senderName,
+    title: alert.title,
+    message: alert.message,
+    priority: alert.priority,
+    recipient_ids: alert.recipientIds,
+    is_group_alert: alert.isGroupAlert,
+    created_at: alert.timestamp,
+    read_by: alert.readBy,
+    dismissed_by: alert.dismissedBy,
+    expires_at: alert.expiresAt || null,
   };
 }
 
@@ -0,0 +1,354 @@
+// Survey definition service - versioned questionnaires from Supabase with a local cache
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getSupabaseClient } from '@/template';
+import { Store } from '@/constants/theme';
+import {
+  SurveyDefinition,
+  SurveyQuestion,
+  QuestionType,
+  DEFAULT_SURVEY_DEFINITION,
+} from '@/constants/surveyQuestions';
+import { getFieldMappings } from '@/services/salesforceFieldsService';
+
+const supabase = getSupabaseClient();
+
+const KEYS = {
+  DEFINITIONS_CACHE: '@rainsoft/surveyDefinitions/cache',
+  LAST_REFRESH: '@rainsoft/surveyDefinitions/lastRefresh',
+};
+
+const REFRESH_INTERVAL = 15 * 60 * 1000; // 15 minutes
+
+const VALID_QUESTION_TYPES: QuestionType[] = [
+  'yesno', 'choice', 'text', 'phone', 'zip', 'signature',
+  'datetime', 'address', 'contact', 'number', 'multiselect',
+];
+
+export interface SurveyContext {
+  store: Store;
+  storeNumber?: string;
+  state?: string;
+}
+
+// ============ VALIDATION ============
+
+/**
+ * Check a definition (raw JSON from the database or a builder draft) for problems
+ * that would break the kiosk. Returns an empty list when the definition is usable
+ */
+export const validateSurveyDefinition = (raw: any): string[] => {
+  if (!raw || typeof raw !== 'object') return ['Definition is empty'];
+
+  const errors: string[] = [];
+  const questions: any[] = Array.isArray(raw.questions) ? raw.questions : [];
+
+  if (!raw.id) errors.push('Missing definition id');
+  if (typeof raw.version !== 'number') errors.push('Missing version number');
+  if (questions.length === 0) {
+    errors.push('Definition has no questions');
+    return errors;
+  }
+
+  const seenIds = new Set<string>();
+  for (const question of questions) {
+    if (!question?.id || !question?.question || !VALID_QUESTION_TYPES.includes(question.type)) {
+      errors.push(`Invalid question ${question?.id || '(no id)'}: id, text and a valid type are required`);
+      continue;
+    }
+    if (seenIds.has(question.id)) {
+      errors.push(`Duplicate question id ${question.id}`);
+    }
+    if ((question.type === 'choice' || question.type === 'multiselect') && (!question.options || question.options.length === 0)) {
+      errors.push(`${question.id} has no options`);
+    }
+    seenIds.add(question.id);
+  }
+
+  // Every definition must end with a signature so the consent step is never skipped
+  if (questions[questions.length - 1].type !== 'signature') {
+    errors.push('Last question must be a signature');
+  }
+
+  return errors;
+};
+
+/**
+ * Validate raw JSON from the database before it is allowed to drive the kiosk
+ * Returns null (and logs why) if the definition is unusable
+ */
+export const parseSurveyDefinition = (raw: any): SurveyDefinition | null => {
+  const errors = validateSurveyDefinition(raw);
+  if (errors.length > 0) {
+    console.warn(`⚠️ Survey definition ${raw?.id || 'unknown'} v${raw?.version ?? '?'} rejected: ${errors.join('; ')}`);
+    return null;
+  }
+
+  return {
+    id: raw.id,
+    version: raw.version,
+    name: raw.name || raw.id,
+    description: raw.description || undefined,
+    targeting: raw.targeting || undefined,
+    questions: raw.questions as SurveyQuestion[],
+    publishedAt: raw.published_at || raw.publishedAt || undefined,
+  };
+};
+
+// ============ CACHE ============
+
+const getCachedDefinitions = async (): Promise<SurveyDefinition[]> => {
+  try {
+    const data = await AsyncStorage.getItem(KEYS.DEFINITIONS_CACHE);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    console.error('Error reading survey definition cache:', error);
+    return [];
+  }
+};
+
+const saveCachedDefinitions = async (definitions: SurveyDefinition[]): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(KEYS.DEFINITIONS_CACHE, JSON.stringify(definitions));
+    await AsyncStorage.setItem(KEYS.LAST_REFRESH, new Date().toISOString());
+  } catch (error) {
+    console.error('Error saving survey definition cache:', error);
+  }
+};
+
+// ============ CLOUD ============
+
+/**
+ * Fetch all active published definitions and replace the local cache
+ * Keeps the existing cache if the cloud is unreachable
+ */
+export const refreshSurveyDefinitions = async (): Promise<SurveyDefinition[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('survey_definitions')
+      .select('*')
+      .eq('is_active', true)
+      .order('version', { ascending: false });
+
+    if (error) {
+      console.warn('⚠️ Could not refresh survey definitions (using cache):', error.message);
+      return await getCachedDefinitions();
+    }
+
+    const definitions = (data || [])
+      .map(parseSurveyDefinition)
+      .filter((definition: SurveyDefinition | null): definition is SurveyDefinition => definition !== null);
+
+    await saveCachedDefinitions(definitions);
+    console.log(`✅ Survey definitions refreshed: ${definitions.length} active`);
+    return definitions;
+  } catch (error) {
+    console.warn('⚠️ Survey definition refresh error (using cache):', error);
+    return await getCachedDefinitions();
+  }
+};
+
+const shouldRefresh = async (): Promise<boolean> => {
+  try {
+    const lastRefresh = await AsyncStorage.getItem(KEYS.LAST_REFRESH);
+    if (!lastRefresh) return true;
+    return Date.now() - new Date(lastRefresh).getTime() > REFRESH_INTERVAL;
+  } catch {
+    return true;
+  }
+};
+
+/**
+ * Look up a definition by id from the local cache (used when an experiment swaps the question set)
+ */
+export const getSurveyDefinitionById = async (id: string): Promise<SurveyDefinition | null> => {
+  const definitions = await getCachedDefinitions();
+  const match = definitions.find(definition => definition.id === id);
+  if (match) return match;
+  return id === DEFAULT_SURVEY_DEFINITION.id ? DEFAULT_SURVEY_DEFINITION : null;
+};
+
+// ============ SELECTION ============
+
+/**
+ * Score how specifically a definition targets this store (-1 = not applicable)
+ */
+const getTargetingScore = (definition: SurveyDefinition, context: SurveyContext): number => {
+  const targeting = definition.targeting;
+  if (!targeting) return 0;
+
+  let score = 0;
+
+  if (targeting.storeNumbers && targeting.storeNumbers.length > 0) {
+    if (!context.storeNumber || !targeting.storeNumbers.includes(context.storeNumber)) return -1;
+    score += 4;
+  }
+  if (targeting.states && targeting.states.length > 0) {
+    const state = context.state?.toUpperCase();
+    if (!state || !targeting.states.map(s => s.toUpperCase()).includes(state)) return -1;
+    score += 2;
+  }
+  if (targeting.stores && targeting.stores.length > 0) {
+    if (!targeting.stores.includes(context.store)) return -1;
+    score += 1;
+  }
+
+  return score;
+};
+
+export const selectSurveyDefinition = (
+  definitions: SurveyDefinition[],
+  context: SurveyContext
+): SurveyDefinition => {
+  let best: SurveyDefinition | null = null;
+  let bestScore = -1;
+
+  for (const definition of definitions) {
+    const score = getTargetingScore(definition, context);
+    if (score < 0) continue;
+    // Most specific targeting wins; newest version breaks ties
+    if (score > bestScore || (score === bestScore && best && definition.version > best.version)) {
+      best = definition;
+      bestScore = score;
+    }
+  }
+
+  return best || DEFAULT_SURVEY_DEFINITION;
+};
+
+/**
+ * Resolve the questionnaire for the current store
+ * Offline-safe: falls back to cached definitions, then the built-in default
+ */
+export const getActiveSurveyDefinition = async (context: SurveyContext): Promise<SurveyDefinition> => {
+  const definitions = (await shouldRefresh())
+    ? await refreshSurveyDefinitions()
+    : await getCachedDefinitions();
+
+  const definition = selectSurveyDefinition(definitions, context);
+  console.log(`📋 Using survey definition ${definition.id} v${definition.version}`);
+  return definition;
+};
+
+// ============ PUBLISHING ============
+
+export interface MappedQuestionChange {
+  questionId: string;
+  renamedTo?: string; // Undefined when the question was removed
+  salesforceFields: string[];
+}
+
+/**
+ * Find Salesforce-mapped questions that a new draft removes or renames
+ * Mapping paths like "contact_info.phone" belong to question "contact_info";
+ * "_store"-style metadata paths are not questions and are ignored
+ * @param renames - Original question id → id in the draft, for questions whose id was edited
+ */
+export const getMappedQuestionChanges = async (
+  previous: SurveyDefinition,
+  draftQuestions: SurveyQuestion[],
+  renames: Record<string, string> = {}
+): Promise<MappedQuestionChange[]> => {
+  const mappings = await getFieldMappings();
+  const draftIds = new Set(draftQuestions.map(q => q.id));
+  const changes: MappedQuestionChange[] = [];
+
+  for (const question of previous.questions) {
+    if (draftIds.has(question.id)) continue;
+
+    const salesforceFields = mappings
+      .filter(m => !m.surveyField.startsWith('_') && m.surveyField.split('.')[0] === question.id)
+      .map(m => m.salesforceField);
+    if (salesforceFields.length === 0) continue;
+
+    const renamedTo = renames[question.id];
+    changes.push({
+      questionId: question.id,
+      renamedTo: renamedTo && draftIds.has(renamedTo) ? renamedTo : undefined,
+      salesforceFields,
+    });
+  }
+
+  return changes;
+};
+
+/**
+ * Publish a draft as the next version of its definition id
+ * Older versions are deactivated (kept for history); kiosks pick up the new version on their next refresh
+ */
+export const publishSurveyDefinition = async (
+  draft: Omit<SurveyDefinition, 'version' | 'publishedAt'>,
+  publishedBy?: string
+): Promise<{ success: boolean; definition?: SurveyDefinition; error?: string }> => {
+  try {
+    const { data: latest, error: versionError } = await supabase
+      .from('survey_definitions')
+      .select('version')
+      .eq('id', draft.id)
+      .order('version', { ascending: false })
+      .limit(1);
+
+    if (versionError) {
+      return { success: false, error: versionError.message };
+    }
+
+    // The built-in default counts as v1 so the first published override is v2
+    const currentVersion = latest?.[0]?.version
+      ?? (draft.id === DEFAULT_SURVEY_DEFINITION.id ? DEFAULT_SURVEY_DEFINITION.version : 0);
+
+    const definition: SurveyDefinition = {
+      ...draft,
+      version: currentVersion + 1,
+      publishedAt: new Date().toISOString(),
+    };
+
+    const errors = validateSurveyDefinition(definition);
+    if (errors.length > 0) {
+      return { success: false, error: errors.join('\n') };
+    }
+
+    const { error: insertError } = await supabase
+      .from('survey_definitions')
+      .insert({
+        id: definition.id,
+        version: definition.version,
+        name: definition.name,
+        description: definition.description || null,
+        targeting: definition.targeting || null,
+        questions: definition.questions,
+        published_at: definition.publishedAt,
+        published_by: publishedBy || null,
+        is_active: true,
+      });
+
+    if (insertError) {
+      return { success: false, error: insertError.message };
+    }
+
+    const { error: deactivateError } = await supabase
+      .from('survey_definitions')
+      .update({ is_active: false })
+      .eq('id', definition.id)
+      .lt('version', definition.version);
+
+    if (deactivateError) {
+      // The new version is live; older rows stay active only until the next successful publish
+      console.warn('⚠️ Could not deactivate older survey definition versions:', deactivateError.message);
+    }
+
+    console.log(`✅ Published survey definition ${definition.id} v${definition.version}`);
+    await refreshSurveyDefinitions();
+    return { success: true, definition };
+  } catch (error) {
+    console.error('Error publishing survey definition:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+/**
+ * Extract the two-letter state from a verified store address ("123 Main St, City, FL 32301")
+ */
+export const getStateFromStoreAddress = (storeAddress?: string): string | undefined => {
+  if (!storeAddress) return undefined;
+  const match = storeAddress.match(/,\s*([A-Z]{2})\s*\d{0,5}\s*$/);
+  return match ? match[1] : undefined;
+};
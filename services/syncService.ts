@@ -1,9 +1,14 @@
 
 // Sync service for Salesforce and Zapier integration
 import NetInfo from '@react-native-community/netinfo';
-import { Survey, TimeEntry, Appointment } from '@/types';
+import { Survey, TimeEntry, Appointment, OutboxItem, OutboxItemType, PayrollReconciliation } from '@/types';
 import * as StorageService from './storageService';
+import * as OutboxService from './outboxService';
+import { migrateCriticalSyncQueue } from './failsafeStorage';
+import { isDeviceEnrolled } from './deviceIdentity';
 import { lookupZipCode } from './zipLookupService';
+import { formatExperimentAssignments } from './experimentService';
+import { formatNationalPhone, toE164 } from '@/utils/phone';
 
 // ============================================================
 // CONFIGURATION - UPDATE WITH YOUR CREDENTIALS
@@ -72,20 +77,6 @@ interface SalesforceAuthResponse {
 
 // Authentication is now handled by Edge Function - no client-side auth needed
 
-// Format phone number to Salesforce format (999) 999-9999
-const formatPhoneNumber = (phone: string): string => {
-  if (!phone) return '';
-  
-  // Remove all non-digits
-  const digits = phone.replace(/\D/g, '');
-  
-  // If not 10 digits, return as-is
-  if (digits.length !== 10) return phone;
-  
-  // Format as (999) 999-9999
-  return `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6)}`;
-};
-
 // Get value from nested object path
 const getNestedValue = (obj: any, path: string): any => {
   const keys = path.split('.');
@@ -113,12 +104,7 @@ const mapSurveyToSalesforceFields = async (survey: Survey) => {
       console.log(`✅ Zip lookup successful: ${lookupResult.city}, ${lookupResult.stateAbbr}`);
       
       // Save updated survey data
-      const surveys = await StorageService.getSurveys() || [];
-      const surveyIndex = surveys.findIndex(s => s.id === survey.id);
-      if (surveyIndex !== -1) {
-        surveys[surveyIndex].answers = answers;
-        await StorageService.saveSurveys(surveys);
-      }
+      await StorageService.updateSurvey(survey.id, { answers }).catch(console.error);
     } else {
       console.warn('⚠️ Zip lookup failed during sync - proceeding with zip code only');
     }
@@ -144,7 +130,7 @@ const mapSurveyToSalesforceFields = async (survey: Survey) => {
     return {
       FirstName: answers.contact_info?.firstName || '',
       LastName: answers.contact_info?.lastName || '',
-      Phone: formatPhoneNumber(answers.contact_info?.phone || ''),
+      Phone: formatNationalPhone(answers.contact_info?.phone || ''),
       Street: answers.contact_info?.address || '',
       City: answers.contact_info?.city || '',
       State: getStateAbbreviation(answers.contact_info?.state || ''),
@@ -164,6 +150,11 @@ const mapSurveyToSalesforceFields = async (survey: Survey) => {
       Survey_Employee_Alias__c: survey.employeeAlias || '',
       Survey_ID__c: survey.id,
       Has_Signature__c: Boolean(survey.signature),
+      // TCPA opt-ins - false when the survey never reached the consent/signature step
+      Call_Opt_In__c: survey.consent?.callConsent === true,
+      SMS_Opt_In__c: survey.consent?.smsConsent === true,
+      Consent_Version__c: survey.consent?.version || '',
+      Consent_Timestamp__c: survey.consent?.consentedAt || null,
       RecordTypeId: recordTypeId,
       LeadSource: leadSource,
       gift__c: giftValue,
@@ -177,8 +168,10 @@ const mapSurveyToSalesforceFields = async (survey: Survey) => {
     gift__c: giftValue,
   };
   
+  const mappedFields = new Set<string>();
   for (const mapping of customMappings) {
     const { surveyField, salesforceField, fieldType } = mapping;
+    mappedFields.add(surveyField);
     
     if (surveyField.startsWith('_')) {
       const metadataKey = surveyField.substring(1);
@@ -195,6 +188,16 @@ const mapSurveyToSalesforceFields = async (survey: Survey) => {
         salesforceData[salesforceField] = survey.id;
       } else if (metadataKey === 'hasSignature') {
         salesforceData[salesforceField] = Boolean(survey.signature);
+      } else if (metadataKey === 'experimentVariant') {
+        salesforceData[salesforceField] = formatExperimentAssignments(survey.experimentAssignments);
+      } else if (metadataKey === 'callOptIn') {
+        salesforceData[salesforceField] = survey.consent?.callConsent === true;
+      } else if (metadataKey === 'smsOptIn') {
+        salesforceData[salesforceField] = survey.consent?.smsConsent === true;
+      } else if (metadataKey === 'consentVersion') {
+        salesforceData[salesforceField] = survey.consent?.version || '';
+      } else if (metadataKey === 'consentTimestamp') {
+        salesforceData[salesforceField] = survey.consent?.consentedAt || null;
       }
     } else {
       // Map survey answer fields
@@ -212,9 +215,14 @@ const mapSurveyToSalesforceFields = async (survey: Survey) => {
         value = getStateAbbreviation(value);
       }
       
-      // Special handling for phone field - format to Salesforce format
+      // Special handling for phone field - format to Salesforce format (invalid numbers are left blank)
       if (surveyField === 'contact_info.phone' || surveyField === 'phone') {
-        value = formatPhoneNumber(value);
+        value = formatNationalPhone(value || '');
+      }
+
+      // Surveys from before phone normalization only have the raw number
+      if (surveyField === 'contact_info.phoneE164') {
+        value = toE164(answers.contact_info?.phone || '') || '';
       }
       
       if (fieldType === 'boolean') {
@@ -227,6 +235,19 @@ const mapSurveyToSalesforceFields = async (survey: Survey) => {
     }
   }
   
+  // TCPA opt-ins always travel with the lead - any the mapping leaves out go to their default fields
+  const consentFields: [string, string, unknown][] = [
+    ['_callOptIn', 'Call_Opt_In__c', survey.consent?.callConsent === true],
+    ['_smsOptIn', 'SMS_Opt_In__c', survey.consent?.smsConsent === true],
+    ['_consentVersion', 'Consent_Version__c', survey.consent?.version || ''],
+    ['_consentTimestamp', 'Consent_Timestamp__c', survey.consent?.consentedAt || null],
+  ];
+  for (const [surveyField, defaultField, value] of consentFields) {
+    if (!mappedFields.has(surveyField)) {
+      salesforceData[defaultField] = value;
+    }
+  }
+  
   return salesforceData;
 };
 
@@ -315,8 +336,8 @@ export const syncToSalesforce = async (
   try {
     console.log('🔄 Starting Salesforce sync for survey:', survey.id);
     
-    // Check for duplicates if phone number exists
-    const phone = formatPhoneNumber(survey.answers.contact_info?.phone || '');
+    // Check for duplicates if phone number is valid - the edge function matches any stored formatting
+    const phone = toE164(survey.answers.contact_info?.phone || '');
     if (phone) {
       const duplicateCheck = await checkSalesforceDuplicate(phone);
       if (duplicateCheck.isDuplicate) {
@@ -512,18 +533,9 @@ export const sendToZapier = async (data: {
 };
 
 // ============================================================
-// SYNC QUEUE PROCESSING
+// OUTBOX DELIVERY (SALESFORCE + ZAPIER)
 // ============================================================
 
-interface SyncQueueItem {
-  type: 'survey' | 'appointment';
-  data: any;
-  timestamp: string;
-  retryCount?: number;
-}
-
-const MAX_RETRIES = 3;
-
 interface SyncLogItem {
   type: 'survey' | 'appointment';
   id: string;
@@ -533,261 +545,258 @@ interface SyncLogItem {
   status: 'success' | 'failed' | 'duplicate';
 }
 
-export const processSyncQueue = async (
-  queue: SyncQueueItem[]
-): Promise<{ synced: number; failed: number; duplicates: number }> => {
-  const online = await isOnline();
-  if (!online) {
-    console.log('📴 Offline - skipping sync (data remains safely in queue)');
-    return { synced: 0, failed: 0, duplicates: 0 };
+const getSurveyForDelivery = async (item: OutboxItem): Promise<Survey> => {
+  const survey = await StorageService.getSurveyById(item.entityId);
+  if (!survey) {
+    throw new Error(`Survey ${item.entityId} not found`);
   }
-  
-  console.log(`🔄 Processing ${queue.length} items in sync queue...`);
-  
-  let syncedCount = 0;
-  let failedCount = 0;
-  let duplicateCount = 0;
-  const itemsToKeep: SyncQueueItem[] = [];
-  const syncedItems: SyncLogItem[] = [];
-  
-  for (const item of queue) {
-    try {
-      const retryCount = item.retryCount || 0;
-      console.log(`🔄 Syncing ${item.type} (attempt ${retryCount + 1}):`, item.data.id || item.data.survey?.id);
-      
-      if (item.type === 'survey') {
-        const survey = item.data as Survey;
-        
-        // Only sync surveys from homeowners with phone numbers
-        if (survey.category === 'renter') {
-          console.log('⏭️ Skipping renter survey (not synced to Salesforce)');
-          syncedCount++;
-          continue;
-        }
-        
-        // Check if survey has required contact information
-        const hasPhone = survey.answers?.contact_info?.phone;
-        if (!hasPhone) {
-          console.log('⏭️ Skipping survey without phone number');
-          syncedCount++;
-          continue;
-        }
-        
-        try {
-          const result = await syncToSalesforce(survey);
-          
-          if (result.isDuplicate) {
-            console.log('⚠️ Duplicate detected, adding to review queue:', survey.id);
-            duplicateCount++;
-            
-            // Mark survey as duplicate in storage with detailed info
-            const surveys = await StorageService.getSurveys() || [];
-            const surveyIndex = surveys.findIndex(s => s.id === survey.id);
-            if (surveyIndex !== -1) {
-              surveys[surveyIndex].isDuplicate = true;
-              surveys[surveyIndex].syncedToSalesforce = true;
-              surveys[surveyIndex].syncError = undefined;
-              surveys[surveyIndex].duplicateInfo = {
-                recordType: result.duplicateInfo!.recordType,
-                salesforceId: result.duplicateInfo!.salesforceId,
-                salesforceUrl: `${SALESFORCE_CONFIG.instanceUrl}/lightning/r/${result.duplicateInfo!.recordType}/${result.duplicateInfo!.salesforceId}/view`,
-                matchedPhone: survey.answers.contact_info?.phone || '',
-                recordName: result.duplicateInfo!.recordName,
-                recordEmail: result.duplicateInfo!.recordEmail,
-              };
-              await StorageService.saveSurveys(surveys);
-            }
-            
-            // Add to detailed sync log
-            syncedItems.push({
-              type: 'survey',
-              id: survey.id,
-              name: `${survey.answers?.contact_info?.firstName || ''} ${survey.answers?.contact_info?.lastName || 'Unknown'}`.trim(),
-              salesforceId: result.duplicateInfo!.salesforceId,
-              status: 'duplicate',
-            });
-          } else {
-            // Mark as synced and store Salesforce ID
-            const surveys = await StorageService.getSurveys() || [];
-            const surveyIndex = surveys.findIndex(s => s.id === survey.id);
-            if (surveyIndex !== -1) {
-              surveys[surveyIndex].syncedToSalesforce = true;
-              surveys[surveyIndex].salesforceId = result.salesforceId; // Store the Salesforce record ID
-              surveys[surveyIndex].syncError = undefined; // Clear any previous errors
-              await StorageService.saveSurveys(surveys);
-            }
-            
-            // Add to detailed sync log
-            syncedItems.push({
-              type: 'survey',
-              id: survey.id,
-              name: `${survey.answers?.contact_info?.firstName || ''} ${survey.answers?.contact_info?.lastName || 'Unknown'}`.trim(),
-              salesforceId: result.salesforceId,
-              status: 'success',
-            });
-          }
-          
-          console.log('✅ Survey synced to Salesforce');
-          syncedCount++;
-        } catch (error) {
-          // Don't catch the error here - let it propagate to the outer catch block
-          throw error;
-        }
-      } else if (item.type === 'appointment') {
-        const { survey, appointment } = item.data;
-        console.log('📍 [APPOINTMENT SYNC] Processing appointment for survey:', survey.id);
-        console.log('📍 [APPOINTMENT SYNC] Appointment details:', appointment);
-        
-        await sendToZapier({ survey, appointment });
-        
-        // Mark as synced
-        const surveys = await StorageService.getSurveys() || [];
-        const surveyIndex = surveys.findIndex(s => s.id === survey.id);
-        if (surveyIndex !== -1) {
-          surveys[surveyIndex].syncedToZapier = true;
-          surveys[surveyIndex].syncError = undefined; // Clear any previous errors
-          await StorageService.saveSurveys(surveys);
-        }
-        
-        // Add to detailed sync log
-        syncedItems.push({
-          type: 'appointment',
-          id: survey.id,
-          name: `${survey.answers?.contact_info?.firstName || ''} ${survey.answers?.contact_info?.lastName || 'Unknown'}`.trim() + ` - ${appointment.date} ${appointment.time}`,
-          status: 'success',
-        });
-        
-        console.log('✅ Appointment sent to Zapier');
-        syncedCount++;
-      }
-    } catch (error) {
-      console.error(`❌ Sync failed for ${item.type}:`, item.data.id || item.data.survey?.id, error);
-      
-      const retryCount = (item.retryCount || 0) + 1;
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      
-      // Save error to survey/appointment for UI display
-      if (item.type === 'survey' || item.type === 'appointment') {
-        const survey = item.type === 'survey' ? item.data : item.data.survey;
-        const surveys = await StorageService.getSurveys() || [];
-        const surveyIndex = surveys.findIndex(s => s.id === survey.id);
-        if (surveyIndex !== -1) {
-          surveys[surveyIndex].syncError = errorMessage;
-          surveys[surveyIndex].syncedToSalesforce = false;
-          if (item.type === 'appointment') {
-            surveys[surveyIndex].syncedToZapier = false;
-          }
-          await StorageService.saveSurveys(surveys);
-        }
-        
-        // Add to detailed sync log
-        syncedItems.push({
-          type: item.type as 'survey' | 'appointment',
-          id: survey.id,
-          name: `${survey.answers?.contact_info?.firstName || ''} ${survey.answers?.contact_info?.lastName || 'Unknown'}`.trim(),
-          error: errorMessage,
-          status: 'failed',
-        });
-      }
-      
-      if (retryCount < MAX_RETRIES) {
-        // Keep in queue for retry
-        itemsToKeep.push({ ...item, retryCount });
-        console.log(`⏳ Will retry (${retryCount}/${MAX_RETRIES})`);
-      } else {
-        // Max retries reached
-        console.error(`❌ Max retries reached for ${item.type}, removing from queue`);
-        failedCount++;
-        
-        // Save to failed log
-        await StorageService.addFailedSyncItem({
-          ...item,
-          failedAt: new Date().toISOString(),
-          error: errorMessage,
-        });
-      }
+  return survey;
+};
+
+const deliverSalesforceLead: OutboxService.OutboxHandler = async (item) => {
+  const survey = await getSurveyForDelivery(item);
+
+  // Only homeowners with phone numbers go to Salesforce - erased customers never do
+  if (survey.redactedAt || survey.category === 'renter' || !survey.answers?.contact_info?.phone) {
+    return { status: 'skipped' };
+  }
+  if (survey.syncedToSalesforce && !item.payload?.force) {
+    return { status: 'skipped' };
+  }
+
+  try {
+    const result = await syncToSalesforce(survey);
+
+    if (result.isDuplicate) {
+      console.log('⚠️ Duplicate detected, adding to review queue:', survey.id);
+      await StorageService.updateSurveySyncStatus(survey.id, {
+        isDuplicate: true,
+        syncedToSalesforce: true,
+        syncError: undefined,
+        duplicateInfo: {
+          recordType: result.duplicateInfo!.recordType,
+          salesforceId: result.duplicateInfo!.salesforceId,
+          salesforceUrl: `${SALESFORCE_CONFIG.instanceUrl}/lightning/r/${result.duplicateInfo!.recordType}/${result.duplicateInfo!.salesforceId}/view`,
+          matchedPhone: survey.answers.contact_info?.phone || '',
+          recordName: result.duplicateInfo!.recordName,
+          recordEmail: result.duplicateInfo!.recordEmail,
+        },
+      });
+      return { status: 'duplicate', salesforceId: result.duplicateInfo!.salesforceId };
     }
+
+    await StorageService.updateSurveySyncStatus(survey.id, {
+      syncedToSalesforce: true,
+      salesforceId: result.salesforceId,
+      syncError: undefined,
+    });
+    return { status: 'success', salesforceId: result.salesforceId };
+  } catch (error) {
+    // Save error to the survey for UI display
+    await StorageService.updateSurveySyncStatus(survey.id, {
+      syncedToSalesforce: false,
+      syncError: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
   }
-  
-  // Update sync queue with failed items
-  await StorageService.saveData('sync_queue', itemsToKeep);
-  
-  // Save sync stats with detailed items
-  await StorageService.addSyncLog({
-    timestamp: new Date().toISOString(),
-    synced: syncedCount,
-    failed: failedCount,
-    duplicates: duplicateCount,
-    queueSize: itemsToKeep.length,
-    items: syncedItems,
-  });
-  
-  console.log(`✅ Sync complete: ${syncedCount} synced, ${failedCount} failed permanently, ${duplicateCount} duplicates detected`);
-  return { synced: syncedCount, failed: failedCount, duplicates: duplicateCount };
 };
 
-// ============================================================
-// BACKGROUND SYNC
-// ============================================================
+const deliverZapierAppointment: OutboxService.OutboxHandler = async (item) => {
+  const survey = await getSurveyForDelivery(item);
 
-let syncInterval: NodeJS.Timeout | null = null;
+  if (survey.redactedAt || !survey.appointment) {
+    return { status: 'skipped' };
+  }
+  if (survey.syncedToZapier && !item.payload?.force) {
+    return { status: 'skipped' };
+  }
 
-// Start background sync (every 5 minutes)
-export const startBackgroundSync = async () => {
-  if (syncInterval) {
-    console.log('⚠️ Background sync already running');
-    return;
+  try {
+    // Sent from the stored survey so reschedules made while queued go out as-is
+    await sendToZapier({ survey, appointment: survey.appointment });
+    await StorageService.updateSurveySyncStatus(survey.id, { syncedToZapier: true, syncError: undefined });
+    console.log('✅ Appointment sent to Zapier');
+  } catch (error) {
+    await StorageService.updateSurveySyncStatus(survey.id, {
+      syncedToZapier: false,
+      syncError: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
   }
-  
-  console.log('🔄 Starting background sync (5 min intervals)');
-  
-  // Initial sync
-  const queue = await StorageService.getSyncQueue();
-  if (queue && queue.length > 0) {
-    await processSyncQueue(queue);
+};
+
+const getOutboxHandlers = async (): Promise<Partial<Record<OutboxItemType, OutboxService.OutboxHandler>>> => ({
+  ...(await StorageService.getCloudOutboxHandlers()),
+  salesforce_lead: deliverSalesforceLead,
+  zapier_appointment: deliverZapierAppointment,
+});
+
+/**
+ * Queue the Salesforce lead (and Zapier appointment) for a survey - each after the survey upload.
+ * `force` re-sends a survey that was delivered before (manual retry)
+ */
+export const enqueueSurveySync = async (survey: Survey, options: { force?: boolean } = {}): Promise<number> => {
+  if (survey.redactedAt) return 0;
+
+  const name = `${survey.answers?.contact_info?.firstName || ''} ${survey.answers?.contact_info?.lastName || 'Unknown'}`.trim();
+  let queued = 0;
+
+  if (survey.category !== 'renter' && survey.answers?.contact_info?.phone && (options.force || !survey.syncedToSalesforce)) {
+    const item = await OutboxService.enqueueOutboxItem({
+      type: 'salesforce_lead',
+      idempotencyKey: `salesforce_lead:${survey.id}`,
+      entityId: survey.id,
+      dependsOn: [`survey:${survey.id}`],
+      label: name,
+      payload: { force: options.force },
+    }, options);
+    if (item) queued++;
   }
-  
-  // Set up interval
-  syncInterval = setInterval(async () => {
-    const online = await isOnline();
-    if (!online) {
-      console.log('📴 Offline - skipping background sync');
-      return;
-    }
-    
-    const currentQueue = await StorageService.getSyncQueue();
-    if (currentQueue && currentQueue.length > 0) {
-      console.log('🔄 Background sync triggered');
-      await processSyncQueue(currentQueue);
-    }
-  }, 5 * 60 * 1000); // 5 minutes
+
+  if (survey.category === 'appointment' && survey.appointment && (options.force || !survey.syncedToZapier)) {
+    const item = await OutboxService.enqueueOutboxItem({
+      type: 'zapier_appointment',
+      idempotencyKey: `zapier_appointment:${survey.id}`,
+      entityId: survey.id,
+      dependsOn: [`survey:${survey.id}`, `salesforce_lead:${survey.id}`],
+      label: `${name} - ${survey.appointment.date} ${survey.appointment.time}`,
+      payload: { force: options.force },
+    }, options);
+    if (item) queued++;
+  }
+
+  return queued;
 };
 
-// Stop background sync
-export const stopBackgroundSync = () => {
-  if (syncInterval) {
-    clearInterval(syncInterval);
-    syncInterval = null;
-    console.log('⏹️ Background sync stopped');
+// Queues written by older versions of the app
+const migrateLegacySyncQueues = async (): Promise<void> => {
+  await StorageService.migrateLegacySyncData();
+  await migrateCriticalSyncQueue();
+
+  const legacyQueue = await StorageService.getData<{ type: 'survey' | 'appointment'; data: any }[]>('sync_queue') || [];
+  for (const item of legacyQueue) {
+    await enqueueSurveySync(item.type === 'survey' ? item.data : item.data.survey);
+  }
+  if (legacyQueue.length > 0) {
+    await StorageService.saveData('sync_queue', []);
   }
 };
 
-// Immediate sync (triggered after survey completion)
-export const triggerImmediateSync = async () => {
+const LAST_SUCCESSFUL_SYNC_KEY = 'last_successful_sync';
+
+/**
+ * When the outbox last drained without failures (reported in device heartbeats)
+ */
+export const getLastSuccessfulSync = () => StorageService.getData<string>(LAST_SUCCESSFUL_SYNC_KEY);
+
+// Deliver through the outbox and record the run in the sync log
+const deliverOutbox = async (
+  options: { keys?: string[]; replay?: boolean; replayedKeys?: string[] } = {}
+): Promise<{ synced: number; failed: number; duplicates: number }> => {
+  const result = await OutboxService.processOutbox(await getOutboxHandlers(), {
+    keys: options.keys,
+    deadLetterKeys: options.replayedKeys,
+  });
+
+  const syncedItems: SyncLogItem[] = result.results
+    .filter(r => r.item.type === 'salesforce_lead' || r.item.type === 'zapier_appointment')
+    .filter(r => r.status !== 'skipped')
+    .map(r => ({
+      type: r.item.type === 'salesforce_lead' ? 'survey' as const : 'appointment' as const,
+      id: r.item.entityId,
+      name: r.item.label || r.item.entityId,
+      salesforceId: r.salesforceId,
+      error: r.error,
+      status: r.status === 'failed' ? 'failed' as const : r.status === 'duplicate' ? 'duplicate' as const : 'success' as const,
+    }));
+
+  if (result.results.length > 0) {
+    const summary = await OutboxService.getOutboxSummary();
+    await StorageService.addSyncLog({
+      timestamp: new Date().toISOString(),
+      synced: result.delivered - result.duplicates,
+      failed: result.failed,
+      duplicates: result.duplicates,
+      queueSize: summary.pending + summary.inFlight,
+      items: syncedItems,
+      replay: options.replay || undefined,
+    });
+  }
+
+  // A replay covers a few items only - it says nothing about the rest of the queue
+  if (result.failed === 0 && !options.replay) {
+    await StorageService.saveData(LAST_SUCCESSFUL_SYNC_KEY, new Date().toISOString());
+  }
+
+  console.log(`✅ ${options.replay ? 'Replay' : 'Sync'} complete: ${result.delivered - result.duplicates} synced, ${result.failed} failed, ${result.duplicates} duplicates detected`);
+  return { synced: result.delivered - result.duplicates, failed: result.failed, duplicates: result.duplicates };
+};
+
+/**
+ * Deliver everything that is ready in the outbox and record a sync log entry
+ */
+export const processOutbox = async (): Promise<{ synced: number; failed: number; duplicates: number }> => {
   const online = await isOnline();
   if (!online) {
-    console.log('📴 Offline - sync will happen when online');
+    console.log('📴 Offline - skipping sync (data remains safely in the outbox)');
     return { synced: 0, failed: 0, duplicates: 0 };
   }
-  
-  const queue = await StorageService.getSyncQueue();
-  if (!queue || queue.length === 0) {
-    console.log('✓ Sync queue empty');
-    return { synced: 0, failed: 0, duplicates: 0 };
+
+  await migrateLegacySyncQueues();
+  if (!(await isDeviceEnrolled())) {
+    console.log('📟 Device not enrolled - surveys and punches stay in the outbox until it is');
   }
-  
+  return deliverOutbox();
+};
+
+/**
+ * Send dead-lettered items again now, together with any queued items they depend on. Items that
+ * fail again go straight back to the dead letters with the new error
+ */
+export const replayOutboxItems = async (ids: string[]): Promise<{ synced: number; failed: number; duplicates: number }> => {
+  const online = await isOnline();
+  if (!online) {
+    throw new Error('Device is offline - connect to the internet and replay again');
+  }
+  if (!(await isDeviceEnrolled())) {
+    throw new Error('This device is not enrolled - enroll it in Settings, then replay');
+  }
+
+  const items = await OutboxService.getOutboxItems();
+  const byKey = new Map(items.map(item => [item.idempotencyKey, item]));
+  const keys = new Set<string>();
+  const include = (item: OutboxItem) => {
+    if (keys.has(item.idempotencyKey)) return;
+    keys.add(item.idempotencyKey);
+    item.dependsOn?.forEach(key => {
+      const dependency = byKey.get(key);
+      if (dependency) include(dependency);
+    });
+  };
+  const selected = items.filter(item => ids.includes(item.id));
+  selected.forEach(include);
+  if (keys.size === 0) return { synced: 0, failed: 0, duplicates: 0 };
+
+  await OutboxService.retryDeadOutboxItems(
+    items.filter(item => item.status === 'dead' && keys.has(item.idempotencyKey)).map(item => item.id)
+  );
+  console.log(`🔁 Replaying ${keys.size} outbox item(s)`);
+  return deliverOutbox({
+    keys: Array.from(keys),
+    replay: true,
+    replayedKeys: selected.map(item => item.idempotencyKey),
+  });
+};
+
+// ============================================================
+// IMMEDIATE SYNC
+// Scheduled/background runs are in backgroundSyncService.ts
+// ============================================================
+
+// Immediate sync (triggered after survey completion)
+export const triggerImmediateSync = async () => {
   console.log('⚡ Immediate sync triggered');
-  return await processSyncQueue(queue);
+  return await processOutbox();
 };
 
 // Test webhook connectivity
@@ -884,36 +893,86 @@ export const deleteSalesforceRecord = async (
   }
 };
 
+// Find every Lead/Account matching a phone number and/or email (privacy requests)
+export const findSalesforceContactRecords = async (
+  phone?: string,
+  email?: string
+): Promise<{ records: { recordType: 'Lead' | 'Account'; salesforceId: string; recordName?: string }[]; error?: string }> => {
+  try {
+    const { getSupabaseClient } = require('@/template');
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase.functions.invoke('salesforce-sync', {
+      body: { action: 'find_contact_records', data: { phone, email } },
+    });
+
+    if (error) {
+      return { records: [], error: error.message || String(error) };
+    }
+
+    return { records: data?.records || [] };
+  } catch (error) {
+    console.error('❌ Salesforce contact search error:', error);
+    return { records: [], error: String(error) };
+  }
+};
+
+// Set the do-not-call / email opt-out flags on a Lead or person Account
+export const flagSalesforceDoNotContact = async (
+  recordId: string,
+  recordType: 'Lead' | 'Account'
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    console.log(`🚫 Flagging ${recordType} as do-not-contact in Salesforce:`, recordId);
+
+    const { getSupabaseClient } = require('@/template');
+    const supabase = getSupabaseClient();
+
+    const { error } = await supabase.functions.invoke('salesforce-sync', {
+      body: { action: 'flag_do_not_contact', data: { recordId, recordType } },
+    });
+
+    if (error) {
+      return { success: false, error: error.message || String(error) };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error(`❌ Salesforce ${recordType} do-not-contact error:`, error);
+    return { success: false, error: String(error) };
+  }
+};
+
 // Re-sync a survey after deleting the duplicate
 export const resyncSurveyAfterDelete = async (
   surveyId: string
 ): Promise<{ success: boolean; error?: string }> => {
   try {
-    const surveys = await StorageService.getSurveys() || [];
-    const survey = surveys.find(s => s.id === surveyId);
+    const survey = await StorageService.getSurveyById(surveyId);
     
     if (!survey) {
       throw new Error('Survey not found');
     }
     
     // Clear duplicate flags
-    const surveyIndex = surveys.findIndex(s => s.id === surveyId);
-    surveys[surveyIndex].isDuplicate = false;
-    surveys[surveyIndex].duplicateReviewed = false;
-    surveys[surveyIndex].duplicateInfo = undefined;
-    surveys[surveyIndex].syncedToSalesforce = false;
-    surveys[surveyIndex].salesforceId = undefined;
-    surveys[surveyIndex].syncError = undefined;
-    await StorageService.saveSurveys(surveys);
+    await StorageService.updateSurvey(surveyId, {
+      isDuplicate: false,
+      duplicateReviewed: false,
+      duplicateInfo: undefined,
+      syncedToSalesforce: false,
+      salesforceId: undefined,
+      syncError: undefined,
+    });
     
     // Re-sync to Salesforce
     const result = await syncToSalesforce(survey);
     
     if (result.success && !result.isDuplicate) {
       // Update survey with new Salesforce ID
-      surveys[surveyIndex].syncedToSalesforce = true;
-      surveys[surveyIndex].salesforceId = result.salesforceId;
-      await StorageService.saveSurveys(surveys);
+      await StorageService.updateSurvey(surveyId, {
+        syncedToSalesforce: true,
+        salesforceId: result.salesforceId,
+      });
       
       console.log('✅ Survey re-synced successfully:', result.salesforceId);
       return { success: true };
@@ -933,15 +992,7 @@ export const archiveDuplicateSurvey = async (
   surveyId: string
 ): Promise<{ success: boolean; error?: string }> => {
   try {
-    const surveys = await StorageService.getSurveys() || [];
-    const surveyIndex = surveys.findIndex(s => s.id === surveyId);
-    
-    if (surveyIndex === -1) {
-      throw new Error('Survey not found');
-    }
-    
-    surveys[surveyIndex].duplicateReviewed = true;
-    await StorageService.saveSurveys(surveys);
+    await StorageService.updateSurvey(surveyId, { duplicateReviewed: true });
     
     console.log('✅ Survey archived successfully');
     return { success: true };
@@ -1082,7 +1133,8 @@ export const testADPConnection = async () => {
   }
 };
 
-// Manually trigger ADP sync for time entries
+// Manually trigger ADP sync for time entries - exports every locked pay period that is not in ADP yet.
+// Shifts are no longer pushed one by one; hours only leave once a manager has locked their pay period
 export const syncTimeEntriesToADP = async () => {
   if (!ADP_BRIDGE_URL || ADP_BRIDGE_URL === 'YOUR_DENO_DEPLOY_URL_HERE') {
     throw new Error('ADP bridge URL not configured');
@@ -1118,6 +1170,43 @@ export const syncTimeEntriesToADP = async () => {
   }
 };
 
+// Export one locked pay period to ADP as a single batch. The bridge records the reconciliation on the
+// pay_period_closes row; retrying only resends employees ADP has not accepted yet
+export const exportPayPeriodToADP = async (periodStart: string, submittedBy?: string): Promise<PayrollReconciliation> => {
+  if (!ADP_BRIDGE_URL) {
+    throw new Error('ADP bridge URL not configured');
+  }
+
+  const online = await isOnline();
+  if (!online) {
+    throw new Error('No internet connection');
+  }
+
+  try {
+    const syncUrl = `${ADP_BRIDGE_URL}/sync/pay-period`;
+    const syncSecret = await StorageService.getData('adp_sync_secret');
+
+    const response = await fetch(syncUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': syncSecret ? `Bearer ${syncSecret}` : '',
+      },
+      body: JSON.stringify({ period_start: periodStart, submitted_by: submittedBy }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`ADP export failed: ${response.status} - ${errorText}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('❌ ADP pay period export error:', error);
+    throw error;
+  }
+};
+
 // Manually trigger ADP sync for employee onboarding
 export const syncEmployeesToADP = async () => {
   if (!ADP_BRIDGE_URL || ADP_BRIDGE_URL === 'YOUR_DENO_DEPLOY_URL_HERE') {
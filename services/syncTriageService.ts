@@ -0,0 +1,229 @@
+// Failed-sync triage - groups dead-lettered outbox items by what went wrong, so an admin can fix the
+// cause once (e.g. a Salesforce validation rule tripped by a bad zip code) and replay every item it
+// blocked. Replays go through the normal delivery path (SyncService.replayOutboxItems) and are
+// recorded in the sync log
+import { OutboxItem, OutboxItemType, RecordConflict, Survey } from '@/types';
+import * as OutboxService from './outboxService';
+import * as StorageService from './storageService';
+import { DEFAULT_FIELD_MAPPINGS, getFieldMappings } from './salesforceFieldsService';
+
+export type FailureCategory =
+  | 'validation_rule'
+  | 'missing_field'
+  | 'invalid_field'
+  | 'duplicate_value'
+  | 'auth'
+  | 'network'
+  | 'not_found'
+  | 'webhook'
+  | 'other';
+
+export const FAILURE_CATEGORY_LABELS: Record<FailureCategory, string> = {
+  validation_rule: 'Salesforce validation rule',
+  missing_field: 'Missing required field',
+  invalid_field: 'Invalid field value',
+  duplicate_value: 'Duplicate value',
+  auth: 'Authentication',
+  network: 'Network',
+  not_found: 'Record not found',
+  webhook: 'Zapier webhook',
+  other: 'Other',
+};
+
+// What the admin should do about each kind of failure
+export const FAILURE_CATEGORY_HINTS: Record<FailureCategory, string> = {
+  validation_rule: 'Salesforce rejected the record. Fix the field the rule names, then replay.',
+  missing_field: 'Salesforce requires a field the survey left blank. Fill it in, then replay.',
+  invalid_field: 'A value has the wrong format for Salesforce (picklist, email, length). Correct it, then replay.',
+  duplicate_value: 'Salesforce already has a record with one of these unique values. Check Salesforce before replaying.',
+  auth: 'The integration credentials were rejected. Fix the connection in Settings, then replay the group.',
+  network: 'The server could not be reached. Replay once the connection is stable.',
+  not_found: 'The survey or entry no longer exists on this device or in the cloud. Discard these items.',
+  webhook: 'The Zapier webhook rejected the appointment. Check the Zap, then replay.',
+  other: 'Unrecognized error. Check the details, then replay or send diagnostics.',
+};
+
+// Outbox items whose entityId is a survey - their fields can be fixed from the console
+const SURVEY_ITEM_TYPES: OutboxItemType[] = ['survey', 'salesforce_lead', 'zapier_appointment'];
+
+// Offered when the error does not name a field
+const CONTACT_FIELD_PATHS = [
+  'contact_info.firstName',
+  'contact_info.lastName',
+  'contact_info.phone',
+  'contact_info.address',
+  'contact_info.city',
+  'contact_info.state',
+  'contact_info.zipCode',
+];
+
+export interface FailureClassification {
+  category: FailureCategory;
+  signature: string; // Items with the same signature failed for the same reason
+  detail: string; // Rule message, field names or the error itself
+  fields: string[]; // Salesforce fields named by the error
+}
+
+export interface FailedSyncGroup extends FailureClassification {
+  items: OutboxItem[];
+}
+
+export interface EditableSurveyField {
+  path: string; // Path in survey.answers, e.g. contact_info.zipCode
+  label: string;
+  value: string;
+}
+
+// Salesforce and record ids differ per item - leave them out of the signature
+const normalizeDetail = (text: string) =>
+  text
+    .replace(/\b(?=[a-zA-Z0-9]*\d)[a-zA-Z0-9]{15,18}\b/g, '<id>')
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<id>')
+    .replace(/\d+/g, '#')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 160);
+
+// Salesforce REST errors come back as [{ message, errorCode, fields }] inside the edge function
+// response - sometimes as a JSON string within JSON, hence the unescaping
+const parseSalesforceError = (raw: string) => {
+  const error = raw.replace(/\\"/g, '"');
+  const errorCode = error.match(/\b(FIELD_CUSTOM_VALIDATION_EXCEPTION|REQUIRED_FIELD_MISSING|INVALID_OR_NULL_FOR_RESTRICTED_PICKLIST|INVALID_EMAIL_ADDRESS|STRING_TOO_LONG|INVALID_TYPE_ON_FIELD_IN_RECORD|INVALID_FIELD|DUPLICATE_VALUE|DUPLICATES_DETECTED|INVALID_SESSION_ID)\b/)?.[1];
+  const message = error.match(/"message"\s*:\s*"((?:[^"\\]|\\.)*)"/)?.[1];
+
+  const fieldList = error.match(/"fields"\s*:\s*\[([^\]]*)\]/)?.[1]
+    ?? error.match(/Required fields are missing:\s*\[([^\]]*)\]/i)?.[1]
+    ?? '';
+  const fields = fieldList
+    .split(',')
+    .map(field => field.replace(/["\s]/g, ''))
+    .filter(Boolean);
+
+  return { errorCode, message, fields };
+};
+
+/**
+ * Work out why an item failed from its last error
+ */
+export const classifySyncError = (error: string | undefined, type?: OutboxItemType): FailureClassification => {
+  const text = error || 'Unknown error';
+  const { errorCode, message, fields } = parseSalesforceError(text);
+  const sortedFields = [...fields].sort();
+
+  const classify = (category: FailureCategory, detail: string): FailureClassification => ({
+    category,
+    signature: `${category}:${normalizeDetail(detail)}`,
+    detail,
+    fields,
+  });
+
+  if (errorCode === 'FIELD_CUSTOM_VALIDATION_EXCEPTION') {
+    return classify('validation_rule', message || text);
+  }
+  if (errorCode === 'REQUIRED_FIELD_MISSING' || /required fields are missing/i.test(text)) {
+    return classify('missing_field', sortedFields.length > 0 ? sortedFields.join(', ') : message || text);
+  }
+  if (errorCode === 'DUPLICATE_VALUE' || errorCode === 'DUPLICATES_DETECTED') {
+    return classify('duplicate_value', message || errorCode);
+  }
+  if (errorCode === 'INVALID_SESSION_ID' || /\b(401|403)\b|unauthori[sz]ed|invalid_grant|forbidden/i.test(text)) {
+    return classify('auth', 'Credentials rejected');
+  }
+  if (errorCode) {
+    return classify('invalid_field', `${errorCode}${sortedFields.length > 0 ? ` (${sortedFields.join(', ')})` : ''}`);
+  }
+  if (/network request failed|failed to fetch|fetch failed|timed? ?out|ETIMEDOUT|ECONNRESET|ENOTFOUND|offline|\b(502|503|504)\b/i.test(text)) {
+    return classify('network', 'Server unreachable');
+  }
+  if (/not found/i.test(text)) {
+    return classify('not_found', 'Record not found');
+  }
+  if (type === 'zapier_appointment' || /zapier|webhook/i.test(text)) {
+    return classify('webhook', message || text);
+  }
+  return classify('other', message || text);
+};
+
+/**
+ * Dead-lettered items grouped by failure signature, largest group first
+ */
+export const getFailedSyncGroups = async (): Promise<FailedSyncGroup[]> => {
+  const dead = (await OutboxService.getOutboxItems()).filter(item => item.status === 'dead');
+  const groups = new Map<string, FailedSyncGroup>();
+
+  dead.forEach(item => {
+    const classification = classifySyncError(item.lastError, item.type);
+    const group = groups.get(classification.signature);
+    if (group) {
+      group.items.push(item);
+      classification.fields.forEach(field => {
+        if (!group.fields.includes(field)) group.fields.push(field);
+      });
+    } else {
+      groups.set(classification.signature, { ...classification, items: [item] });
+    }
+  });
+
+  return Array.from(groups.values()).sort((a, b) => b.items.length - a.items.length);
+};
+
+export const isSurveyItem = (item: OutboxItem): boolean => SURVEY_ITEM_TYPES.includes(item.type);
+
+const getAnswerValue = (answers: Record<string, any>, path: string): string => {
+  const value = path.split('.').reduce<any>((current, key) => current?.[key], answers);
+  return value === undefined || value === null ? '' : String(value);
+};
+
+const setAnswerValue = (answers: Record<string, any>, path: string, value: string) => {
+  const keys = path.split('.');
+  let current = answers;
+  keys.slice(0, -1).forEach(key => {
+    current[key] = { ...(current[key] || {}) };
+    current = current[key];
+  });
+  current[keys[keys.length - 1]] = value;
+};
+
+/**
+ * The survey fields behind the Salesforce fields an error names (contact details when it names none)
+ */
+export const getEditableSurveyFields = async (
+  survey: Survey,
+  salesforceFields: string[]
+): Promise<EditableSurveyField[]> => {
+  const mappings = [...await getFieldMappings(), ...DEFAULT_FIELD_MAPPINGS];
+  const named = salesforceFields
+    .map(field => mappings.find(m => m.salesforceField.toLowerCase() === field.toLowerCase()))
+    .filter((mapping): mapping is NonNullable<typeof mapping> => !!mapping && !mapping.surveyField.startsWith('_'));
+
+  const fields = named.length > 0
+    ? named.map(m => ({ path: m.surveyField, label: m.label }))
+    : CONTACT_FIELD_PATHS.map(path => ({
+        path,
+        label: mappings.find(m => m.surveyField === path)?.label || path,
+      }));
+
+  return fields
+    .filter((field, index) => fields.findIndex(f => f.path === field.path) === index)
+    .map(field => ({ ...field, value: getAnswerValue(survey.answers || {}, field.path) }));
+};
+
+/**
+ * Correct survey answers before a replay. Goes through the versioned survey update, so it also
+ * reaches a copy still waiting to upload. Returns fields another device had changed meanwhile
+ */
+export const fixSurveyFields = async (
+  surveyId: string,
+  values: Record<string, string>
+): Promise<RecordConflict[]> => {
+  const survey = await StorageService.getSurveyById(surveyId);
+  if (!survey) {
+    throw new Error(`Survey ${surveyId} not found`);
+  }
+
+  const answers = JSON.parse(JSON.stringify(survey.answers || {}));
+  Object.entries(values).forEach(([path, value]) => setAnswerValue(answers, path, value.trim()));
+
+  console.log(`🛠️ Triage: corrected ${Object.keys(values).join(', ')} on survey ${surveyId}`);
+  return StorageService.updateSurvey(surveyId, { answers, syncError: undefined }, survey);
+};
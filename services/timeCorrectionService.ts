@@ -0,0 +1,294 @@
+// Time-card corrections - employees ask for new clock-in/clock-out times on a shift (forgot to clock
+// out, force-clocked-out, clocked in late) and a manager approves or denies. Approval rewrites the
+// shift and appends the before/after to time_entries.correction_history.
+// Shifts whose pay period is already in ADP are re-synced with the next pay-period export: the
+// original hours are reversed and the corrected hours sent (see deno-adp-sync-bridge.ts)
+import { getSupabaseClient } from '@/template';
+import { PaySchedule, TimeCorrectionAdpResync, TimeCorrectionRequest, TimeEntry, TimeEntryCorrectionRecord } from '@/types';
+import { formatPayPeriod } from '@/utils/timeFormat';
+import * as PayrollService from './payrollService';
+import * as PayPeriodCloseService from './payPeriodCloseService';
+import * as StorageService from './storageService';
+
+const supabase = getSupabaseClient();
+
+const MAX_SHIFT_HOURS = 16;
+const HOUR_MS = 60 * 60 * 1000;
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Correction requests, newest first - only one employee's when employeeId is given
+ */
+export const getCorrectionRequests = async (employeeId?: string): Promise<TimeCorrectionRequest[]> => {
+  let query = supabase
+    .from('time_correction_requests')
+    .select('*')
+    .order('requested_at', { ascending: false });
+  if (employeeId) query = query.eq('employee_id', employeeId);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error fetching time correction requests:', error);
+    return [];
+  }
+  return (data || []).map(transformRequestFromDB);
+};
+
+/**
+ * Ask a manager to change a shift's times
+ */
+export const submitCorrectionRequest = async (
+  entry: TimeEntry,
+  clockIn: Date,
+  clockOut: Date,
+  reason: string
+): Promise<TimeCorrectionRequest> => {
+  if (entry.id.startsWith('temp_')) {
+    throw new Error('This shift has not synced yet - try again once the kiosk is online');
+  }
+  if (clockOut <= clockIn) {
+    throw new Error('Clock-out has to be after clock-in');
+  }
+  if (clockOut > new Date()) {
+    throw new Error('Clock-out cannot be in the future');
+  }
+  if (clockOut.getTime() - clockIn.getTime() > MAX_SHIFT_HOURS * HOUR_MS) {
+    throw new Error(`A shift cannot be longer than ${MAX_SHIFT_HOURS} hours`);
+  }
+  if (!reason.trim()) {
+    throw new Error('Give a reason for the correction');
+  }
+
+  const { data: pending } = await supabase
+    .from('time_correction_requests')
+    .select('id')
+    .eq('time_entry_id', entry.id)
+    .eq('status', 'pending')
+    .limit(1);
+  if (pending && pending.length > 0) {
+    throw new Error('There is already a pending correction for this shift');
+  }
+
+  const request: TimeCorrectionRequest = {
+    id: `tc_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    timeEntryId: entry.id,
+    employeeId: entry.employeeId,
+    original: { clockIn: entry.clockIn, clockOut: entry.clockOut },
+    requestedClockIn: clockIn.toISOString(),
+    requestedClockOut: clockOut.toISOString(),
+    reason: reason.trim(),
+    status: 'pending',
+    requestedAt: new Date().toISOString(),
+  };
+
+  const { error } = await supabase.from('time_correction_requests').insert([transformRequestToDB(request)]);
+  if (error) {
+    console.error('Error submitting time correction:', error);
+    throw error;
+  }
+
+  console.log(`🕒 Time correction requested for shift ${entry.id}`);
+  return request;
+};
+
+// Pay period containing a timestamp, with its close record
+const getPeriodWithClose = async (timestamp: string, schedules: PaySchedule[]) => {
+  const period = PayrollService.getPayPeriod(new Date(timestamp), schedules);
+  return { period, close: await PayPeriodCloseService.getPeriodClose(period) };
+};
+
+// Claims the request - only the review that flips it out of pending goes on to touch the shift
+const saveReview = async (request: TimeCorrectionRequest): Promise<TimeCorrectionRequest> => {
+  const { data, error } = await supabase
+    .from('time_correction_requests')
+    .update({
+      status: request.status,
+      reviewed_by: request.reviewedBy,
+      reviewed_at: request.reviewedAt,
+      review_note: request.reviewNote || null,
+      adp_resync: request.adpResync || null,
+    })
+    .eq('id', request.id)
+    .eq('status', 'pending') // Two managers reviewing at once - the first one wins
+    .select('id');
+
+  if (error) {
+    console.error('Error saving time correction review:', error);
+    throw error;
+  }
+  if (!data || data.length === 0) {
+    throw new Error('This request was already reviewed');
+  }
+  return request;
+};
+
+/**
+ * Apply the requested times to the shift. Open pay periods recalculate; a shift already exported
+ * to ADP is queued for reversal and re-sync. Locked (not yet exported) periods must be unlocked first
+ */
+export const approveCorrection = async (
+  request: TimeCorrectionRequest,
+  approvedBy: string,
+  note?: string
+): Promise<TimeCorrectionRequest> => {
+  if (request.status !== 'pending') {
+    throw new Error('This request was already reviewed');
+  }
+
+  const entry = (await StorageService.getTimeEntries()).find(e => e.id === request.timeEntryId);
+  if (!entry) {
+    throw new Error('The shift no longer exists');
+  }
+
+  const schedules = await PayrollService.getPaySchedules();
+  const original = await getPeriodWithClose(entry.clockIn, schedules);
+  const corrected = await getPeriodWithClose(request.requestedClockIn, schedules);
+  for (const { period, close } of [original, corrected]) {
+    if (close.status === 'locked') {
+      throw new Error(`The ${formatPayPeriod(period)} pay period is locked - unlock it before approving`);
+    }
+  }
+  if (corrected.close.status === 'exported' && corrected.period.start !== original.period.start) {
+    throw new Error('The corrected times fall in a different pay period that is already in ADP');
+  }
+
+  const after = { clockIn: request.requestedClockIn, clockOut: request.requestedClockOut };
+  let adpResync: TimeCorrectionAdpResync | undefined;
+  if (original.close.status === 'exported') {
+    const earlier = (await getCorrectionRequests(entry.employeeId)).find(r =>
+      r.timeEntryId === entry.id && r.adpResync?.status === 'pending'
+    );
+    if (earlier) {
+      throw new Error('An earlier correction to this shift is still waiting for the next ADP export');
+    }
+
+    // Priced at the rate the original period was paid at. A shift moved into a later, open period is
+    // paid by that period's statement - ADP only gets the reversal
+    const statement = await PayrollService.getEmployeeStatement(entry.employeeId, original.period);
+    const rate = statement.hoursWorked > 0 ? statement.basePay / statement.hoursWorked : statement.plan.baseHourlyRate;
+    const reversedHours = entry.clockOut ? roundCents(PayrollService.getWorkedHours(entry)) : 0; // Open shifts were never paid
+    const movedOut = corrected.period.start !== original.period.start;
+    const correctedHours = movedOut ? 0 : roundCents(PayrollService.getWorkedHours({ ...entry, ...after }));
+    adpResync = {
+      periodStart: original.period.start,
+      reversedHours,
+      reversedAmount: roundCents(reversedHours * rate),
+      correctedHours,
+      correctedAmount: roundCents(correctedHours * rate),
+      status: 'pending',
+    };
+  }
+
+  const now = new Date().toISOString();
+  const approved = await saveReview({
+    ...request,
+    status: 'approved',
+    reviewedBy: approvedBy,
+    reviewedAt: now,
+    reviewNote: note?.trim() || undefined,
+    adpResync,
+  });
+
+  const record: TimeEntryCorrectionRecord = {
+    requestId: request.id,
+    before: { clockIn: entry.clockIn, clockOut: entry.clockOut },
+    after,
+    reason: request.reason,
+    requestedBy: request.employeeId,
+    approvedBy,
+    approvedAt: now,
+  };
+
+  const { error } = await supabase
+    .from('time_entries')
+    .update({
+      clock_in: after.clockIn,
+      clock_out: after.clockOut,
+      correction_history: [...(entry.correctionHistory || []), record],
+      synced_to_adp: adpResync ? false : entry.syncedToADP,
+    })
+    .eq('id', entry.id);
+
+  if (error) {
+    console.error('Error applying time correction:', error);
+    // Hand the request back so it can be approved again
+    await supabase
+      .from('time_correction_requests')
+      .update({ status: 'pending', reviewed_by: null, reviewed_at: null, review_note: null, adp_resync: null })
+      .eq('id', request.id);
+    throw error;
+  }
+
+  // Approved statements in open periods are frozen - reopen them so they pick up the new hours
+  const openPeriods = [original, corrected]
+    .filter(({ close }) => close.status === 'open')
+    .filter(({ period }, index, all) => all.findIndex(p => p.period.start === period.start) === index);
+  for (const { period } of openPeriods) {
+    const statement = await PayrollService.getEmployeeStatement(entry.employeeId, period);
+    if (statement.status === 'approved') {
+      await PayrollService.reopenStatement(statement);
+    }
+  }
+
+  console.log(`✅ Time correction approved for shift ${entry.id}${adpResync ? ' - queued for ADP re-sync' : ''}`);
+  return approved;
+};
+
+export const denyCorrection = async (
+  request: TimeCorrectionRequest,
+  deniedBy: string,
+  note?: string
+): Promise<TimeCorrectionRequest> => {
+  if (request.status !== 'pending') {
+    throw new Error('This request was already reviewed');
+  }
+
+  return saveReview({
+    ...request,
+    status: 'denied',
+    reviewedBy: deniedBy,
+    reviewedAt: new Date().toISOString(),
+    reviewNote: note?.trim() || undefined,
+  });
+};
+
+function transformRequestFromDB(row: any): TimeCorrectionRequest {
+  return {
+    id: row.id,
+    timeEntryId: row.time_entry_id,
+    employeeId: row.employee_id,
+    original: {
+      clockIn: row.original_clock_in,
+      clockOut: row.original_clock_out || undefined,
+    },
+    requestedClockIn: row.requested_clock_in,
+    requestedClockOut: row.requested_clock_out,
+    reason: row.reason,
+    status: row.status,
+    requestedAt: row.requested_at,
+    reviewedBy: row.reviewed_by || undefined,
+    reviewedAt: row.reviewed_at || undefined,
+    reviewNote: row.review_note || undefined,
+    adpResync: row.adp_resync || undefined,
+  };
+}
+
+function transformRequestToDB(request: TimeCorrectionRequest): any {
+  return {
+    id: request.id,
+    time_entry_id: request.timeEntryId,
+    employee_id: request.employeeId,
+    original_clock_in: request.original.clockIn,
+    original_clock_out: request.original.clockOut || null,
+    requested_clock_in: request.requestedClockIn,
+    requested_clock_out: request.requestedClockOut,
+    reason: request.reason,
+    status: request.status,
+    requested_at: request.requestedAt,
+    reviewed_by: request.reviewedBy || null,
+    reviewed_at: request.reviewedAt || null,
+    review_note: request.reviewNote || null,
+    adp_resync: request.adpResync || null,
+  };
+}
@@ -0,0 +1,61 @@
+// Caller authentication for Edge Functions that write with the service role.
+// Kiosks never hold a Supabase Auth session - an enrolled device proves itself with its id and the
+// random secret enroll-device issued it. Only the secret's SHA-256 is kept (kiosk_devices.secret_hash),
+// and that column must stay out of reach of the anon role (no select/update grant)
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+
+export const DEVICE_ID_HEADER = 'x-device-id';
+export const DEVICE_SECRET_HEADER = 'x-device-secret';
+
+// Devices that may still upload - a locked tablet keeps syncing what it already captured
+const AUTHORIZED_STATUSES = ['active', 'locked'];
+
+export type Caller =
+  | { kind: 'device'; deviceId: string }
+  | { kind: 'user'; userId: string };
+
+export const hashDeviceSecret = async (secret: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const isSameHash = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+/**
+ * The enrolled device the request comes from, or null when the id/secret pair does not check out
+ */
+export const authenticateDevice = async (
+  supabase: SupabaseClient,
+  req: Request
+): Promise<{ deviceId: string } | null> => {
+  const deviceId = req.headers.get(DEVICE_ID_HEADER);
+  const secret = req.headers.get(DEVICE_SECRET_HEADER);
+  if (!deviceId || !secret) return null;
+
+  const { data: device } = await supabase
+    .from('kiosk_devices')
+    .select('device_id, status, secret_hash')
+    .eq('device_id', deviceId)
+    .maybeSingle();
+  if (!device?.secret_hash || !AUTHORIZED_STATUSES.includes(device.status)) return null;
+
+  return isSameHash(await hashDeviceSecret(secret), device.secret_hash) ? { deviceId } : null;
+};
+
+/**
+ * An enrolled device, or a signed-in Supabase Auth user (web admin). Null for the bare anon key
+ */
+export const authenticateCaller = async (supabase: SupabaseClient, req: Request): Promise<Caller | null> => {
+  const device = await authenticateDevice(supabase, req);
+  if (device) return { kind: 'device', deviceId: device.deviceId };
+
+  const jwt = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+  const { data: { user } } = jwt ? await supabase.auth.getUser(jwt) : { data: { user: null } };
+  return user ? { kind: 'user', userId: user.id } : null;
+};
@@ -0,0 +1,28 @@
+// Keyed hashes for customer phone numbers and emails, matching services/privacyHash.ts on the device.
+// HMAC-SHA256 with PRIVACY_HASH_SECRET - an unkeyed SHA-256 of a 10-digit phone number falls to brute force
+
+export const getPrivacyHashSecret = (): string => {
+  const secret = Deno.env.get('PRIVACY_HASH_SECRET');
+  if (!secret) {
+    throw new Error('Missing PRIVACY_HASH_SECRET configuration');
+  }
+  return secret;
+};
+
+/**
+ * HMAC-SHA256 of a normalized identifier (10-digit phone, lowercased email) as hex.
+ * The key is imported once, so one hasher can be reused across a whole batch
+ */
+export const createIdentifierHasher = async (secret: string): Promise<(value: string) => Promise<string>> => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return async (value: string) => {
+    const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(value));
+    return Array.from(new Uint8Array(signature)).map(b => b.toString(16).padStart(2, '0')).join('');
+  };
+};
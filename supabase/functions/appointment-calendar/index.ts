@@ -0,0 +1,444 @@
+// Appointment Calendar Edge Function
+// Calendar backend for appointments: stores events, mirrors them to a CalDAV server,
+// pulls changes made there back, and serves a subscribable .ics feed per territory
+//
+// Environment:
+// - CALDAV_URL (optional): collection root, events are stored at {CALDAV_URL}/{territory}/{uid}.ics
+//   Point at `npm run calendar:local` (scripts/local-caldav-server.js) for testing
+// - CALDAV_USERNAME / CALDAV_PASSWORD (optional): basic auth for the CalDAV server
+//
+// Feed URLs carry a per-territory token from appointment_calendar_feed_tokens
+// (token, territory_id, created_at, revoked_at). Revoking a territory's feed issues a new token
+// and every calendar subscribed with the old URL stops updating
+// - APPOINTMENT_DURATION_MINUTES (optional, default 90)
+//
+// Only the token-protected GET feed is public - calendar apps cannot send headers, so deploy with
+// verify_jwt off (`supabase functions deploy appointment-calendar --no-verify-jwt`). Every POST action
+// reads or writes customer appointments with the service role and requires an enrolled device or a
+// signed-in user (see _shared/deviceAuth.ts)
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { corsHeaders } from '../_shared/cors.ts';
+import { authenticateCaller } from '../_shared/deviceAuth.ts';
+
+type AppointmentStatus = 'booked' | 'confirmed' | 'rescheduled' | 'cancelled' | 'completed';
+
+interface CalendarEvent {
+  surveyId: string;
+  territoryId: string;
+  status: AppointmentStatus;
+  date: string; // YYYY-MM-DD
+  time: string; // "1:00 PM"
+  sequence: number;
+  summary: string;
+  location: string;
+  description: string;
+}
+
+interface EventRow {
+  survey_id: string;
+  territory_id: string;
+  status: AppointmentStatus;
+  date: string;
+  time: string;
+  sequence: number;
+  summary: string;
+  location: string;
+  description: string;
+  updated_by: 'app' | 'calendar';
+  updated_at: string;
+}
+
+const UID_DOMAIN = 'appointments.rainsoft';
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// ============ ICALENDAR ============
+
+// iCalendar STATUS only knows TENTATIVE/CONFIRMED/CANCELLED - the full status rides in X-RAINSOFT-STATUS
+const ICS_STATUS: Record<AppointmentStatus, string> = {
+  booked: 'TENTATIVE',
+  confirmed: 'CONFIRMED',
+  rescheduled: 'CONFIRMED',
+  cancelled: 'CANCELLED',
+  completed: 'CONFIRMED',
+};
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeText = (value: string) =>
+  value.replace(/\\n/gi, '\n').replace(/\\([;,\\])/g, '$1');
+
+// Lines longer than 75 octets must be folded (RFC 5545 3.1)
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let rest = line;
+  while (rest.length > 74) {
+    parts.push(rest.slice(0, 74));
+    rest = rest.slice(74);
+  }
+  parts.push(rest);
+  return parts.join('\r\n ');
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// "2026-10-20" + "1:00 PM" -> "20261020T130000" (floating local time)
+const toIcsDateTime = (date: string, time: string, addMinutes = 0) => {
+  const [year, month, day] = date.split('-').map(Number);
+  const match = time.match(/^(\d{1,2}):(\d{2})\s*(AM|PM)$/i);
+  let hours = match ? parseInt(match[1], 10) % 12 : 0;
+  if (match && match[3].toUpperCase() === 'PM') hours += 12;
+  const start = new Date(Date.UTC(year, month - 1, day, hours, match ? parseInt(match[2], 10) : 0) + addMinutes * 60000);
+  return `${start.getUTCFullYear()}${pad(start.getUTCMonth() + 1)}${pad(start.getUTCDate())}T${pad(start.getUTCHours())}${pad(start.getUTCMinutes())}00`;
+};
+
+// "20261020T130000" -> { date: "2026-10-20", time: "1:00 PM" }
+const fromIcsDateTime = (value: string) => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})/);
+  if (!match) return null;
+  const hours = parseInt(match[4], 10);
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return {
+    date: `${match[1]}-${match[2]}-${match[3]}`,
+    time: `${displayHours}:${match[5]} ${hours >= 12 ? 'PM' : 'AM'}`,
+  };
+};
+
+const toIcsTimestamp = (iso: string) => iso.replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const buildEvent = (row: EventRow, durationMinutes: number) => [
+  'BEGIN:VEVENT',
+  `UID:${row.survey_id}@${UID_DOMAIN}`,
+  `DTSTAMP:${toIcsTimestamp(row.updated_at)}`,
+  `LAST-MODIFIED:${toIcsTimestamp(row.updated_at)}`,
+  `DTSTART:${toIcsDateTime(row.date, row.time)}`,
+  `DTEND:${toIcsDateTime(row.date, row.time, durationMinutes)}`,
+  `SEQUENCE:${row.sequence}`,
+  `STATUS:${ICS_STATUS[row.status]}`,
+  `X-RAINSOFT-STATUS:${row.status.toUpperCase()}`,
+  `SUMMARY:${escapeText(row.status === 'cancelled' ? `CANCELLED: ${row.summary}` : row.summary)}`,
+  `LOCATION:${escapeText(row.location || '')}`,
+  `DESCRIPTION:${escapeText(row.description || '')}`,
+  'END:VEVENT',
+];
+
+const buildCalendar = (rows: EventRow[], name: string, durationMinutes: number) => [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//RainSoft//Appointments//EN',
+  'CALSCALE:GREGORIAN',
+  'METHOD:PUBLISH',
+  `X-WR-CALNAME:${escapeText(name)}`,
+  ...rows.flatMap(row => buildEvent(row, durationMinutes)),
+  'END:VCALENDAR',
+].map(foldLine).join('\r\n') + '\r\n';
+
+// Pull the fields we sync back out of a single-event calendar object
+const parseEvent = (ics: string) => {
+  const unfolded = ics.replace(/\r?\n[ \t]/g, '');
+  const fields: Record<string, string> = {};
+  for (const line of unfolded.split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const name = line.slice(0, separator).split(';')[0].toUpperCase();
+    if (!(name in fields)) fields[name] = line.slice(separator + 1);
+  }
+
+  const start = fields.DTSTART ? fromIcsDateTime(fields.DTSTART) : null;
+  const customStatus = fields['X-RAINSOFT-STATUS']?.toLowerCase() as AppointmentStatus | undefined;
+  const status: AppointmentStatus | null = fields.STATUS === 'CANCELLED'
+    ? 'cancelled'
+    : customStatus && customStatus in ICS_STATUS
+      ? customStatus
+      : fields.STATUS === 'CONFIRMED' ? 'confirmed' : null;
+
+  return {
+    sequence: parseInt(fields.SEQUENCE || '0', 10),
+    status,
+    start,
+    summary: fields.SUMMARY ? unescapeText(fields.SUMMARY) : undefined,
+  };
+};
+
+// ============ CALDAV ============
+
+const getCalDavConfig = () => {
+  const url = Deno.env.get('CALDAV_URL');
+  if (!url) return null;
+
+  const username = Deno.env.get('CALDAV_USERNAME');
+  const password = Deno.env.get('CALDAV_PASSWORD');
+  const headers: Record<string, string> = {};
+  if (username && password) {
+    headers.Authorization = `Basic ${btoa(`${username}:${password}`)}`;
+  }
+  return { url: url.replace(/\/$/, ''), headers };
+};
+
+const getEventUrl = (baseUrl: string, row: { territory_id: string; survey_id: string }) =>
+  `${baseUrl}/${encodeURIComponent(row.territory_id)}/${encodeURIComponent(row.survey_id)}.ics`;
+
+const putCalDavEvent = async (row: EventRow, durationMinutes: number) => {
+  const caldav = getCalDavConfig();
+  if (!caldav) return;
+
+  const response = await fetch(getEventUrl(caldav.url, row), {
+    method: 'PUT',
+    headers: { ...caldav.headers, 'Content-Type': 'text/calendar; charset=utf-8' },
+    body: buildCalendar([row], row.territory_id, durationMinutes),
+  });
+
+  if (!response.ok) {
+    throw new Error(`CalDAV PUT failed: ${response.status} ${await response.text()}`);
+  }
+};
+
+// ============ FEED TOKENS ============
+
+const generateFeedToken = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const getFeedUrl = (supabaseUrl: string, territoryId: string, token: string) =>
+  `${supabaseUrl}/functions/v1/appointment-calendar?territory=${encodeURIComponent(territoryId)}&token=${token}`;
+
+// ============ HANDLER ============
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing Supabase configuration');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const durationMinutes = parseInt(Deno.env.get('APPOINTMENT_DURATION_MINUTES') || '90', 10);
+
+    const issueFeedToken = async (territoryId: string) => {
+      const token = generateFeedToken();
+      const { error } = await supabase
+        .from('appointment_calendar_feed_tokens')
+        .insert({ token, territory_id: territoryId, created_at: new Date().toISOString() });
+      if (error) throw error;
+      return token;
+    };
+
+    const loadTerritoryEvents = async (territoryId: string) => {
+      const { data, error } = await supabase
+        .from('appointment_calendar_events')
+        .select('*')
+        .eq('territory_id', territoryId)
+        .order('date', { ascending: true });
+      if (error) throw error;
+      return (data || []) as EventRow[];
+    };
+
+    // ---------- Subscribable feed: GET ?territory=...&token=... ----------
+    if (req.method === 'GET') {
+      const params = new URL(req.url).searchParams;
+      const territoryId = params.get('territory') || 'default';
+
+      // A token only opens the feed of the territory it was issued for
+      const { data: feedToken } = await supabase
+        .from('appointment_calendar_feed_tokens')
+        .select('territory_id')
+        .eq('token', params.get('token') || '')
+        .is('revoked_at', null)
+        .maybeSingle();
+      if (!feedToken || feedToken.territory_id !== territoryId) {
+        return new Response('Unauthorized', { status: 401, headers: corsHeaders });
+      }
+
+      const rows = await loadTerritoryEvents(territoryId);
+      return new Response(buildCalendar(rows, `RainSoft Appointments - ${territoryId}`, durationMinutes), {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'text/calendar; charset=utf-8',
+          'Content-Disposition': `inline; filename="appointments-${territoryId}.ics"`,
+        },
+      });
+    }
+
+    if (!(await authenticateCaller(supabase, req))) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const body = await req.json();
+
+    switch (body.action) {
+      // ---------- App -> calendar ----------
+      case 'upsert': {
+        const event: CalendarEvent = body.event;
+        if (!event?.surveyId || !event.date || !event.time) {
+          return jsonResponse({ success: false, error: 'Missing event surveyId, date or time' }, 400);
+        }
+
+        const { data: existing } = await supabase
+          .from('appointment_calendar_events')
+          .select('sequence, territory_id')
+          .eq('survey_id', event.surveyId)
+          .maybeSingle();
+
+        // Never move the sequence backwards - calendar clients ignore stale sequences
+        const row: EventRow = {
+          survey_id: event.surveyId,
+          territory_id: event.territoryId || 'default',
+          status: event.status,
+          date: event.date,
+          time: event.time,
+          sequence: Math.max(event.sequence, existing?.sequence ?? 0),
+          summary: event.summary,
+          location: event.location,
+          description: event.description,
+          updated_by: 'app',
+          updated_at: new Date().toISOString(),
+        };
+
+        const { error } = await supabase
+          .from('appointment_calendar_events')
+          .upsert(row, { onConflict: 'survey_id' });
+        if (error) throw error;
+
+        await putCalDavEvent(row, durationMinutes);
+
+        // Moved to another territory - remove it from the old collection
+        const caldav = getCalDavConfig();
+        if (caldav && existing && existing.territory_id !== row.territory_id) {
+          await fetch(getEventUrl(caldav.url, { territory_id: existing.territory_id, survey_id: row.survey_id }), {
+            method: 'DELETE',
+            headers: caldav.headers,
+          });
+        }
+
+        console.log(`📅 Upserted appointment ${row.survey_id} (${row.status}, seq ${row.sequence})`);
+        return jsonResponse({ success: true, sequence: row.sequence });
+      }
+
+      // ---------- Calendar -> app ----------
+      case 'changes': {
+        const caldav = getCalDavConfig();
+
+        if (caldav) {
+          // Re-read upcoming events from CalDAV and adopt anything edited there
+          const today = new Date().toISOString().split('T')[0];
+          const { data: upcoming, error } = await supabase
+            .from('appointment_calendar_events')
+            .select('*')
+            .gte('date', today)
+            .not('status', 'in', '(cancelled,completed)');
+          if (error) throw error;
+
+          for (const row of (upcoming || []) as EventRow[]) {
+            const response = await fetch(getEventUrl(caldav.url, row), { headers: caldav.headers });
+            if (response.status === 404) {
+              // Deleted on the calendar side = cancelled
+              await supabase
+                .from('appointment_calendar_events')
+                .update({ status: 'cancelled', sequence: row.sequence + 1, updated_by: 'calendar', updated_at: new Date().toISOString() })
+                .eq('survey_id', row.survey_id);
+              continue;
+            }
+            if (!response.ok) {
+              console.error(`CalDAV GET failed for ${row.survey_id}: ${response.status}`);
+              continue;
+            }
+
+            const remote = parseEvent(await response.text());
+            if (remote.sequence <= row.sequence || !remote.status || !remote.start) continue;
+
+            await supabase
+              .from('appointment_calendar_events')
+              .update({
+                status: remote.start.date !== row.date || remote.start.time !== row.time ? 'rescheduled' : remote.status,
+                date: remote.start.date,
+                time: remote.start.time,
+                sequence: remote.sequence,
+                updated_by: 'calendar',
+                updated_at: new Date().toISOString(),
+              })
+              .eq('survey_id', row.survey_id);
+          }
+        }
+
+        let query = supabase
+          .from('appointment_calendar_events')
+          .select('survey_id, status, date, time, sequence, updated_at')
+          .eq('updated_by', 'calendar');
+        if (body.since) query = query.gt('updated_at', body.since);
+
+        const { data, error } = await query;
+        if (error) throw error;
+
+        return jsonResponse({
+          success: true,
+          changes: (data || []).map((row: any) => ({
+            surveyId: row.survey_id,
+            status: row.status,
+            date: row.date,
+            time: row.time,
+            sequence: row.sequence,
+            updatedAt: row.updated_at,
+          })),
+        });
+      }
+
+      // ---------- Export / subscription ----------
+      case 'ics': {
+        const territoryId = body.territoryId || 'default';
+        const rows = await loadTerritoryEvents(territoryId);
+        return jsonResponse({
+          success: true,
+          ics: buildCalendar(rows, `RainSoft Appointments - ${territoryId}`, durationMinutes),
+        });
+      }
+
+      case 'feed_url': {
+        const territoryId = body.territoryId || 'default';
+        const { data: active, error } = await supabase
+          .from('appointment_calendar_feed_tokens')
+          .select('token')
+          .eq('territory_id', territoryId)
+          .is('revoked_at', null)
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        if (error) throw error;
+
+        const token = active?.token || await issueFeedToken(territoryId);
+        return jsonResponse({ success: true, url: getFeedUrl(supabaseUrl, territoryId, token) });
+      }
+
+      case 'revoke_feed': {
+        const territoryId = body.territoryId || 'default';
+        const { error } = await supabase
+          .from('appointment_calendar_feed_tokens')
+          .update({ revoked_at: new Date().toISOString() })
+          .eq('territory_id', territoryId)
+          .is('revoked_at', null);
+        if (error) throw error;
+
+        const token = await issueFeedToken(territoryId);
+        console.log(`🔑 Revoked calendar feed for territory ${territoryId}`);
+        return jsonResponse({ success: true, url: getFeedUrl(supabaseUrl, territoryId, token) });
+      }
+
+      default:
+        return jsonResponse({ success: false, error: `Unknown action: ${body.action}` }, 400);
+    }
+  } catch (error) {
+    console.error('❌ Appointment calendar error:', error);
+    return jsonResponse({ success: false, error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
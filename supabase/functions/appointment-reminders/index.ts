@@ -0,0 +1,479 @@
+// Appointment Reminders Edge Function
+// Confirmation + 24h/2h reminder pipeline for booked appointments, sent through send-sms / send-email.
+// Also the Twilio inbound webhook: "C" confirms, "X" cancels, STOP/START toggle the SMS opt-out.
+//
+// Actions (JSON POST):
+// - schedule { surveyId, rescheduled? }  queue messages for an appointment (idempotent)
+// - dispatch                             send everything that is due - run every 5 minutes via scheduled job
+// Inbound SMS: point the Twilio number's "A message comes in" webhook at this function (form POST).
+// Requests without a valid X-Twilio-Signature are rejected with 403
+//
+// Environment:
+// - TWILIO_AUTH_TOKEN: signs inbound webhooks
+// - TWILIO_WEBHOOK_URL: the exact URL configured in Twilio, when it differs from the URL the function sees
+// - APPOINTMENT_TIMEZONE (default America/New_York): appointment slots are local to this zone
+// - QUIET_HOURS_START / QUIET_HOURS_END (default 21 / 8): no SMS between these local hours
+// - PRIVACY_HASH_SECRET: sms_opt_outs is keyed by the HMAC of the 10-digit number (phone_hash), never the number
+
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { corsHeaders } from '../_shared/cors.ts';
+import { createIdentifierHasher, getPrivacyHashSecret } from '../_shared/privacyHash.ts';
+
+type AppointmentStatus = 'booked' | 'confirmed' | 'rescheduled' | 'cancelled' | 'completed';
+type MessageKind = 'confirmation' | 'reschedule' | 'reminder_24h' | 'reminder_2h';
+
+interface MessageRow {
+  id: string;
+  survey_id: string;
+  kind: MessageKind | 'reply';
+  channel: 'sms' | 'email';
+  status: 'pending' | 'sent' | 'failed' | 'skipped' | 'received';
+  send_at: string | null;
+}
+
+const TIME_ZONE = Deno.env.get('APPOINTMENT_TIMEZONE') || 'America/New_York';
+const QUIET_START = parseInt(Deno.env.get('QUIET_HOURS_START') || '21', 10);
+const QUIET_END = parseInt(Deno.env.get('QUIET_HOURS_END') || '8', 10);
+
+const REMINDER_OFFSETS: Record<string, number> = {
+  reminder_24h: 24 * 60,
+  reminder_2h: 2 * 60,
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const twimlResponse = (message?: string) =>
+  new Response(
+    `<?xml version="1.0" encoding="UTF-8"?><Response>${message ? `<Message>${message}</Message>` : ''}</Response>`,
+    { headers: { 'Content-Type': 'text/xml' } }
+  );
+
+const phoneDigits = (phone: string) => phone.replace(/\D/g, '').slice(-10);
+
+// ============ TIME ZONES + QUIET HOURS ============
+
+const getLocalParts = (date: Date) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: TIME_ZONE,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+};
+
+// Local wall-clock time in TIME_ZONE -> UTC instant
+const localToUtc = (year: number, month: number, day: number, hours: number, minutes: number) => {
+  const naive = Date.UTC(year, month - 1, day, hours, minutes);
+  const local = getLocalParts(new Date(naive));
+  const offset = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second) - naive;
+  return new Date(naive - offset);
+};
+
+// "2026-10-20" + "1:00 PM" -> UTC start of the appointment
+const getAppointmentStart = (date: string, time: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  const match = time.match(/^(\d{1,2}):(\d{2})\s*(AM|PM)$/i);
+  let hours = match ? parseInt(match[1], 10) % 12 : 0;
+  if (match && match[3].toUpperCase() === 'PM') hours += 12;
+  return localToUtc(year, month, day, hours, match ? parseInt(match[2], 10) : 0);
+};
+
+// Push a send time out of quiet hours to the next allowed local morning
+const applyQuietHours = (sendAt: Date) => {
+  const local = getLocalParts(sendAt);
+  if (local.hour >= QUIET_END && local.hour < QUIET_START) return sendAt;
+
+  const morning = localToUtc(local.year, local.month, local.day, QUIET_END, 0);
+  if (local.hour >= QUIET_START) morning.setUTCDate(morning.getUTCDate() + 1);
+  return morning;
+};
+
+const formatSlot = (date: string, time: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  const label = new Date(Date.UTC(year, month - 1, day)).toLocaleDateString('en-US', {
+    weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC',
+  });
+  return `${label} at ${time}`;
+};
+
+// ============ MESSAGE TEXT ============
+
+const buildSms = (kind: MessageKind, survey: any) => {
+  const firstName = survey.answers?.contact_info?.firstName || 'there';
+  const { date, time, address } = survey.appointment;
+  const slot = formatSlot(date, time);
+
+  switch (kind) {
+    case 'confirmation':
+      return `Hi ${firstName}, your free RainSoft water test is booked for ${slot}. Reply C to confirm or X to cancel. Reply STOP to opt out.`;
+    case 'reschedule':
+      return `Hi ${firstName}, your RainSoft water test has moved to ${slot}. Reply C to confirm or X to cancel.`;
+    case 'reminder_24h':
+      return `Reminder: your RainSoft water test is tomorrow, ${slot}${address ? ` at ${address}` : ''}. Reply C to confirm or X to cancel.`;
+    case 'reminder_2h':
+      return `Your RainSoft specialist will arrive around ${time} today. Reply X if you need to cancel.`;
+  }
+};
+
+const buildEmail = (kind: MessageKind, survey: any) => {
+  const firstName = survey.answers?.contact_info?.firstName || 'there';
+  const { date, time, address } = survey.appointment;
+  const slot = formatSlot(date, time);
+  const subjects: Record<MessageKind, string> = {
+    confirmation: 'Your RainSoft water test is booked',
+    reschedule: 'Your RainSoft water test has been rescheduled',
+    reminder_24h: 'Reminder: your RainSoft water test is tomorrow',
+    reminder_2h: 'Your RainSoft specialist is on the way today',
+  };
+
+  return {
+    subject: subjects[kind],
+    body: [
+      `Hi ${firstName},`,
+      '',
+      `Your free in-home water test is scheduled for ${slot}.`,
+      address ? `Address: ${address}` : '',
+      '',
+      'Need to change it? Reply to our text message with X to cancel, or call your local RainSoft dealer.',
+      '',
+      'RainSoft',
+    ].filter((line, index, lines) => line !== '' || lines[index - 1] !== '').join('\n'),
+  };
+};
+
+// ============ APPOINTMENT UPDATES ============
+
+const updateAppointmentStatus = async (
+  supabase: SupabaseClient,
+  survey: any,
+  status: AppointmentStatus,
+  note: string
+) => {
+  const now = new Date().toISOString();
+  const appointment = survey.appointment;
+  const updated = {
+    ...appointment,
+    status,
+    statusUpdatedAt: now,
+    history: [...(appointment.history || []), {
+      status, at: now, source: 'sms', date: appointment.date, time: appointment.time, note,
+    }],
+    calendarSequence: (appointment.calendarSequence || 0) + 1,
+    calendarSynced: false, // Kiosks push the change to the calendar on their next sync
+  };
+
+  const { error } = await supabase.from('surveys').update({ appointment: updated }).eq('id', survey.id);
+  if (error) throw error;
+};
+
+// ============ ACTIONS ============
+
+const scheduleMessages = async (supabase: SupabaseClient, surveyId: string, rescheduled: boolean) => {
+  const { data: survey, error } = await supabase
+    .from('surveys')
+    .select('id, answers, appointment')
+    .eq('id', surveyId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!survey?.appointment) {
+    return { success: false, error: 'Appointment not found (not synced yet?)' };
+  }
+
+  const start = getAppointmentStart(survey.appointment.date, survey.appointment.time);
+  const now = new Date();
+  const channels: ('sms' | 'email')[] = [];
+  if (survey.answers?.contact_info?.phone) channels.push('sms');
+  if (survey.appointment.email) channels.push('email');
+
+  const rows = channels.flatMap(channel => [
+    { kind: rescheduled ? 'reschedule' : 'confirmation', sendAt: now },
+    { kind: 'reminder_24h', sendAt: new Date(start.getTime() - REMINDER_OFFSETS.reminder_24h * 60000) },
+    { kind: 'reminder_2h', sendAt: new Date(start.getTime() - REMINDER_OFFSETS.reminder_2h * 60000) },
+  ].map(message => ({
+    survey_id: surveyId,
+    kind: message.kind,
+    channel,
+    direction: 'outbound',
+    status: 'pending',
+    send_at: message.sendAt.toISOString(),
+  })));
+
+  if (rescheduled) {
+    // New slot - reminders for the old slot start over
+    const { error: resetError } = await supabase
+      .from('appointment_messages')
+      .upsert(rows, { onConflict: 'survey_id,kind,channel' });
+    if (resetError) throw resetError;
+  } else {
+    const { error: insertError } = await supabase
+      .from('appointment_messages')
+      .upsert(rows, { onConflict: 'survey_id,kind,channel', ignoreDuplicates: true });
+    if (insertError) throw insertError;
+  }
+
+  console.log(`📨 Scheduled ${rows.length} message(s) for appointment ${surveyId}`);
+  return { success: true, scheduled: rows.length };
+};
+
+const dispatchMessages = async (supabase: SupabaseClient) => {
+  const { data: pending, error } = await supabase
+    .from('appointment_messages')
+    .select('*')
+    .eq('status', 'pending')
+    .eq('direction', 'outbound');
+  if (error) throw error;
+
+  const hashPhone = await createIdentifierHasher(getPrivacyHashSecret());
+  const { data: optOuts } = await supabase
+    .from('sms_opt_outs')
+    .select('phone_hash')
+    .eq('opted_out', true);
+  const optedOut = new Set((optOuts || []).map((row: any) => row.phone_hash));
+
+  const now = new Date();
+  let sent = 0;
+  let skipped = 0;
+  let failed = 0;
+
+  const mark = async (row: MessageRow, updates: Record<string, unknown>) => {
+    await supabase.from('appointment_messages').update(updates).eq('id', row.id);
+  };
+
+  for (const row of (pending || []) as MessageRow[]) {
+    const { data: survey } = await supabase
+      .from('surveys')
+      .select('id, answers, appointment, consent')
+      .eq('id', row.survey_id)
+      .maybeSingle();
+
+    const appointment = survey?.appointment;
+    const status: AppointmentStatus = appointment?.status || 'booked';
+    if (!appointment || status === 'cancelled' || status === 'completed') {
+      await mark(row, { status: 'skipped', error: `Appointment ${appointment ? status : 'missing'}` });
+      skipped++;
+      continue;
+    }
+
+    // Reminders follow the appointment's current slot, so reschedules are picked up automatically
+    const start = getAppointmentStart(appointment.date, appointment.time);
+    const offset = REMINDER_OFFSETS[row.kind];
+    let sendAt = offset ? new Date(start.getTime() - offset * 60000) : new Date(row.send_at || now);
+    if (row.channel === 'sms') sendAt = applyQuietHours(sendAt);
+
+    if (now >= start) {
+      await mark(row, { status: 'skipped', error: 'Appointment already started' });
+      skipped++;
+      continue;
+    }
+    if (sendAt > now) {
+      if (sendAt.toISOString() !== row.send_at) await mark(row, { send_at: sendAt.toISOString() });
+      continue;
+    }
+    // A 24h reminder that could only go out in the last 2 hours is redundant with the 2h reminder
+    if (row.kind === 'reminder_24h' && start.getTime() - now.getTime() < REMINDER_OFFSETS.reminder_2h * 60000) {
+      await mark(row, { status: 'skipped', error: 'Superseded by 2h reminder' });
+      skipped++;
+      continue;
+    }
+
+    try {
+      if (row.channel === 'sms') {
+        const phone = survey.answers?.contact_info?.phone;
+        if (!phone || optedOut.has(await hashPhone(phoneDigits(phone)))) {
+          await mark(row, { status: 'skipped', error: phone ? 'Opted out (STOP)' : 'No phone' });
+          skipped++;
+          continue;
+        }
+        // TCPA - texts only go to customers who ticked the SMS opt-in at the kiosk
+        if (survey.consent?.smsConsent !== true) {
+          await mark(row, { status: 'skipped', error: 'No SMS consent' });
+          skipped++;
+          continue;
+        }
+
+        const { data, error: smsError } = await supabase.functions.invoke('send-sms', {
+          body: { to: phone, message: buildSms(row.kind as MessageKind, survey) },
+        });
+        if (smsError || !data?.success) throw new Error(data?.error || smsError?.message || 'SMS failed');
+      } else {
+        const email = buildEmail(row.kind as MessageKind, survey);
+        const { data, error: emailError } = await supabase.functions.invoke('send-email', {
+          body: { to: appointment.email, subject: email.subject, body: email.body },
+        });
+        if (emailError || !data?.success) throw new Error(data?.error || emailError?.message || 'Email failed');
+      }
+
+      await mark(row, { status: 'sent', sent_at: new Date().toISOString(), error: null });
+      sent++;
+    } catch (sendError) {
+      const message = sendError instanceof Error ? sendError.message : String(sendError);
+      console.error(`❌ ${row.kind} ${row.channel} failed for ${row.survey_id}:`, message);
+      await mark(row, { status: 'failed', error: message });
+      failed++;
+    }
+  }
+
+  console.log(`📨 Dispatch complete: ${sent} sent, ${skipped} skipped, ${failed} failed`);
+  return { success: true, sent, skipped, failed };
+};
+
+const handleInboundSms = async (supabase: SupabaseClient, from: string, body: string) => {
+  const reply = body.trim().toUpperCase();
+  const digits = phoneDigits(from);
+  const now = new Date().toISOString();
+
+  // Carrier-standard opt-out / opt-in keywords
+  const isOptOut = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT'].includes(reply);
+  if (isOptOut || ['START', 'UNSTOP', 'YES'].includes(reply)) {
+    const hashPhone = await createIdentifierHasher(getPrivacyHashSecret());
+    await supabase
+      .from('sms_opt_outs')
+      .upsert({ phone_hash: await hashPhone(digits), opted_out: isOptOut, updated_at: now }, { onConflict: 'phone_hash' });
+    if (isOptOut) console.log(`🚫 SMS opt-out recorded for ***${digits.slice(-4)}`);
+    return twimlResponse(); // Twilio sends the carrier-required opt-out confirmation
+  }
+
+  // Match the sender's next upcoming appointment
+  const today = new Date().toISOString().split('T')[0];
+  const { data: surveys, error } = await supabase
+    .from('surveys')
+    .select('id, answers, appointment')
+    .eq('category', 'appointment')
+    .gte('appointment->>date', today);
+  if (error) throw error;
+
+  const survey = (surveys || [])
+    .filter((s: any) => phoneDigits(s.answers?.contact_info?.phone || '') === digits)
+    .filter((s: any) => !['cancelled', 'completed'].includes(s.appointment?.status))
+    .sort((a: any, b: any) =>
+      getAppointmentStart(a.appointment.date, a.appointment.time).getTime() -
+      getAppointmentStart(b.appointment.date, b.appointment.time).getTime()
+    )[0];
+
+  if (survey) {
+    await supabase.from('appointment_messages').insert({
+      survey_id: survey.id,
+      kind: 'reply',
+      channel: 'sms',
+      direction: 'inbound',
+      status: 'received',
+      body: body.trim(),
+      sent_at: now,
+    });
+  }
+
+  if (reply !== 'C' && reply !== 'X') {
+    return twimlResponse('Reply C to confirm your RainSoft appointment or X to cancel.');
+  }
+  if (!survey) {
+    return twimlResponse("We couldn't find an upcoming RainSoft appointment for this number. Please call your local dealer.");
+  }
+
+  const slot = formatSlot(survey.appointment.date, survey.appointment.time);
+  if (reply === 'C') {
+    if (survey.appointment.status !== 'confirmed') {
+      await updateAppointmentStatus(supabase, survey, 'confirmed', 'Customer replied C');
+    }
+    console.log(`✅ Appointment ${survey.id} confirmed by SMS`);
+    return twimlResponse(`Thanks! Your RainSoft water test on ${slot} is confirmed.`);
+  }
+
+  await updateAppointmentStatus(supabase, survey, 'cancelled', 'Customer replied X');
+  console.log(`🗑️ Appointment ${survey.id} cancelled by SMS`);
+  return twimlResponse(`Your RainSoft water test on ${slot} has been cancelled. Call your local dealer anytime to rebook.`);
+};
+
+// ============ TWILIO SIGNATURE ============
+
+// HMAC-SHA1 of the webhook URL followed by every POST param (sorted by name) as name+value, base64 encoded
+const computeTwilioSignature = async (authToken: string, url: string, params: [string, string][]) => {
+  const payload = url + [...params]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([name, value]) => name + value)
+    .join('');
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(authToken),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload));
+  return btoa(String.fromCharCode(...new Uint8Array(signature)));
+};
+
+const timingSafeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+const isValidTwilioRequest = async (req: Request, form: FormData) => {
+  const authToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+  const signature = req.headers.get('x-twilio-signature');
+  if (!authToken || !signature) return false;
+
+  const params: [string, string][] = [];
+  form.forEach((value, name) => params.push([name, String(value)]));
+  const expected = await computeTwilioSignature(authToken, Deno.env.get('TWILIO_WEBHOOK_URL') || req.url, params);
+  return timingSafeEqual(expected, signature);
+};
+
+// ============ HANDLER ============
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing Supabase configuration');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Twilio inbound webhook posts form data
+    if ((req.headers.get('content-type') || '').includes('application/x-www-form-urlencoded')) {
+      const form = await req.formData();
+      if (!(await isValidTwilioRequest(req, form))) {
+        console.warn('🚫 Rejected inbound SMS with a missing or invalid Twilio signature');
+        return new Response('Forbidden', { status: 403 });
+      }
+      return await handleInboundSms(supabase, String(form.get('From') || ''), String(form.get('Body') || ''));
+    }
+
+    const body = await req.json();
+
+    switch (body.action) {
+      case 'schedule':
+        if (!body.surveyId) {
+          return jsonResponse({ success: false, error: 'Missing surveyId' }, 400);
+        }
+        return jsonResponse(await scheduleMessages(supabase, body.surveyId, body.rescheduled === true));
+
+      case 'dispatch':
+        return jsonResponse(await dispatchMessages(supabase));
+
+      default:
+        return jsonResponse({ success: false, error: `Unknown action: ${body.action}` }, 400);
+    }
+  } catch (error) {
+    console.error('❌ Appointment reminders error:', error);
+    return jsonResponse({ success: false, error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
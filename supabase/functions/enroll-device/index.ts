@@ -0,0 +1,112 @@
+// Device Enrollment Edge Function
+// Registers a kiosk in kiosk_devices and issues the secret it authenticates with (see _shared/deviceAuth.ts).
+// The secret is returned once and only its hash is stored.
+//
+// Actions:
+// - enroll: { device: { deviceId, name, enrolledBy, platform, model, osVersion, appVersion, buildNumber } }
+//   A device id that already holds a secret can only be re-enrolled by that device (its current credentials),
+//   so nobody can take over an enrolled tablet's identity. enrolledBy must be an active admin or manager.
+//   Enrolling a new device needs only the anon key, like the rest of the admin screens - the check keeps
+//   out callers that never enrolled and devices that were unenrolled or wiped, not a fake enrollment
+// - unenroll: device credentials required. Clears the secret, so the device id can be enrolled again
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { corsHeaders } from '../_shared/cors.ts';
+import { authenticateDevice, hashDeviceSecret } from '../_shared/deviceAuth.ts';
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const generateSecret = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(32))).map(b => b.toString(16).padStart(2, '0')).join('');
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing Supabase configuration');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const { action, device } = await req.json();
+    const caller = await authenticateDevice(supabase, req);
+
+    switch (action) {
+      case 'enroll': {
+        if (!device?.deviceId || !device?.name?.trim() || !device?.enrolledBy) {
+          return jsonResponse({ success: false, error: 'deviceId, name and enrolledBy are required' }, 400);
+        }
+
+        const { data: admin } = await supabase
+          .from('employees')
+          .select('id')
+          .eq('id', device.enrolledBy)
+          .eq('status', 'active')
+          .in('role', ['admin', 'manager'])
+          .maybeSingle();
+        if (!admin) {
+          return jsonResponse({ success: false, error: 'Only an active admin or manager can enroll a device' }, 403);
+        }
+
+        const { data: existing } = await supabase
+          .from('kiosk_devices')
+          .select('secret_hash')
+          .eq('device_id', device.deviceId)
+          .maybeSingle();
+        if (existing?.secret_hash && caller?.deviceId !== device.deviceId) {
+          return jsonResponse({ success: false, error: 'This device id is already enrolled - wipe it from the fleet screen first' }, 409);
+        }
+
+        const secret = generateSecret();
+        const { error } = await supabase
+          .from('kiosk_devices')
+          .upsert([{
+            device_id: device.deviceId,
+            name: device.name.trim(),
+            status: 'active',
+            enrolled_at: new Date().toISOString(),
+            enrolled_by: device.enrolledBy,
+            platform: device.platform,
+            model: device.model,
+            os_version: device.osVersion,
+            app_version: device.appVersion,
+            build_number: device.buildNumber,
+            secret_hash: await hashDeviceSecret(secret),
+          }], { onConflict: 'device_id' });
+        if (error) throw error;
+
+        console.log(`📟 Enrolled device ${device.deviceId} ("${device.name.trim()}")`);
+        return jsonResponse({ success: true, secret });
+      }
+
+      case 'unenroll': {
+        if (!caller) {
+          return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+        }
+
+        const { error } = await supabase
+          .from('kiosk_devices')
+          .update({ status: 'unenrolled', secret_hash: null })
+          .eq('device_id', caller.deviceId);
+        if (error) throw error;
+
+        console.log(`📟 Unenrolled device ${caller.deviceId}`);
+        return jsonResponse({ success: true });
+      }
+
+      default:
+        return jsonResponse({ success: false, error: `Unknown action: ${action}` }, 400);
+    }
+  } catch (error) {
+    console.error('❌ Device enrollment error:', error);
+    return jsonResponse({ success: false, error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
@@ -0,0 +1,316 @@
+// Record Ingestion Edge Function
+// Single idempotent entry point for surveys and time entries uploaded by kiosks.
+// Every record carries the client id and an idempotency key; replays return the original result
+// instead of writing a second row. Receipts live in ingestion_receipts
+// (idempotency_key primary key, kind, client_id, server_id, device_id, status, received_at)
+// Writes use the service role, so the caller must be an enrolled kiosk (device id + secret headers, see
+// _shared/deviceAuth.ts) or a signed-in user - the bare anon key is refused
+
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { corsHeaders } from '../_shared/cors.ts';
+import { authenticateCaller } from '../_shared/deviceAuth.ts';
+
+type RecordKind = 'survey' | 'time_entry';
+
+interface IngestRecord {
+  kind: RecordKind;
+  clientId: string;
+  idempotencyKey: string;
+  data: Record<string, any>;
+}
+
+interface IngestResult {
+  idempotencyKey: string;
+  clientId: string;
+  status: 'created' | 'updated' | 'duplicate' | 'invalid' | 'error';
+  serverId?: string;
+  error?: string;
+}
+
+const MAX_BATCH_SIZE = 100;
+
+// A claim older than this belongs to a request that died mid-write - a retry may take it over
+const PROCESSING_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Columns a device may write - anything else in the payload is dropped
+const SURVEY_COLUMNS = [
+  'id', 'employee_id', 'employee_alias', 'store', 'store_name', 'store_number', 'store_address',
+  'timestamp', 'answers', 'signature', 'category', 'appointment', 'synced_to_salesforce',
+  'synced_to_zapier', 'is_duplicate', 'duplicate_reviewed', 'duplicate_info', 'location_verified',
+  'sync_error', 'salesforce_id', 'salesforce_verified', 'salesforce_verified_at',
+  'survey_definition_id', 'survey_definition_version', 'experiment_assignments', 'consent',
+  'redacted_at', 'kiosk_duplicate_check',
+];
+
+const TIME_ENTRY_COLUMNS = [
+  'employee_id', 'clock_in', 'clock_out', 'store', 'store_name', 'store_number', 'store_address',
+  'synced_to_adp', 'is_active_in_kiosk', 'gps_latitude', 'gps_longitude', 'gps_accuracy',
+  'photo_uri', 'location_verified', 'distance_from_store', 'breaks',
+];
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isTimestamp = (value: unknown): boolean =>
+  isNonEmptyString(value) && !isNaN(new Date(value).getTime());
+
+const pickColumns = (data: Record<string, any>, columns: string[]) =>
+  Object.fromEntries(columns.filter(c => data[c] !== undefined).map(c => [c, data[c]]));
+
+// Returns the first problem with the record, or null when it is valid
+function validateRecord(record: IngestRecord): string | null {
+  if (!record || typeof record !== 'object') return 'Record must be an object';
+  if (!isNonEmptyString(record.clientId)) return 'Missing clientId';
+  if (!isNonEmptyString(record.idempotencyKey)) return 'Missing idempotencyKey';
+  if (!record.data || typeof record.data !== 'object') return 'Missing data';
+
+  const { data } = record;
+  switch (record.kind) {
+    case 'survey':
+      if (data.id !== record.clientId) return 'Survey id must match clientId';
+      if (!isNonEmptyString(data.employee_id)) return 'Missing employee_id';
+      if (!isTimestamp(data.timestamp)) return 'Invalid timestamp';
+      if (!data.answers || typeof data.answers !== 'object') return 'Missing answers';
+      if (!isNonEmptyString(data.category)) return 'Missing category';
+      return null;
+    case 'time_entry':
+      if (!isNonEmptyString(data.employee_id)) return 'Missing employee_id';
+      if (!isTimestamp(data.clock_in)) return 'Invalid clock_in';
+      if (data.clock_out != null) {
+        if (!isTimestamp(data.clock_out)) return 'Invalid clock_out';
+        if (new Date(data.clock_out) < new Date(data.clock_in)) return 'clock_out is before clock_in';
+      }
+      if (data.breaks != null && !Array.isArray(data.breaks)) return 'breaks must be an array';
+      return null;
+    default:
+      return `Unknown kind: ${(record as any).kind}`;
+  }
+}
+
+// Offline clock-ins use temp_ ids - the server row they became is remembered on their receipts
+async function findTimeEntryServerId(supabase: SupabaseClient, clientId: string): Promise<string | null> {
+  if (!clientId.startsWith('temp_')) return clientId;
+
+  const { data } = await supabase
+    .from('ingestion_receipts')
+    .select('server_id')
+    .eq('kind', 'time_entry')
+    .eq('client_id', clientId)
+    .not('server_id', 'is', null)
+    .limit(1);
+  return data?.[0]?.server_id || null;
+}
+
+async function applyRecord(
+  supabase: SupabaseClient,
+  record: IngestRecord
+): Promise<{ status: 'created' | 'updated'; serverId: string }> {
+  if (record.kind === 'survey') {
+    // Survey ids are generated on the device and referenced by Salesforce/Zapier, so they are kept
+    const { data: existing } = await supabase
+      .from('surveys')
+      .select('id, version')
+      .eq('id', record.clientId)
+      .limit(1);
+
+    const row: Record<string, any> = pickColumns(record.data, SURVEY_COLUMNS);
+    if (existing && existing.length > 0) {
+      // Keep the per-record version moving so devices editing this survey see the upload as a change
+      row.version = (existing[0].version ?? 0) + 1;
+      row.updated_at = new Date().toISOString();
+    }
+
+    const { error } = await supabase
+      .from('surveys')
+      .upsert([row]);
+    if (error) throw new Error(error.message);
+
+    return { status: existing && existing.length > 0 ? 'updated' : 'created', serverId: record.clientId };
+  }
+
+  const row = pickColumns(record.data, TIME_ENTRY_COLUMNS);
+  const serverId = await findTimeEntryServerId(supabase, record.clientId);
+
+  if (serverId) {
+    const { data, error } = await supabase
+      .from('time_entries')
+      .update(row)
+      .eq('id', serverId)
+      .select('id');
+    if (error) throw new Error(error.message);
+    if (data && data.length > 0) return { status: 'updated', serverId };
+    if (record.clientId.startsWith('temp_')) throw new Error(`Time entry ${serverId} no longer exists`);
+
+    // A non-temp id the server has never seen (e.g. restored from a backup) - keep it
+    const { error: insertError } = await supabase
+      .from('time_entries')
+      .insert([{ id: serverId, ...row }]);
+    if (insertError) throw new Error(insertError.message);
+    return { status: 'created', serverId };
+  }
+
+  const { data, error } = await supabase
+    .from('time_entries')
+    .insert([row])
+    .select('id')
+    .single();
+  if (error) throw new Error(error.message);
+  return { status: 'created', serverId: data.id };
+}
+
+async function ingestRecord(
+  supabase: SupabaseClient,
+  record: IngestRecord,
+  deviceId: string | null
+): Promise<IngestResult> {
+  const base = { idempotencyKey: record.idempotencyKey, clientId: record.clientId };
+
+  // Claim the key first - a concurrent or repeated upload of the same record hits the primary key
+  const { error: claimError } = await supabase
+    .from('ingestion_receipts')
+    .insert({
+      idempotency_key: record.idempotencyKey,
+      kind: record.kind,
+      client_id: record.clientId,
+      device_id: deviceId,
+      status: 'processing',
+      received_at: new Date().toISOString(),
+    });
+
+  if (claimError) {
+    if (claimError.code !== '23505') throw new Error(claimError.message);
+
+    const { data: receipt } = await supabase
+      .from('ingestion_receipts')
+      .select('server_id, status, received_at')
+      .eq('idempotency_key', record.idempotencyKey)
+      .single();
+    if (receipt?.status === 'applied') {
+      return { ...base, status: 'duplicate', serverId: receipt.server_id };
+    }
+    if (!receipt || Date.now() - new Date(receipt.received_at).getTime() < PROCESSING_TIMEOUT_MS) {
+      return { ...base, status: 'error', error: 'Record is already being processed' };
+    }
+
+    // Stale claim - take it over only if nobody else refreshed it first
+    const { data: takenOver } = await supabase
+      .from('ingestion_receipts')
+      .update({ device_id: deviceId, received_at: new Date().toISOString() })
+      .eq('idempotency_key', record.idempotencyKey)
+      .eq('status', 'processing')
+      .eq('received_at', receipt.received_at)
+      .select('idempotency_key');
+    if (!takenOver || takenOver.length === 0) {
+      return { ...base, status: 'error', error: 'Record is already being processed' };
+    }
+    console.log(`♻️ Took over stale claim for ${record.idempotencyKey}`);
+  }
+
+  try {
+    const { status, serverId } = await applyRecord(supabase, record);
+    await supabase
+      .from('ingestion_receipts')
+      .update({ status: 'applied', server_id: serverId })
+      .eq('idempotency_key', record.idempotencyKey);
+    return { ...base, status, serverId };
+  } catch (error) {
+    // Release the claim so the device can retry
+    await supabase.from('ingestion_receipts').delete().eq('idempotency_key', record.idempotencyKey);
+    throw error;
+  }
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing Supabase configuration');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const caller = await authenticateCaller(supabase, req);
+    if (!caller) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { records } = await req.json();
+    const deviceId = caller.kind === 'device' ? caller.deviceId : null;
+
+    if (!Array.isArray(records) || records.length === 0 || records.length > MAX_BATCH_SIZE) {
+      return new Response(
+        JSON.stringify({ success: false, error: `records must be an array of 1-${MAX_BATCH_SIZE} items` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`📥 Ingesting ${records.length} records from ${caller.kind === 'device' ? `device ${caller.deviceId}` : `user ${caller.userId}`}`);
+
+    const results: IngestResult[] = [];
+    const seen = new Map<string, IngestResult>();
+
+    for (const record of records as IngestRecord[]) {
+      const problem = validateRecord(record);
+      if (problem) {
+        results.push({
+          idempotencyKey: record?.idempotencyKey,
+          clientId: record?.clientId,
+          status: 'invalid',
+          error: problem,
+        });
+        continue;
+      }
+
+      // The same key twice in one batch is applied once
+      const earlier = seen.get(record.idempotencyKey);
+      if (earlier) {
+        results.push({ ...earlier, clientId: record.clientId, status: earlier.status === 'error' ? 'error' : 'duplicate' });
+        continue;
+      }
+
+      let result: IngestResult;
+      try {
+        result = await ingestRecord(supabase, record, deviceId);
+      } catch (error) {
+        result = {
+          idempotencyKey: record.idempotencyKey,
+          clientId: record.clientId,
+          status: 'error',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+      seen.set(record.idempotencyKey, result);
+      results.push(result);
+    }
+
+    const counts = results.reduce<Record<string, number>>((acc, r) => {
+      acc[r.status] = (acc[r.status] || 0) + 1;
+      return acc;
+    }, {});
+    console.log('✅ Ingestion complete:', counts);
+
+    return new Response(
+      JSON.stringify({ success: true, results }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error ingesting records:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,42 @@
+// Privacy Hash Key Edge Function
+// Hands the HMAC key for privacy identifiers (blocklist, SMS opt-outs, duplicate index, privacy request audit rows) to enrolled
+// devices and signed-in users (see _shared/deviceAuth.ts), so kiosks can check the blocklist offline while the hashes in the database stay useless
+// without it
+//
+// Environment:
+// - PRIVACY_HASH_SECRET: HMAC-SHA256 key for phone/email hashes. Rotating it orphans existing hashes
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { corsHeaders } from '../_shared/cors.ts';
+import { authenticateCaller } from '../_shared/deviceAuth.ts';
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const secret = Deno.env.get('PRIVACY_HASH_SECRET');
+    if (!supabaseUrl || !supabaseServiceKey || !secret) {
+      throw new Error('Missing Supabase or PRIVACY_HASH_SECRET configuration');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    if (!(await authenticateCaller(supabase, req))) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    return jsonResponse({ success: true, key: secret });
+  } catch (error) {
+    console.error('❌ Privacy hash key error:', error);
+    return jsonResponse({ success: false, error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
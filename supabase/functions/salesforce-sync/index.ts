@@ -3,6 +3,7 @@
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
 import { corsHeaders } from '../_shared/cors.ts';
+import { createIdentifierHasher, getPrivacyHashSecret } from '../_shared/privacyHash.ts';
 
 interface SalesforceAuthResponse {
   access_token: string;
@@ -132,8 +133,30 @@ Deno.serve(async (req) => {
         const { phone } = data;
         const queryUrl = `${instanceUrl}/services/data/v57.0/query`;
 
+        // Phone fields are free text - match every common way the same number gets stored
+        const digits = String(phone || '').replace(/\D/g, '').slice(-10);
+        if (digits.length !== 10) {
+          return new Response(
+            JSON.stringify({ isDuplicate: false }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+        const [area, exchange, line] = [digits.slice(0, 3), digits.slice(3, 6), digits.slice(6)];
+        const phoneVariants = [
+          `(${area}) ${exchange}-${line}`,
+          `${area}-${exchange}-${line}`,
+          `${area}.${exchange}.${line}`,
+          `${area} ${exchange} ${line}`,
+          digits,
+          `1${digits}`,
+          `+1${digits}`,
+          `+1 (${area}) ${exchange}-${line}`,
+          `+1 ${area}-${exchange}-${line}`,
+          `1 (${area}) ${exchange}-${line}`,
+        ].map(v => `'${v}'`).join(', ');
+
         // Check Leads first
-        const leadQuery = `SELECT Id, Name, Email FROM Lead WHERE Phone = '${phone}' LIMIT 1`;
+        const leadQuery = `SELECT Id, Name, Email FROM Lead WHERE Phone IN (${phoneVariants}) OR MobilePhone IN (${phoneVariants}) LIMIT 1`;
         const leadResponse = await fetch(
           `${queryUrl}?q=${encodeURIComponent(leadQuery)}`,
           {
@@ -162,7 +185,7 @@ Deno.serve(async (req) => {
         }
 
         // Check Accounts
-        const accountQuery = `SELECT Id, Name, PersonEmail FROM Account WHERE PersonMobilePhone = '${phone}' OR Phone = '${phone}' LIMIT 1`;
+        const accountQuery = `SELECT Id, Name, PersonEmail FROM Account WHERE PersonMobilePhone IN (${phoneVariants}) OR Phone IN (${phoneVariants}) LIMIT 1`;
         const accountResponse = await fetch(
           `${queryUrl}?q=${encodeURIComponent(accountQuery)}`,
           {
@@ -277,6 +300,169 @@ Deno.serve(async (req) => {
         );
       }
 
+      case 'find_contact_records': {
+        // Every Lead/Account for a customer - SOSL phone search ignores formatting differences
+        const { phone, email } = data;
+        const escapeSosl = (value: string) => value.replace(/[?&|!{}[\]()^~*:\\"'+-]/g, '\\$&');
+        const searches: string[] = [];
+        if (phone) searches.push(`FIND {${escapeSosl(phone)}} IN PHONE FIELDS`);
+        if (email) searches.push(`FIND {${escapeSosl(email)}} IN EMAIL FIELDS`);
+
+        const records = new Map<string, { recordType: string; salesforceId: string; recordName?: string }>();
+        for (const search of searches) {
+          const sosl = `${search} RETURNING Lead(Id, Name), Account(Id, Name)`;
+          const response = await fetch(
+            `${instanceUrl}/services/data/v57.0/search?q=${encodeURIComponent(sosl)}`,
+            {
+              headers: {
+                'Authorization': `Bearer ${accessToken}`,
+                'Content-Type': 'application/json',
+              },
+            }
+          );
+
+          if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`Salesforce search failed: ${response.status} - ${errorText}`);
+          }
+
+          const result = await response.json();
+          for (const record of result.searchRecords || []) {
+            records.set(record.Id, {
+              recordType: record.attributes.type,
+              salesforceId: record.Id,
+              recordName: record.Name,
+            });
+          }
+        }
+
+        return new Response(
+          JSON.stringify({ records: Array.from(records.values()) }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'recent_lead_index': {
+        // HMAC (PRIVACY_HASH_SECRET) of recent Leads' phone/email for the kiosk's offline duplicate check.
+        // Enrolled devices hold the key, so the index still identifies customers - kiosks keep it encrypted
+        const days = Math.min(Math.max(Number(data?.days) || 180, 1), 730);
+        const hashIdentifier = await createIdentifierHasher(getPrivacyHashSecret());
+        const phoneDigits = (phone: string | null) => {
+          const digits = String(phone || '').replace(/\D/g, '');
+          if (digits.length === 11 && digits.startsWith('1')) return digits.slice(1);
+          return digits.length === 10 ? digits : '';
+        };
+
+        const entries: { kind: 'phone' | 'email'; hash: string; createdAt: string }[] = [];
+        const query = `SELECT Id, Phone, MobilePhone, Email, CreatedDate FROM Lead WHERE CreatedDate = LAST_N_DAYS:${days}`;
+        let nextUrl: string | null = `/services/data/v57.0/query?q=${encodeURIComponent(query)}`;
+
+        while (nextUrl) {
+          const response: Response = await fetch(`${instanceUrl}${nextUrl}`, {
+            headers: {
+              'Authorization': `Bearer ${accessToken}`,
+              'Content-Type': 'application/json',
+            },
+          });
+
+          if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`Salesforce lead index query failed: ${response.status} - ${errorText}`);
+          }
+
+          const result: { records?: any[]; done: boolean; nextRecordsUrl?: string } = await response.json();
+          for (const record of result.records || []) {
+            for (const phone of [record.Phone, record.MobilePhone]) {
+              const digits = phoneDigits(phone);
+              if (digits) entries.push({ kind: 'phone', hash: await hashIdentifier(digits), createdAt: record.CreatedDate });
+            }
+            if (record.Email) {
+              entries.push({ kind: 'email', hash: await hashIdentifier(String(record.Email).trim().toLowerCase()), createdAt: record.CreatedDate });
+            }
+          }
+          nextUrl = result.done ? null : result.nextRecordsUrl || null;
+        }
+
+        console.log(`📇 Built lead index: ${entries.length} hashed identifiers from the last ${days} days`);
+        return new Response(
+          JSON.stringify({ success: true, entries }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'lead_installs': {
+        // Leads that reached an install status since a day, each with its survey and the time it got there.
+        // The install time comes from Status field history, or the last change when history isn't tracked
+        const statuses: string[] = Array.isArray(data?.statuses) ? data.statuses.map(String) : [];
+        const since = String(data?.since || '');
+        if (statuses.length === 0 || !/^\d{4}-\d{2}-\d{2}$/.test(since)) {
+          throw new Error('statuses and since (YYYY-MM-DD) are required for lead_installs action');
+        }
+
+        const statusList = statuses.map(s => `'${s.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`).join(', ');
+        const query = `SELECT Id, Survey_ID__c, LastModifiedDate, ` +
+          `(SELECT NewValue, CreatedDate FROM Histories WHERE Field = 'Status' ORDER BY CreatedDate) ` +
+          `FROM Lead WHERE Status IN (${statusList}) AND Survey_ID__c != null AND LastModifiedDate >= ${since}T00:00:00Z`;
+        let nextUrl: string | null = `/services/data/v57.0/query?q=${encodeURIComponent(query)}`;
+
+        const installs: { leadId: string; surveyId: string; installedAt: string }[] = [];
+        while (nextUrl) {
+          const response: Response = await fetch(`${instanceUrl}${nextUrl}`, {
+            headers: {
+              'Authorization': `Bearer ${accessToken}`,
+              'Content-Type': 'application/json',
+            },
+          });
+
+          if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`Salesforce lead installs query failed: ${response.status} - ${errorText}`);
+          }
+
+          const result: { records?: any[]; done: boolean; nextRecordsUrl?: string } = await response.json();
+          for (const record of result.records || []) {
+            const changes: any[] = record.Histories?.records || [];
+            const installedAt = changes.filter(change => statuses.includes(String(change.NewValue))).pop()?.CreatedDate
+              || record.LastModifiedDate;
+            installs.push({ leadId: record.Id, surveyId: record.Survey_ID__c, installedAt });
+          }
+          nextUrl = result.done ? null : result.nextRecordsUrl || null;
+        }
+
+        console.log(`🔧 Found ${installs.length} installed leads since ${since}`);
+        return new Response(
+          JSON.stringify({ success: true, installs }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'flag_do_not_contact': {
+        const { recordId, recordType } = data;
+        const updateUrl = `${instanceUrl}/services/data/v57.0/sobjects/${recordType}/${recordId}`;
+        const flags = recordType === 'Account'
+          ? { PersonDoNotCall: true, PersonHasOptedOutOfEmail: true }
+          : { DoNotCall: true, HasOptedOutOfEmail: true };
+
+        const response = await fetch(updateUrl, {
+          method: 'PATCH',
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(flags),
+        });
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw new Error(`Salesforce do-not-contact update failed: ${response.status} - ${errorText}`);
+        }
+
+        return new Response(
+          JSON.stringify({ success: true }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
       case 'run_report': {
         // Run a Salesforce report and return results
         const { reportId } = data;
@@ -1,5 +1,5 @@
 // @ts-nocheck
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useCallback, useContext, useMemo, useState, ReactNode } from 'react';
 import { Platform, Alert } from 'react-native';
 import { AlertButton, AlertState } from './types';
 
@@ -24,7 +24,8 @@ export function AlertProvider({ children }: AlertProviderProps) {
     buttons: []
   });
 
-  const showAlert = (
+  // Stable across renders, so screens can list it in hook dependencies
+  const showAlert = useCallback((
     title: string,
     message?: string,
     buttons?: AlertButton[]
@@ -54,7 +55,7 @@ export function AlertProvider({ children }: AlertProviderProps) {
       
       Alert.alert(title, normalizedMessage, alertButtons);
     }
-  };
+  }, []);
 
   const hideAlert = () => {
     setAlertState(prev => ({ ...prev, visible: false }));
@@ -74,9 +75,9 @@ export function AlertProvider({ children }: AlertProviderProps) {
     }
   };
 
-  const contextValue: AlertContextType = {
+  const contextValue: AlertContextType = useMemo(() => ({
     showAlert
-  };
+  }), [showAlert]);
 
   return (
     <AlertContext.Provider value={contextValue}>
@@ -21,6 +21,8 @@ export interface Employee {
   profilePictureUri?: string; // Profile picture URI
   isTeamLead?: boolean; // True if this employee is a team lead
   teamLeadId?: string; // ID of the team lead managing this employee
+  version?: number; // Bumped on every cloud write - see services/conflictService.ts
+  updatedAt?: string;
 }
 
 export interface EmployeeDocument {
@@ -51,6 +53,133 @@ export interface TimeEntry {
   photoUri?: string;
   locationVerified?: boolean; // True if GPS matched to a known store
   distanceFromStore?: number; // Distance in meters from matched store
+  breaks?: TimeEntryBreak[];
+  correctionHistory?: TimeEntryCorrectionRecord[]; // Approved time-card corrections, oldest first
+}
+
+export interface TimeEntryBreak {
+  start: string;
+  end?: string;
+}
+
+// Before/after of one approved correction (see services/timeCorrectionService.ts)
+export interface TimeEntryCorrectionRecord {
+  requestId: string;
+  before: { clockIn: string; clockOut?: string };
+  after: { clockIn: string; clockOut: string };
+  reason: string;
+  requestedBy: string;
+  approvedBy: string;
+  approvedAt: string;
+}
+
+// Time clock changes are recorded on the device first and replayed against the server in order
+export type TimeClockEventType = 'clock_in' | 'clock_out' | 'break_start' | 'break_return' | 'kiosk_active';
+
+export interface TimeClockEvent {
+  id: string;
+  type: TimeClockEventType;
+  timeEntryId: string; // temp_ id until the clock-in reaches the server
+  employeeId: string;
+  occurredAt: string;
+  isActive?: boolean; // kiosk_active only
+}
+
+// Every write that has to leave the device goes through one persistent outbox
+export type OutboxItemType = 'survey' | 'time_entry' | 'time_clock' | 'salesforce_lead' | 'zapier_appointment';
+
+export type OutboxItemStatus = 'pending' | 'in_flight' | 'dead';
+
+export interface OutboxItem {
+  id: string;
+  type: OutboxItemType;
+  idempotencyKey: string; // e.g. salesforce_lead:<surveyId> - enqueueing the same key twice is a no-op
+  entityId: string; // survey / time entry the item belongs to
+  dependsOn?: string[]; // idempotency keys that must be delivered first
+  label?: string; // shown on the sync dashboard
+  payload: any;
+  status: OutboxItemStatus;
+  attempts: number;
+  createdAt: string;
+  nextAttemptAt: string;
+  claimedAt?: string;
+  lastError?: string;
+  deadAt?: string;
+}
+
+// Server-side ingestion (ingest-records edge function)
+export type IngestRecordKind = 'survey' | 'time_entry';
+
+export interface IngestRecord {
+  kind: IngestRecordKind;
+  clientId: string; // id generated on the device (temp_ ids for offline clock-ins)
+  idempotencyKey: string;
+  data: Record<string, any>; // database row (snake_case columns)
+}
+
+export interface IngestResult {
+  idempotencyKey: string;
+  clientId: string;
+  status: 'created' | 'updated' | 'duplicate' | 'invalid' | 'error';
+  serverId?: string; // id of the row on the server - differs from clientId for offline clock-ins
+  error?: string;
+}
+
+// Kiosk fleet (enrolled tablets, heartbeats and remote commands)
+export type KioskDeviceStatus = 'active' | 'locked' | 'unenrolled';
+
+export interface KioskDevice {
+  deviceId: string; // Generated once per install (deviceIdentity.getDeviceId)
+  name: string;
+  status: KioskDeviceStatus;
+  enrolledAt: string;
+  enrolledBy?: string;
+  platform: string;
+  model?: string;
+  osVersion?: string;
+  appVersion?: string;
+  buildNumber?: string;
+  store?: Store;
+  storeName?: string;
+  currentEmployeeId?: string;
+  lastHeartbeatAt?: string;
+  lastSuccessfulSyncAt?: string;
+  queuePending: number;
+  queueDead: number;
+  batteryLevel?: number; // 0-1
+  freeStorageBytes?: number;
+  totalStorageBytes?: number;
+}
+
+export type DeviceCommandType = 'force_sync' | 'upload_diagnostics' | 'lock' | 'unlock' | 'wipe';
+
+export interface DeviceCommand {
+  id: string;
+  deviceId: string;
+  type: DeviceCommandType;
+  status: 'pending' | 'completed' | 'failed';
+  issuedBy: string;
+  issuedAt: string;
+  completedAt?: string;
+  result?: string;
+}
+
+export type VersionedRecordType = 'employee' | 'schedule' | 'message' | 'survey' | 'time_off_request' | 'alert';
+
+// A field another device changed after this device read the record - this device's value was kept
+export interface RecordConflict {
+  id: string;
+  recordType: VersionedRecordType;
+  recordId: string;
+  field: string; // Database column
+  baseValue: any; // What this device read before editing
+  localValue: any; // What this device wrote (the kept value)
+  remoteValue: any; // The other device's value that was overwritten
+  baseVersion?: number;
+  remoteVersion: number;
+  deviceId: string;
+  employeeId?: string;
+  detectedAt: string;
 }
 
 export interface Survey {
@@ -83,6 +212,68 @@ export interface Survey {
   salesforceId?: string; // Salesforce Lead/Contact record ID
   salesforceVerified?: boolean; // True if record existence was verified
   salesforceVerifiedAt?: string; // Last verification timestamp
+  surveyDefinitionId?: string; // Questionnaire the answers were collected against
+  surveyDefinitionVersion?: number;
+  experimentAssignments?: ExperimentAssignment[]; // A/B variants this session was assigned to
+  consent?: ConsentRecord; // What the customer agreed to at the signature step
+  redactedAt?: string; // PII removed by an erasure request - never re-sync to Salesforce/Zapier
+  kioskDuplicateCheck?: KioskDuplicateCheck; // Offline duplicate check run before the signature step
+  version?: number;
+  updatedAt?: string;
+}
+
+export interface KioskDuplicateMatch {
+  source: 'local_survey' | 'survey' | 'salesforce'; // local_survey = loaded on the device (may be unsynced), survey = cached index
+  matchedOn: 'phone' | 'email';
+  surveyId?: string;
+  seenAt?: string; // When the matching survey/lead was created
+}
+
+export interface KioskDuplicateCheck {
+  checkedAt: string;
+  indexRefreshedAt?: string; // Age of the cached lead index the check ran against
+  match?: KioskDuplicateMatch;
+  decision: 'no_match' | 'continued'; // continued = surveyor confirmed it is a new customer/visit
+}
+
+// Customer privacy requests: do-not-contact blocks future surveys, erasure also redacts past ones
+export type PrivacyRequestType = 'do_not_contact' | 'erasure';
+
+export interface PrivacySalesforceAction {
+  recordType: 'Lead' | 'Account';
+  salesforceId: string;
+  action: 'deleted' | 'flagged' | 'failed';
+  error?: string;
+}
+
+export interface PrivacyRequest {
+  id: string;
+  type: PrivacyRequestType;
+  phoneLast4?: string; // Identifiers are stored hashed - last 4 digits only for the audit screen
+  emailMasked?: string;
+  requestedBy: string; // Employee id of the admin who processed it
+  requestedAt: string;
+  completedAt?: string;
+  status: 'completed' | 'partial';
+  matchedSurveyIds: string[];
+  redactedSurveyIds: string[];
+  salesforceActions: PrivacySalesforceAction[];
+  errors: string[];
+  notes?: string;
+}
+
+export interface ConsentRecord {
+  version: string; // CONSENT_VERSIONS entry shown to the customer
+  textHash: string; // SHA-256 of the exact disclosure + checkbox text
+  consentedAt: string;
+  callConsent: boolean;
+  smsConsent: boolean;
+  deviceId: string;
+  deviceModel?: string;
+  store: Store;
+  storeName?: string;
+  storeNumber?: string;
+  gps?: { latitude: number; longitude: number; accuracy: number };
 }
 
 export interface Appointment {
@@ -92,6 +283,109 @@ export interface Appointment {
   date: string;
   time: string;
   notes?: string;
+  territoryId?: string; // Capacity pool the slot was booked against
+  overbooked?: boolean; // Set on sync when the slot turned out to be over capacity
+  overbookedAt?: string;
+  status?: AppointmentStatus; // Missing on appointments booked before lifecycle tracking = 'booked'
+  statusUpdatedAt?: string;
+  history?: AppointmentStatusChange[];
+  calendarSequence?: number; // iCalendar SEQUENCE - bumped on every change so subscribers update
+  calendarSynced?: boolean; // false = change not yet pushed to the calendar backend
+}
+
+export type AppointmentStatus = 'booked' | 'confirmed' | 'rescheduled' | 'cancelled' | 'completed';
+
+export interface AppointmentStatusChange {
+  status: AppointmentStatus;
+  at: string;
+  source: 'kiosk' | 'admin' | 'calendar' | 'sms';
+  date: string; // Slot at the time of the change (differs from the previous entry on reschedule)
+  time: string;
+  note?: string;
+}
+
+export type AppointmentMessageKind = 'confirmation' | 'reschedule' | 'reminder_24h' | 'reminder_2h' | 'reply';
+
+export interface AppointmentMessage {
+  id: string;
+  surveyId: string;
+  kind: AppointmentMessageKind;
+  channel: 'sms' | 'email';
+  status: 'pending' | 'sent' | 'failed' | 'skipped' | 'received';
+  sendAt?: string;
+  sentAt?: string;
+  body?: string; // Inbound reply text (kind 'reply')
+  error?: string;
+}
+
+export interface AppointmentTimes {
+  weekday: string[];
+  saturday: string[];
+  sunday: string[];
+}
+
+export interface AppointmentTerritory {
+  id: string;
+  name: string;
+  zipPrefixes: string[]; // "361" matches 36104; full zips match exactly
+  capacityPerSlot: number; // Installers/analysts available per time slot
+  times?: AppointmentTimes; // Overrides the default weekly slots
+}
+
+export interface AppointmentBlackout {
+  date: string; // YYYY-MM-DD
+  reason: string; // e.g. "Thanksgiving"
+  territoryId?: string; // Omit for company-wide holidays
+  times?: string[]; // Omit to block the whole day
+}
+
+export interface AppointmentAvailabilityConfig {
+  times: AppointmentTimes;
+  defaultCapacityPerSlot: number;
+  leadTimeHours: number; // Minimum notice before an appointment can start
+  maxDaysAhead: number;
+  territories: AppointmentTerritory[];
+  blackouts: AppointmentBlackout[];
+}
+
+export interface AppointmentSlot {
+  date: string;
+  time: string;
+  territoryId: string;
+  capacity: number;
+  booked: number;
+  available: boolean;
+  reason?: 'full' | 'blackout' | 'lead_time' | 'too_far';
+}
+
+export type ExperimentKind = 'survey' | 'script';
+
+export interface ExperimentVariant {
+  id: string;
+  name: string;
+  weight: number; // Relative share of traffic
+  // Survey variants
+  surveyDefinitionId?: string; // Use a different question set entirely
+  questionOrder?: string[]; // Question ids in the order to ask them (unlisted questions keep their position after)
+  questionText?: Record<string, string>; // Question id → replacement wording
+  // Script variants (app/kiosk/training.tsx)
+  scripts?: Record<string, { title?: string; content?: string }>; // Script id → replacement pitch
+}
+
+export interface Experiment {
+  id: string;
+  name: string;
+  kind: ExperimentKind;
+  status: 'draft' | 'running' | 'stopped';
+  variants: ExperimentVariant[];
+  stores?: Store[]; // Empty = all stores
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface ExperimentAssignment {
+  experimentId: string;
+  variantId: string;
 }
 
 export interface Schedule {
@@ -102,6 +396,8 @@ export interface Schedule {
   endTime: string;
   store: Store;
   status: 'scheduled' | 'completed' | 'missed';
+  version?: number;
+  updatedAt?: string;
 }
 
 export interface TimeOffRequest {
@@ -112,6 +408,8 @@ export interface TimeOffRequest {
   reason: string;
   status: 'pending' | 'approved' | 'denied';
   requestedAt: string;
+  version?: number;
+  updatedAt?: string;
 }
 
 export interface Message {
@@ -124,6 +422,8 @@ export interface Message {
   readBy: string[];
   reactions: Record<string, string[]>; // emoji -> employeeIds
   isGroupMessage: boolean;
+  version?: number;
+  updatedAt?: string;
 }
 
 export interface DayAvailability {
@@ -168,6 +468,203 @@ export interface CompensationSettings {
   quota: number; // Default: 5 surveys/hour
 }
 
+// Compensation plans (see services/compensationPlanService.ts). Every change is a new version row,
+// so past pay periods keep computing with the plan that was in force
+export type CompensationPlanScope = 'global' | 'market' | 'team' | 'employee';
+
+export type QuotaBasis = 'period' | 'daily'; // Average over the whole pay period, or each worked day on its own
+
+export interface CompensationBonusTier {
+  afterInstalls: number; // Applies from install number afterInstalls + 1 in a calendar month
+  surveyInstallBonus: number;
+  appointmentInstallBonus: number;
+}
+
+export interface CompensationPlan extends CompensationSettings {
+  id: string; // One per version
+  planId: string; // Shared by all versions of a plan
+  version: number;
+  name: string;
+  scope: CompensationPlanScope;
+  scopeId?: string; // Employee id, team lead id or market (store state, e.g. "FL"); unset for global
+  effectiveFrom: string; // YYYY-MM-DD - used from the first pay period starting on or after this day
+  status: 'active' | 'retired'; // A retired version ends the plan from its effective date
+  quotaBasis: QuotaBasis;
+  belowQuotaHourlyRate: number;
+  bonusTiers: CompensationBonusTier[];
+  createdBy?: string;
+  createdAt: string;
+}
+
+// Pay-period earnings (see services/payrollService.ts)
+export interface PayPeriod {
+  start: string; // YYYY-MM-DD, first day
+  end: string; // YYYY-MM-DD, last day (inclusive)
+  frequency?: PayFrequency; // Set by payrollService.getPayPeriod
+}
+
+export interface EarningsAdjustment {
+  id: string;
+  amount: number; // Negative for deductions
+  reason: string;
+  addedBy: string;
+  addedAt: string;
+}
+
+export interface EarningsStatement {
+  id: string; // `${employeeId}_${periodStart}`
+  employeeId: string;
+  periodStart: string;
+  periodEnd: string;
+  status: 'draft' | 'approved';
+  hoursWorked: number; // Completed shifts, breaks excluded
+  openShifts: number; // Shifts without a clock-out - not paid until closed
+  qualifiedSurveys: number;
+  surveysPerHour: number;
+  metQuota: boolean; // Every paid hour met quota
+  fullRateHours: number;
+  belowQuotaHours: number; // Paid at plan.belowQuotaHourlyRate
+  basePay: number;
+  surveyInstalls: number;
+  appointmentInstalls: number;
+  tieredInstalls: number; // Paid at a bonus tier rate rather than the plan's base bonus
+  surveyInstallPay: number;
+  appointmentInstallPay: number;
+  adjustments: EarningsAdjustment[];
+  total: number;
+  plan: CompensationPlan; // Plan version the statement was calculated with
+  calculatedAt: string;
+  approvedBy?: string;
+  approvedAt?: string;
+}
+
+// Time-card corrections - employees request new times for a shift, a manager approves or denies
+export type TimeCorrectionStatus = 'pending' | 'approved' | 'denied';
+
+// A correction to a shift whose pay period is already in ADP - sent with the next pay-period export
+// as a reversal of the original hours plus the corrected hours, at the original period's rate
+export interface TimeCorrectionAdpResync {
+  periodStart: string; // Pay period the shift was exported in
+  reversedHours: number;
+  reversedAmount: number;
+  correctedHours: number;
+  correctedAmount: number;
+  status: 'pending' | 'synced';
+  batchId?: string;
+  syncedAt?: string;
+}
+
+export interface TimeCorrectionRequest {
+  id: string;
+  timeEntryId: string;
+  employeeId: string;
+  original: { clockIn: string; clockOut?: string }; // Shift times when the request was made
+  requestedClockIn: string;
+  requestedClockOut: string;
+  reason: string;
+  status: TimeCorrectionStatus;
+  requestedAt: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewNote?: string;
+  adpResync?: TimeCorrectionAdpResync;
+}
+
+// Pay schedule - each row applies from its anchor date (the first day of a period) until the next row
+export type PayFrequency = 'weekly' | 'biweekly';
+
+export interface PaySchedule {
+  id: string;
+  frequency: PayFrequency;
+  anchorDate: string; // YYYY-MM-DD - first day of the first period on this schedule
+  createdBy?: string;
+  createdAt: string;
+}
+
+// Pay-period close - exceptions are reviewed, the period is locked, then exported to ADP as one batch
+export type PayrollExceptionType = 'missing_clock_out' | 'forced_clock_out' | 'unverified_location';
+
+export interface PayrollException {
+  id: string; // `${type}:${timeEntryId}`
+  type: PayrollExceptionType;
+  employeeId: string;
+  timeEntryId: string;
+  clockIn: string;
+  detail: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  note?: string;
+}
+
+export type PayPeriodCloseStatus = 'open' | 'locked' | 'exported';
+
+export interface PayrollExportLine {
+  employeeId: string;
+  correctionId?: string; // Set for a corrected shift from an earlier, already exported period
+  employeeName: string;
+  adpEmployeeId?: string;
+  hours: number;
+  basePay: number;
+  bonusPay: number; // Install bonuses
+  adjustments: number;
+  total: number;
+  status: 'accepted' | 'rejected' | 'skipped';
+  error?: string;
+}
+
+export interface PayrollReconciliation {
+  batchId: string;
+  submittedAt: string;
+  submittedBy?: string;
+  lines: PayrollExportLine[];
+  expectedHours: number; // Approved statements
+  expectedTotal: number;
+  exportedHours: number; // Accepted by ADP (this batch and earlier attempts)
+  exportedTotal: number;
+  timeEntriesMarked: number; // Shifts flagged synced_to_adp
+}
+
+export interface PayPeriodClose {
+  id: string; // Period start
+  periodStart: string;
+  periodEnd: string;
+  frequency: PayFrequency;
+  status: PayPeriodCloseStatus;
+  reviewedExceptions: PayrollException[];
+  timeEntryIds: string[]; // Shifts covered by the locked period
+  autoApprovedStatementIds: string[]; // Drafts the lock approved - reopened when the period is unlocked
+  lockedBy?: string;
+  lockedAt?: string;
+  exportedAt?: string;
+  reconciliation?: PayrollReconciliation; // Latest export attempt
+}
+
+// Labor compliance - a rule set to null is not enforced (see services/laborRulesService.ts)
+export interface LaborRules {
+  weeklyOvertimeHours: number | null; // Paid hours in a Monday-Sunday workweek before overtime
+  dailyOvertimeHours: number | null;
+  mealBreakAfterHours: number | null; // A meal break has to start before this many hours on the clock
+  mealBreakMinutes: number;
+  maxShiftHours: number | null;
+  minRestHours: number | null; // Between the end of one shift and the start of the next
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+export type LaborViolationType = 'weekly_overtime' | 'daily_overtime' | 'missed_meal_break' | 'max_shift_length' | 'min_rest';
+
+export interface LaborViolation {
+  id: string; // `${type}:${employeeId}:${date or shift id}`
+  type: LaborViolationType;
+  severity: 'warning' | 'violation'; // Overtime is allowed but paid at a premium - the rest break a rule
+  employeeId: string;
+  date: string; // YYYY-MM-DD - workweek start for weekly overtime
+  shiftIds: string[]; // Time entries or schedules involved
+  measured: number; // Hours worked, on shift or rested
+  limit: number; // Hours the rule allows (or requires, for rest)
+  detail: string;
+}
+
 export interface Alert {
   id: string;
   senderId: string;
@@ -181,6 +678,8 @@ export interface Alert {
   readBy: string[];
   dismissedBy: string[];
   expiresAt?: string; // Optional expiry time
+  version?: number;
+  updatedAt?: string;
 }
 
 export interface PushNotification {
@@ -0,0 +1,47 @@
+// react-native-crypto-js ships without type declarations (CryptoJS 3.1.2 bundle: AES + MD5).
+// Only the parts the app uses are declared
+declare module 'react-native-crypto-js' {
+  namespace CryptoJS {
+    interface Encoder {
+      parse(value: string): WordArray;
+      stringify(wordArray: WordArray): string;
+    }
+
+    interface WordArray {
+      words: number[];
+      sigBytes: number;
+      toString(encoder?: Encoder): string;
+    }
+
+    interface CipherParams {
+      ciphertext: WordArray;
+      iv?: WordArray;
+      toString(): string;
+    }
+
+    interface CipherOptions {
+      iv?: WordArray;
+    }
+
+    interface Cipher {
+      encrypt(message: string | WordArray, key: string | WordArray, options?: CipherOptions): CipherParams;
+      decrypt(ciphertext: string | CipherParams, key: string | WordArray, options?: CipherOptions): WordArray;
+    }
+  }
+
+  const CryptoJS: {
+    AES: CryptoJS.Cipher;
+    MD5(message: string | CryptoJS.WordArray): CryptoJS.WordArray;
+    enc: {
+      Hex: CryptoJS.Encoder;
+      Base64: CryptoJS.Encoder;
+      Utf8: CryptoJS.Encoder;
+    };
+    lib: {
+      CipherParams: {
+        create(params: Partial<CryptoJS.CipherParams>): CryptoJS.CipherParams;
+      };
+    };
+  };
+  export default CryptoJS;
+}
@@ -1,5 +1,5 @@
 // Data export utility for CSV generation
-import { Survey, TimeEntry, Employee } from '@/types';
+import { Survey, TimeEntry, Employee, PayrollReconciliation, LaborViolation } from '@/types';
 import { formatFullDateTime } from './timeFormat';
 
 // Convert data to CSV format
@@ -120,14 +120,68 @@ export const exportTimeEntriesToCSV = (timeEntries: TimeEntry[], employees: Empl
   return convertToCSV(data, headers);
 };
 
-// Download CSV file (web only)
-export const downloadCSV = (csvContent: string, filename: string) => {
+// Export an ADP pay-period reconciliation to CSV - one row per employee plus a totals row
+export const exportReconciliationToCSV = (reconciliation: PayrollReconciliation): string => {
+  const data: Record<string, string>[] = reconciliation.lines.map(line => ({
+    employee_name: line.employeeName,
+    adp_employee_id: line.adpEmployeeId || 'N/A',
+    hours: line.hours.toFixed(2),
+    base_pay: line.basePay.toFixed(2),
+    bonus_pay: line.bonusPay.toFixed(2),
+    adjustments: line.adjustments.toFixed(2),
+    total: line.total.toFixed(2),
+    status: line.status,
+    error: line.error || '',
+  }));
+  data.push({
+    employee_name: 'TOTAL EXPORTED',
+    adp_employee_id: '',
+    hours: reconciliation.exportedHours.toFixed(2),
+    base_pay: '',
+    bonus_pay: '',
+    adjustments: '',
+    total: reconciliation.exportedTotal.toFixed(2),
+    status: `of $${reconciliation.expectedTotal.toFixed(2)} approved`,
+    error: '',
+  });
+
+  const headers = [
+    'employee_name', 'adp_employee_id', 'hours', 'base_pay', 'bonus_pay', 'adjustments', 'total', 'status', 'error',
+  ];
+
+  return convertToCSV(data, headers);
+};
+
+// Download CSV file (web only) - also used for .ics exports via mimeType
+export const exportLaborViolationsToCSV = (violations: LaborViolation[], employees: Employee[]): string => {
+  const data = violations.map(violation => {
+    const employee = employees.find(e => e.id === violation.employeeId);
+    return {
+      employee_name: employee ? `${employee.firstName} ${employee.lastName}` : 'Unknown',
+      date: violation.date,
+      rule: violation.type,
+      severity: violation.severity,
+      measured_hours: violation.measured.toFixed(2),
+      limit_hours: violation.limit.toFixed(2),
+      detail: violation.detail,
+      shift_ids: violation.shiftIds.join(' '),
+    };
+  });
+
+  const headers = [
+    'employee_name', 'date', 'rule', 'severity', 'measured_hours', 'limit_hours', 'detail', 'shift_ids',
+  ];
+
+  return convertToCSV(data, headers);
+};
+
+export const downloadCSV = (csvContent: string, filename: string, mimeType = 'text/csv;charset=utf-8;') => {
   if (typeof window === 'undefined') {
     console.warn('Download only available on web');
     return;
   }
   
-  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  const blob = new Blob([csvContent], { type: mimeType });
   const link = document.createElement('a');
   const url = URL.createObjectURL(blob);
   
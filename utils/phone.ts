@@ -0,0 +1,127 @@
+// Phone number parsing and validation (NANP) - shared by the kiosk contact question,
+// duplicate detection and the Salesforce mapping so every path agrees on what a number is
+
+export type PhoneValidationError =
+  | 'empty'
+  | 'length'
+  | 'country_code'
+  | 'area_code'
+  | 'exchange_code'
+  | 'fictional'
+  | 'repeated';
+
+export interface ParsedPhone {
+  raw: string;
+  digits: string; // 10-digit national number, '' when the input can't be read as one
+  e164: string; // +1XXXXXXXXXX, '' when invalid
+  isValid: boolean;
+  error?: PhoneValidationError;
+}
+
+const PHONE_ERROR_MESSAGES: Record<PhoneValidationError, string> = {
+  empty: 'Please enter a phone number',
+  length: 'Please enter a valid 10-digit phone number',
+  country_code: 'Only US and Canadian phone numbers are supported',
+  area_code: 'The area code is not valid',
+  exchange_code: 'The phone number is not valid - please check the first 3 digits after the area code',
+  fictional: '555-01XX numbers are reserved and cannot be used',
+  repeated: 'Please enter the customer\'s real phone number',
+};
+
+/**
+ * Strip formatting and an optional +1 / 1 country code. Returns '' if not a 10-digit number
+ */
+export const getPhoneDigits = (phone?: string | null): string => {
+  const digits = (phone || '').replace(/\D/g, '');
+  if (digits.length === 10) return digits;
+  if (digits.length === 11 && digits.startsWith('1')) return digits.slice(1);
+  return '';
+};
+
+// NXX codes: first digit 2-9, and not an N11 service code (211, 411, 911...)
+const isValidNxx = (code: string) => /^[2-9]\d\d$/.test(code) && code.slice(1) !== '11';
+
+/**
+ * Parse and validate a North American number
+ */
+export const parsePhone = (raw: string): ParsedPhone => {
+  const invalid = (error: PhoneValidationError, digits = ''): ParsedPhone =>
+    ({ raw, digits, e164: '', isValid: false, error });
+
+  const allDigits = (raw || '').replace(/\D/g, '');
+  if (!allDigits) return invalid('empty');
+  if (raw.trim().startsWith('+') && !allDigits.startsWith('1')) return invalid('country_code');
+
+  const digits = getPhoneDigits(raw);
+  if (!digits) return invalid(allDigits.length > 11 || (allDigits.length === 11 && !allDigits.startsWith('1')) ? 'country_code' : 'length');
+
+  const areaCode = digits.slice(0, 3);
+  const exchange = digits.slice(3, 6);
+  const line = digits.slice(6);
+
+  // N9X area codes are reserved for expansion and 555 is not assignable
+  if (!isValidNxx(areaCode) || areaCode[1] === '9' || areaCode === '555') return invalid('area_code', digits);
+  if (!isValidNxx(exchange)) return invalid('exchange_code', digits);
+  if (exchange === '555' && line.startsWith('01')) return invalid('fictional', digits);
+  if (/^(\d)\1+$/.test(digits) || /^(\d)\1+$/.test(exchange + line)) return invalid('repeated', digits);
+
+  return { raw, digits, e164: `+1${digits}`, isValid: true };
+};
+
+export const getPhoneErrorMessage = (error: PhoneValidationError): string => PHONE_ERROR_MESSAGES[error];
+
+/**
+ * E.164 form (+1XXXXXXXXXX) of a valid number, otherwise null
+ */
+export const toE164 = (phone: string): string | null => {
+  const parsed = parsePhone(phone);
+  return parsed.isValid ? parsed.e164 : null;
+};
+
+/**
+ * (999) 999-9999 - the format Salesforce records are stored in. '' for invalid numbers
+ */
+export const formatNationalPhone = (phone: string): string => {
+  const parsed = parsePhone(phone);
+  if (!parsed.isValid) return '';
+  const { digits } = parsed;
+  return `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6)}`;
+};
+
+/**
+ * Progressive (334) 499-4646 formatting for text inputs
+ */
+export const formatPhoneAsYouType = (text: string): string => {
+  const digits = text.replace(/\D/g, '').slice(0, 10);
+  if (digits.length === 0) return '';
+  if (digits.length <= 3) return `(${digits}`;
+  if (digits.length <= 6) return `(${digits.slice(0, 3)}) ${digits.slice(3)}`;
+  return `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6)}`;
+};
+
+/**
+ * Same number regardless of formatting or +1 prefix
+ */
+export const isSamePhone = (a?: string | null, b?: string | null): boolean => {
+  const digitsA = getPhoneDigits(a);
+  return !!digitsA && digitsA === getPhoneDigits(b);
+};
+
+/**
+ * Every way the kiosk and imports have stored a number - for exact-match database filters
+ */
+export const getStoredPhoneFormats = (phone?: string | null): string[] => {
+  const digits = getPhoneDigits(phone);
+  if (!digits) return [];
+  const area = digits.slice(0, 3);
+  const exchange = digits.slice(3, 6);
+  const line = digits.slice(6);
+  return [
+    `(${area}) ${exchange}-${line}`,
+    `${area}-${exchange}-${line}`,
+    `${area}.${exchange}.${line}`,
+    digits,
+    `1${digits}`,
+    `+1${digits}`,
+  ];
+};
@@ -0,0 +1,174 @@
+// Survey flow engine - evaluates branching, termination and validation rules
+import {
+  SurveyQuestion,
+  SurveyCondition,
+  TerminationRule,
+} from '@/constants/surveyQuestions';
+
+/**
+ * Read an answer by question id, supporting nested paths (e.g. "contact_info.zipCode")
+ */
+export const getAnswerValue = (answers: Record<string, any>, questionId: string): any => {
+  return questionId.split('.').reduce((value, key) => value?.[key], answers);
+};
+
+const isAnswered = (value: any): boolean => {
+  if (value === undefined || value === null) return false;
+  if (typeof value === 'string') return value.trim().length > 0;
+  if (Array.isArray(value)) return value.length > 0;
+  return true;
+};
+
+/**
+ * Evaluate a single condition against the current answers
+ */
+export const evaluateCondition = (condition: SurveyCondition, answers: Record<string, any>): boolean => {
+  const value = getAnswerValue(answers, condition.questionId);
+  const expected = condition.value;
+
+  switch (condition.operator) {
+    case 'equals':
+      return Array.isArray(value) ? value.includes(expected) : value === expected;
+    case 'not_equals':
+      return Array.isArray(value) ? !value.includes(expected) : value !== expected;
+    case 'in':
+      return Array.isArray(expected) && expected.includes(value);
+    case 'not_in':
+      return Array.isArray(expected) && !expected.includes(value);
+    case 'gt':
+      return isAnswered(value) && Number(value) > Number(expected);
+    case 'lt':
+      return isAnswered(value) && Number(value) < Number(expected);
+    case 'answered':
+      return isAnswered(value);
+    case 'not_answered':
+      return !isAnswered(value);
+    default:
+      return false;
+  }
+};
+
+export const allConditionsMatch = (conditions: SurveyCondition[], answers: Record<string, any>): boolean => {
+  return conditions.every(condition => evaluateCondition(condition, answers));
+};
+
+export const anyConditionMatches = (conditions: SurveyCondition[], answers: Record<string, any>): boolean => {
+  return conditions.some(condition => evaluateCondition(condition, answers));
+};
+
+/**
+ * A question is shown when all showIf conditions match and no skipIf condition matches
+ */
+export const isQuestionVisible = (question: SurveyQuestion, answers: Record<string, any>): boolean => {
+  if (question.showIf && question.showIf.length > 0 && !allConditionsMatch(question.showIf, answers)) {
+    return false;
+  }
+  if (question.skipIf && question.skipIf.length > 0 && anyConditionMatches(question.skipIf, answers)) {
+    return false;
+  }
+  return true;
+};
+
+export const getVisibleQuestions = (questions: SurveyQuestion[], answers: Record<string, any>): SurveyQuestion[] => {
+  return questions.filter(question => isQuestionVisible(question, answers));
+};
+
+/**
+ * Index of the next visible question after fromIndex, or -1 when the survey has no more questions
+ */
+export const getNextQuestionIndex = (
+  questions: SurveyQuestion[],
+  fromIndex: number,
+  answers: Record<string, any>
+): number => {
+  for (let i = fromIndex + 1; i < questions.length; i++) {
+    if (isQuestionVisible(questions[i], answers)) return i;
+  }
+  return -1;
+};
+
+/**
+ * Index of the previous visible question before fromIndex, or -1 when already at the start
+ */
+export const getPreviousQuestionIndex = (
+  questions: SurveyQuestion[],
+  fromIndex: number,
+  answers: Record<string, any>
+): number => {
+  for (let i = fromIndex - 1; i >= 0; i--) {
+    if (isQuestionVisible(questions[i], answers)) return i;
+  }
+  return -1;
+};
+
+/**
+ * First visible question index (the first question may itself be conditional)
+ */
+export const getFirstQuestionIndex = (questions: SurveyQuestion[], answers: Record<string, any> = {}): number => {
+  return getNextQuestionIndex(questions, -1, answers);
+};
+
+/**
+ * Termination rule triggered by answering this question, if any
+ */
+export const getTerminationRule = (
+  question: SurveyQuestion,
+  answers: Record<string, any>
+): TerminationRule | null => {
+  if (!question.endSurveyIf) return null;
+  return question.endSurveyIf.find(rule => allConditionsMatch(rule.when, answers)) || null;
+};
+
+/**
+ * Convert the selected option into the stored value (e.g. tastes_odors Yes → "Tastes;Odors")
+ */
+export const transformAnswer = (question: SurveyQuestion, answer: any): any => {
+  if (question.answerMap && typeof answer === 'string' && question.answerMap[answer] !== undefined) {
+    return question.answerMap[answer];
+  }
+  return answer;
+};
+
+/**
+ * Values conditions on this question compare against - the stored (answerMap-transformed) options
+ */
+export const getConditionValues = (question: SurveyQuestion): string[] | undefined => {
+  const options = question.type === 'yesno' ? ['Yes', 'No'] : question.options;
+  return options?.map(option => transformAnswer(question, option));
+};
+
+/**
+ * Validate an answer against the question's validation rule
+ * @returns Error message, or null when the answer is valid
+ */
+export const validateAnswer = (question: SurveyQuestion, answer: any): string | null => {
+  const rule = question.validation;
+
+  if (question.required && !isAnswered(answer)) {
+    return rule?.message || 'This question is required';
+  }
+  if (!rule || !isAnswered(answer)) return null;
+
+  const message = rule.message || 'Please enter a valid answer';
+
+  if (rule.min !== undefined || rule.max !== undefined) {
+    const numeric = Number(answer);
+    if (isNaN(numeric)) return message;
+    if (rule.min !== undefined && numeric < rule.min) return message;
+    if (rule.max !== undefined && numeric > rule.max) return message;
+  }
+
+  if (typeof answer === 'string') {
+    if (rule.minLength !== undefined && answer.trim().length < rule.minLength) return message;
+    if (rule.maxLength !== undefined && answer.trim().length > rule.maxLength) return message;
+    if (rule.pattern) {
+      try {
+        if (!new RegExp(rule.pattern).test(answer)) return message;
+      } catch {
+        console.warn(`⚠️ Invalid validation pattern on question ${question.id}:`, rule.pattern);
+      }
+    }
+  }
+
+  return null;
+};
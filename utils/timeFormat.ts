@@ -71,3 +71,29 @@ export const convert12HourTo24Hour = (time12: string): string => {
   
   return `${hours.toString().padStart(2, '0')}:${minutes}`;
 };
+
+/**
+ * Local calendar day as YYYY-MM-DD (toISOString would give the UTC day)
+ * @param date - Date object or ISO string
+ * @returns Date key (e.g., "2026-01-25")
+ */
+export const toLocalDateKey = (date: Date | string): string => {
+  const dateObj = typeof date === 'string' ? new Date(date) : date;
+  const month = String(dateObj.getMonth() + 1).padStart(2, '0');
+  const day = String(dateObj.getDate()).padStart(2, '0');
+
+  return `${dateObj.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Pay period dates for display
+ * @param period - Start and end date keys (YYYY-MM-DD)
+ * @returns Formatted range (e.g., "Jan 5 - Jan 18, 2026")
+ */
+export const formatPayPeriod = (period: { start: string; end: string }): string => {
+  const format = (key: string, options: Intl.DateTimeFormatOptions) => {
+    const [year, month, day] = key.split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString('en-US', options);
+  };
+  return `${format(period.start, { month: 'short', day: 'numeric' })} - ${format(period.end, { month: 'short', day: 'numeric', year: 'numeric' })}`;
+};